@@ -64,6 +64,8 @@ const customJestConfig = {
     '<rootDir>/node_modules/',
     '<rootDir>/coverage/',
     '<rootDir>/dist/',
+    // Shared test fixtures live beside the tests but hold none themselves
+    '/__tests__/fixtures\\.ts$',
   ],
   
   // Global setup
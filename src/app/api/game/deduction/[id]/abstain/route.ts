@@ -0,0 +1,122 @@
+/**
+ * Deduction Abstention API Endpoint
+ * POST /api/game/deduction/[id]/abstain
+ *
+ * Withdraws the caller's vote and records them as abstaining, closing the
+ * vote if that settles it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DeductionGameState,
+  DeductionPhase,
+  VotingResults,
+} from '../../../../../../types/deduction';
+import {
+  votingSystem,
+  ConsensusCheck,
+} from '../../../../../../lib/games/deduction/voting';
+import {
+  eventSystem,
+  createGameEvent,
+} from '../../../../../../lib/game-engine/events';
+import {
+  stateProjection,
+  createViewer,
+} from '../../../../../../lib/games/projection';
+import {
+  DeductionActionResponse,
+  actionErrorResponse,
+  loadActionContext,
+} from '../../shared';
+
+interface AbstainResponse extends DeductionActionResponse {
+  consensus?: ConsensusCheck;
+  results?: VotingResults;
+  nextPhase?: DeductionPhase;
+  revoteSessionId?: string;
+  gameState?: DeductionGameState;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<AbstainResponse>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      { phases: ['day_voting'] }
+    );
+
+    const session = await votingSystem.getOrStartVotingPhase(
+      gameState,
+      'voting'
+    );
+
+    await votingSystem.handleVotingAbstention(session.id, playerId);
+
+    await eventSystem.emit(
+      createGameEvent({
+        type: 'vote_cast',
+        gameId,
+        data: session.isAnonymous
+          ? { round: session.round }
+          : { round: session.round, voterId: playerId, targetId: 'abstain' },
+      })
+    );
+
+    const { consensus, results, update, revote } =
+      await votingSystem.concludeIfDecided(session.id, gameId);
+
+    // A tie settled by revote keeps the day going between the tied players
+    if (revote) {
+      await eventSystem.emit(
+        createGameEvent({
+          type: 'phase_change',
+          gameId,
+          data: {
+            phase: 'day_voting',
+            round: revote.round,
+            sessionId: revote.id,
+            candidates: revote.candidates ?? [],
+          },
+        })
+      );
+    }
+
+    if (update) {
+      await eventSystem.emit(
+        createGameEvent({
+          type: 'phase_change',
+          gameId,
+          data: {
+            phase: update.phaseTransition ?? update.gameState.phase,
+            eliminated: results?.eliminated ?? [],
+            winner: update.gameState.data.winner ?? null,
+          },
+        })
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        consensus,
+        results,
+        nextPhase: update?.phaseTransition,
+        revoteSessionId: revote?.id,
+        gameState: update
+          ? stateProjection.projectState(
+              update.gameState,
+              createViewer(playerId),
+              'deduction'
+            )
+          : undefined,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    return actionErrorResponse(error, 'abstain from vote');
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Deduction Accusation API Endpoint
+ * POST /api/game/deduction/[id]/accuse
+ *
+ * Lets a player formally accuse another during the day. Once two players
+ * have accused the same suspect, the discussion moves on to a vote.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AccusationActionSchema,
+  DeductionGameState,
+} from '../../../../../../types/deduction';
+import { GameError, UUID } from '../../../../../../types/core';
+import { kvService } from '../../../../../../lib/database';
+import { votingSystem } from '../../../../../../lib/games/deduction/voting';
+import {
+  eventSystem,
+  createGameEvent,
+} from '../../../../../../lib/game-engine/events';
+import {
+  DeductionActionResponse,
+  GAME_TTL,
+  actionErrorResponse,
+  loadActionContext,
+  saveGameState,
+} from '../../shared';
+
+// Accusations needed against one player to force a vote
+const ACCUSATIONS_TO_VOTE = 2;
+
+// Request validation schema
+const AccuseRequestSchema = AccusationActionSchema.shape.data;
+
+interface StoredAccusation {
+  accuserId: UUID;
+  accusedId: UUID;
+  suspectedRole?: string;
+  reasoning: string;
+  confidence: number;
+  timestamp: string;
+}
+
+interface AccuseResponse extends DeductionActionResponse {
+  accusation?: StoredAccusation;
+  accusers?: UUID[];
+  votingOpened?: boolean;
+  sessionId?: string;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<AccuseResponse>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      { phases: ['day_discussion', 'day_voting'] }
+    );
+    const accuseRequest = AccuseRequestSchema.parse(await request.json());
+
+    if (accuseRequest.accusedId === playerId) {
+      throw new GameError('INVALID_TARGET', 'You cannot accuse yourself');
+    }
+    if (!gameState.data.alivePlayers.includes(accuseRequest.accusedId)) {
+      throw new GameError(
+        'INVALID_TARGET',
+        'Only living players can be accused',
+        { accusedId: accuseRequest.accusedId }
+      );
+    }
+
+    const accusation: StoredAccusation = {
+      accuserId: playerId,
+      accusedId: accuseRequest.accusedId,
+      suspectedRole: accuseRequest.suspectedRole,
+      reasoning: accuseRequest.reasoning,
+      confidence: accuseRequest.confidence,
+      timestamp: new Date().toISOString(),
+    };
+
+    // A player stands behind one accusation per day; a new one replaces it
+    const accusationsKey = `game_accusations:${gameId}:${gameState.data.round}`;
+    const stored = await kvService.get<StoredAccusation[]>(accusationsKey);
+    const accusations = [
+      ...((stored.success ? stored.data : null) ?? []).filter(
+        previous => previous.accuserId !== playerId
+      ),
+      accusation,
+    ];
+    await kvService.set(accusationsKey, accusations, GAME_TTL);
+    await recordSuspicion(
+      gameId,
+      playerId,
+      accusation.accusedId,
+      accusation.confidence
+    );
+
+    const accusers = accusations
+      .filter(existing => existing.accusedId === accusation.accusedId)
+      .map(existing => existing.accuserId);
+
+    await eventSystem.emit(
+      createGameEvent({
+        type: 'accusation',
+        gameId,
+        data: {
+          accuserId: playerId,
+          accusedId: accusation.accusedId,
+          suspectedRole: accusation.suspectedRole ?? null,
+          reasoning: accusation.reasoning,
+          confidence: accusation.confidence,
+          accusers,
+        },
+      })
+    );
+
+    let sessionId: string | undefined;
+    if (
+      gameState.phase === 'day_discussion' &&
+      accusers.length >= ACCUSATIONS_TO_VOTE
+    ) {
+      sessionId = await openVoting(gameId, gameState, accusation.accusedId);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        accusation,
+        accusers,
+        votingOpened: sessionId !== undefined,
+        sessionId,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    return actionErrorResponse(error, 'make accusation');
+  }
+}
+
+// Helper functions
+async function recordSuspicion(
+  gameId: UUID,
+  playerId: UUID,
+  suspectId: UUID,
+  confidence: number
+): Promise<void> {
+  const key = `player_data:${gameId}:${playerId}`;
+  const result = await kvService.get<{ suspicions?: Record<UUID, number> }>(
+    key
+  );
+  const playerData = (result.success ? result.data : null) ?? {};
+
+  await kvService.set(
+    key,
+    {
+      ...playerData,
+      suspicions: { ...playerData.suspicions, [suspectId]: confidence },
+    },
+    GAME_TTL
+  );
+}
+
+async function openVoting(
+  gameId: UUID,
+  gameState: DeductionGameState,
+  accusedId: UUID
+): Promise<string> {
+  const votingState: DeductionGameState = {
+    ...gameState,
+    phase: 'day_voting',
+    data: {
+      ...gameState.data,
+      events: [
+        ...gameState.data.events,
+        {
+          id: crypto.randomUUID(),
+          type: 'phase_change',
+          description: 'The accusations have been heard. Time to vote.',
+          timestamp: new Date(),
+          affectedPlayers: [accusedId],
+          isPublic: true,
+        },
+      ],
+    },
+  };
+  const savedState = await saveGameState(gameId, votingState);
+
+  const session = await votingSystem.getOrStartVotingPhase(
+    savedState,
+    'voting'
+  );
+
+  await eventSystem.emit(
+    createGameEvent({
+      type: 'phase_change',
+      gameId,
+      data: {
+        phase: 'day_voting',
+        round: votingState.data.round,
+        accusedId,
+      },
+    })
+  );
+
+  return session.id;
+}
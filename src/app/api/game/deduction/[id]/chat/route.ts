@@ -0,0 +1,316 @@
+/**
+ * Deduction Chat API Endpoint
+ * POST /api/game/deduction/[id]/chat
+ * GET /api/game/deduction/[id]/chat
+ *
+ * Sends public messages, whispers and team chat, and returns the messages
+ * the caller is allowed to read. Eliminated players only talk among
+ * themselves in the dead chat, which the living cannot read until the game
+ * is over.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AssignedRole,
+  Communication,
+  CommunicationActionSchema,
+  DeductionGameState,
+} from '../../../../../../types/deduction';
+import { GameError, UUID } from '../../../../../../types/core';
+import { kvService } from '../../../../../../lib/database';
+import {
+  eventSystem,
+  createGameEvent,
+} from '../../../../../../lib/game-engine/events';
+import {
+  DeductionActionResponse,
+  GAME_TTL,
+  actionErrorResponse,
+  loadActionContext,
+} from '../../shared';
+
+// Oldest messages are dropped once a game's log reaches this size
+const MAX_STORED_MESSAGES = 500;
+
+const APPEND_CONFLICT_RETRIES = 8; // Enough for every player talking at once
+const APPEND_BACKOFF_MS = 20; // Base delay between attempts
+
+// Request validation schema
+const ChatRequestSchema = CommunicationActionSchema.shape.data;
+
+interface ChatResponse extends DeductionActionResponse {
+  message?: Communication;
+  messages?: Communication[];
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ChatResponse>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      {
+        phases: ['day_discussion', 'day_voting', 'night_actions'],
+        requireAlive: false,
+      }
+    );
+    const { recipient, message, communicationType } = ChatRequestSchema.parse(
+      await request.json()
+    );
+
+    const teammates = await loadTeammates(gameId, playerId);
+    validateRecipient(gameState, playerId, teammates, {
+      recipient,
+      communicationType,
+    });
+
+    const communication: Communication = {
+      id: crypto.randomUUID(),
+      from: playerId,
+      to: recipient,
+      type: communicationType,
+      content: message,
+      timestamp: new Date(),
+      isPublic:
+        communicationType === 'public_message' ||
+        communicationType === 'vote_declaration',
+      phase: gameState.phase,
+      round: gameState.data.round,
+    };
+
+    await appendMessage(gameId, communication);
+
+    // Private messages are only pushed to the players who may read them
+    await eventSystem.emit(
+      createGameEvent({
+        type: 'chat_message',
+        gameId,
+        data: {
+          communication: {
+            ...communication,
+            timestamp: communication.timestamp.toISOString(),
+          },
+        },
+        affectedPlayers: communication.isPublic
+          ? undefined
+          : communicationType === 'whisper'
+            ? [playerId, recipient]
+            : communicationType === 'dead_chat'
+              ? gameState.data.eliminatedPlayers
+              : [playerId, ...teammates],
+        isPublic: communication.isPublic,
+      })
+    );
+
+    return NextResponse.json(
+      { success: true, message: communication },
+      { status: 200 }
+    );
+  } catch (error) {
+    return actionErrorResponse(error, 'send message');
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ChatResponse>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      {
+        phases: [
+          'role_assignment',
+          'day_discussion',
+          'day_voting',
+          'night_actions',
+          'game_over',
+        ],
+        requireAlive: false,
+      }
+    );
+
+    const teammates = await loadTeammates(gameId, playerId);
+    const canReadDeadChat =
+      gameState.phase === 'game_over' ||
+      gameState.data.eliminatedPlayers.includes(playerId);
+    const messages = (await loadMessages(gameId)).filter(
+      communication =>
+        communication.isPublic ||
+        communication.from === playerId ||
+        communication.to === playerId ||
+        (communication.type === 'team_chat' &&
+          teammates.includes(communication.from)) ||
+        (communication.type === 'dead_chat' && canReadDeadChat)
+    );
+
+    return NextResponse.json({ success: true, messages }, { status: 200 });
+  } catch (error) {
+    return actionErrorResponse(error, 'load messages');
+  }
+}
+
+// Helper functions
+async function loadMessages(gameId: UUID): Promise<Communication[]> {
+  const result = await kvService.get<Communication[]>(`game_chat:${gameId}`);
+  return (result.success ? result.data : null) ?? [];
+}
+
+/**
+ * Add a message to the game's log, swapping it in against the log it was
+ * appended to so messages sent at the same moment are all kept
+ */
+async function appendMessage(
+  gameId: UUID,
+  communication: Communication
+): Promise<void> {
+  const key = `game_chat:${gameId}`;
+  for (let attempt = 1; ; attempt++) {
+    const stored = await kvService.get<Communication[]>(key);
+    if (!stored.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to load messages', {
+        gameId,
+      });
+    }
+
+    const result = await kvService.compareAndSwap(
+      key,
+      stored.data ?? null,
+      [...(stored.data ?? []), communication].slice(-MAX_STORED_MESSAGES),
+      GAME_TTL
+    );
+    if (!result.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to save message', {
+        gameId,
+      });
+    }
+    if (result.data) {
+      return;
+    }
+    if (attempt >= APPEND_CONFLICT_RETRIES) {
+      throw new GameError(
+        'STATE_CONFLICT',
+        'The chat was changed by another message',
+        { gameId }
+      );
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, APPEND_BACKOFF_MS * attempt)
+    );
+  }
+}
+
+async function loadTeammates(gameId: UUID, playerId: UUID): Promise<UUID[]> {
+  const result = await kvService.get<AssignedRole>(
+    `game_role:${gameId}:${playerId}`
+  );
+  const teammates = (result.success ? result.data?.teammates : null) ?? [];
+  return teammates.filter(teammate => teammate !== playerId);
+}
+
+function validateRecipient(
+  gameState: DeductionGameState,
+  playerId: UUID,
+  teammates: UUID[],
+  {
+    recipient,
+    communicationType,
+  }: {
+    recipient: Communication['to'];
+    communicationType: Communication['type'];
+  }
+): void {
+  // The dead only talk among themselves, at any time of day
+  const isEliminated = !gameState.data.alivePlayers.includes(playerId);
+  if (isEliminated && communicationType !== 'dead_chat') {
+    throw new GameError(
+      'PLAYER_ELIMINATED',
+      'Eliminated players can only talk in the dead chat',
+      { communicationType }
+    );
+  }
+  if (!isEliminated && communicationType === 'dead_chat') {
+    throw new GameError(
+      'INVALID_ACTION',
+      'Only eliminated players can use the dead chat',
+      { communicationType }
+    );
+  }
+
+  if (
+    gameState.phase === 'night_actions' &&
+    communicationType !== 'team_chat' &&
+    communicationType !== 'dead_chat'
+  ) {
+    throw new GameError(
+      'INVALID_PHASE',
+      'Only team chat is open during the night',
+      { communicationType }
+    );
+  }
+
+  switch (communicationType) {
+    case 'public_message':
+      if (recipient !== 'all') {
+        throw new GameError(
+          'INVALID_TARGET',
+          'Public messages go to everyone',
+          { recipient }
+        );
+      }
+      return;
+
+    case 'vote_declaration':
+      if (recipient !== 'all' || gameState.phase !== 'day_voting') {
+        throw new GameError(
+          'INVALID_ACTION',
+          'Votes can only be declared to everyone while voting',
+          { recipient, phase: gameState.phase }
+        );
+      }
+      return;
+
+    case 'whisper':
+      if (
+        recipient === 'all' ||
+        recipient === 'team' ||
+        recipient === playerId ||
+        !gameState.data.alivePlayers.includes(recipient)
+      ) {
+        throw new GameError(
+          'INVALID_TARGET',
+          'Whispers go to one other living player',
+          { recipient }
+        );
+      }
+      return;
+
+    case 'team_chat':
+      if (recipient !== 'team' || teammates.length === 0) {
+        throw new GameError('INVALID_ACTION', 'You have no team to talk to', {
+          recipient,
+        });
+      }
+      return;
+
+    case 'dead_chat':
+      if (recipient !== 'all') {
+        throw new GameError(
+          'INVALID_TARGET',
+          'Dead chat goes to every eliminated player',
+          { recipient }
+        );
+      }
+      return;
+
+    case 'last_words':
+      throw new GameError(
+        'INVALID_ACTION',
+        'Last words cannot be sent as a chat message',
+        { communicationType }
+      );
+  }
+}
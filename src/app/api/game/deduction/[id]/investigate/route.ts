@@ -0,0 +1,211 @@
+/**
+ * Deduction Investigation API Endpoint
+ * POST /api/game/deduction/[id]/investigate
+ *
+ * During the day discussion a player can either use their role's daytime
+ * investigation on another player, or share one of their own clues with
+ * the whole table
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  ActiveAbility,
+  AssignedRole,
+  ClueCard,
+} from '../../../../../../types/deduction';
+import { GameError } from '../../../../../../types/core';
+import { kvService } from '../../../../../../lib/database';
+import {
+  DeductionClueSystem,
+  type InvestigationResult,
+} from '../../../../../../lib/games/deduction';
+import {
+  getGameRandom,
+  withRandomState,
+} from '../../../../../../lib/game-engine/random';
+import {
+  eventSystem,
+  createGameEvent,
+} from '../../../../../../lib/game-engine/events';
+import {
+  DeductionActionResponse,
+  GAME_TTL,
+  actionErrorResponse,
+  loadActionContext,
+  loadDeductionPlayer,
+  saveGameState,
+} from '../../shared';
+
+// Request validation schema
+const InvestigateRequestSchema = z.union([
+  z.object({ targetId: z.string().uuid() }),
+  z.object({ clueId: z.string().min(1) }),
+]);
+
+interface InvestigateResponse extends DeductionActionResponse {
+  investigation?: InvestigationResult;
+  sharedClue?: ClueCard;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<InvestigateResponse>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      { phases: ['day_discussion'] }
+    );
+    const investigateRequest = InvestigateRequestSchema.parse(
+      await request.json()
+    );
+    const cluesKey = `game_clues:${gameId}:${playerId}`;
+
+    if ('clueId' in investigateRequest) {
+      const cluesResult = await kvService.get<ClueCard[]>(cluesKey);
+      const clues = (cluesResult.success ? cluesResult.data : null) ?? [];
+      const clue = clues.find(
+        candidate => candidate.id === investigateRequest.clueId
+      );
+      if (!clue) {
+        throw new GameError('CLUE_NOT_FOUND', 'You do not hold that clue', {
+          clueId: investigateRequest.clueId,
+        });
+      }
+
+      // Shared clues are revealed to everyone rather than to one player
+      const sharedClue: ClueCard = {
+        ...clue,
+        isRevealed: true,
+        revealedAt: new Date(),
+        revealedBy: undefined,
+      };
+      await saveGameState(gameId, {
+        ...gameState,
+        data: {
+          ...gameState.data,
+          cluesAvailable: [
+            ...gameState.data.cluesAvailable.filter(
+              available => available.id !== clue.id
+            ),
+            sharedClue,
+          ],
+          events: [
+            ...gameState.data.events,
+            {
+              id: crypto.randomUUID(),
+              type: 'clue_revealed',
+              description: `${playerId} shared a clue: ${clue.title}`,
+              timestamp: new Date(),
+              affectedPlayers: [playerId],
+              isPublic: true,
+            },
+          ],
+        },
+      });
+      await eventSystem.emit(
+        createGameEvent({
+          type: 'clue_revealed',
+          gameId,
+          data: { clueId: clue.id, sharedBy: playerId },
+        })
+      );
+
+      return NextResponse.json({ success: true, sharedClue }, { status: 200 });
+    }
+
+    const { targetId } = investigateRequest;
+    if (targetId === playerId) {
+      throw new GameError('INVALID_TARGET', 'You cannot investigate yourself');
+    }
+    if (!gameState.data.alivePlayers.includes(targetId)) {
+      throw new GameError(
+        'INVALID_TARGET',
+        'Only living players can be investigated',
+        { targetId }
+      );
+    }
+
+    const investigator = await loadDeductionPlayer(gameId, gameState, playerId);
+    const role = investigator.gameSpecificData.role;
+    const ability = role.abilities.find(active =>
+      canInvestigateToday(active, gameState.data.round)
+    );
+    if (!ability) {
+      throw new GameError(
+        'INVALID_ACTION',
+        'You have no investigation to use today',
+        { playerId }
+      );
+    }
+
+    // The clue system uses the first investigative ability it finds, so
+    // only hand it the one being used today
+    const dayInvestigator = {
+      ...investigator,
+      gameSpecificData: {
+        ...investigator.gameSpecificData,
+        role: { ...role, abilities: [ability] },
+      },
+    };
+    const target = await loadDeductionPlayer(gameId, gameState, targetId);
+    const random = getGameRandom(gameState);
+    const investigation = await DeductionClueSystem.withRandom(
+      random
+    ).conductPlayerInvestigation(dayInvestigator, target, gameState);
+    await saveGameState(gameId, withRandomState(gameState, random));
+
+    await kvService.set(
+      `game_role:${gameId}:${playerId}`,
+      spendAbility(role, ability, gameState.data.round),
+      GAME_TTL
+    );
+    if (investigation.generatedClue) {
+      await kvService.set(
+        cluesKey,
+        [...investigator.gameSpecificData.clues, investigation.generatedClue],
+        GAME_TTL
+      );
+    }
+
+    return NextResponse.json({ success: true, investigation }, { status: 200 });
+  } catch (error) {
+    return actionErrorResponse(error, 'investigate');
+  }
+}
+
+// Helper functions
+function canInvestigateToday(active: ActiveAbility, round: number): boolean {
+  const { ability } = active;
+  return (
+    ability.type === 'investigate' &&
+    (ability.timing === 'day' || ability.timing === 'anytime') &&
+    !active.isBlocked &&
+    active.remainingUses !== 0 &&
+    active.lastUsedRound !== round
+  );
+}
+
+function spendAbility(
+  role: AssignedRole,
+  used: ActiveAbility,
+  round: number
+): AssignedRole {
+  return {
+    ...role,
+    abilities: role.abilities.map(active => {
+      if (active !== used) return active;
+      const { type } = active.ability.usageLimit;
+      const spends =
+        (type === 'per_game' || type === 'one_time') &&
+        active.remainingUses > 0;
+      return {
+        ...active,
+        remainingUses: active.remainingUses - (spends ? 1 : 0),
+        lastUsedRound: round,
+      };
+    }),
+  };
+}
@@ -10,10 +10,16 @@ import { z } from 'zod';
 import { DeductionGameState } from '../../../../../../types/deduction';
 import { GameError } from '../../../../../../types/core';
 import { kvService } from '../../../../../../lib/database';
+import { saveDeductionGame } from '../../../../../../lib/games/deduction/game-store';
+import { issueSessionToken } from '../../../../../../lib/api/session-token';
+import {
+  stateProjection,
+  createViewer,
+} from '../../../../../../lib/games/projection';
 
-// Request validation schema
+// Request validation schema; the player's id is issued by the server, so
+// any id in the body is dropped
 const JoinGameRequestSchema = z.object({
-  playerId: z.string().uuid(),
   playerName: z.string().min(1).max(50).optional(),
   inviteCode: z.string().optional(), // For private games
 });
@@ -21,7 +27,9 @@ const JoinGameRequestSchema = z.object({
 interface JoinGameResponse {
   success: boolean;
   gameState?: DeductionGameState;
+  playerId?: string;
   playerPosition?: number;
+  sessionToken?: string;
   error?: string;
   code?: string;
 }
@@ -81,18 +89,6 @@ export async function POST(
       );
     }
 
-    // Check if player is already in the game
-    if (gameState.data.alivePlayers.includes(validatedRequest.playerId)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Player already in game',
-          code: 'PLAYER_ALREADY_JOINED',
-        },
-        { status: 400 }
-      );
-    }
-
     // Basic validation - allow joining if in role_assignment phase
     // TODO: Add proper game config validation when full Game object is available
     const maxPlayers = 12; // Default max for deduction games
@@ -139,23 +135,23 @@ export async function POST(
       }
     }
 
+    // Every join seats a new player under an identity only the server hands out
+    const playerId = crypto.randomUUID();
+
     // Add player to game
     const updatedGameState: DeductionGameState = {
       ...gameState,
       data: {
         ...gameState.data,
-        alivePlayers: [
-          ...gameState.data.alivePlayers,
-          validatedRequest.playerId,
-        ],
+        alivePlayers: [...gameState.data.alivePlayers, playerId],
         events: [
           ...gameState.data.events,
           {
             id: crypto.randomUUID(),
             type: 'phase_change',
-            description: `Player ${validatedRequest.playerName || validatedRequest.playerId} joined the game`,
+            description: `Player ${validatedRequest.playerName || playerId} joined the game`,
             timestamp: new Date(),
-            affectedPlayers: [validatedRequest.playerId],
+            affectedPlayers: [playerId],
             isPublic: true,
             flavorText: `Welcome to the game!`,
           },
@@ -170,32 +166,39 @@ export async function POST(
       // For now, stay in role_assignment phase
     }
 
-    // Save updated game state
-    await kvService.set(
-      `game:${gameId}`,
-      updatedGameState,
-      7 * 24 * 60 * 60 // 7 day TTL
-    );
+    // Save updated game state, failing if another request changed it first
+    const savedGameState = await saveDeductionGame(gameId, updatedGameState);
 
     // Store player-to-game mapping for easy lookup
-    await kvService.set(
-      `player_game:${validatedRequest.playerId}`,
-      gameId,
-      7 * 24 * 60 * 60
-    );
+    await kvService.set(`player_game:${playerId}`, gameId, 7 * 24 * 60 * 60);
 
     // Initialize player-specific data
-    await initializePlayerData(gameId, validatedRequest.playerId);
+    await initializePlayerData(gameId, playerId, validatedRequest.playerName);
 
     //TODO: Implement WebSocket notification to other players about new joiner
 
-    const playerPosition = updatedGameState.data.alivePlayers.length;
+    const playerPosition = savedGameState.data.alivePlayers.length;
+
+    // Bind the joining player's identity to a signed session token
+    const sessionToken = issueSessionToken({
+      playerId,
+      gameId,
+      playerName: validatedRequest.playerName,
+      role: 'player',
+    });
 
     return NextResponse.json(
       {
         success: true,
-        gameState: updatedGameState,
+        // Only hand the new player the state they are allowed to see
+        gameState: stateProjection.projectState(
+          savedGameState,
+          createViewer(playerId),
+          'deduction'
+        ),
+        playerId,
         playerPosition,
+        sessionToken,
       },
       { status: 200 }
     );
@@ -220,7 +223,7 @@ export async function POST(
           error: error.message,
           code: error.code,
         },
-        { status: 400 }
+        { status: error.code === 'STATE_CONFLICT' ? 409 : 400 }
       );
     }
 
@@ -244,11 +247,13 @@ function isValidUUID(uuid: string): boolean {
 
 async function initializePlayerData(
   gameId: string,
-  playerId: string
+  playerId: string,
+  playerName?: string
 ): Promise<void> {
   try {
     // Initialize player's game-specific data storage
     const initialPlayerData = {
+      name: playerName,
       suspicions: {},
       communications: [],
       actionHistory: [],
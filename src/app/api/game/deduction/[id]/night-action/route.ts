@@ -0,0 +1,122 @@
+/**
+ * Deduction Night Action API Endpoint
+ * POST /api/game/deduction/[id]/night-action
+ *
+ * Queues the caller's night ability. Once every player with a night ability
+ * has acted the night is resolved and the next day begins.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  DeductionGameState,
+  NightAction,
+  NightActionResult,
+} from '../../../../../../types/deduction';
+import { JSONValueSchema, UUID } from '../../../../../../types/core';
+import { nightActionResolver } from '../../../../../../lib/games/deduction/night-actions';
+import {
+  eventSystem,
+  createGameEvent,
+} from '../../../../../../lib/game-engine/events';
+import {
+  stateProjection,
+  createViewer,
+} from '../../../../../../lib/games/projection';
+import {
+  DeductionActionResponse,
+  actionErrorResponse,
+  loadActionContext,
+} from '../../shared';
+
+// Request validation schema
+const NightActionRequestSchema = z.object({
+  abilityName: z.string().min(1).max(100),
+  targetId: z.string().uuid().optional(),
+  parameters: z.record(JSONValueSchema).optional(),
+});
+
+interface NightActionResponse extends DeductionActionResponse {
+  action?: NightAction;
+  waitingOn?: number;
+  result?: NightActionResult;
+  eliminated?: UUID[];
+  gameState?: DeductionGameState;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<NightActionResponse>> {
+  try {
+    const { gameId, playerId } = await loadActionContext(request, params.id, {
+      phases: ['night_actions'],
+    });
+    const actionRequest = NightActionRequestSchema.parse(await request.json());
+
+    const action = await nightActionResolver.submitAction(
+      gameId,
+      playerId,
+      actionRequest
+    );
+
+    // Who acted stays private; others only learn how many are left
+    const pending = await nightActionResolver.getPendingActors(gameId);
+    if (pending.length > 0) {
+      return NextResponse.json(
+        { success: true, action, waitingOn: pending.length },
+        { status: 200 }
+      );
+    }
+
+    const night = await nightActionResolver.resolveNight(gameId);
+
+    // Every actor hears how their own action went
+    for (const [actorId, result] of Object.entries(night.privateResults)) {
+      await eventSystem.emit(
+        createGameEvent({
+          type: 'night_result',
+          gameId,
+          data: {
+            success: result.success,
+            effects: result.effects,
+            information: result.information ?? null,
+          },
+          affectedPlayers: [actorId],
+          isPublic: false,
+        })
+      );
+    }
+
+    await eventSystem.emit(
+      createGameEvent({
+        type: 'phase_change',
+        gameId,
+        data: {
+          phase: night.gameState.phase,
+          round: night.gameState.data.round,
+          eliminated: night.eliminated,
+          winner: night.gameState.data.winner ?? null,
+        },
+      })
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        action,
+        waitingOn: 0,
+        result: night.privateResults[playerId],
+        eliminated: night.eliminated,
+        gameState: stateProjection.projectState(
+          night.gameState,
+          createViewer(playerId),
+          'deduction'
+        ),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    return actionErrorResponse(error, 'submit night action');
+  }
+}
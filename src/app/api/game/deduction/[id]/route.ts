@@ -13,17 +13,32 @@ import {
 } from '../../../../../types/deduction';
 import { GameError } from '../../../../../types/core';
 import { kvService } from '../../../../../lib/database';
+import {
+  stateProjection,
+  createViewer,
+  loadVisibleRoles,
+  VisibleRole,
+} from '../../../../../lib/games/projection';
+import {
+  getSessionPlayerId,
+  requireGameSession,
+  isSessionError,
+  getSessionErrorStatus,
+} from '../../../../../lib/api/session-token';
 
 // Query parameters validation
 const GetGameQuerySchema = z.object({
-  playerId: z.string().uuid().optional(),
-  includeSecrets: z.coerce.boolean().optional().default(false),
+  includeSecrets: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform(value => value === 'true'),
 });
 
 interface GetGameResponse {
   success: boolean;
   gameState?: DeductionGameState;
   playerData?: Partial<DeductionPlayer>;
+  visibleRoles?: Record<string, VisibleRole>;
   error?: string;
   code?: string;
 }
@@ -50,8 +65,7 @@ export async function GET(
     // Parse query parameters
     const { searchParams } = new URL(request.url);
     const queryParams = GetGameQuerySchema.parse({
-      playerId: searchParams.get('playerId'),
-      includeSecrets: searchParams.get('includeSecrets'),
+      includeSecrets: searchParams.get('includeSecrets') ?? undefined,
     });
 
     // Retrieve game state from storage
@@ -74,13 +88,18 @@ export async function GET(
     // Note: Game type validation removed - this endpoint is deduction-specific
     // and gameState is already typed as DeductionGameState
 
-    // Create response with sanitized game state
-    let sanitizedGameState: DeductionGameState;
+    // The viewer is whoever the session token belongs to; anonymous
+    // requests and spectator tokens get the spectator view
+    const playerId = getSessionPlayerId(request, gameId);
+
     let playerData: Partial<DeductionPlayer> | undefined;
 
-    if (queryParams.playerId) {
+    if (playerId) {
       // Validate player is part of this game
-      if (!gameState.data.alivePlayers.includes(queryParams.playerId)) {
+      if (
+        !gameState.data.alivePlayers.includes(playerId) &&
+        !gameState.data.eliminatedPlayers.includes(playerId)
+      ) {
         return NextResponse.json(
           {
             success: false,
@@ -92,24 +111,39 @@ export async function GET(
       }
 
       // Get player-specific data
-      playerData = await getPlayerSpecificData(gameId, queryParams.playerId);
+      playerData = await getPlayerSpecificData(gameId, playerId);
+    }
 
-      // Sanitize game state based on player's perspective
-      sanitizedGameState = sanitizeGameStateForPlayer(
-        gameState,
-        queryParams.playerId,
-        queryParams.includeSecrets
+    // Secrets are only opened up for post-game review
+    if (queryParams.includeSecrets && gameState.phase !== 'game_over') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Secrets are only available once the game is over',
+          code: 'INSUFFICIENT_PERMISSIONS',
+        },
+        { status: 403 }
       );
-    } else {
-      // Public game state (spectator view)
-      sanitizedGameState = sanitizeGameStateForPublic(gameState);
     }
 
+    // Project the game state from the viewer's perspective
+    const viewer = createViewer(
+      playerId,
+      queryParams.includeSecrets ? 'game_master' : undefined
+    );
+    const projectedGameState = stateProjection.projectState(
+      gameState,
+      viewer,
+      'deduction'
+    );
+    const visibleRoles = await loadVisibleRoles(gameId, gameState, viewer);
+
     return NextResponse.json(
       {
         success: true,
-        gameState: sanitizedGameState,
+        gameState: projectedGameState,
         playerData,
+        visibleRoles,
       },
       { status: 200 }
     );
@@ -127,6 +161,17 @@ export async function GET(
       );
     }
 
+    if (isSessionError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: getSessionErrorStatus(error) }
+      );
+    }
+
     if (error instanceof GameError) {
       return NextResponse.json(
         {
@@ -173,18 +218,8 @@ export async function DELETE(
       );
     }
 
-    // Get requester ID from request (should be in auth header)
-    const requesterId = request.headers.get('x-player-id');
-    if (!requesterId || !isValidUUID(requesterId)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Authentication required',
-          code: 'AUTH_REQUIRED',
-        },
-        { status: 401 }
-      );
-    }
+    // Get requester ID from the session token
+    const { playerId: requesterId } = requireGameSession(request, gameId);
 
     // Retrieve game state to check permissions
     const gameStateResult = await kvService.get(`game:${gameId}`);
@@ -204,7 +239,9 @@ export async function DELETE(
     }
 
     // Check if requester is the creator or has admin privileges
-    const isCreator = gameState.data.alivePlayers[0] === requesterId; // First player is creator
+    const isCreator =
+      (gameState.data.createdBy ?? gameState.data.alivePlayers[0]) ===
+      requesterId;
     //TODO: Implement admin role checking
     const isAdmin = false;
 
@@ -238,6 +275,7 @@ export async function DELETE(
     await Promise.all([
       kvService.delete(`creator_games:${requesterId}`),
       kvService.delete(`voting_session:${gameId}`),
+      kvService.delete(`game_initial_state:${gameId}`),
       //TODO: Clean up additional game-related data (roles, clues, etc.)
     ]);
 
@@ -250,6 +288,17 @@ export async function DELETE(
   } catch (error) {
     console.error('Failed to delete deduction game:', error);
 
+    if (isSessionError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: getSessionErrorStatus(error) }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -301,61 +350,3 @@ async function getPlayerSpecificData(
     return undefined;
   }
 }
-
-function sanitizeGameStateForPlayer(
-  gameState: DeductionGameState,
-  playerId: string,
-  includeSecrets: boolean
-): DeductionGameState {
-  // Create a sanitized copy of the game state
-  const sanitized: DeductionGameState = {
-    ...gameState,
-    data: {
-      ...gameState.data,
-      // Filter events based on player visibility
-      events: gameState.data.events.filter(
-        event => event.isPublic || event.affectedPlayers.includes(playerId)
-      ),
-      // Filter clues based on player access
-      cluesAvailable: gameState.data.cluesAvailable.filter(clue => {
-        return (
-          clue.isRevealed || (clue.affectedPlayers?.includes(playerId) ?? false)
-        );
-      }),
-      // Filter night actions (players shouldn't see others' secret actions)
-      nightActions: !includeSecrets
-        ? gameState.data.nightActions.filter(
-            action => action.actorId === playerId || action.isResolved
-          )
-        : gameState.data.nightActions,
-    },
-  };
-
-  // Additional filtering for secrets
-  if (!includeSecrets) {
-    // Already handled above
-  }
-
-  return sanitized;
-}
-
-function sanitizeGameStateForPublic(
-  gameState: DeductionGameState
-): DeductionGameState {
-  const sanitized: DeductionGameState = {
-    ...gameState,
-    data: {
-      ...gameState.data,
-      // Only show public events
-      events: gameState.data.events.filter(event => event.isPublic),
-      // Only show revealed clues
-      cluesAvailable: gameState.data.cluesAvailable.filter(
-        clue => clue.isRevealed
-      ),
-      // Don't show night actions at all for public view
-      nightActions: [],
-    },
-  };
-
-  return sanitized;
-}
@@ -14,15 +14,30 @@ import {
 } from '../../../../../../types/deduction';
 import { GameError } from '../../../../../../types/core';
 import { kvService } from '../../../../../../lib/database';
+import { saveDeductionGame } from '../../../../../../lib/games/deduction/game-store';
+import {
+  getGameRandom,
+  withRandomState,
+  RandomSource,
+} from '../../../../../../lib/game-engine/random';
 import { generateDeductionContent } from '../../../../../../lib/ai';
 import {
-  deductionClueSystem,
+  DeductionClueSystem,
   createStandardClueConfig,
 } from '../../../../../../lib/games/deduction';
+import {
+  stateProjection,
+  createViewer,
+  filterVisibleRoles,
+} from '../../../../../../lib/games/projection';
+import {
+  requireGameSession,
+  isSessionError,
+  getSessionErrorStatus,
+} from '../../../../../../lib/api/session-token';
 
 // Request validation schema
 const StartGameRequestSchema = z.object({
-  requesterId: z.string().uuid(),
   forceStart: z.boolean().optional().default(false),
   customRoleDistribution: z.record(z.number()).optional(),
 });
@@ -81,7 +96,9 @@ export async function POST(
     // and gameState is already typed as DeductionGameState
 
     // Verify requester is the game creator
-    if (gameState.data.alivePlayers[0] !== validatedRequest.requesterId) {
+    const session = requireGameSession(request, gameId);
+    const hostId = gameState.data.createdBy ?? gameState.data.alivePlayers[0];
+    if (session.playerId !== hostId) {
       return NextResponse.json(
         {
           success: false,
@@ -146,15 +163,14 @@ export async function POST(
       );
     }
 
-    // Assign roles to players randomly
+    // Assign roles to players randomly (seeded so replays match)
+    const random = getGameRandom(gameState);
     const roleAssignments = await assignRolesToPlayers(
       gameState.data.alivePlayers,
-      roleDefinitions
+      roleDefinitions,
+      random
     );
 
-    // Store role assignments securely
-    await storeRoleAssignments(gameId, roleAssignments);
-
     // Generate initial clues (default enabled for deduction games)
     let initialClues: any[] = [];
     const enableClues = true; // TODO: Get from game configuration when available
@@ -171,7 +187,10 @@ export async function POST(
           }
         );
 
-        const clueSet = await deductionClueSystem.generateGameClues(clueConfig);
+        const clueSet =
+          await DeductionClueSystem.withRandom(random).generateGameClues(
+            clueConfig
+          );
         initialClues = clueSet.clues;
       } catch (clueError) {
         console.error('Initial clue generation failed:', clueError);
@@ -181,7 +200,7 @@ export async function POST(
 
     // Update game state to active
     const updatedGameState: DeductionGameState = {
-      ...gameState,
+      ...withRandomState(gameState, random),
       phase: 'day_discussion',
       data: {
         ...gameState.data,
@@ -209,12 +228,11 @@ export async function POST(
       },
     };
 
-    // Save updated game state
-    await kvService.set(
-      `game:${gameId}`,
-      updatedGameState,
-      7 * 24 * 60 * 60 // 7 day TTL
-    );
+    // Save updated game state, failing if another request changed it first
+    const savedGameState = await saveDeductionGame(gameId, updatedGameState);
+
+    // Store role assignments securely, now that this request owns the start
+    await storeRoleAssignments(gameId, roleAssignments);
 
     // Store initial clues in game storage
     if (initialClues.length > 0) {
@@ -228,23 +246,18 @@ export async function POST(
     //TODO: Implement WebSocket notifications to all players about game start
     //TODO: Set up automated phase timers
 
-    // Prepare public role information (without secrets)
-    const publicRoleAssignments: Record<
-      string,
-      { role: string; alignment: string }
-    > = {};
-    for (const [playerId, assignment] of Object.entries(roleAssignments)) {
-      publicRoleAssignments[playerId] = {
-        role: assignment.definition.name,
-        alignment: assignment.definition.alignment,
-      };
-    }
+    // Only hand the requester the state and roles they are allowed to see
+    const viewer = createViewer(session.playerId);
 
     return NextResponse.json(
       {
         success: true,
-        gameState: updatedGameState,
-        assignedRoles: publicRoleAssignments,
+        gameState: stateProjection.projectState(
+          savedGameState,
+          viewer,
+          'deduction'
+        ),
+        assignedRoles: filterVisibleRoles(roleAssignments, viewer),
       },
       { status: 200 }
     );
@@ -262,6 +275,17 @@ export async function POST(
       );
     }
 
+    if (isSessionError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: getSessionErrorStatus(error) }
+      );
+    }
+
     if (error instanceof GameError) {
       return NextResponse.json(
         {
@@ -269,7 +293,7 @@ export async function POST(
           error: error.message,
           code: error.code,
         },
-        { status: 400 }
+        { status: error.code === 'STATE_CONFLICT' ? 409 : 400 }
       );
     }
 
@@ -341,10 +365,11 @@ function generateDefaultRoles(
 
 async function assignRolesToPlayers(
   playerIds: string[],
-  roleDefinitions: RoleDefinition[]
+  roleDefinitions: RoleDefinition[],
+  random: RandomSource
 ): Promise<Record<string, AssignedRole>> {
   // Shuffle players randomly
-  const shuffledPlayers = [...playerIds].sort(() => Math.random() - 0.5);
+  const shuffledPlayers = random.shuffle(playerIds);
 
   // Ensure we have enough roles
   if (roleDefinitions.length < shuffledPlayers.length) {
@@ -472,6 +497,24 @@ function generateRoleObjectives(role: RoleDefinition): any[] {
       isCompleted: false,
       points: 100,
     });
+  } else if (role.alignment === 'survivor' || role.type === 'killing') {
+    objectives.push({
+      id: 'survive',
+      description: 'Be alive when the game ends',
+      type: 'survive',
+      isCompleted: false,
+      points: 100,
+    });
+  } else {
+    // Other neutrals play to be voted out by the town
+    objectives.push({
+      id: 'get_voted_out',
+      description: 'Get yourself eliminated by a day vote',
+      type: 'eliminate',
+      target: 'self',
+      isCompleted: false,
+      points: 150,
+    });
   }
 
   return objectives;
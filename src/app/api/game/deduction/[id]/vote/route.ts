@@ -0,0 +1,197 @@
+/**
+ * Deduction Voting API Endpoint
+ * POST /api/game/deduction/[id]/vote
+ * PATCH /api/game/deduction/[id]/vote
+ *
+ * Casts or changes the caller's vote in the day's voting session, closing
+ * the vote once consensus is reached. The host can extend the voting time.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  DeductionGameState,
+  DeductionPhase,
+  VotingResults,
+} from '../../../../../../types/deduction';
+import { GameError } from '../../../../../../types/core';
+import {
+  votingSystem,
+  ConsensusCheck,
+  VoteResult,
+} from '../../../../../../lib/games/deduction/voting';
+import {
+  eventSystem,
+  createGameEvent,
+} from '../../../../../../lib/game-engine/events';
+import {
+  stateProjection,
+  createViewer,
+} from '../../../../../../lib/games/projection';
+import {
+  DeductionActionResponse,
+  actionErrorResponse,
+  loadActionContext,
+} from '../../shared';
+
+// Request validation schemas
+const VoteRequestSchema = z.object({
+  targetId: z.union([
+    z.string().uuid(),
+    z.literal('abstain'),
+    z.literal('no_lynch'),
+  ]),
+  reason: z.string().max(200).optional(),
+});
+
+const ExtendVotingRequestSchema = z.object({
+  additionalSeconds: z.number().int().min(15).max(600),
+});
+
+interface VoteResponse extends DeductionActionResponse {
+  vote?: VoteResult;
+  consensus?: ConsensusCheck;
+  results?: VotingResults;
+  nextPhase?: DeductionPhase;
+  revoteSessionId?: string;
+  gameState?: DeductionGameState;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<VoteResponse>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      { phases: ['day_voting'] }
+    );
+    const { targetId, reason } = VoteRequestSchema.parse(await request.json());
+
+    // Votes go into the day's session, opening one if nobody has yet
+    const session = await votingSystem.getOrStartVotingPhase(
+      gameState,
+      'voting'
+    );
+
+    const vote = await votingSystem.castVote(session.id, playerId, targetId, {
+      reason,
+      isSecret: session.isAnonymous,
+    });
+    if (!vote.success) {
+      throw new GameError('INVALID_ACTION', vote.error ?? 'Vote was refused', {
+        targetId,
+      });
+    }
+
+    await eventSystem.emit(
+      createGameEvent({
+        type: 'vote_cast',
+        gameId,
+        data: session.isAnonymous
+          ? { round: session.round }
+          : { round: session.round, voterId: playerId, targetId },
+      })
+    );
+
+    const { consensus, results, update, revote } =
+      await votingSystem.concludeIfDecided(session.id, gameId);
+
+    // A tie settled by revote keeps the day going between the tied players
+    if (revote) {
+      await eventSystem.emit(
+        createGameEvent({
+          type: 'phase_change',
+          gameId,
+          data: {
+            phase: 'day_voting',
+            round: revote.round,
+            sessionId: revote.id,
+            candidates: revote.candidates ?? [],
+          },
+        })
+      );
+    }
+
+    if (update) {
+      await eventSystem.emit(
+        createGameEvent({
+          type: 'phase_change',
+          gameId,
+          data: {
+            phase: update.phaseTransition ?? update.gameState.phase,
+            eliminated: results?.eliminated ?? [],
+            winner: update.gameState.data.winner ?? null,
+          },
+        })
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        vote,
+        consensus,
+        results,
+        nextPhase: update?.phaseTransition,
+        revoteSessionId: revote?.id,
+        gameState: update
+          ? stateProjection.projectState(
+              update.gameState,
+              createViewer(playerId),
+              'deduction'
+            )
+          : undefined,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    return actionErrorResponse(error, 'cast vote');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<DeductionActionResponse & { timeLimit?: number }>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      { phases: ['day_voting'], requireAlive: false }
+    );
+    const { additionalSeconds } = ExtendVotingRequestSchema.parse(
+      await request.json()
+    );
+
+    const hostId = gameState.data.createdBy ?? gameState.data.alivePlayers[0];
+    if (playerId !== hostId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Only the game creator can extend voting',
+          code: 'INSUFFICIENT_PERMISSIONS',
+        },
+        { status: 403 }
+      );
+    }
+
+    const session = await votingSystem.getActiveSession(gameId);
+    if (
+      !session ||
+      !(await votingSystem.extendVotingTime(session.id, additionalSeconds))
+    ) {
+      throw new GameError('SESSION_NOT_ACTIVE', 'No vote is open to extend', {
+        gameId,
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, timeLimit: session.timeLimit },
+      { status: 200 }
+    );
+  } catch (error) {
+    return actionErrorResponse(error, 'extend voting time');
+  }
+}
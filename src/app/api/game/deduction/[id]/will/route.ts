@@ -0,0 +1,81 @@
+/**
+ * Deduction Last Will API Endpoint
+ * POST /api/game/deduction/[id]/will
+ * GET /api/game/deduction/[id]/will
+ *
+ * Lets a living player write or rewrite the will that is published when
+ * they die, and name the target of their role's death abilities
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { LastWill } from '../../../../../../types/deduction';
+import {
+  eliminationPipeline,
+  ELIMINATION_CONFIG,
+} from '../../../../../../lib/games/deduction/elimination';
+import {
+  DeductionActionResponse,
+  actionErrorResponse,
+  loadActionContext,
+} from '../../shared';
+
+// Request validation schema
+const WillRequestSchema = z.object({
+  content: z.string().max(ELIMINATION_CONFIG.MAX_WILL_LENGTH),
+  deathTargetId: z.string().uuid().optional(),
+});
+
+interface WillResponse extends DeductionActionResponse {
+  will?: LastWill | null;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<WillResponse>> {
+  try {
+    const { gameId, playerId, gameState } = await loadActionContext(
+      request,
+      params.id,
+      { phases: ['day_discussion', 'day_voting', 'night_actions'] }
+    );
+    const { content, deathTargetId } = WillRequestSchema.parse(
+      await request.json()
+    );
+
+    const will = await eliminationPipeline.saveWill(gameId, gameState, {
+      playerId,
+      content,
+      deathTargetId,
+      updatedAt: new Date(),
+    });
+
+    return NextResponse.json({ success: true, will }, { status: 200 });
+  } catch (error) {
+    return actionErrorResponse(error, 'save last will');
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<WillResponse>> {
+  try {
+    const { gameId, playerId } = await loadActionContext(request, params.id, {
+      phases: [
+        'role_assignment',
+        'day_discussion',
+        'day_voting',
+        'night_actions',
+        'game_over',
+      ],
+      requireAlive: false,
+    });
+
+    const will = await eliminationPipeline.getWill(gameId, playerId);
+    return NextResponse.json({ success: true, will }, { status: 200 });
+  } catch (error) {
+    return actionErrorResponse(error, 'load last will');
+  }
+}
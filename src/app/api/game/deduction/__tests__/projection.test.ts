@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ *
+ * Route tests for deduction state projection
+ * Checks that the create and join responses hand each player the game
+ * without its random seed, so nobody can predict the role shuffle
+ */
+
+import { NextRequest } from 'next/server';
+import { POST as createGame } from '../create/route';
+import { POST as joinGame } from '../[id]/join/route';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+
+// Scenario generation falls back to the built-in scenarios
+jest.mock('@/lib/ai', () => ({
+  generateDeductionContent: jest
+    .fn()
+    .mockRejectedValue(new Error('AI unavailable')),
+}));
+
+const BASE_URL = 'http://localhost:3000/api/game/deduction';
+
+const createRequest = {
+  name: 'Night in Millbrook',
+  maxPlayers: 6,
+  minPlayers: 4,
+  isPrivate: false,
+  settings: {
+    theme: 'mafia',
+    scenario: 'mafia',
+    duration: 'short',
+    discussionTimePerRound: 5,
+    votingTimeLimit: 2,
+    allowsWhispering: false,
+    revealRolesOnDeath: true,
+    allowsLastWords: true,
+    enableClues: false,
+  },
+};
+
+const post = (url: string, body: unknown) =>
+  new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('deduction state projection', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('the create response leaves out the random seed', async () => {
+    const response = await createGame(
+      post(`${BASE_URL}/create`, createRequest)
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.gameState.data.alivePlayers).toEqual([body.playerId]);
+    expect(body.gameState.metadata.random).toBeUndefined();
+  });
+
+  test('the join response leaves out the random seed', async () => {
+    const { gameId } = await (
+      await createGame(post(`${BASE_URL}/create`, createRequest))
+    ).json();
+
+    const response = await joinGame(
+      post(`${BASE_URL}/${gameId}/join`, { playerName: 'Wren' }),
+      { params: { id: gameId } }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.gameState.data.alivePlayers).toContain(body.playerId);
+    expect(body.gameState.metadata.random).toBeUndefined();
+  });
+});
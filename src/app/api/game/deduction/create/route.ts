@@ -10,12 +10,24 @@ import { z } from 'zod';
 import {
   DeductionGameState,
   DeductionScenario,
+  RevealPolicy,
+  VotingRulesSchema,
 } from '../../../../../types/deduction';
 import { GameError } from '../../../../../types/core';
 import { kvService } from '../../../../../lib/database';
+import { createRandomState } from '../../../../../lib/game-engine/random';
 import { generateDeductionContent } from '../../../../../lib/ai';
+import { issueSessionToken } from '../../../../../lib/api/session-token';
+import { GAME_MODES, GameMode } from '../../../../../lib/games/deduction/roles';
+import { resolveVotingRules } from '../../../../../lib/games/deduction/voting-rules';
+import { createDeductionGame } from '../../../../../lib/games/deduction/game-store';
+import {
+  stateProjection,
+  createViewer,
+} from '../../../../../lib/games/projection';
 
-// Request validation schema
+// Request validation schema; the creator's id is issued by the server, so
+// any id in the body is dropped
 const CreateGameRequestSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
@@ -39,8 +51,12 @@ const CreateGameRequestSchema = z.object({
     allowsLastWords: z.boolean(),
     enableClues: z.boolean(),
     difficultyModifiers: z.array(z.any()).optional().default([]),
+    // The mode picks preset voting rules; votingRules overrides single rules
+    gameMode: z
+      .enum(Object.keys(GAME_MODES) as [GameMode, ...GameMode[]])
+      .optional(),
+    votingRules: VotingRulesSchema.partial().optional(),
   }),
-  creatorId: z.string().uuid(),
 });
 
 // type CreateGameRequest = z.infer<typeof CreateGameRequestSchema>;
@@ -48,7 +64,9 @@ const CreateGameRequestSchema = z.object({
 interface CreateGameResponse {
   success: boolean;
   gameId?: string;
+  playerId?: string;
   gameState?: DeductionGameState;
+  sessionToken?: string;
   error?: string;
   code?: string;
 }
@@ -73,8 +91,9 @@ export async function POST(
       );
     }
 
-    // Generate unique game ID
+    // Generate unique game ID and the creator's player ID
     const gameId = crypto.randomUUID();
+    const creatorId = crypto.randomUUID();
 
     // Generate scenario data using AI
     let scenarioData;
@@ -98,22 +117,33 @@ export async function POST(
       metadata: {
         version: 1,
         actionHistory: [],
+        random: createRandomState(),
       },
       data: {
         scenario: scenarioData,
         round: 0,
         timeRemaining: 0,
-        alivePlayers: [validatedRequest.creatorId],
+        alivePlayers: [creatorId],
+        createdBy: creatorId,
         eliminatedPlayers: [],
         nightActions: [],
         cluesAvailable: [],
+        votingRules: resolveVotingRules(
+          validatedRequest.settings.gameMode,
+          validatedRequest.settings.votingRules
+        ),
+        revealPolicy: resolveRevealPolicy(
+          validatedRequest.settings.gameMode,
+          validatedRequest.settings.revealRolesOnDeath
+        ),
+        allowsLastWills: validatedRequest.settings.allowsLastWords,
         events: [
           {
             id: crypto.randomUUID(),
             type: 'phase_change',
             description: 'Game created and waiting for players',
             timestamp: new Date(),
-            affectedPlayers: [validatedRequest.creatorId],
+            affectedPlayers: [creatorId],
             isPublic: true,
             flavorText: scenarioData?.introduction || 'Welcome to the game!',
           },
@@ -121,27 +151,33 @@ export async function POST(
       },
     };
 
-    // Store game state with 7-day TTL
-    await kvService.set(
-      `game:${gameId}`,
-      initialGameState,
-      7 * 24 * 60 * 60 // 7 days in seconds
-    );
+    // Store game state with 7-day TTL, and its first version for replays
+    await createDeductionGame(gameId, initialGameState);
 
     // Store creator-to-game mapping for easy lookup
-    await kvService.set(
-      `creator_games:${validatedRequest.creatorId}`,
-      gameId,
-      7 * 24 * 60 * 60
-    );
+    await kvService.set(`creator_games:${creatorId}`, gameId, 7 * 24 * 60 * 60);
 
     //TODO: Implement game analytics tracking for creation metrics
 
+    // The creator hosts the game and may run host-only operations
+    const sessionToken = issueSessionToken({
+      playerId: creatorId,
+      gameId,
+      role: 'host',
+    });
+
     return NextResponse.json(
       {
         success: true,
         gameId,
-        gameState: initialGameState,
+        playerId: creatorId,
+        // The creator sees the game as a player, without its random seed
+        gameState: stateProjection.projectState(
+          initialGameState,
+          createViewer(creatorId),
+          'deduction'
+        ),
+        sessionToken,
       },
       { status: 201 }
     );
@@ -183,6 +219,19 @@ export async function POST(
 
 // Helper functions
 
+function resolveRevealPolicy(
+  gameMode: GameMode | undefined,
+  revealRolesOnDeath: boolean
+): RevealPolicy {
+  // A mode's reveal feature wins over the creator's setting
+  const features: readonly string[] = gameMode
+    ? GAME_MODES[gameMode].features
+    : [];
+  if (features.includes('no_role_reveal')) return 'no_role_reveal';
+  if (features.includes('role_reveal_on_death')) return 'role_reveal_on_death';
+  return revealRolesOnDeath ? 'role_reveal_on_death' : 'no_role_reveal';
+}
+
 function getDefaultScenarioData(scenario: DeductionScenario): any {
   // Fallback scenario data when AI generation fails
   const baseScenario = {
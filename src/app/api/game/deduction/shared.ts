@@ -0,0 +1,222 @@
+/**
+ * Shared helpers for the deduction game action endpoints
+ *
+ * Each action route loads the game, checks the caller's session and seat,
+ * checks the game is in a phase that allows the action, and answers with
+ * the same error shape.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  AssignedRole,
+  ClueCard,
+  DeductionGameState,
+  DeductionPhase,
+  DeductionPlayer,
+} from '../../../../types/deduction';
+import { GameError, UUID } from '../../../../types/core';
+import { kvService } from '../../../../lib/database';
+import {
+  requireGameSession,
+  isSessionError,
+  getSessionErrorStatus,
+} from '../../../../lib/api/session-token';
+import {
+  getVotingPower,
+  getVotingRules,
+} from '../../../../lib/games/deduction/voting-rules';
+import {
+  DEDUCTION_GAME_TTL,
+  loadDeductionGame,
+  saveDeductionGame,
+} from '../../../../lib/games/deduction/game-store';
+
+export const GAME_TTL = DEDUCTION_GAME_TTL;
+
+export interface DeductionActionResponse {
+  success: boolean;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * What the join endpoint keeps for each player under `player_data:`
+ */
+interface StoredPlayerData {
+  readonly name?: string;
+  readonly joinedAt?: number;
+  readonly suspicions?: Record<UUID, number>;
+}
+
+export interface DeductionActionContext {
+  readonly gameId: UUID;
+  readonly playerId: UUID;
+  readonly gameState: DeductionGameState;
+}
+
+/**
+ * Load the game for the calling player and check they may act in it now
+ */
+export async function loadActionContext(
+  request: Request,
+  gameId: string,
+  options: { phases: DeductionPhase[]; requireAlive?: boolean }
+): Promise<DeductionActionContext> {
+  if (!gameId || !isValidUUID(gameId)) {
+    throw new GameError('INVALID_GAME_ID', 'Invalid game ID format');
+  }
+
+  const { playerId } = requireGameSession(request, gameId);
+  const gameState = await loadGameState(gameId);
+
+  const isAlive = gameState.data.alivePlayers.includes(playerId);
+  if (!isAlive && !gameState.data.eliminatedPlayers.includes(playerId)) {
+    throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in this game', {
+      gameId,
+      playerId,
+    });
+  }
+  if ((options.requireAlive ?? true) && !isAlive) {
+    throw new GameError(
+      'PLAYER_ELIMINATED',
+      'Eliminated players cannot take part',
+      { gameId, playerId }
+    );
+  }
+  if (!options.phases.includes(gameState.phase)) {
+    throw new GameError(
+      'INVALID_PHASE',
+      `This action is not allowed during ${gameState.phase}`,
+      { currentPhase: gameState.phase, allowedPhases: options.phases }
+    );
+  }
+
+  return { gameId, playerId, gameState };
+}
+
+export async function loadGameState(gameId: UUID): Promise<DeductionGameState> {
+  return loadDeductionGame(gameId);
+}
+
+/**
+ * Save a state built from the loaded game as its next version. Fails with
+ * STATE_CONFLICT if another action saved the game in the meantime.
+ */
+export async function saveGameState(
+  gameId: UUID,
+  gameState: DeductionGameState
+): Promise<DeductionGameState> {
+  return saveDeductionGame(gameId, gameState);
+}
+
+/**
+ * Assemble a player's view of themselves from their stored role, clues and
+ * notes
+ */
+export async function loadDeductionPlayer(
+  gameId: UUID,
+  gameState: DeductionGameState,
+  playerId: UUID
+): Promise<DeductionPlayer> {
+  const [role, clues, playerData] = await Promise.all([
+    kvService.get<AssignedRole>(`game_role:${gameId}:${playerId}`),
+    kvService.get<ClueCard[]>(`game_clues:${gameId}:${playerId}`),
+    kvService.get<StoredPlayerData>(`player_data:${gameId}:${playerId}`),
+  ]);
+
+  if (!role.success || !role.data) {
+    throw new GameError('PLAYER_NOT_FOUND', 'Player has no role yet', {
+      gameId,
+      playerId,
+    });
+  }
+
+  const stored = (playerData.success ? playerData.data : null) ?? {};
+  const isAlive = gameState.data.alivePlayers.includes(playerId);
+  const joinedAt = new Date(stored.joinedAt ?? Date.now());
+
+  return {
+    id: playerId,
+    name: stored.name ?? playerId,
+    isActive: isAlive,
+    joinedAt,
+    lastActivity: joinedAt,
+    gameSpecificData: {
+      role: role.data,
+      status: isAlive ? 'alive' : 'eliminated',
+      votingPower: getVotingPower(role.data, getVotingRules(gameState)),
+      clues: (clues.success ? clues.data : null) ?? [],
+      suspicions: stored.suspicions ?? {},
+      communications: [],
+      actionHistory: [],
+      isRevealed: false,
+    },
+  };
+}
+
+/**
+ * Turn a thrown error into the endpoint's JSON error response
+ */
+export function actionErrorResponse(
+  error: unknown,
+  action: string
+): NextResponse<DeductionActionResponse> {
+  console.error(`Failed to ${action}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request format',
+        code: 'VALIDATION_ERROR',
+      },
+      { status: 400 }
+    );
+  }
+
+  if (isSessionError(error)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        code: error.code,
+      },
+      { status: getSessionErrorStatus(error) }
+    );
+  }
+
+  if (error instanceof GameError) {
+    const status =
+      error.code === 'GAME_NOT_FOUND'
+        ? 404
+        : error.code === 'PLAYER_NOT_IN_GAME'
+          ? 403
+          : error.code === 'STATE_CONFLICT'
+            ? 409
+            : 400;
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        code: error.code,
+      },
+      { status }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    },
+    { status: 500 }
+  );
+}
+
+export function isValidUUID(uuid: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
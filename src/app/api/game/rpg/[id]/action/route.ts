@@ -3,21 +3,32 @@
  *
  * Processes player actions in RPG games and returns updated game state.
  * Handles all types of RPG actions including movement, combat, dialogue, etc.
+ *
+ * With ?streaming=true, narrated actions answer with Server-Sent Events:
+ * `narration` events carry prose as it is generated, then `complete` carries
+ * the same body as the JSON response once the narrated outcome has been
+ * committed (or `error` if narration failed).
  */
 
-import { NextRequest } from 'next/server';
 import { createApiHandler } from '@/lib/api/middleware';
 import { RPGActionSchema } from '@/lib/api/rpg-validation';
-import { gameEngine } from '@/lib/game-engine';
+import { gameEngine } from '@/lib/games/effects';
+import { stateProjection, createViewer } from '@/lib/games/projection';
+import { processRPGAction } from '@/lib/games/rpg/actions';
+import { deathSystem } from '@/lib/games/rpg/death';
+import { narrateAction, NarrativeOutcome } from '@/lib/games/rpg/narration';
+import { loadRPGPlayer, rpgPlayerKey } from '@/lib/games/rpg/players';
 // import { rpgWorldOrchestrator } from '@/lib/games/rpg';
 import { kvService } from '@/lib/database';
 import {
   RPGGameState,
+  RPGPlayer,
   UUID,
   GameAction,
   ActionResult,
   ErrorCode,
-  GameEvent,
+  RPGActionNarrative,
+  RPGActionResponse,
 } from '@/types';
 
 // ============================================================================
@@ -31,34 +42,6 @@ interface RPGActionRequest {
   metadata?: Record<string, any>;
 }
 
-interface RPGActionResponse {
-  success: boolean;
-  newState: RPGGameState;
-  events: GameEvent[];
-  narrative?: {
-    content: string;
-    type: 'action_result' | 'dialogue' | 'combat' | 'exploration' | 'system';
-    mood: string;
-    choices?: Array<{
-      id: string;
-      text: string;
-      consequences: string[];
-    }>;
-  };
-  actionResult: {
-    type: string;
-    success: boolean;
-    description: string;
-    effects: Record<string, any>;
-    nextPossibleActions: string[];
-  };
-  performanceMetrics: {
-    processingTime: number;
-    aiGenerationTime?: number;
-    validationTime: number;
-  };
-}
-
 // ============================================================================
 // MAIN ACTION HANDLER
 // ============================================================================
@@ -87,8 +70,8 @@ const handler = createApiHandler<RPGActionRequest, RPGActionResponse>({
 export const POST = handler(async (req, body) => {
   const gameId = getGameIdFromUrl(req.url);
   const userId = req.context.userId!;
+  const streaming = new URL(req.url).searchParams.get('streaming') === 'true';
   const startTime = Date.now();
-  let aiGenerationTime = 0;
 
   // Validate player is in the game and action is allowed
   await validatePlayerAction(gameId, userId, body);
@@ -109,19 +92,22 @@ export const POST = handler(async (req, body) => {
   const validationTime = validationEndTime - startTime;
 
   try {
-    // Create game action object
+    // Create game action object; the actor is always the session's player
     const gameAction: GameAction = {
       id: crypto.randomUUID(),
       type: body.type,
-      playerId: body.playerId,
+      playerId: userId,
       gameId,
       timestamp: new Date(),
       data: body.data,
       metadata: body.metadata,
     };
 
-    // Process action based on type
-    const actionResult = await processRPGAction(gameAction, currentState);
+    // Process action based on type; its RPG effects are saved with it
+    const actionResult = await processRPGAction(
+      gameAction,
+      currentState as RPGGameState
+    );
 
     if (!actionResult.success) {
       throw {
@@ -133,56 +119,64 @@ export const POST = handler(async (req, body) => {
       };
     }
 
-    // Generate AI narrative response if needed
-    let narrative = undefined;
-    const aiStartTime = Date.now();
-
-    if (shouldGenerateNarrative(body.type, actionResult)) {
-      narrative = await generateActionNarrative(
-        gameAction,
-        actionResult,
-        currentState
-      );
-      aiGenerationTime = Date.now() - aiStartTime;
-    }
-
     // Update world systems if action affects them
     if (affectsWorldSystems(body.type)) {
       await updateWorldSystems(gameId, gameAction, actionResult);
     }
 
-    // Save updated game state
-    await gameEngine.saveState(gameId, actionResult.newState!);
+    let committedState = actionResult.newState as RPGGameState;
 
     // Update game metadata
-    await updateGameMetadata(gameId, actionResult.newState!);
+    await updateGameMetadata(gameId, committedState);
 
     // Log action for analytics
     await logPlayerAction(gameId, userId, gameAction, actionResult);
 
-    const processingTime = Date.now() - startTime;
+    const narrate = shouldGenerateNarrative(body.type, actionResult);
 
-    return {
-      success: true,
-      newState: actionResult.newState!,
-      events: actionResult.events,
+    if (narrate && streaming) {
+      // The narrated outcome is committed once the stream completes
+      return streamActionNarrative(gameAction, actionResult, committedState, {
+        startTime,
+        validationTime,
+      });
+    }
+
+    // Generate AI narrative response if needed
+    let narrative: RPGActionNarrative | undefined;
+    let aiGenerationTime = 0;
+
+    if (narrate) {
+      const aiStartTime = Date.now();
+      const narration = await generateActionNarrative(
+        gameAction,
+        committedState
+      );
+      if (narration) {
+        try {
+          committedState = await commitNarrativeOutcome(
+            gameAction,
+            narration.outcome
+          );
+          narrative = toActionNarrative(narration.content, narration.outcome);
+        } catch (error) {
+          console.warn('Narrated outcome was not committed:', error);
+        }
+      }
+      aiGenerationTime = Date.now() - aiStartTime;
+    }
+
+    return buildActionResponse(
+      gameAction,
+      actionResult,
+      committedState,
       narrative,
-      actionResult: {
-        type: body.type,
-        success: true,
-        description: generateActionDescription(gameAction, actionResult),
-        effects: extractActionEffects(actionResult),
-        nextPossibleActions: determineNextActions(
-          actionResult.newState!,
-          gameAction
-        ),
-      },
-      performanceMetrics: {
-        processingTime,
+      {
+        processingTime: Date.now() - startTime,
         aiGenerationTime: aiGenerationTime > 0 ? aiGenerationTime : undefined,
         validationTime,
-      },
-    };
+      }
+    );
   } catch (error) {
     // Handle action processing errors
     if (isActionError(error)) {
@@ -202,187 +196,166 @@ export const POST = handler(async (req, body) => {
   }
 });
 
-// ============================================================================
-// ACTION PROCESSING LOGIC
-// ============================================================================
-
-async function processRPGAction(
-  action: GameAction,
-  currentState: RPGGameState
-): Promise<ActionResult> {
-  // Delegate to game engine for processing
-  const result = await gameEngine.processAction(action.gameId, action);
-
-  // Add RPG-specific processing
-  if (result.success && result.newState) {
-    const enhancedResult = await enhanceRPGActionResult(
-      action,
-      result,
-      currentState
-    );
-    return enhancedResult;
-  }
-
-  return result;
-}
-
-async function enhanceRPGActionResult(
+function buildActionResponse(
   action: GameAction,
-  result: ActionResult,
-  previousState: RPGGameState
-): Promise<ActionResult> {
-  const newState = result.newState as RPGGameState;
-
-  // Process specific RPG action types
-  switch (action.type) {
-    case 'move':
-      return await processMovementAction(
-        action,
-        newState,
-        previousState,
-        result
-      );
-
-    case 'explore':
-      return await processExplorationAction(
-        action,
-        newState,
-        previousState,
-        result
-      );
-
-    case 'talk':
-      return await processDialogueAction(
-        action,
-        newState,
-        previousState,
-        result
-      );
-
-    case 'use_item':
-      return await processItemAction(action, newState, previousState, result);
-
-    case 'rest':
-      return await processRestAction(action, newState, previousState, result);
-
-    case 'trade':
-      return await processTradeAction(action, newState, previousState, result);
-
-    default:
-      return result;
-  }
+  actionResult: ActionResult,
+  state: RPGGameState,
+  narrative: RPGActionNarrative | undefined,
+  performanceMetrics: RPGActionResponse['performanceMetrics']
+): RPGActionResponse {
+  // The acting player only gets the state and events they may see
+  const viewer = createViewer(action.playerId);
+  return {
+    success: true,
+    newState: stateProjection.projectState(state, viewer, 'rpg'),
+    events: actionResult.events.flatMap(
+      event => stateProjection.projectEvent(event, viewer) ?? []
+    ),
+    narrative,
+    actionResult: {
+      type: action.type,
+      success: true,
+      description: generateActionDescription(action, actionResult),
+      effects: extractActionEffects(actionResult),
+      nextPossibleActions: determineNextActions(state, action),
+    },
+    performanceMetrics,
+  };
 }
 
 // ============================================================================
-// SPECIFIC ACTION PROCESSORS
+// NARRATION
 // ============================================================================
 
-async function processMovementAction(
+/**
+ * Narrate an action in full. Narration is flavour on top of an action that
+ * has already been stored, so a failure leaves the action without narrative
+ * rather than failing the request.
+ */
+async function generateActionNarrative(
   action: GameAction,
-  newState: RPGGameState,
-  previousState: RPGGameState,
-  result: ActionResult
-): Promise<ActionResult> {
-  const targetLocationId = action.data.targetLocation as UUID;
-
-  // Update current location in state
-  const updatedData = {
-    ...newState.data,
-    currentLocation: targetLocationId,
-  };
-
-  const updatedState: RPGGameState = {
-    ...newState,
-    data: updatedData,
-    metadata: {
-      ...newState.metadata,
-      version: newState.metadata.version + 1,
-    },
-  };
-
-  // Generate location discovery events if needed
-  const world = newState.data.world;
-  const targetLocation = world.locations.find(
-    loc => loc.id === targetLocationId
-  );
-
-  const events = [...result.events];
-  if (targetLocation && !targetLocation.isDiscovered) {
-    events.push({
-      id: crypto.randomUUID(),
-      type: 'location_discovered',
-      gameId: action.gameId,
-      timestamp: new Date(),
-      data: {
-        locationId: targetLocationId,
-        locationName: targetLocation.name,
-        playerId: action.playerId,
-      },
-      affectedPlayers: [action.playerId],
-      isPublic: true,
-    });
+  state: RPGGameState
+): Promise<{ content: string; outcome: NarrativeOutcome } | null> {
+  try {
+    for await (const event of narrateAction(action, state)) {
+      if (event.type === 'complete') {
+        return event;
+      }
+    }
+  } catch (error) {
+    console.warn('Action narration failed:', error);
   }
-
-  return {
-    ...result,
-    newState: updatedState,
-    events,
-  };
+  return null;
 }
 
-async function processExplorationAction(
+function streamActionNarrative(
   action: GameAction,
-  newState: RPGGameState,
-  previousState: RPGGameState,
-  result: ActionResult
-): Promise<ActionResult> {
-  // Handle exploration mechanics
-  //TODO: Implement comprehensive exploration system with skill checks
-  return result;
-}
+  actionResult: ActionResult,
+  state: RPGGameState,
+  timing: { startTime: number; validationTime: number }
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Keep narrating after a disconnect so the outcome is still committed
+      const send = (event: string, data: unknown) => {
+        if (!cancelled) {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        }
+      };
+      const aiStartTime = Date.now();
+
+      try {
+        for await (const event of narrateAction(action, state)) {
+          if (event.type === 'text') {
+            send('narration', { text: event.text });
+            continue;
+          }
+
+          const committed = await commitNarrativeOutcome(action, event.outcome);
+          send(
+            'complete',
+            buildActionResponse(
+              action,
+              actionResult,
+              committed,
+              toActionNarrative(event.content, event.outcome),
+              {
+                processingTime: Date.now() - timing.startTime,
+                aiGenerationTime: Date.now() - aiStartTime,
+                validationTime: timing.validationTime,
+              }
+            )
+          );
+        }
+      } catch (error) {
+        console.error('Streaming action narration failed:', error);
+        send('error', {
+          code: isActionError(error) ? error.code : 'AI_SERVICE_ERROR',
+          message: error instanceof Error ? error.message : 'Narration failed',
+        });
+      } finally {
+        if (!cancelled) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
 
-async function processDialogueAction(
-  action: GameAction,
-  newState: RPGGameState,
-  previousState: RPGGameState,
-  result: ActionResult
-): Promise<ActionResult> {
-  // Handle NPC dialogue interactions
-  //TODO: Implement dynamic dialogue system with AI-generated responses
-  return result;
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
 }
 
-async function processItemAction(
+/**
+ * Commit a narrated outcome as an action of its own, so every stored version
+ * still matches one logged action. The engine rebases it onto fresher state
+ * if other players acted while the narration was generated, and the RPG
+ * effects apply the outcome it carries.
+ */
+async function commitNarrativeOutcome(
   action: GameAction,
-  newState: RPGGameState,
-  previousState: RPGGameState,
-  result: ActionResult
-): Promise<ActionResult> {
-  // Handle item usage and effects
-  //TODO: Implement comprehensive item system with complex effects
-  return result;
-}
+  outcome: NarrativeOutcome
+): Promise<RPGGameState> {
+  const narration: GameAction = {
+    id: crypto.randomUUID(),
+    type: 'narrate',
+    playerId: action.playerId,
+    gameId: action.gameId,
+    timestamp: new Date(),
+    // The action log only holds plain JSON
+    data: { actionId: action.id, outcome: JSON.parse(JSON.stringify(outcome)) },
+  };
 
-async function processRestAction(
-  action: GameAction,
-  newState: RPGGameState,
-  previousState: RPGGameState,
-  result: ActionResult
-): Promise<ActionResult> {
-  // Handle rest mechanics - heal players, advance time, etc.
-  //TODO: Implement rest system with time progression and random events
-  return result;
+  const result = await gameEngine.commitAction(action.gameId, narration);
+  const committed = result.newState as RPGGameState;
+  await updateGameMetadata(action.gameId, committed);
+  return committed;
 }
 
-async function processTradeAction(
-  action: GameAction,
-  newState: RPGGameState,
-  previousState: RPGGameState,
-  result: ActionResult
-): Promise<ActionResult> {
-  // Handle trading with NPCs or other players
-  //TODO: Implement comprehensive trading system with dynamic prices
-  return result;
+function toActionNarrative(
+  content: string,
+  outcome: NarrativeOutcome
+): RPGActionNarrative {
+  return {
+    content,
+    type: 'action_result',
+    mood: outcome.mood,
+    consequences: outcome.consequences,
+    choices: outcome.choices,
+  };
 }
 
 // ============================================================================
@@ -396,11 +369,15 @@ function getGameIdFromUrl(url: string): UUID {
 }
 
 async function isPlayerInGame(gameId: UUID, userId: UUID): Promise<boolean> {
-  //TODO: Implement proper player membership checking
-  const playerData = await kvService.get(
-    `player_game_data:${gameId}:${userId}`
+  // Joining a game creates the player's record, so the record is membership
+  const playerData = await kvService.get<RPGPlayer>(
+    rpgPlayerKey(gameId, userId)
+  );
+  return !!(
+    playerData.success &&
+    playerData.data &&
+    playerData.data.id === userId
   );
-  return !!playerData;
 }
 
 async function validatePlayerAction(
@@ -408,6 +385,17 @@ async function validatePlayerAction(
   userId: UUID,
   action: RPGActionRequest
 ): Promise<void> {
+  // Players act only as themselves, whatever the body claims
+  if (action.playerId !== userId) {
+    throw {
+      code: 'PERMISSION_DENIED' as ErrorCode,
+      message: 'Players can only act as themselves',
+      details: { gameId, userId, playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: userId,
+    };
+  }
+
   // Verify player is in game
   if (!(await isPlayerInGame(gameId, userId))) {
     throw {
@@ -440,16 +428,33 @@ async function validatePlayerAction(
       playerId: userId,
     };
   }
+
+  // The downed and the dead can only wait for their allies; the combat
+  // system turns away their combat actions itself
+  if (action.type !== 'combat_action') {
+    const player = await loadRPGPlayer(gameId, userId);
+    const character = player?.gameSpecificData.character;
+    const status = character && deathSystem.getStatus(character);
+    if (character && status !== 'alive') {
+      throw {
+        code: 'INVALID_ACTION' as ErrorCode,
+        message: `${character.name} is ${status} and cannot act`,
+        details: { characterId: character.id, status },
+        timestamp: new Date(),
+        playerId: userId,
+      };
+    }
+  }
 }
 
 function shouldGenerateNarrative(
   actionType: string,
   result: ActionResult
 ): boolean {
+  // Talking needs no narration; the NPC answers in their own words
   const narrativeActions = [
     'move',
     'explore',
-    'talk',
     'attack',
     'cast_spell',
     'use_item',
@@ -458,20 +463,6 @@ function shouldGenerateNarrative(
   return narrativeActions.includes(actionType) && result.success;
 }
 
-async function generateActionNarrative(
-  action: GameAction,
-  result: ActionResult,
-  state: RPGGameState
-): Promise<any> {
-  //TODO: Implement AI-powered narrative generation
-  return {
-    content: `You ${action.type}. The action was successful.`,
-    type: 'action_result',
-    mood: 'neutral',
-    choices: [],
-  };
-}
-
 function affectsWorldSystems(actionType: string): boolean {
   const worldActions = ['move', 'explore', 'complete_quest', 'faction_action'];
   return worldActions.includes(actionType);
@@ -565,9 +556,25 @@ function isActionValidForPhase(actionType: string, phase: string): boolean {
   const phaseActions: Record<string, string[]> = {
     character_creation: ['create_character', 'select_background'],
     world_generation: ['wait'],
-    exploration: ['move', 'explore', 'talk', 'use_item', 'rest', 'trade'],
+    exploration: [
+      'move',
+      'explore',
+      'talk',
+      'use_item',
+      'rest',
+      'trade',
+      'revive',
+    ],
     conversation: ['talk', 'give_item', 'end_conversation'],
-    combat: ['attack', 'defend', 'cast_spell', 'use_item', 'flee', 'wait'],
+    combat: [
+      'attack',
+      'defend',
+      'cast_spell',
+      'use_item',
+      'flee',
+      'wait',
+      'combat_action',
+    ],
     rest: ['rest', 'wake_up'],
     shopping: ['buy', 'sell', 'browse', 'leave_shop'],
     quest_completion: ['complete_quest', 'accept_reward'],
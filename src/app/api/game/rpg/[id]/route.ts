@@ -9,8 +9,10 @@ import { NextRequest } from 'next/server';
 import { createApiHandler } from '@/lib/api/middleware';
 import { gameEngine } from '@/lib/game-engine';
 import { rpgWorldOrchestrator } from '@/lib/games/rpg';
+import { rpgPlayerKey } from '@/lib/games/rpg/players';
 import { kvService } from '@/lib/database';
-import { RPGGameState, UUID, GameError, ErrorCode } from '@/types';
+import { stateProjection, createViewer } from '@/lib/games/projection';
+import { RPGGameState, RPGPlayer, UUID, GameError, ErrorCode } from '@/types';
 
 // ============================================================================
 // GET ENDPOINT - Retrieve RPG game state
@@ -64,8 +66,9 @@ const getHandler = createApiHandler<never, GetRPGGameResponse>({
 
         const gameData = await kvService.get(`rpg_game_meta:${gameId}`);
         return (
-          gameData &&
-          (gameData.createdBy === userId || isPlayerInGame(gameId, userId))
+          !!gameData.data &&
+          (gameData.data.createdBy === userId ||
+            (await isPlayerInGame(gameId, userId)))
         );
       },
     },
@@ -91,7 +94,7 @@ export const GET = getHandler(async req => {
   }
 
   // Load game metadata
-  const gameMeta = await kvService.get<any>(`rpg_game_meta:${gameId}`);
+  const gameMeta = (await kvService.get<any>(`rpg_game_meta:${gameId}`)).data;
   if (!gameMeta) {
     throw {
       code: 'GAME_NOT_FOUND' as ErrorCode,
@@ -134,6 +137,14 @@ export const GET = getHandler(async req => {
     canDelete: isCreator,
   };
 
+  // Players see the world through the fog of war; the creator may ask for
+  // the full game-master view
+  const requestedView = new URL(req.url).searchParams.get('view');
+  const viewer = createViewer(
+    userId,
+    isCreator && requestedView === 'game_master' ? 'game_master' : undefined
+  );
+
   return {
     game: {
       id: gameId,
@@ -146,7 +157,7 @@ export const GET = getHandler(async req => {
       createdBy: gameMeta.createdBy,
       players: [], // TODO: Load actual player data
     },
-    state: gameState,
+    state: stateProjection.projectState(gameState, viewer, 'rpg'),
     worldStatistics,
     playerPermissions,
     lastActivity: new Date().toISOString(),
@@ -178,7 +189,7 @@ const deleteHandler = createApiHandler<never, DeleteRPGGameResponse>({
         // Only allow deletion by game creator
         const gameId = getGameIdFromUrl(req.url);
         const gameMeta = await kvService.get(`rpg_game_meta:${gameId}`);
-        return gameMeta && gameMeta.createdBy === req.context.userId;
+        return gameMeta.data?.createdBy === req.context.userId;
       },
     },
   ],
@@ -191,7 +202,7 @@ export const DELETE = deleteHandler(async req => {
   const userId = req.context.userId!;
 
   // Load game metadata for final statistics
-  const gameMeta = await kvService.get<any>(`rpg_game_meta:${gameId}`);
+  const gameMeta = (await kvService.get<any>(`rpg_game_meta:${gameId}`)).data;
   if (!gameMeta) {
     throw {
       code: 'GAME_NOT_FOUND' as ErrorCode,
@@ -281,12 +292,15 @@ function getGameIdFromUrl(url: string): UUID {
 }
 
 async function isPlayerInGame(gameId: UUID, userId: UUID): Promise<boolean> {
-  //TODO: Implement proper player membership checking
-  // For now, check if user has any game-specific data
-  const playerData = await kvService.get(
-    `player_game_data:${gameId}:${userId}`
+  // Joining a game creates the player's record, so the record is membership
+  const playerData = await kvService.get<RPGPlayer>(
+    rpgPlayerKey(gameId, userId)
+  );
+  return !!(
+    playerData.success &&
+    playerData.data &&
+    playerData.data.id === userId
   );
-  return !!playerData;
 }
 
 function determineCompletionStatus(gameState: RPGGameState): string {
@@ -0,0 +1,148 @@
+/**
+ * Shared fixtures for the RPG route tests
+ *
+ * Requests go straight to the route handlers, with the AI world generation
+ * swapped for a small fixed world by each test's setup.
+ */
+
+import { NextRequest } from 'next/server';
+import { jest } from '@jest/globals';
+import { POST as createGame } from '../create/route';
+import { POST as joinGame } from '../../../games/[id]/join/route';
+import { RPGGameState } from '@/types/rpg';
+
+export const BASE_URL = 'http://localhost:3000/api';
+
+export const createRequest = {
+  config: {
+    type: 'rpg',
+    name: 'The Sunken Keep',
+    maxPlayers: 4,
+    minPlayers: 1,
+    estimatedDurationMinutes: 60,
+    isPrivate: false,
+    settings: {
+      worldTheme: 'fantasy',
+      difficulty: 'medium',
+      combatEnabled: true,
+      permaDeath: false,
+      voiceActing: false,
+      narrativeStyle: 'adventure',
+      allowCustomCharacters: true,
+      maxLevel: 20,
+      startingLevel: 1,
+    },
+  },
+  worldPreferences: {
+    theme: 'fantasy',
+    size: 'small',
+    complexity: 'simple',
+    tone: 'balanced',
+    biomes: ['forest'],
+    factionCount: 1,
+    npcDensity: 'sparse',
+    questDensity: 'few',
+    magicLevel: 'common',
+    technologyLevel: 'medieval',
+    dangerLevel: 'moderate',
+    culturalDiversity: 'diverse',
+  },
+};
+
+// A world with one room to start in and one still hidden, standing in for
+// the AI generated one
+export const world = {
+  worldData: {
+    id: 'world-1',
+    name: 'The Sunken Keep',
+    description: 'A drowned fortress',
+    theme: 'fantasy',
+    lore: '',
+    locations: [
+      {
+        id: 'location-1',
+        name: 'Flooded Hall',
+        description: 'Knee-deep water',
+        type: 'dungeon',
+        connections: [],
+        features: [],
+        npcs: [],
+        items: [],
+        secrets: [],
+        isDiscovered: true,
+      },
+      {
+        id: 'location-2',
+        name: 'Drowned Vault',
+        description: 'Behind a sealed door',
+        type: 'dungeon',
+        connections: [],
+        features: [],
+        npcs: [],
+        items: [],
+        secrets: [],
+        isDiscovered: false,
+      },
+    ],
+    globalEvents: [],
+    npcs: [],
+    factions: [],
+  },
+  factionSystem: null,
+  expansionSystem: null,
+  worldStats: {
+    totalLocations: 2,
+    totalNPCs: 0,
+    totalQuests: 0,
+    totalFactions: 0,
+    generationTime: 0,
+    systemsEnabled: [],
+  },
+};
+
+export const post = (url: string, body: unknown, token?: string) =>
+  new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+
+export const get = (url: string, token: string) =>
+  new NextRequest(url, { headers: { Authorization: `Bearer ${token}` } });
+
+/**
+ * Create a game as a signed-in account, as the create route requires
+ */
+export async function createHostedGame() {
+  // Account tokens are only accepted by the development verifier
+  const env = process.env;
+  jest.replaceProperty(process, 'env', {
+    ...process.env,
+    NODE_ENV: 'development',
+  });
+  const response = await createGame(
+    post(`${BASE_URL}/game/rpg/create`, createRequest, 'account-token')
+  );
+  jest.replaceProperty(process, 'env', env);
+
+  const body = await response.json();
+  expect(response.status).toBe(200);
+  return body.data as {
+    gameId: string;
+    sessionToken: string;
+    initialState: RPGGameState;
+  };
+}
+
+export async function joinAs(gameId: string, playerName: string) {
+  const response = await joinGame(
+    post(`${BASE_URL}/games/${gameId}/join`, { playerName }),
+    { params: { id: gameId } }
+  );
+  const body = await response.json();
+  expect(response.status).toBe(200);
+  return body.data as { playerId: string; sessionToken: string };
+}
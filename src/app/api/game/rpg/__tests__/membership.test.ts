@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ *
+ * Route tests for RPG game membership
+ * Creates a game, joins it and acts in it through the API routes, checking
+ * that each member's player record is what lets them in
+ */
+
+import { jest } from '@jest/globals';
+import { GET as getGame } from '../[id]/route';
+import { POST as act } from '../[id]/action/route';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { issueSessionToken } from '@/lib/api/session-token';
+import { loadRPGPlayer } from '@/lib/games/rpg/players';
+import { rpgWorldOrchestrator } from '@/lib/games/rpg';
+import { performanceMonitor } from '@/lib/game-engine/performance';
+import {
+  BASE_URL,
+  world,
+  post,
+  get,
+  createHostedGame,
+  joinAs,
+} from './fixtures';
+
+describe('RPG game membership', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+    jest
+      .spyOn(rpgWorldOrchestrator, 'generateCompleteWorld')
+      .mockResolvedValue({ success: true, data: world as any });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    performanceMonitor.stopMetricsCollection();
+  });
+
+  test('the host and every joiner get a player record', async () => {
+    const { gameId } = await createHostedGame();
+    const { playerId } = await joinAs(gameId, 'Wren');
+
+    const joiner = await loadRPGPlayer(gameId, playerId);
+    expect(joiner).toMatchObject({
+      id: playerId,
+      name: 'Wren',
+      gameSpecificData: {
+        character: { name: 'Wren', level: 1 },
+        inventory: { items: [] },
+      },
+    });
+    expect((await kvService.scan(`player_game_data:${gameId}:*`)).data).toEqual(
+      expect.arrayContaining([`player_game_data:${gameId}:${playerId}`])
+    );
+    expect(
+      (await kvService.scan(`player_game_data:${gameId}:*`)).data
+    ).toHaveLength(2);
+  });
+
+  test('a joined player can act in the game', async () => {
+    const { gameId } = await createHostedGame();
+    const { playerId, sessionToken } = await joinAs(gameId, 'Wren');
+
+    const response = await act(
+      post(
+        `${BASE_URL}/game/rpg/${gameId}/action`,
+        { type: 'create_character', data: {}, playerId },
+        sessionToken
+      )
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.actionResult).toMatchObject({
+      type: 'create_character',
+      success: true,
+    });
+  });
+
+  test('the host and joined players can read the game', async () => {
+    const { gameId, sessionToken: hostToken } = await createHostedGame();
+    const { sessionToken } = await joinAs(gameId, 'Wren');
+
+    const asHost = await getGame(
+      get(`${BASE_URL}/game/rpg/${gameId}`, hostToken)
+    );
+    const asPlayer = await getGame(
+      get(`${BASE_URL}/game/rpg/${gameId}`, sessionToken)
+    );
+
+    expect(asHost.status).toBe(200);
+    expect((await asHost.json()).data.playerPermissions.canDelete).toBe(true);
+    expect(asPlayer.status).toBe(200);
+    expect((await asPlayer.json()).data.playerPermissions.canDelete).toBe(
+      false
+    );
+  });
+
+  test('a session for the game without a player record is turned away', async () => {
+    const { gameId } = await createHostedGame();
+    const strangerId = crypto.randomUUID();
+    const token = issueSessionToken({
+      playerId: strangerId,
+      gameId,
+      role: 'player',
+    });
+
+    const response = await act(
+      post(
+        `${BASE_URL}/game/rpg/${gameId}/action`,
+        { type: 'create_character', data: {}, playerId: strangerId },
+        token
+      )
+    );
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ *
+ * Route tests for the player records an RPG action writes
+ * A shop purchase is priced from the buyer's record; when that record
+ * changes before the purchase is saved, the purchase is worked out again
+ * rather than overwriting the change
+ */
+
+import { jest } from '@jest/globals';
+import { POST as act } from '../[id]/action/route';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { rpgWorldOrchestrator } from '@/lib/games/rpg';
+import { loadRPGPlayer, saveRPGPlayer } from '@/lib/games/rpg/players';
+import { tradingSystem } from '@/lib/games/rpg/trading';
+import { performanceMonitor } from '@/lib/game-engine/performance';
+import { RPGGameState, RPGPlayer } from '@/types/rpg';
+import { BASE_URL, world, post, createHostedGame, joinAs } from './fixtures';
+
+const MERCHANT_ID = '5b0c7a52-3f4e-4d51-9a3e-0f6b2d8c1e01';
+const ROPE_ID = '5b0c7a52-3f4e-4d51-9a3e-0f6b2d8c1e02';
+
+const rope = {
+  id: ROPE_ID,
+  name: 'Rope',
+  description: 'Fifty feet of hemp',
+  type: 'tool',
+  rarity: 'common',
+  value: 10,
+  weight: 1,
+  properties: {
+    stackable: true,
+    consumable: false,
+    equipable: false,
+    tradeable: true,
+    questItem: false,
+  },
+  effects: [],
+};
+
+// The fixture world with a rope seller in its only open room
+const marketWorld = {
+  ...world,
+  worldData: {
+    ...world.worldData,
+    npcs: [
+      {
+        id: MERCHANT_ID,
+        name: 'Hesk',
+        currentLocation: 'location-1',
+        relationships: {},
+        shop: {
+          inventory: [{ item: rope, quantity: 5, condition: 'good' }],
+          buyPriceModifier: 1,
+          sellPriceModifier: 1,
+          refreshInterval: 24,
+          specialItems: [],
+        },
+      },
+    ],
+  },
+};
+
+const withCurrency = (player: RPGPlayer, currency: number): RPGPlayer => ({
+  ...player,
+  gameSpecificData: {
+    ...player.gameSpecificData,
+    inventory: { ...player.gameSpecificData.inventory, currency },
+  },
+});
+
+/**
+ * Join the market game with a purse of 100 gold, once the party has moved
+ * on from making characters
+ */
+async function joinWithGold() {
+  const { gameId } = await createHostedGame();
+  const { playerId, sessionToken } = await joinAs(gameId, 'Wren');
+  const player = (await loadRPGPlayer(gameId, playerId))!;
+  await saveRPGPlayer(gameId, withCurrency(player, 100));
+
+  const stateKey = `game_state:${gameId}`;
+  const state = (await kvService.get<RPGGameState>(stateKey)).data!;
+  await kvService.set(stateKey, { ...state, phase: 'exploration' });
+  return { gameId, playerId, sessionToken };
+}
+
+const buyRope = (gameId: string, playerId: string, sessionToken: string) =>
+  act(
+    post(
+      `${BASE_URL}/game/rpg/${gameId}/action`,
+      {
+        type: 'trade',
+        data: { kind: 'buy', npcId: MERCHANT_ID, itemId: ROPE_ID, quantity: 1 },
+        playerId,
+      },
+      sessionToken
+    )
+  );
+
+/**
+ * Make every purchase (or only the first few) find that the buyer was paid
+ * 5 gold by someone else while it was being priced
+ */
+function payBuyerDuringPurchase(gameId: string, times?: number) {
+  const buy = tradingSystem.buy.bind(tradingSystem);
+  let calls = 0;
+  return jest
+    .spyOn(tradingSystem, 'buy')
+    .mockImplementation((npc, player, ...rest) => {
+      if (times === undefined || calls++ < times) {
+        const { currency } = player.gameSpecificData.inventory;
+        void saveRPGPlayer(gameId, withCurrency(player, currency + 5));
+      }
+      return buy(npc, player, ...rest);
+    });
+}
+
+describe('RPG player record writes', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+    jest
+      .spyOn(rpgWorldOrchestrator, 'generateCompleteWorld')
+      .mockResolvedValue({ success: true, data: marketWorld as any });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    performanceMonitor.stopMetricsCollection();
+  });
+
+  test('a purchase keeps a payment that landed while it was priced', async () => {
+    const { gameId, playerId, sessionToken } = await joinWithGold();
+    const buy = payBuyerDuringPurchase(gameId, 1);
+
+    const response = await buyRope(gameId, playerId, sessionToken);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(buy).toHaveBeenCalledTimes(2);
+    const purchase = body.data.events.find(
+      (event: { type: string }) => event.type === 'shop_purchase'
+    );
+    const { inventory } = (await loadRPGPlayer(gameId, playerId))!
+      .gameSpecificData;
+    expect(inventory.currency).toBe(105 - purchase.data.price);
+    expect(inventory.items).toMatchObject([
+      { item: { id: ROPE_ID }, quantity: 1 },
+    ]);
+  });
+
+  test('a purchase that never finds the buyer settled is turned away', async () => {
+    const { gameId, playerId, sessionToken } = await joinWithGold();
+    payBuyerDuringPurchase(gameId);
+
+    const response = await buyRope(gameId, playerId, sessionToken);
+
+    expect(response.status).toBe(409);
+    // Every payment stands, and no rope left the shop
+    const { inventory } = (await loadRPGPlayer(gameId, playerId))!
+      .gameSpecificData;
+    expect(inventory.currency).toBeGreaterThan(100);
+    expect(inventory.currency % 5).toBe(0);
+    expect(inventory.items).toEqual([]);
+    const state = (await kvService.get<RPGGameState>(`game_state:${gameId}`))
+      .data!;
+    expect(state.data.world.npcs[0]!.shop!.inventory[0]!.quantity).toBe(5);
+  });
+});
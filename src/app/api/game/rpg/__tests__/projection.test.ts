@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ *
+ * Route tests for RPG state projection
+ * Checks that the create and action responses only hand the requesting
+ * player what they may see: no random seed, no hidden places and no other
+ * player's actions
+ */
+
+import { jest } from '@jest/globals';
+import { POST as act } from '../[id]/action/route';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { verifySessionToken } from '@/lib/api/session-token';
+import { rpgWorldOrchestrator } from '@/lib/games/rpg';
+import { performanceMonitor } from '@/lib/game-engine/performance';
+import { BASE_URL, world, post, createHostedGame, joinAs } from './fixtures';
+
+describe('RPG state projection', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+    jest
+      .spyOn(rpgWorldOrchestrator, 'generateCompleteWorld')
+      .mockResolvedValue({ success: true, data: world as any });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    performanceMonitor.stopMetricsCollection();
+  });
+
+  test('the create response leaves out the random seed and hidden places', async () => {
+    const { initialState } = await createHostedGame();
+
+    expect(initialState.metadata.random).toBeUndefined();
+    expect(
+      initialState.data.world.locations.map(location => location.id)
+    ).toEqual(['location-1']);
+  });
+
+  test("the action response leaves out the random seed and other players' actions", async () => {
+    const { gameId, sessionToken: hostToken } = await createHostedGame();
+    const { playerId, sessionToken } = await joinAs(gameId, 'Wren');
+    const hostId = verifySessionToken(hostToken).playerId;
+    const hostAction = await act(
+      post(
+        `${BASE_URL}/game/rpg/${gameId}/action`,
+        { type: 'create_character', data: {}, playerId: hostId },
+        hostToken
+      )
+    );
+    expect(hostAction.status).toBe(200);
+
+    const response = await act(
+      post(
+        `${BASE_URL}/game/rpg/${gameId}/action`,
+        { type: 'create_character', data: {}, playerId },
+        sessionToken
+      )
+    );
+    const { newState } = (await response.json()).data;
+
+    expect(response.status).toBe(200);
+    expect(newState.metadata.random).toBeUndefined();
+    expect(
+      newState.metadata.actionHistory.map(
+        (action: { playerId: string }) => action.playerId
+      )
+    ).toEqual(expect.arrayContaining([playerId]));
+    expect(
+      newState.metadata.actionHistory.every(
+        (action: { playerId: string }) => action.playerId === playerId
+      )
+    ).toBe(true);
+  });
+});
@@ -6,11 +6,15 @@
  */
 
 import { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
 import { createApiHandler } from '@/lib/api/middleware';
 import { CreateRPGGameSchema } from '@/lib/api/rpg-validation';
-import { gameEngine } from '@/lib/game-engine';
+import { gameEngine, SeededRandom, createSeed } from '@/lib/game-engine';
 import { rpgWorldOrchestrator } from '@/lib/games/rpg';
+import { createRPGPlayer, saveRPGPlayer } from '@/lib/games/rpg/players';
 import { kvService } from '@/lib/database';
+import { issueSessionToken } from '@/lib/api/session-token';
+import { stateProjection, createViewer } from '@/lib/games/projection';
 import { RPGConfig, RPGGameState, UUID } from '@/types';
 
 interface CreateRPGGameRequest {
@@ -56,11 +60,14 @@ const handler = createApiHandler<CreateRPGGameRequest, CreateRPGGameResponse>({
 
 export const POST = handler(async (req, body) => {
   const { config, worldPreferences } = body;
-  const userId = req.context.userId;
+  // Anonymous creators get a fresh identity bound to their host token
+  const userId = req.context.userId ?? uuidv4();
+  const hostName = req.user?.name ?? 'Host';
   const startTime = Date.now();
 
   try {
-    // Step 1: Generate complete world
+    // Step 1: Generate complete world from the game's seed
+    const random = new SeededRandom(createSeed());
     const worldResult = await rpgWorldOrchestrator.generateCompleteWorld(
       worldPreferences.theme,
       {
@@ -76,7 +83,9 @@ export const POST = handler(async (req, body) => {
         technologyLevel: worldPreferences.technologyLevel,
         dangerLevel: worldPreferences.dangerLevel,
         culturalDiversity: worldPreferences.culturalDiversity,
-      }
+      },
+      undefined,
+      random
     );
 
     if (!worldResult.success) {
@@ -90,13 +99,17 @@ export const POST = handler(async (req, body) => {
     }
 
     // Step 2: Create game session through game engine
-    const game = await gameEngine.createGame({
-      ...config,
-      settings: {
-        ...config.settings,
-        worldId: worldResult.data.worldData.id,
+    const game = await gameEngine.createGame(
+      {
+        ...config,
+        settings: {
+          ...config.settings,
+          worldId: worldResult.data.worldData.id,
+          seed: random.getState().seed,
+        },
       },
-    });
+      userId
+    );
 
     // Step 3: Initialize RPG game state
     const initialState: RPGGameState = {
@@ -123,16 +136,24 @@ export const POST = handler(async (req, body) => {
           currency: 100, // Starting gold
         },
         partyReputation: {},
+        lootDistribution: config.settings.lootDistribution ?? 'round_robin',
+        difficulty: config.settings.difficulty,
+        tacticalCombat: config.settings.tacticalCombat ?? false,
+        permaDeath: config.settings.permaDeath,
       },
       metadata: {
         version: 1,
         actionHistory: [],
+        random: random.getState(),
       },
     };
 
     // Step 4: Save initial game state
     await gameEngine.saveState(game.id, initialState);
 
+    // The host plays too; their record is what makes them a member
+    await saveRPGPlayer(game.id, createRPGPlayer(userId, hostName));
+
     // Step 5: Generate join code
     const joinCode = generateJoinCode(game.id);
     await kvService.set(
@@ -176,8 +197,19 @@ export const POST = handler(async (req, body) => {
         factionCount: worldResult.data.worldStats.totalFactions,
         systemsEnabled: worldResult.data.worldStats.systemsEnabled,
       },
-      initialState,
+      // The host sees the world as a player, without its hidden places
+      initialState: stateProjection.projectState(
+        initialState,
+        createViewer(userId),
+        'rpg'
+      ),
       joinCode,
+      sessionToken: issueSessionToken({
+        playerId: userId,
+        gameId: game.id,
+        playerName: hostName,
+        role: 'host',
+      }),
       estimatedSetupTime: setupTime,
     };
   } catch (error) {
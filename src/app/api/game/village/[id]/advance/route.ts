@@ -11,6 +11,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { kvService } from '@/lib/database';
 import { createEventManager } from '@/lib/games/village';
+import { getGameRandom, withRandomState } from '@/lib/game-engine/random';
 import {
   Village,
   VillageGameState,
@@ -348,10 +349,11 @@ export async function POST(
     });
 
     // Generate random events if enabled
-    const eventManager = createEventManager(village);
+    const random = getGameRandom(gameState);
+    const eventManager = createEventManager(village, random);
     let newEvents: VillageEvent[] = [];
 
-    if (Math.random() < 0.3 * days) {
+    if (random.chance(0.3 * days)) {
       // 30% chance per day
       try {
         const generatedEvents =
@@ -415,16 +417,19 @@ export async function POST(
     };
 
     // Update game state
-    const updatedGameState: VillageGameState = {
-      ...gameState,
-      gameDay: gameState.gameDay + days,
-      season: updatedSeason,
-      dailyProduction: dailyProduction,
-      dailyConsumption: dailyConsumption,
-      populationGrowth: populationChanges.newTotal - village.population.total,
-      happinessChange,
-      updatedAt: new Date(),
-    };
+    const updatedGameState: VillageGameState = withRandomState(
+      {
+        ...gameState,
+        gameDay: gameState.gameDay + days,
+        season: updatedSeason,
+        dailyProduction: dailyProduction,
+        dailyConsumption: dailyConsumption,
+        populationGrowth: populationChanges.newTotal - village.population.total,
+        happinessChange,
+        updatedAt: new Date(),
+      },
+      random
+    );
 
     // Store updated data
     await Promise.all([
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
 import { kvService } from '@/lib/database';
+import { createRandomState } from '@/lib/game-engine/random';
 import {
   Village,
   VillageConfig,
@@ -402,6 +403,12 @@ export async function POST(request: NextRequest) {
       aiDecisions: [],
       lastAIEvent: new Date(),
 
+      metadata: {
+        version: 1,
+        actionHistory: [],
+        random: createRandomState(),
+      },
+
       createdAt: new Date(),
       updatedAt: new Date(),
     };
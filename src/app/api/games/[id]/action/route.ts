@@ -8,7 +8,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { CoreGameEngine } from '@/lib/game-engine/core';
+import { CoreGameEngine, isStateConflict } from '@/lib/game-engine/core';
+// Registers each game type's action effects with the engine
+import '@/lib/games/effects';
+import { GameError } from '@/types/core';
+import {
+  requireGameSession,
+  isSessionError,
+  getSessionErrorStatus,
+} from '@/lib/api/session-token';
 import { UUIDSchema } from '../../types';
 
 // ============================================================================
@@ -153,8 +161,24 @@ export async function POST(
     // Validate game ID parameter
     const { id: gameId } = GameIdParamsSchema.parse(params);
 
+    // The acting player is always the owner of the session token
+    const session = requireGameSession(request, gameId);
+    if (session.role === 'spectator') {
+      throw new GameError('PERMISSION_DENIED', 'Spectators cannot act', {
+        gameId,
+        playerId: session.playerId,
+      });
+    }
+
     // Parse request body
     const body = await request.json();
+    if (body.playerId && body.playerId !== session.playerId) {
+      throw new GameError(
+        'PERMISSION_DENIED',
+        'Cannot perform actions for another player',
+        { gameId, playerId: session.playerId }
+      );
+    }
 
     // Initialize game engine
     const gameEngine = new CoreGameEngine();
@@ -176,7 +200,10 @@ export async function POST(
     const gameType = inferGameTypeFromState(gameState);
 
     // Validate action based on game type
-    const validatedAction = validateActionForGameType(body, gameType);
+    const validatedAction = validateActionForGameType(
+      { ...body, playerId: session.playerId },
+      gameType
+    );
 
     // Verify player is in the game
     const player = gameState.players.find(
@@ -244,6 +271,31 @@ export async function POST(
       );
     }
 
+    // Handle missing or mismatched session tokens
+    if (isSessionError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Not authorized',
+          message: error.message,
+        },
+        { status: getSessionErrorStatus(error) }
+      );
+    }
+
+    // Handle actions that kept losing the race to other players
+    if (isStateConflict(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Action conflict',
+          message:
+            'The game changed while your action was processed, please try again',
+        },
+        { status: 409 }
+      );
+    }
+
     // Handle game engine errors
     if (error instanceof Error && error.name === 'GameError') {
       return NextResponse.json(
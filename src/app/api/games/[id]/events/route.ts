@@ -0,0 +1,262 @@
+/**
+ * Game Event Stream API Endpoint
+ * GET /api/games/[id]/events?token=...
+ *
+ * Server-Sent Events channel pushing GameEvents to connected clients.
+ * Events go through the state projection layer, so each player only receives
+ * what they may see (EventSource cannot send headers, so the session token
+ * travels in the query string), and clients reconnecting with Last-Event-ID receive the
+ * events they missed first.
+ *
+ * Events emitted by this instance are pushed as they happen. Other instances
+ * (or serverless invocations) only share the persisted event log, so the
+ * stream also tails that log for as long as it is open.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eventSystem } from '@/lib/game-engine/events';
+import { stateProjection, createViewer } from '@/lib/games/projection';
+import {
+  getSessionPlayerId,
+  isSessionError,
+  getSessionErrorStatus,
+} from '@/lib/api/session-token';
+import { GameEvent } from '@/types/core';
+import { UUIDSchema } from '../../types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// ============================================================================
+// STREAM CONFIGURATION
+// ============================================================================
+
+const STREAM_CONFIG = {
+  HEARTBEAT_INTERVAL_MS: 15000, // Keep proxies from closing idle connections
+  RETRY_INTERVAL_MS: 3000, // Client reconnect delay hint
+  MAX_RESUME_EVENTS: 200, // Cap on missed events replayed after reconnect
+  LOG_POLL_INTERVAL_MS: 2000, // How often the persisted event log is tailed
+} as const;
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const GameIdParamsSchema = z.object({
+  id: UUIDSchema,
+});
+
+const StreamQuerySchema = z.object({
+  lastEventId: z.string().min(1).optional(),
+  types: z
+    .string()
+    .optional()
+    .transform(value =>
+      value
+        ? value
+            .split(',')
+            .map(type => type.trim())
+            .filter(Boolean)
+        : undefined
+    ),
+});
+
+// ============================================================================
+// SSE FORMATTING
+// ============================================================================
+
+const encoder = new TextEncoder();
+
+// Events go out on the default "message" channel so clients can listen once
+const formatEvent = (event: GameEvent): Uint8Array =>
+  encoder.encode(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+
+const formatComment = (comment: string): Uint8Array =>
+  encoder.encode(`: ${comment}\n\n`);
+
+const formatError = (message: string): Uint8Array =>
+  encoder.encode(`event: error\ndata: ${JSON.stringify({ message })}\n\n`);
+
+// ============================================================================
+// API HANDLER
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: gameId } = GameIdParamsSchema.parse(params);
+    const { lastEventId, types } = StreamQuerySchema.parse({
+      // EventSource sends Last-Event-ID itself on reconnect
+      lastEventId:
+        request.headers.get('last-event-id') ??
+        request.nextUrl.searchParams.get('lastEventId') ??
+        undefined,
+      types: request.nextUrl.searchParams.get('types') ?? undefined,
+    });
+
+    const viewer = createViewer(getSessionPlayerId(request, gameId));
+    const project = (event: GameEvent) =>
+      event.gameId === gameId && (!types || types.includes(event.type))
+        ? stateProjection.projectEvent(event, viewer)
+        : null;
+
+    let cleanup: (() => void) | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const sentIds = new Set<string>();
+        const pending: GameEvent[] = [];
+        let resuming = !!lastEventId;
+        let closed = false;
+
+        const send = (event: GameEvent) => {
+          if (closed || sentIds.has(event.id)) {
+            return;
+          }
+          const projected = project(event);
+          if (!projected) {
+            return;
+          }
+          sentIds.add(event.id);
+          controller.enqueue(formatEvent(projected));
+        };
+
+        // Subscribe before reading the log so nothing slips in between;
+        // live events are held back until missed ones have been sent
+        const unsubscribe = eventSystem.subscribeToGame(gameId, event => {
+          if (resuming) {
+            pending.push(event);
+          } else {
+            send(event);
+          }
+        });
+        const heartbeat = setInterval(() => {
+          if (!closed) controller.enqueue(formatComment('heartbeat'));
+        }, STREAM_CONFIG.HEARTBEAT_INTERVAL_MS);
+
+        // The last logged event this stream has read up to; events already
+        // pushed live are skipped when the log catches up with them
+        let cursor = lastEventId;
+        let polling = false;
+        const readLog = async () => {
+          const logged = cursor
+            ? await eventSystem.getEventsSince(
+                gameId,
+                cursor,
+                STREAM_CONFIG.MAX_RESUME_EVENTS
+              )
+            : (
+                await eventSystem.getEventHistory(
+                  gameId,
+                  STREAM_CONFIG.MAX_RESUME_EVENTS
+                )
+              ).reverse();
+          logged.forEach(send);
+          cursor = logged.at(-1)?.id ?? cursor;
+        };
+        const tail = setInterval(async () => {
+          if (closed || polling) return;
+          polling = true;
+          try {
+            await readLog();
+          } catch (error) {
+            // The next poll picks up from the same place
+            console.error('Game event log poll failed:', error);
+          } finally {
+            polling = false;
+          }
+        }, STREAM_CONFIG.LOG_POLL_INTERVAL_MS);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          clearInterval(tail);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Stream already closed by the runtime
+          }
+        };
+
+        request.signal.addEventListener('abort', () => cleanup?.());
+
+        controller.enqueue(
+          encoder.encode(`retry: ${STREAM_CONFIG.RETRY_INTERVAL_MS}\n\n`)
+        );
+
+        // Resume from the client's last seen event; a new client starts
+        // tailing from the newest event already logged
+        polling = true;
+        try {
+          if (lastEventId) {
+            await readLog();
+          } else {
+            cursor = (await eventSystem.getEventHistory(gameId, 1))[0]?.id;
+          }
+        } catch (error) {
+          console.error('Game event stream resume failed:', error);
+          controller.enqueue(formatError('Failed to load missed events'));
+          cleanup();
+          return;
+        } finally {
+          polling = false;
+          resuming = false;
+          pending.splice(0).forEach(send);
+        }
+
+        controller.enqueue(formatComment('connected'));
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Game event stream error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid event stream request',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle invalid or mismatched session tokens
+    if (isSessionError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Not authorized',
+          message: error.message,
+        },
+        { status: getSessionErrorStatus(error) }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to open game event stream',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,19 @@
  * POST /api/games/[id]/join
  *
  * Allows players to join any game type through a unified endpoint
- * Handles player validation, capacity checks, and game state updates
+ * Handles player validation, capacity checks, and game state updates, and
+ * issues the session token that identifies the player from then on
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { CoreGameEngine } from '@/lib/game-engine/core';
+import {
+  CoreGameEngine,
+  isStateConflict,
+  JOIN_GAME_ACTION,
+} from '@/lib/game-engine/core';
+import { issueSessionToken } from '@/lib/api/session-token';
+import { createRPGPlayer, saveRPGPlayer } from '@/lib/games/rpg/players';
 import { v4 as uuidv4 } from 'uuid';
 import { UUIDSchema } from '../../types';
 
@@ -22,7 +29,8 @@ const GameIdParamsSchema = z.object({
 
 const JoinGameRequestSchema = z.object({
   playerName: z.string().min(1).max(50),
-  playerId: UUIDSchema.optional(), // Optional for existing players
+  // Player ids are issued here, never chosen by the client; an id sent in
+  // the body is dropped by the schema
   role: z.enum(['player', 'spectator']).default('player'),
   // TODO: Add game-specific join preferences
 });
@@ -54,8 +62,11 @@ const validateJoinRequest = (
     };
   }
 
+  // Engine states that keep their members elsewhere start with no list
+  const players: any[] = gameState.players ?? [];
+
   // Check if game is full
-  const currentPlayerCount = gameState.players.filter(
+  const currentPlayerCount = players.filter(
     (p: any) => p.role === 'player'
   ).length;
   const maxPlayers = gameState.maxPlayers || 8;
@@ -69,8 +80,8 @@ const validateJoinRequest = (
   }
 
   // Check if player is already in game
-  const existingPlayer = gameState.players.find(
-    (p: any) => p.id === request.playerId || p.name === request.playerName
+  const existingPlayer = players.find(
+    (p: any) => p.name === request.playerName
   );
 
   if (existingPlayer) {
@@ -124,7 +135,7 @@ const validateJoinRequest = (
 
 const createPlayerData = (request: JoinGameRequest, gameType: string) => {
   const basePlayer = {
-    id: request.playerId || uuidv4(),
+    id: uuidv4(), // The session token issued below binds this identity
     name: request.playerName,
     role: request.role,
     isActive: true,
@@ -224,19 +235,38 @@ export async function POST(
     // Create player data
     const playerData = createPlayerData(joinRequest, gameType);
 
-    // Add player to game state
-    const updatedState = {
-      ...gameState,
-      players: [...gameState.players, playerData],
-      lastUpdated: new Date(),
-    };
+    // Joining is a logged action like any other, so replays seat the player
+    // too; the engine adds them to the player list as the next version
+    const joinResult = await gameEngine.commitAction(gameId, {
+      id: uuidv4(),
+      type: JOIN_GAME_ACTION,
+      playerId: playerData.id,
+      gameId,
+      timestamp: new Date(),
+      // The action log only holds plain JSON
+      data: { player: JSON.parse(JSON.stringify(playerData)) },
+    });
+    const updatedState: any = joinResult.newState!;
 
-    // Save updated state
-    await gameEngine.saveState(gameId, updatedState);
+    // RPG membership is the player's record, which holds their character
+    if (gameType === 'rpg') {
+      await saveRPGPlayer(
+        gameId,
+        createRPGPlayer(playerData.id, playerData.name, playerData.joinedAt)
+      );
+    }
 
     // TODO: Trigger game events (player joined, role assignment, etc.)
     // TODO: Send real-time notifications to other players
 
+    // The session token is the player's identity for every later request
+    const sessionToken = issueSessionToken({
+      playerId: playerData.id,
+      gameId,
+      playerName: playerData.name,
+      role: playerData.role,
+    });
+
     // Return success response
     return NextResponse.json({
       success: true,
@@ -247,6 +277,7 @@ export async function POST(
         gameType: gameType,
         currentPlayers: updatedState.players.length,
         gameStatus: updatedState.status,
+        sessionToken,
         // TODO: Add game-specific welcome data
       },
       message: `Successfully joined ${gameType} game`,
@@ -269,27 +300,27 @@ export async function POST(
       );
     }
 
-    // Handle game engine errors
-    if (error instanceof Error && error.name === 'GameError') {
+    // Handle concurrency errors
+    if (isStateConflict(error)) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Join failed',
-          message: error.message,
+          error: 'Join conflict',
+          message: 'Another player joined at the same time, please try again',
         },
-        { status: 400 }
+        { status: 409 }
       );
     }
 
-    // Handle concurrency errors
-    if (error instanceof Error && error.message.includes('concurrent')) {
+    // Handle game engine errors
+    if (error instanceof Error && error.name === 'GameError') {
       return NextResponse.json(
         {
           success: false,
-          error: 'Join conflict',
-          message: 'Another player joined at the same time, please try again',
+          error: 'Join failed',
+          message: error.message,
         },
-        { status: 409 }
+        { status: 400 }
       );
     }
 
@@ -310,7 +341,12 @@ export async function POST(
 // ============================================================================
 
 function inferGameTypeFromState(gameState: any): string {
-  if (gameState.world || gameState.combat || gameState.characters) {
+  if (
+    gameState.world ||
+    gameState.combat ||
+    gameState.characters ||
+    gameState.data?.world
+  ) {
     return 'rpg';
   }
   if (gameState.voting || gameState.roles || gameState.clues) {
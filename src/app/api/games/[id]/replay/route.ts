@@ -0,0 +1,175 @@
+/**
+ * Game Replay API Endpoint
+ * GET /api/games/[id]/replay?version=N
+ *
+ * Rebuilds a game's state at the requested version by replaying its action log
+ * from the initial state and seed. Omitting version replays to the latest state.
+ * Replays are projected like live state; the full game-master view only opens
+ * up once the game is over.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { replayEngine } from '@/lib/games/effects';
+import { gameEngine } from '@/lib/game-engine/core';
+import { stateProjection, createViewer } from '@/lib/games/projection';
+import {
+  getSessionPlayerId,
+  isSessionError,
+  getSessionErrorStatus,
+} from '@/lib/api/session-token';
+import { GameError } from '@/types/core';
+import { UUIDSchema } from '../../types';
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+const GameIdParamsSchema = z.object({
+  id: UUIDSchema,
+});
+
+const ReplayQuerySchema = z.object({
+  version: z.coerce.number().int().min(1).optional(),
+  includeTimeline: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform(value => value === 'true'),
+  view: z.enum(['player', 'spectator', 'game_master']).optional(),
+});
+
+// ============================================================================
+// API HANDLER
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate game ID and query parameters
+    const { id: gameId } = GameIdParamsSchema.parse(params);
+    const { version, includeTimeline, view } = ReplayQuerySchema.parse({
+      version: request.nextUrl.searchParams.get('version') ?? undefined,
+      includeTimeline:
+        request.nextUrl.searchParams.get('includeTimeline') ?? undefined,
+      view: request.nextUrl.searchParams.get('view') ?? undefined,
+    });
+    const playerId = getSessionPlayerId(request, gameId);
+
+    if (view === 'game_master') {
+      const current = await gameEngine.loadState(gameId);
+      if (current?.phase !== 'game_over') {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              'Game master replays are only available once the game is over',
+            code: 'INSUFFICIENT_PERMISSIONS',
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    const viewer = createViewer(playerId, view);
+    const result = await replayEngine.replayGame(gameId, version);
+    const timeline = includeTimeline
+      ? (await replayEngine.getTimeline(gameId)).filter(
+          entry =>
+            viewer.mode === 'game_master' ||
+            (viewer.mode === 'player' &&
+              entry.action.playerId === viewer.playerId)
+        )
+      : undefined;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        gameId,
+        version: result.version,
+        latestVersion: result.latestVersion,
+        actionsApplied: result.actionsApplied,
+        state: stateProjection.projectState(result.state, viewer),
+        timeline,
+      },
+      message: `Game state replayed to version ${result.version}`,
+    });
+  } catch (error) {
+    console.error('Game replay error:', error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid replay request',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle invalid or mismatched session tokens
+    if (isSessionError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Not authorized',
+          message: error.message,
+        },
+        { status: getSessionErrorStatus(error) }
+      );
+    }
+
+    // Handle replay errors
+    if (error instanceof GameError) {
+      const status =
+        error.code === 'GAME_NOT_FOUND'
+          ? 404
+          : error.code === 'VALIDATION_ERROR'
+            ? 400
+            : 409;
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Game replay error',
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        { status }
+      );
+    }
+
+    // Handle unexpected errors
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while replaying the game',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// OPTIONS HANDLER (CORS Support)
+// ============================================================================
+
+export async function OPTIONS() {
+  return NextResponse.json(
+    {},
+    {
+      status: 200,
+      headers: {
+        Allow: 'GET, OPTIONS',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    }
+  );
+}
@@ -1,14 +1,21 @@
 /**
  * Game State Retrieval API Endpoint
- * GET /api/games/[id]
+ * GET /api/games/[id]?view=spectator
  *
  * Retrieves current game state for any game type
- * Returns game-specific data formatted for frontend consumption
+ * Returns game-specific data formatted for frontend consumption, projected
+ * to what the session token's player (or a spectator) is allowed to see
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { CoreGameEngine } from '@/lib/game-engine/core';
+import { stateProjection, createViewer } from '@/lib/games/projection';
+import {
+  getSessionPlayerId,
+  isSessionError,
+  getSessionErrorStatus,
+} from '@/lib/api/session-token';
 import { UUIDSchema } from '../types';
 
 // ============================================================================
@@ -19,6 +26,10 @@ const GameIdParamsSchema = z.object({
   id: UUIDSchema,
 });
 
+const ViewerQuerySchema = z.object({
+  view: z.enum(['player', 'spectator']).optional(),
+});
+
 // ============================================================================
 // RESPONSE FORMATTING
 // ============================================================================
@@ -118,6 +129,10 @@ export async function GET(
   try {
     // Validate game ID parameter
     const { id: gameId } = GameIdParamsSchema.parse(params);
+    const { view } = ViewerQuerySchema.parse({
+      view: request.nextUrl.searchParams.get('view') ?? undefined,
+    });
+    const playerId = getSessionPlayerId(request, gameId);
 
     // Initialize game engine
     const gameEngine = new CoreGameEngine();
@@ -150,8 +165,12 @@ export async function GET(
 
     const gameType = gameConfig?.type || 'unknown';
 
-    // Format state for client consumption
-    const clientState = formatGameStateForClient(gameState, gameType);
+    // Redact what this viewer may not see, then format for the client
+    const projectedState = stateProjection.projectState(
+      gameState,
+      createViewer(playerId, view)
+    );
+    const clientState = formatGameStateForClient(projectedState, gameType);
 
     // Return formatted game state
     return NextResponse.json({
@@ -174,6 +193,18 @@ export async function GET(
       );
     }
 
+    // Handle invalid or mismatched session tokens
+    if (isSessionError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Not authorized',
+          message: error.message,
+        },
+        { status: getSessionErrorStatus(error) }
+      );
+    }
+
     // Handle game engine errors
     if (error instanceof Error && error.name === 'GameError') {
       return NextResponse.json(
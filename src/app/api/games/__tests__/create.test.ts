@@ -79,6 +79,8 @@ describe('POST /api/games/create', () => {
           currentPlayers: 0,
           isPrivate: false,
           createdAt: expect.any(String),
+          hostId: expect.any(String),
+          sessionToken: expect.any(String),
         },
         message: 'RPG game created successfully',
       });
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ *
+ * API Tests for the Game Event Stream Endpoint
+ *
+ * Tests the GET /api/games/[id]/events endpoint for:
+ * - Events emitted on other instances, read from the persisted log
+ * - Events pushed live not being sent twice
+ * - Failed resumes closing the stream with an error event
+ */
+
+import { NextRequest } from 'next/server';
+import { jest } from '@jest/globals';
+import { GET } from '../[id]/events/route';
+import { eventSystem } from '@/lib/game-engine/events';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { GameEvent } from '@/types/core';
+
+const GAME_ID = '0f8e1c52-7d3a-4b6e-9c21-5a4d3e2f1b01';
+
+const createEvent = (type = 'player_moved'): GameEvent => ({
+  id: crypto.randomUUID(),
+  type,
+  gameId: GAME_ID,
+  timestamp: new Date(),
+  data: {},
+  affectedPlayers: [],
+  isPublic: true,
+});
+
+const openStream = (headers: Record<string, string> = {}) =>
+  GET(
+    new NextRequest(`http://localhost:3000/api/games/${GAME_ID}/events`, {
+      headers,
+    }),
+    { params: { id: GAME_ID } }
+  );
+
+/**
+ * Read the stream until `done` holds for what has arrived, it ends, or
+ * `timeoutMs` passes
+ */
+async function readUntil(
+  response: Response,
+  done: (text: string) => boolean,
+  timeoutMs = 4000
+): Promise<{ text: string; ended: boolean }> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const timer = setTimeout(() => void reader.cancel(), timeoutMs);
+  let text = '';
+  try {
+    for (;;) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        return { text, ended: true };
+      }
+      text += decoder.decode(chunk.value);
+      if (done(text)) {
+        await reader.cancel();
+        return { text, ended: false };
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const countOf = (text: string, id: string) =>
+  text.split(`id: ${id}`).length - 1;
+
+describe('/api/games/[id]/events', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('sends events another instance logged while the stream is open', async () => {
+    // Nothing reaches this instance's subscribers, as on a second server
+    jest.spyOn(eventSystem, 'subscribeToGame').mockReturnValue(() => {});
+    const response = await openStream();
+
+    const event = createEvent();
+    await eventSystem.emit(event);
+    const { text } = await readUntil(response, received =>
+      received.includes(event.id)
+    );
+
+    expect(countOf(text, event.id)).toBe(1);
+  });
+
+  test('does not send a live event again when the log catches up', async () => {
+    const response = await openStream();
+
+    const event = createEvent();
+    await eventSystem.emit(event);
+    // Long enough for the log to be read after the event went out live
+    const { text } = await readUntil(response, () => false, 3000);
+
+    expect(countOf(text, event.id)).toBe(1);
+  });
+
+  test('closes the stream with an error event when the resume fails', async () => {
+    jest
+      .spyOn(eventSystem, 'getEventsSince')
+      .mockRejectedValue(new Error('storage unavailable'));
+
+    const response = await openStream({ 'Last-Event-ID': 'event-1' });
+    const { text, ended } = await readUntil(response, () => false);
+
+    expect(ended).toBe(true);
+    expect(text).toContain('event: error');
+    expect(text).not.toContain(': connected');
+  });
+});
@@ -8,7 +8,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
 import { CoreGameEngine } from '@/lib/game-engine/core';
+import { issueSessionToken } from '@/lib/api/session-token';
 import { GameTypeSchema, CreateGameConfigSchema } from '../types';
 
 // ============================================================================
@@ -99,8 +101,15 @@ export async function POST(request: NextRequest) {
       validatedRequest
     );
 
-    // Create game through unified engine
-    const game = await gameEngine.createGame(gameConfig);
+    // Create game through unified engine; the creator becomes its host
+    const hostId = uuidv4();
+    const game = await gameEngine.createGame(gameConfig, hostId);
+    const sessionToken = issueSessionToken({
+      playerId: hostId,
+      gameId: game.id,
+      playerName: validatedRequest.hostName,
+      role: 'host',
+    });
 
     // Return success response
     return NextResponse.json({
@@ -114,6 +123,8 @@ export async function POST(request: NextRequest) {
         currentPlayers: game.state.players.length,
         isPrivate: game.config.isPrivate,
         createdAt: game.createdAt,
+        hostId,
+        sessionToken,
         // TODO: Add game-specific metadata for UI
       },
       message: `${game.config.type.toUpperCase()} game created successfully`,
@@ -21,6 +21,7 @@ export const CreateGameConfigSchema = z.object({
   minPlayers: z.number().int().min(2).max(8),
   isPrivate: z.boolean().default(false),
   settings: z.record(z.any()).default({}),
+  hostName: z.string().min(1).max(50).optional(),
 });
 
 export type CreateGameConfig = z.infer<typeof CreateGameConfigSchema>;
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Navigation from '@/components/shared/Navigation';
 import GameSetup from '@/components/GameSetup';
 import { GameLoading, SuccessState } from '@/components/shared/LoadingStates';
+import { storeSessionToken } from '@/lib/api/session-client';
 
 interface GameSetupConfig {
   type: 'rpg' | 'deduction' | 'village';
@@ -54,6 +55,7 @@ export default function CreateGamePage() {
 
       if (response.ok) {
         const data = await response.json();
+        storeSessionToken(data.data.gameId, data.data.sessionToken);
         setCreatedGameId(data.data.gameId);
         setStep('success');
       } else {
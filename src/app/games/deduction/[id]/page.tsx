@@ -31,6 +31,7 @@ import { VotingInterface } from '../../../../components/game/deduction/VotingInt
 import { ClueTracker } from '../../../../components/game/deduction/ClueTracker';
 import { ChatSystem } from '../../../../components/game/deduction/ChatSystem';
 import { GameTimer } from '../../../../components/game/deduction/GameTimer';
+import { getSessionHeaders } from '../../../../lib/api/session-client';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -86,7 +87,9 @@ export default function DeductionGamePage() {
 
   const fetchGameState = useCallback(async () => {
     try {
-      const response = await fetch(`/api/game/deduction/${gameId}`);
+      const response = await fetch(`/api/game/deduction/${gameId}`, {
+        headers: getSessionHeaders(gameId),
+      });
       if (!response.ok) {
         throw new Error(`Failed to fetch game: ${response.status}`);
       }
@@ -232,17 +235,21 @@ export default function DeductionGamePage() {
     }));
   };
 
-  const handleGameAction = async (action: any) => {
+  const handleGameAction = async (
+    endpoint: 'night-action' | 'investigate' | 'chat',
+    body: Record<string, unknown>
+  ) => {
     try {
-      const response = await fetch(`/api/game/deduction/${gameId}/action`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(action),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Action failed: ${response.status}`);
-      }
+      const response = await fetch(
+        `/api/game/deduction/${gameId}/${endpoint}`,
+        {
+          method: 'POST',
+          headers: getSessionHeaders(gameId, {
+            'Content-Type': 'application/json',
+          }),
+          body: JSON.stringify(body),
+        }
+      );
 
       const result = await response.json();
 
@@ -250,7 +257,7 @@ export default function DeductionGamePage() {
         addNotification({
           type: 'success',
           title: 'Action Complete',
-          message: result.message || 'Action completed successfully',
+          message: 'Action completed successfully',
           autoHide: true,
         });
 
@@ -286,6 +293,7 @@ export default function DeductionGamePage() {
     // TODO: Extract voting session from game state
     return {
       id: `voting-${pageState.gameState.data.round}` as UUID,
+      gameId,
       phase: 'voting' as const,
       round: pageState.gameState.data.round,
       timeRemaining: pageState.gameState.data.timeRemaining,
@@ -297,7 +305,7 @@ export default function DeductionGamePage() {
       startTime: Date.now() - 60000, // TODO: Get actual start time
       timeLimit: 300, // 5 minutes
     };
-  }, [gamePhase, pageState.gameState]);
+  }, [gameId, gamePhase, pageState.gameState]);
 
   // ============================================================================
   // RENDER HELPERS
@@ -422,7 +430,28 @@ export default function DeductionGamePage() {
               role={currentPlayer.gameSpecificData.role}
               scenario={gameState.data.scenario}
               canRevealInfo={gamePhase === 'day_discussion'}
-              onActionUse={action => handleGameAction(action)}
+              onActionUse={action => {
+                if (action.type === 'use_ability') {
+                  // Night abilities are queued; day abilities act at once
+                  handleGameAction(
+                    gamePhase === 'night_actions'
+                      ? 'night-action'
+                      : 'investigate',
+                    gamePhase === 'night_actions'
+                      ? {
+                          abilityName: action.abilityName,
+                          targetId: action.targetId,
+                        }
+                      : { targetId: action.targetId }
+                  );
+                } else if (action.type === 'reveal_info' && action.message) {
+                  handleGameAction('chat', {
+                    recipient: 'all',
+                    message: action.message,
+                    communicationType: 'public_message',
+                  });
+                }
+              }}
               //TODO: Add proper accessibility labels for screen readers
             />
 
@@ -431,10 +460,7 @@ export default function DeductionGamePage() {
               playerClues={currentPlayer.gameSpecificData.clues}
               canRevealClues={gamePhase === 'day_discussion'}
               onClueReveal={clueId =>
-                handleGameAction({
-                  type: 'reveal_clue',
-                  data: { clueId },
-                })
+                handleGameAction('investigate', { clueId })
               }
               //TODO: Add keyboard navigation for clue cards
             />
@@ -447,6 +473,8 @@ export default function DeductionGamePage() {
               currentPlayerId={currentPlayer.id}
               gamePhase={gamePhase}
               alivePlayers={gameState.data.alivePlayers}
+              revealedRoles={gameState.data.revealedRoles}
+              lastWills={gameState.data.lastWills}
               onPlayerSelect={playerId => {
                 // Handle player selection for abilities or voting
                 console.log('Player selected:', playerId);
@@ -487,12 +515,13 @@ export default function DeductionGamePage() {
               currentPlayer={currentPlayer}
               allPlayers={gameState.players as DeductionPlayer[]}
               gamePhase={gamePhase}
-              allowedCommunications={['public_message', 'whisper']} // TODO: Get from role
+              allowedCommunications={
+                gameState.data.alivePlayers.includes(currentPlayer.id)
+                  ? ['public_message', 'whisper'] // TODO: Get from role
+                  : ['dead_chat']
+              }
               onMessageSent={message =>
-                handleGameAction({
-                  type: 'send_message',
-                  data: message,
-                })
+                handleGameAction('chat', { ...message })
               }
               //TODO: Add message filtering and moderation
               //TODO: Implement @mentions with autocomplete
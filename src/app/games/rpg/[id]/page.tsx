@@ -22,19 +22,26 @@ import {
   Inventory,
   Quest,
   CombatSession,
+  CombatRewardSummary,
   Location,
   NPC,
   UUID,
 } from '@/types/rpg';
+import { GameEvent } from '@/types/core';
+import { RPGActionResponse } from '@/types/api';
 
 // Component imports
 import GameBoard from '@/components/game/rpg/GameBoard';
 import CharacterSheet from '@/components/game/rpg/CharacterSheet';
-import NarrativePanel from '@/components/game/rpg/NarrativePanel';
+import NarrativePanel, {
+  StreamedNarration,
+} from '@/components/game/rpg/NarrativePanel';
 import CombatInterface from '@/components/game/rpg/CombatInterface';
 import InventoryPanel from '@/components/game/rpg/InventoryPanel';
 import QuestTracker from '@/components/game/rpg/QuestTracker';
 import PartyManager from '@/components/game/rpg/PartyManager';
+import { getSessionHeaders } from '@/lib/api/session-client';
+import { readActionResponse } from '@/lib/api/narration-client';
 
 // ============================================================================
 // INTERFACES & TYPES
@@ -90,6 +97,12 @@ export default function RPGGamePage() {
   });
   const [error, setError] = useState<string>('');
   const [lastUpdate, setLastUpdate] = useState<number>(Date.now());
+  const [narration, setNarration] = useState<StreamedNarration | null>(null);
+  // Kept after the fight leaves the game state so the results can be shown
+  const [finishedCombat, setFinishedCombat] = useState<{
+    session: CombatSession;
+    rewards: Record<UUID, CombatRewardSummary>;
+  } | null>(null);
 
   // ============================================================================
   // COMPUTED VALUES
@@ -121,8 +134,8 @@ export default function RPGGamePage() {
   }, [gameState]);
 
   const currentCombat = useMemo(() => {
-    return gameState?.data.activeCombat || null;
-  }, [gameState]);
+    return gameState?.data.activeCombat || finishedCombat?.session || null;
+  }, [gameState, finishedCombat]);
 
   // ============================================================================
   // API FUNCTIONS
@@ -138,7 +151,9 @@ export default function RPGGamePage() {
 
       const response = await fetch(`/api/game/rpg/${gameId}`, {
         method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
+        headers: getSessionHeaders(gameId, {
+          'Content-Type': 'application/json',
+        }),
       });
 
       if (!response.ok) {
@@ -173,22 +188,39 @@ export default function RPGGamePage() {
   const performGameAction = useCallback(
     async (actionType: string, actionData: any) => {
       try {
-        const response = await fetch(`/api/game/rpg/${gameId}/action`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            type: actionType,
-            data: actionData,
-            timestamp: Date.now(),
-          }),
-        });
+        const response = await fetch(
+          `/api/game/rpg/${gameId}/action?streaming=true`,
+          {
+            method: 'POST',
+            headers: getSessionHeaders(gameId, {
+              'Content-Type': 'application/json',
+            }),
+            body: JSON.stringify({
+              type: actionType,
+              data: actionData,
+              timestamp: Date.now(),
+            }),
+          }
+        );
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.message || 'Failed to perform action');
+          throw new Error(
+            errorData.error?.message ||
+              errorData.message ||
+              'Failed to perform action'
+          );
         }
 
-        const result = await response.json();
+        // Narrated actions stream their prose before the final result
+        let streamed = '';
+        const result = await readActionResponse<RPGActionResponse>(
+          response,
+          text => {
+            streamed += text;
+            setNarration({ content: streamed, isStreaming: true });
+          }
+        );
 
         // Update game state with new data
         if (result.newState) {
@@ -196,11 +228,23 @@ export default function RPGGamePage() {
           setLastUpdate(Date.now());
         }
 
+        if (result.narrative) {
+          setNarration({
+            content: result.narrative.content,
+            isStreaming: false,
+            mood: result.narrative.mood,
+            choices: result.narrative.choices,
+          });
+        } else if (streamed) {
+          setNarration({ content: streamed, isStreaming: false });
+        }
+
         return result;
       } catch (error) {
         const message =
           error instanceof Error ? error.message : 'Action failed';
         setError(message);
+        setNarration(prev => prev && { ...prev, isStreaming: false });
         throw error;
       }
     },
@@ -259,7 +303,19 @@ export default function RPGGamePage() {
   const handleCombatAction = useCallback(
     async (actionType: string, actionData: any) => {
       try {
-        await performGameAction('combat_action', { actionType, ...actionData });
+        const result = await performGameAction('combat_action', {
+          actionType,
+          ...actionData,
+        });
+        const ended = result.events?.find(
+          (event: GameEvent) => event.type === 'combat_ended'
+        );
+        if (ended) {
+          setFinishedCombat({
+            session: ended.data.session,
+            rewards: ended.data.rewards,
+          });
+        }
       } catch (error) {
         // Error already handled in performGameAction
       }
@@ -562,9 +618,11 @@ export default function RPGGamePage() {
                 session={currentCombat}
                 playerCharacters={playerCharacters}
                 onCombatAction={handleCombatAction}
-                onExitCombat={() =>
-                  setViewState(prev => ({ ...prev, activePanel: 'world' }))
-                }
+                rewards={finishedCombat?.rewards}
+                onExitCombat={() => {
+                  setFinishedCombat(null);
+                  setViewState(prev => ({ ...prev, activePanel: 'world' }));
+                }}
               />
             </div>
           )}
@@ -577,6 +635,7 @@ export default function RPGGamePage() {
                 <NarrativePanel
                   gameState={gameState}
                   currentLocation={currentLocation}
+                  narration={narration}
                   onChoice={handleNarrativeChoice}
                   onLocationChange={handleLocationSelect}
                 />
@@ -20,6 +20,7 @@ import {
   DeductionPhase,
   UUID,
 } from '../../../types/deduction';
+import { useGameEvents } from '../../../hooks/useGameEvents';
 
 // ============================================================================
 // COMPONENT TYPES & INTERFACES
@@ -114,6 +115,13 @@ const COMMUNICATION_CONFIG: Record<
     description: 'Announce your vote publicly',
     allowsRecipient: false,
   },
+  dead_chat: {
+    name: 'Graveyard',
+    icon: '👻',
+    color: 'gray',
+    description: 'Only eliminated players can see this',
+    allowsRecipient: false,
+  },
 };
 
 // ============================================================================
@@ -139,7 +147,7 @@ export function ChatSystem({
     messages: [],
     currentMessage: '',
     selectedRecipient: 'all',
-    messageType: 'public_message',
+    messageType: allowedCommunications[0] ?? 'public_message',
     isTyping: false,
     typingUsers: new Set(),
     showEmojiPicker: false,
@@ -280,11 +288,15 @@ export function ChatSystem({
 
   const getMessageTypeFromRecipient = useCallback(
     (recipient: UUID | 'all' | 'team'): CommunicationType => {
-      if (recipient === 'all') return 'public_message';
+      if (recipient === 'all') {
+        return allowedCommunications.includes('dead_chat')
+          ? 'dead_chat'
+          : 'public_message';
+      }
       if (recipient === 'team') return 'team_chat';
       return 'whisper';
     },
-    []
+    [allowedCommunications]
   );
 
   const checkMentions = useCallback(
@@ -310,6 +322,23 @@ export function ChatSystem({
   // EFFECT HOOKS
   // ============================================================================
 
+  // Receive messages over the game's push channel
+  useGameEvents(gameId, {
+    types: ['chat_message'],
+    onEvent: event => {
+      const communication = event.data.communication as
+        | Communication
+        | undefined;
+      if (!communication) return;
+
+      setChatState(prev =>
+        prev.messages.some(message => message.id === communication.id)
+          ? prev
+          : { ...prev, messages: [...prev.messages, communication] }
+      );
+    },
+  });
+
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
     if (chatState.autoScroll && messagesEndRef.current) {
@@ -444,7 +473,7 @@ export function ChatSystem({
             onChange={e => {
               const type = e.target.value as CommunicationType;
               const recipient =
-                type === 'public_message'
+                type === 'public_message' || type === 'dead_chat'
                   ? 'all'
                   : type === 'team_chat'
                     ? 'team'
@@ -7,6 +7,7 @@
  * - Player status indicators (alive, dead, voting, suspicious)
  * - Real-time vote tallies and suspicion tracking
  * - Player avatars with role-specific visual cues (when appropriate)
+ * - Revealed roles and last wills of eliminated players
  * - Interactive selection for abilities and voting
  * - Accessibility support and keyboard navigation
  */
@@ -16,6 +17,7 @@ import {
   DeductionPlayer,
   DeductionPhase,
   PlayerStatus,
+  RevealedRole,
   UUID,
 } from '../../../types/deduction';
 
@@ -29,6 +31,8 @@ export interface PlayerGridProps {
   readonly gamePhase: DeductionPhase;
   readonly alivePlayers: UUID[];
   readonly votingResults?: VotingGridData;
+  readonly revealedRoles?: Record<UUID, RevealedRole>;
+  readonly lastWills?: Record<UUID, string>;
   readonly onPlayerSelect?: (playerId: UUID, action?: PlayerAction) => void;
   readonly className?: string;
 }
@@ -59,6 +63,8 @@ interface PlayerCardData {
   voteCount: number;
   suspicionLevel: number;
   votedFor?: UUID | 'abstain' | 'no_lynch';
+  revealedRole?: RevealedRole;
+  lastWill?: string;
   canBeTargeted: boolean;
   statusIndicators: StatusIndicator[];
 }
@@ -86,6 +92,8 @@ export function PlayerGrid({
   gamePhase,
   alivePlayers,
   votingResults,
+  revealedRoles,
+  lastWills,
   onPlayerSelect,
   className = '',
 }: PlayerGridProps) {
@@ -122,11 +130,21 @@ export function PlayerGrid({
         voteCount,
         suspicionLevel,
         votedFor,
+        revealedRole: revealedRoles?.[player.id],
+        lastWill: lastWills?.[player.id],
         canBeTargeted: isAlive && !isCurrentPlayer,
         statusIndicators,
       };
     });
-  }, [players, currentPlayerId, alivePlayers, votingResults, gamePhase]);
+  }, [
+    players,
+    currentPlayerId,
+    alivePlayers,
+    votingResults,
+    revealedRoles,
+    lastWills,
+    gamePhase,
+  ]);
 
   const filteredAndSortedPlayers = useMemo((): PlayerCardData[] => {
     let filtered = playerCardData;
@@ -363,6 +381,8 @@ export function PlayerGrid({
       voteCount,
       suspicionLevel,
       votedFor,
+      revealedRole,
+      lastWill,
       canBeTargeted,
       statusIndicators,
     } = cardData;
@@ -462,9 +482,32 @@ export function PlayerGrid({
                 )}
               </div>
             )}
+
+            {/* Revealed Role */}
+            {revealedRole && (
+              <span
+                className={`mt-1 inline-block rounded px-1 py-0.5 text-xs ${
+                  revealedRole.alignment === 'town'
+                    ? 'bg-blue-100 text-blue-800'
+                    : revealedRole.alignment === 'mafia'
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-purple-100 text-purple-800'
+                }`}
+              >
+                {revealedRole.role}
+              </span>
+            )}
           </div>
         </div>
 
+        {/* Last Will */}
+        {lastWill && (
+          <div className='mb-2 rounded border border-gray-200 bg-gray-50 p-2 text-xs text-gray-600'>
+            <p className='mb-1 font-medium text-gray-700'>Last will</p>
+            <p className='whitespace-pre-wrap italic'>{lastWill}</p>
+          </div>
+        )}
+
         {/* Suspicion Level */}
         {suspicionLevel > 0 && (
           <div className='mb-2'>
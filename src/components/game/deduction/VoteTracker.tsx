@@ -20,7 +20,7 @@ import {
   UUID,
 } from '../../../types';
 import { votingSystem } from '../../../lib/games/deduction/voting';
-import { EventSystem } from '../../../lib/game-engine/events';
+import { useGameEvents } from '../../../hooks/useGameEvents';
 
 // ============================================================================
 // COMPONENT TYPES & INTERFACES
@@ -29,7 +29,6 @@ import { EventSystem } from '../../../lib/game-engine/events';
 export interface VoteTrackerProps {
   readonly session: VotingSession;
   readonly players: DeductionPlayer[];
-  readonly currentPlayerId: UUID;
   readonly showVoterNames?: boolean;
   readonly showRealTimeUpdates?: boolean;
   readonly compact?: boolean;
@@ -68,7 +67,6 @@ interface VoteAnimation {
 export function VoteTracker({
   session,
   players,
-  currentPlayerId,
   showVoterNames = false,
   showRealTimeUpdates = true,
   compact = false,
@@ -87,25 +85,14 @@ export function VoteTracker({
   const [animations, setAnimations] = useState<VoteAnimation[]>([]);
   const [lastVoteCount, setLastVoteCount] = useState(session.votes.length);
 
-  // Event system for real-time updates
-  const eventSystem = EventSystem.getInstance();
-
   // ============================================================================
   // EFFECT HOOKS
   // ============================================================================
 
-  // Initialize and subscribe to events
+  // Initialize stats for this session
   useEffect(() => {
     updateStats();
-
-    if (showRealTimeUpdates) {
-      const unsubscribe = eventSystem.subscribe(
-        'player_action',
-        handleVotingEvent
-      );
-      return unsubscribe;
-    }
-  }, [session.id, showRealTimeUpdates]);
+  }, [session.id]);
 
   // Update stats when session changes
   useEffect(() => {
@@ -143,6 +130,13 @@ export function VoteTracker({
     [session.gameId]
   );
 
+  // Push channel for real-time vote updates
+  useGameEvents(session.gameId, {
+    types: ['player_action'],
+    enabled: showRealTimeUpdates,
+    onEvent: handleVotingEvent,
+  });
+
   const updateStats = useCallback(async () => {
     try {
       const participation =
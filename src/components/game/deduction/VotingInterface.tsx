@@ -19,8 +19,8 @@ import {
   ConsensusCheck,
   UUID,
 } from '../../../types';
-import { votingSystem } from '../../../lib/games/deduction/voting';
 import { EventSystem } from '../../../lib/game-engine/events';
+import { getSessionHeaders } from '../../../lib/api/session-client';
 
 // ============================================================================
 // COMPONENT TYPES & INTERFACES
@@ -30,7 +30,7 @@ export interface VotingInterfaceProps {
   readonly session: VotingSession;
   readonly players: DeductionPlayer[];
   readonly currentPlayerId: UUID;
-  readonly onVotecast?: (result: VoteResult) => void;
+  readonly onVotecast?: (result?: VoteResult) => void; // No result when abstaining
   readonly onError?: (error: string) => void;
   readonly disabled?: boolean;
   readonly className?: string;
@@ -106,9 +106,6 @@ export function VotingInterface({
       }));
     }
 
-    // Check initial consensus
-    updateConsensus();
-
     // Subscribe to voting events
     const unsubscribe = eventSystemRef.current.subscribe(
       'system_info',
@@ -126,11 +123,6 @@ export function VotingInterface({
     };
   }, [session.id, currentPlayerId]);
 
-  // Update consensus when votes change
-  useEffect(() => {
-    updateConsensus();
-  }, [session.votes]);
-
   // ============================================================================
   // EVENT HANDLERS
   // ============================================================================
@@ -191,15 +183,31 @@ export function VotingInterface({
     setVotingState(prev => ({ ...prev, isSubmitting: true }));
 
     try {
-      const result = await votingSystem.castVote(
-        session.id,
-        currentPlayerId,
-        votingState.selectedTarget,
+      // Abstaining has its own endpoint; everything else is a vote
+      const isAbstaining = votingState.selectedTarget === 'abstain';
+      const response = await fetch(
+        `/api/game/deduction/${session.gameId}/${isAbstaining ? 'abstain' : 'vote'}`,
         {
-          reason: votingState.votingReason || undefined,
-          isSecret: session.isAnonymous,
+          method: 'POST',
+          headers: getSessionHeaders(session.gameId, {
+            'Content-Type': 'application/json',
+          }),
+          body: JSON.stringify(
+            isAbstaining
+              ? {}
+              : {
+                  targetId: votingState.selectedTarget,
+                  reason: votingState.votingReason || undefined,
+                }
+          ),
         }
       );
+      const result: {
+        success: boolean;
+        error?: string;
+        vote?: VoteResult;
+        consensus?: ConsensusCheck;
+      } = await response.json();
 
       if (result.success) {
         // Add success sound and haptic feedback
@@ -212,12 +220,10 @@ export function VotingInterface({
           isSubmitting: false,
           showConfirmation: false,
           votingReason: '',
+          consensus: result.consensus ?? prev.consensus,
         }));
 
-        // Update session votes
-        updateConsensus();
-
-        onVotecast?.(result);
+        onVotecast?.(result.vote);
       } else {
         throw new Error(result.error || 'Failed to cast vote');
       }
@@ -242,9 +248,7 @@ export function VotingInterface({
     votingState.showConfirmation,
     votingState.votingReason,
     disabled,
-    session.id,
-    session.isAnonymous,
-    currentPlayerId,
+    session.gameId,
     onVotecast,
     onError,
   ]);
@@ -305,15 +309,6 @@ export function VotingInterface({
     }
   }, []);
 
-  const updateConsensus = useCallback(async () => {
-    try {
-      const consensus = await votingSystem.checkVotingConsensus(session.id);
-      setVotingState(prev => ({ ...prev, consensus }));
-    } catch (error) {
-      console.error('Failed to update consensus:', error);
-    }
-  }, [session.id]);
-
   const startTimerUpdates = useCallback(() => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
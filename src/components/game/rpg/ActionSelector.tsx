@@ -20,6 +20,8 @@ import {
   UUID,
 } from '@/types/rpg';
 import { cn } from '@/lib/utils';
+import { deathSystem } from '@/lib/games/rpg/death';
+import { spellSystem } from '@/lib/games/rpg/spells';
 import {
   Sword,
   Shield,
@@ -28,6 +30,7 @@ import {
   Move,
   Clock,
   ArrowRight,
+  HeartPulse,
   Target,
   Users,
   Sparkles,
@@ -155,6 +158,16 @@ const ACTION_DEFINITIONS = {
     color: 'text-orange-500',
     bgColor: 'bg-orange-50 hover:bg-orange-100',
   },
+  stabilize: {
+    icon: HeartPulse,
+    label: 'Stabilize',
+    description: 'Stop a downed ally from bleeding out',
+    requiresTarget: true,
+    actionPointCost: 1,
+    shortcut: 'H',
+    color: 'text-pink-500',
+    bgColor: 'bg-pink-50 hover:bg-pink-100',
+  },
 } as const;
 
 // ============================================================================
@@ -219,9 +232,8 @@ export const ActionSelector: React.FC<ActionSelectorProps> = ({
     // Movement (if not at edge or blocked)
     actions.push('move');
 
-    // Spells (if character has mana/spell slots)
-    //TODO: Check for actual spells and mana when spell system is implemented
-    if (character.stats.intelligence > 10) {
+    // Spells (if character has any prepared)
+    if (spellSystem.getPreparedSpells(character).length > 0) {
       actions.push('cast_spell');
     }
 
@@ -232,6 +244,16 @@ export const ActionSelector: React.FC<ActionSelectorProps> = ({
     // Flee (if not surrounded or in special conditions)
     actions.push('flee');
 
+    // First aid (if an ally is bleeding out)
+    if (
+      session.participants.some(
+        p =>
+          p.type === 'player' && deathSystem.getStatus(p.character) === 'downed'
+      )
+    ) {
+      actions.push('stabilize');
+    }
+
     return actions;
   }, [character, session]);
 
@@ -574,60 +596,68 @@ const SpellSelector: React.FC<SpellSelectorProps> = ({
   onSpellSelect,
   selectedSpell,
 }) => {
-  // TODO: Get actual spells from character when spell system is implemented
-  const availableSpells = [
-    {
-      id: 'fireball',
-      name: 'Fireball',
-      cost: 10,
-      damage: '2d6+INT',
-      description: 'Hurls a fiery ball at target',
-    },
-    {
-      id: 'heal',
-      name: 'Heal',
-      cost: 8,
-      damage: '1d8+WIS',
-      description: 'Restores health to target',
-    },
-    {
-      id: 'lightning',
-      name: 'Lightning Bolt',
-      cost: 12,
-      damage: '3d4+INT',
-      description: 'Strikes with lightning',
-    },
-  ];
+  const spellbook = spellSystem.getSpellbook(character);
+  const preparedSpells = spellSystem.getPreparedSpells(character);
 
   return (
     <div className='border-t p-4'>
-      <h4 className='mb-3 font-medium'>Select Spell</h4>
+      <div className='mb-3 flex items-center justify-between'>
+        <h4 className='font-medium'>Select Spell</h4>
+        <span className='text-sm text-purple-600'>
+          {spellbook.mana}/{spellSystem.getMaxMana(character)} MP
+        </span>
+      </div>
       <div className='space-y-2'>
-        {availableSpells.map(spell => (
-          <button
-            key={spell.id}
-            onClick={() => onSpellSelect(spell.id)}
-            className={cn(
-              'w-full rounded-lg border p-3 text-left transition-colors',
-              selectedSpell === spell.id
-                ? 'border-purple-500 bg-purple-50'
-                : 'border-gray-200 hover:bg-gray-50'
-            )}
-          >
-            <div className='flex items-start justify-between'>
-              <div>
-                <div className='font-medium'>{spell.name}</div>
-                <div className='text-sm text-gray-600'>{spell.description}</div>
-              </div>
-              <div className='text-right text-sm'>
-                <div className='font-medium text-purple-600'>
-                  {spell.cost} MP
+        {preparedSpells.map(spell => {
+          const castingError = spellSystem.getCastingError(character, spell.id);
+          const cooldown = spellbook.cooldowns[spell.id];
+
+          return (
+            <button
+              key={spell.id}
+              onClick={() => onSpellSelect(spell.id)}
+              disabled={!!castingError}
+              title={castingError}
+              className={cn(
+                'w-full rounded-lg border p-3 text-left transition-colors',
+                castingError && 'cursor-not-allowed opacity-50',
+                selectedSpell === spell.id
+                  ? 'border-purple-500 bg-purple-50'
+                  : 'border-gray-200 hover:bg-gray-50'
+              )}
+            >
+              <div className='flex items-start justify-between'>
+                <div>
+                  <div className='font-medium'>{spell.name}</div>
+                  <div className='text-sm text-gray-600'>
+                    {spell.description}
+                  </div>
+                  <div className='mt-1 text-xs capitalize text-gray-500'>
+                    {spell.school} · {spell.area.shape}
+                    {spell.area.shape !== 'self' && ` ${spell.area.affects}`}
+                  </div>
+                </div>
+                <div className='text-right text-sm'>
+                  <div className='font-medium text-purple-600'>
+                    {spell.manaCost} MP
+                  </div>
+                  {spell.power && (
+                    <div className='text-gray-500'>
+                      {spell.power.dice}d{spell.power.sides}
+                      {spell.power.bonus > 0 && `+${spell.power.bonus}`}{' '}
+                      {spell.damageType}
+                    </div>
+                  )}
+                  {cooldown ? (
+                    <div className='text-xs text-orange-600'>
+                      Ready in {cooldown}
+                    </div>
+                  ) : null}
                 </div>
-                <div className='text-gray-500'>{spell.damage}</div>
               </div>
-            </div>
-          </button>
-        ))}
+            </button>
+          );
+        })}
       </div>
     </div>
   );
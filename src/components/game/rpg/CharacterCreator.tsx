@@ -132,6 +132,23 @@ const SAMPLE_CLASSES: CharacterClass[] = [
         type: 'passive',
         effects: { magic: 5 },
       },
+      {
+        name: 'Fire Bolt',
+        description: 'A mote of flame hurled at a single foe',
+        levelRequired: 1,
+        type: 'spell',
+        cost: 5,
+        effects: { spellId: 'fire_bolt' },
+      },
+      {
+        name: 'Arcane Ward',
+        description: 'A shell that turns aside hostile magic',
+        levelRequired: 1,
+        type: 'spell',
+        cost: 6,
+        cooldown: 3,
+        effects: { spellId: 'arcane_ward' },
+      },
     ],
     equipment: ['Staff', 'Robes', 'Spellbook'],
   },
@@ -27,6 +27,7 @@ import {
   SkillNode,
 } from '@/lib/games/rpg/skills';
 import { inventoryManager, EquipmentBonuses } from '@/lib/games/rpg/inventory';
+import { spellSystem } from '@/lib/games/rpg/spells';
 
 // ============================================================================
 // INTERFACES & TYPES
@@ -201,6 +202,11 @@ export default function CharacterSheet({
           skillProgression
         );
         onSkillUpdate(newProgression);
+
+        const spells = skillTreeManager.getTaughtSpells(skillId);
+        if (spells.length > 0 && onCharacterUpdate) {
+          onCharacterUpdate(spellSystem.learnSpells(character, spells));
+        }
       } catch (error) {
         setError(
           error instanceof Error ? error.message : 'Failed to learn skill'
@@ -209,7 +215,7 @@ export default function CharacterSheet({
         setIsLoading(false);
       }
     },
-    [character, skillProgression, onSkillUpdate]
+    [character, skillProgression, onSkillUpdate, onCharacterUpdate]
   );
 
   const handleItemEquip = useCallback(
@@ -18,6 +18,7 @@ import {
   StatusEffect,
 } from '@/types/rpg';
 import { cn } from '@/lib/utils';
+import { TerrainType, tacticalGrid } from '@/lib/games/rpg/tactical-grid';
 
 // ============================================================================
 // COMPONENT INTERFACES
@@ -74,6 +75,16 @@ const ANIMATIONS = {
   },
 };
 
+const TERRAIN_STYLES: Record<
+  TerrainType,
+  { className: string; label: string }
+> = {
+  open: { className: '', label: 'Open ground' },
+  difficult: { className: 'bg-amber-700/30', label: 'Difficult terrain' },
+  hazardous: { className: 'bg-red-600/30', label: 'Hazardous terrain' },
+  blocked: { className: 'bg-gray-900/70', label: 'Blocked' },
+};
+
 // ============================================================================
 // MAIN COMBAT BOARD COMPONENT
 // ============================================================================
@@ -99,6 +110,15 @@ export const CombatBoard: React.FC<CombatBoardProps> = ({
   const gridWidth = session.environment.size.width;
   const gridHeight = session.environment.size.height;
 
+  // Terrain only matters when the fight plays out on the grid
+  const terrain = useMemo(
+    () =>
+      session.environment.tactical
+        ? tacticalGrid.getTerrainMap(session.environment)
+        : undefined,
+    [session.environment]
+  );
+
   // Calculate cell size based on container
   const cellSize = useMemo(() => {
     const maxWidth = Math.min(800, window?.innerWidth * 0.8 || 800);
@@ -171,6 +191,7 @@ export const CombatBoard: React.FC<CombatBoardProps> = ({
             width={gridWidth}
             height={gridHeight}
             cellSize={cellSize}
+            terrain={terrain}
             availablePositions={availablePositions}
             onPositionClick={handlePositionClick}
           />
@@ -180,6 +201,7 @@ export const CombatBoard: React.FC<CombatBoardProps> = ({
         {showRanges && selectedParticipant && (
           <RangeIndicators
             selectedParticipant={selectedParticipant}
+            session={session}
             participants={session.participants}
             gridWidth={gridWidth}
             gridHeight={gridHeight}
@@ -387,9 +409,17 @@ const GridOverlay: React.FC<{
   width: number;
   height: number;
   cellSize: number;
+  terrain?: TerrainType[][];
   availablePositions: CombatPosition[];
   onPositionClick: (x: number, y: number) => void;
-}> = ({ width, height, cellSize, availablePositions, onPositionClick }) => {
+}> = ({
+  width,
+  height,
+  cellSize,
+  terrain,
+  availablePositions,
+  onPositionClick,
+}) => {
   return (
     <div className='absolute inset-0 z-0'>
       {Array.from({ length: height }, (_, y) =>
@@ -397,11 +427,18 @@ const GridOverlay: React.FC<{
           const isAvailable = availablePositions.some(
             pos => pos.x === x && pos.y === y
           );
+          const cellTerrain = terrain?.[y]?.[x] ?? 'open';
           return (
             <div
               key={`${x}-${y}`}
+              title={
+                cellTerrain === 'open'
+                  ? undefined
+                  : TERRAIN_STYLES[cellTerrain].label
+              }
               className={cn(
                 'absolute border border-gray-300/30 transition-colors',
+                TERRAIN_STYLES[cellTerrain].className,
                 isAvailable &&
                   'cursor-pointer border-blue-400/50 bg-blue-200/30 hover:bg-blue-300/40'
               )}
@@ -422,12 +459,14 @@ const GridOverlay: React.FC<{
 
 const RangeIndicators: React.FC<{
   selectedParticipant: string;
+  session: CombatSession;
   participants: CombatParticipant[];
   gridWidth: number;
   gridHeight: number;
   cellSize: number;
 }> = ({
   selectedParticipant,
+  session,
   participants,
   gridWidth,
   gridHeight,
@@ -436,8 +475,11 @@ const RangeIndicators: React.FC<{
   const participant = participants.find(p => p.id === selectedParticipant);
   if (!participant) return null;
 
-  // TODO: Calculate actual weapon/spell ranges
-  const attackRange = 2; // Default attack range
+  // On the grid, show the weapon's real reach and what's in sight
+  const tactical = tacticalGrid.isTactical(session);
+  const attackRange = tactical
+    ? tacticalGrid.getActionRange(participant, { type: 'attack', data: {} })
+    : 2;
   const { x: centerX, y: centerY } = participant.position;
 
   const rangePositions: CombatPosition[] = [];
@@ -451,8 +493,20 @@ const RangeIndicators: React.FC<{
       x <= Math.min(gridWidth - 1, centerX + attackRange);
       x++
     ) {
-      const distance = Math.abs(x - centerX) + Math.abs(y - centerY);
-      if (distance <= attackRange && (x !== centerX || y !== centerY)) {
+      const distance = tactical
+        ? tacticalGrid.getDistance(participant.position, { x, y })
+        : Math.abs(x - centerX) + Math.abs(y - centerY);
+      const inSight =
+        !tactical ||
+        tacticalGrid.hasLineOfSight(session.environment, participant.position, {
+          x,
+          y,
+        });
+      if (
+        distance <= attackRange &&
+        inSight &&
+        (x !== centerX || y !== centerY)
+      ) {
         rangePositions.push({
           x,
           y,
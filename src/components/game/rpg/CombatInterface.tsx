@@ -20,11 +20,14 @@ import {
   CombatParticipant,
   CombatAction,
   CombatActionType,
+  CombatRewardSummary,
   Character,
   StatusEffect,
   Item,
   UUID,
 } from '@/types/rpg';
+import { deathSystem } from '@/lib/games/rpg/death';
+import { tacticalGrid } from '@/lib/games/rpg/tactical-grid';
 
 // Import existing combat components
 import { CombatBoard } from './CombatBoard';
@@ -42,6 +45,7 @@ interface CombatInterfaceProps {
   playerCharacters: Character[];
   onCombatAction: (actionType: string, actionData: any) => Promise<void>;
   onExitCombat: () => void;
+  rewards?: Record<UUID, CombatRewardSummary>;
   className?: string;
 }
 
@@ -70,6 +74,7 @@ export default function CombatInterface({
   playerCharacters,
   onCombatAction,
   onExitCombat,
+  rewards,
   className = '',
 }: CombatInterfaceProps) {
   // ============================================================================
@@ -125,6 +130,12 @@ export default function CombatInterface({
     return session.participants.filter(p => p.character.currentHealth > 0);
   }, [session.participants]);
 
+  // Squares the current fighter can move to on the tactical grid
+  const reachablePositions = useMemo(() => {
+    if (!currentParticipant || !tacticalGrid.isTactical(session)) return [];
+    return tacticalGrid.getReachablePositions(currentParticipant, session);
+  }, [currentParticipant, session]);
+
   const availableActions = useMemo(() => {
     if (!currentParticipant || !isPlayerTurn) return [];
 
@@ -148,6 +159,11 @@ export default function CombatInterface({
       actions.push('flee');
     }
 
+    // Add first aid if an ally is bleeding out
+    if (getValidTargets('stabilize', currentParticipant, session).length > 0) {
+      actions.push('stabilize');
+    }
+
     return actions;
   }, [currentParticipant, isPlayerTurn, session]);
 
@@ -189,7 +205,7 @@ export default function CombatInterface({
         const targets = getValidTargets(
           actionType,
           currentParticipant!,
-          session.participants
+          session
         );
         setActionMenu(prev => ({
           ...prev,
@@ -198,6 +214,10 @@ export default function CombatInterface({
         }));
         setUIState(prev => ({ ...prev, showTargeting: true }));
       }
+      // On the grid, a move waits for a square to be picked on the board
+      else if (actionType === 'move' && tacticalGrid.isTactical(session)) {
+        return;
+      }
       // Handle actions that require additional selection
       else if (actionType === 'cast_spell') {
         setUIState(prev => ({ ...prev, showSpells: true }));
@@ -209,7 +229,7 @@ export default function CombatInterface({
         executeAction(actionType, {});
       }
     },
-    [isProcessingAction, currentParticipant, session.participants]
+    [isProcessingAction, currentParticipant, session]
   );
 
   const handleTargetSelect = useCallback(
@@ -429,8 +449,10 @@ export default function CombatInterface({
             onPositionClick={handlePositionClick}
             selectedParticipant={uiState.selectedParticipant}
             availablePositions={
-              actionMenu.selectedAction === 'move' ? [] : undefined
-            } // TODO: Calculate valid positions
+              actionMenu.selectedAction === 'move'
+                ? reachablePositions
+                : undefined
+            }
             showGrid={true}
             showRanges={actionMenu.targetingMode}
             className='h-full'
@@ -550,6 +572,12 @@ export default function CombatInterface({
                     ? 'You have emerged victorious from combat!'
                     : 'Your party has been defeated...'}
                 </p>
+                {rewards && (
+                  <CombatRewards
+                    rewards={rewards}
+                    participants={session.participants}
+                  />
+                )}
                 <button
                   onClick={onExitCombat}
                   className='rounded-lg bg-purple-600 px-6 py-3 font-medium text-white transition-colors hover:bg-purple-700'
@@ -579,6 +607,72 @@ export default function CombatInterface({
   );
 }
 
+// ============================================================================
+// COMBAT REWARDS
+// ============================================================================
+
+function CombatRewards({
+  rewards,
+  participants,
+}: {
+  rewards: Record<UUID, CombatRewardSummary>;
+  participants: CombatParticipant[];
+}) {
+  const nameOf = (characterId?: UUID) =>
+    participants.find(p => p.id === characterId)?.character.name ??
+    'Left behind';
+  const summaries = Object.entries(rewards);
+  // Every member's summary carries the same share-out
+  const allocations = summaries[0]?.[1].allocations ?? [];
+
+  return (
+    <div className='mb-6 space-y-4 text-left'>
+      <div className='space-y-2'>
+        {summaries.map(([characterId, summary]) => (
+          <div
+            key={characterId}
+            className='flex items-center justify-between rounded bg-black/30 px-3 py-2 text-sm'
+          >
+            <span className='font-medium text-white'>
+              {nameOf(characterId)}
+            </span>
+            <span className='space-x-3 text-purple-200'>
+              <span>+{summary.experienceGained} XP</span>
+              {summary.levelsGained > 0 && (
+                <span className='text-yellow-300'>Level {summary.level}!</span>
+              )}
+              {summary.currency > 0 && <span>🪙 {summary.currency}</span>}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {allocations.length > 0 && (
+        <div>
+          <h3 className='mb-2 text-sm font-semibold text-purple-300'>
+            Loot ({summaries[0]![1].distribution.replace('_', ' ')})
+          </h3>
+          <ul className='space-y-1 text-sm'>
+            {allocations.map((allocation, index) => (
+              <li
+                key={`${allocation.item.id}-${index}`}
+                className='flex justify-between text-gray-200'
+              >
+                <span>{allocation.item.name}</span>
+                <span className='text-gray-400'>
+                  {nameOf(allocation.characterId)}
+                  {allocation.claim &&
+                    ` (${allocation.claim} ${allocation.roll ?? ''})`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -591,6 +685,7 @@ function getActionConfig(actionType: CombatActionType) {
     cast_spell: { icon: '✨', label: 'Cast Spell', cost: 'Varies' },
     use_item: { icon: '🧪', label: 'Use Item', cost: '1 AP' },
     flee: { icon: '💨', label: 'Flee', cost: '1 AP' },
+    stabilize: { icon: '🩹', label: 'Stabilize', cost: '1 AP' },
     wait: { icon: '⏳', label: 'Wait', cost: '0 AP' },
   };
 
@@ -600,18 +695,25 @@ function getActionConfig(actionType: CombatActionType) {
 function getValidTargets(
   actionType: CombatActionType,
   participant: CombatParticipant,
-  allParticipants: CombatParticipant[]
+  session: CombatSession
 ): UUID[] {
+  const allParticipants = session.participants;
   switch (actionType) {
     case 'attack':
-      // Can target enemies within range
+      // Can target enemies within range, and in sight on the grid
       return allParticipants
         .filter(
           p =>
             p.id !== participant.id &&
             p.character.currentHealth > 0 &&
-            (p.type === 'monster' ||
-              (participant.type === 'monster' && p.type === 'player'))
+            (p.type === 'player') !== (participant.type === 'player') &&
+            (!tacticalGrid.isTactical(session) ||
+              !tacticalGrid.getRangeError(
+                participant,
+                p,
+                { type: 'attack', data: {} },
+                session
+              ))
         )
         .map(p => p.id);
 
@@ -621,6 +723,24 @@ function getValidTargets(
         .filter(p => p.character.currentHealth > 0)
         .map(p => p.id);
 
+    case 'stabilize':
+      // Downed allies within reach
+      return allParticipants
+        .filter(
+          p =>
+            p.type === 'player' &&
+            participant.type === 'player' &&
+            deathSystem.getStatus(p.character) === 'downed' &&
+            (!tacticalGrid.isTactical(session) ||
+              !tacticalGrid.getRangeError(
+                participant,
+                p,
+                { type: 'stabilize', data: {} },
+                session
+              ))
+        )
+        .map(p => p.id);
+
     default:
       return [];
   }
@@ -16,6 +16,7 @@ import {
   StatusEffect,
 } from '@/types/rpg';
 import { cn } from '@/lib/utils';
+import { useGameEvents } from '@/hooks/useGameEvents';
 import {
   Sword,
   Shield,
@@ -25,6 +26,7 @@ import {
   Clock,
   ArrowRight,
   Heart,
+  HeartPulse,
   Zap,
   AlertTriangle,
   Info,
@@ -41,6 +43,7 @@ import {
 interface CombatLogProps {
   session: CombatSession;
   entries: CombatLogEntry[];
+  liveUpdates?: boolean;
   autoScroll?: boolean;
   showTimestamps?: boolean;
   showFilters?: boolean;
@@ -86,6 +89,7 @@ const ACTION_ICONS: Record<
   move: Move,
   wait: Clock,
   flee: ArrowRight,
+  stabilize: HeartPulse,
 };
 
 const ACTION_COLORS: Record<CombatActionType, string> = {
@@ -96,6 +100,7 @@ const ACTION_COLORS: Record<CombatActionType, string> = {
   move: 'text-yellow-600 bg-yellow-50',
   wait: 'text-gray-600 bg-gray-50',
   flee: 'text-orange-600 bg-orange-50',
+  stabilize: 'text-pink-600 bg-pink-50',
 };
 
 const LOG_ENTRY_TYPES = {
@@ -115,7 +120,8 @@ type LogEntryType = (typeof LOG_ENTRY_TYPES)[keyof typeof LOG_ENTRY_TYPES];
 
 export const CombatLog: React.FC<CombatLogProps> = ({
   session,
-  entries,
+  entries: providedEntries,
+  liveUpdates = true,
   autoScroll = true,
   showTimestamps = true,
   showFilters = true,
@@ -134,6 +140,42 @@ export const CombatLog: React.FC<CombatLogProps> = ({
   });
   const [showFilterPanel, setShowFilterPanel] = useState(false);
   const [newEntryIds, setNewEntryIds] = useState<Set<string>>(new Set());
+  const [streamedEntries, setStreamedEntries] = useState<CombatLogEntry[]>([]);
+
+  // Combat actions pushed over the session's event channel
+  useGameEvents(session.id, {
+    types: ['combat_action'],
+    enabled: liveUpdates,
+    onEvent: event => {
+      const logEntry = event.data.logEntry;
+      if (!logEntry) return;
+
+      setStreamedEntries(prev => [
+        ...prev,
+        {
+          timestamp: new Date(logEntry.timestamp),
+          participantId: logEntry.participantId,
+          action: logEntry.action,
+          target: logEntry.target ?? undefined,
+          result: logEntry.result,
+          damage: logEntry.damage ?? undefined,
+          effects: logEntry.effects ?? [],
+        },
+      ]);
+    },
+  });
+
+  // Merge provided entries with pushed ones, skipping duplicates
+  const entries = useMemo(() => {
+    const entryKey = (entry: CombatLogEntry) =>
+      `${new Date(entry.timestamp).getTime()}-${entry.participantId}-${entry.action}`;
+    const knownKeys = new Set(providedEntries.map(entryKey));
+
+    return [
+      ...providedEntries,
+      ...streamedEntries.filter(entry => !knownKeys.has(entryKey(entry))),
+    ];
+  }, [providedEntries, streamedEntries]);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const lastEntryCountRef = useRef(entries.length);
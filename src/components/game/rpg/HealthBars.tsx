@@ -17,8 +17,11 @@ import {
   CharacterSkills,
 } from '@/types/rpg';
 import { cn } from '@/lib/utils';
+import { DEATH_CONFIG, deathSystem } from '@/lib/games/rpg/death';
 import {
   Heart,
+  HeartPulse,
+  Skull,
   Sparkles,
   Shield,
   Zap,
@@ -225,6 +228,9 @@ const ParticipantHealthBar: React.FC<ParticipantHealthBarProps> = ({
   // Calculate derived stats
   const healthPercent = (character.currentHealth / character.maxHealth) * 100;
   const isAlive = character.currentHealth > 0;
+  // Only players make death saves; anyone else at 0 is out cold
+  const lifeStatus =
+    participant.type === 'player' ? deathSystem.getStatus(character) : null;
   const isCriticalHealth = healthPercent < 25;
   const isLowHealth = healthPercent < 50;
 
@@ -398,16 +404,81 @@ const ParticipantHealthBar: React.FC<ParticipantHealthBarProps> = ({
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
           animate={{ opacity: 1, scale: 1 }}
-          className='mt-2 flex items-center space-x-1 rounded bg-gray-100 px-2 py-1 text-xs text-gray-600'
+          className={cn(
+            'mt-2 flex items-center space-x-1 rounded px-2 py-1 text-xs',
+            lifeStatus === 'downed'
+              ? 'bg-red-50 text-red-600'
+              : lifeStatus === 'dead'
+                ? 'bg-gray-800 text-gray-100'
+                : 'bg-gray-100 text-gray-600'
+          )}
         >
-          <EyeOff className='h-3 w-3' />
-          <span>Unconscious</span>
+          {lifeStatus === 'dead' ? (
+            <Skull className='h-3 w-3' />
+          ) : lifeStatus === 'downed' ? (
+            <HeartPulse className='h-3 w-3' />
+          ) : (
+            <EyeOff className='h-3 w-3' />
+          )}
+          <span>
+            {lifeStatus === 'dead'
+              ? 'Dead'
+              : lifeStatus === 'downed'
+                ? 'Downed'
+                : lifeStatus === 'stable'
+                  ? 'Stable'
+                  : 'Unconscious'}
+          </span>
+          {lifeStatus === 'downed' && (
+            <DeathSaveTracker
+              successes={character.deathState?.successes ?? 0}
+              failures={character.deathState?.failures ?? 0}
+            />
+          )}
         </motion.div>
       )}
     </motion.div>
   );
 };
 
+// ============================================================================
+// DEATH SAVE TRACKER COMPONENT
+// ============================================================================
+
+const DeathSaveTracker: React.FC<{ successes: number; failures: number }> = ({
+  successes,
+  failures,
+}) => (
+  <div className='ml-auto flex items-center space-x-2'>
+    {[
+      {
+        count: successes,
+        total: DEATH_CONFIG.SUCCESSES_TO_STABILIZE,
+        color: 'bg-green-500',
+        title: 'Death saves passed',
+      },
+      {
+        count: failures,
+        total: DEATH_CONFIG.FAILURES_TO_DIE,
+        color: 'bg-red-500',
+        title: 'Death saves failed',
+      },
+    ].map(({ count, total, color, title }) => (
+      <div key={title} className='flex space-x-0.5' title={title}>
+        {Array.from({ length: total }, (_, i) => (
+          <div
+            key={i}
+            className={cn(
+              'h-1.5 w-1.5 rounded-full',
+              i < count ? color : 'bg-gray-300'
+            )}
+          />
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
 // ============================================================================
 // STATUS BAR COMPONENT
 // ============================================================================
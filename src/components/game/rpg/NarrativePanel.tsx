@@ -9,11 +9,18 @@
  * - Atmospheric presentation
  * - Branching storylines
  * - Location-based storytelling
+ * - Action narration rendered as it streams in
  */
 
 'use client';
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   RPGGameState,
@@ -32,11 +39,23 @@ import {
 interface NarrativePanelProps {
   gameState: RPGGameState;
   currentLocation: Location | null;
+  narration?: StreamedNarration | null;
   onChoice: (choiceId: string, choiceData?: any) => void;
   onLocationChange: (locationId: UUID) => void;
   className?: string;
 }
 
+/**
+ * Narration of the latest action. Content grows while isStreaming is set;
+ * mood and choices arrive with the final result.
+ */
+export interface StreamedNarration {
+  content: string;
+  isStreaming: boolean;
+  mood?: NarrativeContent['mood'];
+  choices?: NarrativeChoice[];
+}
+
 interface NarrativeContent {
   id: string;
   type: 'story' | 'dialogue' | 'discovery' | 'event' | 'description';
@@ -79,6 +98,7 @@ interface PresentationMode {
 export default function NarrativePanel({
   gameState,
   currentLocation,
+  narration = null,
   onChoice,
   onLocationChange,
   className = '',
@@ -104,6 +124,7 @@ export default function NarrativePanel({
   const [isProcessingChoice, setIsProcessingChoice] = useState(false);
   const [displayedText, setDisplayedText] = useState('');
   const [textIndex, setTextIndex] = useState(0);
+  const contentRef = useRef<HTMLDivElement>(null);
 
   // ============================================================================
   // COMPUTED VALUES
@@ -154,6 +175,16 @@ export default function NarrativePanel({
     return narrative;
   }, [currentLocation, gameState, locationNPCs, playerCharacters]);
 
+  // Choices offered by a finished narration replace the location's own
+  const activeChoices = useMemo(() => {
+    if (narration && !narration.isStreaming && narration.choices?.length) {
+      return narration.choices;
+    }
+    return narration?.isStreaming ? [] : currentNarrative?.choices || [];
+  }, [narration, currentNarrative]);
+
+  const activeMood = narration?.mood || currentNarrative?.mood;
+
   // ============================================================================
   // TYPEWRITER EFFECT
   // ============================================================================
@@ -259,6 +290,13 @@ export default function NarrativePanel({
     }
   }, [generatedNarrative, currentNarrative, narrativeHistory.length]);
 
+  // Follow streamed narration as it grows
+  useEffect(() => {
+    if (presentationMode.autoScroll && narration && contentRef.current) {
+      contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    }
+  }, [narration, presentationMode.autoScroll]);
+
   // ============================================================================
   // RENDER HELPERS
   // ============================================================================
@@ -308,8 +346,8 @@ export default function NarrativePanel({
   return (
     <div
       className={`relative flex h-full flex-col bg-gradient-to-br ${
-        currentNarrative
-          ? getMoodColor(currentNarrative.mood)
+        activeMood
+          ? getMoodColor(activeMood)
           : 'from-slate-900/40 to-gray-900/40'
       } ${className}`}
     >
@@ -340,7 +378,7 @@ export default function NarrativePanel({
       </div>
 
       {/* Main Narrative Content */}
-      <div className='flex-1 overflow-y-auto p-6'>
+      <div ref={contentRef} className='flex-1 overflow-y-auto p-6'>
         <AnimatePresence>
           {currentNarrative && (
             <motion.div
@@ -395,6 +433,22 @@ export default function NarrativePanel({
                 </p>
               </div>
 
+              {/* Action Narration */}
+              {narration && (
+                <div
+                  className='rounded-lg border border-purple-500/30 bg-black/20 p-4'
+                  aria-live='polite'
+                  aria-busy={narration.isStreaming}
+                >
+                  <p className='whitespace-pre-wrap text-lg leading-relaxed text-white'>
+                    {narration.content}
+                    {narration.isStreaming && (
+                      <span className='animate-pulse'>|</span>
+                    )}
+                  </p>
+                </div>
+              )}
+
               {/* Location Details */}
               {currentLocation && (
                 <div className='mt-6 rounded-lg border border-white/10 bg-white/5 p-4 backdrop-blur-sm'>
@@ -494,7 +548,7 @@ export default function NarrativePanel({
       </div>
 
       {/* Choice Interface */}
-      {presentationMode.showChoices && currentNarrative?.choices.length > 0 && (
+      {presentationMode.showChoices && activeChoices.length > 0 && (
         <div className='border-t border-white/10 bg-black/20 p-4 backdrop-blur-sm'>
           <h3 className='mb-3 flex items-center space-x-2 font-medium text-white'>
             <span>Choose your action:</span>
@@ -505,7 +559,7 @@ export default function NarrativePanel({
 
           <div className='space-y-2'>
             <AnimatePresence>
-              {currentNarrative.choices.map((choice, index) => (
+              {activeChoices.map(choice => (
                 <ChoiceButton
                   key={choice.id}
                   choice={choice}
@@ -17,6 +17,7 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { RPGGameState, Character, Player, Inventory, UUID } from '@/types/rpg';
+import { deathSystem } from '@/lib/games/rpg/death';
 
 // ============================================================================
 // INTERFACES & TYPES
@@ -36,7 +37,7 @@ interface PartyMember {
   lastActivity: number;
   role: PartyRole;
   permissions: PartyPermissions;
-  status: 'ready' | 'busy' | 'away' | 'combat';
+  status: 'ready' | 'busy' | 'away' | 'combat' | 'downed' | 'dead';
   location: string;
 }
 
@@ -125,7 +126,11 @@ export default function PartyManager({
         lastActivity: Date.now(),
         role: determinePlayerRole(player.id, gameState),
         permissions: getPlayerPermissions(player.id, gameState),
-        status: determinePlayerStatus(player.id, gameState),
+        status: determinePlayerStatus(
+          player.id,
+          player.gameSpecificData!.character,
+          gameState
+        ),
         location: getCurrentLocationName(player.id, gameState),
       })) || []
     );
@@ -205,6 +210,13 @@ export default function PartyManager({
     [handlePartyAction]
   );
 
+  const handleRevive = useCallback(
+    async (memberId: UUID) => {
+      await handlePartyAction('revive', { targetId: memberId });
+    },
+    [handlePartyAction]
+  );
+
   const handleVoteStart = useCallback(
     async (voteType: string, options: any) => {
       await handlePartyAction('start_vote', { type: voteType, ...options });
@@ -353,6 +365,8 @@ export default function PartyManager({
             currentPlayer={currentPlayer}
             onMemberSelect={setSelectedMember}
             onMemberAction={handleMemberAction}
+            canRaiseDead={!gameState.data.permaDeath}
+            onRevive={handleRevive}
           />
         )}
 
@@ -424,6 +438,8 @@ interface MembersTabProps {
   currentPlayer: PartyMember;
   onMemberSelect: (memberId: UUID) => void;
   onMemberAction: (memberId: UUID, action: string) => void;
+  canRaiseDead: boolean;
+  onRevive: (memberId: UUID) => void;
 }
 
 const MembersTab: React.FC<MembersTabProps> = ({
@@ -432,6 +448,8 @@ const MembersTab: React.FC<MembersTabProps> = ({
   currentPlayer,
   onMemberSelect,
   onMemberAction,
+  canRaiseDead,
+  onRevive,
 }) => {
   return (
     <div className='space-y-4 p-4'>
@@ -472,7 +490,11 @@ const MembersTab: React.FC<MembersTabProps> = ({
                         ? 'bg-yellow-400'
                         : member.status === 'combat'
                           ? 'bg-red-400'
-                          : 'bg-gray-400'
+                          : member.status === 'downed'
+                            ? 'bg-orange-500'
+                            : member.status === 'dead'
+                              ? 'bg-black'
+                              : 'bg-gray-400'
                   }
                 `}
                 />
@@ -512,8 +534,26 @@ const MembersTab: React.FC<MembersTabProps> = ({
             {/* Health Bar */}
             <div className='text-right'>
               <div className='mb-1 text-sm text-white'>
-                {member.character.currentHealth} / {member.character.maxHealth}{' '}
-                HP
+                {member.status === 'dead' || member.status === 'downed' ? (
+                  <span
+                    className={
+                      member.status === 'dead'
+                        ? 'text-gray-400'
+                        : 'text-orange-400'
+                    }
+                  >
+                    {deathSystem.getStatus(member.character) === 'stable'
+                      ? 'Stable'
+                      : member.status === 'dead'
+                        ? 'Dead'
+                        : 'Downed'}
+                  </span>
+                ) : (
+                  <>
+                    {member.character.currentHealth} /{' '}
+                    {member.character.maxHealth} HP
+                  </>
+                )}
               </div>
               <div className='h-2 w-20 rounded-full bg-gray-700'>
                 <div
@@ -555,6 +595,26 @@ const MembersTab: React.FC<MembersTabProps> = ({
                     </div>
                   </div>
 
+                  {/* Revive */}
+                  {(member.status === 'downed' ||
+                    (member.status === 'dead' && canRaiseDead)) &&
+                    member.playerId !== currentPlayer.playerId && (
+                      <div>
+                        <h4 className='mb-2 font-medium text-white'>
+                          {member.status === 'dead' ? 'Fallen' : 'Down'}
+                        </h4>
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            onRevive(member.playerId);
+                          }}
+                          className='w-full rounded bg-green-600/80 px-3 py-2 text-sm text-white transition-colors hover:bg-green-600'
+                        >
+                          {member.status === 'dead' ? 'Resurrect' : 'Revive'}
+                        </button>
+                      </div>
+                    )}
+
                   {/* Actions */}
                   {currentPlayer.role.canManageRoles &&
                     member.playerId !== currentPlayer.playerId && (
@@ -781,9 +841,13 @@ function getPlayerPermissions(
 
 function determinePlayerStatus(
   playerId: UUID,
+  character: Character,
   gameState: RPGGameState
-): 'ready' | 'busy' | 'away' | 'combat' {
+): PartyMember['status'] {
   // TODO: Implement proper status determination
+  const lifeStatus = deathSystem.getStatus(character);
+  if (lifeStatus === 'dead') return 'dead';
+  if (lifeStatus !== 'alive') return 'downed';
   if (gameState.data.activeCombat) return 'combat';
   return 'ready';
 }
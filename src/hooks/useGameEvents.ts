@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * useGameEvents Hook
+ *
+ * Subscribes a client component to a game's Server-Sent Events channel
+ * (/api/games/[id]/events). The browser's EventSource reconnects on its own
+ * and sends Last-Event-ID, so missed events are replayed by the server.
+ * The stored session token decides which events this client may receive.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { GameEvent, GameEventType, UUID } from '@/types/core';
+import { getStoredSessionToken } from '@/lib/api/session-client';
+
+// ============================================================================
+// HOOK TYPES
+// ============================================================================
+
+export interface UseGameEventsOptions {
+  readonly types?: GameEventType[];
+  readonly enabled?: boolean;
+  readonly onEvent: (event: GameEvent) => void;
+}
+
+export interface GameEventStreamStatus {
+  readonly isConnected: boolean;
+  readonly lastEventId: string | null;
+}
+
+// ============================================================================
+// HOOK IMPLEMENTATION
+// ============================================================================
+
+export function useGameEvents(
+  gameId: UUID | undefined,
+  { types, enabled = true, onEvent }: UseGameEventsOptions
+): GameEventStreamStatus {
+  const [isConnected, setIsConnected] = useState(false);
+  const [lastEventId, setLastEventId] = useState<string | null>(null);
+
+  // Keep the latest handler without reopening the connection on every render
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const typesKey = types?.join(',') ?? '';
+
+  useEffect(() => {
+    if (!gameId || !enabled || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    // EventSource cannot send headers, so the token goes in the query
+    const params = new URLSearchParams();
+    const token = getStoredSessionToken(gameId);
+    if (token) params.set('token', token);
+    if (typesKey) params.set('types', typesKey);
+
+    const query = params.toString();
+    const source = new EventSource(
+      `/api/games/${gameId}/events${query ? `?${query}` : ''}`
+    );
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+    source.onmessage = message => {
+      try {
+        const parsed = JSON.parse(message.data) as GameEvent;
+        const event: GameEvent = {
+          ...parsed,
+          timestamp: new Date(parsed.timestamp),
+        };
+
+        setLastEventId(event.id);
+        onEventRef.current(event);
+      } catch (error) {
+        console.error('Failed to parse game event:', error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [gameId, typesKey, enabled]);
+
+  return { isConnected, lastEventId };
+}
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the offline content generator
+ * Covers template resolution, every PROMPTS template and schema-valid
+ * structured output without an API key
+ */
+
+import { z } from 'zod';
+import {
+  OfflineContentGenerator,
+  offlineGenerator,
+  resolveTemplateId,
+  extractTemplateVariables,
+} from '../offline-generator';
+import { PROMPTS } from '../prompts';
+import { AIContext } from '@/types/ai';
+import {
+  CharacterSchema,
+  CombatDataSchema,
+  DialogueDataSchema,
+  NarrativeDataSchema,
+} from '@/types/rpg';
+import {
+  ClueDataSchema,
+  RoleAssignmentSchema,
+  RoleDefinitionSchema,
+  VotingResultSchema,
+} from '@/types/deduction';
+import {
+  NPCBehaviorSchema,
+  ResourceEventSchema,
+  VillageEventSchema,
+} from '@/types/village';
+import { GameType } from '@/types/core';
+
+const createContext = (gameType: GameType): AIContext => ({
+  gameType,
+  gameState: {},
+  playerHistory: [],
+  recentEvents: [],
+  systemFlags: {},
+});
+
+/**
+ * Render a template the way PromptEngine does, filling every variable
+ */
+const renderTemplate = (template: string): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, name: string) =>
+    name === 'playerCount' ? '8' : `sample ${name}`
+  );
+
+/**
+ * Extract the JSON payload the way game code does
+ */
+const extractJson = (text: string): Record<string, unknown> => {
+  const match = text.match(/\{[\s\S]*\}/);
+  expect(match).not.toBeNull();
+  return JSON.parse(match![0]);
+};
+
+describe('OfflineContentGenerator', () => {
+  test('should be a singleton', () => {
+    expect(OfflineContentGenerator.getInstance()).toBe(offlineGenerator);
+  });
+
+  test.each(Object.values(PROMPTS))(
+    'generates parseable content for $id',
+    ({ id, template, gameType }) => {
+      const prompt = renderTemplate(template);
+      const content = offlineGenerator.generate(
+        prompt,
+        createContext(gameType as GameType)
+      );
+
+      expect(content.templateId).toBe(id);
+      const parsed = extractJson(content.text);
+      expect(parsed).toEqual(content.data);
+      expect(typeof parsed.name).toBe('string');
+      expect(typeof parsed.description).toBe('string');
+    }
+  );
+
+  test('resolves templates from generateGameContent prompts', () => {
+    const prompt = `Generate rpg npc dialogue for rpg game with parameters: ${JSON.stringify(
+      { npcName: 'Maera Stonewen' }
+    )}`;
+
+    expect(resolveTemplateId(prompt)).toBe('rpg_npc_dialogue');
+    expect(extractTemplateVariables(prompt, 'rpg_npc_dialogue')).toEqual({
+      npcName: 'Maera Stonewen',
+    });
+    expect(offlineGenerator.generate(prompt).data.speaker).toBe(
+      'Maera Stonewen'
+    );
+  });
+
+  test('reads variables from rendered template lines', () => {
+    const prompt = renderTemplate(PROMPTS.WORLD_GENERATION.template);
+
+    expect(
+      extractTemplateVariables(prompt, 'rpg_world_generation')
+    ).toMatchObject({ theme: 'sample theme', playerCount: 8 });
+  });
+
+  test('falls back to a default template for the game type', () => {
+    expect(resolveTemplateId('Hello', 'village')).toBe(
+      'village_event_generation'
+    );
+    expect(resolveTemplateId('Hello')).toBe('rpg_narrative_continuation');
+  });
+
+  test('produces the same content for the same prompt', () => {
+    const prompt = 'Generate rpg world generation for rpg game';
+
+    expect(offlineGenerator.generate(prompt).text).toBe(
+      offlineGenerator.generate(prompt).text
+    );
+    expect(offlineGenerator.generate(`${prompt}!`).text).not.toBe(
+      offlineGenerator.generate(prompt).text
+    );
+  });
+
+  test('sizes the role line-up to the player count', () => {
+    const prompt = `Generate deduction role generation for deduction game with parameters: ${JSON.stringify(
+      { playerCount: 10, theme: 'space station' }
+    )}`;
+    const roles = z
+      .object({ roles: z.array(RoleDefinitionSchema) })
+      .parse(offlineGenerator.generate(prompt).data).roles;
+
+    expect(roles).toHaveLength(10);
+    expect(roles.filter(role => role.alignment === 'mafia')).toHaveLength(2);
+    expect(new Set(roles.map(role => role.id)).size).toBe(10);
+  });
+
+  describe('structured output', () => {
+    test.each([
+      ['rpg_character_creation', CharacterSchema, 'rpg'],
+      ['rpg_narrative_continuation', NarrativeDataSchema, 'rpg'],
+      ['rpg_npc_dialogue', DialogueDataSchema, 'rpg'],
+      ['rpg_combat_narration', CombatDataSchema, 'rpg'],
+      ['deduction_clue_generation', ClueDataSchema, 'deduction'],
+      ['deduction_role_generation', RoleAssignmentSchema, 'deduction'],
+      ['deduction_role_generation', VotingResultSchema, 'deduction'],
+      ['village_event_generation', VillageEventSchema, 'village'],
+      ['village_npc_behavior', NPCBehaviorSchema, 'village'],
+      ['village_management_advice', ResourceEventSchema, 'village'],
+    ] as const)(
+      'satisfies the schema for %s',
+      (templateId, schema, gameType) => {
+        const value = offlineGenerator.generateStructured(
+          `Generate ${templateId}`,
+          schema as z.ZodTypeAny,
+          createContext(gameType)
+        );
+
+        expect(schema.safeParse(value).success).toBe(true);
+      }
+    );
+
+    test('honours constraints of arbitrary schemas', () => {
+      const schema = z.object({
+        id: z.string().uuid(),
+        contact: z.string().email(),
+        summary: z.string().min(120).max(200),
+        score: z.number().int().min(10).max(20),
+        ratio: z.number().gt(0).lt(1),
+        tags: z.array(z.string()).min(2).max(4),
+        kind: z.union([z.literal('a'), z.literal('b')]),
+        counts: z.record(z.number().int().nonnegative()),
+        note: z.string().optional(),
+        enabled: z.boolean().default(true),
+        nested: z.object({ when: z.string().datetime() }).nullable(),
+      });
+
+      const value = offlineGenerator.generateStructured('Anything', schema);
+
+      expect(schema.safeParse(value).success).toBe(true);
+      expect(value.summary.length).toBeGreaterThanOrEqual(120);
+      expect(value.tags.length).toBeGreaterThanOrEqual(2);
+    });
+
+    test('keeps template values that already fit the schema', () => {
+      const prompt = `Generate rpg character creation for rpg game with parameters: ${JSON.stringify(
+        { race: 'Dwarf', level: 7 }
+      )}`;
+      const character = offlineGenerator.generateStructured(
+        prompt,
+        CharacterSchema
+      );
+
+      expect(character.race).toBe('Dwarf');
+      expect(character.level).toBe(7);
+      expect(character.name).toBe(offlineGenerator.generate(prompt).data.name);
+    });
+
+    test('throws when a schema cannot be satisfied', () => {
+      const schema = z
+        .object({ value: z.number() })
+        .refine(() => false, 'never valid');
+
+      expect(() =>
+        offlineGenerator.generateStructured('Anything', schema)
+      ).toThrow();
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for AI provider routing
+ * Runs the router and GeminiService against stub providers to check tier
+ * selection per prompt category and failover between providers
+ */
+
+import { z } from 'zod';
+import {
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  ProviderRouter,
+  StubProvider,
+  createAIProviders,
+} from '../providers';
+import { geminiService } from '../gemini';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { GameError } from '@/types/core';
+
+const request = {
+  prompt: 'Describe the tavern',
+  maxTokens: 256,
+  temperature: 0.7,
+  timeoutMs: 1000,
+};
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+  let text = '';
+  for await (const chunk of chunks) {
+    text += chunk;
+  }
+  return text;
+};
+
+describe('ProviderRouter', () => {
+  let primary: StubProvider;
+  let backup: StubProvider;
+  let clock: number;
+  let router: ProviderRouter;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    primary = new StubProvider('primary');
+    backup = new StubProvider('backup');
+    clock = 0;
+    router = new ProviderRouter([primary, backup], undefined, () => clock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('picks the model tier from the prompt category', async () => {
+    await router.generateText({ ...request, category: 'dialogue_generation' });
+    await router.generateText({ ...request, category: 'world_generation' });
+    await router.generateText({ ...request, category: 'clue_creation' });
+    await router.generateText(request);
+
+    expect(primary.requests.map(sent => sent.tier)).toEqual([
+      'fast',
+      'strong',
+      'balanced',
+      'balanced',
+    ]);
+  });
+
+  test('derives the tier of an explicitly requested model', async () => {
+    const result = await router.generateText({
+      ...request,
+      category: 'world_generation',
+      model: 'claude-3-5-haiku-20241022',
+    });
+
+    expect(primary.requests[0]!.tier).toBe('fast');
+    expect(result.model).toBe('claude-3-5-haiku-20241022');
+  });
+
+  test('fails over when a provider is rate limited', async () => {
+    primary.failNext('rate_limit');
+
+    const result = await router.generateText(request);
+
+    expect(result.providerId).toBe('backup');
+    expect(result.text).toBe('Response from backup');
+    expect(primary.requests).toHaveLength(1);
+  });
+
+  test('skips a cooling-down provider until its cooldown ends', async () => {
+    primary.failNext('rate_limit', 30_000);
+    await router.generateText(request);
+
+    clock = 29_000;
+    expect((await router.generateText(request)).providerId).toBe('backup');
+    expect(primary.requests).toHaveLength(1);
+
+    clock = 31_000;
+    expect((await router.generateText(request)).providerId).toBe('primary');
+  });
+
+  test('still tries cooling-down providers when all are cooling down', async () => {
+    primary.failNext('unavailable');
+    backup.failNext('unavailable');
+    await expect(router.generateText(request)).rejects.toThrow(GameError);
+
+    expect((await router.generateText(request)).providerId).toBe('primary');
+  });
+
+  test('prefers the providers named by the routing policy', async () => {
+    router = new ProviderRouter([primary, backup], {
+      npc_behavior: { tier: 'fast', providers: ['backup'] },
+    });
+
+    const npc = await router.generateText({
+      ...request,
+      category: 'npc_behavior',
+    });
+    const other = await router.generateText(request);
+
+    expect(npc.providerId).toBe('backup');
+    expect(other.providerId).toBe('primary');
+  });
+
+  test('reports every attempt when all providers fail', async () => {
+    primary.failNext('rate_limit');
+    backup.failNext('rate_limit');
+
+    const error = await router.generateText(request).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GameError);
+    expect(error.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(error.details.attempts).toEqual([
+      expect.objectContaining({ provider: 'primary', kind: 'rate_limit' }),
+      expect.objectContaining({ provider: 'backup', kind: 'rate_limit' }),
+    ]);
+  });
+
+  test('fails over when structured output does not match the schema', async () => {
+    primary.respondWith('Sorry, I cannot help with that.');
+    backup.respondWith('Here you go: {"name": "Ironhold", "population": 420}');
+    const schema = z.object({ name: z.string(), population: z.number() });
+
+    const result = await router.generateObject(request, schema);
+
+    expect(result.providerId).toBe('backup');
+    expect(result.object).toEqual({ name: 'Ironhold', population: 420 });
+  });
+
+  test('fails over a stream that errors before its first chunk', async () => {
+    primary.failNext('timeout');
+    backup.respondWith('The door creaks open.');
+
+    const stream = await router.streamText(request);
+
+    expect(stream.providerId).toBe('backup');
+    expect(await collect(stream.chunks)).toBe('The door creaks open.');
+  });
+});
+
+describe('createAIProviders', () => {
+  test('builds configured providers in failover order', () => {
+    const providers = createAIProviders({
+      providers: ['openai_compatible', 'gemini', 'anthropic'],
+      anthropicApiKey: 'sk-ant-test',
+      localBaseUrl: 'http://localhost:11434/v1',
+      localModel: 'llama3.1',
+    });
+
+    expect(providers.map(provider => provider.id)).toEqual([
+      'openai_compatible',
+      'anthropic',
+    ]);
+  });
+});
+
+describe('HTTP providers', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    global.fetch = fetchMock;
+    fetchMock.mockReset();
+  });
+
+  test('reads Anthropic messages and maps the stop reason', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({
+        content: [{ type: 'text', text: 'A storm gathers.' }],
+        usage: { input_tokens: 12, output_tokens: 4 },
+        stop_reason: 'max_tokens',
+      })
+    );
+    const provider = new AnthropicProvider('sk-ant-test');
+
+    const result = await provider.generateText({ ...request, tier: 'fast' });
+
+    expect(result).toMatchObject({
+      text: 'A storm gathers.',
+      model: 'claude-3-5-haiku-20241022',
+      promptTokens: 12,
+      stopReason: 'max_tokens',
+    });
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.anthropic.com/v1/messages'
+    );
+  });
+
+  test('classifies HTTP 429 with its retry delay', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('slow down', {
+        status: 429,
+        headers: { 'retry-after': '7' },
+      })
+    );
+    const provider = new AnthropicProvider('sk-ant-test');
+
+    await expect(
+      provider.generateText({ ...request, tier: 'fast' })
+    ).rejects.toMatchObject({ kind: 'rate_limit', retryAfterMs: 7000 });
+  });
+
+  test('streams chat completion deltas from a local endpoint', async () => {
+    const events = [
+      { choices: [{ delta: { content: 'Hello' } }] },
+      { choices: [{ delta: { content: ', traveller' } }] },
+    ]
+      .map(event => `data: ${JSON.stringify(event)}\n\n`)
+      .join('');
+    fetchMock.mockResolvedValue(new Response(`${events}data: [DONE]\n\n`));
+    const provider = new OpenAICompatibleProvider(
+      'http://localhost:11434/v1/',
+      'llama3.1'
+    );
+
+    const text = await collect(
+      provider.streamText({ ...request, tier: 'strong' })
+    );
+
+    expect(text).toBe('Hello, traveller');
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:11434/v1/chat/completions'
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      model: 'llama3.1',
+      stream: true,
+    });
+  });
+});
+
+describe('GeminiService provider routing', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('routes content through the first healthy provider', async () => {
+    const gemini = new StubProvider('gemini').failNext('unavailable');
+    const local = new StubProvider('local', 'The mayor nods slowly.');
+    geminiService.useProviders([gemini, local]);
+
+    const content = await geminiService.generateContent(
+      'What does the mayor say?',
+      undefined,
+      { category: 'dialogue_generation' }
+    );
+
+    expect(content).toBe('The mayor nods slowly.');
+    expect(local.requests[0]!.tier).toBe('fast');
+  });
+
+  test('surfaces a failure of every provider', async () => {
+    geminiService.useProviders([new StubProvider('gemini').failNext('auth')]);
+
+    await expect(
+      geminiService.generateContent('Tell me a secret')
+    ).rejects.toMatchObject({ code: 'AI_SERVICE_ERROR' });
+  });
+});
@@ -11,15 +11,23 @@
  * - Content filtering and safety validation
  */
 
-import { google } from '@ai-sdk/google';
-import { generateText, streamText, generateObject } from 'ai';
 import { z } from 'zod';
 import { kvService } from '@/lib/database/kv-service';
+import { resolveAIProviderConfig } from '@/types/config';
+import { GameError as CoreGameError } from '@/types/core';
+import { offlineGenerator } from './offline-generator';
+import {
+  AIProvider,
+  ProviderRouter,
+  RoutingPolicy,
+  createAIProviders,
+} from './providers';
 import {
   AIRequest,
   AIResponse,
   AIContext,
   AIModel,
+  PromptCategory,
   SafetyAnalysis,
   TokenUsage,
   RequestPriority,
@@ -44,15 +52,6 @@ class GameError extends Error {
 // CONFIGURATION AND CONSTANTS
 // ============================================================================
 
-// Map old Claude models to Gemini models
-const MODEL_MAPPING: Record<string, string> = {
-  'claude-3-5-sonnet-20241022': 'gemini-1.5-pro-latest',
-  'claude-3-5-haiku-20241022': 'gemini-1.5-flash',
-  'claude-3-opus-20240229': 'gemini-1.5-pro-latest',
-  'claude-3-sonnet-20240229': 'gemini-1.5-pro',
-  'claude-3-haiku-20240307': 'gemini-1.5-flash',
-};
-
 interface GeminiServiceConfig {
   readonly apiKey: string;
   readonly defaultModel: string;
@@ -367,12 +366,14 @@ class AIAnalytics {
     response: AIResponse,
     success: boolean
   ): void {
-    if (success) {
-      this.metrics.successfulRequests++;
-    } else {
+    if (!success) {
+      // Failed requests carry no response to measure
       this.metrics.failedRequests++;
+      return;
     }
 
+    this.metrics.successfulRequests++;
+
     this.metrics.totalResponseTime += response.processingTime;
     this.metrics.totalTokensUsed += response.tokenUsage.total;
 
@@ -436,13 +437,20 @@ export class GeminiService {
   private rateLimiter: RateLimiter;
   private cache: CacheManager;
   private analytics: AIAnalytics;
+  private router: ProviderRouter;
 
   private constructor(config: Partial<GeminiServiceConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.router = new ProviderRouter(
+      createAIProviders({
+        ...resolveAIProviderConfig(),
+        geminiApiKey: this.config.apiKey || undefined,
+      })
+    );
 
-    if (!this.config.apiKey) {
+    if (!this.router.hasProviders()) {
       console.warn(
-        'Google AI API key not configured. Set GOOGLE_AI_API_KEY environment variable. Service will work with fallback behavior.'
+        'No AI provider configured. Set GOOGLE_AI_API_KEY, ANTHROPIC_API_KEY or LOCAL_AI_BASE_URL and LOCAL_AI_MODEL. Content will come from the offline generator.'
       );
     }
 
@@ -463,11 +471,11 @@ export class GeminiService {
   // ============================================================================
 
   /**
-   * Map Claude model to Gemini model
+   * Route requests through these providers instead of the configured ones
+   * (useful for testing)
    */
-  private mapModel(model?: AIModel | string): string {
-    if (!model) return this.config.defaultModel;
-    return MODEL_MAPPING[model] || model;
+  useProviders(providers: AIProvider[], policy?: RoutingPolicy): void {
+    this.router = new ProviderRouter(providers, policy);
   }
 
   /**
@@ -478,13 +486,14 @@ export class GeminiService {
     context?: AIContext,
     options?: {
       model?: AIModel;
+      category?: PromptCategory;
       maxTokens?: number;
       temperature?: number;
       priority?: RequestPriority;
       cacheKey?: string;
     }
   ): Promise<string> {
-    if (!this.config.apiKey) {
+    if (!this.router.hasProviders()) {
       // Fallback behavior when API key is not configured
       return this.generateFallbackContent(prompt, context);
     }
@@ -509,6 +518,7 @@ export class GeminiService {
 
     const response = await this.processRequest(request, {
       model: options?.model,
+      category: options?.category,
       maxTokens: options?.maxTokens,
       temperature: options?.temperature,
     });
@@ -524,11 +534,12 @@ export class GeminiService {
     context?: AIContext,
     options?: {
       model?: AIModel;
+      category?: PromptCategory;
       maxTokens?: number;
       temperature?: number;
     }
   ): AsyncGenerator<string, void, unknown> {
-    if (!this.config.apiKey) {
+    if (!this.router.hasProviders()) {
       // Fallback streaming behavior
       const content = await this.generateFallbackContent(prompt, context);
       const words = content.split(' ');
@@ -555,21 +566,20 @@ export class GeminiService {
 
     try {
       const startTime = Date.now();
-      const geminiModel = this.mapModel(options?.model);
 
-      const { textStream } = await streamText({
-        model: google(geminiModel, {
-          apiKey: this.config.apiKey,
-        }),
+      const stream = await this.router.streamText({
         prompt: this.buildPrompt(prompt, context),
+        model: options?.model,
+        category: options?.category,
         maxTokens: options?.maxTokens || this.config.maxTokens,
         temperature: options?.temperature || this.config.temperature,
+        timeoutMs: this.config.timeout,
       });
 
       let fullContent = '';
       let tokenCount = 0;
 
-      for await (const text of textStream) {
+      for await (const text of stream.chunks) {
         fullContent += text;
         tokenCount++;
         yield text;
@@ -588,7 +598,8 @@ export class GeminiService {
           total: this.estimateTokens(prompt) + tokenCount,
         },
         metadata: {
-          model: geminiModel,
+          model: stream.model,
+          provider: stream.providerId,
           temperature: options?.temperature || this.config.temperature,
           promptTokens: this.estimateTokens(prompt),
           completionTokens: tokenCount,
@@ -619,12 +630,13 @@ export class GeminiService {
     context?: AIContext,
     options?: {
       model?: AIModel;
+      category?: PromptCategory;
       maxRetries?: number;
     }
   ): Promise<T> {
-    if (!this.config.apiKey) {
-      // Generate fallback structured data
-      return this.generateFallbackStructured(prompt, schema);
+    if (!this.router.hasProviders()) {
+      // Generate structured data offline
+      return this.generateFallbackStructured(prompt, schema, context);
     }
 
     const maxRetries = options?.maxRetries || 3;
@@ -632,17 +644,19 @@ export class GeminiService {
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const geminiModel = this.mapModel(options?.model);
-
-        const { object } = await generateObject({
-          model: google(geminiModel, {
-            apiKey: this.config.apiKey,
-          }),
-          prompt: this.buildPrompt(prompt, context),
-          schema,
-        });
+        const { object } = await this.router.generateObject(
+          {
+            prompt: this.buildPrompt(prompt, context),
+            model: options?.model,
+            category: options?.category,
+            maxTokens: this.config.maxTokens,
+            temperature: this.config.temperature,
+            timeoutMs: this.config.timeout,
+          },
+          schema
+        );
 
-        return object as T;
+        return object;
       } catch (error) {
         lastError = error as Error;
         console.warn(`Structured generation attempt ${attempt} failed:`, error);
@@ -674,6 +688,7 @@ export class GeminiService {
     request: AIRequest,
     options?: {
       model?: AIModel;
+      category?: PromptCategory;
       maxTokens?: number;
       temperature?: number;
     }
@@ -719,19 +734,23 @@ export class GeminiService {
 
     try {
       const startTime = Date.now();
-      const geminiModel = this.mapModel(options?.model);
-
-      const { text, usage } = await generateText({
-        model: google(geminiModel, {
-          apiKey: this.config.apiKey,
-        }),
+      const result = await this.router.generateText({
         prompt: this.buildPrompt(
           request.parameters.prompt as string,
           request.context
         ),
+        model: options?.model,
+        category: options?.category,
         maxTokens: options?.maxTokens || this.config.maxTokens,
         temperature: options?.temperature || this.config.temperature,
+        timeoutMs: request.options.timeout ?? this.config.timeout,
       });
+      const { text } = result;
+      const promptTokens =
+        result.promptTokens ||
+        this.estimateTokens(request.parameters.prompt as string);
+      const completionTokens =
+        result.completionTokens || this.estimateTokens(text);
 
       const processingTime = Date.now() - startTime;
 
@@ -742,24 +761,17 @@ export class GeminiService {
         timestamp: new Date(),
         processingTime,
         tokenUsage: {
-          prompt:
-            usage?.promptTokens ||
-            this.estimateTokens(request.parameters.prompt as string),
-          completion: usage?.completionTokens || this.estimateTokens(text),
-          total:
-            (usage?.promptTokens || 0) + (usage?.completionTokens || 0) ||
-            this.estimateTokens(request.parameters.prompt as string) +
-              this.estimateTokens(text),
+          prompt: promptTokens,
+          completion: completionTokens,
+          total: promptTokens + completionTokens,
         },
         metadata: {
-          model: geminiModel,
+          model: result.model,
+          provider: result.providerId,
           temperature: options?.temperature || this.config.temperature,
-          promptTokens:
-            usage?.promptTokens ||
-            this.estimateTokens(request.parameters.prompt as string),
-          completionTokens:
-            usage?.completionTokens || this.estimateTokens(text),
-          stopReason: 'stop',
+          promptTokens,
+          completionTokens,
+          stopReason: result.stopReason,
           safety: await this.analyzeSafety(text),
         },
       };
@@ -850,11 +862,16 @@ export class GeminiService {
     };
   }
 
-  private handleError(error: unknown, context: string): GameError {
+  private handleError(error: unknown, context: string): Error {
     console.error(`Gemini API error in ${context}:`, error);
 
     //TODO: Integrate with proper error tracking service
 
+    if (error instanceof CoreGameError) {
+      // Raised by the provider router after every provider failed
+      return error;
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('rate limit')) {
         return new GameError(
@@ -904,66 +921,28 @@ export class GeminiService {
     prompt: string,
     context?: AIContext
   ): Promise<string> {
-    // Generate deterministic content based on game type and prompt
-    const gameType = context?.gameType || 'rpg';
-
-    const fallbackResponses: Record<string, string[]> = {
-      rpg: [
-        'You enter a mysterious forest filled with ancient trees and glowing mushrooms.',
-        'A wise old wizard approaches you with an important quest.',
-        "The dragon's lair lies ahead, filled with treasure and danger.",
-        'Your party discovers a hidden village in need of heroes.',
-      ],
-      deduction: [
-        'Player 3 was seen near the crime scene at midnight.',
-        'A mysterious note was found with cryptic symbols.',
-        'The suspect claims to have an alibi, but something seems off.',
-        'Evidence suggests the culprit is among the trusted allies.',
-      ],
-      village: [
-        'The harvest season brings abundant crops to your village.',
-        'A traveling merchant arrives with rare goods and news from distant lands.',
-        'The village elder calls a meeting to discuss the upcoming winter preparations.',
-        'New settlers arrive seeking a place to call home.',
-      ],
-    };
-
-    const responses = fallbackResponses[gameType] || fallbackResponses.rpg;
-    const hash = this.simpleHash(prompt);
-    const index = parseInt(hash, 36) % responses.length;
-
-    return responses[index];
+    // Procedural content seeded from the prompt, so results are repeatable
+    return offlineGenerator.generate(prompt, context).text;
   }
 
   private async generateFallbackStructured<T>(
     prompt: string,
-    schema: z.ZodSchema<T>
+    schema: z.ZodSchema<T>,
+    context?: AIContext
   ): Promise<T> {
-    // Generate minimal valid data that matches the schema
-    //TODO: Implement more sophisticated fallback structured data generation
-    const fallbackData = {};
-
     try {
-      return schema.parse(fallbackData);
-    } catch {
-      // If parsing fails, throw an error indicating API key is needed
+      return offlineGenerator.generateStructured(prompt, schema, context);
+    } catch (error) {
+      // The offline generator could not satisfy this schema's constraints
       throw new GameError(
-        'API_KEY_REQUIRED',
-        'Google AI API key is required for structured generation. Set GOOGLE_AI_API_KEY environment variable.'
+        'OFFLINE_GENERATION_FAILED',
+        `Offline content generator could not produce data for this schema: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }. Configure an AI provider to use a model.`
       );
     }
   }
 
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(36);
-  }
-
   // ============================================================================
   // PUBLIC UTILITY METHODS
   // ============================================================================
@@ -1004,7 +983,7 @@ export class GeminiService {
     metrics: any;
   }> {
     const checks = {
-      apiKeyConfigured: !!this.config.apiKey,
+      apiKeyConfigured: this.router.hasProviders(),
       cacheWorking: true,
       kvServiceConnected: true,
     };
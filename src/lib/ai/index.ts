@@ -9,6 +9,10 @@
  * - Comprehensive testing utilities
  */
 
+import { PromptCategory } from '@/types/ai';
+import { PROMPTS } from './prompts';
+import { geminiService, createSimplePrompt } from './gemini';
+
 // ============================================================================
 // CORE PROMPT ENGINEERING EXPORTS
 // ============================================================================
@@ -61,6 +65,45 @@ export {
   GeminiService as ClaudeService, // Backward compatibility
 } from './gemini';
 
+// ============================================================================
+// OFFLINE GENERATOR EXPORTS (Used when no API key is configured)
+// ============================================================================
+
+export {
+  offlineGenerator,
+  OfflineContentGenerator,
+  resolveTemplateId,
+  extractTemplateVariables,
+
+  // Types and interfaces
+  type OfflineContent,
+  type OfflineTemplateId,
+} from './offline-generator';
+
+// ============================================================================
+// PROVIDER EXPORTS (Routing and failover between AI vendors)
+// ============================================================================
+
+export {
+  createAIProviders,
+  ProviderRouter,
+  DEFAULT_ROUTING_POLICY,
+  tierForModel,
+  AIProviderError,
+  GeminiProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  StubProvider,
+
+  // Types and interfaces
+  type AIProvider,
+  type ProviderRequest,
+  type ProviderTextResult,
+  type ProviderErrorKind,
+  type RouteRule,
+  type RoutingPolicy,
+} from './providers';
+
 // ============================================================================
 // INTERNAL HELPER FUNCTIONS
 // ============================================================================
@@ -77,8 +120,11 @@ async function generateGameContent(
   const prompt = `Generate ${templateId.replace(/_/g, ' ')} for ${gameType} game with parameters: ${JSON.stringify(variables)}`;
   return geminiService.generateContent(
     prompt,
-    { gameType },
-    { priority: options?.priority as any }
+    createSimplePrompt(prompt, gameType),
+    {
+      priority: options?.priority as any,
+      category: templateCategory(templateId),
+    }
   );
 }
 
@@ -92,7 +138,19 @@ function generateStreamingContent(
   options?: { streaming?: boolean; useCache?: boolean }
 ): AsyncGenerator<string, void, unknown> {
   const prompt = `Generate ${templateId.replace(/_/g, ' ')} for ${gameType} game with parameters: ${JSON.stringify(variables)}`;
-  return geminiService.streamContent(prompt, { gameType });
+  return geminiService.streamContent(
+    prompt,
+    createSimplePrompt(prompt, gameType),
+    { category: templateCategory(templateId) }
+  );
+}
+
+/**
+ * Prompt category of a template, used to route it to a model tier
+ */
+function templateCategory(templateId: string): PromptCategory | undefined {
+  return Object.values(PROMPTS).find(template => template.id === templateId)
+    ?.category;
 }
 
 // ============================================================================
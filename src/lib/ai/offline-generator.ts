@@ -0,0 +1,2162 @@
+/**
+ * Offline Content Generator for RpgAInfinity
+ *
+ * Rule-based stand-in for the AI model, used when GOOGLE_AI_API_KEY is not
+ * configured. Every template in PROMPTS has a generator built from grammar
+ * tables, and structured requests are filled in from the requested zod
+ * schema. Output is seeded from the prompt, so the same prompt always yields
+ * the same content - which keeps offline e2e runs reproducible.
+ *
+ * Text responses are markdown followed by exactly one fenced JSON block, the
+ * shape game code already extracts with /\{[\s\S]*\}/.
+ */
+
+import { z } from 'zod';
+import { PROMPTS } from './prompts';
+import { AIContext } from '../../types/ai';
+import { GameType, JSONValue } from '../../types/core';
+import {
+  RandomSource,
+  SeededRandom,
+  seedFromString,
+} from '../game-engine/random';
+
+// ============================================================================
+// OFFLINE GENERATOR TYPES
+// ============================================================================
+
+export type OfflineTemplateId =
+  | 'rpg_world_generation'
+  | 'rpg_character_creation'
+  | 'rpg_narrative_continuation'
+  | 'rpg_combat_narration'
+  | 'rpg_npc_dialogue'
+  | 'deduction_clue_generation'
+  | 'deduction_role_generation'
+  | 'deduction_narrative_setup'
+  | 'village_event_generation'
+  | 'village_npc_behavior'
+  | 'village_management_advice'
+  | 'village_npc_generation'
+  | 'village_npc_dialogue'
+  | 'village_npc_personality';
+
+export interface OfflineContent {
+  readonly templateId: OfflineTemplateId;
+  readonly text: string;
+  readonly data: Record<string, JSONValue>;
+}
+
+type TemplateVariables = Record<string, unknown>;
+
+interface GeneratedSection {
+  readonly heading: string;
+  readonly lines: string[];
+}
+
+interface GeneratedTemplate {
+  readonly title: string;
+  readonly sections: GeneratedSection[];
+  readonly data: Record<string, JSONValue>;
+}
+
+type TemplateGenerator = (
+  words: Phrasebook,
+  variables: TemplateVariables
+) => GeneratedTemplate;
+
+// ============================================================================
+// GRAMMAR TABLES
+// ============================================================================
+
+/**
+ * Rules are expanded recursively; `#rule#` inside an option is replaced by an
+ * expansion of that rule. Options must never contain braces, so generated
+ * prose cannot confuse JSON extraction.
+ */
+type Grammar = Readonly<Record<string, readonly string[]>>;
+
+const SHARED_GRAMMAR: Grammar = {
+  nameStart: [
+    'Ael',
+    'Bran',
+    'Cor',
+    'Dra',
+    'El',
+    'Fen',
+    'Gal',
+    'Hal',
+    'Ir',
+    'Jor',
+    'Kael',
+    'Lor',
+    'Mor',
+    'Nym',
+    'Or',
+    'Pel',
+    'Quen',
+    'Ryn',
+    'Sel',
+    'Tor',
+    'Ul',
+    'Vor',
+    'Wyn',
+    'Yr',
+    'Zan',
+  ],
+  nameEnd: [
+    'adan',
+    'bel',
+    'dor',
+    'eth',
+    'ia',
+    'ion',
+    'mir',
+    'ora',
+    'oth',
+    'ric',
+    'ros',
+    'wen',
+    'wyn',
+    'var',
+    'thas',
+    'essa',
+    'und',
+    'ith',
+  ],
+  givenName: ['#nameStart##nameEnd#'],
+  surname: [
+    '#nameStart#ford',
+    '#nameStart#wood',
+    '#nameStart#vale',
+    'Ash#nameEnd#',
+    'Stone#nameEnd#',
+    'Mill#nameEnd#',
+    '#nameStart#brook',
+    'Thorn#nameEnd#',
+  ],
+  fullName: ['#givenName# #surname#'],
+  adjective: [
+    'ancient',
+    'sunken',
+    'whispering',
+    'forgotten',
+    'gilded',
+    'shattered',
+    'verdant',
+    'frozen',
+    'ember-lit',
+    'mist-veiled',
+    'hollow',
+    'starlit',
+    'crimson',
+    'silent',
+    'windswept',
+  ],
+  trait: [
+    'brave',
+    'curious',
+    'stubborn',
+    'kind-hearted',
+    'sardonic',
+    'loyal',
+    'reckless',
+    'meticulous',
+    'secretive',
+    'cheerful',
+    'patient',
+    'proud',
+  ],
+  flaw: [
+    'trusts too easily',
+    'cannot resist a wager',
+    'holds grudges for years',
+    'fears being forgotten',
+    'speaks before thinking',
+    'hoards small trinkets',
+  ],
+  motivation: [
+    'protecting family',
+    'earning respect',
+    'uncovering the truth',
+    'paying off an old debt',
+    'finding a lost sibling',
+    'gaining influence',
+    'keeping the peace',
+    'making a fortune',
+  ],
+  fear: [
+    'fire',
+    'deep water',
+    'losing their home',
+    'being exposed as a fraud',
+    'the dark between stars',
+    'growing old alone',
+    'crowds',
+  ],
+  secret: [
+    'once served the very people they now oppose',
+    'keeps a letter they have never dared to open',
+    'knows where the old treasury key is hidden',
+    'is not who they claim to be',
+    'owes a dangerous debt to a stranger',
+  ],
+  sentence: [
+    '#givenName# #mannerism#.',
+    '#givenName# #flaw#.',
+    'Everyone knows #givenName# is #trait#, though they #flaw#.',
+    'Rumour has it that #givenName# #secret#.',
+  ],
+  mannerism: [
+    'taps their fingers while thinking',
+    'hums old songs',
+    "never meets anyone's eyes",
+    'laughs at their own jokes',
+    'speaks in clipped sentences',
+  ],
+};
+
+const RPG_GRAMMAR: Grammar = {
+  theme: ['high fantasy', 'dark fantasy', 'sword and sorcery', 'mythic'],
+  biome: ['forest', 'mountains', 'coast', 'desert', 'tundra', 'marshland'],
+  tone: ['heroic', 'grim', 'wondrous', 'tense'],
+  placeNoun: [
+    'Vale',
+    'Reach',
+    'Hollow',
+    'Spire',
+    'Crossing',
+    'Deep',
+    'Watch',
+    'Haven',
+    'Barrow',
+    'Sanctum',
+    'Fen',
+    'Span',
+  ],
+  placeKind: [
+    'forest',
+    'citadel',
+    'harbor',
+    'ruin',
+    'mine',
+    'monastery',
+    'marsh',
+    'canyon',
+    'library',
+    'bridge',
+    'tower',
+    'oasis',
+  ],
+  worldName: ['#nameStart##nameEnd#', 'The #adjective.cap# #placeNoun#'],
+  placeName: [
+    '#nameStart##nameEnd# #placeNoun#',
+    'The #adjective.cap# #placeNoun#',
+  ],
+  factionKind: [
+    'Guild',
+    'Order',
+    'Circle',
+    'Company',
+    'Covenant',
+    'Brotherhood',
+    'Court',
+    'League',
+  ],
+  factionColor: [
+    'Ashen',
+    'Silver',
+    'Tidebound',
+    'Verdant',
+    'Iron',
+    'Lantern',
+    'Gilded',
+    'Thorn',
+  ],
+  factionName: [
+    'The #factionColor# #factionKind#',
+    'The #factionKind# of #nameStart##nameEnd#',
+  ],
+  prize: [
+    'the last working skyforge',
+    'a drowned crown',
+    'the river trade',
+    'the true name of a sleeping god',
+    'the old roads',
+    'an oath-bound throne',
+  ],
+  threat: [
+    'a creeping blight',
+    'a rogue archmage',
+    'restless dead',
+    'a dragon brood',
+    'a cult of the hollow moon',
+    'bandit lords',
+    'a tear in the sky',
+  ],
+  feature: [
+    '#adjective# forests',
+    'rivers of #adjective# glass',
+    'floating isles',
+    'canyons carved by giants',
+    'endless salt flats',
+    'storm-wracked cliffs',
+  ],
+  worldOverview: [
+    '#worldName# is a #adjective# realm of #feature#, where #factionName# and #factionName# contend for #prize#.',
+    'Across #worldName#, #feature# hide the remains of a #adjective# empire, and #threat# stirs once more.',
+  ],
+  locationDescription: [
+    'A #adjective# #placeKind# where travellers speak in hushed voices of #threat#.',
+    'This #adjective# #placeKind# guards a path to #prize#, though few return to tell of it.',
+    'Once a thriving #placeKind#, now a #adjective# place watched over by #factionName#.',
+  ],
+  legend: [
+    'Bards claim a hero once sealed #threat# beneath the #adjective# #placeKind#.',
+    'Some say #prize# still waits for whoever can answer the riddle of the #placeNoun#.',
+  ],
+  historyEvent: [
+    'The Sundering, when #threat# broke the #adjective# empire',
+    'The founding of #factionName# after the long winter',
+    'The Treaty of #placeName#, signed in blood and broken within a year',
+  ],
+  hook: [
+    'A courier begs for an escort to the #adjective# #placeKind#.',
+    'Someone is selling maps that lead to #prize#.',
+    'Villagers vanish every night the moon is full.',
+    'An envoy of #factionName# offers gold for a discreet errand.',
+  ],
+  race: [
+    'Human',
+    'Elf',
+    'Dwarf',
+    'Halfling',
+    'Orc',
+    'Gnome',
+    'Tiefling',
+    'Dragonborn',
+  ],
+  class: [
+    'Warrior',
+    'Ranger',
+    'Mage',
+    'Rogue',
+    'Cleric',
+    'Bard',
+    'Paladin',
+    'Druid',
+  ],
+  background: [
+    'a disgraced knight',
+    'a street orphan',
+    'a temple acolyte',
+    'a wandering scholar',
+    'a retired smuggler',
+    'a frontier hunter',
+  ],
+  characterDescription: [
+    'A #trait# #race# #class# who was once #background#, driven by #motivation#.',
+    'Raised as #background#, this #trait# #class# still #mannerism#.',
+  ],
+  situation: [
+    'Mist rolls across the #adjective# #placeKind# as the party presses forward.',
+    'Torchlight flickers over #adjective# stone while distant drums echo.',
+    'The road bends toward a #adjective# #placeKind#, and the air grows still.',
+  ],
+  development: [
+    'A figure in #factionColor# robes steps from the shadows, hands raised in parley.',
+    'The ground trembles and a hidden stair opens beneath the rubble.',
+    'A wounded scout staggers into view, clutching a map to #prize#.',
+    'Fresh tracks suggest #threat# passed this way not long ago.',
+  ],
+  choiceText: [
+    'Follow the tracks deeper into the #placeKind#',
+    'Hail the stranger and ask what they want',
+    'Search the area carefully for hidden dangers',
+    'Set up camp and wait for nightfall',
+    'Press on toward #prize#',
+  ],
+  consequence: [
+    'The party draws the attention of #factionName#',
+    'A new path opens toward #prize#',
+    'Time passes and the trail grows colder',
+    'Rumours of the party spread to #placeName#',
+  ],
+  enemy: [
+    'a hulking ogre',
+    'a pack of dire wolves',
+    'a skeletal knight',
+    'a cult fanatic',
+    'a restless wraith',
+    'a bandit captain',
+  ],
+  weapon: ['blade', 'spear', 'warhammer', 'longbow', 'staff', 'dagger'],
+  combatBeat: [
+    'Steel rings as the #weapon# meets #enemy#, sending sparks across the #adjective# ground.',
+    'With a roar, #enemy# lunges forward and the party braces to meet it.',
+    'A well-aimed strike from a #weapon# finds a gap in the defences of #enemy#.',
+    'Dust and shadow swirl as #enemy# circles, searching for an opening.',
+  ],
+  greeting: [
+    'Well met, traveller. Not many come this way anymore.',
+    'You have the look of someone searching for trouble.',
+    'Keep your voice down. The walls here have ears.',
+    'Ah, a new face. Sit, sit - the fire is warm.',
+  ],
+  dialogueLine: [
+    'They say #threat# has been seen near the #adjective# #placeKind#.',
+    'If you are after #prize#, you will need friends in #factionName#.',
+    'I could tell you more, but information has a price.',
+    'My grandmother swore the #placeNoun# was cursed. I am starting to believe her.',
+  ],
+  playerReply: [
+    'Tell me more about the #placeKind#.',
+    'What do you know of #factionName#?',
+    'I can pay for what you know.',
+    'Farewell, and stay safe.',
+  ],
+};
+
+const DEDUCTION_GRAMMAR: Grammar = {
+  theme: ['classic mystery', 'werewolf village', 'space station', 'noir city'],
+  setting: [
+    'a snowbound manor',
+    'a riverboat casino',
+    'a remote research station',
+    'a harbor town under curfew',
+    'a travelling carnival',
+    'an isolated abbey',
+  ],
+  evidence: [
+    'a torn letter',
+    'muddy boots',
+    'a broken pocket watch',
+    'a smudged ledger',
+    'a half-burned candle',
+    'a missing key',
+    'a bloodstained glove',
+    'an unsigned note',
+  ],
+  room: [
+    'the library',
+    'the cellar',
+    'the east garden',
+    'the kitchen',
+    'the chapel',
+    'the stables',
+    'the observatory',
+    'the boathouse',
+  ],
+  time: [
+    'just after midnight',
+    'before dawn',
+    'during the storm',
+    'at the evening bell',
+  ],
+  suspicion: [
+    'was seen hurrying away from',
+    'spent too long near',
+    'lied about visiting',
+    'asked pointed questions about',
+  ],
+  witness: [
+    'the groundskeeper',
+    'a nervous maid',
+    'the night watchman',
+    'a travelling merchant',
+  ],
+  clue: [
+    '#evidence.cap# was found in #room#, still warm #time#.',
+    '#witness.cap# insists someone #suspicion# #room# #time#.',
+    'Someone scrubbed #room# clean, but missed #evidence#.',
+    'The household ledger shows a payment that nobody will admit to making.',
+  ],
+  crime: [
+    'the host was found dead in #room#',
+    'the family heirloom vanished from #room#',
+    'the only radio was smashed #time#',
+  ],
+  premise: [
+    'Guests gathered at #setting# for a celebration, but #crime#. Now no one may leave until the culprit is found.',
+    'A storm has cut #setting# off from the world, and #crime#. Someone among you is lying.',
+  ],
+  atmosphere: [
+    'Candles gutter in the draught and every creak sounds like a footstep.',
+    'Rain lashes the windows while suspicious glances cross the room.',
+    'A heavy silence falls whenever someone new enters the room.',
+  ],
+};
+
+const VILLAGE_GRAMMAR: Grammar = {
+  villageName: [
+    '#nameStart#brook',
+    '#nameStart#wick',
+    '#nameStart#stead',
+    '#nameStart#ford Green',
+  ],
+  season: ['spring', 'summer', 'autumn', 'winter'],
+  profession: [
+    'farmer',
+    'blacksmith',
+    'baker',
+    'weaver',
+    'miller',
+    'herbalist',
+    'carpenter',
+    'fisher',
+    'merchant',
+    'healer',
+  ],
+  resource: ['food', 'wood', 'stone', 'metal', 'gold'],
+  eventTitle: [
+    'The #adjective.cap# Harvest',
+    'Fever in the Lower Fields',
+    'A Caravan from #nameStart##nameEnd#',
+    'The Broken Mill Wheel',
+    'Wolves at the Palisade',
+    'Festival of the #adjective.cap# Lanterns',
+  ],
+  eventDescription: [
+    'As #season# settles over the village, #eventDetail#',
+    'Word spreads quickly through the square: #eventDetail#',
+  ],
+  eventDetail: [
+    'the granary reports an unexpected surplus of #resource#.',
+    'a sickness is spreading among the families near the river.',
+    'a merchant caravan has arrived asking to trade for #resource#.',
+    'a storm has damaged the workshops and stores of #resource#.',
+    "the elders propose a festival to lift everyone's spirits.",
+  ],
+  behavior: [
+    'spends the day at the #profession# workshop, lending a hand',
+    'gathers neighbours in the square to voice their worries',
+    'takes a long walk along the river to clear their head',
+    'organises an impromptu feast for the street',
+  ],
+  advice: [
+    'Set aside a reserve of #resource# before #season# arrives.',
+    'Assign more villagers to gathering #resource# while the weather holds.',
+    'Hold a gathering to lift morale before making unpopular decisions.',
+    "Repair the palisade before raiders hear of the village's prosperity.",
+    'Open trade with passing caravans to balance your stores of #resource#.',
+  ],
+  speech: [
+    'Good day to you. The #season# has been hard on us all.',
+    'If you have a moment, the #profession# could use some help.',
+    'Did you hear? #eventDetail.cap#',
+    'We will get through this, same as always.',
+  ],
+};
+
+const GAME_GRAMMARS: Record<GameType, Grammar> = {
+  rpg: RPG_GRAMMAR,
+  deduction: DEDUCTION_GRAMMAR,
+  village: VILLAGE_GRAMMAR,
+};
+
+/**
+ * Expands grammar rules with one seeded random stream. Variables supplied by
+ * the caller override rules of the same name (e.g. a requested theme).
+ */
+class Phrasebook {
+  private readonly bound = new Map<string, string>();
+
+  constructor(
+    readonly random: RandomSource,
+    private readonly grammar: Grammar
+  ) {}
+
+  /**
+   * Fix a rule to one value, so later references repeat it (e.g. a name)
+   */
+  bind(rule: string, value: string): string {
+    this.bound.set(rule, value);
+    return value;
+  }
+
+  /**
+   * Expand a rule; `rule.cap` capitalises the first letter of the result
+   */
+  say(rule: string, depth: number = 0): string {
+    const [name = rule, modifier] = rule.split('.');
+    const options = this.grammar[name];
+    const boundValue = this.bound.get(name);
+    if (
+      boundValue === undefined &&
+      (!options || options.length === 0 || depth > 8)
+    ) {
+      return name;
+    }
+
+    const expanded =
+      boundValue ?? this.fill(this.random.pick(options ?? [name]), depth + 1);
+    return modifier === 'cap' ? capitalize(expanded) : expanded;
+  }
+
+  /**
+   * Expand every `#rule#` reference inside a literal string
+   */
+  fill(text: string, depth: number = 0): string {
+    return text.replace(/#([\w.]+)#/g, (_, rule: string) =>
+      this.say(rule, depth)
+    );
+  }
+
+  /**
+   * Several distinct expansions of a rule, as far as the table allows
+   */
+  many(rule: string, count: number): string[] {
+    const results = new Set<string>();
+    for (
+      let attempt = 0;
+      attempt < count * 4 && results.size < count;
+      attempt++
+    ) {
+      results.add(this.say(rule));
+    }
+    return [...results];
+  }
+}
+
+const capitalize = (text: string): string =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+// ============================================================================
+// TEMPLATE RESOLUTION
+// ============================================================================
+
+const TEMPLATE_DEFAULTS: Record<GameType, OfflineTemplateId> = {
+  rpg: 'rpg_narrative_continuation',
+  deduction: 'deduction_narrative_setup',
+  village: 'village_event_generation',
+};
+
+interface TemplateSource {
+  readonly id: string;
+  readonly gameType: string;
+  readonly template: string;
+}
+
+const TEMPLATE_SOURCES: TemplateSource[] = Object.values(PROMPTS);
+
+/**
+ * Work out which template a prompt was built from: the id itself (as written
+ * by generateGameContent), then the template's opening line, then the
+ * default for the game type
+ */
+export function resolveTemplateId(
+  prompt: string,
+  gameType: GameType = 'rpg'
+): OfflineTemplateId {
+  const normalized = prompt.toLowerCase();
+  const ids = Object.keys(TEMPLATE_GENERATORS) as OfflineTemplateId[];
+
+  const byId = ids.find(
+    id => normalized.includes(id) || normalized.includes(id.replace(/_/g, ' '))
+  );
+  if (byId) {
+    return byId;
+  }
+
+  const byOpening = TEMPLATE_SOURCES.find(source => {
+    const opening = source.template.split('\n')[0]?.trim();
+    return !!opening && prompt.includes(opening);
+  });
+  if (byOpening && byOpening.id in TEMPLATE_GENERATORS) {
+    return byOpening.id as OfflineTemplateId;
+  }
+
+  return TEMPLATE_DEFAULTS[gameType] ?? TEMPLATE_DEFAULTS.rpg;
+}
+
+/**
+ * Recover template variables from a prompt, either from the trailing
+ * `with parameters: {...}` JSON or from `**Label**: value` lines of a
+ * rendered template
+ */
+export function extractTemplateVariables(
+  prompt: string,
+  templateId: OfflineTemplateId
+): TemplateVariables {
+  const marker = 'with parameters:';
+  const markerIndex = prompt.indexOf(marker);
+  if (markerIndex >= 0) {
+    try {
+      const parsed: unknown = JSON.parse(
+        prompt.slice(markerIndex + marker.length).trim()
+      );
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as TemplateVariables;
+      }
+    } catch {
+      // Not JSON after all - fall through to the template lines
+    }
+  }
+
+  const source = TEMPLATE_SOURCES.find(
+    candidate => candidate.id === templateId
+  );
+  const variables: TemplateVariables = {};
+  if (!source) {
+    return variables;
+  }
+
+  for (const line of source.template.split('\n')) {
+    const match = line.trim().match(/^(.+?)\{\{(\w+)\}\}\s*$/);
+    if (!match || !match[1] || !match[2] || match[2] in variables) {
+      continue;
+    }
+
+    const prefix = match[1].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const found = prompt.match(new RegExp(`^\\s*${prefix}(.+)$`, 'm'));
+    if (found?.[1]) {
+      variables[match[2]] = parseVariableValue(found[1].trim());
+    }
+  }
+
+  return variables;
+}
+
+function parseVariableValue(value: string): unknown {
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+// ============================================================================
+// VARIABLE HELPERS
+// ============================================================================
+
+/**
+ * Read a variable as short prose. Braces are stripped so that caller input
+ * can never break JSON extraction from the rendered text.
+ */
+function textVariable(
+  variables: TemplateVariables,
+  key: string
+): string | undefined {
+  const value = variables[key];
+  if (typeof value === 'string' && value.trim()) {
+    return value.replace(/[{}]/g, '').trim().slice(0, 80);
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (value && typeof value === 'object' && 'name' in value) {
+    const name = (value as { name: unknown }).name;
+    return typeof name === 'string' ? name.replace(/[{}]/g, '') : undefined;
+  }
+  return undefined;
+}
+
+function numberVariable(
+  variables: TemplateVariables,
+  key: string,
+  fallback: number
+): number {
+  const value = Number(variables[key]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+
+/**
+ * Pick the option of a closed set that appears in a variable, or a random one
+ */
+function chooseFrom<T extends string>(
+  words: Phrasebook,
+  options: readonly T[],
+  hint?: string
+): T {
+  const normalized = hint?.toLowerCase();
+  const matched = normalized
+    ? options.find(option => normalized.includes(option))
+    : undefined;
+  return matched ?? words.random.pick(options);
+}
+
+// ============================================================================
+// RPG GENERATORS
+// ============================================================================
+
+function generateWorld(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const generationType = textVariable(variables, 'generationType');
+
+  if (generationType === 'faction') {
+    const name = words.say('factionName');
+    const description = words.fill(
+      'A #adjective# #factionKind# sworn to #motivation#, said to covet #prize#.'
+    );
+    const goals = words.many('prize', 2);
+    return {
+      title: name,
+      sections: [
+        { heading: 'FACTION', lines: [description] },
+        { heading: 'GOALS', lines: goals },
+      ],
+      data: {
+        name,
+        description,
+        alignment: words.random.pick(['good', 'neutral', 'evil']),
+        goals,
+        leader: words.say('fullName'),
+      },
+    };
+  }
+
+  if (generationType === 'world_event') {
+    const name = words.fill('The #adjective.cap# #placeNoun#');
+    const description = words.fill(
+      'News travels fast: #threat# has been sighted and #factionName# is gathering its strength.'
+    );
+    return {
+      title: name,
+      sections: [{ heading: 'WORLD EVENT', lines: [description] }],
+      data: {
+        name,
+        description,
+        type: words.random.pick([
+          'political',
+          'natural',
+          'magical',
+          'social',
+          'economic',
+        ]),
+        startDate: words.random.nextInt(1, 30),
+        duration: words.random.nextInt(3, 21),
+        effects: {
+          danger: words.random.nextInt(1, 5),
+          tradeModifier: words.random.nextInt(-20, 20) / 100,
+        },
+      },
+    };
+  }
+
+  if (
+    generationType === 'detailed_location' ||
+    generationType === 'point_of_interest' ||
+    variables.locationType !== undefined
+  ) {
+    const name = words.say('placeName');
+    const description = words.say('locationDescription');
+    const hooks = words.many('hook', 2);
+    return {
+      title: name,
+      sections: [
+        { heading: 'LOCATION', lines: [description] },
+        { heading: 'ADVENTURE HOOKS', lines: hooks },
+      ],
+      data: {
+        name,
+        description,
+        type: textVariable(variables, 'locationType') ?? words.say('placeKind'),
+        category: words.random.pick([
+          'landmark',
+          'structure',
+          'natural',
+          'ruins',
+          'shrine',
+        ]),
+        significance: words.random.pick(['minor', 'notable', 'major']),
+        accessibility: words.random.pick(['open', 'hidden', 'guarded']),
+        atmosphere: words.say('situation'),
+        interactiveElements: words.many('placeKind', 2),
+        narrativeHooks: hooks,
+      },
+    };
+  }
+
+  const theme = textVariable(variables, 'theme') ?? words.say('theme');
+  const name = words.bind('worldName', words.say('worldName'));
+  const description = words.say('worldOverview');
+  const regions = Array.from({ length: words.random.nextInt(3, 5) }, () => ({
+    name: words.say('placeName'),
+    description: words.say('locationDescription'),
+    significance: words.fill('Holds the key to #prize#.'),
+  }));
+  const factions = Array.from({ length: 2 }, () => ({
+    name: words.say('factionName'),
+    description: words.fill('A #adjective# #factionKind# seeking #prize#.'),
+    alignment: words.random.pick(['good', 'neutral', 'evil']),
+  }));
+  const history = words.many('historyEvent', 2);
+  const legends = words.many('legend', 2);
+  const seeds = words.many('hook', 3).map((hook, index) => ({
+    title: words.fill('The #adjective.cap# #placeNoun#'),
+    description: hook,
+    difficulty: ['easy', 'moderate', 'challenging'][index] ?? 'moderate',
+  }));
+
+  return {
+    title: name,
+    sections: [
+      {
+        heading: 'SETTING OVERVIEW',
+        lines: [
+          description,
+          `Theme: ${theme}`,
+          `Biome: ${textVariable(variables, 'biome') ?? words.say('biome')}`,
+        ],
+      },
+      {
+        heading: 'KEY LOCATIONS',
+        lines: regions.map(region => `${region.name}: ${region.description}`),
+      },
+      { heading: 'WORLD HISTORY', lines: [...history, ...legends] },
+      {
+        heading: 'ADVENTURE SEEDS',
+        lines: seeds.map(
+          seed => `${seed.title} (${seed.difficulty}): ${seed.description}`
+        ),
+      },
+    ],
+    data: {
+      name,
+      description,
+      theme,
+      lore: legends.join(' '),
+      regions,
+      factions,
+      history,
+      adventureSeeds: seeds,
+    },
+  };
+}
+
+const CHARACTER_STATS = [
+  'strength',
+  'dexterity',
+  'constitution',
+  'intelligence',
+  'wisdom',
+  'charisma',
+  'luck',
+] as const;
+
+const CHARACTER_SKILLS = [
+  'combat',
+  'magic',
+  'stealth',
+  'diplomacy',
+  'survival',
+  'investigation',
+  'crafting',
+  'lore',
+] as const;
+
+function generateCharacter(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const name = words.say('fullName');
+  const race = textVariable(variables, 'race') ?? words.say('race');
+  const characterClass = textVariable(variables, 'class') ?? words.say('class');
+  const level = clamp(
+    Math.round(numberVariable(variables, 'level', 1)),
+    1,
+    100
+  );
+  const traits = words.many('trait', 3);
+  const background =
+    textVariable(variables, 'background') ?? words.say('background');
+  const description = words.fill(
+    `A ${traits[0] ?? 'steady'} ${race} ${characterClass} who was once ${background}, driven by #motivation#.`
+  );
+
+  const stats = Object.fromEntries(
+    CHARACTER_STATS.map(stat => [stat, words.random.nextInt(8, 18)])
+  );
+  const skills = Object.fromEntries(
+    CHARACTER_SKILLS.map(skill => [
+      skill,
+      clamp(words.random.nextInt(0, 30) + level * 2, 0, 100),
+    ])
+  );
+  const maxHealth = 10 + level * words.random.nextInt(5, 9);
+
+  return {
+    title: name,
+    sections: [
+      { heading: 'CHARACTER CONCEPT', lines: [description] },
+      {
+        heading: 'PERSONALITY',
+        lines: [
+          `Traits: ${traits.join(', ')}`,
+          words.fill('Flaw: #flaw#'),
+          words.fill('Quirk: #mannerism#'),
+        ],
+      },
+      { heading: 'BACKGROUND', lines: [words.fill('Secret: #secret#')] },
+    ],
+    data: {
+      id: words.random.uuid(),
+      name,
+      description,
+      race,
+      class: characterClass,
+      level,
+      experience: 0,
+      stats,
+      skills,
+      traits,
+      background,
+      currentHealth: maxHealth,
+      maxHealth,
+      statusEffects: [],
+      alignment: words.random.pick(['good', 'neutral', 'evil']),
+      disposition: words.random.pick(['friendly', 'neutral', 'wary']),
+      motivations: words.many('motivation', 2),
+      fears: words.many('fear', 1),
+      secrets: words.many('secret', 1),
+    },
+  };
+}
+
+const NARRATIVE_MOODS = [
+  'epic',
+  'dark',
+  'humorous',
+  'mysterious',
+  'tense',
+  'peaceful',
+  'neutral',
+] as const;
+
+function narrativeChoices(words: Phrasebook, withDifficulty: boolean) {
+  return words.many('choiceText', 3).map((text, index) => ({
+    id: `choice_${index + 1}`,
+    text,
+    consequences: [words.say('consequence')],
+    ...(withDifficulty
+      ? {
+          skillRequirement: {
+            skill: words.random.pick(CHARACTER_SKILLS),
+            difficulty: words.random.nextInt(8, 16),
+          },
+        }
+      : {}),
+  }));
+}
+
+function generateNarrative(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const content = `${words.say('situation')} ${words.say('development')}`;
+  const mood = chooseFrom(
+    words,
+    NARRATIVE_MOODS,
+    textVariable(variables, 'tone')
+  );
+  const choices = narrativeChoices(
+    words,
+    variables.includeDifficulty !== false
+  );
+  const hiddenElements = words.many('secret', 1);
+
+  return {
+    title: words.fill('The #adjective.cap# #placeNoun#'),
+    sections: [
+      { heading: 'STORY CONTINUATION', lines: [content] },
+      {
+        heading: 'PLAYER CHOICES',
+        lines: choices.map(choice => choice.text),
+      },
+    ],
+    data: {
+      name: words.say('placeName'),
+      description: content,
+      content,
+      type: 'continuation',
+      mood,
+      consequences: [words.say('consequence')],
+      choices,
+      narrative: content,
+      atmosphere: words.say('situation'),
+      clues: words.many('development', 2),
+      hiddenElements,
+      interactiveElements: words.many('placeKind', 2),
+    },
+  };
+}
+
+const COMBAT_OUTCOMES = [
+  'hit',
+  'miss',
+  'critical',
+  'fumble',
+  'block',
+  'ongoing',
+] as const;
+
+function generateCombatNarration(words: Phrasebook): GeneratedTemplate {
+  const outcome = words.random.weightedPick(
+    COMBAT_OUTCOMES,
+    [5, 3, 1, 1, 2, 2]
+  );
+  const description = `${words.say('combatBeat')} ${words.say('combatBeat')}`;
+  const damageDealt =
+    outcome === 'hit'
+      ? words.random.nextInt(4, 12)
+      : outcome === 'critical'
+        ? words.random.nextInt(12, 24)
+        : 0;
+
+  return {
+    title: 'Combat',
+    sections: [{ heading: 'COMBAT NARRATION', lines: [description] }],
+    data: {
+      name: 'Combat Round',
+      description: description.slice(0, 500),
+      outcome,
+      damageDealt,
+      damageReceived: outcome === 'fumble' ? words.random.nextInt(1, 6) : 0,
+      statusChanges: [],
+      nextPossibleActions: [
+        'attack',
+        'defend',
+        'cast_spell',
+        'use_item',
+        'flee',
+      ],
+    },
+  };
+}
+
+const DIALOGUE_EMOTIONS = [
+  'happy',
+  'sad',
+  'angry',
+  'surprised',
+  'neutral',
+  'excited',
+  'fearful',
+] as const;
+
+function generateRpgDialogue(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const speaker =
+    textVariable(variables, 'npcProfile') ??
+    textVariable(variables, 'npcName') ??
+    words.say('fullName');
+  const content = `${words.say('greeting')} ${words.say('dialogueLine')}`;
+  const choices = words.many('playerReply', 3).map((text, index) => ({
+    id: `reply_${index + 1}`,
+    text,
+    response: words.say('dialogueLine'),
+  }));
+
+  return {
+    title: speaker,
+    sections: [
+      { heading: 'DIALOGUE', lines: [`${speaker}: "${content}"`] },
+      { heading: 'RESPONSES', lines: choices.map(choice => choice.text) },
+    ],
+    data: {
+      name: speaker,
+      description: words.fill('A #trait# local who #mannerism#.'),
+      speaker,
+      content,
+      emotion: words.random.pick(DIALOGUE_EMOTIONS),
+      context: 'conversation',
+      choices,
+      greetings: words.many('greeting', 2),
+      topics: words.many('dialogueLine', 2),
+    },
+  };
+}
+
+// ============================================================================
+// DEDUCTION GENERATORS
+// ============================================================================
+
+const CLUE_TYPES = [
+  'observation',
+  'deduction',
+  'evidence',
+  'rumor',
+  'confession',
+] as const;
+
+function generateClues(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const playerCount = clamp(numberVariable(variables, 'playerCount', 6), 4, 20);
+  const clues = Array.from(
+    { length: clamp(Math.ceil(playerCount / 2), 3, 6) },
+    () => {
+      const type = words.random.pick(CLUE_TYPES);
+      return {
+        content: words.say('clue'),
+        type,
+        reliability: type === 'rumor' ? 0.4 : type === 'evidence' ? 0.9 : 0.7,
+        relatedEntities: [words.say('room')],
+        isPublic: words.random.chance(0.5),
+        source: words.say('witness'),
+        consequences: [
+          words.fill('Suspicion falls on whoever visited #room#.'),
+        ],
+      };
+    }
+  );
+  const [first] = clues;
+
+  return {
+    title: 'Clues',
+    sections: [{ heading: 'CLUES', lines: clues.map(clue => clue.content) }],
+    data: {
+      name: 'Clue Set',
+      description: first?.content ?? words.say('clue'),
+      ...(first ?? {}),
+      clues,
+    },
+  };
+}
+
+interface RoleArchetype {
+  readonly name: string;
+  readonly alignment: 'town' | 'mafia' | 'neutral' | 'survivor';
+  readonly type:
+    | 'investigative'
+    | 'killing'
+    | 'protective'
+    | 'support'
+    | 'power'
+    | 'vanilla';
+  readonly description: string;
+  readonly winCondition: string;
+  readonly rarity: 'common' | 'uncommon' | 'rare' | 'unique';
+  readonly requiresMinPlayers: number;
+  readonly ability?: {
+    readonly name: string;
+    readonly type: string;
+    readonly effect: string;
+    readonly description: string;
+  };
+}
+
+const ROLE_ARCHETYPES: Record<string, RoleArchetype> = {
+  detective: {
+    name: 'Detective',
+    alignment: 'town',
+    type: 'investigative',
+    description: 'Investigates one player each night to learn their alignment.',
+    winCondition: 'Eliminate every member of the mafia.',
+    rarity: 'uncommon',
+    requiresMinPlayers: 4,
+    ability: {
+      name: 'Investigate',
+      type: 'investigate',
+      effect: 'learn_alignment',
+      description: 'Learn whether a player is on the side of the town.',
+    },
+  },
+  doctor: {
+    name: 'Doctor',
+    alignment: 'town',
+    type: 'protective',
+    description: 'Protects one player each night from being killed.',
+    winCondition: 'Eliminate every member of the mafia.',
+    rarity: 'uncommon',
+    requiresMinPlayers: 5,
+    ability: {
+      name: 'Protect',
+      type: 'protect',
+      effect: 'protect',
+      description: 'Save a player from death tonight.',
+    },
+  },
+  escort: {
+    name: 'Escort',
+    alignment: 'town',
+    type: 'support',
+    description: 'Distracts one player each night, blocking their ability.',
+    winCondition: 'Eliminate every member of the mafia.',
+    rarity: 'rare',
+    requiresMinPlayers: 8,
+    ability: {
+      name: 'Distract',
+      type: 'block',
+      effect: 'block',
+      description: 'Prevent a player from using their ability tonight.',
+    },
+  },
+  citizen: {
+    name: 'Citizen',
+    alignment: 'town',
+    type: 'vanilla',
+    description: 'An ordinary member of the town with only their vote.',
+    winCondition: 'Eliminate every member of the mafia.',
+    rarity: 'common',
+    requiresMinPlayers: 4,
+  },
+  mafioso: {
+    name: 'Mafioso',
+    alignment: 'mafia',
+    type: 'killing',
+    description: 'Chooses a victim with the rest of the mafia each night.',
+    winCondition: 'Equal or outnumber the rest of the players.',
+    rarity: 'common',
+    requiresMinPlayers: 4,
+    ability: {
+      name: 'Kill',
+      type: 'kill',
+      effect: 'kill',
+      description: 'Attack a player under cover of night.',
+    },
+  },
+  consort: {
+    name: 'Consort',
+    alignment: 'mafia',
+    type: 'support',
+    description: 'Works for the mafia by keeping town roles busy at night.',
+    winCondition: 'Equal or outnumber the rest of the players.',
+    rarity: 'rare',
+    requiresMinPlayers: 10,
+    ability: {
+      name: 'Distract',
+      type: 'block',
+      effect: 'block',
+      description: 'Prevent a player from using their ability tonight.',
+    },
+  },
+  jester: {
+    name: 'Jester',
+    alignment: 'neutral',
+    type: 'power',
+    description: 'Wants nothing more than to be voted out by the town.',
+    winCondition: 'Get yourself eliminated by a day vote.',
+    rarity: 'rare',
+    requiresMinPlayers: 7,
+  },
+  survivor: {
+    name: 'Survivor',
+    alignment: 'survivor',
+    type: 'vanilla',
+    description: 'Sides with nobody and only cares about staying alive.',
+    winCondition: 'Be alive when the game ends.',
+    rarity: 'uncommon',
+    requiresMinPlayers: 9,
+  },
+};
+
+/**
+ * Build a balanced line-up: roughly one mafia member per four players, a
+ * neutral role from seven players, and citizens filling the remaining seats
+ */
+function buildRoleLineup(playerCount: number): RoleArchetype[] {
+  const mafiaCount = Math.max(1, Math.floor(playerCount / 4));
+  const lineup: RoleArchetype[] = [ROLE_ARCHETYPES.mafioso!];
+  if (
+    mafiaCount > 1 &&
+    playerCount >= ROLE_ARCHETYPES.consort!.requiresMinPlayers
+  ) {
+    lineup.push(ROLE_ARCHETYPES.consort!);
+  }
+  while (lineup.length < mafiaCount) {
+    lineup.push(ROLE_ARCHETYPES.mafioso!);
+  }
+
+  for (const key of ['detective', 'doctor', 'jester', 'escort', 'survivor']) {
+    const archetype = ROLE_ARCHETYPES[key]!;
+    if (
+      playerCount >= archetype.requiresMinPlayers &&
+      lineup.length < playerCount
+    ) {
+      lineup.push(archetype);
+    }
+  }
+
+  while (lineup.length < playerCount) {
+    lineup.push(ROLE_ARCHETYPES.citizen!);
+  }
+  return lineup;
+}
+
+function generateRoles(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const playerCount = clamp(
+    Math.round(numberVariable(variables, 'playerCount', 6)),
+    4,
+    20
+  );
+  const theme = textVariable(variables, 'theme') ?? words.say('theme');
+  const seen = new Map<string, number>();
+
+  const roles = buildRoleLineup(playerCount).map(archetype => {
+    const copy = (seen.get(archetype.name) ?? 0) + 1;
+    seen.set(archetype.name, copy);
+    return {
+      id: `${slugify(archetype.name)}_${copy}`,
+      name: archetype.name,
+      alignment: archetype.alignment,
+      type: archetype.type,
+      description: archetype.description,
+      abilities: archetype.ability
+        ? [
+            {
+              name: archetype.ability.name,
+              type: archetype.ability.type,
+              description: archetype.ability.description,
+              usageLimit: { type: 'per_night', count: 1 },
+              timing: 'night',
+              target: 'other_player',
+              effects: [
+                { type: archetype.ability.effect, duration: 'immediate' },
+              ],
+            },
+          ]
+        : [],
+      restrictions: [],
+      winCondition: archetype.winCondition,
+      flavorText: words.fill(
+        `In this ${theme} tale, the ${archetype.name.toLowerCase()} #mannerism#.`
+      ),
+      rarity: archetype.rarity,
+      requiresMinPlayers: archetype.requiresMinPlayers,
+    };
+  });
+
+  return {
+    title: `Roles for ${playerCount} players`,
+    sections: [
+      {
+        heading: 'ROLE DISTRIBUTION',
+        lines: roles.map(
+          role => `${role.name} (${role.alignment}): ${role.description}`
+        ),
+      },
+    ],
+    data: {
+      name: `${capitalize(theme)} roles`,
+      description: `A balanced line-up of ${roles.length} roles.`,
+      roles,
+    },
+  };
+}
+
+function generateDeductionSetup(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const setting = words.bind(
+    'setting',
+    textVariable(variables, 'setting') ?? words.say('setting')
+  );
+  const premise = words.say('premise');
+  const atmosphere = words.say('atmosphere');
+  const openingClues = words.many('clue', 2);
+  const name = words.fill('The #adjective.cap# Affair at #nameStart##nameEnd#');
+
+  return {
+    title: name,
+    sections: [
+      { heading: 'SCENARIO', lines: [premise] },
+      { heading: 'ATMOSPHERE', lines: [atmosphere] },
+      { heading: 'OPENING CLUES', lines: openingClues },
+    ],
+    data: {
+      name,
+      description: premise,
+      setting,
+      atmosphere,
+      backstory: words.fill('Long ago, #fullName# #secret#.'),
+      openingClues,
+    },
+  };
+}
+
+// ============================================================================
+// VILLAGE GENERATORS
+// ============================================================================
+
+const VILLAGE_EVENT_TYPES = [
+  'natural',
+  'economic',
+  'social',
+  'military',
+  'technological',
+  'political',
+  'cultural',
+  'supernatural',
+] as const;
+
+function generateVillageEvent(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const name = words.say('eventTitle');
+  const description = words.say('eventDescription');
+  const severity = textVariable(variables, 'severity');
+  const magnitude = severity === 'major' ? 3 : severity === 'minor' ? 1 : 2;
+  const resource = words.say('resource');
+
+  return {
+    title: name,
+    sections: [
+      { heading: 'EVENT', lines: [description] },
+      {
+        heading: 'CHOICES',
+        lines: [
+          'Rally the villagers to respond together',
+          'Spend stores to soften the blow',
+          'Wait and see how things unfold',
+        ],
+      },
+    ],
+    data: {
+      id: words.random.uuid(),
+      name,
+      description,
+      type: words.random.pick(VILLAGE_EVENT_TYPES),
+      effects: [
+        {
+          type: 'resource',
+          target: resource,
+          modifier: words.random.pick([-1, 1]) * magnitude * 5,
+          description: `Stores of ${resource} change`,
+        },
+      ],
+      duration: magnitude * words.random.nextInt(1, 3),
+      isActive: true,
+      createdAt: 0,
+    },
+  };
+}
+
+const NPC_ACTIONS = [
+  'work',
+  'rest',
+  'socialize',
+  'complain',
+  'celebrate',
+  'migrate',
+] as const;
+
+const NPC_MOODS = [
+  'happy',
+  'neutral',
+  'sad',
+  'angry',
+  'excited',
+  'worried',
+] as const;
+
+function generateNpcBehavior(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const name = textVariable(variables, 'npcProfile') ?? words.say('fullName');
+  const action = words.random.weightedPick(NPC_ACTIONS, [6, 2, 3, 1, 1, 0.2]);
+  const mood = words.random.pick(NPC_MOODS);
+  const description = `${name} ${words.say('behavior')}.`;
+
+  return {
+    title: name,
+    sections: [{ heading: 'BEHAVIOR', lines: [description] }],
+    data: {
+      npcId: slugify(name) || 'villager',
+      name,
+      action,
+      description,
+      mood,
+      reasoning: words.fill('They are focused on #motivation#.'),
+      effects: [
+        {
+          type: action === 'work' ? 'productivity' : 'happiness',
+          modifier: mood === 'happy' || mood === 'excited' ? 5 : -2,
+          description: `${name}'s ${mood} mood affects those nearby`,
+        },
+      ],
+      duration: words.random.nextInt(1, 8),
+    },
+  };
+}
+
+function generateVillageAdvice(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const season =
+    textVariable(variables, 'upcomingSeason') ?? words.say('season');
+  const recommendations = words.many('advice', 3).map((text, index) => ({
+    priority: index + 1,
+    action: text,
+    reasoning: words.fill('Villagers value #motivation#.'),
+  }));
+
+  return {
+    title: 'Advice',
+    sections: [
+      {
+        heading: 'RECOMMENDATIONS',
+        lines: recommendations.map(item => `${item.priority}. ${item.action}`),
+      },
+    ],
+    data: {
+      name: "Steward's Counsel",
+      description: `Preparations for ${season}.`,
+      recommendations,
+      risks: words.many('eventDetail', 2),
+    },
+  };
+}
+
+function generateVillageNpc(words: Phrasebook): GeneratedTemplate {
+  const name = words.say('fullName');
+  const profession = words.say('profession');
+  const traits = words.many('trait', 3);
+
+  return {
+    title: name,
+    sections: [
+      {
+        heading: 'BASIC INFORMATION',
+        lines: [`${name}, ${profession}`, `Traits: ${traits.join(', ')}`],
+      },
+      {
+        heading: 'BACKGROUND',
+        lines: [words.fill('#givenName# #mannerism#.')],
+      },
+    ],
+    data: {
+      name,
+      description: words.fill(
+        `A ${traits[0] ?? 'quiet'} ${profession} who #mannerism#.`
+      ),
+      age: words.random.nextInt(18, 70),
+      profession,
+      skillLevel: words.random.nextInt(1, 10),
+      traits,
+      motivations: words.many('motivation', 2),
+      fears: words.many('fear', 1),
+      secrets: words.many('secret', 1),
+    },
+  };
+}
+
+function generateVillageDialogue(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const speaker = textVariable(variables, 'npc') ?? words.say('fullName');
+  const content = `${words.say('speech')} ${words.say('speech')}`;
+
+  return {
+    title: speaker,
+    sections: [{ heading: 'DIALOGUE', lines: [`${speaker}: "${content}"`] }],
+    data: {
+      name: speaker,
+      description: content,
+      speaker,
+      content,
+      emotion: words.random.pick(DIALOGUE_EMOTIONS),
+      context: 'conversation',
+      choices: [],
+    },
+  };
+}
+
+function generatePersonality(
+  words: Phrasebook,
+  variables: TemplateVariables
+): GeneratedTemplate {
+  const name = textVariable(variables, 'npcData') ?? words.say('fullName');
+  const bigFive = Object.fromEntries(
+    [
+      'openness',
+      'conscientiousness',
+      'extraversion',
+      'agreeableness',
+      'neuroticism',
+    ].map(dimension => [dimension, words.random.nextInt(20, 90)])
+  );
+  const quirks = words.many('mannerism', 2);
+
+  return {
+    title: name,
+    sections: [
+      {
+        heading: 'PERSONALITY PROFILE',
+        lines: Object.entries(bigFive).map(
+          ([dimension, score]) => `${capitalize(dimension)}: ${score}`
+        ),
+      },
+      { heading: 'QUIRKS', lines: quirks },
+    ],
+    data: {
+      name,
+      description: words.fill('Someone who #mannerism# and #flaw#.'),
+      traits: bigFive,
+      quirks,
+      values: words.many('motivation', 2),
+      flaws: words.many('flaw', 1),
+    },
+  };
+}
+
+const TEMPLATE_GENERATORS: Record<OfflineTemplateId, TemplateGenerator> = {
+  rpg_world_generation: generateWorld,
+  rpg_character_creation: generateCharacter,
+  rpg_narrative_continuation: generateNarrative,
+  rpg_combat_narration: generateCombatNarration,
+  rpg_npc_dialogue: generateRpgDialogue,
+  deduction_clue_generation: generateClues,
+  deduction_role_generation: generateRoles,
+  deduction_narrative_setup: generateDeductionSetup,
+  village_event_generation: generateVillageEvent,
+  village_npc_behavior: generateNpcBehavior,
+  village_management_advice: generateVillageAdvice,
+  village_npc_generation: generateVillageNpc,
+  village_npc_dialogue: generateVillageDialogue,
+  village_npc_personality: generatePersonality,
+};
+
+const TEMPLATE_GAME_TYPES: Record<string, GameType> = {
+  rpg: 'rpg',
+  deduction: 'deduction',
+  village: 'village',
+};
+
+// ============================================================================
+// SCHEMA SYNTHESIS
+// ============================================================================
+
+/**
+ * Build a value for a zod schema, reusing hint values that already satisfy
+ * their part of the schema and generating the rest from field names and
+ * constraints. Covers the zod types used across the codebase; anything it
+ * cannot satisfy is caught by the final parse.
+ */
+class SchemaSynthesizer {
+  private static readonly MAX_DEPTH = 12;
+
+  constructor(private readonly words: Phrasebook) {}
+
+  synthesize(
+    schema: z.ZodTypeAny,
+    hint: unknown,
+    key: string,
+    depth = 0
+  ): unknown {
+    if (hint !== undefined && schema.safeParse(hint).success) {
+      return hint;
+    }
+    if (depth > SchemaSynthesizer.MAX_DEPTH) {
+      return undefined;
+    }
+
+    const next = depth + 1;
+    const random = this.words.random;
+
+    if (schema instanceof z.ZodString) {
+      return this.synthesizeString(schema, key, hint);
+    }
+    if (schema instanceof z.ZodNumber) {
+      return this.synthesizeNumber(schema, hint);
+    }
+    if (schema instanceof z.ZodBoolean) {
+      return typeof hint === 'boolean' ? hint : random.chance(0.5);
+    }
+    if (schema instanceof z.ZodBigInt) {
+      return BigInt(random.nextInt(0, 1000));
+    }
+    if (schema instanceof z.ZodDate) {
+      return new Date(Date.UTC(2024, 0, random.nextInt(1, 365)));
+    }
+    if (schema instanceof z.ZodLiteral) {
+      return schema.value;
+    }
+    if (schema instanceof z.ZodEnum) {
+      return random.pick(schema.options as string[]);
+    }
+    if (schema instanceof z.ZodNativeEnum) {
+      const values = Object.values(
+        schema.enum as Record<string, string | number>
+      );
+      const numeric = values.filter(value => typeof value === 'number');
+      return random.pick(numeric.length > 0 ? numeric : values);
+    }
+    if (schema instanceof z.ZodArray) {
+      return this.synthesizeArray(schema, hint, key, next);
+    }
+    if (schema instanceof z.ZodObject) {
+      return this.synthesizeObject(schema, hint, next);
+    }
+    if (schema instanceof z.ZodOptional) {
+      return hint === undefined
+        ? undefined
+        : this.synthesize(schema.unwrap(), hint, key, next);
+    }
+    if (schema instanceof z.ZodNullable) {
+      return hint === null
+        ? null
+        : this.synthesize(schema.unwrap(), hint, key, next);
+    }
+    if (schema instanceof z.ZodDefault) {
+      return hint === undefined
+        ? schema._def.defaultValue()
+        : this.synthesize(schema._def.innerType, hint, key, next);
+    }
+    if (schema instanceof z.ZodCatch) {
+      return this.synthesize(schema._def.innerType, hint, key, next);
+    }
+    if (
+      schema instanceof z.ZodUnion ||
+      schema instanceof z.ZodDiscriminatedUnion
+    ) {
+      const options = schema.options as z.ZodTypeAny[];
+      for (const option of options) {
+        const value = this.synthesize(option, hint, key, next);
+        if (option.safeParse(value).success) {
+          return value;
+        }
+      }
+      return options[0]
+        ? this.synthesize(options[0], undefined, key, next)
+        : undefined;
+    }
+    if (schema instanceof z.ZodIntersection) {
+      const left = this.synthesize(schema._def.left, hint, key, next);
+      const right = this.synthesize(schema._def.right, hint, key, next);
+      return isPlainObject(left) && isPlainObject(right)
+        ? { ...left, ...right }
+        : left;
+    }
+    if (schema instanceof z.ZodRecord) {
+      if (isPlainObject(hint)) {
+        return Object.fromEntries(
+          Object.entries(hint).map(([entryKey, value]) => [
+            entryKey,
+            this.synthesize(schema.valueSchema, value, entryKey, next),
+          ])
+        );
+      }
+      const entryKey = String(
+        this.synthesize(schema.keySchema, undefined, 'key', next)
+      );
+      return {
+        [entryKey]: this.synthesize(
+          schema.valueSchema,
+          undefined,
+          entryKey,
+          next
+        ),
+      };
+    }
+    if (schema instanceof z.ZodMap) {
+      return new Map([
+        [
+          this.synthesize(schema._def.keyType, undefined, 'key', next),
+          this.synthesize(schema._def.valueType, undefined, key, next),
+        ],
+      ]);
+    }
+    if (schema instanceof z.ZodSet) {
+      return new Set([
+        this.synthesize(schema._def.valueType, undefined, key, next),
+      ]);
+    }
+    if (schema instanceof z.ZodTuple) {
+      const items = schema.items as z.ZodTypeAny[];
+      return items.map((item, index) =>
+        this.synthesize(
+          item,
+          Array.isArray(hint) ? hint[index] : undefined,
+          key,
+          next
+        )
+      );
+    }
+    if (schema instanceof z.ZodEffects) {
+      return this.synthesize(schema.innerType(), hint, key, next);
+    }
+    if (schema instanceof z.ZodLazy) {
+      return this.synthesize(schema.schema, hint, key, next);
+    }
+    if (schema instanceof z.ZodPipeline) {
+      return this.synthesize(schema._def.in, hint, key, next);
+    }
+    if (schema instanceof z.ZodBranded) {
+      return this.synthesize(schema.unwrap(), hint, key, next);
+    }
+    if (schema instanceof z.ZodReadonly) {
+      return this.synthesize(schema._def.innerType, hint, key, next);
+    }
+    if (schema instanceof z.ZodNull) {
+      return null;
+    }
+    if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+      return hint !== undefined ? hint : this.textFor(key);
+    }
+
+    return undefined;
+  }
+
+  private synthesizeObject(
+    schema: z.AnyZodObject,
+    hint: unknown,
+    depth: number
+  ): Record<string, unknown> {
+    const source = isPlainObject(hint) ? hint : {};
+    const result: Record<string, unknown> = {};
+
+    for (const [field, fieldSchema] of Object.entries(
+      schema.shape as Record<string, z.ZodTypeAny>
+    )) {
+      const value = this.synthesize(fieldSchema, source[field], field, depth);
+      if (value !== undefined) {
+        result[field] = value;
+      }
+    }
+    return result;
+  }
+
+  private synthesizeArray(
+    schema: z.ZodArray<z.ZodTypeAny>,
+    hint: unknown,
+    key: string,
+    depth: number
+  ): unknown[] {
+    const { minLength, maxLength, exactLength } = schema._def;
+    const min = exactLength?.value ?? minLength?.value ?? 1;
+    const max = exactLength?.value ?? maxLength?.value ?? Math.max(min, 3);
+    const hints = Array.isArray(hint) ? hint.slice(0, max) : [];
+    const length = Math.max(
+      min,
+      hints.length > 0
+        ? hints.length
+        : this.words.random.nextInt(min, Math.min(max, min + 2))
+    );
+    const itemKey = key.endsWith('s') ? key.slice(0, -1) : key;
+
+    return Array.from({ length }, (_, index) =>
+      this.synthesize(schema.element, hints[index], itemKey, depth)
+    );
+  }
+
+  private synthesizeString(
+    schema: z.ZodString,
+    key: string,
+    hint: unknown
+  ): string {
+    const random = this.words.random;
+    let min = 0;
+    let max = Infinity;
+
+    for (const check of schema._def.checks) {
+      switch (check.kind) {
+        case 'uuid':
+          return random.uuid();
+        case 'email':
+          return `${slugify(this.words.say('givenName'))}@example.com`;
+        case 'url':
+          return `https://example.com/${slugify(this.textFor(key)).slice(0, 40)}`;
+        case 'datetime':
+          return new Date(
+            Date.UTC(2024, 0, random.nextInt(1, 365))
+          ).toISOString();
+        case 'cuid':
+          return `c${Array.from({ length: 24 }, () => random.nextInt(0, 35).toString(36)).join('')}`;
+        case 'min':
+          min = Math.max(min, check.value);
+          break;
+        case 'max':
+          max = Math.min(max, check.value);
+          break;
+        case 'length':
+          min = check.value;
+          max = check.value;
+          break;
+      }
+    }
+
+    let text =
+      typeof hint === 'string' && hint.length > 0 ? hint : this.textFor(key);
+    while (text.length < min) {
+      text = `${text} ${this.words.say('sentence')}`;
+    }
+    if (text.length > max) {
+      const cut = text.slice(0, max);
+      const boundary = cut.lastIndexOf(' ');
+      text = boundary >= min && boundary > 0 ? cut.slice(0, boundary) : cut;
+    }
+    return text;
+  }
+
+  private synthesizeNumber(schema: z.ZodNumber, hint: unknown): number {
+    const checks = schema._def.checks;
+    const isInt = checks.some(check => check.kind === 'int');
+    const step = isInt ? 1 : 0.01;
+    let min = -Infinity;
+    let max = Infinity;
+
+    for (const check of checks) {
+      if (check.kind === 'min') {
+        min = check.inclusive ? check.value : check.value + step;
+      } else if (check.kind === 'max') {
+        max = check.inclusive ? check.value : check.value - step;
+      }
+    }
+
+    const lower = Number.isFinite(min)
+      ? min
+      : Number.isFinite(max)
+        ? max - 100
+        : 0;
+    const upper = Number.isFinite(max) ? max : lower + 100;
+    if (typeof hint === 'number' && Number.isFinite(hint)) {
+      const clamped = clamp(hint, lower, upper);
+      return isInt ? Math.round(clamped) : clamped;
+    }
+
+    if (isInt) {
+      return this.words.random.nextInt(Math.ceil(lower), Math.floor(upper));
+    }
+    return (
+      Math.round((lower + this.words.random.next() * (upper - lower)) * 100) /
+      100
+    );
+  }
+
+  /**
+   * Free text suited to a field, judged by its name
+   */
+  private textFor(key: string): string {
+    const field = key.toLowerCase();
+    if (field === 'id' || field.endsWith('id')) {
+      return this.words.random.uuid();
+    }
+    if (/name|speaker|title|author|leader/.test(field)) {
+      return this.words.say('fullName');
+    }
+    if (
+      /description|content|text|summary|narrative|story|response|message/.test(
+        field
+      )
+    ) {
+      return this.words.say('sentence');
+    }
+    if (/reason/.test(field)) {
+      return this.words.fill('Driven by #motivation#.');
+    }
+    return this.words.say('trait');
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// ============================================================================
+// OFFLINE CONTENT GENERATOR
+// ============================================================================
+
+export class OfflineContentGenerator {
+  private static instance: OfflineContentGenerator;
+
+  private constructor() {}
+
+  static getInstance(): OfflineContentGenerator {
+    if (!OfflineContentGenerator.instance) {
+      OfflineContentGenerator.instance = new OfflineContentGenerator();
+    }
+    return OfflineContentGenerator.instance;
+  }
+
+  /**
+   * Generate content for the template a prompt was built from
+   */
+  generate(prompt: string, context?: AIContext): OfflineContent {
+    const templateId = resolveTemplateId(prompt, context?.gameType);
+    const variables = extractTemplateVariables(prompt, templateId);
+    const words = this.createPhrasebook(prompt, templateId, variables);
+    const generated = TEMPLATE_GENERATORS[templateId](words, variables);
+
+    return {
+      templateId,
+      text: renderDocument(generated),
+      data: generated.data,
+    };
+  }
+
+  /**
+   * Produce a value that satisfies `schema`, seeded by the template content
+   */
+  generateStructured<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    context?: AIContext
+  ): T {
+    const content = this.generate(prompt, context);
+    const words = this.createPhrasebook(
+      `${prompt}:structured`,
+      content.templateId,
+      {}
+    );
+    const synthesizer = new SchemaSynthesizer(words);
+
+    return schema.parse(
+      synthesizer.synthesize(schema as z.ZodTypeAny, content.data, '')
+    );
+  }
+
+  private createPhrasebook(
+    seedText: string,
+    templateId: OfflineTemplateId,
+    variables: TemplateVariables
+  ): Phrasebook {
+    const gameType =
+      TEMPLATE_GAME_TYPES[templateId.split('_')[0] ?? ''] ?? 'rpg';
+    const overrides: Record<string, string[]> = {};
+    for (const rule of ['theme', 'biome', 'tone', 'setting', 'season']) {
+      const value = textVariable(variables, rule);
+      if (value) {
+        overrides[rule] = [value];
+      }
+    }
+
+    return new Phrasebook(
+      new SeededRandom(seedFromString(`${templateId}:${seedText}`)),
+      { ...SHARED_GRAMMAR, ...GAME_GRAMMARS[gameType], ...overrides }
+    );
+  }
+}
+
+/**
+ * Render generated sections as markdown followed by the JSON payload
+ */
+function renderDocument({ title, sections, data }: GeneratedTemplate): string {
+  const body = sections
+    .map(
+      section =>
+        `## ${section.heading}\n${section.lines.map(line => `- ${line}`).join('\n')}`
+    )
+    .join('\n\n');
+
+  return `# ${title}\n\n${body}\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+export const offlineGenerator = OfflineContentGenerator.getInstance();
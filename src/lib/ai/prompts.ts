@@ -1915,7 +1915,7 @@ Return as structured JSON with all details clearly organized.`,
     },
   },
 
-  NPC_DIALOGUE: {
+  VILLAGE_NPC_DIALOGUE: {
     id: 'village_npc_dialogue',
     name: 'Village NPC Dialogue',
     category: 'content_generation' as PromptCategory,
@@ -0,0 +1,127 @@
+/**
+ * Anthropic Provider
+ *
+ * Calls the Anthropic Messages API directly over fetch, so no vendor SDK is
+ * needed. Structured output is requested as JSON and validated locally.
+ */
+
+import { z } from 'zod';
+import { AIResponseMetadata, ModelTier } from '@/types/ai';
+import {
+  AIProvider,
+  AIProviderError,
+  ProviderRequest,
+  ProviderTextResult,
+  parseStructuredText,
+  postJson,
+  readServerSentEvents,
+  withSchemaInstructions,
+} from './types';
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+const TIER_MODELS: Record<ModelTier, string> = {
+  fast: 'claude-3-5-haiku-20241022',
+  balanced: 'claude-3-5-sonnet-20241022',
+  strong: 'claude-3-opus-20240229',
+};
+
+interface MessagesResponse {
+  readonly content: { readonly type: string; readonly text?: string }[];
+  readonly usage?: {
+    readonly input_tokens?: number;
+    readonly output_tokens?: number;
+  };
+  readonly stop_reason?: AIResponseMetadata['stopReason'] | null;
+}
+
+interface StreamEvent {
+  readonly type: string;
+  readonly delta?: { readonly type: string; readonly text?: string };
+  readonly error?: { readonly type: string; readonly message: string };
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly id = 'anthropic';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string = 'https://api.anthropic.com',
+    private readonly models: Record<ModelTier, string> = TIER_MODELS
+  ) {}
+
+  resolveModel(tier: ModelTier, requested?: string): string {
+    return requested?.startsWith('claude-') ? requested : this.models[tier];
+  }
+
+  async generateText(request: ProviderRequest): Promise<ProviderTextResult> {
+    const model = this.resolveModel(request.tier, request.model);
+    const response = await this.send(request, model, false);
+    const body = (await response.json()) as MessagesResponse;
+
+    return {
+      text: body.content
+        .map(block => (block.type === 'text' ? (block.text ?? '') : ''))
+        .join(''),
+      model,
+      promptTokens: body.usage?.input_tokens,
+      completionTokens: body.usage?.output_tokens,
+      stopReason: body.stop_reason ?? 'end_turn',
+    };
+  }
+
+  async *streamText(request: ProviderRequest): AsyncIterable<string> {
+    const model = this.resolveModel(request.tier, request.model);
+    const response = await this.send(request, model, true);
+
+    for await (const data of readServerSentEvents(this.id, response)) {
+      const event = JSON.parse(data) as StreamEvent;
+      if (event.type === 'content_block_delta' && event.delta?.text) {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new AIProviderError(
+          this.id,
+          event.error?.type === 'overloaded_error'
+            ? 'unavailable'
+            : 'invalid_response',
+          event.error?.message ?? 'Stream failed'
+        );
+      }
+    }
+  }
+
+  async generateObject<T>(
+    request: ProviderRequest,
+    schema: z.ZodSchema<T>
+  ): Promise<T> {
+    const { text } = await this.generateText({
+      ...request,
+      prompt: withSchemaInstructions(request.prompt, schema),
+    });
+    return parseStructuredText(this.id, text, schema);
+  }
+
+  private send(
+    request: ProviderRequest,
+    model: string,
+    stream: boolean
+  ): Promise<Response> {
+    return postJson(
+      this.id,
+      `${this.baseUrl}/v1/messages`,
+      {
+        model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream,
+      },
+      {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      request.timeoutMs
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Gemini Provider
+ *
+ * Google Gemini through the Vercel AI SDK. Legacy Claude model names passed
+ * by older callers are translated to their closest Gemini model.
+ */
+
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { generateObject, generateText, streamText } from 'ai';
+import { z } from 'zod';
+import { AIResponseMetadata, ModelTier } from '@/types/ai';
+import {
+  AIProvider,
+  ProviderRequest,
+  ProviderTextResult,
+  toProviderError,
+} from './types';
+
+// Map old Claude models to Gemini models
+const MODEL_MAPPING: Record<string, string> = {
+  'claude-3-5-sonnet-20241022': 'gemini-1.5-pro-latest',
+  'claude-3-5-haiku-20241022': 'gemini-1.5-flash',
+  'claude-3-opus-20240229': 'gemini-1.5-pro-latest',
+  'claude-3-sonnet-20240229': 'gemini-1.5-pro',
+  'claude-3-haiku-20240307': 'gemini-1.5-flash',
+};
+
+const TIER_MODELS: Record<ModelTier, string> = {
+  fast: 'gemini-1.5-flash',
+  balanced: 'gemini-1.5-pro-latest',
+  strong: 'gemini-1.5-pro-latest',
+};
+
+const STOP_REASONS: Record<string, AIResponseMetadata['stopReason']> = {
+  length: 'max_tokens',
+  'tool-calls': 'tool_use',
+};
+
+export class GeminiProvider implements AIProvider {
+  readonly id = 'gemini';
+  private readonly google: ReturnType<typeof createGoogleGenerativeAI>;
+
+  constructor(
+    apiKey: string,
+    private readonly models: Record<ModelTier, string> = TIER_MODELS
+  ) {
+    this.google = createGoogleGenerativeAI({ apiKey });
+  }
+
+  resolveModel(tier: ModelTier, requested?: string): string {
+    if (requested) {
+      return MODEL_MAPPING[requested] ?? requested;
+    }
+    return this.models[tier];
+  }
+
+  async generateText(request: ProviderRequest): Promise<ProviderTextResult> {
+    const model = this.resolveModel(request.tier, request.model);
+
+    try {
+      const { text, usage, finishReason } = await generateText(
+        this.callSettings(request, model)
+      );
+
+      return {
+        text,
+        model,
+        promptTokens: usage.inputTokens,
+        completionTokens: usage.outputTokens,
+        stopReason: STOP_REASONS[finishReason] ?? 'end_turn',
+      };
+    } catch (error) {
+      throw toProviderError(this.id, error);
+    }
+  }
+
+  async *streamText(request: ProviderRequest): AsyncIterable<string> {
+    const model = this.resolveModel(request.tier, request.model);
+    const { fullStream } = streamText(this.callSettings(request, model));
+
+    // textStream swallows errors, so read the full stream to surface them
+    try {
+      for await (const part of fullStream) {
+        if (part.type === 'text-delta') {
+          yield part.text;
+        } else if (part.type === 'error') {
+          throw part.error;
+        }
+      }
+    } catch (error) {
+      throw toProviderError(this.id, error);
+    }
+  }
+
+  async generateObject<T>(
+    request: ProviderRequest,
+    schema: z.ZodSchema<T>
+  ): Promise<T> {
+    const model = this.resolveModel(request.tier, request.model);
+
+    try {
+      const { object } = await generateObject({
+        ...this.callSettings(request, model),
+        schema: schema as z.ZodTypeAny,
+      });
+      return object as T;
+    } catch (error) {
+      throw toProviderError(this.id, error);
+    }
+  }
+
+  private callSettings(request: ProviderRequest, model: string) {
+    return {
+      model: this.google(model),
+      system: request.system,
+      prompt: request.prompt,
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature,
+      abortSignal: AbortSignal.timeout(request.timeoutMs),
+      maxRetries: 0, // The router fails over instead of retrying
+    };
+  }
+}
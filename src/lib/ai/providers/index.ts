@@ -0,0 +1,49 @@
+/**
+ * AI Provider Selection
+ *
+ * Builds the providers named by the AI provider configuration, in failover
+ * order. Providers without credentials are left out.
+ */
+
+import { AIProviderConfig } from '@/types/config';
+import { AIProvider } from './types';
+import { GeminiProvider } from './gemini';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+export function createAIProviders(config: AIProviderConfig): AIProvider[] {
+  return config.providers.flatMap((type): AIProvider[] => {
+    switch (type) {
+      case 'gemini':
+        return config.geminiApiKey
+          ? [new GeminiProvider(config.geminiApiKey)]
+          : [];
+      case 'anthropic':
+        return config.anthropicApiKey
+          ? [
+              new AnthropicProvider(
+                config.anthropicApiKey,
+                config.anthropicBaseUrl
+              ),
+            ]
+          : [];
+      case 'openai_compatible':
+        return config.localBaseUrl && config.localModel
+          ? [
+              new OpenAICompatibleProvider(
+                config.localBaseUrl,
+                config.localModel,
+                config.localApiKey
+              ),
+            ]
+          : [];
+    }
+  });
+}
+
+export * from './types';
+export * from './router';
+export { GeminiProvider } from './gemini';
+export { AnthropicProvider } from './anthropic';
+export { OpenAICompatibleProvider } from './openai-compatible';
+export { StubProvider } from './stub';
@@ -0,0 +1,127 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Any server exposing the /chat/completions API: a local model under Ollama,
+ * vLLM or LM Studio, or a hosted gateway. Local servers usually run a single
+ * model, so every tier maps to it unless configured otherwise.
+ */
+
+import { z } from 'zod';
+import { AIResponseMetadata, ModelTier } from '@/types/ai';
+import {
+  AIProvider,
+  ProviderRequest,
+  ProviderTextResult,
+  parseStructuredText,
+  postJson,
+  readServerSentEvents,
+  withSchemaInstructions,
+} from './types';
+
+interface ChatCompletionResponse {
+  readonly choices: {
+    readonly message?: { readonly content?: string | null };
+    readonly finish_reason?: string | null;
+  }[];
+  readonly usage?: {
+    readonly prompt_tokens?: number;
+    readonly completion_tokens?: number;
+  };
+}
+
+interface ChatCompletionChunk {
+  readonly choices?: { readonly delta?: { readonly content?: string } }[];
+}
+
+const STOP_REASONS: Record<string, AIResponseMetadata['stopReason']> = {
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+};
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly id = 'openai_compatible';
+  private readonly models: Record<ModelTier, string>;
+
+  constructor(
+    private readonly baseUrl: string,
+    model: string | Record<ModelTier, string>,
+    private readonly apiKey?: string
+  ) {
+    this.models =
+      typeof model === 'string'
+        ? { fast: model, balanced: model, strong: model }
+        : model;
+  }
+
+  resolveModel(tier: ModelTier): string {
+    // Requested models are vendor names this endpoint is unlikely to serve
+    return this.models[tier];
+  }
+
+  async generateText(request: ProviderRequest): Promise<ProviderTextResult> {
+    const model = this.resolveModel(request.tier);
+    const response = await this.send(request, model, false);
+    const body = (await response.json()) as ChatCompletionResponse;
+    const [choice] = body.choices;
+
+    return {
+      text: choice?.message?.content ?? '',
+      model,
+      promptTokens: body.usage?.prompt_tokens,
+      completionTokens: body.usage?.completion_tokens,
+      stopReason: STOP_REASONS[choice?.finish_reason ?? ''] ?? 'end_turn',
+    };
+  }
+
+  async *streamText(request: ProviderRequest): AsyncIterable<string> {
+    const model = this.resolveModel(request.tier);
+    const response = await this.send(request, model, true);
+
+    for await (const data of readServerSentEvents(this.id, response)) {
+      if (data === '[DONE]') {
+        return;
+      }
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  async generateObject<T>(
+    request: ProviderRequest,
+    schema: z.ZodSchema<T>
+  ): Promise<T> {
+    const { text } = await this.generateText({
+      ...request,
+      prompt: withSchemaInstructions(request.prompt, schema),
+    });
+    return parseStructuredText(this.id, text, schema);
+  }
+
+  private send(
+    request: ProviderRequest,
+    model: string,
+    stream: boolean
+  ): Promise<Response> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    return postJson(
+      this.id,
+      `${this.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream,
+      },
+      this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {},
+      request.timeoutMs
+    );
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Provider Router
+ *
+ * Picks a model tier and provider order for each request from its prompt
+ * category, then fails over to the next provider when one errors. Providers
+ * that hit rate limits or outages are cooled down so later requests skip
+ * them until they are likely to recover.
+ */
+
+import { z } from 'zod';
+import { AIModel, ModelTier, PromptCategory } from '@/types/ai';
+import { GameError } from '@/types/core';
+import {
+  AIProvider,
+  AIProviderError,
+  ProviderErrorKind,
+  ProviderRequest,
+  ProviderTextResult,
+  toProviderError,
+} from './types';
+
+// ============================================================================
+// ROUTING POLICY
+// ============================================================================
+
+export interface RouteRule {
+  readonly tier: ModelTier;
+  readonly providers?: readonly string[]; // Preferred order; others follow
+}
+
+export type RoutingPolicy = Partial<Record<PromptCategory, RouteRule>>;
+
+/**
+ * Short, frequent prompts go to the cheapest tier; prompts that shape a whole
+ * game go to the strongest. Unlisted categories use the balanced tier.
+ */
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  dialogue_generation: { tier: 'fast' },
+  npc_behavior: { tier: 'fast' },
+  description_enhancement: { tier: 'fast' },
+  world_generation: { tier: 'strong' },
+  role_generation: { tier: 'strong' },
+  balance_analysis: { tier: 'strong' },
+};
+
+const COOLDOWN_MS: Partial<Record<ProviderErrorKind, number>> = {
+  rate_limit: 60 * 1000,
+  unavailable: 15 * 1000,
+  timeout: 15 * 1000,
+  auth: 10 * 60 * 1000,
+};
+
+/**
+ * Tier implied by a legacy Claude model name
+ */
+export function tierForModel(model: AIModel | string): ModelTier {
+  if (model.includes('haiku') || model.includes('flash')) {
+    return 'fast';
+  }
+  return model.includes('opus') ? 'strong' : 'balanced';
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+export interface RoutedRequest extends Omit<ProviderRequest, 'tier'> {
+  readonly category?: PromptCategory;
+  readonly tier?: ModelTier;
+}
+
+export interface RoutedTextResult extends ProviderTextResult {
+  readonly providerId: string;
+}
+
+export interface RoutedStream {
+  readonly providerId: string;
+  readonly model: string;
+  readonly chunks: AsyncGenerator<string, void, unknown>;
+}
+
+interface FailedAttempt {
+  readonly provider: string;
+  readonly kind: ProviderErrorKind;
+  readonly message: string;
+}
+
+export class ProviderRouter {
+  private cooldowns = new Map<string, number>();
+
+  constructor(
+    private readonly providers: readonly AIProvider[],
+    private readonly policy: RoutingPolicy = DEFAULT_ROUTING_POLICY,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  hasProviders(): boolean {
+    return this.providers.length > 0;
+  }
+
+  /**
+   * An explicit tier wins, then the tier of an explicitly requested model,
+   * then the category's rule
+   */
+  resolveTier(request: RoutedRequest): ModelTier {
+    if (request.tier) {
+      return request.tier;
+    }
+    if (request.model) {
+      return tierForModel(request.model);
+    }
+    return (
+      (request.category && this.policy[request.category]?.tier) || 'balanced'
+    );
+  }
+
+  /**
+   * Providers in the order they will be tried. Cooling-down providers move to
+   * the back rather than being dropped, so a request still has a chance when
+   * every provider is cooling down.
+   */
+  candidates(category?: PromptCategory): AIProvider[] {
+    const preferred = (category && this.policy[category]?.providers) || [];
+    const rank = (provider: AIProvider) => {
+      const index = preferred.indexOf(provider.id);
+      return index === -1 ? preferred.length : index;
+    };
+    const ordered = [...this.providers].sort((a, b) => rank(a) - rank(b));
+    const now = this.now();
+    const ready = ordered.filter(p => (this.cooldowns.get(p.id) ?? 0) <= now);
+    const cooling = ordered.filter(p => !ready.includes(p));
+
+    return [...ready, ...cooling];
+  }
+
+  async generateText(request: RoutedRequest): Promise<RoutedTextResult> {
+    return this.route(request, async (provider, providerRequest) => ({
+      ...(await provider.generateText(providerRequest)),
+      providerId: provider.id,
+    }));
+  }
+
+  async generateObject<T>(
+    request: RoutedRequest,
+    schema: z.ZodSchema<T>
+  ): Promise<{ object: T; providerId: string; model: string }> {
+    return this.route(request, async (provider, providerRequest) => ({
+      object: await provider.generateObject(providerRequest, schema),
+      providerId: provider.id,
+      model: provider.resolveModel(providerRequest.tier, request.model),
+    }));
+  }
+
+  /**
+   * Resolves once a provider has produced its first chunk. Failures before
+   * then fail over; failures mid-stream reach the caller, since text has
+   * already been delivered.
+   */
+  async streamText(request: RoutedRequest): Promise<RoutedStream> {
+    return this.route(request, async (provider, providerRequest) => {
+      const iterator = provider
+        .streamText(providerRequest)
+        [Symbol.asyncIterator]();
+      const first = await iterator.next();
+
+      async function* chunks(): AsyncGenerator<string, void, unknown> {
+        if (first.done) {
+          return;
+        }
+        yield first.value;
+        for (;;) {
+          const next = await iterator.next();
+          if (next.done) {
+            return;
+          }
+          yield next.value;
+        }
+      }
+
+      return {
+        providerId: provider.id,
+        model: provider.resolveModel(providerRequest.tier, request.model),
+        chunks: chunks(),
+      };
+    });
+  }
+
+  /**
+   * Clear all cooldowns (useful for testing)
+   */
+  resetCooldowns(): void {
+    this.cooldowns.clear();
+  }
+
+  private async route<R>(
+    request: RoutedRequest,
+    call: (provider: AIProvider, request: ProviderRequest) => Promise<R>
+  ): Promise<R> {
+    const { category, ...rest } = request;
+    const providerRequest: ProviderRequest = {
+      ...rest,
+      tier: this.resolveTier(request),
+    };
+    const attempts: FailedAttempt[] = [];
+
+    for (const provider of this.candidates(category)) {
+      try {
+        const result = await call(provider, providerRequest);
+        this.cooldowns.delete(provider.id);
+        return result;
+      } catch (caught) {
+        const error = toProviderError(provider.id, caught);
+        this.coolDown(error);
+        attempts.push({
+          provider: provider.id,
+          kind: error.kind,
+          message: error.message,
+        });
+        console.warn(
+          `AI provider ${provider.id} failed (${error.kind}), trying next provider:`,
+          error.message
+        );
+      }
+    }
+
+    throw new GameError(
+      attempts.every(attempt => attempt.kind === 'rate_limit') &&
+      attempts.length > 0
+        ? 'RATE_LIMIT_EXCEEDED'
+        : 'AI_SERVICE_ERROR',
+      attempts.length > 0
+        ? `All AI providers failed: ${attempts
+            .map(attempt => `${attempt.provider} (${attempt.kind})`)
+            .join(', ')}`
+        : 'No AI providers are configured',
+      { attempts: attempts.map(attempt => ({ ...attempt })) }
+    );
+  }
+
+  private coolDown(error: AIProviderError): void {
+    const duration = error.retryAfterMs ?? COOLDOWN_MS[error.kind];
+    if (duration !== undefined) {
+      this.cooldowns.set(error.providerId, this.now() + duration);
+    }
+  }
+}
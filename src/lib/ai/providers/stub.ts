@@ -0,0 +1,82 @@
+/**
+ * Stub Provider
+ *
+ * Scripted provider for tests: answers with fixed text, or fails with queued
+ * errors, and records every request it receives.
+ */
+
+import { z } from 'zod';
+import { ModelTier } from '@/types/ai';
+import {
+  AIProvider,
+  AIProviderError,
+  ProviderRequest,
+  ProviderTextResult,
+  parseStructuredText,
+} from './types';
+
+export class StubProvider implements AIProvider {
+  readonly requests: ProviderRequest[] = [];
+  private failures: AIProviderError[] = [];
+
+  constructor(
+    readonly id: string,
+    private response: string = `Response from ${id}`
+  ) {}
+
+  /**
+   * Answer every later request with this text
+   */
+  respondWith(response: string): this {
+    this.response = response;
+    return this;
+  }
+
+  /**
+   * Fail the next request with an error of this kind
+   */
+  failNext(kind: AIProviderError['kind'], retryAfterMs?: number): this {
+    this.failures.push(
+      new AIProviderError(this.id, kind, `Stub ${kind}`, retryAfterMs)
+    );
+    return this;
+  }
+
+  resolveModel(tier: ModelTier, requested?: string): string {
+    return requested ?? `${this.id}-${tier}`;
+  }
+
+  async generateText(request: ProviderRequest): Promise<ProviderTextResult> {
+    this.record(request);
+    return {
+      text: this.response,
+      model: this.resolveModel(request.tier, request.model),
+      promptTokens: request.prompt.length,
+      completionTokens: this.response.length,
+      stopReason: 'end_turn',
+    };
+  }
+
+  async *streamText(request: ProviderRequest): AsyncIterable<string> {
+    this.record(request);
+    for (const word of this.response.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+
+  async generateObject<T>(
+    request: ProviderRequest,
+    schema: z.ZodSchema<T>
+  ): Promise<T> {
+    const { text } = await this.generateText(request);
+    return parseStructuredText(this.id, text, schema);
+  }
+
+  private record(request: ProviderRequest): void {
+    this.requests.push(request);
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+  }
+}
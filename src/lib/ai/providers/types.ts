@@ -0,0 +1,285 @@
+/**
+ * AI Provider Contracts
+ *
+ * GeminiService reaches model vendors only through these interfaces, so a
+ * request can be routed by prompt category and fail over between Gemini,
+ * Anthropic and any OpenAI-compatible endpoint such as a local model server.
+ */
+
+import { zodSchema } from 'ai';
+import { z } from 'zod';
+import { AIResponseMetadata, ModelTier } from '@/types/ai';
+
+// ============================================================================
+// PROVIDER REQUESTS AND RESULTS
+// ============================================================================
+
+export interface ProviderRequest {
+  readonly prompt: string;
+  readonly system?: string;
+  readonly tier: ModelTier;
+  readonly model?: string; // Explicitly requested model, if any
+  readonly maxTokens: number;
+  readonly temperature: number;
+  readonly timeoutMs: number;
+}
+
+export interface ProviderTextResult {
+  readonly text: string;
+  readonly model: string;
+  readonly promptTokens?: number;
+  readonly completionTokens?: number;
+  readonly stopReason: AIResponseMetadata['stopReason'];
+}
+
+export interface AIProvider {
+  readonly id: string;
+
+  /**
+   * Model used for a tier, honouring an explicit request where the provider
+   * serves that model
+   */
+  resolveModel(tier: ModelTier, requested?: string): string;
+
+  generateText(request: ProviderRequest): Promise<ProviderTextResult>;
+
+  /**
+   * Text chunks as they arrive. Errors before the first chunk allow the
+   * router to fail over; later errors reach the caller.
+   */
+  streamText(request: ProviderRequest): AsyncIterable<string>;
+
+  generateObject<T>(
+    request: ProviderRequest,
+    schema: z.ZodSchema<T>
+  ): Promise<T>;
+}
+
+// ============================================================================
+// PROVIDER ERRORS
+// ============================================================================
+
+/**
+ * rate_limit: throttled by the vendor (429)
+ * auth: missing or rejected credentials (401/403)
+ * unavailable: network failure or server error (5xx)
+ * timeout: no answer within the request timeout
+ * invalid_response: the answer could not be parsed or failed validation
+ * bad_request: the vendor rejected the request itself (other 4xx)
+ */
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'auth'
+  | 'unavailable'
+  | 'timeout'
+  | 'invalid_response'
+  | 'bad_request';
+
+export class AIProviderError extends Error {
+  constructor(
+    readonly providerId: string,
+    readonly kind: ProviderErrorKind,
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+const kindFromStatus = (status: number): ProviderErrorKind =>
+  status === 429
+    ? 'rate_limit'
+    : status === 401 || status === 403
+      ? 'auth'
+      : status === 408
+        ? 'timeout'
+        : status >= 500
+          ? 'unavailable'
+          : 'bad_request';
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify any error thrown while calling a provider. Vendor SDK errors carry
+ * a status code; fetch failures and aborts are recognised by name.
+ */
+export function toProviderError(
+  providerId: string,
+  error: unknown
+): AIProviderError {
+  if (error instanceof AIProviderError) {
+    return error;
+  }
+
+  const details = (error ?? {}) as {
+    statusCode?: number;
+    status?: number;
+    responseHeaders?: Record<string, string>;
+    name?: string;
+  };
+  const message = error instanceof Error ? error.message : String(error);
+  const status = details.statusCode ?? details.status;
+
+  if (typeof status === 'number') {
+    return new AIProviderError(
+      providerId,
+      kindFromStatus(status),
+      message,
+      parseRetryAfter(details.responseHeaders?.['retry-after'])
+    );
+  }
+  if (details.name === 'AbortError' || details.name === 'TimeoutError') {
+    return new AIProviderError(providerId, 'timeout', message);
+  }
+  if (/rate limit|quota/i.test(message)) {
+    return new AIProviderError(providerId, 'rate_limit', message);
+  }
+  if (/api key|unauthori[sz]ed/i.test(message)) {
+    return new AIProviderError(providerId, 'auth', message);
+  }
+  return new AIProviderError(providerId, 'unavailable', message);
+}
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/**
+ * POST JSON to a vendor endpoint, turning HTTP failures into provider errors
+ */
+export async function postJson(
+  providerId: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw toProviderError(providerId, error);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AIProviderError(
+      providerId,
+      kindFromStatus(response.status),
+      `${providerId} responded ${response.status}: ${detail.slice(0, 300)}`,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return response;
+}
+
+/**
+ * Yield the `data:` payloads of a server-sent event stream
+ */
+export async function* readServerSentEvents(
+  providerId: string,
+  response: Response
+): AsyncGenerator<string, void, unknown> {
+  if (!response.body) {
+    throw new AIProviderError(
+      providerId,
+      'invalid_response',
+      'Streaming response had no body'
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : (lines.pop() ?? '');
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Append JSON-only instructions for providers without native structured
+ * output
+ */
+export function withSchemaInstructions<T>(
+  prompt: string,
+  schema: z.ZodSchema<T>
+): string {
+  const jsonSchema = zodSchema(schema as z.ZodTypeAny).jsonSchema;
+  return `${prompt}\n\nRespond with only a JSON value, without commentary, that matches this JSON Schema:\n${JSON.stringify(jsonSchema)}`;
+}
+
+/**
+ * Validate a JSON answer from a provider without native structured output.
+ * Models often wrap JSON in prose or code fences, so the outermost object or
+ * array is extracted first.
+ */
+export function parseStructuredText<T>(
+  providerId: string,
+  text: string,
+  schema: z.ZodSchema<T>
+): T {
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(
+      start >= 0 && end > start ? text.slice(start, end + 1) : text
+    );
+  } catch {
+    throw new AIProviderError(
+      providerId,
+      'invalid_response',
+      'Response was not valid JSON'
+    );
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new AIProviderError(
+      providerId,
+      'invalid_response',
+      `Response did not match the schema: ${result.error.message}`
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for session tokens
+ * Tests signing, tamper detection, expiry and request binding
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  issueSessionToken,
+  verifySessionToken,
+  requireGameSession,
+  getSessionPlayerId,
+  getSessionErrorStatus,
+} from '../session-token';
+import { GameError } from '@/types/core';
+
+const createRequest = (token?: string, query = ''): Request =>
+  new Request(`http://localhost/api/games/test${query}`, {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+
+const captureError = (fn: () => unknown): GameError => {
+  try {
+    fn();
+  } catch (error) {
+    return error as GameError;
+  }
+  throw new Error('Expected an error to be thrown');
+};
+
+describe('Session tokens', () => {
+  const gameId = uuidv4();
+  const playerId = uuidv4();
+  const originalSecret = process.env.SESSION_TOKEN_SECRET;
+
+  beforeAll(() => {
+    process.env.SESSION_TOKEN_SECRET = 'test-secret-that-is-long-enough-1234';
+  });
+
+  afterAll(() => {
+    process.env.SESSION_TOKEN_SECRET = originalSecret;
+  });
+
+  test('round-trips claims through a signed token', () => {
+    const token = issueSessionToken({
+      playerId,
+      gameId,
+      playerName: 'Alice',
+      role: 'player',
+    });
+    const payload = verifySessionToken(token);
+
+    expect(payload).toMatchObject({
+      playerId,
+      gameId,
+      playerName: 'Alice',
+      role: 'player',
+    });
+    expect(payload.expiresAt).toBeGreaterThan(payload.issuedAt);
+  });
+
+  test('rejects tokens whose payload was altered', () => {
+    const token = issueSessionToken({ playerId, gameId, role: 'player' });
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({
+        playerId: uuidv4(),
+        gameId,
+        role: 'host',
+        issuedAt: 0,
+        expiresAt: 9999999999,
+      })
+    ).toString('base64url');
+
+    const error = captureError(() =>
+      verifySessionToken(`${forged}.${signature}`)
+    );
+    expect(error).toBeInstanceOf(GameError);
+    expect(error.code).toBe('AUTHENTICATION_ERROR');
+    expect(captureError(() => verifySessionToken('garbage')).code).toBe(
+      'AUTHENTICATION_ERROR'
+    );
+  });
+
+  test('rejects expired tokens', () => {
+    const token = issueSessionToken({ playerId, gameId, role: 'player' }, -1);
+
+    expect(captureError(() => verifySessionToken(token)).message).toBe(
+      'Session token has expired'
+    );
+  });
+
+  test('binds requests to the game the token was issued for', () => {
+    const token = issueSessionToken({ playerId, gameId, role: 'host' });
+
+    expect(requireGameSession(createRequest(token), gameId).playerId).toBe(
+      playerId
+    );
+
+    const wrongGame = captureError(() =>
+      requireGameSession(createRequest(token), uuidv4())
+    );
+    expect(wrongGame.code).toBe('PERMISSION_DENIED');
+    expect(getSessionErrorStatus(wrongGame)).toBe(403);
+
+    const missing = captureError(() =>
+      requireGameSession(createRequest(), gameId)
+    );
+    expect(getSessionErrorStatus(missing)).toBe(401);
+  });
+
+  test('resolves viewer identity from header or query token', () => {
+    const playerToken = issueSessionToken({ playerId, gameId, role: 'player' });
+    const spectatorToken = issueSessionToken({
+      playerId: uuidv4(),
+      gameId,
+      role: 'spectator',
+    });
+
+    expect(getSessionPlayerId(createRequest(), gameId)).toBeUndefined();
+    expect(
+      getSessionPlayerId(
+        createRequest(undefined, `?token=${playerToken}`),
+        gameId
+      )
+    ).toBe(playerId);
+    expect(
+      getSessionPlayerId(createRequest(spectatorToken), gameId)
+    ).toBeUndefined();
+  });
+});
@@ -19,6 +19,11 @@ import {
   addRateLimitHeaders,
 } from './rate-limiting';
 import { UUID, GameError, ErrorCode } from '@/types/core';
+import {
+  SessionRole,
+  SessionTokenPayload,
+  verifySessionToken,
+} from './session-token';
 
 // ============================================================================
 // REQUEST CONTEXT TYPES
@@ -43,8 +48,17 @@ export interface AuthenticatedRequest extends NextRequest {
     tier: 'free' | 'premium' | 'enterprise';
     permissions: string[];
   };
+  session?: SessionTokenPayload;
 }
 
+// Permissions granted to holders of a game session token; per-game checks
+// (such as host-only operations) are made by each route's conditions
+const SESSION_PERMISSIONS: Record<SessionRole, string[]> = {
+  host: ['game:read', 'game:play', 'game:delete'],
+  player: ['game:read', 'game:play'],
+  spectator: ['game:read'],
+};
+
 // ============================================================================
 // AUTHENTICATION MIDDLEWARE
 // ============================================================================
@@ -70,20 +84,19 @@ export async function authenticationMiddleware(req: NextRequest): Promise<{
   const authHeader = req.headers.get('authorization');
   const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
 
-  if (!token) {
-    // For now, allow unauthenticated access but mark as anonymous
-    //TODO: Implement proper session-based authentication for anonymous users
-    context.userId = (req.headers.get('x-user-id') as UUID) || undefined;
-  } else {
+  if (token) {
     try {
-      // Verify JWT token
-      //TODO: Implement proper JWT verification with Supabase integration
-      const user = await verifyAuthToken(token);
+      // Game session tokens are signed locally; fall back to account tokens
+      const session = verifySessionTokenOrNull(token);
+      const user = session
+        ? createSessionUser(session)
+        : await verifyAuthToken(token);
       context.userId = user.id;
 
       const authenticatedReq = req as AuthenticatedRequest;
       authenticatedReq.context = context;
       authenticatedReq.user = user;
+      authenticatedReq.session = session ?? undefined;
 
       return { request: authenticatedReq };
     } catch (error) {
@@ -104,6 +117,8 @@ export async function authenticationMiddleware(req: NextRequest): Promise<{
     }
   }
 
+  // Anonymous requests carry no identity; player ids are never taken from
+  // headers or bodies, only from verified tokens
   const authenticatedReq = req as AuthenticatedRequest;
   authenticatedReq.context = context;
 
@@ -264,7 +279,10 @@ export function createApiHandler<TRequest = any, TResponse = any>(
   } = {}
 ) {
   return function apiHandler(
-    handler: (req: AuthenticatedRequest, body: TRequest) => Promise<TResponse>
+    handler: (
+      req: AuthenticatedRequest,
+      body: TRequest
+    ) => Promise<TResponse | Response>
   ) {
     return async function (req: NextRequest): Promise<NextResponse> {
       const startTime = Date.now();
@@ -341,6 +359,12 @@ export function createApiHandler<TRequest = any, TResponse = any>(
           ? await Promise.race([handlerPromise, timeoutPromise])
           : await handlerPromise;
 
+        // Handlers that stream build their own response
+        if (result instanceof Response) {
+          logRequest(authenticatedReq, Date.now() - startTime, result.status);
+          return result as NextResponse;
+        }
+
         // 7. Create success response
         const response = createSuccessResponse(
           result,
@@ -441,12 +465,15 @@ function getStatusCodeFromErrorCode(code: ErrorCode): number {
     case 'INVALID_PHASE':
     case 'VALIDATION_ERROR':
       return 400;
+    case 'AUTHENTICATION_ERROR':
+      return 401;
     case 'PERMISSION_DENIED':
       return 403;
     case 'RATE_LIMIT_EXCEEDED':
       return 429;
     case 'GAME_FULL':
     case 'GAME_ENDED':
+    case 'STATE_CONFLICT':
       return 409;
     case 'AI_SERVICE_ERROR':
     case 'DATABASE_ERROR':
@@ -469,6 +496,30 @@ function isGameError(error: unknown): error is GameError {
 // AUTHENTICATION FUNCTIONS
 // ============================================================================
 
+/**
+ * Verify a game session token, returning null when the token is not one
+ * (e.g. an account token) so other verifiers can be tried
+ */
+function verifySessionTokenOrNull(token: string): SessionTokenPayload | null {
+  try {
+    return verifySessionToken(token);
+  } catch {
+    return null;
+  }
+}
+
+function createSessionUser(
+  session: SessionTokenPayload
+): NonNullable<AuthenticatedRequest['user']> {
+  return {
+    id: session.playerId,
+    name: session.playerName ?? 'Player',
+    email: '',
+    tier: 'free',
+    permissions: SESSION_PERMISSIONS[session.role],
+  };
+}
+
 async function verifyAuthToken(token: string): Promise<{
   id: UUID;
   name: string;
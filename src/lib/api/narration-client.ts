@@ -0,0 +1,69 @@
+/**
+ * Browser-side reader for streamed RPG action narration
+ *
+ * Narrated actions are posted with ?streaming=true and answer with
+ * Server-Sent Events. EventSource cannot POST, so the stream is read from
+ * the fetch response: `narration` events carry prose as it is generated and
+ * `complete` carries the final action result.
+ */
+
+/**
+ * Read an action response, reporting narration as it arrives. Actions that
+ * are not narrated answer with plain JSON, which is unwrapped the same way.
+ */
+export async function readActionResponse<TResult>(
+  response: Response,
+  onNarration: (text: string) => void
+): Promise<TResult> {
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    const body = await response.json();
+    return (body.data ?? body) as TResult;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const messages = buffer.split('\n\n');
+    buffer = done ? '' : (messages.pop() ?? '');
+
+    for (const message of messages) {
+      const { event, data } = parseMessage(message);
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'narration') {
+        onNarration(payload.text);
+      } else if (event === 'complete') {
+        await reader.cancel();
+        return payload as TResult;
+      } else if (event === 'error') {
+        throw new Error(payload.message || 'Narration failed');
+      }
+    }
+
+    if (done) {
+      throw new Error('Narration stream ended before the action completed');
+    }
+  }
+}
+
+function parseMessage(message: string): { event: string; data: string } {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of message.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trim());
+    }
+  }
+
+  return { event, data: data.join('\n') };
+}
@@ -69,6 +69,72 @@ export const RPGActionSchema = z.object({
   metadata: z.record(JSONValueSchema).optional(),
 });
 
+export const CombatTurnDataSchema = CombatActionSchema.shape.data.extend({
+  actionType: CombatActionSchema.shape.type,
+});
+
+export const DialogueActionDataSchema = z
+  .object({
+    npcId: UUIDSchema,
+    topic: z.string().min(1).max(100).optional(),
+    branch: z.string().min(1).max(100).optional(),
+    choice: z.number().int().min(0).optional(),
+    message: z.string().trim().min(1).max(500).optional(),
+  })
+  .refine(data => data.choice === undefined || data.message === undefined, {
+    message: 'Choose an option or say something, not both',
+  });
+
+export const ItemActionDataSchema = z.object({
+  itemId: UUIDSchema,
+});
+
+export const ReviveActionDataSchema = z.object({
+  targetId: UUIDSchema, // Player ID of the fallen ally
+  itemId: UUIDSchema.optional(),
+});
+
+export const RestActionDataSchema = z.object({
+  type: z.enum(['short', 'long']).default('short'),
+});
+
+const TradeTermsSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        itemId: UUIDSchema,
+        quantity: z.number().int().min(1).max(999),
+      })
+    )
+    .max(20)
+    .default([]),
+  currency: z.number().int().min(0).max(999999).default(0),
+});
+
+const ShopTradeSchema = z.object({
+  npcId: UUIDSchema,
+  itemId: UUIDSchema,
+  quantity: z.number().int().min(1).max(999).default(1),
+});
+
+const TradeOfferResponseSchema = z.object({
+  offerId: UUIDSchema,
+});
+
+export const TradeActionDataSchema = z.discriminatedUnion('kind', [
+  ShopTradeSchema.extend({ kind: z.literal('buy') }),
+  ShopTradeSchema.extend({ kind: z.literal('sell') }),
+  z.object({
+    kind: z.literal('offer'),
+    recipientId: UUIDSchema,
+    offer: TradeTermsSchema,
+    request: TradeTermsSchema,
+  }),
+  TradeOfferResponseSchema.extend({ kind: z.literal('accept') }),
+  TradeOfferResponseSchema.extend({ kind: z.literal('decline') }),
+  TradeOfferResponseSchema.extend({ kind: z.literal('cancel') }),
+]);
+
 export const JoinRPGGameSchema = z.object({
   playerId: UUIDSchema,
   characterData: z.object({
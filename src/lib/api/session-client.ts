@@ -0,0 +1,36 @@
+/**
+ * Browser-side storage for game session tokens
+ *
+ * Tokens are kept per game in sessionStorage so each tab can hold its own
+ * seat, and are attached to API calls as a bearer token.
+ */
+
+import { UUID } from '@/types/core';
+
+const storageKey = (gameId: UUID): string => `game_session:${gameId}`;
+
+export function storeSessionToken(gameId: UUID, token: string): void {
+  if (typeof window === 'undefined') return;
+  window.sessionStorage.setItem(storageKey(gameId), token);
+}
+
+export function getStoredSessionToken(gameId: UUID): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.sessionStorage.getItem(storageKey(gameId));
+}
+
+export function clearSessionToken(gameId: UUID): void {
+  if (typeof window === 'undefined') return;
+  window.sessionStorage.removeItem(storageKey(gameId));
+}
+
+/**
+ * Request headers carrying the stored session token for a game, if any
+ */
+export function getSessionHeaders(
+  gameId: UUID,
+  headers: Record<string, string> = {}
+): Record<string, string> {
+  const token = getStoredSessionToken(gameId);
+  return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+}
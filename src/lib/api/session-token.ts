@@ -0,0 +1,244 @@
+/**
+ * Session Tokens for Game Players
+ *
+ * Signed, self-contained tokens that bind a request to one player in one game.
+ * Tokens are issued when a player creates or joins a game and are verified
+ * with a local HMAC secret, so no external identity provider is required.
+ *
+ * Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256 signature)
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { GameError, UUID } from '@/types/core';
+
+// ============================================================================
+// SESSION TOKEN TYPES
+// ============================================================================
+
+/**
+ * host: created the game and may run host-only operations
+ * player: joined the game and may act as themselves
+ * spectator: may watch public information only
+ */
+export type SessionRole = 'host' | 'player' | 'spectator';
+
+export interface SessionClaims {
+  readonly playerId: UUID;
+  readonly gameId: UUID;
+  readonly playerName?: string;
+  readonly role: SessionRole;
+}
+
+export interface SessionTokenPayload extends SessionClaims {
+  readonly issuedAt: number; // seconds since epoch
+  readonly expiresAt: number; // seconds since epoch
+}
+
+const SessionTokenPayloadSchema = z.object({
+  playerId: z.string().uuid(),
+  gameId: z.string().uuid(),
+  playerName: z.string().optional(),
+  role: z.enum(['host', 'player', 'spectator']),
+  issuedAt: z.number().int(),
+  expiresAt: z.number().int(),
+});
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const SESSION_TOKEN_CONFIG = {
+  DEFAULT_TTL_SECONDS: 7 * 24 * 60 * 60, // Matches the game state TTL
+  SECRET_ENV_VARS: ['SESSION_TOKEN_SECRET', 'NEXTAUTH_SECRET'],
+  MIN_SECRET_LENGTH: 32,
+} as const;
+
+let developmentSecret: string | undefined;
+
+/**
+ * Resolve the signing secret. Outside production a per-process secret is
+ * generated when none is configured, so tokens stop working on restart.
+ */
+function getSessionSecret(): string {
+  for (const name of SESSION_TOKEN_CONFIG.SECRET_ENV_VARS) {
+    const secret = process.env[name];
+    if (secret && secret.length >= SESSION_TOKEN_CONFIG.MIN_SECRET_LENGTH) {
+      return secret;
+    }
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new GameError(
+      'AUTHENTICATION_ERROR',
+      `SESSION_TOKEN_SECRET must be set to at least ${SESSION_TOKEN_CONFIG.MIN_SECRET_LENGTH} characters`
+    );
+  }
+
+  if (!developmentSecret) {
+    console.warn(
+      'SESSION_TOKEN_SECRET is not set; using a temporary secret for this process'
+    );
+    developmentSecret = randomBytes(32).toString('hex');
+  }
+  return developmentSecret;
+}
+
+// ============================================================================
+// TOKEN ISSUING AND VERIFICATION
+// ============================================================================
+
+const sign = (encodedPayload: string): string =>
+  createHmac('sha256', getSessionSecret())
+    .update(encodedPayload)
+    .digest('base64url');
+
+/**
+ * Issue a signed session token for a player in a game
+ */
+export function issueSessionToken(
+  claims: SessionClaims,
+  ttlSeconds: number = SESSION_TOKEN_CONFIG.DEFAULT_TTL_SECONDS
+): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload: SessionTokenPayload = {
+    ...claims,
+    issuedAt,
+    expiresAt: issuedAt + ttlSeconds,
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    'base64url'
+  );
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry and return its payload
+ */
+export function verifySessionToken(token: string): SessionTokenPayload {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    throw new GameError('AUTHENTICATION_ERROR', 'Malformed session token');
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new GameError('AUTHENTICATION_ERROR', 'Invalid session token');
+  }
+
+  let payload: SessionTokenPayload;
+  try {
+    payload = SessionTokenPayloadSchema.parse(
+      JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'))
+    );
+  } catch {
+    throw new GameError('AUTHENTICATION_ERROR', 'Malformed session token');
+  }
+
+  if (payload.expiresAt <= Math.floor(Date.now() / 1000)) {
+    throw new GameError('AUTHENTICATION_ERROR', 'Session token has expired', {
+      gameId: payload.gameId,
+      playerId: payload.playerId,
+    });
+  }
+
+  return payload;
+}
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+/**
+ * Read the bearer token from a request. EventSource cannot send headers, so
+ * a `token` query parameter is accepted as well.
+ */
+export function getSessionTokenFromRequest(request: Request): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.slice(7);
+  }
+
+  return new URL(request.url).searchParams.get('token');
+}
+
+/**
+ * Verify the request's session token, if it carries one.
+ * Returns null for anonymous requests; throws for invalid tokens.
+ */
+export function getRequestSession(
+  request: Request
+): SessionTokenPayload | null {
+  const token = getSessionTokenFromRequest(request);
+  return token ? verifySessionToken(token) : null;
+}
+
+/**
+ * Require a valid session for the given game
+ */
+export function requireGameSession(
+  request: Request,
+  gameId: UUID
+): SessionTokenPayload {
+  const session = getRequestSession(request);
+  if (!session) {
+    throw new GameError('AUTHENTICATION_ERROR', 'Session token required', {
+      gameId,
+    });
+  }
+
+  if (session.gameId !== gameId) {
+    throw new GameError(
+      'PERMISSION_DENIED',
+      'Session token was issued for a different game',
+      { gameId, playerId: session.playerId }
+    );
+  }
+
+  return session;
+}
+
+/**
+ * Resolve which player a request views a game as. Anonymous requests and
+ * spectator tokens carry no player identity.
+ */
+export function getSessionPlayerId(
+  request: Request,
+  gameId: UUID
+): UUID | undefined {
+  const session = getRequestSession(request);
+  if (!session) {
+    return undefined;
+  }
+
+  if (session.gameId !== gameId) {
+    throw new GameError(
+      'PERMISSION_DENIED',
+      'Session token was issued for a different game',
+      { gameId, playerId: session.playerId }
+    );
+  }
+
+  return session.role === 'spectator' ? undefined : session.playerId;
+}
+
+/**
+ * Check whether an error came from session verification
+ */
+export function isSessionError(error: unknown): error is GameError {
+  return (
+    error instanceof GameError &&
+    (error.code === 'AUTHENTICATION_ERROR' ||
+      error.code === 'PERMISSION_DENIED')
+  );
+}
+
+/**
+ * Map session errors onto HTTP status codes for routes that build their own
+ * responses
+ */
+export function getSessionErrorStatus(error: GameError): number {
+  return error.code === 'AUTHENTICATION_ERROR' ? 401 : 403;
+}
@@ -0,0 +1,297 @@
+/**
+ * Unit tests for storage drivers
+ * Runs the same KV and blob contract against the memory and filesystem
+ * drivers, and checks KVService and BlobService on top of them
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  StorageDriver,
+  BlobStorageDriver,
+  MemoryStorageDriver,
+  MemoryBlobDriver,
+  FileSystemStorageDriver,
+  FileSystemBlobDriver,
+  createStorageDriver,
+  matchesKeyPattern,
+} from '../drivers';
+import { kvService } from '../kv-service';
+import { blobService } from '../blob-service';
+import { resolveStorageConfig } from '@/types/config';
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rpgai-storage-'));
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const kvDrivers: Array<[string, () => StorageDriver]> = [
+  ['memory', () => new MemoryStorageDriver()],
+  ['filesystem', () => new FileSystemStorageDriver(dataDir)],
+];
+
+const blobDrivers: Array<[string, () => BlobStorageDriver]> = [
+  ['memory', () => new MemoryBlobDriver()],
+  ['filesystem', () => new FileSystemBlobDriver(dataDir)],
+];
+
+describe.each(kvDrivers)('%s storage driver', (_name, createDriver) => {
+  test('round-trips values through JSON', async () => {
+    const driver = createDriver();
+    const when = new Date('2024-01-01T00:00:00.000Z');
+
+    await driver.set('game:1', { round: 2, when, tags: ['a'] });
+
+    expect(await driver.get('game:1')).toEqual({
+      round: 2,
+      when: when.toISOString(),
+      tags: ['a'],
+    });
+    expect(await driver.get('game:missing')).toBeNull();
+  });
+
+  test('deletes keys and reports whether they existed', async () => {
+    const driver = createDriver();
+    await driver.set('game:1', 1);
+
+    expect(await driver.exists('game:1')).toBe(true);
+    expect(await driver.delete('game:1')).toBe(true);
+    expect(await driver.delete('game:1')).toBe(false);
+    expect(await driver.exists('game:1')).toBe(false);
+  });
+
+  test('expires keys after their TTL', async () => {
+    const driver = createDriver();
+    jest.useFakeTimers({ now: Date.now(), doNotFake: ['setImmediate'] });
+
+    await driver.set('session:1', 'a', 60);
+    await driver.set('session:2', 'b');
+    expect(await driver.ttl('session:1')).toBe(60);
+    expect(await driver.ttl('session:2')).toBe(-1);
+    expect(await driver.expire('session:2', 10)).toBe(true);
+
+    jest.setSystemTime(Date.now() + 61_000);
+
+    expect(await driver.get('session:1')).toBeNull();
+    expect(await driver.ttl('session:1')).toBe(-2);
+    expect(await driver.exists('session:2')).toBe(false);
+    expect(await driver.expire('session:1', 10)).toBe(false);
+  });
+
+  test('runs batches in order', async () => {
+    const driver = createDriver();
+
+    const results = await driver.batch([
+      { operation: 'set', key: 'a', value: { n: 1 } },
+      { operation: 'get', key: 'a' },
+      { operation: 'exists', key: 'b' },
+      { operation: 'del', key: 'a' },
+    ]);
+
+    expect(results).toEqual(['OK', { n: 1 }, 0, 1]);
+  });
+
+  test('scans keys by glob pattern', async () => {
+    const driver = createDriver();
+    await driver.set('game:1', 1);
+    await driver.set('game:2', 2);
+    await driver.set('player:1', 3);
+
+    expect((await driver.scan('game:*')).sort()).toEqual(['game:1', 'game:2']);
+    expect(await driver.scan('player:?')).toEqual(['player:1']);
+    expect(await driver.scan('*')).toHaveLength(3);
+  });
+
+  test('sets a key only when it is absent', async () => {
+    const driver = createDriver();
+
+    expect(await driver.setIfAbsent('game_lock:1', { owner: 'a' }, 30)).toBe(
+      true
+    );
+    expect(await driver.setIfAbsent('game_lock:1', { owner: 'b' }, 30)).toBe(
+      false
+    );
+    expect(await driver.get('game_lock:1')).toEqual({ owner: 'a' });
+    expect(await driver.ttl('game_lock:1')).toBe(30);
+  });
+
+  test('swaps values only while they match the expected value', async () => {
+    const driver = createDriver();
+    const when = new Date('2024-01-01T00:00:00.000Z');
+
+    expect(await driver.compareAndSwap('state', null, { v: 1, when })).toBe(
+      true
+    );
+    expect(await driver.compareAndSwap('state', null, { v: 9 })).toBe(false);
+
+    // Values read back from the driver are what it compares against
+    const stored = await driver.get('state');
+    expect(await driver.compareAndSwap('state', stored, { v: 2 })).toBe(true);
+    expect(await driver.compareAndSwap('state', stored, { v: 3 })).toBe(false);
+    expect(await driver.get('state')).toEqual({ v: 2 });
+  });
+
+  test('lets exactly one concurrent swap win', async () => {
+    const driver = createDriver();
+    await driver.set('state', { v: 1 });
+
+    const results = await Promise.all(
+      [2, 3, 4, 5].map(v => driver.compareAndSwap('state', { v: 1 }, { v }))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  test('deletes a key only while it matches the expected value', async () => {
+    const driver = createDriver();
+    await driver.set('game_lock:1', { lockId: 'a' });
+
+    expect(await driver.deleteIfEquals('game_lock:1', { lockId: 'b' })).toBe(
+      false
+    );
+    expect(await driver.deleteIfEquals('game_lock:1', { lockId: 'a' })).toBe(
+      true
+    );
+    expect(await driver.exists('game_lock:1')).toBe(false);
+    expect(await driver.deleteIfEquals('game_lock:1', { lockId: 'a' })).toBe(
+      false
+    );
+  });
+});
+
+describe.each(blobDrivers)('%s blob driver', (_name, createDriver) => {
+  test('stores, lists and deletes blobs', async () => {
+    const driver = createDriver();
+
+    const stored = await driver.put('images/map.png', Buffer.from('png'), {
+      contentType: 'image/png',
+    });
+    await driver.put('audio/theme.mp3', 'mp3');
+
+    expect(stored).toMatchObject({
+      pathname: 'images/map.png',
+      size: 3,
+      contentType: 'image/png',
+    });
+    expect((await driver.head(stored.url))?.pathname).toBe('images/map.png');
+
+    const listed = await driver.list({ prefix: 'images/' });
+    expect(listed.blobs.map(blob => blob.pathname)).toEqual(['images/map.png']);
+
+    const firstPage = await driver.list({ limit: 1 });
+    expect(firstPage.hasMore).toBe(true);
+    const secondPage = await driver.list({
+      limit: 1,
+      cursor: firstPage.cursor,
+    });
+    expect(secondPage.blobs[0]?.pathname).toBe('images/map.png');
+
+    await driver.delete(stored.url);
+    expect(await driver.head(stored.url)).toBeNull();
+  });
+});
+
+describe('FileSystemStorageDriver', () => {
+  test('persists data across driver instances', async () => {
+    await new FileSystemStorageDriver(dataDir).set('game:1', { round: 3 });
+
+    expect(await new FileSystemStorageDriver(dataDir).get('game:1')).toEqual({
+      round: 3,
+    });
+  });
+
+  test('stores keys too long for a file name', async () => {
+    const driver = new FileSystemStorageDriver(dataDir);
+    const key = `game:${'x'.repeat(300)}`;
+    await driver.set(key, { round: 1 });
+
+    expect(await driver.get(key)).toEqual({ round: 1 });
+    expect(await driver.scan('game:*')).toEqual([key]);
+  });
+
+  test('keeps every write when one key is written concurrently', async () => {
+    const driver = new FileSystemStorageDriver(dataDir);
+    await Promise.all(
+      Array.from({ length: 10 }, (_, round) => driver.set('game:1', { round }))
+    );
+
+    expect(await driver.get('game:1')).toEqual({
+      round: expect.any(Number),
+    });
+  });
+
+  test('refuses blob paths outside its directory', async () => {
+    await expect(
+      new FileSystemBlobDriver(dataDir).put('../escape.txt', 'x')
+    ).rejects.toThrow('escapes the storage directory');
+  });
+});
+
+describe('storage configuration', () => {
+  test('selects drivers from the environment', () => {
+    expect(resolveStorageConfig({ NODE_ENV: 'test' }).kvDriver).toBe('memory');
+    expect(resolveStorageConfig({ NODE_ENV: 'development' })).toMatchObject({
+      kvDriver: 'filesystem',
+      blobDriver: 'filesystem',
+      dataDir: '.data',
+    });
+    expect(
+      resolveStorageConfig({
+        KV_REST_API_URL: 'https://kv.example.com',
+        KV_REST_API_TOKEN: 'token',
+      })
+    ).toMatchObject({ kvDriver: 'vercel', blobDriver: 'filesystem' });
+    expect(
+      resolveStorageConfig({ STORAGE_DRIVER: 'filesystem', NODE_ENV: 'test' })
+        .kvDriver
+    ).toBe('filesystem');
+  });
+
+  test('builds the configured driver', () => {
+    expect(
+      createStorageDriver({
+        kvDriver: 'filesystem',
+        blobDriver: 'memory',
+        dataDir,
+      }).type
+    ).toBe('filesystem');
+  });
+
+  test('matches Redis glob patterns literally otherwise', () => {
+    expect(matchesKeyPattern('game.1', 'game.1')).toBe(true);
+    expect(matchesKeyPattern('gameX1', 'game.1')).toBe(false);
+  });
+});
+
+describe('services on a storage driver', () => {
+  test('KVService reads and writes through its driver', async () => {
+    kvService.useDriver(new FileSystemStorageDriver(dataDir));
+
+    await kvService.set('game:1', { round: 1 }, 60);
+    expect((await kvService.get('game:1')).data).toEqual({ round: 1 });
+    expect((await kvService.scan('game:*')).data).toEqual(['game:1']);
+    expect((await kvService.delete('game:1')).data).toBe(true);
+  });
+
+  test('BlobService indexes uploads and deletes them by asset id', async () => {
+    kvService.useDriver(new MemoryStorageDriver());
+    blobService.useDriver(new MemoryBlobDriver());
+
+    const upload = await blobService.uploadFile('map.png', Buffer.from('png'));
+    expect(upload.success).toBe(true);
+    expect(upload.data?.url).toMatch(/^memory:\/\/blob\/.*-map\.png$/);
+
+    const listed = await blobService.listFiles();
+    expect(listed.data?.map(asset => asset.id)).toEqual([upload.data?.id]);
+
+    expect((await blobService.deleteFile(upload.data!.id)).success).toBe(true);
+    expect((await blobService.listFiles()).data).toEqual([]);
+  });
+});
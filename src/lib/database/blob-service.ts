@@ -1,13 +1,18 @@
 /**
- * Vercel Blob Service - Asset storage and management layer
+ * Blob Service - Asset storage and management layer
  *
  * Handles storage of generated images, audio files, and other game assets
- * Provides optimized upload/download patterns and CDN integration
+ * on a pluggable BlobStorageDriver (Vercel Blob, local filesystem or memory)
  */
 
-import { put, del, head, list } from '@vercel/blob';
-import { AssetReference, KVResult, GameType } from '@/types';
+import {
+  AssetReference,
+  KVResult,
+  GameType,
+  resolveStorageConfig,
+} from '@/types';
 import { kvService } from './kv-service';
+import { BlobStorageDriver, createBlobDriver } from './drivers';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============================================================================
@@ -27,14 +32,21 @@ interface BlobListOptions {
   cursor?: string;
 }
 
+// Stored filenames look like `${timestamp}-${assetId}-${originalName}`
+const ASSET_ID_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
 // ============================================================================
 // BLOB SERVICE CLASS
 // ============================================================================
 
 export class BlobService {
   private static instance: BlobService;
+  private driver: BlobStorageDriver;
 
-  private constructor() {}
+  private constructor() {
+    this.driver = createBlobDriver(resolveStorageConfig());
+  }
 
   static getInstance(): BlobService {
     if (!BlobService.instance) {
@@ -43,12 +55,23 @@ export class BlobService {
     return BlobService.instance;
   }
 
+  /**
+   * Swap the blob driver, e.g. for an in-memory driver in tests
+   */
+  useDriver(driver: BlobStorageDriver): void {
+    this.driver = driver;
+  }
+
+  getDriver(): BlobStorageDriver {
+    return this.driver;
+  }
+
   // ============================================================================
   // CORE BLOB OPERATIONS
   // ============================================================================
 
   /**
-   * Upload a file to Vercel Blob storage
+   * Upload a file to blob storage
    */
   async uploadFile(
     filename: string,
@@ -62,9 +85,11 @@ export class BlobService {
       // Create a unique filename with timestamp and asset ID
       const uniqueFilename = `${timestamp}-${assetId}-${filename}`;
 
-      const blob = await put(uniqueFilename, data, {
+      const contentType =
+        options.contentType || this.inferContentType(filename);
+      const blob = await this.driver.put(uniqueFilename, data, {
         access: options.access || 'public',
-        addRandomSuffix: false, // We're already adding our own unique suffix
+        contentType,
       });
 
       // Create asset reference
@@ -74,7 +99,7 @@ export class BlobService {
         url: blob.url,
         filename: uniqueFilename,
         size: blob.size,
-        contentType: options.contentType || this.inferContentType(filename),
+        contentType,
         uploadedAt: new Date(),
         uploadedBy: 'system', // This could be enhanced to track actual user
         tags: [],
@@ -100,7 +125,7 @@ export class BlobService {
   }
 
   /**
-   * Delete a file from Vercel Blob storage
+   * Delete a file from blob storage
    */
   async deleteFile(assetId: string): Promise<KVResult<boolean>> {
     try {
@@ -117,7 +142,7 @@ export class BlobService {
       const asset = assetResult.data;
 
       // Delete from blob storage
-      await del(asset.url);
+      await this.driver.delete(asset.url);
 
       // Remove asset reference from KV
       await kvService.delete(`asset:${assetId}`);
@@ -137,7 +162,7 @@ export class BlobService {
   }
 
   /**
-   * Get file metadata from Vercel Blob storage
+   * Get file metadata from blob storage
    */
   async getFileInfo(
     url: string
@@ -145,7 +170,14 @@ export class BlobService {
     KVResult<{ size: number; uploadedAt: Date; contentType: string }>
   > {
     try {
-      const info = await head(url);
+      const info = await this.driver.head(url);
+      if (!info) {
+        return {
+          success: false,
+          error: `File not found: ${url}`,
+          timestamp: new Date(),
+        };
+      }
 
       return {
         success: true,
@@ -172,7 +204,7 @@ export class BlobService {
     options: BlobListOptions = {}
   ): Promise<KVResult<AssetReference[]>> {
     try {
-      const blobs = await list({
+      const blobs = await this.driver.list({
         prefix: options.prefix,
         limit: options.limit || 100,
         cursor: options.cursor,
@@ -183,9 +215,8 @@ export class BlobService {
 
       for (const blob of blobs.blobs) {
         // Extract asset ID from filename (format: timestamp-assetId-originalname)
-        const parts = blob.pathname.split('-');
-        if (parts.length >= 3) {
-          const assetId = parts[1];
+        const assetId = blob.pathname.match(ASSET_ID_PATTERN)?.[0];
+        if (assetId) {
           const assetResult = await kvService.getAssetReference(assetId);
           if (assetResult.success && assetResult.data) {
             assetReferences.push(assetResult.data);
@@ -0,0 +1,416 @@
+/**
+ * Filesystem Storage Drivers
+ *
+ * Persists KV entries as one JSON file per key and blobs as plain files
+ * under the configured data directory, so the app can be self-hosted
+ * without any external services. Writes go through a temp file and rename
+ * so a crash never leaves a half-written value behind. Conditional writes
+ * hold an exclusive lock file per key, so they stay atomic across processes
+ * sharing the data directory. Names too long for the filesystem are stored
+ * under a hash of the key, with the key itself kept inside the file.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+import {
+  StorageDriver,
+  BlobStorageDriver,
+  KVBatchOperation,
+  BlobData,
+  BlobPutOptions,
+  BlobListOptions,
+  BlobListResult,
+  StoredBlob,
+  matchesKeyPattern,
+  toStoredJson,
+  toBuffer,
+  paginateBlobs,
+} from './types';
+
+interface FileEntry {
+  readonly key?: string; // Set when the file name is a hash of the key
+  readonly value: unknown;
+  readonly expiresAt?: number; // epoch ms
+}
+
+// Most filesystems cap a file name at 255 bytes
+const MAX_FILE_NAME_LENGTH = 200;
+const HASHED_NAME_PREFIX = '~';
+
+/**
+ * Map a key to a file name, hashing keys whose encoded form is too long.
+ * '~' is never produced by encodeURIComponent, so hashed names can't clash.
+ */
+function toFileName(key: string): string {
+  const encoded = encodeURIComponent(key);
+  return encoded.length > MAX_FILE_NAME_LENGTH
+    ? `${HASHED_NAME_PREFIX}${createHash('sha256').update(key).digest('hex')}`
+    : encoded;
+}
+
+const isHashedFileName = (name: string): boolean =>
+  name.startsWith(HASHED_NAME_PREFIX);
+
+const isMissingFile = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+}
+
+async function writeFileAtomic(
+  file: string,
+  contents: string | Buffer
+): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, contents);
+  await fs.rename(temp, file);
+}
+
+async function removeFile(file: string): Promise<boolean> {
+  try {
+    await fs.unlink(file);
+    return true;
+  } catch (error) {
+    if (isMissingFile(error)) return false;
+    throw error;
+  }
+}
+
+// ============================================================================
+// KEY-VALUE DRIVER
+// ============================================================================
+
+const KV_FILE_SUFFIX = '.json';
+const KV_LOCK_SUFFIX = '.lock';
+const KV_LOCK_RETRY_MS = 5;
+const KV_LOCK_STALE_MS = 10000; // Locks older than this were left by a crash
+
+export class FileSystemStorageDriver implements StorageDriver {
+  readonly type = 'filesystem' as const;
+  private readonly directory: string;
+
+  constructor(dataDir: string) {
+    this.directory = path.resolve(dataDir, 'kv');
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const entry = await this.readEntry(key);
+    return entry ? (entry.value as T) : null;
+  }
+
+  async set<T = unknown>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<void> {
+    await this.withKeyLock(key, () => this.writeEntry(key, value, ttlSeconds));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.withKeyLock(key, async () => {
+      const entry = await this.readEntry(key);
+      return !!entry && removeFile(this.keyToFile(key));
+    });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return !!(await this.readEntry(key));
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    return this.withKeyLock(key, async () => {
+      const entry = await this.readEntry(key);
+      if (!entry) {
+        return false;
+      }
+      await writeFileAtomic(
+        this.keyToFile(key),
+        JSON.stringify({ ...entry, expiresAt: Date.now() + seconds * 1000 })
+      );
+      return true;
+    });
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = await this.readEntry(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async batch(operations: KVBatchOperation[]): Promise<unknown[]> {
+    const results: unknown[] = [];
+    for (const op of operations) {
+      switch (op.operation) {
+        case 'get':
+          results.push(await this.get(op.key));
+          break;
+        case 'set':
+          await this.set(op.key, op.value, op.ttl);
+          results.push('OK');
+          break;
+        case 'del':
+          results.push((await this.delete(op.key)) ? 1 : 0);
+          break;
+        case 'exists':
+          results.push((await this.exists(op.key)) ? 1 : 0);
+          break;
+      }
+    }
+    return results;
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isMissingFile(error)) return [];
+      throw error;
+    }
+
+    const names = files
+      .filter(file => file.endsWith(KV_FILE_SUFFIX))
+      .map(file => file.slice(0, -KV_FILE_SUFFIX.length));
+
+    // Hashed names only reveal their key once the entry is read
+    const hashedKeys = await Promise.all(
+      names.filter(isHashedFileName).map(async name => {
+        const entry = await readJsonFile<FileEntry>(
+          path.join(this.directory, `${name}${KV_FILE_SUFFIX}`)
+        );
+        return entry?.key;
+      })
+    );
+    const keys = [
+      ...names
+        .filter(name => !isHashedFileName(name))
+        .map(name => decodeURIComponent(name)),
+      ...hashedKeys.filter((key): key is string => key !== undefined),
+    ].filter(key => matchesKeyPattern(key, pattern));
+
+    // Reading each entry also sweeps out the expired ones
+    const live = await Promise.all(keys.map(key => this.readEntry(key)));
+    return keys.filter((_, index) => !!live[index]);
+  }
+
+  async setIfAbsent<T = unknown>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return this.withKeyLock(key, async () => {
+      if (await this.readEntry(key)) {
+        return false;
+      }
+      await this.writeEntry(key, value, ttlSeconds);
+      return true;
+    });
+  }
+
+  async compareAndSwap<T = unknown>(
+    key: string,
+    expected: unknown,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return this.withKeyLock(key, async () => {
+      const entry = await this.readEntry(key);
+      if (toStoredJson(entry?.value) !== toStoredJson(expected)) {
+        return false;
+      }
+      await this.writeEntry(key, value, ttlSeconds);
+      return true;
+    });
+  }
+
+  async deleteIfEquals(key: string, expected: unknown): Promise<boolean> {
+    return this.withKeyLock(key, async () => {
+      const entry = await this.readEntry(key);
+      if (!entry || toStoredJson(entry.value) !== toStoredJson(expected)) {
+        return false;
+      }
+      return removeFile(this.keyToFile(key));
+    });
+  }
+
+  /**
+   * Run a read-modify-write while holding the key's lock file.
+   * Opening with 'wx' fails when the file exists, which makes it a mutex.
+   */
+  private async withKeyLock<T>(
+    key: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const lockFile = `${this.keyToFile(key)}${KV_LOCK_SUFFIX}`;
+    await fs.mkdir(this.directory, { recursive: true });
+
+    for (;;) {
+      try {
+        await (await fs.open(lockFile, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code !== 'EEXIST') {
+          throw error;
+        }
+        const stat = await fs.stat(lockFile).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > KV_LOCK_STALE_MS) {
+          await removeFile(lockFile);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, KV_LOCK_RETRY_MS));
+        }
+      }
+    }
+
+    try {
+      return await operation();
+    } finally {
+      await removeFile(lockFile);
+    }
+  }
+
+  private keyToFile(key: string): string {
+    return path.join(this.directory, `${toFileName(key)}${KV_FILE_SUFFIX}`);
+  }
+
+  /** Write an entry; callers must hold the key's lock */
+  private async writeEntry(
+    key: string,
+    value: unknown,
+    ttlSeconds?: number
+  ): Promise<void> {
+    // Round-trip through JSON so stored values match what a reader gets back
+    const entry: FileEntry = {
+      key: isHashedFileName(toFileName(key)) ? key : undefined,
+      value: JSON.parse(JSON.stringify(value ?? null)),
+      expiresAt:
+        ttlSeconds && ttlSeconds > 0
+          ? Date.now() + ttlSeconds * 1000
+          : undefined,
+    };
+    await writeFileAtomic(this.keyToFile(key), JSON.stringify(entry));
+  }
+
+  private async readEntry(key: string): Promise<FileEntry | null> {
+    const file = this.keyToFile(key);
+    const entry = await readJsonFile<FileEntry>(file);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await removeFile(file);
+      return null;
+    }
+    return entry;
+  }
+}
+
+// ============================================================================
+// BLOB DRIVER
+// ============================================================================
+
+export class FileSystemBlobDriver implements BlobStorageDriver {
+  readonly type = 'filesystem' as const;
+  private readonly filesDirectory: string;
+  private readonly metaDirectory: string;
+
+  constructor(
+    dataDir: string,
+    private readonly baseUrl?: string
+  ) {
+    this.filesDirectory = path.resolve(dataDir, 'blobs', 'files');
+    this.metaDirectory = path.resolve(dataDir, 'blobs', 'meta');
+  }
+
+  async put(
+    pathname: string,
+    data: BlobData,
+    options: BlobPutOptions = {}
+  ): Promise<StoredBlob> {
+    const file = this.pathnameToFile(pathname);
+    const buffer = await toBuffer(data);
+    await writeFileAtomic(file, buffer);
+
+    const url = this.baseUrl
+      ? `${this.baseUrl.replace(/\/$/, '')}/${pathname}`
+      : pathToFileURL(file).href;
+    const meta: StoredBlob = {
+      url,
+      downloadUrl: url,
+      pathname,
+      size: buffer.length,
+      contentType: options.contentType || 'application/octet-stream',
+      uploadedAt: new Date(),
+    };
+
+    await writeFileAtomic(this.metaFile(pathname), JSON.stringify(meta));
+    return meta;
+  }
+
+  async head(url: string): Promise<StoredBlob | null> {
+    return this.readMeta(this.urlToPathname(url));
+  }
+
+  async list(options?: BlobListOptions): Promise<BlobListResult> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.metaDirectory);
+    } catch (error) {
+      if (isMissingFile(error)) return { blobs: [], hasMore: false };
+      throw error;
+    }
+
+    const metas = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.readMetaFile(path.join(this.metaDirectory, file)))
+    );
+    return paginateBlobs(
+      metas.filter((meta): meta is StoredBlob => !!meta),
+      options
+    );
+  }
+
+  async delete(url: string): Promise<void> {
+    const pathname = this.urlToPathname(url);
+    await removeFile(this.pathnameToFile(pathname));
+    await removeFile(this.metaFile(pathname));
+  }
+
+  private async readMeta(pathname: string): Promise<StoredBlob | null> {
+    return this.readMetaFile(this.metaFile(pathname));
+  }
+
+  private async readMetaFile(file: string): Promise<StoredBlob | null> {
+    const meta = await readJsonFile<StoredBlob>(file);
+    return meta ? { ...meta, uploadedAt: new Date(meta.uploadedAt) } : null;
+  }
+
+  private metaFile(pathname: string): string {
+    return path.join(this.metaDirectory, `${toFileName(pathname)}.json`);
+  }
+
+  private pathnameToFile(pathname: string): string {
+    const file = path.resolve(this.filesDirectory, pathname);
+    if (!file.startsWith(this.filesDirectory + path.sep)) {
+      throw new Error(`Blob path escapes the storage directory: ${pathname}`);
+    }
+    return file;
+  }
+
+  private urlToPathname(url: string): string {
+    if (this.baseUrl && url.startsWith(this.baseUrl)) {
+      return url.slice(this.baseUrl.replace(/\/$/, '').length + 1);
+    }
+    if (url.startsWith('file:')) {
+      return path.relative(this.filesDirectory, fileURLToPath(url));
+    }
+    return url;
+  }
+}
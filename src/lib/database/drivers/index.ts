@@ -0,0 +1,38 @@
+/**
+ * Storage Driver Selection
+ *
+ * Builds the KV and blob drivers named by the storage configuration.
+ */
+
+import { StorageConfig } from '@/types/config';
+import { StorageDriver, BlobStorageDriver } from './types';
+import { MemoryStorageDriver, MemoryBlobDriver } from './memory';
+import { FileSystemStorageDriver, FileSystemBlobDriver } from './filesystem';
+import { VercelStorageDriver, VercelBlobDriver } from './vercel';
+
+export function createStorageDriver(config: StorageConfig): StorageDriver {
+  switch (config.kvDriver) {
+    case 'memory':
+      return new MemoryStorageDriver();
+    case 'filesystem':
+      return new FileSystemStorageDriver(config.dataDir);
+    case 'vercel':
+      return new VercelStorageDriver();
+  }
+}
+
+export function createBlobDriver(config: StorageConfig): BlobStorageDriver {
+  switch (config.blobDriver) {
+    case 'memory':
+      return new MemoryBlobDriver();
+    case 'filesystem':
+      return new FileSystemBlobDriver(config.dataDir, config.blobBaseUrl);
+    case 'vercel':
+      return new VercelBlobDriver();
+  }
+}
+
+export * from './types';
+export { MemoryStorageDriver, MemoryBlobDriver } from './memory';
+export { FileSystemStorageDriver, FileSystemBlobDriver } from './filesystem';
+export { VercelStorageDriver, VercelBlobDriver } from './vercel';
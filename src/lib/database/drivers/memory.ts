@@ -0,0 +1,225 @@
+/**
+ * In-Memory Storage Drivers
+ *
+ * Process-local storage with the same JSON and TTL semantics as Redis.
+ * Used for tests and quick local runs; everything is lost on restart.
+ */
+
+import {
+  StorageDriver,
+  BlobStorageDriver,
+  KVBatchOperation,
+  BlobData,
+  BlobPutOptions,
+  BlobListOptions,
+  BlobListResult,
+  StoredBlob,
+  matchesKeyPattern,
+  toStoredJson,
+  toBuffer,
+  paginateBlobs,
+} from './types';
+
+// ============================================================================
+// KEY-VALUE DRIVER
+// ============================================================================
+
+interface MemoryEntry {
+  readonly json: string;
+  expiresAt?: number; // epoch ms
+}
+
+export class MemoryStorageDriver implements StorageDriver {
+  readonly type = 'memory' as const;
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const entry = this.getLiveEntry(key);
+    return entry ? (JSON.parse(entry.json) as T) : null;
+  }
+
+  async set<T = unknown>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<void> {
+    this.writeEntry(key, value, ttlSeconds);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return !!this.getLiveEntry(key) && this.entries.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return !!this.getLiveEntry(key);
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    const entry = this.getLiveEntry(key);
+    if (!entry) {
+      return false;
+    }
+    entry.expiresAt = Date.now() + seconds * 1000;
+    return true;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.getLiveEntry(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async batch(operations: KVBatchOperation[]): Promise<unknown[]> {
+    const results: unknown[] = [];
+    for (const op of operations) {
+      switch (op.operation) {
+        case 'get':
+          results.push(await this.get(op.key));
+          break;
+        case 'set':
+          await this.set(op.key, op.value, op.ttl);
+          results.push('OK');
+          break;
+        case 'del':
+          results.push((await this.delete(op.key)) ? 1 : 0);
+          break;
+        case 'exists':
+          results.push((await this.exists(op.key)) ? 1 : 0);
+          break;
+      }
+    }
+    return results;
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    return [...this.entries.keys()].filter(
+      key => !!this.getLiveEntry(key) && matchesKeyPattern(key, pattern)
+    );
+  }
+
+  // Check-then-write runs without yielding, so these are atomic in-process
+
+  async setIfAbsent<T = unknown>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    if (this.getLiveEntry(key)) {
+      return false;
+    }
+    this.writeEntry(key, value, ttlSeconds);
+    return true;
+  }
+
+  async compareAndSwap<T = unknown>(
+    key: string,
+    expected: unknown,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const current = this.getLiveEntry(key)?.json ?? null;
+    if (current !== toStoredJson(expected)) {
+      return false;
+    }
+    this.writeEntry(key, value, ttlSeconds);
+    return true;
+  }
+
+  async deleteIfEquals(key: string, expected: unknown): Promise<boolean> {
+    const current = this.getLiveEntry(key)?.json ?? null;
+    return (
+      current !== null &&
+      current === toStoredJson(expected) &&
+      this.entries.delete(key)
+    );
+  }
+
+  /**
+   * Drop every key; handy between tests
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private writeEntry(key: string, value: unknown, ttlSeconds?: number): void {
+    this.entries.set(key, {
+      json: JSON.stringify(value),
+      expiresAt:
+        ttlSeconds && ttlSeconds > 0
+          ? Date.now() + ttlSeconds * 1000
+          : undefined,
+    });
+  }
+
+  private getLiveEntry(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
+
+// ============================================================================
+// BLOB DRIVER
+// ============================================================================
+
+const MEMORY_BLOB_ORIGIN = 'memory://blob/';
+
+export class MemoryBlobDriver implements BlobStorageDriver {
+  readonly type = 'memory' as const;
+  private readonly blobs = new Map<
+    string,
+    { meta: StoredBlob; data: Buffer }
+  >();
+
+  async put(
+    pathname: string,
+    data: BlobData,
+    options: BlobPutOptions = {}
+  ): Promise<StoredBlob> {
+    const buffer = await toBuffer(data);
+    const url = `${MEMORY_BLOB_ORIGIN}${pathname}`;
+    const meta: StoredBlob = {
+      url,
+      downloadUrl: url,
+      pathname,
+      size: buffer.length,
+      contentType: options.contentType || 'application/octet-stream',
+      uploadedAt: new Date(),
+    };
+
+    this.blobs.set(pathname, { meta, data: buffer });
+    return meta;
+  }
+
+  async head(url: string): Promise<StoredBlob | null> {
+    return this.blobs.get(this.toPathname(url))?.meta ?? null;
+  }
+
+  async list(options?: BlobListOptions): Promise<BlobListResult> {
+    return paginateBlobs(
+      [...this.blobs.values()].map(blob => blob.meta),
+      options
+    );
+  }
+
+  async delete(url: string): Promise<void> {
+    this.blobs.delete(this.toPathname(url));
+  }
+
+  /**
+   * Read a stored blob's contents
+   */
+  read(url: string): Buffer | null {
+    return this.blobs.get(this.toPathname(url))?.data ?? null;
+  }
+
+  private toPathname(url: string): string {
+    return url.startsWith(MEMORY_BLOB_ORIGIN)
+      ? url.slice(MEMORY_BLOB_ORIGIN.length)
+      : url;
+  }
+}
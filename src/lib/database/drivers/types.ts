@@ -0,0 +1,183 @@
+/**
+ * Storage Driver Contracts
+ *
+ * KVService and BlobService talk to storage only through these interfaces,
+ * so the same services run on Vercel, on a self-hosted filesystem, or fully
+ * in memory for tests. Drivers follow Redis semantics: values round-trip
+ * through JSON, TTLs are in seconds and patterns use glob syntax.
+ */
+
+import { StorageDriverType } from '@/types/config';
+
+// ============================================================================
+// KEY-VALUE DRIVER
+// ============================================================================
+
+export interface KVBatchOperation {
+  readonly operation: 'get' | 'set' | 'del' | 'exists';
+  readonly key: string;
+  readonly value?: unknown;
+  readonly ttl?: number;
+}
+
+export interface StorageDriver {
+  readonly type: StorageDriverType;
+
+  get<T = unknown>(key: string): Promise<T | null>;
+  set<T = unknown>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  exists(key: string): Promise<boolean>;
+  expire(key: string, seconds: number): Promise<boolean>;
+
+  /**
+   * Remaining TTL in seconds; -1 when the key never expires, -2 when missing
+   */
+  ttl(key: string): Promise<number>;
+
+  /**
+   * Run operations in order, returning one result per operation
+   */
+  batch(operations: KVBatchOperation[]): Promise<unknown[]>;
+
+  /**
+   * All live keys matching a glob pattern (`*` and `?`)
+   */
+  scan(pattern: string): Promise<string[]>;
+
+  /**
+   * Write only when the key is missing (Redis SET NX); false when it exists
+   */
+  setIfAbsent<T = unknown>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean>;
+
+  /**
+   * Replace a value only while it still equals `expected`, compared as JSON.
+   * A null `expected` means the key must be missing. The check and the write
+   * are atomic across every process sharing the store.
+   */
+  compareAndSwap<T = unknown>(
+    key: string,
+    expected: unknown,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean>;
+
+  /**
+   * Delete a key only while it still equals `expected`, compared as JSON
+   */
+  deleteIfEquals(key: string, expected: unknown): Promise<boolean>;
+}
+
+// ============================================================================
+// BLOB DRIVER
+// ============================================================================
+
+export type BlobData = Blob | Buffer | ReadableStream | string;
+
+export interface BlobPutOptions {
+  readonly access?: 'public' | 'private';
+  readonly contentType?: string;
+}
+
+export interface StoredBlob {
+  readonly url: string;
+  readonly downloadUrl: string;
+  readonly pathname: string;
+  readonly size: number;
+  readonly contentType: string;
+  readonly uploadedAt: Date;
+}
+
+export interface BlobListOptions {
+  readonly prefix?: string;
+  readonly limit?: number;
+  readonly cursor?: string;
+}
+
+export interface BlobListResult {
+  readonly blobs: StoredBlob[];
+  readonly cursor?: string;
+  readonly hasMore: boolean;
+}
+
+export interface BlobStorageDriver {
+  readonly type: StorageDriverType;
+
+  put(
+    pathname: string,
+    data: BlobData,
+    options?: BlobPutOptions
+  ): Promise<StoredBlob>;
+  head(url: string): Promise<StoredBlob | null>;
+  list(options?: BlobListOptions): Promise<BlobListResult>;
+  delete(url: string): Promise<void>;
+}
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/**
+ * Match a key against a Redis-style glob pattern
+ */
+export function matchesKeyPattern(key: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(char =>
+      char === '*'
+        ? '.*'
+        : char === '?'
+          ? '.'
+          : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+
+  return new RegExp(`^${source}$`).test(key);
+}
+
+/**
+ * Serialise a value the way drivers store it, for compare-and-swap checks.
+ * Values read back from a driver serialise to exactly what was stored.
+ */
+export const toStoredJson = (value: unknown): string | null =>
+  value === null || value === undefined ? null : JSON.stringify(value);
+
+/**
+ * Read any supported blob payload into a Buffer
+ */
+export async function toBuffer(data: BlobData): Promise<Buffer> {
+  if (typeof data === 'string') {
+    return Buffer.from(data);
+  }
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+  if (typeof ReadableStream !== 'undefined' && data instanceof ReadableStream) {
+    return Buffer.from(await new Response(data).arrayBuffer());
+  }
+  return Buffer.from(await (data as Blob).arrayBuffer());
+}
+
+/**
+ * Page through pathnames sorted for stable cursors
+ */
+export function paginateBlobs(
+  blobs: StoredBlob[],
+  { prefix, limit = 1000, cursor }: BlobListOptions = {}
+): BlobListResult {
+  const matching = blobs
+    .filter(blob => !prefix || blob.pathname.startsWith(prefix))
+    .sort((a, b) => a.pathname.localeCompare(b.pathname));
+  const start = cursor ? Number(cursor) : 0;
+  const page = matching.slice(start, start + limit);
+  const hasMore = start + limit < matching.length;
+
+  return {
+    blobs: page,
+    cursor: hasMore ? String(start + limit) : undefined,
+    hasMore,
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Vercel Storage Drivers
+ *
+ * Thin adapters over Vercel KV (Redis) and Vercel Blob. Requires the
+ * KV_REST_API_* and BLOB_READ_WRITE_TOKEN environment variables.
+ */
+
+import { kv } from '@vercel/kv';
+import { put, del, head, list } from '@vercel/blob';
+import {
+  StorageDriver,
+  BlobStorageDriver,
+  KVBatchOperation,
+  BlobData,
+  BlobPutOptions,
+  BlobListOptions,
+  BlobListResult,
+  StoredBlob,
+  toStoredJson,
+  toBuffer,
+} from './types';
+
+// ============================================================================
+// KEY-VALUE DRIVER
+// ============================================================================
+
+const SCAN_PAGE_SIZE = 1000;
+
+// Redis runs scripts atomically, which makes these conditional writes safe
+// across every instance sharing the database
+const COMPARE_AND_SWAP_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '' then
+  if current then return 0 end
+elseif current ~= ARGV[1] then
+  return 0
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+const DELETE_IF_EQUALS_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export class VercelStorageDriver implements StorageDriver {
+  readonly type = 'vercel' as const;
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return kv.get<T>(key);
+  }
+
+  async set<T = unknown>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<void> {
+    if (ttlSeconds && ttlSeconds > 0) {
+      await kv.setex(key, ttlSeconds, JSON.stringify(value));
+    } else {
+      await kv.set(key, value);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await kv.del(key)) > 0;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await kv.exists(key)) === 1;
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    return (await kv.expire(key, seconds)) === 1;
+  }
+
+  async ttl(key: string): Promise<number> {
+    return kv.ttl(key);
+  }
+
+  async batch(operations: KVBatchOperation[]): Promise<unknown[]> {
+    const pipeline = kv.multi();
+
+    for (const op of operations) {
+      switch (op.operation) {
+        case 'get':
+          pipeline.get(op.key);
+          break;
+        case 'set':
+          if (op.ttl && op.ttl > 0) {
+            pipeline.setex(op.key, op.ttl, JSON.stringify(op.value));
+          } else {
+            pipeline.set(op.key, op.value);
+          }
+          break;
+        case 'del':
+          pipeline.del(op.key);
+          break;
+        case 'exists':
+          pipeline.exists(op.key);
+          break;
+      }
+    }
+
+    return pipeline.exec();
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    // SCAN rather than KEYS so large keyspaces don't block Redis
+    const keys: string[] = [];
+    let cursor = 0;
+    do {
+      const [next, page] = await kv.scan(cursor, {
+        match: pattern,
+        count: SCAN_PAGE_SIZE,
+      });
+      keys.push(...page);
+      cursor = Number(next);
+    } while (cursor !== 0);
+
+    return [...new Set(keys)];
+  }
+
+  async setIfAbsent<T = unknown>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const result =
+      ttlSeconds && ttlSeconds > 0
+        ? await kv.set(key, value, { nx: true, ex: ttlSeconds })
+        : await kv.set(key, value, { nx: true });
+    return result === 'OK';
+  }
+
+  async compareAndSwap<T = unknown>(
+    key: string,
+    expected: unknown,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const result = await kv.eval<string[], number>(
+      COMPARE_AND_SWAP_SCRIPT,
+      [key],
+      [
+        toStoredJson(expected) ?? '',
+        JSON.stringify(value),
+        String(ttlSeconds && ttlSeconds > 0 ? ttlSeconds : 0),
+      ]
+    );
+    return result === 1;
+  }
+
+  async deleteIfEquals(key: string, expected: unknown): Promise<boolean> {
+    const expectedJson = toStoredJson(expected);
+    if (expectedJson === null) {
+      return false;
+    }
+    const result = await kv.eval<string[], number>(
+      DELETE_IF_EQUALS_SCRIPT,
+      [key],
+      [expectedJson]
+    );
+    return result === 1;
+  }
+}
+
+// ============================================================================
+// BLOB DRIVER
+// ============================================================================
+
+export class VercelBlobDriver implements BlobStorageDriver {
+  readonly type = 'vercel' as const;
+
+  async put(
+    pathname: string,
+    data: BlobData,
+    options: BlobPutOptions = {}
+  ): Promise<StoredBlob> {
+    const buffer = await toBuffer(data);
+    const blob = await put(pathname, new Blob([new Uint8Array(buffer)]), {
+      access: 'public', // Vercel Blob only supports public blobs
+      addRandomSuffix: false,
+      contentType: options.contentType,
+    });
+
+    return {
+      url: blob.url,
+      downloadUrl: `${blob.url}?download=1`,
+      pathname: blob.pathname,
+      size: buffer.length,
+      contentType: blob.contentType,
+      uploadedAt: new Date(),
+    };
+  }
+
+  async head(url: string): Promise<StoredBlob | null> {
+    const info = await head(url);
+    if (!info) {
+      return null;
+    }
+
+    return {
+      url: info.url,
+      downloadUrl: `${info.url}?download=1`,
+      pathname: info.pathname,
+      size: info.size,
+      contentType: info.contentType,
+      uploadedAt: info.uploadedAt,
+    };
+  }
+
+  async list(options: BlobListOptions = {}): Promise<BlobListResult> {
+    const result = await list({
+      prefix: options.prefix,
+      limit: options.limit,
+      cursor: options.cursor,
+    });
+
+    return {
+      blobs: result.blobs.map(blob => ({
+        url: blob.url,
+        downloadUrl: `${blob.url}?download=1`,
+        pathname: blob.pathname,
+        size: blob.size,
+        contentType: 'application/octet-stream', // Not reported by list
+        uploadedAt: blob.uploadedAt,
+      })),
+      cursor: result.cursor,
+      hasMore: result.hasMore,
+    };
+  }
+
+  async delete(url: string): Promise<void> {
+    await del(url);
+  }
+}
@@ -9,6 +9,26 @@
 export { kvService, KVService } from './kv-service';
 export { blobService, BlobService } from './blob-service';
 
+// Storage drivers
+export {
+  createStorageDriver,
+  createBlobDriver,
+  MemoryStorageDriver,
+  MemoryBlobDriver,
+  FileSystemStorageDriver,
+  FileSystemBlobDriver,
+  VercelStorageDriver,
+  VercelBlobDriver,
+  matchesKeyPattern,
+} from './drivers';
+export type {
+  StorageDriver,
+  BlobStorageDriver,
+  KVBatchOperation,
+  StoredBlob,
+  BlobData,
+} from './drivers';
+
 // Serialization utilities
 export {
   serialize,
@@ -1,11 +1,11 @@
 /**
- * Vercel KV Service - Core data access layer for RpgAInfinity
+ * KV Service - Core data access layer for RpgAInfinity
  *
- * Provides a high-level interface for interacting with Vercel KV (Redis)
+ * Provides a high-level interface over a pluggable key-value StorageDriver
+ * (Vercel KV, local filesystem or in-memory, chosen by the storage config)
  * Handles serialization, caching, error handling, and atomic operations
  */
 
-import { kv } from '@vercel/kv';
 import {
   Player,
   GameSession,
@@ -23,7 +23,13 @@ import {
   TTL,
   GameType,
   Serializable,
+  resolveStorageConfig,
 } from '@/types';
+import {
+  StorageDriver,
+  KVBatchOperation,
+  createStorageDriver,
+} from './drivers';
 
 // ============================================================================
 // CORE KV SERVICE CLASS
@@ -31,8 +37,11 @@ import {
 
 export class KVService {
   private static instance: KVService;
+  private driver: StorageDriver;
 
-  private constructor() {}
+  private constructor() {
+    this.driver = createStorageDriver(resolveStorageConfig());
+  }
 
   static getInstance(): KVService {
     if (!KVService.instance) {
@@ -41,6 +50,17 @@ export class KVService {
     return KVService.instance;
   }
 
+  /**
+   * Swap the storage driver, e.g. for an in-memory driver in tests
+   */
+  useDriver(driver: StorageDriver): void {
+    this.driver = driver;
+  }
+
+  getDriver(): StorageDriver {
+    return this.driver;
+  }
+
   // ============================================================================
   // BASIC KV OPERATIONS
   // ============================================================================
@@ -50,7 +70,7 @@ export class KVService {
    */
   async get<T = any>(key: string): Promise<KVResult<T>> {
     try {
-      const value = await kv.get<T>(key);
+      const value = await this.driver.get<T>(key);
       return {
         success: true,
         data: value ?? undefined,
@@ -74,11 +94,7 @@ export class KVService {
     ttl?: number
   ): Promise<KVResult<boolean>> {
     try {
-      if (ttl && ttl > 0) {
-        await kv.setex(key, ttl, JSON.stringify(value));
-      } else {
-        await kv.set(key, value);
-      }
+      await this.driver.set(key, value, ttl);
 
       return {
         success: true,
@@ -99,10 +115,10 @@ export class KVService {
    */
   async delete(key: string): Promise<KVResult<boolean>> {
     try {
-      const deleted = await kv.del(key);
+      const deleted = await this.driver.delete(key);
       return {
         success: true,
-        data: deleted > 0,
+        data: deleted,
         timestamp: new Date(),
       };
     } catch (error) {
@@ -119,10 +135,10 @@ export class KVService {
    */
   async exists(key: string): Promise<KVResult<boolean>> {
     try {
-      const exists = await kv.exists(key);
+      const exists = await this.driver.exists(key);
       return {
         success: true,
-        data: exists === 1,
+        data: exists,
         timestamp: new Date(),
       };
     } catch (error) {
@@ -139,10 +155,10 @@ export class KVService {
    */
   async expire(key: string, seconds: number): Promise<KVResult<boolean>> {
     try {
-      const result = await kv.expire(key, seconds);
+      const result = await this.driver.expire(key, seconds);
       return {
         success: true,
-        data: result === 1,
+        data: result,
         timestamp: new Date(),
       };
     } catch (error) {
@@ -159,41 +175,11 @@ export class KVService {
   // ============================================================================
 
   /**
-   * Execute multiple operations atomically using Redis pipeline
+   * Execute multiple operations in one round trip (a Redis pipeline on Vercel)
    */
-  async batch(
-    operations: Array<{
-      operation: 'get' | 'set' | 'del' | 'exists';
-      key: string;
-      value?: any;
-      ttl?: number;
-    }>
-  ): Promise<KVResult<any[]>> {
+  async batch(operations: KVBatchOperation[]): Promise<KVResult<any[]>> {
     try {
-      const pipeline = kv.multi();
-
-      for (const op of operations) {
-        switch (op.operation) {
-          case 'get':
-            pipeline.get(op.key);
-            break;
-          case 'set':
-            if (op.ttl && op.ttl > 0) {
-              pipeline.setex(op.key, op.ttl, JSON.stringify(op.value));
-            } else {
-              pipeline.set(op.key, op.value);
-            }
-            break;
-          case 'del':
-            pipeline.del(op.key);
-            break;
-          case 'exists':
-            pipeline.exists(op.key);
-            break;
-        }
-      }
-
-      const results = await pipeline.exec();
+      const results = await this.driver.batch(operations);
 
       return {
         success: true,
@@ -209,6 +195,104 @@ export class KVService {
     }
   }
 
+  /**
+   * List keys matching a glob pattern
+   */
+  async scan(pattern: string): Promise<KVResult<string[]>> {
+    try {
+      const keys = await this.driver.scan(pattern);
+      return {
+        success: true,
+        data: keys,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to scan keys matching ${pattern}: ${error}`,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Set a value only when the key does not exist yet
+   */
+  async setIfAbsent<T = any>(
+    key: string,
+    value: T,
+    ttl?: number
+  ): Promise<KVResult<boolean>> {
+    try {
+      const written = await this.driver.setIfAbsent(key, value, ttl);
+      return {
+        success: true,
+        data: written,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set key ${key} if absent: ${error}`,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Replace a value only while it still equals `expected` (null: missing).
+   * `data` is false when another writer got there first.
+   */
+  async compareAndSwap<T = any>(
+    key: string,
+    expected: unknown,
+    value: T,
+    ttl?: number
+  ): Promise<KVResult<boolean>> {
+    try {
+      const swapped = await this.driver.compareAndSwap(
+        key,
+        expected,
+        value,
+        ttl
+      );
+      return {
+        success: true,
+        data: swapped,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to compare-and-swap key ${key}: ${error}`,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Delete a key only while it still equals `expected`
+   */
+  async deleteIfEquals(
+    key: string,
+    expected: unknown
+  ): Promise<KVResult<boolean>> {
+    try {
+      const deleted = await this.driver.deleteIfEquals(key, expected);
+      return {
+        success: true,
+        data: deleted,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to conditionally delete key ${key}: ${error}`,
+        timestamp: new Date(),
+      };
+    }
+  }
+
   // ============================================================================
   // HIGH-LEVEL GAME DATA OPERATIONS
   // ============================================================================
@@ -382,7 +466,7 @@ export class KVService {
   ): Promise<PaginatedResult<string>> {
     try {
       const pattern = KV_KEY_PATTERNS.ACTIVE_SESSIONS(gameType);
-      const keys = await kv.keys(`${pattern}*`);
+      const keys = await this.driver.scan(`${pattern}*`);
 
       const limit = pagination?.limit ?? 20;
       const offset = pagination?.offset ?? 0;
@@ -419,7 +503,7 @@ export class KVService {
   async getPlayerSessions(playerId: string): Promise<KVResult<string[]>> {
     try {
       const pattern = KV_KEY_PATTERNS.PLAYER_SESSIONS(playerId);
-      const keys = await kv.keys(`${pattern}*`);
+      const keys = await this.driver.scan(`${pattern}*`);
 
       return {
         success: true,
@@ -520,7 +604,7 @@ export class KVService {
     const rateLimitKey = KV_KEY_PATTERNS.RATE_LIMIT(key);
 
     try {
-      const current = await kv.get<RateLimit>(rateLimitKey);
+      const current = await this.driver.get<RateLimit>(rateLimitKey);
       const now = new Date();
 
       if (!current) {
@@ -623,10 +707,10 @@ export class KVService {
       let cleanedCount = 0;
 
       // Clean up expired sessions
-      const sessionKeys = await kv.keys(KV_KEY_PATTERNS.SESSION('*'));
+      const sessionKeys = await this.driver.scan(KV_KEY_PATTERNS.SESSION('*'));
 
       for (const key of sessionKeys) {
-        const ttl = await kv.ttl(key);
+        const ttl = await this.driver.ttl(key);
         if (ttl === -1) {
           // Key exists but has no expiration
           await this.expire(key, TTL.SESSION_COMPLETED);
@@ -664,10 +748,10 @@ export class KVService {
     try {
       const [allKeys, sessionKeys, playerKeys, aiCacheKeys] = await Promise.all(
         [
-          kv.keys('*'),
-          kv.keys(KV_KEY_PATTERNS.SESSION('*')),
-          kv.keys(KV_KEY_PATTERNS.PLAYER('*')),
-          kv.keys(KV_KEY_PATTERNS.AI_CACHE('*')),
+          this.driver.scan('*'),
+          this.driver.scan(KV_KEY_PATTERNS.SESSION('*')),
+          this.driver.scan(KV_KEY_PATTERNS.PLAYER('*')),
+          this.driver.scan(KV_KEY_PATTERNS.AI_CACHE('*')),
         ]
       );
 
@@ -56,6 +56,11 @@ describe('CoreGameEngine', () => {
       data: true,
       timestamp: new Date(),
     });
+    mockKvService.compareAndSwap.mockResolvedValue({
+      success: true,
+      data: true,
+      timestamp: new Date(),
+    });
 
     // Setup test data
     mockGameConfig = {
@@ -188,12 +193,24 @@ describe('CoreGameEngine', () => {
     });
 
     test('should save game state successfully', async () => {
+      // Arrange
+      const storedState = {
+        ...testGameState,
+        metadata: { ...testGameState.metadata, version: 9 },
+      };
+      mockKvService.get.mockResolvedValueOnce({
+        success: true,
+        data: storedState,
+        timestamp: new Date(),
+      });
+
       // Act
       await gameEngine.saveState('game-123', testGameState);
 
       // Assert
-      expect(mockKvService.set).toHaveBeenCalledWith(
+      expect(mockKvService.compareAndSwap).toHaveBeenCalledWith(
         'game_state:game-123',
+        storedState,
         testGameState,
         3600
       );
@@ -281,7 +298,7 @@ describe('CoreGameEngine', () => {
 
     test('should process valid action and update state', async () => {
       // Arrange
-      mockKvService.get.mockResolvedValueOnce({
+      mockKvService.get.mockResolvedValue({
         success: true,
         data: testGameState,
         timestamp: new Date(),
@@ -301,16 +318,17 @@ describe('CoreGameEngine', () => {
         },
       });
 
-      // Verify state was saved
-      expect(mockKvService.set).toHaveBeenCalledWith(
+      // Verify state was saved over the version it was built from
+      expect(mockKvService.compareAndSwap).toHaveBeenCalledWith(
         'game_state:game-123',
+        testGameState,
         expect.objectContaining({
           metadata: expect.objectContaining({
             version: 6,
             lastAction: testAction,
           }),
         }),
-        undefined
+        3600
       );
     });
 
@@ -530,7 +548,9 @@ describe('CoreGameEngine', () => {
         metadata: { version: 1, actionHistory: [] },
       };
 
-      mockKvService.set.mockRejectedValueOnce(new Error('Disk full'));
+      mockKvService.compareAndSwap.mockRejectedValueOnce(
+        new Error('Disk full')
+      );
 
       // Act & Assert
       await expect(
@@ -4,7 +4,12 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { GameEventSystem, createGameEvent, eventSystem } from '../events';
+import {
+  GameEventSystem,
+  createGameEvent,
+  eventSystem,
+  isEventVisibleTo,
+} from '../events';
 import { GameEvent, GameEventType, EventHandler } from '@/types/core';
 
 // Mock KV service to avoid external dependencies in tests
@@ -403,6 +408,95 @@ describe('GameEventSystem', () => {
 
       expect(targetedEvent.affectedPlayers).toEqual([playerId1, playerId2]);
     });
+
+    it('should only show private events to affected players', () => {
+      const playerId = uuidv4();
+      const privateEvent = createGameEvent({
+        type: 'private_action',
+        gameId: testGameId,
+        data: {},
+        affectedPlayers: [playerId],
+        isPublic: false,
+      });
+
+      expect(isEventVisibleTo(privateEvent, playerId)).toBe(true);
+      expect(isEventVisibleTo(privateEvent, uuidv4())).toBe(false);
+      expect(isEventVisibleTo(privateEvent)).toBe(false);
+      expect(isEventVisibleTo(testEvent)).toBe(true);
+    });
+  });
+
+  describe('Game Channels', () => {
+    it('should deliver every event type for the subscribed game', async () => {
+      const gameHandler = jest.fn();
+      const unsubscribe = testEventSystem.subscribeToGame(
+        testGameId,
+        gameHandler
+      );
+
+      await testEventSystem.emit(testEvent);
+      await testEventSystem.emit(
+        createGameEvent({ type: 'other_event', gameId: testGameId, data: {} })
+      );
+      await testEventSystem.emit(
+        createGameEvent({ type: 'other_event', gameId: uuidv4(), data: {} })
+      );
+
+      expect(gameHandler).toHaveBeenCalledTimes(2);
+
+      unsubscribe();
+      await testEventSystem.emit(testEvent);
+
+      expect(gameHandler).toHaveBeenCalledTimes(2);
+      expect(
+        testEventSystem['gameSubscribers'].get(testGameId)
+      ).toBeUndefined();
+    });
+
+    it('should return events emitted after the last seen event', async () => {
+      const { kvService } = require('@/lib/database/kv-service');
+      const history = [0, 1, 2, 3].map(index => ({
+        ...createGameEvent({
+          type: 'test_event',
+          gameId: testGameId,
+          data: { index },
+        }),
+        // Stored events come back with string timestamps
+        timestamp: new Date(Date.UTC(2024, 0, 1, 0, index)).toISOString(),
+      }));
+      kvService.get.mockResolvedValue({
+        success: true,
+        data: history,
+        timestamp: new Date(),
+      });
+
+      const missed = await testEventSystem.getEventsSince(
+        testGameId,
+        history[1]!.id
+      );
+
+      expect(missed.map(event => event.data.index)).toEqual([2, 3]);
+    });
+
+    it('should fall back to recent events for unknown event ids', async () => {
+      const { kvService } = require('@/lib/database/kv-service');
+      const history = [0, 1, 2].map(() =>
+        createGameEvent({ type: 'test_event', gameId: testGameId, data: {} })
+      );
+      kvService.get.mockResolvedValue({
+        success: true,
+        data: history,
+        timestamp: new Date(),
+      });
+
+      const missed = await testEventSystem.getEventsSince(
+        testGameId,
+        'unknown-id',
+        2
+      );
+
+      expect(missed).toHaveLength(2);
+    });
   });
 });
 
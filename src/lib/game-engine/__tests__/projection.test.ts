@@ -0,0 +1,202 @@
+/**
+ * Unit tests for StateProjectionService
+ * Tests engine-level redaction, projector dispatch and event visibility
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  StateProjectionService,
+  stateProjection,
+  createViewer,
+  inferGameType,
+} from '../projection';
+import { createRandomState } from '../random';
+import { GameAction, GameEvent, GameState } from '@/types/core';
+
+const createAction = (gameId: string, playerId: string): GameAction => ({
+  id: uuidv4(),
+  type: 'move',
+  playerId,
+  gameId,
+  timestamp: new Date(),
+  data: {},
+});
+
+const createEvent = (
+  gameId: string,
+  overrides: Partial<GameEvent> = {}
+): GameEvent => ({
+  id: uuidv4(),
+  type: 'player_action',
+  gameId,
+  data: {},
+  timestamp: new Date(),
+  isPublic: false,
+  ...overrides,
+});
+
+describe('StateProjectionService', () => {
+  const gameId = uuidv4();
+  const alice = uuidv4();
+  const bob = uuidv4();
+
+  let state: GameState;
+
+  beforeEach(() => {
+    const actions = [createAction(gameId, alice), createAction(gameId, bob)];
+    const baseState: GameState = {
+      gameId,
+      phase: 'playing',
+      data: {
+        secretsByPlayer: { [alice]: 'a', [bob]: 'b' },
+      },
+      metadata: {
+        version: 3,
+        actionHistory: actions,
+        lastAction: actions[1],
+        random: createRandomState(42),
+      },
+    };
+    // Village states carry their village id at the top level
+    state = Object.assign(baseState, { villageId: uuidv4() });
+  });
+
+  test('should be a singleton', () => {
+    expect(StateProjectionService.getInstance()).toBe(stateProjection);
+  });
+
+  test('builds viewers from a player id and requested mode', () => {
+    expect(createViewer(alice)).toEqual({ mode: 'player', playerId: alice });
+    expect(createViewer()).toEqual({ mode: 'spectator' });
+    expect(createViewer(alice, 'spectator')).toEqual({ mode: 'spectator' });
+    expect(createViewer(undefined, 'game_master')).toEqual({
+      mode: 'game_master',
+      playerId: undefined,
+    });
+  });
+
+  test('infers the game type from state data', () => {
+    expect(inferGameType(state)).toBe('village');
+    expect(
+      inferGameType({
+        ...state,
+        data: { scenario: {}, alivePlayers: [] },
+      })
+    ).toBe('deduction');
+    expect(
+      inferGameType({ ...state, data: { world: {}, currentLocation: 'x' } })
+    ).toBe('rpg');
+    expect(
+      inferGameType({
+        gameId,
+        phase: 'setup',
+        data: { gameType: 'deduction', settings: {} },
+        metadata: state.metadata,
+      })
+    ).toBe('deduction');
+    expect(
+      inferGameType({
+        gameId,
+        phase: 'setup',
+        data: {},
+        metadata: state.metadata,
+      })
+    ).toBe('unknown');
+  });
+
+  test('hands out no data for states of an unknown type', () => {
+    const unknownState: GameState = {
+      gameId,
+      phase: 'playing',
+      data: { secretsByPlayer: { [alice]: 'a', [bob]: 'b' } },
+      metadata: state.metadata,
+    };
+
+    expect(
+      stateProjection.projectState(unknownState, createViewer(alice)).data
+    ).toEqual({});
+    expect(
+      stateProjection.projectState(unknownState, createViewer()).data
+    ).toEqual({});
+    expect(
+      stateProjection.projectState(
+        unknownState,
+        createViewer(undefined, 'game_master')
+      ).data
+    ).toBe(unknownState.data);
+  });
+
+  test('game masters receive the untouched state', () => {
+    const projected = stateProjection.projectState(
+      state,
+      createViewer(undefined, 'game_master')
+    );
+
+    expect(projected).toBe(state);
+  });
+
+  test('strips the RNG seed and other players actions for players', () => {
+    const projected = stateProjection.projectState(state, createViewer(alice));
+
+    expect(projected.metadata.random).toBeUndefined();
+    expect(projected.metadata.version).toBe(3);
+    expect(projected.metadata.actionHistory).toHaveLength(1);
+    expect(projected.metadata.actionHistory[0]!.playerId).toBe(alice);
+    expect(projected.metadata.lastAction).toBeUndefined();
+  });
+
+  test('spectators see no action history', () => {
+    const projected = stateProjection.projectState(state, createViewer());
+
+    expect(projected.metadata.actionHistory).toEqual([]);
+    expect(projected.metadata.random).toBeUndefined();
+  });
+
+  test('dispatches data redaction to the registered projector', () => {
+    const service = StateProjectionService.getInstance();
+    service.registerProjector('village', {
+      projectData: (current, viewer) => ({
+        ...current.data,
+        secretsByPlayer:
+          viewer.mode === 'player' && viewer.playerId
+            ? {
+                [viewer.playerId]:
+                  current.data.secretsByPlayer[viewer.playerId],
+              }
+            : {},
+      }),
+    });
+
+    expect(service.hasProjector('village')).toBe(true);
+    expect(
+      service.projectState(state, createViewer(bob)).data.secretsByPlayer
+    ).toEqual({ [bob]: 'b' });
+    expect(
+      service.projectState(state, createViewer()).data.secretsByPlayer
+    ).toEqual({});
+  });
+
+  test('filters events by viewer mode', () => {
+    const publicEvent = createEvent(gameId, { isPublic: true });
+    const privateEvent = createEvent(gameId, { affectedPlayers: [alice] });
+
+    expect(stateProjection.projectEvent(publicEvent, createViewer())).toBe(
+      publicEvent
+    );
+    expect(stateProjection.projectEvent(privateEvent, createViewer())).toBe(
+      null
+    );
+    expect(
+      stateProjection.projectEvent(privateEvent, createViewer(alice))
+    ).toBe(privateEvent);
+    expect(stateProjection.projectEvent(privateEvent, createViewer(bob))).toBe(
+      null
+    );
+    expect(
+      stateProjection.projectEvent(
+        privateEvent,
+        createViewer(undefined, 'game_master')
+      )
+    ).toBe(privateEvent);
+  });
+});
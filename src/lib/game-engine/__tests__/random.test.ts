@@ -0,0 +1,139 @@
+/**
+ * Seeded Random Source Tests
+ *
+ * Verifies that game randomness is reproducible from a seed and that the
+ * generator position survives a round-trip through GameState metadata.
+ */
+
+import {
+  SeededRandom,
+  unseededRandom,
+  createRandomState,
+  getGameRandom,
+  withRandomState,
+} from '../random';
+import { GameState } from '@/types/core';
+
+const createTestState = (overrides: Partial<GameState> = {}): GameState => ({
+  gameId: 'test-game-123',
+  phase: 'setup',
+  turn: 0,
+  data: {},
+  metadata: {
+    version: 1,
+    actionHistory: [],
+  },
+  ...overrides,
+});
+
+describe('SeededRandom', () => {
+  test('produces the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+
+    const sequenceA = Array.from({ length: 20 }, () => a.next());
+    const sequenceB = Array.from({ length: 20 }, () => b.next());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  test('produces different sequences for different seeds', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+
+    expect(a.next()).not.toEqual(b.next());
+  });
+
+  test('keeps values within requested ranges', () => {
+    const random = new SeededRandom(7);
+
+    for (let i = 0; i < 200; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const roll = random.roll(20);
+      expect(roll).toBeGreaterThanOrEqual(1);
+      expect(roll).toBeLessThanOrEqual(20);
+
+      const int = random.nextInt(-3, 3);
+      expect(int).toBeGreaterThanOrEqual(-3);
+      expect(int).toBeLessThanOrEqual(3);
+    }
+  });
+
+  test('resumes from a saved state', () => {
+    const original = new SeededRandom(1234);
+    original.next();
+    original.next();
+
+    const resumed = SeededRandom.fromState(original.getState());
+
+    expect(resumed.next()).toEqual(original.next());
+    expect(resumed.getState()).toEqual(original.getState());
+    expect(resumed.getState().draws).toBe(3);
+  });
+
+  test('shuffle keeps every element and is reproducible', () => {
+    const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+    const first = new SeededRandom(99).shuffle(items);
+    const second = new SeededRandom(99).shuffle(items);
+
+    expect(first).toEqual(second);
+    expect([...first].sort()).toEqual(items);
+    expect(items).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+  });
+
+  test('weightedPick never selects zero-weight items', () => {
+    const random = new SeededRandom(5);
+
+    for (let i = 0; i < 100; i++) {
+      expect(random.weightedPick(['never', 'always'], [0, 1])).toBe('always');
+    }
+  });
+
+  test('uuid is formatted as a v4 UUID', () => {
+    const uuid = new SeededRandom(3).uuid();
+
+    expect(uuid).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+  });
+
+  test('pick throws on an empty list', () => {
+    expect(() => unseededRandom.pick([])).toThrow();
+  });
+});
+
+describe('Game state integration', () => {
+  test('continues the stored sequence across state saves', () => {
+    const initial = createTestState({
+      metadata: {
+        version: 1,
+        actionHistory: [],
+        random: createRandomState(2024),
+      },
+    });
+
+    const reference = new SeededRandom(2024);
+    const expected = [reference.next(), reference.next(), reference.next()];
+
+    const firstRandom = getGameRandom(initial);
+    const firstDraws = [firstRandom.next(), firstRandom.next()];
+    const saved = withRandomState(initial, firstRandom);
+
+    const secondRandom = getGameRandom(saved);
+    const secondDraw = secondRandom.next();
+
+    expect([...firstDraws, secondDraw]).toEqual(expected);
+    expect(initial.metadata.random?.draws).toBe(0);
+    expect(saved.metadata.random?.draws).toBe(2);
+  });
+
+  test('derives a stable seed for states without random metadata', () => {
+    const state = createTestState();
+
+    expect(getGameRandom(state).next()).toEqual(getGameRandom(state).next());
+  });
+});
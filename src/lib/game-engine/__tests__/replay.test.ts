@@ -0,0 +1,245 @@
+/**
+ * Unit tests for ReplayEngine
+ * Tests rebuilding game state from the action log and version bounds
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ReplayEngine, replayEngine } from '../replay';
+import { gameEngine, JOIN_GAME_ACTION } from '../core';
+import { createRandomState } from '../random';
+import { GameAction, GameState } from '@/types/core';
+
+// In-memory KV store so replays can read back what the engine wrote
+jest.mock('@/lib/database/kv-service', () => {
+  const store = new Map<string, unknown>();
+  return {
+    kvService: {
+      set: jest.fn(async (key: string, value: unknown) => {
+        store.set(key, JSON.parse(JSON.stringify(value)));
+        return { success: true, data: true, timestamp: new Date() };
+      }),
+      get: jest.fn(async (key: string) => ({
+        success: true,
+        data: store.has(key) ? store.get(key) : null,
+        timestamp: new Date(),
+      })),
+      expire: jest.fn(async () => ({
+        success: true,
+        data: true,
+        timestamp: new Date(),
+      })),
+      compareAndSwap: jest.fn(
+        async (key: string, expected: unknown, value: unknown) => {
+          const current = store.has(key)
+            ? JSON.stringify(store.get(key))
+            : null;
+          const swapped =
+            current === (expected === null ? null : JSON.stringify(expected));
+          if (swapped) {
+            store.set(key, JSON.parse(JSON.stringify(value)));
+          }
+          return { success: true, data: swapped, timestamp: new Date() };
+        }
+      ),
+      __store: store,
+    },
+  };
+});
+
+const createInitialState = (gameId: string): GameState => ({
+  gameId,
+  phase: 'setup',
+  turn: 0,
+  data: {},
+  metadata: {
+    version: 1,
+    actionHistory: [],
+    random: createRandomState(77),
+  },
+});
+
+const createAction = (gameId: string, index: number): GameAction => ({
+  id: uuidv4(),
+  type: 'move',
+  playerId: uuidv4(),
+  gameId,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 0, index)),
+  data: { step: index },
+});
+
+describe('ReplayEngine', () => {
+  let gameId: string;
+  let initialState: GameState;
+  let actions: GameAction[];
+
+  beforeEach(() => {
+    const { kvService } = require('@/lib/database/kv-service');
+    kvService.__store.clear();
+
+    gameId = uuidv4();
+    initialState = createInitialState(gameId);
+    actions = [0, 1, 2].map(index => createAction(gameId, index));
+  });
+
+  test('should be a singleton', () => {
+    expect(ReplayEngine.getInstance()).toBe(replayEngine);
+  });
+
+  test('replays every action to reach the latest version', async () => {
+    const result = await replayEngine.replay(initialState, actions);
+
+    expect(result.version).toBe(4);
+    expect(result.latestVersion).toBe(4);
+    expect(result.actionsApplied).toBe(3);
+    expect(result.state.turn).toBe(3);
+    expect(result.state.metadata.actionHistory).toHaveLength(3);
+    expect(result.state.metadata.random).toEqual(initialState.metadata.random);
+  });
+
+  test('stops at the requested intermediate version', async () => {
+    const result = await replayEngine.replay(initialState, actions, {
+      toVersion: 2,
+    });
+
+    expect(result.version).toBe(2);
+    expect(result.state.metadata.lastAction?.id).toBe(actions[0]!.id);
+    expect(result.state.metadata.actionHistory).toHaveLength(1);
+  });
+
+  test('rejects versions outside the recorded range', async () => {
+    await expect(
+      replayEngine.replay(initialState, actions, { toVersion: 9 })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    await expect(
+      replayEngine.replay(initialState, actions, { toVersion: 0 })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  test('reports divergence when an action no longer applies', async () => {
+    const foreignAction = createAction(uuidv4(), 5);
+
+    await expect(
+      replayEngine.replay(initialState, [actions[0]!, foreignAction])
+    ).rejects.toMatchObject({ code: 'INVALID_ACTION' });
+  });
+
+  test('reconstructs a stored game matching live play', async () => {
+    await gameEngine.saveState(gameId, initialState);
+
+    let liveState = initialState;
+    for (const action of actions) {
+      liveState = await gameEngine.processAction(gameId, action);
+    }
+
+    const replayed = await replayEngine.replayGame(gameId);
+    expect(replayed.version).toBe(liveState.metadata.version);
+    expect(replayed.state.turn).toBe(liveState.turn);
+
+    const earlier = await replayEngine.replayGame(gameId, 3);
+    expect(earlier.state.metadata.version).toBe(3);
+    expect(earlier.state.turn).toBe(2);
+  });
+
+  test('keeps the initial snapshot alive as long as the game', async () => {
+    const { kvService } = require('@/lib/database/kv-service');
+    await gameEngine.saveState(gameId, initialState);
+    await gameEngine.processAction(gameId, actions[0]!);
+
+    const [, , snapshotTtl] = kvService.set.mock.calls.find(
+      ([key]: [string]) => key === `game_initial_state:${gameId}`
+    );
+    const [, , , stateTtl] = kvService.compareAndSwap.mock.calls.findLast(
+      ([key]: [string]) => key === `game_state:${gameId}`
+    );
+    expect(snapshotTtl).toBe(stateTtl);
+    expect(kvService.expire).toHaveBeenCalledWith(
+      `game_initial_state:${gameId}`,
+      stateTtl
+    );
+  });
+
+  test('builds a timeline of versions from the action log', async () => {
+    await gameEngine.saveState(gameId, initialState);
+    for (const action of actions) {
+      await gameEngine.processAction(gameId, action);
+    }
+
+    const timeline = await replayEngine.getTimeline(gameId);
+
+    expect(timeline.map(entry => entry.version)).toEqual([2, 3, 4]);
+    expect(timeline[0]!.action.id).toBe(actions[0]!.id);
+  });
+
+  test('runs the effects registered for the game type', async () => {
+    gameEngine.registerActionEffects('village', async result => ({
+      ...result,
+      newState: {
+        ...result.newState!,
+        data: {
+          ...result.newState!.data,
+          steps: [
+            ...(result.newState!.data.steps ?? []),
+            result.newState!.metadata.lastAction!.data.step,
+          ],
+        },
+      },
+    }));
+    const villageState: GameState = {
+      ...initialState,
+      data: { gameType: 'village' },
+    };
+    await gameEngine.saveState(gameId, villageState);
+
+    let liveState = villageState;
+    for (const action of actions) {
+      liveState = await gameEngine.processAction(gameId, action);
+    }
+
+    const replayed = await replayEngine.replayGame(gameId);
+    expect(liveState.data.steps).toEqual([0, 1, 2]);
+    expect(replayed.state.data).toEqual(liveState.data);
+
+    const earlier = await replayEngine.replayGame(gameId, 3);
+    expect(earlier.state.data.steps).toEqual([0, 1]);
+  });
+
+  test('replays the players who joined', async () => {
+    await gameEngine.saveState(gameId, initialState);
+    const player = { id: uuidv4(), name: 'Alice' };
+    await gameEngine.processAction(gameId, {
+      ...createAction(gameId, 0),
+      type: JOIN_GAME_ACTION,
+      playerId: player.id,
+      data: { player },
+    });
+    await gameEngine.processAction(gameId, createAction(gameId, 1));
+
+    const replayed = await replayEngine.replayGame(gameId);
+
+    expect(replayed.version).toBe(3);
+    expect((replayed.state as any).players).toEqual([player]);
+  });
+
+  test('keeps every action of concurrent players in the history', async () => {
+    const { kvService } = require('@/lib/database/kv-service');
+    await gameEngine.saveState(gameId, initialState);
+
+    await Promise.all(
+      actions.map(action => gameEngine.processAction(gameId, action))
+    );
+
+    const history: GameAction[] = kvService.__store.get(
+      `action_history:${gameId}`
+    );
+    expect(history.map(action => action.id).sort()).toEqual(
+      actions.map(action => action.id).sort()
+    );
+  });
+
+  test('throws GAME_NOT_FOUND for unknown games', async () => {
+    await expect(replayEngine.replayGame(uuidv4())).rejects.toMatchObject({
+      code: 'GAME_NOT_FOUND',
+    });
+  });
+});
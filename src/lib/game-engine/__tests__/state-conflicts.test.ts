@@ -0,0 +1,227 @@
+/**
+ * Unit tests for optimistic concurrency on game state
+ * Runs the engine and lock manager against the in-memory storage driver to
+ * check that concurrent writers never lose updates
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { gameEngine, isStateConflict } from '../core';
+import { concurrencyManager } from '../concurrency';
+import { createRandomState } from '../random';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { ActionResult, GameAction, GameState } from '@/types/core';
+
+const createInitialState = (gameId: string): GameState => ({
+  gameId,
+  phase: 'day_voting',
+  turn: 0,
+  data: {},
+  metadata: {
+    version: 1,
+    actionHistory: [],
+    random: createRandomState(7),
+  },
+});
+
+const createVote = (gameId: string): GameAction => ({
+  id: uuidv4(),
+  type: 'vote',
+  playerId: uuidv4(),
+  gameId,
+  timestamp: new Date(),
+  data: { targetId: uuidv4() },
+});
+
+describe('optimistic concurrency', () => {
+  let gameId: string;
+
+  beforeEach(async () => {
+    kvService.useDriver(new MemoryStorageDriver());
+    gameId = uuidv4();
+    await gameEngine.saveState(gameId, createInitialState(gameId));
+  });
+
+  test('rejects a save built from a stale version', async () => {
+    const stale = await gameEngine.loadState(gameId);
+    const next = (state: GameState, turn: number): GameState => ({
+      ...state,
+      turn,
+      metadata: { ...state.metadata, version: state.metadata.version + 1 },
+    });
+
+    await gameEngine.saveState(gameId, next(stale!, 1));
+
+    const error = await gameEngine
+      .saveState(gameId, next(stale!, 2))
+      .catch(caught => caught);
+    expect(isStateConflict(error)).toBe(true);
+    expect(error.details).toMatchObject({
+      expectedVersion: 1,
+      actualVersion: 2,
+    });
+    expect((await gameEngine.loadState(gameId))!.turn).toBe(1);
+  });
+
+  test('rebases the action when another write lands first', async () => {
+    const applyAction = gameEngine.applyAction.bind(gameEngine);
+    const apply = jest
+      .spyOn(gameEngine, 'applyAction')
+      .mockImplementationOnce(async (action, state) => {
+        // Another player's vote commits while this one is being applied
+        await gameEngine.processAction(gameId, createVote(gameId));
+        return applyAction(action, state);
+      });
+
+    const state = await gameEngine.processAction(gameId, createVote(gameId));
+
+    expect(state.metadata.version).toBe(3);
+    expect(state.turn).toBe(2);
+    // Applied to version 1, lost the save, then re-applied to version 2
+    expect(
+      apply.mock.calls.map(([, applied]) => applied.metadata.version)
+    ).toEqual([1, 1, 2]);
+    apply.mockRestore();
+  });
+
+  test('saves an action and its effects as one version', async () => {
+    const applyAction = gameEngine.applyAction.bind(gameEngine);
+    const apply = jest
+      .spyOn(gameEngine, 'applyAction')
+      .mockImplementationOnce(async (action, state) => {
+        await gameEngine.processAction(gameId, createVote(gameId));
+        return applyAction(action, state);
+      });
+    const effects = jest.fn(async (result: ActionResult) => ({
+      ...result,
+      newState: { ...result.newState!, data: { votes: result.newState!.turn } },
+    }));
+
+    const result = await gameEngine.commitAction(
+      gameId,
+      createVote(gameId),
+      effects
+    );
+
+    // The effects ran again on the rebased state, not on the stale one
+    expect(effects).toHaveBeenCalledTimes(2);
+    expect(result.newState!.metadata.version).toBe(3);
+    expect(await gameEngine.loadState(gameId)).toMatchObject({
+      data: { votes: 2 },
+      metadata: { version: 3 },
+    });
+    apply.mockRestore();
+  });
+
+  test('keeps every simultaneous vote', async () => {
+    const votes = Array.from({ length: 5 }, () => createVote(gameId));
+
+    await Promise.all(
+      votes.map(vote => gameEngine.processAction(gameId, vote))
+    );
+
+    const state = await gameEngine.loadState(gameId);
+    expect(state!.metadata.version).toBe(6);
+    expect(state!.turn).toBe(5);
+    expect(
+      state!.metadata.actionHistory.map(action => action.id).sort()
+    ).toEqual(votes.map(vote => vote.id).sort());
+  });
+
+  test('re-validates a rebased action against the fresher state', async () => {
+    const validate = jest.spyOn(gameEngine, 'validateAction');
+    const [first, second] = [createVote(gameId), createVote(gameId)];
+
+    await Promise.all([
+      gameEngine.processAction(gameId, first),
+      gameEngine.processAction(gameId, second),
+    ]);
+
+    // The loser was validated once against version 1 and again after rebasing
+    const versionsSeen = validate.mock.calls.map(
+      ([, state]) => state.metadata.version
+    );
+    expect(versionsSeen).toContain(2);
+    validate.mockRestore();
+  });
+});
+
+describe('atomic operations', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('retries when the state changes before the swap', async () => {
+    const gameId = uuidv4();
+    const stateKey = `game_state:${gameId}`;
+    await kvService.set(stateKey, createInitialState(gameId));
+    let calls = 0;
+
+    const result = await concurrencyManager.executeAtomic({
+      operationId: uuidv4(),
+      gameId,
+      playerId: uuidv4(),
+      expectedVersion: 1,
+      operation: async state => {
+        if (++calls === 1) {
+          // A writer that bypasses the lock changes the state mid-operation
+          await kvService.set(stateKey, { ...state, phase: 'night' });
+        }
+        return {
+          ...state,
+          turn: (state.turn ?? 0) + 1,
+          metadata: { ...state.metadata, version: state.metadata.version + 1 },
+        };
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.retryCount).toBe(1);
+    expect((await kvService.get<GameState>(stateKey)).data).toMatchObject({
+      phase: 'night',
+      turn: 1,
+      metadata: { version: 2 },
+    });
+  });
+});
+
+describe('storage-backed game locks', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('lets only one caller hold a game lock', async () => {
+    const gameId = uuidv4();
+
+    const results = await Promise.all(
+      ['a', 'b', 'c'].map(playerId =>
+        concurrencyManager.acquireLock(gameId, playerId, 'vote')
+      )
+    );
+
+    const winners = results.filter(result => result.success);
+    expect(winners).toHaveLength(1);
+    expect(results.find(result => !result.success)!.error).toMatchObject({
+      code: 'PERMISSION_DENIED',
+      details: { lockedBy: winners[0]!.data!.playerId },
+    });
+
+    await concurrencyManager.releaseLock(winners[0]!.data!);
+    expect(
+      (await concurrencyManager.acquireLock(gameId, 'b', 'vote')).success
+    ).toBe(true);
+  });
+
+  test('never releases a lock another owner holds', async () => {
+    const gameId = uuidv4();
+    const held = await concurrencyManager.acquireLock(gameId, 'a', 'vote');
+    const impostor = { ...held.data!, lockId: uuidv4() };
+
+    const result = await concurrencyManager.releaseLock(impostor);
+
+    expect(result.success).toBe(false);
+    expect(await kvService.exists(`game_lock:${gameId}`)).toMatchObject({
+      data: true,
+    });
+  });
+});
@@ -4,6 +4,8 @@
  * Handles concurrent player actions safely using atomic operations,
  * optimistic locking, and distributed locking patterns to prevent
  * race conditions and ensure data consistency across multiple players.
+ * Locks live in the storage layer and are taken with set-if-absent, so
+ * only one server instance can hold a game's lock at a time.
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -54,7 +56,8 @@ export class ConcurrencyManager {
   private readonly DEFAULT_RETRY_DELAY = 100; // 100ms
   private readonly DEFAULT_OPERATION_TIMEOUT = 10000; // 10 seconds
 
-  private activeLocks: Map<string, LockInfo> = new Map();
+  // Locks held by this process; bookkeeping only, storage is authoritative
+  private heldLocks: Map<string, LockInfo> = new Map();
   private operationQueue: Map<string, AtomicOperation[]> = new Map();
 
   private constructor() {}
@@ -84,31 +87,6 @@ export class ConcurrencyManager {
     const lockId = uuidv4();
 
     try {
-      const existingLock = await kvService.get<LockInfo>(lockKey);
-
-      // Check if lock is already held and not expired
-      if (existingLock.success && existingLock.data) {
-        const now = new Date();
-        if (existingLock.data.expiresAt > now) {
-          return {
-            success: false,
-            error: {
-              code: 'PERMISSION_DENIED',
-              message: 'Game is locked by another operation',
-              timestamp: now,
-              details: {
-                lockedBy: existingLock.data.playerId,
-                operation: existingLock.data.operation,
-                expiresAt: existingLock.data.expiresAt,
-              },
-            },
-            retryCount: 0,
-            duration: performance.now() - startTime,
-          };
-        }
-      }
-
-      // Acquire lock
       const lockInfo: LockInfo = {
         lockId,
         gameId,
@@ -118,7 +96,12 @@ export class ConcurrencyManager {
         operation,
       };
 
-      const setResult = await kvService.set(lockKey, lockInfo, ttlSeconds);
+      // Set-if-absent is atomic in storage; the TTL expires abandoned locks
+      const setResult = await kvService.setIfAbsent(
+        lockKey,
+        lockInfo,
+        ttlSeconds
+      );
 
       if (!setResult.success) {
         return {
@@ -133,8 +116,31 @@ export class ConcurrencyManager {
         };
       }
 
-      // Store lock locally for tracking
-      this.activeLocks.set(lockKey, lockInfo);
+      if (!setResult.data) {
+        const existingLock = await kvService.get<LockInfo>(lockKey);
+        return {
+          success: false,
+          error: {
+            code: 'PERMISSION_DENIED',
+            message: 'Game is locked by another operation',
+            timestamp: new Date(),
+            details: existingLock.data
+              ? {
+                  lockedBy: existingLock.data.playerId,
+                  operation: existingLock.data.operation,
+                  // Stored locks come back with their dates as strings
+                  expiresAt: new Date(
+                    existingLock.data.expiresAt
+                  ).toISOString(),
+                }
+              : undefined,
+          },
+          retryCount: 0,
+          duration: performance.now() - startTime,
+        };
+      }
+
+      this.heldLocks.set(lockKey, lockInfo);
 
       return {
         success: true,
@@ -164,12 +170,39 @@ export class ConcurrencyManager {
     const lockKey = `game_lock:${lockInfo.gameId}`;
 
     try {
-      // Verify we still own the lock
+      // Delete only while the stored lock is still ours, in one atomic step
+      const deleteResult = await kvService.deleteIfEquals(lockKey, lockInfo);
+
+      if (!deleteResult.success) {
+        return {
+          success: false,
+          error: new GameError(
+            'DATABASE_ERROR',
+            `Failed to release lock: ${deleteResult.error}`
+          ),
+          retryCount: 0,
+          duration: performance.now() - startTime,
+        };
+      }
+
+      if (this.heldLocks.get(lockKey)?.lockId === lockInfo.lockId) {
+        this.heldLocks.delete(lockKey);
+      }
+
+      if (deleteResult.data) {
+        return {
+          success: true,
+          data: true,
+          retryCount: 0,
+          duration: performance.now() - startTime,
+        };
+      }
+
       const currentLock = await kvService.get<LockInfo>(lockKey);
 
       if (!currentLock.success || !currentLock.data) {
         return {
-          success: true, // Lock doesn't exist, consider it released
+          success: true, // Lock expired already, consider it released
           data: true,
           retryCount: 0,
           duration: performance.now() - startTime,
@@ -193,18 +226,20 @@ export class ConcurrencyManager {
         };
       }
 
-      // Release lock
-      const deleteResult = await kvService.delete(lockKey);
-      this.activeLocks.delete(lockKey);
+      // Our lock, but the caller's copy was re-encoded; delete it as stored
+      const retryResult = await kvService.deleteIfEquals(
+        lockKey,
+        currentLock.data
+      );
 
       return {
-        success: deleteResult.success,
-        data: deleteResult.success,
-        error: deleteResult.success
+        success: retryResult.success,
+        data: retryResult.data === true,
+        error: retryResult.success
           ? undefined
           : {
               code: 'DATABASE_ERROR',
-              message: `Failed to release lock: ${deleteResult.error}`,
+              message: `Failed to release lock: ${retryResult.error}`,
               timestamp: new Date(),
             },
         retryCount: 0,
@@ -376,8 +411,32 @@ export class ConcurrencyManager {
             };
           }
 
-          // Save new state atomically
-          const saveResult = await kvService.set(stateKey, newState);
+          // Save new state atomically; the lock keeps out other managers,
+          // the swap keeps out writers that bypass it (e.g. saveState)
+          const saveResult = await kvService.compareAndSwap(
+            stateKey,
+            currentState,
+            newState
+          );
+
+          if (saveResult.success && !saveResult.data) {
+            await this.releaseLock(lockInfo);
+            if (retryCount < maxRetries) {
+              await this.waitWithBackoff(retryCount);
+              retryCount++;
+              continue;
+            }
+            return {
+              success: false,
+              error: new GameError(
+                'STATE_CONFLICT',
+                'State changed during atomic operation',
+                { gameId: operation.gameId }
+              ),
+              retryCount,
+              duration: 0,
+            };
+          }
 
           if (!saveResult.success) {
             return {
@@ -567,21 +626,22 @@ export class ConcurrencyManager {
   }
 
   /**
-   * Clean up expired locks
+   * Clean up expired locks held by this process. Storage TTLs already expire
+   * them; the conditional delete never removes a lock another owner took.
    */
   async cleanupExpiredLocks(): Promise<void> {
     const now = new Date();
-    const expiredLocks: string[] = [];
+    const expiredLocks: [string, LockInfo][] = [];
 
-    for (const [key, lockInfo] of this.activeLocks.entries()) {
+    for (const [key, lockInfo] of this.heldLocks.entries()) {
       if (lockInfo.expiresAt <= now) {
-        expiredLocks.push(key);
+        expiredLocks.push([key, lockInfo]);
       }
     }
 
-    for (const key of expiredLocks) {
-      this.activeLocks.delete(key);
-      await kvService.delete(key);
+    for (const [key, lockInfo] of expiredLocks) {
+      this.heldLocks.delete(key);
+      await kvService.deleteIfEquals(key, lockInfo);
     }
   }
 
@@ -599,7 +659,7 @@ export class ConcurrencyManager {
     }
 
     return {
-      activeLocks: this.activeLocks.size,
+      activeLocks: this.heldLocks.size,
       queuedOperations: totalQueuedOperations,
       gameQueues: this.operationQueue.size,
     };
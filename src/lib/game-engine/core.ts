@@ -22,8 +22,12 @@ import {
   GameEventType,
   EventHandler,
   SideEffect,
+  GameType,
 } from '@/types/core';
 import { kvService } from '@/lib/database/kv-service';
+import { createRandomState } from './random';
+import { eventSystem } from './events';
+import { inferGameType } from './projection';
 import { validateWith, GameConfigSchema, GameActionSchema } from '@/types/core';
 
 // ============================================================================
@@ -35,6 +39,8 @@ const PERFORMANCE_THRESHOLDS = {
   MAX_CONCURRENT_PLAYERS: 8, // Support up to 8 concurrent players
   ACTION_TIMEOUT_MS: 5000, // Timeout for action processing
   RETRY_ATTEMPTS: 3, // Retry attempts for failed operations
+  STATE_CONFLICT_RETRIES: 8, // Enough for every concurrent player to land first
+  STATE_CONFLICT_BACKOFF_MS: 20, // Base delay between rebase attempts
 } as const;
 
 const CACHE_CONFIG = {
@@ -43,12 +49,30 @@ const CACHE_CONFIG = {
   EVENT_SUBSCRIPTION_TTL: 3600, // 1 hour for event subscriptions
 } as const;
 
+/**
+ * Game-specific effects layered onto an action before its state is saved.
+ * They run again whenever the action is rebased and when the action is
+ * replayed, so they must only read storage; the result they return is what
+ * gets saved as the next version.
+ */
+export type ActionEffects = (
+  result: ActionResult,
+  previousState: GameState
+) => Promise<ActionResult>;
+
+/**
+ * Action type that adds `data.player` to the state's player list
+ */
+export const JOIN_GAME_ACTION = 'join_game';
+
 // ============================================================================
 // CORE GAME ENGINE IMPLEMENTATION
 // ============================================================================
 
 export class CoreGameEngine implements GameEngine {
   private static instance: CoreGameEngine;
+  // Shared by every engine instance, so effects registered once apply to all
+  private static actionEffects: Map<GameType, ActionEffects> = new Map();
   private eventSubscriptions: Map<
     string,
     Map<GameEventType, Set<EventHandler>>
@@ -70,10 +94,12 @@ export class CoreGameEngine implements GameEngine {
   // ============================================================================
 
   /**
-   * Create a new game session with the given configuration
+   * Create a new game session with the given configuration.
+   * createdBy is the verified identity of the host (see lib/api/session-token)
    */
   async createGame<TConfig extends GameConfig = GameConfig>(
-    config: TConfig
+    config: TConfig,
+    createdBy: UUID = ''
   ): Promise<Game> {
     const startTime = performance.now();
 
@@ -92,7 +118,7 @@ export class CoreGameEngine implements GameEngine {
         currentPhase: 'setup',
         createdAt: now,
         updatedAt: now,
-        createdBy: '', // TODO: Get from auth context
+        createdBy,
         players: [],
         state: this.createInitialState(gameId, validConfig),
       };
@@ -134,68 +160,81 @@ export class CoreGameEngine implements GameEngine {
   }
 
   /**
-   * Process a player action and return updated game state
+   * Process a player action and return updated game state.
+   * When another action is saved first, the action is rebased: it is applied
+   * again (and so re-validated) on top of the fresher state and saved again.
    */
   async processAction<TAction extends GameAction = GameAction>(
     gameId: UUID,
     action: TAction
   ): Promise<GameState> {
+    const result = await this.commitAction(gameId, action);
+    return result.newState!;
+  }
+
+  /**
+   * Process an action with game-specific effects and return the full result.
+   * The effects are applied inside the action's versioned save, so an action
+   * and everything it changes land as a single version. They default to the
+   * ones registered for the game's type; effects passed in must change the
+   * state exactly as those do, since replays only run the registered ones.
+   */
+  async commitAction(
+    gameId: UUID,
+    action: GameAction,
+    effects?: ActionEffects
+  ): Promise<ActionResult> {
     const startTime = performance.now();
 
     try {
       // Validate action
       const validAction = validateWith(GameActionSchema, action);
 
-      // Load current game state with retry logic
-      const currentState = await this.loadStateWithRetry(gameId);
-      if (!currentState) {
-        throw this.createGameError(
-          'GAME_NOT_FOUND',
-          `Game ${gameId} not found`
-        );
-      }
+      for (let attempt = 1; ; attempt++) {
+        // Load current game state with retry logic
+        const currentState = await this.loadStateWithRetry(gameId);
+        if (!currentState) {
+          throw this.createGameError(
+            'GAME_NOT_FOUND',
+            `Game ${gameId} not found`
+          );
+        }
 
-      // Validate action against current state
-      if (!this.validateAction(validAction, currentState)) {
-        throw this.createGameError(
-          'INVALID_ACTION',
-          'Action is not valid for current game state',
-          {
-            action: validAction,
-            currentPhase: currentState.phase,
+        // Apply action to the loaded state
+        const applied = await this.applyAction(validAction, currentState);
+        const gameEffects = effects ?? this.getActionEffects(currentState);
+        const actionResult = gameEffects
+          ? await gameEffects(applied, currentState)
+          : applied;
+        const newState = actionResult.newState!;
+
+        // Save updated state with optimistic locking
+        try {
+          await this.saveState(gameId, newState);
+        } catch (error) {
+          if (
+            isStateConflict(error) &&
+            attempt < PERFORMANCE_THRESHOLDS.STATE_CONFLICT_RETRIES
+          ) {
+            await this.waitBeforeRebase(attempt);
+            continue;
           }
-        );
-      }
-
-      // Process action atomically
-      const actionResult = await this.executeActionAtomically(
-        validAction,
-        currentState
-      );
-
-      if (!actionResult.success) {
-        throw (
-          actionResult.error ||
-          this.createGameError('DATABASE_ERROR', 'Action processing failed')
-        );
-      }
-
-      const newState = actionResult.newState!;
-
-      // Save updated state with optimistic locking
-      await this.saveState(gameId, newState);
+          throw error;
+        }
 
-      // Process events and side effects
-      await this.processActionResults(actionResult);
+        // Process events and side effects
+        await this.processActionResults(actionResult);
 
-      // Log performance metrics
-      this.logPerformance('processAction', performance.now() - startTime, {
-        gameId,
-        actionType: action.type,
-        playerId: action.playerId,
-      });
+        // Log performance metrics
+        this.logPerformance('processAction', performance.now() - startTime, {
+          gameId,
+          actionType: action.type,
+          playerId: action.playerId,
+          attempts: attempt,
+        });
 
-      return newState;
+        return actionResult;
+      }
     } catch (error) {
       this.logError('processAction', error as Error, { gameId, action });
       if (error instanceof Error && 'code' in error) {
@@ -210,16 +249,89 @@ export class CoreGameEngine implements GameEngine {
   }
 
   /**
-   * Save current game state to persistent storage with atomic operations
+   * Apply an action to a state without touching storage or emitting events.
+   * processAction and the replay engine share this so replays reproduce
+   * exactly what live play produced.
+   */
+  async applyAction(
+    action: GameAction,
+    currentState: GameState
+  ): Promise<ActionResult> {
+    // Validate action against current state
+    if (!this.validateAction(action, currentState)) {
+      throw this.createGameError(
+        'INVALID_ACTION',
+        'Action is not valid for current game state',
+        {
+          action,
+          currentPhase: currentState.phase,
+        }
+      );
+    }
+
+    // Process action atomically
+    const actionResult = await this.executeActionAtomically(
+      action,
+      currentState
+    );
+
+    if (!actionResult.success || !actionResult.newState) {
+      throw (
+        actionResult.error ||
+        this.createGameError('DATABASE_ERROR', 'Action processing failed')
+      );
+    }
+
+    return actionResult;
+  }
+
+  /**
+   * Register the effects a game type layers onto every action it commits
+   */
+  registerActionEffects(gameType: GameType, effects: ActionEffects): void {
+    CoreGameEngine.actionEffects.set(gameType, effects);
+  }
+
+  /**
+   * The effects registered for the game type of a state, if any
+   */
+  getActionEffects(state: GameState): ActionEffects | undefined {
+    const gameType = inferGameType(state);
+    return gameType === 'unknown'
+      ? undefined
+      : CoreGameEngine.actionEffects.get(gameType);
+  }
+
+  /**
+   * Save game state with optimistic concurrency control. The write only
+   * lands when the stored state is exactly one version behind `state` (or
+   * missing, for version 1); otherwise a STATE_CONFLICT error is thrown and
+   * the caller should reload and retry.
    */
   async saveState(gameId: UUID, state: GameState): Promise<void> {
     const startTime = performance.now();
 
     try {
-      // TODO: Add optimistic concurrency control based on state version
       const stateKey = `game_state:${gameId}`;
-      const result = await kvService.set(
+      const stored = await kvService.get<GameState>(stateKey);
+      if (!stored.success) {
+        throw new Error(stored.error || 'Failed to read current state');
+      }
+
+      const expectedVersion = state.metadata.version - 1;
+      const storedVersion = stored.data?.metadata.version ?? 0;
+      if (storedVersion !== expectedVersion) {
+        throw this.createStateConflictError(
+          gameId,
+          expectedVersion,
+          storedVersion
+        );
+      }
+
+      // Swap only if nothing was written between the read and this write
+      const result = await kvService.compareAndSwap(
         stateKey,
+        stored.data ?? null,
         state,
         CACHE_CONFIG.GAME_STATE_TTL
       );
@@ -227,17 +339,35 @@ export class CoreGameEngine implements GameEngine {
       if (!result.success) {
         throw new Error(result.error || 'Failed to save state');
       }
+      if (!result.data) {
+        throw this.createStateConflictError(gameId, expectedVersion);
+      }
 
       // Update action history
+      const initialStateKey = `game_initial_state:${gameId}`;
       if (state.metadata.lastAction) {
         await this.saveActionToHistory(gameId, state.metadata.lastAction);
       }
+      if (state.metadata.version === 1 && !state.metadata.lastAction) {
+        // Keep the starting point so the game can be replayed from scratch
+        await kvService.set(
+          initialStateKey,
+          state,
+          CACHE_CONFIG.GAME_STATE_TTL
+        );
+      } else {
+        // The starting point must live exactly as long as the game does
+        await kvService.expire(initialStateKey, CACHE_CONFIG.GAME_STATE_TTL);
+      }
 
       this.logPerformance('saveState', performance.now() - startTime, {
         gameId,
         turn: state.turn,
       });
     } catch (error) {
+      if (isStateConflict(error)) {
+        throw error; // Expected under contention; callers rebase and retry
+      }
       this.logError('saveState', error as Error, { gameId, state });
       throw this.createGameError(
         'DATABASE_ERROR',
@@ -396,6 +526,12 @@ export class CoreGameEngine implements GameEngine {
       metadata: {
         version: 1,
         actionHistory: [],
+        // Honour an explicit seed so games can be replayed deterministically
+        random: createRandomState(
+          typeof config.settings.seed === 'number'
+            ? config.settings.seed
+            : undefined
+        ),
       },
     };
   }
@@ -444,6 +580,16 @@ export class CoreGameEngine implements GameEngine {
     return null;
   }
 
+  /**
+   * Back off before rebasing, with jitter so racing writers spread out
+   */
+  private async waitBeforeRebase(attempt: number): Promise<void> {
+    const delay = PERFORMANCE_THRESHOLDS.STATE_CONFLICT_BACKOFF_MS * attempt;
+    await new Promise(resolve =>
+      setTimeout(resolve, delay + Math.random() * delay)
+    );
+  }
+
   /**
    * Execute action atomically to prevent race conditions
    */
@@ -455,6 +601,10 @@ export class CoreGameEngine implements GameEngine {
     // For now, create a basic result structure
     const newState: GameState = {
       ...currentState,
+      // Joining is core bookkeeping, so every game type replays its joins
+      ...(action.type === JOIN_GAME_ACTION && {
+        players: [...((currentState as any).players ?? []), action.data.player],
+      }),
       turn: (currentState.turn || 0) + 1,
       metadata: {
         ...currentState.metadata,
@@ -533,8 +683,8 @@ export class CoreGameEngine implements GameEngine {
       }
     }
 
-    // Save event to history
-    await this.saveEventToHistory(event);
+    // Persist to the shared event history and fan out to push channels
+    await this.publishEvent(event);
   }
 
   /**
@@ -562,31 +712,56 @@ export class CoreGameEngine implements GameEngine {
   ): Promise<void> {
     try {
       const historyKey = `action_history:${gameId}`;
-      const existingHistory = await kvService.get<GameAction[]>(historyKey);
 
-      const history = existingHistory.data || [];
-      history.push(action);
+      for (let attempt = 1; ; attempt++) {
+        const existingHistory = await kvService.get<GameAction[]>(historyKey);
+        if (!existingHistory.success) {
+          throw new Error(existingHistory.error || 'Failed to read history');
+        }
+        const history = existingHistory.data || [];
 
-      // Keep only last 1000 actions to prevent memory bloat
-      if (history.length > 1000) {
-        history.splice(0, history.length - 1000);
-      }
+        // Later states saved without a new action still carry it as lastAction
+        if (history[history.length - 1]?.id === action.id) {
+          return;
+        }
 
-      await kvService.set(historyKey, history, CACHE_CONFIG.ACTION_HISTORY_TTL);
+        // Keep the full log: replay from the initial state needs every
+        // action, so an append racing another one is retried, never dropped
+        const result = await kvService.compareAndSwap(
+          historyKey,
+          existingHistory.data ?? null,
+          [...history, action],
+          CACHE_CONFIG.ACTION_HISTORY_TTL
+        );
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to save history');
+        }
+        if (result.data) {
+          return;
+        }
+        if (attempt >= PERFORMANCE_THRESHOLDS.STATE_CONFLICT_RETRIES) {
+          throw this.createGameError(
+            'STATE_CONFLICT',
+            'The action history was changed by another action',
+            { gameId, actionId: action.id }
+          );
+        }
+        await this.waitBeforeRebase(attempt);
+      }
     } catch (error) {
       this.logError('saveActionToHistory', error as Error, { gameId, action });
     }
   }
 
   /**
-   * Save event to history
+   * Publish event through the event system so it is stored in the game's
+   * event history and delivered to connected clients
    */
-  private async saveEventToHistory(event: GameEvent): Promise<void> {
+  private async publishEvent(event: GameEvent): Promise<void> {
     try {
-      const eventKey = `game_events:${event.gameId}:${event.id}`;
-      await kvService.set(eventKey, event, CACHE_CONFIG.ACTION_HISTORY_TTL);
+      await eventSystem.emit(event);
     } catch (error) {
-      this.logError('saveEventToHistory', error as Error, { event });
+      this.logError('publishEvent', error as Error, { event });
     }
   }
 
@@ -606,6 +781,21 @@ export class CoreGameEngine implements GameEngine {
     };
   }
 
+  /**
+   * Create the error thrown when a save loses the race for a version
+   */
+  private createStateConflictError(
+    gameId: UUID,
+    expectedVersion: number,
+    actualVersion?: number
+  ): GameError {
+    return new GameError(
+      'STATE_CONFLICT',
+      'Game state was changed by another action',
+      { gameId, expectedVersion, actualVersion: actualVersion ?? null }
+    );
+  }
+
   /**
    * Setup performance monitoring
    */
@@ -644,6 +834,17 @@ export class CoreGameEngine implements GameEngine {
   }
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a save lost the race to a newer state version
+ */
+export function isStateConflict(error: unknown): error is GameError {
+  return error instanceof GameError && error.code === 'STATE_CONFLICT';
+}
+
 // ============================================================================
 // SINGLETON EXPORT
 // ============================================================================
@@ -80,6 +80,9 @@ export class GameEventSystem implements EventSystem {
   // Event subscribers organized by event type
   private subscribers: Map<GameEventType, Set<EventSubscription>> = new Map();
 
+  // Subscribers receiving every event for a single game (push channels)
+  private gameSubscribers: Map<UUID, Set<EventSubscription>> = new Map();
+
   // Event queues organized by game ID for ordered processing
   private eventQueues: Map<UUID, QueuedEvent[]> = new Map();
 
@@ -171,6 +174,53 @@ export class GameEventSystem implements EventSystem {
     }
   }
 
+  /**
+   * Subscribe to every event emitted for a single game.
+   * Returns an unsubscribe function so stream handlers can clean up on close.
+   */
+  subscribeToGame(gameId: UUID, handler: EventHandler): () => void {
+    if (!this.gameSubscribers.has(gameId)) {
+      this.gameSubscribers.set(gameId, new Set());
+    }
+
+    const subscription: EventSubscription = {
+      handler,
+      subscribedAt: new Date(),
+      gameId,
+    };
+
+    this.gameSubscribers.get(gameId)!.add(subscription);
+
+    return () => {
+      const subscriptions = this.gameSubscribers.get(gameId);
+      if (!subscriptions) return;
+
+      subscriptions.delete(subscription);
+      if (subscriptions.size === 0) {
+        this.gameSubscribers.delete(gameId);
+      }
+    };
+  }
+
+  /**
+   * Get events emitted after the given event id, oldest first.
+   * Used to resume a push channel from the client's Last-Event-ID.
+   */
+  async getEventsSince(
+    gameId: string,
+    lastEventId: string,
+    limit = 100
+  ): Promise<GameEvent[]> {
+    const history = (await this.getEventHistory(gameId, 1000)).reverse();
+    const lastIndex = history.findIndex(event => event.id === lastEventId);
+
+    // Unknown ids (expired or foreign) fall back to the most recent events
+    const missed =
+      lastIndex === -1 ? history.slice(-limit) : history.slice(lastIndex + 1);
+
+    return missed.slice(0, limit);
+  }
+
   /**
    * Get event history for a game with optional limit
    */
@@ -184,8 +234,10 @@ export class GameEventSystem implements EventSystem {
         return [];
       }
 
-      // Return most recent events first, limited by the specified limit
+      // Return most recent events first, limited by the specified limit.
+      // Timestamps come back from storage as strings, so normalise them.
       return result.data
+        .map(event => ({ ...event, timestamp: new Date(event.timestamp) }))
         .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
         .slice(0, limit);
     } catch (error) {
@@ -305,13 +357,16 @@ export class GameEventSystem implements EventSystem {
    * Notify all subscribers of an event
    */
   private async notifySubscribers(event: GameEvent): Promise<void> {
-    const subscriptions = this.subscribers.get(event.type);
-    if (!subscriptions || subscriptions.size === 0) {
+    const subscriptions = [
+      ...(this.subscribers.get(event.type) ?? []),
+      ...(this.gameSubscribers.get(event.gameId) ?? []),
+    ];
+    if (subscriptions.length === 0) {
       return;
     }
 
     // Execute all handlers concurrently but catch individual failures
-    const notifications = Array.from(subscriptions).map(async subscription => {
+    const notifications = subscriptions.map(async subscription => {
       try {
         await subscription.handler(event);
       } catch (error) {
@@ -342,9 +397,11 @@ export class GameEventSystem implements EventSystem {
    */
   private startPeriodicCleanup(): void {
     // TODO: Implement proper cleanup interval based on system load
-    setInterval(() => {
+    const timer = setInterval(() => {
       this.cleanup();
     }, 300000); // 5 minutes
+    // Tidying up alone shouldn't keep the process alive
+    timer.unref?.();
   }
 
   /**
@@ -408,6 +465,20 @@ export function createGameEvent({
   };
 }
 
+/**
+ * Check whether a player may see an event.
+ * Public events are visible to everyone; private events only to the players
+ * they affect. Omitting the player (e.g. an anonymous viewer) limits the
+ * result to public events.
+ */
+export function isEventVisibleTo(event: GameEvent, playerId?: UUID): boolean {
+  if (event.isPublic) {
+    return true;
+  }
+
+  return !!playerId && !!event.affectedPlayers?.includes(playerId);
+}
+
 /**
  * Singleton instance export for easy access
  */
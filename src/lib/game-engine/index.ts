@@ -6,7 +6,8 @@
  */
 
 // Core engine
-export { CoreGameEngine, gameEngine } from './core';
+export { CoreGameEngine, gameEngine, isStateConflict } from './core';
+export type { ActionEffects } from './core';
 
 // Validation system
 export { ValidationService, validationService } from './validation';
@@ -37,12 +38,47 @@ export type {
   PerformanceAlert,
 } from './performance';
 
+// Seeded randomness
+export {
+  SeededRandom,
+  unseededRandom,
+  createSeed,
+  createRandomState,
+  seedFromString,
+  getGameRandom,
+  withRandomState,
+} from './random';
+export type { RandomSource } from './random';
+
+// Replay and time-travel
+export { ReplayEngine, replayEngine } from './replay';
+export type {
+  ReplayOptions,
+  ReplayResult,
+  ReplayTimelineEntry,
+} from './replay';
+
+// Per-viewer state projection
+export {
+  StateProjectionService,
+  stateProjection,
+  createViewer,
+  inferGameType,
+} from './projection';
+export type {
+  ViewerMode,
+  ProjectionViewer,
+  ProjectedGameType,
+  GameStateProjector,
+} from './projection';
+
 // Re-export core types for convenience
 export type {
   GameEngine,
   GameConfig,
   Game,
   GameState,
+  RandomState,
   GameAction,
   ActionResult,
   GameEvent,
@@ -0,0 +1,178 @@
+/**
+ * State Projection Layer for RpgAInfinity
+ *
+ * Produces the redacted view of a game each viewer is allowed to see. The
+ * engine strips engine-level secrets (RNG seed, other players' actions) and
+ * each game type registers a projector that hides its own hidden information
+ * (deduction roles and clues, undiscovered RPG locations and secrets).
+ * Every route or push that hands state or events to a client goes through here.
+ */
+
+import { GameEvent, GameState, GameType, UUID } from '@/types/core';
+import { isEventVisibleTo } from './events';
+
+// ============================================================================
+// PROJECTION TYPES
+// ============================================================================
+
+/**
+ * How the viewer relates to the game:
+ * - player: sees shared information plus what is private to them
+ * - spectator: sees public information only
+ * - game_master: sees everything (hosts, post-game review)
+ */
+export type ViewerMode = 'player' | 'spectator' | 'game_master';
+
+export interface ProjectionViewer {
+  readonly mode: ViewerMode;
+  readonly playerId?: UUID;
+}
+
+export type ProjectedGameType = GameType | 'unknown';
+
+/**
+ * Game-specific redaction. Only called for player and spectator viewers;
+ * game masters always receive the untouched state.
+ */
+export interface GameStateProjector<TState extends GameState = GameState> {
+  projectData(state: TState, viewer: ProjectionViewer): TState['data'];
+}
+
+// ============================================================================
+// PROJECTION SERVICE IMPLEMENTATION
+// ============================================================================
+
+export class StateProjectionService {
+  private static instance: StateProjectionService;
+  private projectors = new Map<GameType, GameStateProjector>();
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  static getInstance(): StateProjectionService {
+    if (!StateProjectionService.instance) {
+      StateProjectionService.instance = new StateProjectionService();
+    }
+    return StateProjectionService.instance;
+  }
+
+  /**
+   * Register the projector that redacts a game type's data
+   */
+  registerProjector<TState extends GameState>(
+    gameType: GameType,
+    projector: GameStateProjector<TState>
+  ): void {
+    this.projectors.set(gameType, projector);
+  }
+
+  hasProjector(gameType: GameType): boolean {
+    return this.projectors.has(gameType);
+  }
+
+  /**
+   * Produce the view of a state a viewer is allowed to see.
+   * Game types without a registered projector keep their data as-is; a
+   * state whose game type cannot be determined keeps none of it.
+   */
+  projectState<TState extends GameState>(
+    state: TState,
+    viewer: ProjectionViewer,
+    gameType: ProjectedGameType = inferGameType(state)
+  ): TState {
+    if (viewer.mode === 'game_master') {
+      return state;
+    }
+
+    const projector =
+      gameType === 'unknown' ? undefined : this.projectors.get(gameType);
+    // Fail closed: an unrecognised state could hide anything in its data
+    const data =
+      gameType === 'unknown'
+        ? {}
+        : projector
+          ? projector.projectData(state, viewer)
+          : state.data;
+    const isOwnAction = (action: { playerId: UUID }) =>
+      viewer.mode === 'player' && action.playerId === viewer.playerId;
+    const { random: _random, ...metadata } = state.metadata;
+
+    return {
+      ...state,
+      data,
+      // The seed would let clients predict every future roll
+      metadata: {
+        ...metadata,
+        actionHistory: state.metadata.actionHistory.filter(isOwnAction),
+        lastAction:
+          state.metadata.lastAction && isOwnAction(state.metadata.lastAction)
+            ? state.metadata.lastAction
+            : undefined,
+      },
+    };
+  }
+
+  /**
+   * Decide whether an event may be pushed to a viewer.
+   * Returns null when the event must not be delivered.
+   */
+  projectEvent(event: GameEvent, viewer: ProjectionViewer): GameEvent | null {
+    switch (viewer.mode) {
+      case 'game_master':
+        return event;
+      case 'spectator':
+        return event.isPublic ? event : null;
+      case 'player':
+        return isEventVisibleTo(event, viewer.playerId) ? event : null;
+    }
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Build a viewer; without a player the viewer is a spectator
+ */
+export function createViewer(
+  playerId?: UUID,
+  mode?: ViewerMode
+): ProjectionViewer {
+  if (mode === 'game_master') {
+    return { mode, playerId };
+  }
+  if (mode === 'spectator' || !playerId) {
+    return { mode: 'spectator' };
+  }
+  return { mode: 'player', playerId };
+}
+
+/**
+ * Infer the game type from the state, falling back to the shape of its data
+ */
+export function inferGameType(state: GameState): ProjectedGameType {
+  const data = state.data ?? {};
+
+  // Engine-created states record their type alongside the settings
+  if (isGameType(data.gameType)) {
+    return data.gameType;
+  }
+  if ('scenario' in data && 'alivePlayers' in data) {
+    return 'deduction';
+  }
+  if ('world' in data && 'currentLocation' in data) {
+    return 'rpg';
+  }
+  if ('villageId' in state || 'village' in data) {
+    return 'village';
+  }
+  return 'unknown';
+}
+
+function isGameType(value: unknown): value is GameType {
+  return value === 'rpg' || value === 'deduction' || value === 'village';
+}
+
+export const stateProjection = StateProjectionService.getInstance();
@@ -0,0 +1,245 @@
+/**
+ * Seeded Random Source for RpgAInfinity Game Engine
+ *
+ * Provides a deterministic pseudo-random generator whose state lives in
+ * GameState.metadata, so replaying the same actions from the same seed
+ * reproduces the same game. Game systems receive a RandomSource instead of
+ * calling Math.random() directly.
+ */
+
+import { GameState, RandomState } from '@/types/core';
+
+// ============================================================================
+// RANDOM SOURCE TYPES
+// ============================================================================
+
+/**
+ * Source of randomness injected into game systems
+ */
+export interface RandomSource {
+  /**
+   * Next float in the range [0, 1)
+   */
+  next(): number;
+
+  /**
+   * Integer in the inclusive range [min, max]
+   */
+  nextInt(min: number, max: number): number;
+
+  /**
+   * Roll a die with the given number of sides (1..sides)
+   */
+  roll(sides: number): number;
+
+  /**
+   * Returns true with the given probability (0-1)
+   */
+  chance(probability: number): boolean;
+
+  /**
+   * Pick a single element from a non-empty list
+   */
+  pick<T>(items: readonly T[]): T;
+
+  /**
+   * Pick an element using relative weights
+   */
+  weightedPick<T>(items: readonly T[], weights: readonly number[]): T;
+
+  /**
+   * Return a shuffled copy of the list
+   */
+  shuffle<T>(items: readonly T[]): T[];
+
+  /**
+   * Generate a v4-formatted UUID from the random stream
+   */
+  uuid(): string;
+}
+
+// ============================================================================
+// RANDOM SOURCE IMPLEMENTATIONS
+// ============================================================================
+
+abstract class BaseRandomSource implements RandomSource {
+  abstract next(): number;
+
+  nextInt(min: number, max: number): number {
+    const low = Math.ceil(Math.min(min, max));
+    const high = Math.floor(Math.max(min, max));
+    return low + Math.floor(this.next() * (high - low + 1));
+  }
+
+  roll(sides: number): number {
+    return this.nextInt(1, Math.max(1, sides));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list');
+    }
+    return items[Math.floor(this.next() * items.length)] as T;
+  }
+
+  weightedPick<T>(items: readonly T[], weights: readonly number[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list');
+    }
+
+    const totalWeight = items.reduce(
+      (sum, _, index) => sum + Math.max(0, weights[index] ?? 0),
+      0
+    );
+    if (totalWeight <= 0) {
+      return this.pick(items);
+    }
+
+    let roll = this.next() * totalWeight;
+    for (let i = 0; i < items.length; i++) {
+      const weight = Math.max(0, weights[i] ?? 0);
+      if (roll < weight) {
+        return items[i] as T;
+      }
+      roll -= weight;
+    }
+
+    return items[items.length - 1] as T; // Floating point fallback
+  }
+
+  shuffle<T>(items: readonly T[]): T[] {
+    // Fisher-Yates so every permutation is equally likely
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j] as T, result[i] as T];
+    }
+    return result;
+  }
+
+  uuid(): string {
+    const hex = Array.from({ length: 32 }, () =>
+      Math.floor(this.next() * 16).toString(16)
+    );
+    hex[12] = '4';
+    hex[16] = ((parseInt(hex[16] as string, 16) & 0x3) | 0x8).toString(16);
+    const s = hex.join('');
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+  }
+}
+
+/**
+ * Deterministic generator (mulberry32) with serializable state
+ */
+export class SeededRandom extends BaseRandomSource {
+  private readonly seed: number;
+  private state: number;
+  private draws: number;
+
+  constructor(seed: number, state: number = seed, draws: number = 0) {
+    super();
+    this.seed = seed >>> 0;
+    this.state = state >>> 0;
+    this.draws = draws;
+  }
+
+  static fromState(randomState: RandomState): SeededRandom {
+    return new SeededRandom(
+      randomState.seed,
+      randomState.state,
+      randomState.draws
+    );
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    this.draws++;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  getState(): RandomState {
+    return {
+      seed: this.seed,
+      state: this.state,
+      draws: this.draws,
+    };
+  }
+}
+
+/**
+ * Non-deterministic source for code paths with no game context
+ */
+class UnseededRandom extends BaseRandomSource {
+  next(): number {
+    return Math.random();
+  }
+}
+
+export const unseededRandom: RandomSource = new UnseededRandom();
+
+// ============================================================================
+// GAME STATE HELPERS
+// ============================================================================
+
+/**
+ * Generate a fresh 32-bit seed for a new game
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Create the initial random state for a new game
+ */
+export function createRandomState(seed: number = createSeed()): RandomState {
+  return new SeededRandom(seed).getState();
+}
+
+/**
+ * Derive a stable seed from a string (used for games created before seeding)
+ */
+export function seedFromString(value: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Get the seeded random source for a game, resuming from its stored state
+ */
+export function getGameRandom(state: GameState): SeededRandom {
+  // States persisted before seeding was introduced may lack metadata entirely
+  const stored = state.metadata?.random;
+  if (stored) {
+    return SeededRandom.fromState(stored);
+  }
+  return new SeededRandom(seedFromString(state.gameId ?? ''));
+}
+
+/**
+ * Return a copy of the state with the generator position written back
+ */
+export function withRandomState<TState extends GameState>(
+  state: TState,
+  random: SeededRandom
+): TState {
+  return {
+    ...state,
+    metadata: {
+      ...state.metadata,
+      random: random.getState(),
+    },
+  };
+}
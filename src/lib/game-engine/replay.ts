@@ -0,0 +1,216 @@
+/**
+ * Replay Engine for RpgAInfinity
+ *
+ * Rebuilds game state from the event-sourced action log. Starting from the
+ * game's initial state (which carries its RNG seed), the ordered GameAction
+ * list is re-applied through the same pipeline commitAction uses, including
+ * the effects each game type registers with the engine (see lib/games/effects),
+ * so any intermediate version can be reconstructed without a stored snapshot.
+ *
+ * Effects only read storage, and they read it as it is now: an RPG effect
+ * that consults a player record sees the record's current contents, not the
+ * ones it had when the action was first played.
+ */
+
+import { Game, GameAction, GameError, GameState, UUID } from '@/types/core';
+import { kvService } from '@/lib/database/kv-service';
+import { gameEngine } from './core';
+
+// ============================================================================
+// REPLAY TYPES
+// ============================================================================
+
+export interface ReplayOptions {
+  /**
+   * Stop once the state reaches this version (defaults to the latest)
+   */
+  readonly toVersion?: number;
+}
+
+export interface ReplayResult {
+  readonly state: GameState;
+  readonly version: number;
+  readonly latestVersion: number;
+  readonly actionsApplied: number;
+}
+
+export interface ReplayTimelineEntry {
+  readonly version: number;
+  readonly action: GameAction;
+}
+
+// ============================================================================
+// REPLAY ENGINE IMPLEMENTATION
+// ============================================================================
+
+export class ReplayEngine {
+  private static instance: ReplayEngine;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  static getInstance(): ReplayEngine {
+    if (!ReplayEngine.instance) {
+      ReplayEngine.instance = new ReplayEngine();
+    }
+    return ReplayEngine.instance;
+  }
+
+  /**
+   * Re-run an ordered action list from an initial state.
+   * Each applied action advances metadata.version by one, so version N is
+   * reached after applying N - initialVersion actions.
+   */
+  async replay(
+    initialState: GameState,
+    actions: readonly GameAction[],
+    options: ReplayOptions = {}
+  ): Promise<ReplayResult> {
+    const initialVersion = initialState.metadata.version;
+    const latestVersion = initialVersion + actions.length;
+    const targetVersion = options.toVersion ?? latestVersion;
+
+    if (targetVersion < initialVersion || targetVersion > latestVersion) {
+      throw new GameError(
+        'VALIDATION_ERROR',
+        `Version ${targetVersion} is outside the replayable range ${initialVersion}-${latestVersion}`,
+        {
+          gameId: initialState.gameId,
+          requestedVersion: targetVersion,
+          initialVersion,
+          latestVersion,
+        }
+      );
+    }
+
+    // Start from a clean history so the replayed log matches the original
+    let state: GameState = {
+      ...initialState,
+      metadata: {
+        ...initialState.metadata,
+        actionHistory: [],
+        lastAction: undefined,
+      },
+    };
+
+    const actionCount = targetVersion - initialVersion;
+    for (let i = 0; i < actionCount; i++) {
+      const action = actions[i]!;
+
+      try {
+        const applied = await gameEngine.applyAction(action, state);
+        const effects = gameEngine.getActionEffects(state);
+        const result = effects ? await effects(applied, state) : applied;
+        state = result.newState!;
+      } catch (error) {
+        throw new GameError(
+          'INVALID_ACTION',
+          `Replay diverged at version ${state.metadata.version}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          {
+            gameId: initialState.gameId,
+            version: state.metadata.version,
+            actionId: action.id,
+          }
+        );
+      }
+    }
+
+    return {
+      state,
+      version: state.metadata.version,
+      latestVersion,
+      actionsApplied: actionCount,
+    };
+  }
+
+  /**
+   * Reconstruct a stored game at the given version (latest if omitted)
+   */
+  async replayGame(gameId: UUID, toVersion?: number): Promise<ReplayResult> {
+    const initialState = await this.loadInitialState(gameId);
+    if (!initialState) {
+      throw new GameError(
+        'GAME_NOT_FOUND',
+        `No initial state recorded for game ${gameId}`,
+        { gameId }
+      );
+    }
+
+    const actions = await this.loadActionLog(gameId);
+    return this.replay(initialState, actions, { toVersion });
+  }
+
+  /**
+   * List the version produced by each action in a game's log
+   */
+  async getTimeline(gameId: UUID): Promise<ReplayTimelineEntry[]> {
+    const initialState = await this.loadInitialState(gameId);
+    const initialVersion = initialState?.metadata.version ?? 1;
+    const actions = await this.loadActionLog(gameId);
+
+    return actions.map((action, index) => ({
+      version: initialVersion + index + 1,
+      action,
+    }));
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Load the state the game started from, including its RNG seed
+   */
+  private async loadInitialState(gameId: UUID): Promise<GameState | null> {
+    const snapshot = await kvService.get<GameState>(
+      `game_initial_state:${gameId}`
+    );
+    if (snapshot.success && snapshot.data) {
+      return snapshot.data;
+    }
+
+    // Games that never saved a snapshot still have their creation state
+    const game = await kvService.get<Game>(`game:${gameId}`);
+    if (game.success && game.data?.state) {
+      return game.data.state;
+    }
+
+    return null;
+  }
+
+  /**
+   * Load the game's current state. Games kept outside the engine's state
+   * store (deduction) keep their state itself under the game key.
+   */
+  private async loadCurrentState(gameId: UUID): Promise<GameState | null> {
+    const current = await gameEngine.loadState(gameId);
+    if (current) {
+      return current;
+    }
+
+    const stored = await kvService.get<Game | GameState>(`game:${gameId}`);
+    return stored.success && stored.data && 'metadata' in stored.data
+      ? stored.data
+      : null;
+  }
+
+  /**
+   * Load the ordered action log, preferring the complete in-state history
+   */
+  private async loadActionLog(gameId: UUID): Promise<GameAction[]> {
+    const current = await this.loadCurrentState(gameId);
+    if (current && current.metadata.actionHistory.length > 0) {
+      return current.metadata.actionHistory;
+    }
+
+    const history = await kvService.get<GameAction[]>(
+      `action_history:${gameId}`
+    );
+    return history.success && history.data ? history.data : [];
+  }
+}
+
+export const replayEngine = ReplayEngine.getInstance();
@@ -27,6 +27,7 @@ import {
   validateWith,
 } from '@/types/core';
 import { kvService } from '@/lib/database/kv-service';
+import { replayEngine } from './replay';
 
 // ============================================================================
 // STATE MANAGEMENT TYPES
@@ -560,7 +561,16 @@ export class GameStateManager implements StateManager {
       const historyKey = `state:history:${gameId}:${version.toString().padStart(8, '0')}`;
       const result = await kvService.get<StateHistoryEntry>(historyKey);
 
-      if (!result.success || !result.data) {
+      // Without a snapshot, rebuild the version from the action log
+      const restoredState =
+        result.success && result.data
+          ? result.data.state
+          : await replayEngine
+              .replayGame(gameId, version)
+              .then(replayed => replayed.state)
+              .catch(() => null);
+
+      if (!restoredState) {
         throw new GameError({
           code: 'GAME_NOT_FOUND',
           message: `State version ${version} not found for game ${gameId}`,
@@ -569,8 +579,6 @@ export class GameStateManager implements StateManager {
         });
       }
 
-      const restoredState = result.data.state;
-
       // Update state with restored version
       await this.updateState(gameId, restoredState, {
         skipValidation: true,
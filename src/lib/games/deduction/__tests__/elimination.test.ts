@@ -0,0 +1,241 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the deduction elimination pipeline
+ * Covers role reveal policies, last wills, death abilities and will storage
+ */
+
+import { EliminationPipeline, eliminationPipeline } from '../elimination';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  AssignedRole,
+  DeductionGameState,
+  LastWill,
+  RoleAbility,
+  RoleAlignment,
+} from '@/types/deduction';
+import {
+  GAME_ID,
+  createFlavorText,
+  createGame as createDeductionGame,
+  createRole,
+  createScenario,
+} from './fixtures';
+
+const deathAbility = (
+  name: string,
+  effect: RoleAbility['effects'][number]['type'],
+  target: RoleAbility['target'] = 'other_player'
+): RoleAbility =>
+  ({
+    name,
+    type: effect === 'kill' ? 'kill' : 'investigate',
+    description: name,
+    usageLimit: { type: 'one_time', count: 1 },
+    timing: 'death',
+    target,
+    effects: [{ type: effect, duration: 'immediate' }],
+  }) as RoleAbility;
+
+const role = (
+  name: string,
+  alignment: RoleAlignment,
+  abilities: RoleAbility[] = []
+): AssignedRole => createRole({ name, alignment, abilities });
+
+const createRoles = (): Record<string, AssignedRole> => ({
+  hunter: role('Hunter', 'town', [deathAbility('Last Shot', 'kill')]),
+  godfather: role('Godfather', 'mafia'),
+  goon: role('Goon', 'mafia'),
+  villager: role('Villager', 'town'),
+});
+
+const createGame = (
+  overrides: Partial<DeductionGameState['data']> = {}
+): DeductionGameState =>
+  createDeductionGame(
+    {
+      scenario: createScenario({
+        flavorText: createFlavorText({
+          roleRevealTexts: { Hunter: 'The hunter falls' },
+        }),
+      }),
+      round: 2,
+      alivePlayers: ['hunter', 'godfather', 'goon', 'villager'],
+      ...overrides,
+    },
+    { phase: 'day_voting' }
+  );
+
+const will = (
+  playerId: string,
+  content: string,
+  deathTargetId?: string
+): LastWill => ({ playerId, content, deathTargetId, updatedAt: new Date() });
+
+describe('EliminationPipeline', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(EliminationPipeline.getInstance()).toBe(eliminationPipeline);
+  });
+
+  test('eliminated players are revealed and their wills published', () => {
+    const { gameState, eliminated, events } = eliminationPipeline.apply(
+      createGame(),
+      createRoles(),
+      { villager: will('villager', 'I trust the hunter') },
+      ['villager'],
+      'vote'
+    );
+
+    expect(eliminated).toEqual(['villager']);
+    expect(gameState.data.alivePlayers).not.toContain('villager');
+    expect(gameState.data.eliminatedPlayers).toEqual(['villager']);
+    expect(gameState.data.revealedRoles).toEqual({
+      villager: { role: 'Villager', alignment: 'town' },
+    });
+    expect(gameState.data.lastWills).toEqual({
+      villager: 'I trust the hunter',
+    });
+    expect(events.map(event => event.type)).toEqual([
+      'role_revealed',
+      'last_will',
+    ]);
+  });
+
+  test('no_role_reveal games keep roles hidden but still publish wills', () => {
+    const { gameState, events } = eliminationPipeline.apply(
+      createGame({ revealPolicy: 'no_role_reveal' }),
+      createRoles(),
+      { villager: will('villager', 'Goodbye') },
+      ['villager'],
+      'night'
+    );
+
+    expect(gameState.data.revealedRoles).toEqual({});
+    expect(gameState.data.lastWills).toEqual({ villager: 'Goodbye' });
+    expect(events.map(event => event.type)).toEqual(['last_will']);
+  });
+
+  test('wills stay private when the game turns them off', () => {
+    const { gameState } = eliminationPipeline.apply(
+      createGame({ allowsLastWills: false }),
+      createRoles(),
+      { villager: will('villager', 'Goodbye') },
+      ['villager'],
+      'vote'
+    );
+
+    expect(gameState.data.lastWills).toEqual({});
+  });
+
+  test('a death ability takes the will target down too', () => {
+    const { gameState, eliminated, roles, events } = eliminationPipeline.apply(
+      createGame(),
+      createRoles(),
+      { hunter: will('hunter', '', 'godfather') },
+      ['hunter'],
+      'vote'
+    );
+
+    expect(eliminated).toEqual(['hunter', 'godfather']);
+    expect(gameState.data.alivePlayers).toEqual(['goon', 'villager']);
+    expect(gameState.data.revealedRoles).toMatchObject({
+      hunter: { role: 'Hunter' },
+      godfather: { role: 'Godfather' },
+    });
+    expect(roles.hunter!.abilities[0]).toMatchObject({
+      remainingUses: 0,
+      lastUsedRound: 2,
+    });
+    expect(events).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          type: 'role_revealed',
+          flavorText: 'The hunter falls',
+        }),
+        expect.objectContaining({
+          type: 'elimination',
+          affectedPlayers: ['godfather'],
+        }),
+      ])
+    );
+  });
+
+  test('death abilities without a valid target fizzle', () => {
+    const { eliminated, roles } = eliminationPipeline.apply(
+      createGame(),
+      createRoles(),
+      { hunter: will('hunter', '', 'hunter') },
+      ['hunter'],
+      'vote'
+    );
+
+    expect(eliminated).toEqual(['hunter']);
+    expect(roles).toEqual({});
+  });
+
+  test('a dying investigation exposes the target to everyone', () => {
+    const roles = {
+      ...createRoles(),
+      villager: role('Medium', 'town', [
+        deathAbility('Final Vision', 'learn_role'),
+      ]),
+    };
+
+    const { gameState, eliminated } = eliminationPipeline.apply(
+      createGame({ revealPolicy: 'no_role_reveal' }),
+      roles,
+      { villager: will('villager', '', 'goon') },
+      ['villager'],
+      'night'
+    );
+
+    expect(eliminated).toEqual(['villager']);
+    expect(gameState.data.revealedRoles).toEqual({
+      goon: { role: 'Goon', alignment: 'mafia' },
+    });
+  });
+
+  test('wills are stored for living players and loaded on death', async () => {
+    const game = createGame();
+    await Promise.all(
+      Object.entries(createRoles()).map(([playerId, assigned]) =>
+        kvService.set(`game_role:${GAME_ID}:${playerId}`, assigned)
+      )
+    );
+
+    await eliminationPipeline.saveWill(
+      GAME_ID,
+      game,
+      will('villager', 'Watch the goon')
+    );
+    expect(
+      await eliminationPipeline.getWill(GAME_ID, 'villager')
+    ).toMatchObject({ content: 'Watch the goon' });
+
+    await expect(
+      eliminationPipeline.saveWill(
+        GAME_ID,
+        game,
+        will('villager', 'Too late', 'nobody')
+      )
+    ).rejects.toThrow('Only living players can be named in your will');
+
+    const { gameState } = await eliminationPipeline.eliminate(
+      GAME_ID,
+      game,
+      ['villager'],
+      'vote'
+    );
+    expect(gameState.data.lastWills).toEqual({ villager: 'Watch the goon' });
+
+    await expect(
+      eliminationPipeline.saveWill(GAME_ID, gameState, will('villager', 'Hi'))
+    ).rejects.toThrow('Eliminated players cannot change their will');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Shared fixtures for the deduction unit tests
+ *
+ * Every factory builds a complete, typed value with neutral defaults, so a
+ * test only spells out what it is about through the overrides.
+ */
+
+import {
+  AssignedRole,
+  DeductionGameState,
+  FlavorText,
+  RoleDefinition,
+  ScenarioData,
+} from '@/types/deduction';
+
+export const GAME_ID = 'game-1';
+
+export const createFlavorText = (
+  overrides: Partial<FlavorText> = {}
+): FlavorText => ({
+  introduction: '',
+  dayPhaseStart: '',
+  nightPhaseStart: '',
+  eliminationText: '',
+  victoryTexts: { town: '', mafia: '', neutral: '', survivor: '' },
+  roleRevealTexts: {},
+  ...overrides,
+});
+
+export const createScenario = (
+  overrides: Partial<ScenarioData> = {}
+): ScenarioData => ({
+  id: 'scenario-1',
+  name: 'Test Town',
+  theme: 'mafia',
+  description: 'A quiet town with a secret',
+  setting: 'Town',
+  lore: '',
+  availableRoles: [],
+  winConditions: [],
+  customRules: [],
+  flavorText: createFlavorText(),
+  ...overrides,
+});
+
+/**
+ * A common town vanilla role with no abilities or restrictions
+ */
+export const createRoleDefinition = (
+  overrides: Partial<RoleDefinition> = {}
+): RoleDefinition => ({
+  id: (overrides.name ?? 'Villager').toLowerCase().replace(/\s+/g, '_'),
+  name: 'Villager',
+  alignment: 'town',
+  type: 'vanilla',
+  description: '',
+  abilities: [],
+  restrictions: [],
+  winCondition: '',
+  flavorText: '',
+  rarity: 'common',
+  requiresMinPlayers: 0,
+  ...overrides,
+});
+
+/**
+ * A role as dealt to a player, with every ability of its definition ready
+ * to use
+ */
+export const createRole = (
+  definition: Partial<RoleDefinition> = {},
+  overrides: Partial<AssignedRole> = {}
+): AssignedRole => {
+  const roleDefinition = createRoleDefinition(definition);
+  return {
+    definition: roleDefinition,
+    secretInfo: [],
+    abilities: roleDefinition.abilities.map(ability => ({
+      ability,
+      remainingUses:
+        ability.usageLimit.type === 'unlimited'
+          ? -1
+          : (ability.usageLimit.count ?? 1),
+      isBlocked: false,
+    })),
+    objectives: [],
+    ...overrides,
+  };
+};
+
+/**
+ * A first-round game in its day discussion with nobody seated yet
+ */
+export const createGame = (
+  data: Partial<DeductionGameState['data']> = {},
+  overrides: Partial<Omit<DeductionGameState, 'data'>> = {}
+): DeductionGameState => ({
+  gameId: GAME_ID,
+  phase: 'day_discussion',
+  data: {
+    scenario: createScenario(),
+    round: 1,
+    timeRemaining: 0,
+    alivePlayers: [],
+    eliminatedPlayers: [],
+    nightActions: [],
+    cluesAvailable: [],
+    events: [],
+    ...data,
+  },
+  metadata: { version: 1, actionHistory: [] },
+  ...overrides,
+});
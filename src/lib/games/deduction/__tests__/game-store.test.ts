@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for deduction game storage
+ * Covers version-checked saves, updates that re-apply themselves when
+ * another save lands first and replaying a game from its logged saves
+ */
+
+import {
+  createDeductionGame as storeNewGame,
+  deductionActionEffects,
+  DEDUCTION_UPDATE_ACTION,
+  loadDeductionGame,
+  saveDeductionGame,
+  updateDeductionGame,
+} from '../game-store';
+import { gameEngine } from '@/lib/game-engine/core';
+import { replayEngine } from '@/lib/game-engine/replay';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { DeductionGameState } from '@/types/deduction';
+import { GAME_ID, createGame as createDeductionGame } from './fixtures';
+
+const createGame = (): DeductionGameState =>
+  createDeductionGame({ alivePlayers: ['alice', 'bob'] });
+
+describe('deduction game store', () => {
+  beforeEach(async () => {
+    kvService.useDriver(new MemoryStorageDriver());
+    await kvService.set(`game:${GAME_ID}`, createGame());
+  });
+
+  test('a save bumps the version it was loaded at', async () => {
+    const game = await loadDeductionGame(GAME_ID);
+    const saved = await saveDeductionGame(GAME_ID, {
+      ...game,
+      phase: 'day_voting',
+    });
+
+    expect(saved.metadata.version).toBe(2);
+    expect(await loadDeductionGame(GAME_ID)).toMatchObject({
+      phase: 'day_voting',
+      metadata: { version: 2 },
+    });
+  });
+
+  test('a save built from an older version is refused', async () => {
+    const game = await loadDeductionGame(GAME_ID);
+    await saveDeductionGame(GAME_ID, { ...game, phase: 'day_voting' });
+
+    await expect(
+      saveDeductionGame(GAME_ID, { ...game, phase: 'night_actions' })
+    ).rejects.toMatchObject({ code: 'STATE_CONFLICT' });
+    expect((await loadDeductionGame(GAME_ID)).phase).toBe('day_voting');
+  });
+
+  test('updates at the same moment are all applied', async () => {
+    const eliminate = (playerId: string) =>
+      updateDeductionGame(GAME_ID, game => ({
+        ...game,
+        data: {
+          ...game.data,
+          alivePlayers: game.data.alivePlayers.filter(id => id !== playerId),
+          eliminatedPlayers: [...game.data.eliminatedPlayers, playerId],
+        },
+      }));
+
+    await Promise.all([eliminate('alice'), eliminate('bob')]);
+    const game = await loadDeductionGame(GAME_ID);
+
+    expect(game.data.alivePlayers).toEqual([]);
+    expect([...game.data.eliminatedPlayers].sort()).toEqual(['alice', 'bob']);
+    expect(game.metadata.version).toBe(3);
+  });
+
+  test('every save is logged as an update action', async () => {
+    const game = await loadDeductionGame(GAME_ID);
+    const saved = await saveDeductionGame(GAME_ID, {
+      ...game,
+      phase: 'day_voting',
+    });
+
+    expect(saved.metadata.actionHistory).toHaveLength(1);
+    expect(saved.metadata.lastAction).toMatchObject({
+      type: DEDUCTION_UPDATE_ACTION,
+      gameId: GAME_ID,
+      data: { phase: 'day_voting' },
+    });
+  });
+
+  test('a replay rebuilds every version of the game', async () => {
+    gameEngine.registerActionEffects('deduction', deductionActionEffects);
+    await storeNewGame(GAME_ID, createGame());
+
+    const versions = [await loadDeductionGame(GAME_ID)];
+    const save = async (
+      update: (game: DeductionGameState) => DeductionGameState
+    ) => versions.push(await updateDeductionGame(GAME_ID, update));
+
+    await save(game => ({
+      ...game,
+      phase: 'day_voting',
+      data: {
+        ...game.data,
+        events: [
+          ...game.data.events,
+          {
+            id: 'event-1',
+            type: 'phase_change',
+            description: 'Voting opens',
+            timestamp: new Date(),
+            affectedPlayers: [],
+            isPublic: true,
+          },
+        ],
+      },
+    }));
+    await save(game => ({
+      ...game,
+      data: {
+        ...game.data,
+        alivePlayers: ['bob'],
+        eliminatedPlayers: ['alice'],
+        lastWills: { alice: 'It was Bob' },
+      },
+    }));
+    await save(game => {
+      const { lastWills: _lastWills, ...data } = game.data;
+      return { ...game, phase: 'night_actions', data: { ...data, round: 2 } };
+    });
+
+    for (const [index, expected] of versions.entries()) {
+      const replayed = await replayEngine.replayGame(GAME_ID, index + 1);
+      expect(replayed.state).toEqual(JSON.parse(JSON.stringify(expected)));
+    }
+  });
+
+  test('a missing game is reported as not found', async () => {
+    await expect(loadDeductionGame('missing')).rejects.toMatchObject({
+      code: 'GAME_NOT_FOUND',
+    });
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the deduction night action resolver
+ * Covers submission checks, usage limits and role restrictions, the
+ * block → redirect → protect → kill → investigate order, and moving the
+ * game on to the next day
+ */
+
+import { NightActionResolver, nightActionResolver } from '../night-actions';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  AbilityEffect,
+  AssignedRole,
+  DeductionGameState,
+  NightAction,
+  RoleAbility,
+  RoleAlignment,
+  RoleRestriction,
+} from '@/types/deduction';
+import {
+  GAME_ID,
+  createFlavorText,
+  createGame as createDeductionGame,
+  createRole,
+  createScenario,
+} from './fixtures';
+
+const ability = (
+  name: string,
+  effect: AbilityEffect['type'],
+  overrides: Partial<RoleAbility> = {}
+): RoleAbility => ({
+  name,
+  type: 'passive',
+  description: name,
+  usageLimit: { type: 'per_night', count: 1 },
+  timing: 'night',
+  target: 'other_player',
+  effects: [{ type: effect }],
+  ...overrides,
+});
+
+const role = (
+  name: string,
+  alignment: RoleAlignment,
+  abilities: RoleAbility[] = [],
+  restrictions: RoleRestriction[] = []
+): AssignedRole => createRole({ name, alignment, abilities, restrictions });
+
+const createRoles = (): Record<string, AssignedRole> => ({
+  killer: role(
+    'Godfather',
+    'mafia',
+    [ability('Kill', 'kill')],
+    [
+      {
+        type: 'cannot_target',
+        description: 'The mafia cannot kill their own',
+        parameters: { alignment: 'mafia' },
+      },
+    ]
+  ),
+  doctor: role('Doctor', 'town', [
+    ability('Heal', 'protect', { target: 'any_player' }),
+  ]),
+  detective: role('Detective', 'town', [
+    ability('Investigate', 'learn_alignment'),
+  ]),
+  escort: role('Escort', 'town', [ability('Distract', 'block')]),
+  driver: role('Bus Driver', 'town', [ability('Swap', 'redirect')]),
+  villager: role('Villager', 'town'),
+});
+
+const createGame = (
+  nightActions: NightAction[] = [],
+  overrides: Partial<DeductionGameState['data']> = {}
+): DeductionGameState =>
+  createDeductionGame(
+    {
+      scenario: createScenario({
+        flavorText: createFlavorText({ eliminationText: 'A body is found' }),
+      }),
+      alivePlayers: Object.keys(createRoles()),
+      nightActions,
+      ...overrides,
+    },
+    { phase: 'night_actions' }
+  );
+
+/**
+ * Queue actions the way players would, one after another
+ */
+const queue = (
+  roles: Record<string, AssignedRole>,
+  ...requests: [string, string, string, Record<string, string>?][]
+): DeductionGameState =>
+  createGame(
+    requests.map(([actorId, abilityName, targetId, parameters]) =>
+      nightActionResolver.createAction(createGame(), roles, actorId, {
+        abilityName,
+        targetId,
+        parameters,
+      })
+    )
+  );
+
+describe('NightActionResolver', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(NightActionResolver.getInstance()).toBe(nightActionResolver);
+  });
+
+  describe('submission', () => {
+    test('actions only happen at night and rank by what they do', () => {
+      const roles = createRoles();
+      const create = (game: DeductionGameState, actorId: string) =>
+        nightActionResolver.createAction(game, roles, actorId, {
+          abilityName: 'Distract',
+          targetId: 'killer',
+        });
+
+      expect(create(createGame(), 'escort')).toMatchObject({
+        actorId: 'escort',
+        targetId: 'killer',
+        priority: 1,
+        isResolved: false,
+      });
+      expect(() =>
+        create({ ...createGame(), phase: 'day_discussion' }, 'escort')
+      ).toThrow('only be used at night');
+      expect(() => create(createGame(), 'villager')).toThrow('no such ability');
+    });
+
+    test('targets must suit the ability and the role', () => {
+      const roles = createRoles();
+      const create = (actorId: string, abilityName: string, targetId: string) =>
+        nightActionResolver.createAction(createGame(), roles, actorId, {
+          abilityName,
+          targetId,
+        });
+
+      expect(() => create('detective', 'Investigate', 'detective')).toThrow(
+        'cannot target yourself'
+      );
+      expect(() => create('detective', 'Investigate', 'nobody')).toThrow(
+        'must target a living player'
+      );
+      expect(() => create('killer', 'Kill', 'killer')).toThrow(
+        'cannot target yourself'
+      );
+      expect(create('doctor', 'Heal', 'doctor').targetId).toBe('doctor');
+
+      const mafia = {
+        ...roles,
+        detective: role('Janitor', 'mafia'),
+      };
+      expect(() =>
+        nightActionResolver.createAction(createGame(), mafia, 'killer', {
+          abilityName: 'Kill',
+          targetId: 'detective',
+        })
+      ).toThrow('The mafia cannot kill their own');
+    });
+
+    test('used-up and consecutive abilities are refused', () => {
+      const vest = ability('Vest', 'protect', {
+        target: 'self',
+        usageLimit: { type: 'one_time' },
+      });
+      const roles = {
+        ...createRoles(),
+        survivor: role('Survivor', 'survivor', [vest]),
+        doctor: role(
+          'Doctor',
+          'town',
+          [ability('Heal', 'protect')],
+          [
+            {
+              type: 'cannot_use_consecutive',
+              description: 'The doctor must rest between nights',
+              parameters: {},
+            },
+          ]
+        ),
+      };
+      const tonight = createGame([], { alivePlayers: Object.keys(roles) });
+      const night = nightActionResolver.resolve(
+        {
+          ...tonight,
+          data: {
+            ...tonight.data,
+            nightActions: [
+              nightActionResolver.createAction(tonight, roles, 'survivor', {
+                abilityName: 'Vest',
+              }),
+              nightActionResolver.createAction(tonight, roles, 'doctor', {
+                abilityName: 'Heal',
+                targetId: 'villager',
+              }),
+            ],
+          },
+        },
+        roles
+      );
+      const spent = { ...roles, ...night.roles };
+      const nextNight = createGame([], {
+        round: 2,
+        alivePlayers: Object.keys(roles),
+      });
+
+      expect(night.roles.survivor!.abilities[0]).toMatchObject({
+        remainingUses: 0,
+        lastUsedRound: 1,
+      });
+      expect(() =>
+        nightActionResolver.createAction(nextNight, spent, 'survivor', {
+          abilityName: 'Vest',
+        })
+      ).toThrow('Vest has no uses left');
+      expect(() =>
+        nightActionResolver.createAction(nextNight, spent, 'doctor', {
+          abilityName: 'Heal',
+          targetId: 'villager',
+        })
+      ).toThrow('must rest between nights');
+    });
+
+    test('some roles only work while another is alive', () => {
+      const roles = {
+        ...createRoles(),
+        escort: role(
+          'Consort',
+          'mafia',
+          [ability('Distract', 'block')],
+          [
+            {
+              type: 'requires_alive',
+              description: 'The consort works for the Godfather',
+              parameters: { role: 'Godfather' },
+            },
+          ]
+        ),
+      };
+      const orphaned = createGame([], {
+        alivePlayers: ['escort', 'doctor'],
+        eliminatedPlayers: ['killer'],
+      });
+
+      expect(() =>
+        nightActionResolver.createAction(orphaned, roles, 'escort', {
+          abilityName: 'Distract',
+          targetId: 'doctor',
+        })
+      ).toThrow('works for the Godfather');
+    });
+  });
+
+  describe('resolution', () => {
+    test('an unprotected target dies and the day begins', () => {
+      const roles = createRoles();
+      const night = nightActionResolver.resolve(
+        queue(roles, ['killer', 'Kill', 'villager']),
+        roles
+      );
+
+      expect(night.eliminated).toEqual(['villager']);
+      expect(night.gameState.phase).toBe('day_discussion');
+      expect(night.gameState.data.round).toBe(2);
+      expect(night.gameState.data.alivePlayers).not.toContain('villager');
+      expect(night.gameState.data.eliminatedPlayers).toEqual(['villager']);
+      expect(night.gameState.data.nightActions[0]).toMatchObject({
+        isResolved: true,
+        result: { success: true },
+      });
+      expect(night.events).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            type: 'elimination',
+            affectedPlayers: ['villager'],
+            isPublic: true,
+            flavorText: 'A body is found',
+          }),
+          expect.objectContaining({
+            type: 'ability_used',
+            affectedPlayers: ['killer'],
+            isPublic: false,
+          }),
+        ])
+      );
+    });
+
+    test('protection saves the target and tells the protector', () => {
+      const roles = createRoles();
+      const night = nightActionResolver.resolve(
+        queue(
+          roles,
+          ['killer', 'Kill', 'villager'],
+          ['doctor', 'Heal', 'villager']
+        ),
+        roles
+      );
+
+      expect(night.eliminated).toEqual([]);
+      expect(night.privateResults.killer).toMatchObject({
+        success: false,
+        effects: ['villager survived your attack'],
+      });
+      expect(night.privateResults.doctor!.effects).toContain(
+        'You saved villager from an attack'
+      );
+    });
+
+    test('a block lands before the protection it stops', () => {
+      const roles = createRoles();
+      const night = nightActionResolver.resolve(
+        queue(
+          roles,
+          ['killer', 'Kill', 'villager'],
+          ['doctor', 'Heal', 'villager'],
+          ['escort', 'Distract', 'doctor']
+        ),
+        roles
+      );
+
+      expect(night.eliminated).toEqual(['villager']);
+      expect(night.privateResults.doctor).toMatchObject({
+        success: false,
+        blockedBy: 'escort',
+        effects: ['You were blocked and could not act'],
+      });
+      // A blocked ability is not spent
+      expect(night.roles.doctor).toBeUndefined();
+    });
+
+    test('a redirect sends the attack somewhere else', () => {
+      const roles = createRoles();
+      const night = nightActionResolver.resolve(
+        queue(
+          roles,
+          ['killer', 'Kill', 'villager'],
+          ['driver', 'Swap', 'killer', { redirectTo: 'detective' }]
+        ),
+        roles
+      );
+
+      expect(night.eliminated).toEqual(['detective']);
+      expect(night.privateResults.killer).toMatchObject({
+        success: true,
+        redirectedTo: 'detective',
+      });
+    });
+
+    test('investigators learn about their target last of all', () => {
+      const roles = {
+        ...createRoles(),
+        doctor: role('Consigliere', 'mafia', [
+          ability('Research', 'learn_role'),
+        ]),
+      };
+      const night = nightActionResolver.resolve(
+        queue(
+          roles,
+          ['detective', 'Investigate', 'killer'],
+          ['doctor', 'Research', 'detective'],
+          ['killer', 'Kill', 'detective']
+        ),
+        roles
+      );
+
+      expect(night.actions.map(action => action.ability)).toEqual([
+        'Kill',
+        'Investigate',
+        'Research',
+      ]);
+      expect(night.privateResults.detective!.information).toBe(
+        'Your target sides with the mafia'
+      );
+      expect(night.privateResults.doctor!.information).toBe(
+        'Your target is a Detective'
+      );
+    });
+  });
+
+  describe('storage', () => {
+    test('submitted actions are resolved and results kept per player', async () => {
+      const roles = createRoles();
+      await kvService.set(`game:${GAME_ID}`, createGame());
+      await Promise.all(
+        Object.entries(roles).map(([playerId, assigned]) =>
+          kvService.set(`game_role:${GAME_ID}:${playerId}`, assigned)
+        )
+      );
+
+      await nightActionResolver.submitAction(GAME_ID, 'killer', {
+        abilityName: 'Kill',
+        targetId: 'doctor',
+      });
+      await nightActionResolver.submitAction(GAME_ID, 'killer', {
+        abilityName: 'Kill',
+        targetId: 'villager',
+      });
+      expect(await nightActionResolver.getPendingActors(GAME_ID)).toEqual([
+        'doctor',
+        'detective',
+        'escort',
+        'driver',
+      ]);
+
+      const night = await nightActionResolver.resolveNight(GAME_ID);
+      const saved = await kvService.get<DeductionGameState>(`game:${GAME_ID}`);
+
+      expect(night.eliminated).toEqual(['villager']);
+      expect(saved.data!.phase).toBe('day_discussion');
+      expect(
+        await nightActionResolver.getPrivateResult(GAME_ID, 1, 'killer')
+      ).toMatchObject({ success: true, effects: ['You killed villager'] });
+      expect(
+        await nightActionResolver.getPrivateResult(GAME_ID, 1, 'doctor')
+      ).toBeNull();
+    });
+
+    test('actions queued at the same moment are all kept', async () => {
+      const roles = createRoles();
+      await kvService.set(`game:${GAME_ID}`, createGame());
+      await Promise.all(
+        Object.entries(roles).map(([playerId, assigned]) =>
+          kvService.set(`game_role:${GAME_ID}:${playerId}`, assigned)
+        )
+      );
+
+      await Promise.all([
+        nightActionResolver.submitAction(GAME_ID, 'killer', {
+          abilityName: 'Kill',
+          targetId: 'villager',
+        }),
+        nightActionResolver.submitAction(GAME_ID, 'doctor', {
+          abilityName: 'Heal',
+          targetId: 'villager',
+        }),
+        nightActionResolver.submitAction(GAME_ID, 'detective', {
+          abilityName: 'Investigate',
+          targetId: 'killer',
+        }),
+      ]);
+      const saved = await kvService.get<DeductionGameState>(`game:${GAME_ID}`);
+
+      expect(
+        saved.data!.data.nightActions.map(action => action.actorId).sort()
+      ).toEqual(['detective', 'doctor', 'killer']);
+      expect(saved.data!.metadata.version).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the deduction voting rules
+ * Covers game mode presets, rule overrides, double votes and the role
+ * restrictions that apply to votes
+ */
+
+import {
+  DEFAULT_VOTING_RULES,
+  VOTING_RULE_PRESETS,
+  canVote,
+  getBlockedTargets,
+  getVotingPower,
+  getVotingRules,
+  isVoteRestriction,
+  resolveVotingRules,
+} from '../voting-rules';
+import { GAME_MODES } from '../roles';
+import {
+  AssignedRole,
+  DeductionGameState,
+  RoleAlignment,
+  RoleRestriction,
+  VotingRulesSchema,
+} from '@/types/deduction';
+import { createGame as createDeductionGame, createRole } from './fixtures';
+
+const restriction = (
+  type: RoleRestriction['type'],
+  parameters: RoleRestriction['parameters']
+): RoleRestriction => ({
+  type,
+  description: type,
+  parameters: { appliesTo: 'vote', ...parameters },
+});
+
+const role = (
+  name: string,
+  alignment: RoleAlignment,
+  restrictions: RoleRestriction[] = []
+): AssignedRole => createRole({ name, alignment, restrictions });
+
+const createRoles = (): Record<string, AssignedRole> => ({
+  mayor: role('Mayor', 'town'),
+  godfather: role('Godfather', 'mafia'),
+  goon: role('Goon', 'mafia', [
+    restriction('cannot_target', { alignment: 'mafia' }),
+  ]),
+  villager: role('Villager', 'town'),
+});
+
+const createGame = (
+  alivePlayers = ['mayor', 'godfather', 'goon', 'villager']
+): DeductionGameState =>
+  createDeductionGame({ alivePlayers }, { phase: 'day_voting' });
+
+describe('voting rules', () => {
+  test('every game mode has a valid preset', () => {
+    expect(Object.keys(VOTING_RULE_PRESETS).sort()).toEqual(
+      Object.keys(GAME_MODES).sort()
+    );
+    for (const rules of Object.values(VOTING_RULE_PRESETS)) {
+      expect(VotingRulesSchema.safeParse(rules).success).toBe(true);
+    }
+  });
+
+  test('speed and hardcore games play with their own rules', () => {
+    expect(resolveVotingRules('SPEED')).toMatchObject({
+      lynchRule: 'plurality',
+      tiebreaker: 'random',
+      timeLimit: 90,
+    });
+    expect(resolveVotingRules('HARDCORE')).toMatchObject({
+      secretBallot: true,
+      tiebreaker: 'no_elimination',
+    });
+  });
+
+  test('overrides apply on top of the preset, unknown modes use defaults', () => {
+    expect(resolveVotingRules('SPEED', { allowNoLynch: false })).toEqual({
+      ...VOTING_RULE_PRESETS.SPEED,
+      allowNoLynch: false,
+    });
+    expect(resolveVotingRules('UNKNOWN')).toEqual(DEFAULT_VOTING_RULES);
+    expect(resolveVotingRules()).toEqual(DEFAULT_VOTING_RULES);
+  });
+
+  test('games created before voting rules use the defaults', () => {
+    expect(getVotingRules(createGame())).toBe(DEFAULT_VOTING_RULES);
+  });
+
+  test('mayors and judges vote twice', () => {
+    const roles = createRoles();
+
+    expect(getVotingPower(roles.mayor, DEFAULT_VOTING_RULES)).toBe(2);
+    expect(getVotingPower(roles.villager, DEFAULT_VOTING_RULES)).toBe(1);
+    expect(getVotingPower(undefined, DEFAULT_VOTING_RULES)).toBe(1);
+    expect(
+      getVotingPower(roles.mayor, {
+        ...DEFAULT_VOTING_RULES,
+        doubleVoteRoles: [],
+      })
+    ).toBe(1);
+  });
+
+  test('self votes are blocked unless the rules allow them', () => {
+    const game = createGame();
+    const roles = createRoles();
+
+    expect(
+      getBlockedTargets(game, roles, DEFAULT_VOTING_RULES, 'mayor')
+    ).toEqual(['mayor']);
+    expect(
+      getBlockedTargets(
+        game,
+        roles,
+        { ...DEFAULT_VOTING_RULES, allowSelfVote: true },
+        'mayor'
+      )
+    ).toEqual([]);
+  });
+
+  test('role restrictions block vote targets', () => {
+    const roles = createRoles();
+
+    expect(
+      getBlockedTargets(createGame(), roles, DEFAULT_VOTING_RULES, 'goon')
+    ).toEqual(['godfather', 'goon']);
+  });
+
+  test('roles can lose their vote', () => {
+    const roles = {
+      ...createRoles(),
+      villager: role('Villager', 'town', [
+        restriction('custom', { cannotVote: true }),
+      ]),
+      godfather: role('Godfather', 'mafia', [
+        restriction('requires_alive', { role: 'Mayor' }),
+      ]),
+    };
+
+    expect(canVote(createGame(), roles, 'villager')).toBe(false);
+    expect(canVote(createGame(), roles, 'godfather')).toBe(true);
+    expect(canVote(createGame(['godfather', 'goon']), roles, 'godfather')).toBe(
+      false
+    );
+    expect(canVote(createGame(), roles, 'mayor')).toBe(true);
+  });
+
+  test('only restrictions marked for votes apply to votes', () => {
+    expect(
+      isVoteRestriction(restriction('cannot_target', { self: true }))
+    ).toBe(true);
+    expect(
+      isVoteRestriction({
+        type: 'cannot_target',
+        description: 'night only',
+        parameters: { self: true },
+      })
+    ).toBe(false);
+  });
+});
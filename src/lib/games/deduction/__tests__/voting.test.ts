@@ -24,6 +24,8 @@ jest.mock('../../../database', () => ({
     get: jest.fn(),
     set: jest.fn(),
     delete: jest.fn(),
+    compareAndSwap: jest.fn(),
+    expire: jest.fn(),
   },
 }));
 
@@ -86,6 +88,7 @@ describe('VotingSystem', () => {
       cluesAvailable: [],
       events: [],
     },
+    metadata: { version: 1, actionHistory: [] },
   };
 
   const mockPlayers: DeductionPlayer[] = [
@@ -181,12 +184,18 @@ describe('VotingSystem', () => {
       get: jest.fn(),
       set: jest.fn().mockResolvedValue(undefined),
       delete: jest.fn().mockResolvedValue(undefined),
+      compareAndSwap: jest
+        .fn()
+        .mockResolvedValue({ success: true, data: true }),
     };
 
     (EventSystem.getInstance as jest.Mock).mockReturnValue(mockEventSystem);
     (kvService.get as jest.Mock).mockImplementation(mockKvService.get);
     (kvService.set as jest.Mock).mockImplementation(mockKvService.set);
     (kvService.delete as jest.Mock).mockImplementation(mockKvService.delete);
+    (kvService.compareAndSwap as jest.Mock).mockImplementation(
+      mockKvService.compareAndSwap
+    );
 
     // Get fresh instance
     votingSystem = VotingSystem.getInstance();
@@ -725,7 +734,10 @@ describe('VotingSystem', () => {
         votingPowerUsed: { 'player-1': 1 },
       };
 
-      mockKvService.get.mockResolvedValue(mockGameState);
+      mockKvService.get.mockResolvedValue({
+        success: true,
+        data: mockGameState,
+      });
     });
 
     it('should process elimination results correctly', async () => {
@@ -747,9 +759,16 @@ describe('VotingSystem', () => {
       );
       expect(gameUpdate.phaseTransition).toBe('night_actions');
 
-      expect(mockKvService.set).toHaveBeenCalledWith(
+      expect(mockKvService.compareAndSwap).toHaveBeenCalledWith(
         `game:${mockGameState.id}`,
-        expect.any(Object),
+        mockGameState,
+        expect.objectContaining({
+          metadata: {
+            version: 2,
+            lastAction: expect.objectContaining({ type: 'update_game' }),
+            actionHistory: [expect.objectContaining({ type: 'update_game' })],
+          },
+        }),
         7 * 24 * 60 * 60
       );
     });
@@ -788,7 +807,10 @@ describe('VotingSystem', () => {
         },
       };
 
-      mockKvService.get.mockResolvedValue(endGameState);
+      mockKvService.get.mockResolvedValue({
+        success: true,
+        data: endGameState,
+      });
 
       const gameUpdate = await votingSystem.processVotingResult(
         mockVotingResults,
@@ -0,0 +1,279 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the deduction win condition evaluator
+ * Covers town and mafia wins, neutral and survivor solo wins, objective
+ * completion, shared wins and the end-of-game scoreboard
+ */
+
+import {
+  WinConditionEvaluator,
+  winConditionEvaluator,
+  WIN_CONDITIONS,
+} from '../win-conditions';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  AssignedRole,
+  DeductionGameState,
+  RoleAlignment,
+  RoleObjective,
+  RoleType,
+} from '@/types/deduction';
+import {
+  GAME_ID,
+  createFlavorText,
+  createGame as createDeductionGame,
+  createRole,
+  createScenario,
+} from './fixtures';
+
+const objective = (
+  id: string,
+  type: RoleObjective['type'],
+  target?: string,
+  points = 100
+): RoleObjective => ({
+  id,
+  description: id,
+  type,
+  target,
+  isCompleted: false,
+  points,
+});
+
+const role = (
+  name: string,
+  alignment: RoleAlignment,
+  type: RoleType = 'vanilla',
+  objectives: RoleObjective[] = []
+): AssignedRole => createRole({ name, alignment, type }, { objectives });
+
+const createRoles = (): Record<string, AssignedRole> => ({
+  godfather: role('Godfather', 'mafia', 'killing', [
+    objective('eliminate_town', 'eliminate', 'town'),
+  ]),
+  goon: role('Goon', 'mafia', 'vanilla', [
+    objective('eliminate_town', 'eliminate', 'town'),
+  ]),
+  detective: role('Detective', 'town', 'investigative', [
+    objective('eliminate_mafia', 'eliminate', 'mafia'),
+  ]),
+  doctor: role('Doctor', 'town', 'protective', [
+    objective('eliminate_mafia', 'eliminate', 'mafia'),
+  ]),
+  villager: role('Villager', 'town', 'vanilla', [
+    objective('eliminate_mafia', 'eliminate', 'mafia'),
+  ]),
+  jester: role('Jester', 'neutral', 'power', [
+    objective('get_voted_out', 'eliminate', 'self', 150),
+  ]),
+  survivor: role('Survivor', 'survivor', 'vanilla', [
+    objective('stay_alive', 'survive', undefined, 50),
+  ]),
+});
+
+const createGame = (
+  alivePlayers: string[],
+  overrides: Partial<DeductionGameState['data']> = {}
+): DeductionGameState =>
+  createDeductionGame(
+    {
+      scenario: createScenario({
+        flavorText: createFlavorText({
+          victoryTexts: {
+            town: 'Justice prevails',
+            mafia: 'The family takes the town',
+            neutral: 'Chaos reigns',
+            survivor: 'Somehow, they lived',
+          },
+        }),
+      }),
+      round: 3,
+      alivePlayers,
+      eliminatedPlayers: Object.keys(createRoles()).filter(
+        playerId => !alivePlayers.includes(playerId)
+      ),
+      ...overrides,
+    },
+    { phase: 'day_voting' }
+  );
+
+const evaluate = (
+  alivePlayers: string[],
+  overrides: Partial<DeductionGameState['data']> = {},
+  roles = createRoles()
+) => winConditionEvaluator.evaluate(createGame(alivePlayers, overrides), roles);
+
+describe('WinConditionEvaluator', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(WinConditionEvaluator.getInstance()).toBe(winConditionEvaluator);
+  });
+
+  test('the game goes on while both sides can still win', () => {
+    expect(
+      evaluate(['godfather', 'detective', 'doctor', 'villager', 'jester'])
+    ).toEqual({ isGameOver: false, winners: [], scoreboard: [] });
+  });
+
+  test('town wins once the mafia is gone, dead members included', () => {
+    const evaluation = evaluate(['detective', 'jester']);
+
+    expect(evaluation.isGameOver).toBe(true);
+    expect(evaluation.condition).toBe(WIN_CONDITIONS.townElimination);
+    expect(evaluation.winner).toBe('town');
+    expect(evaluation.winners.sort()).toEqual([
+      'detective',
+      'doctor',
+      'villager',
+    ]);
+  });
+
+  test('mafia wins on parity with the town', () => {
+    const evaluation = evaluate(['godfather', 'villager', 'jester']);
+
+    expect(evaluation.winner).toBe('mafia');
+    expect(evaluation.winners.sort()).toEqual(['godfather', 'goon']);
+  });
+
+  test('a neutral killer wins alone once nobody can stop them', () => {
+    const roles = {
+      ...createRoles(),
+      jester: role('Serial Killer', 'neutral', 'killing'),
+    };
+
+    expect(
+      evaluate(['jester', 'godfather', 'villager'], {}, roles).isGameOver
+    ).toBe(false);
+
+    const evaluation = evaluate(['jester', 'villager'], {}, roles);
+    expect(evaluation.condition).toBe(WIN_CONDITIONS.neutralKiller);
+    expect(evaluation.winner).toBe('jester');
+    expect(evaluation.winners).toEqual(['jester']);
+  });
+
+  test('a neutral who completes their objectives wins, even mid-game', () => {
+    const alive = ['godfather', 'detective', 'doctor', 'villager'];
+    const voting = (eliminated: string[]) =>
+      ({
+        round: 3,
+        votes: [],
+        eliminated,
+        abstentions: [],
+        votingPowerUsed: {},
+      }) as DeductionGameState['data']['votingResults'];
+
+    expect(
+      evaluate(alive, { votingResults: voting(['goon']) }).isGameOver
+    ).toBe(false);
+
+    const evaluation = evaluate(alive, { votingResults: voting(['jester']) });
+    expect(evaluation.condition).toBe(WIN_CONDITIONS.neutralObjectives);
+    expect(evaluation.winner).toBe('jester');
+  });
+
+  test('several conditions can hold at once and everyone involved wins', () => {
+    const evaluation = evaluate(['godfather', 'villager', 'survivor'], {
+      votingResults: {
+        round: 3,
+        votes: [],
+        eliminated: ['jester'],
+        abstentions: [],
+        votingPowerUsed: {},
+      },
+    });
+
+    // The jester's solo win outranks the mafia's, but both happen
+    expect(evaluation.winner).toBe('jester');
+    expect(evaluation.winners.sort()).toEqual([
+      'godfather',
+      'goon',
+      'jester',
+      'survivor',
+    ]);
+  });
+
+  test('survivors win alone when nobody else is left', () => {
+    const evaluation = evaluate(['survivor']);
+
+    expect(evaluation.condition).toBe(WIN_CONDITIONS.survivorsRemain);
+    expect(evaluation.winners).toEqual(['survivor']);
+  });
+
+  test('an empty table is a draw', () => {
+    const evaluation = evaluate([]);
+
+    expect(evaluation.winner).toBe('draw');
+    expect(evaluation.winners).toEqual([]);
+  });
+
+  test('the scoreboard adds up completed objectives', () => {
+    const { scoreboard } = evaluate(['detective', 'survivor']);
+    const points = Object.fromEntries(
+      scoreboard.map(score => [score.playerId, score.points])
+    );
+
+    expect(points).toEqual({
+      godfather: 0,
+      goon: 0,
+      detective: 100,
+      doctor: 100,
+      villager: 100,
+      jester: 0,
+      survivor: 50,
+    });
+    expect(scoreboard[0]!.points).toBe(100);
+    expect(scoreboard.find(score => score.playerId === 'survivor')).toEqual({
+      playerId: 'survivor',
+      roleName: 'Survivor',
+      alignment: 'survivor',
+      isAlive: true,
+      isWinner: true,
+      completedObjectives: ['stay_alive'],
+      points: 50,
+    });
+  });
+
+  test('a faction objective is met when the faction wins on parity', () => {
+    const { scoreboard } = evaluate(['godfather', 'villager']);
+
+    expect(
+      scoreboard.find(score => score.playerId === 'goon')!.completedObjectives
+    ).toEqual(['eliminate_town']);
+  });
+
+  test('finished games move to game over with their result', async () => {
+    const roles = createRoles();
+    await Promise.all(
+      Object.entries(roles).map(([playerId, assigned]) =>
+        kvService.set(`game_role:${GAME_ID}:${playerId}`, assigned)
+      )
+    );
+
+    const ongoing = createGame(['godfather', 'detective', 'doctor']);
+    expect(
+      (await winConditionEvaluator.concludeIfWon(GAME_ID, ongoing)).gameState
+    ).toBe(ongoing);
+
+    const { gameState, evaluation } = await winConditionEvaluator.concludeIfWon(
+      GAME_ID,
+      createGame(['detective', 'doctor'])
+    );
+    expect(gameState.phase).toBe('game_over');
+    expect(gameState.data).toMatchObject({
+      winner: 'town',
+      winCondition: WIN_CONDITIONS.townElimination,
+      winners: evaluation.winners,
+      scoreboard: evaluation.scoreboard,
+    });
+    expect(gameState.data.events.at(-1)).toMatchObject({
+      type: 'victory',
+      isPublic: true,
+      flavorText: 'Justice prevails',
+    });
+  });
+});
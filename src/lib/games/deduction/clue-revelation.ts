@@ -19,7 +19,7 @@ import {
   InvestigationClue,
   NarrativeClue,
 } from './clues';
-import { clueGenerator } from './clues';
+import { ClueGenerator, clueGenerator } from './clues';
 import { clueValidator } from './clue-validation';
 import {
   DeductionGameState,
@@ -32,6 +32,7 @@ import {
 } from '../../../types/deduction';
 import { GameError } from '../../../types/core';
 import { kvService } from '../../database/kv-service';
+import { RandomSource, unseededRandom } from '../../game-engine/random';
 
 // ============================================================================
 // REVELATION SYSTEM INTERFACES
@@ -186,6 +187,13 @@ export class ClueRevelationManager implements RevelationManager {
   private readonly cachePrefix = 'revelation:';
   private readonly cacheTTL = 24 * 60 * 60; // 24 hours
 
+  private constructor(
+    private readonly random: RandomSource = unseededRandom,
+    private readonly clueGen: ClueGenerator = clueGenerator
+  ) {
+    // Private constructor for singleton pattern
+  }
+
   public static getInstance(): ClueRevelationManager {
     if (!ClueRevelationManager.instance) {
       ClueRevelationManager.instance = new ClueRevelationManager();
@@ -193,6 +201,13 @@ export class ClueRevelationManager implements RevelationManager {
     return ClueRevelationManager.instance;
   }
 
+  /**
+   * Create a manager bound to a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): ClueRevelationManager {
+    return new ClueRevelationManager(random, ClueGenerator.withRandom(random));
+  }
+
   /**
    * Check if clue reveal conditions are met
    */
@@ -216,7 +231,10 @@ export class ClueRevelationManager implements RevelationManager {
         );
         if (conditionMet) {
           // Check probability if specified
-          if (condition.probability && condition.probability < Math.random()) {
+          if (
+            condition.probability &&
+            condition.probability < this.random.next()
+          ) {
             continue;
           }
           return true;
@@ -396,7 +414,7 @@ export class ClueRevelationManager implements RevelationManager {
         return this.evaluateVotingCondition(condition.condition, gameState);
 
       case 'random':
-        return Math.random() < (condition.probability || 0.5);
+        return this.random.next() < (condition.probability || 0.5);
 
       default:
         return false;
@@ -558,7 +576,7 @@ export class ClueRevelationManager implements RevelationManager {
     const method = triggeredBy ? 'investigation' : 'automatic';
     const templateArray = templates[method] || templates.automatic;
 
-    return templateArray[Math.floor(Math.random() * templateArray.length)];
+    return templateArray[Math.floor(this.random.next() * templateArray.length)];
   }
 
   private async calculateRevealImpact(
@@ -664,7 +682,7 @@ export class ClueRevelationManager implements RevelationManager {
       'ominous',
       'uncertain',
     ];
-    return descriptors[Math.floor(Math.random() * descriptors.length)];
+    return descriptors[Math.floor(this.random.next() * descriptors.length)];
   }
 
   private determineRevealMethod(
@@ -776,7 +794,7 @@ export class ClueRevelationManager implements RevelationManager {
     // Schedule follow-up atmospheric or investigative clues based on this reveal
     if (clue.strategicValue === 'game_changing') {
       // Create a follow-up atmospheric clue
-      const followUpClues = await clueGenerator.createNarrativeClues(gameState);
+      const followUpClues = await this.clueGen.createNarrativeClues(gameState);
 
       for (const followUpClue of followUpClues) {
         await this.scheduleReveal(followUpClue, gameState.id, [
@@ -822,10 +840,10 @@ export class ClueRevelationManager implements RevelationManager {
     // Generate atmospheric reveals based on game state
     const tension = this.calculateGameTension(gameState);
 
-    if (tension > 0.7 && Math.random() < 0.3) {
+    if (tension > 0.7 && this.random.next() < 0.3) {
       // High tension might trigger an atmospheric reveal
       const atmosphericClues =
-        await clueGenerator.createNarrativeClues(gameState);
+        await this.clueGen.createNarrativeClues(gameState);
 
       for (const clue of atmosphericClues.slice(0, 1)) {
         // Limit to 1 atmospheric reveal
@@ -1154,7 +1172,7 @@ export class ClueRevelationManager implements RevelationManager {
       const recentActions = actionHistory.slice(-3);
       findings.push({
         type: 'behavioral_pattern',
-        content: `Target shows ${recentActions.length > 2 ? 'high' : 'low'} activity levels with ${Math.random() > 0.5 ? 'defensive' : 'aggressive'} tendencies`,
+        content: `Target shows ${recentActions.length > 2 ? 'high' : 'low'} activity levels with ${this.random.next() > 0.5 ? 'defensive' : 'aggressive'} tendencies`,
         confidence: reliability * 0.7,
         verifiable: true,
         implications: [
@@ -1394,7 +1412,7 @@ export class ClueRevelationManager implements RevelationManager {
     const allImplications = findings.flatMap(f => f.implications);
 
     const clue: InvestigationClue = {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: `Investigation Result: ${target.name}`,
       content: combinedContent,
       type: 'action_evidence',
@@ -1481,5 +1499,23 @@ export class ClueRevelationManager implements RevelationManager {
   }
 }
 
+// ============================================================================
+// CLUE VISIBILITY
+// ============================================================================
+
+/**
+ * Check whether a clue card is visible to a player.
+ * Mirrors revealClue: a clue revealed by a player's own investigation is
+ * revealed only to them, while a clue revealed without a trigger goes to all.
+ * Players the clue was dealt to can always see it.
+ */
+export function isClueVisibleTo(clue: ClueCard, playerId?: UUID): boolean {
+  if (clue.isRevealed && (!clue.revealedBy || clue.revealedBy === playerId)) {
+    return true;
+  }
+
+  return !!playerId && !!clue.affectedPlayers?.includes(playerId);
+}
+
 // Export singleton instance
 export const clueRevelationManager = ClueRevelationManager.getInstance();
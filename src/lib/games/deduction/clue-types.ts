@@ -29,6 +29,7 @@ import {
 } from '../../../types/deduction';
 import { generateDeductionContent } from '../../ai';
 import { GameError } from '../../../types/core';
+import { RandomSource, unseededRandom } from '../../game-engine/random';
 
 // ============================================================================
 // SPECIALIZED CLUE TYPE INTERFACES
@@ -172,6 +173,10 @@ export interface SocialAnomaly {
 export class ClueTypeGenerator {
   private static instance: ClueTypeGenerator;
 
+  private constructor(private readonly random: RandomSource = unseededRandom) {
+    // Private constructor for singleton pattern
+  }
+
   public static getInstance(): ClueTypeGenerator {
     if (!ClueTypeGenerator.instance) {
       ClueTypeGenerator.instance = new ClueTypeGenerator();
@@ -179,6 +184,13 @@ export class ClueTypeGenerator {
     return ClueTypeGenerator.instance;
   }
 
+  /**
+   * Create a generator bound to a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): ClueTypeGenerator {
+    return new ClueTypeGenerator(random);
+  }
+
   /**
    * Generate direct evidence clues pointing to specific players
    */
@@ -669,12 +681,12 @@ export class ClueTypeGenerator {
     const methodsArray = methods[clueType] || [
       'Further investigation required',
     ];
-    return methodsArray[Math.floor(Math.random() * methodsArray.length)];
+    return methodsArray[Math.floor(this.random.next() * methodsArray.length)];
   }
 
   private estimateEvidenceTime(gameState: DeductionGameState): string {
     const phases = ['night_actions', 'day_discussion', 'day_voting'];
-    const randomPhase = phases[Math.floor(Math.random() * phases.length)];
+    const randomPhase = phases[Math.floor(this.random.next() * phases.length)];
     return `Round ${Math.max(1, gameState.data.round - 1)} during ${randomPhase}`;
   }
 
@@ -1189,7 +1201,7 @@ export class ClueTypeGenerator {
       'misinterpretation',
     ];
 
-    return types[Math.floor(Math.random() * types.length)];
+    return types[Math.floor(this.random.next() * types.length)];
   }
 
   private identifyPossibleSource(
@@ -1290,7 +1302,7 @@ export class ClueTypeGenerator {
   ): Promise<Clue> {
     //TODO: Implement robust JSON extraction and fallback content generation
     return {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: 'Evidence Found',
       content: content.substring(0, 200),
       type: 'action_evidence',
@@ -1324,7 +1336,7 @@ export class ClueTypeGenerator {
   ): Promise<Clue> {
     //TODO: Implement robust JSON extraction and fallback content generation
     return {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: 'Behavioral Pattern',
       content: content.substring(0, 200),
       type: 'behavioral',
@@ -1358,7 +1370,7 @@ export class ClueTypeGenerator {
   ): Promise<Clue> {
     //TODO: Implement robust JSON extraction and fallback content generation
     return {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: 'Social Dynamic',
       content: content.substring(0, 200),
       type: 'relationship',
@@ -1392,7 +1404,7 @@ export class ClueTypeGenerator {
   ): Promise<Clue> {
     //TODO: Implement robust JSON extraction and fallback content generation
     return {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: 'Investigation Result',
       content: content.substring(0, 200),
       type: 'action_evidence',
@@ -1423,7 +1435,7 @@ export class ClueTypeGenerator {
   private async parseNarrativeResponse(content: string): Promise<Clue> {
     //TODO: Implement robust JSON extraction and fallback content generation
     return {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: 'Story Element',
       content: content.substring(0, 200),
       type: 'environmental',
@@ -1457,7 +1469,7 @@ export class ClueTypeGenerator {
   ): Promise<Clue> {
     //TODO: Implement robust JSON extraction and fallback content generation
     return {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: 'Suspicious Evidence',
       content: content.substring(0, 200),
       type: 'red_herring',
@@ -27,6 +27,7 @@ import {
 import { Player, GameState, GameError, Timestamp } from '../../../types/core';
 import { generateDeductionContent } from '../../ai';
 import { kvService } from '../../database/kv-service';
+import { RandomSource, unseededRandom } from '../../game-engine/random';
 
 // ============================================================================
 // CORE CLUE INTERFACES
@@ -181,6 +182,10 @@ export class ClueGenerator {
   private readonly cachePrefix = 'clue:';
   private readonly cacheTTL = 7 * 24 * 60 * 60; // 7 days in seconds
 
+  private constructor(private readonly random: RandomSource = unseededRandom) {
+    // Private constructor for singleton pattern
+  }
+
   public static getInstance(): ClueGenerator {
     if (!ClueGenerator.instance) {
       ClueGenerator.instance = new ClueGenerator();
@@ -188,6 +193,13 @@ export class ClueGenerator {
     return ClueGenerator.instance;
   }
 
+  /**
+   * Create a generator bound to a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): ClueGenerator {
+    return new ClueGenerator(random);
+  }
+
   /**
    * Generate comprehensive clues for a deduction scenario
    */
@@ -597,7 +609,7 @@ export class ClueGenerator {
     clueData: ClueData,
     type: ClueType
   ): Promise<Clue> {
-    const clueId = crypto.randomUUID() as UUID;
+    const clueId = this.random.uuid() as UUID;
 
     return {
       id: clueId,
@@ -614,7 +626,7 @@ export class ClueGenerator {
       affectedPlayers: [],
       isRevealed: false,
       targetPlayers: clueData.relatedEntities.map(() =>
-        crypto.randomUUID()
+        this.random.uuid()
       ) as UUID[],
       verifiability: this.determineVerifiability(clueData),
       informationValue: Math.round(clueData.reliability * 10),
@@ -725,7 +737,7 @@ export class ClueGenerator {
     gameState: DeductionGameState
   ): NarrativeClue[] {
     const fallbackClue: NarrativeClue = {
-      id: crypto.randomUUID() as UUID,
+      id: this.random.uuid() as UUID,
       title: 'Atmospheric Tension',
       content: `The atmosphere in ${gameState.data.scenario.setting} grows increasingly tense as suspicions mount.`,
       type: 'environmental',
@@ -802,7 +814,7 @@ export class ClueGenerator {
       `Investigation yields important information: ${clue.content}`,
     ];
 
-    return templates[Math.floor(Math.random() * templates.length)];
+    return templates[Math.floor(this.random.next() * templates.length)];
   }
 
   private async calculateClueImpact(
@@ -1013,7 +1025,7 @@ export class ClueGenerator {
     };
 
     const templates = titleTemplates[type];
-    return templates[Math.floor(Math.random() * templates.length)];
+    return templates[Math.floor(this.random.next() * templates.length)];
   }
 
   private generateDefaultRevealConditions(): ClueRevealCondition[] {
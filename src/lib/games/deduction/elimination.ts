@@ -0,0 +1,459 @@
+/**
+ * Elimination Pipeline for RpgAInfinity Deduction Game
+ *
+ * Everything that happens when players die, by vote or during the night:
+ * - They move from the living to the eliminated
+ * - Their role is revealed, unless the game plays with `no_role_reveal`
+ * - The last will they wrote during the game is published
+ * - Abilities with `death` timing fire at the target named in their will:
+ *   a kill takes the target down with them, an investigation tells
+ *   everyone the target's role or alignment
+ *
+ * Players taken down by a death ability go through the same pipeline, so
+ * their roles, wills and death abilities are handled too.
+ */
+
+import {
+  AssignedRole,
+  DeductionGameState,
+  GamePhaseEvent,
+  LastWill,
+  RevealedRole,
+  RoleAbility,
+} from '../../../types/deduction';
+import { GameError, UUID } from '../../../types/core';
+import { kvService } from '../../database';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+export const ELIMINATION_CONFIG = {
+  GAME_TTL: 7 * 24 * 60 * 60, // 7 days, matching the game state
+  MAX_WILL_LENGTH: 1000,
+} as const;
+
+// ============================================================================
+// ELIMINATION TYPES
+// ============================================================================
+
+export type DeathCause = 'vote' | 'night' | 'ability';
+
+export interface EliminationResult {
+  readonly gameState: DeductionGameState;
+  readonly eliminated: UUID[]; // Includes players taken down by death abilities
+  readonly roles: Record<UUID, AssignedRole>; // Roles whose death abilities were used
+  readonly events: GamePhaseEvent[];
+}
+
+interface Death {
+  readonly playerId: UUID;
+  readonly cause: DeathCause;
+  readonly killerId?: UUID;
+}
+
+// ============================================================================
+// ELIMINATION PIPELINE CLASS
+// ============================================================================
+
+export class EliminationPipeline {
+  private static instance: EliminationPipeline;
+
+  private constructor() {}
+
+  static getInstance(): EliminationPipeline {
+    if (!EliminationPipeline.instance) {
+      EliminationPipeline.instance = new EliminationPipeline();
+    }
+    return EliminationPipeline.instance;
+  }
+
+  // ============================================================================
+  // ELIMINATION
+  // ============================================================================
+
+  /**
+   * Eliminate players, loading roles (unless given) and wills from storage.
+   * Nothing is saved; the caller stores the game state and returned roles.
+   */
+  async eliminate(
+    gameId: UUID,
+    gameState: DeductionGameState,
+    playerIds: UUID[],
+    cause: DeathCause,
+    roles?: Record<UUID, AssignedRole>
+  ): Promise<EliminationResult> {
+    const [loadedRoles, wills] = await Promise.all([
+      roles ??
+        this.loadRoles(gameId, [
+          ...gameState.data.alivePlayers,
+          ...gameState.data.eliminatedPlayers,
+        ]),
+      // Victims may already be off the living list when the caller moved them
+      this.loadWills(gameId, [
+        ...new Set([...playerIds, ...gameState.data.alivePlayers]),
+      ]),
+    ]);
+
+    return this.apply(gameState, loadedRoles, wills, playerIds, cause);
+  }
+
+  /**
+   * Eliminate players without touching storage. Callers announce the deaths
+   * they cause; deaths from death abilities are announced here.
+   */
+  apply(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>,
+    wills: Record<UUID, LastWill>,
+    playerIds: UUID[],
+    cause: DeathCause
+  ): EliminationResult {
+    const { round, scenario } = gameState.data;
+    const revealRoles = gameState.data.revealPolicy !== 'no_role_reveal';
+    const publishWills = gameState.data.allowsLastWills !== false;
+    const timestamp = new Date();
+
+    let alivePlayers = gameState.data.alivePlayers;
+    const eliminatedPlayers = [...gameState.data.eliminatedPlayers];
+    const revealedRoles: Record<UUID, RevealedRole> = {
+      ...gameState.data.revealedRoles,
+    };
+    const lastWills: Record<UUID, string> = { ...gameState.data.lastWills };
+    const updatedRoles: Record<UUID, AssignedRole> = {};
+    const events: GamePhaseEvent[] = [];
+    const eliminated: UUID[] = [];
+
+    const queue: Death[] = playerIds.map(playerId => ({ playerId, cause }));
+    while (queue.length > 0) {
+      const death = queue.shift()!;
+      const { playerId } = death;
+      if (eliminated.includes(playerId)) continue;
+
+      eliminated.push(playerId);
+      alivePlayers = alivePlayers.filter(alive => alive !== playerId);
+      if (!eliminatedPlayers.includes(playerId)) {
+        eliminatedPlayers.push(playerId);
+      }
+
+      if (death.cause === 'ability') {
+        events.push({
+          id: crypto.randomUUID(),
+          type: 'elimination',
+          description: `${playerId} was taken down by ${death.killerId}'s dying act`,
+          timestamp,
+          affectedPlayers: [playerId],
+          isPublic: true,
+          flavorText: scenario.flavorText?.eliminationText,
+        });
+      }
+
+      const role = roles[playerId];
+      if (revealRoles && role) {
+        revealedRoles[playerId] = this.toRevealedRole(role);
+        events.push({
+          id: crypto.randomUUID(),
+          type: 'role_revealed',
+          description: `${playerId} was the ${role.definition.name}`,
+          timestamp,
+          affectedPlayers: [playerId],
+          isPublic: true,
+          flavorText:
+            scenario.flavorText?.roleRevealTexts?.[role.definition.name],
+        });
+      }
+
+      const will = wills[playerId];
+      if (publishWills && will?.content.trim()) {
+        lastWills[playerId] = will.content;
+        events.push({
+          id: crypto.randomUUID(),
+          type: 'last_will',
+          description: `The last will of ${playerId} has been found`,
+          timestamp,
+          affectedPlayers: [playerId],
+          isPublic: true,
+          flavorText: will.content,
+        });
+      }
+
+      if (!role) continue;
+
+      const used: string[] = [];
+      for (const active of role.abilities) {
+        const { ability } = active;
+        if (ability.timing !== 'death' || !this.canUse(active)) continue;
+
+        const targetId = this.getDeathTarget(
+          ability,
+          playerId,
+          will?.deathTargetId,
+          alivePlayers,
+          eliminatedPlayers
+        );
+        if (ability.target !== 'none' && !targetId) continue;
+
+        used.push(ability.name);
+        events.push({
+          id: crypto.randomUUID(),
+          type: 'ability_used',
+          description: `${playerId} used ${ability.name} with their last breath`,
+          timestamp,
+          affectedPlayers: targetId ? [playerId, targetId] : [playerId],
+          isPublic: true,
+        });
+
+        const target = targetId ? roles[targetId] : undefined;
+        for (const effect of ability.effects) {
+          switch (effect.type) {
+            case 'kill':
+              if (targetId && alivePlayers.includes(targetId)) {
+                queue.push({
+                  playerId: targetId,
+                  cause: 'ability',
+                  killerId: playerId,
+                });
+              }
+              break;
+            case 'learn_role':
+              if (targetId && target) {
+                revealedRoles[targetId] = this.toRevealedRole(target);
+                events.push({
+                  id: crypto.randomUUID(),
+                  type: 'role_revealed',
+                  description: `${playerId} exposed ${targetId} as the ${target.definition.name}`,
+                  timestamp,
+                  affectedPlayers: [targetId],
+                  isPublic: true,
+                });
+              }
+              break;
+            case 'learn_alignment':
+              if (targetId && target) {
+                events.push({
+                  id: crypto.randomUUID(),
+                  type: 'role_revealed',
+                  description: `${playerId} exposed ${targetId} as siding with the ${target.definition.alignment}`,
+                  timestamp,
+                  affectedPlayers: [targetId],
+                  isPublic: true,
+                });
+              }
+              break;
+            default:
+              // Blocks, protection and redirects mean nothing once dead
+              break;
+          }
+        }
+      }
+
+      if (used.length > 0) {
+        updatedRoles[playerId] = this.spendUses(role, used, round);
+      }
+    }
+
+    return {
+      gameState: {
+        ...gameState,
+        data: {
+          ...gameState.data,
+          alivePlayers,
+          eliminatedPlayers,
+          revealedRoles,
+          lastWills,
+        },
+      },
+      eliminated,
+      roles: updatedRoles,
+      events,
+    };
+  }
+
+  // ============================================================================
+  // LAST WILLS
+  // ============================================================================
+
+  /**
+   * Store the will a living player has written, replacing any earlier one
+   */
+  async saveWill(
+    gameId: UUID,
+    gameState: DeductionGameState,
+    will: LastWill
+  ): Promise<LastWill> {
+    if (!gameState.data.alivePlayers.includes(will.playerId)) {
+      throw new GameError(
+        'PLAYER_ELIMINATED',
+        'Eliminated players cannot change their will',
+        { playerId: will.playerId }
+      );
+    }
+    if (will.content.trim() && gameState.data.allowsLastWills === false) {
+      throw new GameError(
+        'INVALID_ACTION',
+        'Last wills are turned off in this game',
+        { gameId }
+      );
+    }
+    if (will.content.length > ELIMINATION_CONFIG.MAX_WILL_LENGTH) {
+      throw new GameError('INVALID_ACTION', 'Your will is too long', {
+        maxLength: ELIMINATION_CONFIG.MAX_WILL_LENGTH,
+      });
+    }
+    if (
+      will.deathTargetId &&
+      !gameState.data.alivePlayers.includes(will.deathTargetId)
+    ) {
+      throw new GameError(
+        'INVALID_TARGET',
+        'Only living players can be named in your will',
+        { deathTargetId: will.deathTargetId }
+      );
+    }
+
+    await kvService.set(
+      this.willKey(gameId, will.playerId),
+      will,
+      ELIMINATION_CONFIG.GAME_TTL
+    );
+    return will;
+  }
+
+  /**
+   * A player's stored will, if they have written one
+   */
+  async getWill(gameId: UUID, playerId: UUID): Promise<LastWill | null> {
+    const result = await kvService.get<LastWill>(
+      this.willKey(gameId, playerId)
+    );
+    if (!result.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to load last will', {
+        gameId,
+        playerId,
+      });
+    }
+    return result.data ?? null;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private toRevealedRole(role: AssignedRole): RevealedRole {
+    return {
+      role: role.definition.name,
+      alignment: role.definition.alignment,
+    };
+  }
+
+  private canUse(active: AssignedRole['abilities'][number]): boolean {
+    const { type } = active.ability.usageLimit;
+    return (
+      !active.isBlocked &&
+      !(
+        (type === 'per_game' || type === 'one_time') &&
+        active.remainingUses === 0
+      )
+    );
+  }
+
+  /**
+   * Death abilities aim at the player named in the will; those without a
+   * valid target fizzle
+   */
+  private getDeathTarget(
+    ability: RoleAbility,
+    playerId: UUID,
+    deathTargetId: UUID | undefined,
+    alivePlayers: UUID[],
+    eliminatedPlayers: UUID[]
+  ): UUID | undefined {
+    switch (ability.target) {
+      case 'none':
+        return undefined;
+      case 'self':
+        return playerId;
+      case 'dead_player':
+        return deathTargetId && eliminatedPlayers.includes(deathTargetId)
+          ? deathTargetId
+          : undefined;
+      default:
+        return deathTargetId &&
+          deathTargetId !== playerId &&
+          alivePlayers.includes(deathTargetId)
+          ? deathTargetId
+          : undefined;
+    }
+  }
+
+  private spendUses(
+    role: AssignedRole,
+    abilityNames: string[],
+    round: number
+  ): AssignedRole {
+    return {
+      ...role,
+      abilities: role.abilities.map(active => {
+        if (!abilityNames.includes(active.ability.name)) return active;
+        const { type } = active.ability.usageLimit;
+        const spends =
+          (type === 'per_game' || type === 'one_time') &&
+          active.remainingUses > 0;
+        return {
+          ...active,
+          remainingUses: active.remainingUses - (spends ? 1 : 0),
+          lastUsedRound: round,
+        };
+      }),
+    };
+  }
+
+  private willKey(gameId: UUID, playerId: UUID): string {
+    return `game_will:${gameId}:${playerId}`;
+  }
+
+  private async loadWills(
+    gameId: UUID,
+    playerIds: UUID[]
+  ): Promise<Record<UUID, LastWill>> {
+    const entries = await Promise.all(
+      playerIds.map(async playerId => {
+        const result = await kvService.get<LastWill>(
+          this.willKey(gameId, playerId)
+        );
+        return [playerId, result.success ? result.data : null] as const;
+      })
+    );
+
+    return Object.fromEntries(
+      entries.filter(
+        (entry): entry is readonly [UUID, LastWill] =>
+          typeof entry[1]?.content === 'string'
+      )
+    );
+  }
+
+  private async loadRoles(
+    gameId: UUID,
+    playerIds: UUID[]
+  ): Promise<Record<UUID, AssignedRole>> {
+    const entries = await Promise.all(
+      playerIds.map(async playerId => {
+        const result = await kvService.get<AssignedRole>(
+          `game_role:${gameId}:${playerId}`
+        );
+        return [playerId, result.success ? result.data : null] as const;
+      })
+    );
+
+    return Object.fromEntries(
+      entries.filter(
+        (entry): entry is readonly [UUID, AssignedRole] =>
+          entry[1]?.definition !== undefined
+      )
+    );
+  }
+}
+
+// Export singleton instance
+export const eliminationPipeline = EliminationPipeline.getInstance();
@@ -0,0 +1,280 @@
+/**
+ * Deduction Game Storage
+ *
+ * Every save of a deduction game is a compare-and-swap against the version
+ * the caller loaded, so two requests acting on the same game at once can
+ * never overwrite each other. A save that loses the race fails with a
+ * STATE_CONFLICT error; updates that are safe to repeat go through
+ * updateDeductionGame, which re-runs them on the fresher state instead.
+ *
+ * Each save also logs an update action in the game's action history, carrying
+ * what the save changed. deductionActionEffects applies those changes again,
+ * which is how the replay engine rebuilds any earlier version of the game.
+ */
+
+import {
+  DeductionGameState,
+  GameAction,
+  GameError,
+  JSONValue,
+  UUID,
+} from '../../../types';
+import { kvService } from '../../database';
+import { ActionEffects, isStateConflict } from '../../game-engine/core';
+
+export const DEDUCTION_GAME_TTL = 7 * 24 * 60 * 60; // 7 days
+
+/**
+ * Action type logged for every save of a deduction game
+ */
+export const DEDUCTION_UPDATE_ACTION = 'update_game';
+
+const UPDATE_CONFLICT_RETRIES = 8; // Enough for every player acting at once
+const UPDATE_BACKOFF_MS = 20; // Base delay between attempts
+
+// Saves are made by the game itself, so no player's view of the log has them
+const GAME_ACTOR_ID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * What a save changed in the game's data: values replaced outright, lists
+ * that only grew (with just their new entries) and keys that were dropped
+ */
+interface DeductionDataChanges {
+  readonly set: Record<string, JSONValue>;
+  readonly appended: Record<string, JSONValue[]>;
+  readonly removed: string[];
+}
+
+/**
+ * Storage key of a deduction game's state
+ */
+export function deductionGameKey(gameId: UUID): string {
+  return `game:${gameId}`;
+}
+
+/**
+ * Storage key of the state a deduction game started from
+ */
+function initialStateKey(gameId: UUID): string {
+  return `game_initial_state:${gameId}`;
+}
+
+/**
+ * Store a new game, keeping its first version as the starting point replays
+ * are rebuilt from
+ */
+export async function createDeductionGame(
+  gameId: UUID,
+  gameState: DeductionGameState
+): Promise<void> {
+  const result = await kvService.set(
+    deductionGameKey(gameId),
+    gameState,
+    DEDUCTION_GAME_TTL
+  );
+  if (!result.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to save game', { gameId });
+  }
+  await kvService.set(initialStateKey(gameId), gameState, DEDUCTION_GAME_TTL);
+}
+
+/**
+ * Load a game's current state
+ */
+export async function loadDeductionGame(
+  gameId: UUID
+): Promise<DeductionGameState> {
+  const result = await kvService.get<DeductionGameState>(
+    deductionGameKey(gameId)
+  );
+  if (!result.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to load game', { gameId });
+  }
+  if (!result.data) {
+    throw new GameError('GAME_NOT_FOUND', 'Game not found', { gameId });
+  }
+  return result.data;
+}
+
+/**
+ * Save a state built from the stored version of the game as its next
+ * version. Returns the saved state, or throws STATE_CONFLICT if another
+ * save landed since the state was loaded.
+ */
+export async function saveDeductionGame(
+  gameId: UUID,
+  gameState: DeductionGameState
+): Promise<DeductionGameState> {
+  const key = deductionGameKey(gameId);
+  const stored = await kvService.get<DeductionGameState>(key);
+  if (!stored.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to load game', { gameId });
+  }
+
+  const expectedVersion = gameState.metadata.version;
+  const storedVersion = stored.data?.metadata.version ?? null;
+  if (storedVersion !== expectedVersion) {
+    throw conflictError(gameId, expectedVersion, storedVersion);
+  }
+
+  const update = createUpdateAction(gameId, stored.data!, gameState);
+  const next: DeductionGameState = {
+    ...gameState,
+    metadata: {
+      ...gameState.metadata,
+      version: expectedVersion + 1,
+      lastAction: update,
+      actionHistory: [...gameState.metadata.actionHistory, update],
+    },
+  };
+  const result = await kvService.compareAndSwap(
+    key,
+    stored.data,
+    next,
+    DEDUCTION_GAME_TTL
+  );
+  if (!result.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to save game', { gameId });
+  }
+  if (!result.data) {
+    throw conflictError(gameId, expectedVersion, null);
+  }
+  // The starting point must live exactly as long as the game does
+  await kvService.expire(initialStateKey(gameId), DEDUCTION_GAME_TTL);
+  return next;
+}
+
+/**
+ * Load the game, apply `update` and save the result, applying it again to
+ * the fresher state whenever another save lands first. `update` may run
+ * more than once, so it must not write to storage itself.
+ */
+export async function updateDeductionGame(
+  gameId: UUID,
+  update: (
+    gameState: DeductionGameState
+  ) => DeductionGameState | Promise<DeductionGameState>
+): Promise<DeductionGameState> {
+  for (let attempt = 1; ; attempt++) {
+    const gameState = await loadDeductionGame(gameId);
+    try {
+      return await saveDeductionGame(gameId, await update(gameState));
+    } catch (error) {
+      if (!isStateConflict(error) || attempt >= UPDATE_CONFLICT_RETRIES) {
+        throw error;
+      }
+      await new Promise(resolve =>
+        setTimeout(resolve, UPDATE_BACKOFF_MS * attempt)
+      );
+    }
+  }
+}
+
+/**
+ * Re-apply a logged save to the version it was made on top of. Registered
+ * with the engine for deduction games, so replays rebuild every version.
+ */
+export const deductionActionEffects: ActionEffects = async (
+  result,
+  previousState
+) => {
+  const action = result.newState!.metadata.lastAction!;
+  if (action.type !== DEDUCTION_UPDATE_ACTION) {
+    return result;
+  }
+
+  const changes = action.data.changes as unknown as DeductionDataChanges;
+  return {
+    ...result,
+    newState: {
+      ...result.newState!,
+      phase: action.data.phase as string,
+      // Deduction games count rounds in their data, not engine turns
+      turn: previousState.turn,
+      data: applyDataChanges(previousState.data, changes),
+      metadata: {
+        ...result.newState!.metadata,
+        random: (action.data.random ??
+          previousState.metadata
+            .random) as typeof previousState.metadata.random,
+      },
+    },
+  };
+};
+
+/**
+ * The action logging a save: the phase it moved to and what it changed
+ */
+function createUpdateAction(
+  gameId: UUID,
+  stored: DeductionGameState,
+  gameState: DeductionGameState
+): GameAction {
+  // The action log only holds plain JSON
+  const toJSON = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+  const before: Record<string, unknown> = toJSON(stored.data);
+  const after: Record<string, unknown> = toJSON(gameState.data);
+
+  const changes: DeductionDataChanges = { set: {}, appended: {}, removed: [] };
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) {
+      changes.removed.push(key);
+    }
+  }
+  for (const [key, value] of Object.entries(after)) {
+    const previous = before[key];
+    if (JSON.stringify(previous) === JSON.stringify(value)) {
+      continue;
+    }
+    if (
+      Array.isArray(previous) &&
+      Array.isArray(value) &&
+      value.length > previous.length &&
+      JSON.stringify(value.slice(0, previous.length)) ===
+        JSON.stringify(previous)
+    ) {
+      changes.appended[key] = value.slice(previous.length);
+    } else {
+      changes.set[key] = value as JSONValue;
+    }
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    type: DEDUCTION_UPDATE_ACTION,
+    playerId: GAME_ACTOR_ID,
+    gameId,
+    timestamp: new Date(),
+    data: {
+      phase: gameState.phase,
+      changes: changes as unknown as JSONValue,
+      random: toJSON(gameState.metadata.random ?? null) as JSONValue,
+    },
+  };
+}
+
+function applyDataChanges(
+  data: Record<string, any>,
+  changes: DeductionDataChanges
+): Record<string, any> {
+  const next = { ...data };
+  for (const key of changes.removed) {
+    delete next[key];
+  }
+  for (const [key, entries] of Object.entries(changes.appended)) {
+    next[key] = [...(data[key] ?? []), ...entries];
+  }
+  return { ...next, ...changes.set };
+}
+
+function conflictError(
+  gameId: UUID,
+  expectedVersion: number,
+  actualVersion: number | null
+): GameError {
+  return new GameError(
+    'STATE_CONFLICT',
+    'The game was changed by another action',
+    { gameId, expectedVersion, actualVersion }
+  );
+}
@@ -85,6 +85,15 @@ export {
   type AtmosphericReveal,
 } from './clue-revelation';
 
+import { ClueGenerator, clueGenerator } from './clues';
+import { ClueTypeGenerator, clueTypeGenerator } from './clue-types';
+import { clueValidator } from './clue-validation';
+import {
+  ClueRevelationManager,
+  clueRevelationManager,
+} from './clue-revelation';
+import { RandomSource, unseededRandom } from '../../game-engine/random';
+
 // ============================================================================
 // UNIFIED CLUE MANAGEMENT SYSTEM
 // ============================================================================
@@ -99,7 +108,8 @@ export class DeductionClueSystem {
     private readonly clueGen = clueGenerator,
     private readonly clueValidator = clueValidator,
     private readonly revelationManager = clueRevelationManager,
-    private readonly typeGenerator = clueTypeGenerator
+    private readonly typeGenerator = clueTypeGenerator,
+    private readonly random: RandomSource = unseededRandom
   ) {}
 
   public static getInstance(): DeductionClueSystem {
@@ -109,6 +119,19 @@ export class DeductionClueSystem {
     return DeductionClueSystem.instance;
   }
 
+  /**
+   * Create a clue system whose generators share a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): DeductionClueSystem {
+    return new DeductionClueSystem(
+      ClueGenerator.withRandom(random),
+      clueValidator,
+      ClueRevelationManager.withRandom(random),
+      ClueTypeGenerator.withRandom(random),
+      random
+    );
+  }
+
   /**
    * Generate a complete set of balanced clues for a deduction game
    */
@@ -471,7 +494,7 @@ export class DeductionClueSystem {
     const reveals: ClueReveal[] = [];
 
     // Generate phase-appropriate atmospheric reveals
-    if (event.data?.newPhase === 'day_discussion' && Math.random() < 0.2) {
+    if (event.data?.newPhase === 'day_discussion' && this.random.chance(0.2)) {
       const atmosphericClues =
         await this.clueGen.createNarrativeClues(gameState);
 
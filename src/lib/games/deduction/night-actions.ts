@@ -0,0 +1,801 @@
+/**
+ * Night Action Resolver for RpgAInfinity Deduction Game
+ *
+ * Collects the abilities players queue during `night_actions` and resolves
+ * them together once the night ends:
+ * - Submissions are checked against the ability's timing, target type,
+ *   usage limit and the role's restrictions
+ * - Actions resolve in a fixed order: block, redirect, protect, kill,
+ *   then investigate, so a blocked doctor cannot save anyone and a
+ *   redirected killer strikes whoever they were pointed at
+ * - Each actor gets a private result; deaths are announced publicly and
+ *   go through the elimination pipeline
+ * - The game then moves on to the next day's discussion, unless the
+ *   night's deaths decided it
+ */
+
+import {
+  AbilityEffect,
+  AssignedRole,
+  DeductionGameState,
+  GamePhaseEvent,
+  NightAction,
+  NightActionResult,
+  RoleAbility,
+  RoleRestriction,
+} from '../../../types/deduction';
+import { GameError, JSONValue, UUID } from '../../../types/core';
+import { kvService } from '../../database';
+import {
+  loadDeductionGame,
+  saveDeductionGame,
+  updateDeductionGame,
+} from './game-store';
+import { winConditionEvaluator } from './win-conditions';
+import { eliminationPipeline } from './elimination';
+import { isVoteRestriction } from './voting-rules';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+/**
+ * Order in which night actions resolve; lower resolves first
+ */
+export const NIGHT_ACTION_PRIORITY = {
+  block: 1,
+  redirect: 2,
+  protect: 3,
+  kill: 4,
+  investigate: 5,
+} as const;
+
+export const NIGHT_ACTION_CONFIG = {
+  GAME_TTL: 7 * 24 * 60 * 60, // 7 days, matching the game state
+} as const;
+
+const EFFECT_STAGES: Record<AbilityEffect['type'], NightStage | null> = {
+  block: 'block',
+  redirect: 'redirect',
+  protect: 'protect',
+  kill: 'kill',
+  learn_alignment: 'investigate',
+  learn_role: 'investigate',
+  modify_vote: null,
+};
+
+// ============================================================================
+// NIGHT ACTION TYPES
+// ============================================================================
+
+export type NightStage = keyof typeof NIGHT_ACTION_PRIORITY;
+
+export interface NightActionRequest {
+  readonly abilityName: string;
+  readonly targetId?: UUID;
+  readonly parameters?: Record<string, JSONValue>;
+}
+
+export interface NightResolution {
+  readonly gameState: DeductionGameState;
+  readonly actions: NightAction[];
+  readonly eliminated: UUID[];
+  readonly privateResults: Record<UUID, NightActionResult>;
+  readonly roles: Record<UUID, AssignedRole>;
+  readonly events: GamePhaseEvent[];
+}
+
+/**
+ * What happens to an action as the night plays out; `targetId` moves when
+ * the action is redirected
+ */
+interface ActionOutcome {
+  readonly action: NightAction;
+  readonly ability: RoleAbility;
+  targetId?: UUID;
+  blockedBy?: UUID;
+  redirectedTo?: UUID;
+  information?: string;
+  effects: string[];
+  success: boolean;
+}
+
+// ============================================================================
+// NIGHT ACTION RESOLVER CLASS
+// ============================================================================
+
+export class NightActionResolver {
+  private static instance: NightActionResolver;
+
+  private constructor() {}
+
+  static getInstance(): NightActionResolver {
+    if (!NightActionResolver.instance) {
+      NightActionResolver.instance = new NightActionResolver();
+    }
+    return NightActionResolver.instance;
+  }
+
+  // ============================================================================
+  // PHASE FLOW
+  // ============================================================================
+
+  /**
+   * Move a game into the night with an empty action queue
+   */
+  openNight(gameState: DeductionGameState): DeductionGameState {
+    return {
+      ...gameState,
+      phase: 'night_actions',
+      data: { ...gameState.data, nightActions: [] },
+    };
+  }
+
+  /**
+   * Queue a player's night ability, replacing anything they queued earlier
+   * the same night
+   */
+  async submitAction(
+    gameId: UUID,
+    actorId: UUID,
+    request: NightActionRequest
+  ): Promise<NightAction> {
+    // Players queue their actions at the same time, so re-apply this one on
+    // top of whatever landed first instead of overwriting it
+    let action: NightAction | undefined;
+    await updateDeductionGame(gameId, async gameState => {
+      const roles = await this.loadRoles(gameId, gameState.data.alivePlayers);
+      action = this.createAction(gameState, roles, actorId, request);
+      return {
+        ...gameState,
+        data: {
+          ...gameState.data,
+          nightActions: [
+            ...gameState.data.nightActions.filter(
+              queued => queued.actorId !== actorId
+            ),
+            action,
+          ],
+        },
+      };
+    });
+
+    return action!;
+  }
+
+  /**
+   * Living players who have a night ability to use and have not yet queued
+   * an action
+   */
+  async getPendingActors(gameId: UUID): Promise<UUID[]> {
+    const gameState = await this.loadGame(gameId);
+    const roles = await this.loadRoles(gameId, gameState.data.alivePlayers);
+    const acted = new Set(
+      gameState.data.nightActions.map(action => action.actorId)
+    );
+
+    return gameState.data.alivePlayers.filter(
+      playerId =>
+        !acted.has(playerId) &&
+        (roles[playerId]?.abilities ?? []).some(
+          active =>
+            this.isNightAbility(active.ability) &&
+            this.getUsageError(active, gameState.data.round) === undefined
+        )
+    );
+  }
+
+  /**
+   * Resolve the queued night actions, save the outcome and move on to the
+   * next day, or end the game if someone has won
+   */
+  async resolveNight(gameId: UUID): Promise<NightResolution> {
+    const gameState = await this.loadGame(gameId);
+    const roles = await this.loadRoles(gameId, [
+      ...gameState.data.alivePlayers,
+      ...gameState.data.eliminatedPlayers,
+    ]);
+    const night = this.resolve(gameState, roles);
+
+    // Reveal the victims' roles and wills and fire their death abilities
+    const elimination = await eliminationPipeline.eliminate(
+      gameId,
+      night.gameState,
+      night.eliminated,
+      'night',
+      { ...roles, ...night.roles }
+    );
+    const eliminatedState: DeductionGameState = {
+      ...elimination.gameState,
+      data: {
+        ...elimination.gameState.data,
+        events: [...elimination.gameState.data.events, ...elimination.events],
+      },
+    };
+
+    const { gameState: concludedState } =
+      await winConditionEvaluator.concludeIfWon(gameId, eliminatedState);
+
+    // Save first so a night resolved twice at once only writes its roles
+    // and results once
+    const resolution: NightResolution = {
+      ...night,
+      eliminated: elimination.eliminated,
+      roles: { ...night.roles, ...elimination.roles },
+      events: [...night.events, ...elimination.events],
+      gameState: await this.saveGame(gameId, concludedState),
+    };
+
+    await Promise.all(
+      Object.entries(resolution.roles).map(([playerId, role]) =>
+        kvService.set(
+          `game_role:${gameId}:${playerId}`,
+          role,
+          NIGHT_ACTION_CONFIG.GAME_TTL
+        )
+      )
+    );
+    await Promise.all(
+      Object.entries(resolution.privateResults).map(([playerId, result]) =>
+        kvService.set(
+          this.resultKey(gameId, gameState.data.round, playerId),
+          result,
+          NIGHT_ACTION_CONFIG.GAME_TTL
+        )
+      )
+    );
+
+    return resolution;
+  }
+
+  /**
+   * A player's private result from the given round's night, if they acted
+   */
+  async getPrivateResult(
+    gameId: UUID,
+    round: number,
+    playerId: UUID
+  ): Promise<NightActionResult | null> {
+    const result = await kvService.get<NightActionResult>(
+      this.resultKey(gameId, round, playerId)
+    );
+    if (!result.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to load night result', {
+        gameId,
+        round,
+        playerId,
+      });
+    }
+    return result.data ?? null;
+  }
+
+  // ============================================================================
+  // SUBMISSION
+  // ============================================================================
+
+  /**
+   * Build a night action for a player, refusing anything their role does not
+   * allow tonight
+   */
+  createAction(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>,
+    actorId: UUID,
+    request: NightActionRequest
+  ): NightAction {
+    if (gameState.phase !== 'night_actions') {
+      throw new GameError(
+        'INVALID_PHASE',
+        'Night abilities can only be used at night',
+        { currentPhase: gameState.phase }
+      );
+    }
+    if (!gameState.data.alivePlayers.includes(actorId)) {
+      throw new GameError(
+        'INVALID_ACTION',
+        'Eliminated players cannot act at night',
+        { actorId }
+      );
+    }
+
+    const role = roles[actorId];
+    const active = role?.abilities.find(
+      candidate => candidate.ability.name === request.abilityName
+    );
+    if (!role || !active) {
+      throw new GameError('INVALID_ACTION', 'Your role has no such ability', {
+        actorId,
+        abilityName: request.abilityName,
+      });
+    }
+
+    const { ability } = active;
+    const stage = this.getStage(ability);
+    if (!this.isNightAbility(ability) || !stage) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${ability.name} cannot be used at night`,
+        { abilityName: ability.name, timing: ability.timing }
+      );
+    }
+
+    const usageError = this.getUsageError(active, gameState.data.round);
+    if (usageError) {
+      throw new GameError('INVALID_ACTION', usageError, {
+        abilityName: ability.name,
+        remainingUses: active.remainingUses,
+      });
+    }
+
+    const targetId =
+      ability.target === 'self' ? actorId : (request.targetId ?? undefined);
+    const targetError =
+      this.getTargetError(gameState, ability, actorId, targetId) ??
+      this.getRestrictionError(
+        gameState,
+        roles,
+        role,
+        active.lastUsedRound,
+        actorId,
+        targetId
+      );
+    if (targetError) {
+      throw new GameError('INVALID_ACTION', targetError, {
+        abilityName: ability.name,
+        targetId: targetId ?? null,
+      });
+    }
+
+    if (
+      stage === 'redirect' &&
+      typeof request.parameters?.redirectTo !== 'string'
+    ) {
+      throw new GameError(
+        'INVALID_ACTION',
+        'A redirect needs a player to send the action to',
+        { abilityName: ability.name }
+      );
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      actorId,
+      ability: ability.name,
+      targetId,
+      parameters: request.parameters,
+      isResolved: false,
+      priority: NIGHT_ACTION_PRIORITY[stage],
+    };
+  }
+
+  // ============================================================================
+  // RESOLUTION
+  // ============================================================================
+
+  /**
+   * Play out a night without touching storage
+   */
+  resolve(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>
+  ): NightResolution {
+    const { round } = gameState.data;
+    const outcomes = this.collectOutcomes(gameState, roles);
+    const byActor = new Map(
+      outcomes.map(outcome => [outcome.action.actorId, outcome])
+    );
+    const protectors = new Map<UUID, ActionOutcome[]>();
+    const eliminated: UUID[] = [];
+
+    for (const stage of this.stagesInOrder()) {
+      for (const outcome of outcomes) {
+        if (
+          outcome.action.priority !== NIGHT_ACTION_PRIORITY[stage] ||
+          outcome.blockedBy
+        ) {
+          continue;
+        }
+
+        const { targetId } = outcome;
+        switch (stage) {
+          case 'block': {
+            const blocked = targetId ? byActor.get(targetId) : undefined;
+            if (blocked && blocked !== outcome) {
+              blocked.blockedBy = outcome.action.actorId;
+              blocked.success = false;
+              blocked.effects.push('You were blocked and could not act');
+            }
+            this.succeed(outcome, `You blocked ${targetId}`);
+            break;
+          }
+          case 'redirect': {
+            const redirected = targetId ? byActor.get(targetId) : undefined;
+            const redirectTo = outcome.action.parameters?.redirectTo as UUID;
+            if (redirected && redirected !== outcome) {
+              redirected.targetId = redirectTo;
+              redirected.redirectedTo = redirectTo;
+            }
+            this.succeed(
+              outcome,
+              `You redirected ${targetId} towards ${redirectTo}`
+            );
+            break;
+          }
+          case 'protect':
+            if (targetId) {
+              protectors.set(targetId, [
+                ...(protectors.get(targetId) ?? []),
+                outcome,
+              ]);
+            }
+            this.succeed(outcome, `You protected ${targetId}`);
+            break;
+          case 'kill':
+            if (!targetId) break;
+            if (protectors.has(targetId)) {
+              outcome.effects.push(`${targetId} survived your attack`);
+              protectors
+                .get(targetId)!
+                .forEach(protector =>
+                  protector.effects.push(`You saved ${targetId} from an attack`)
+                );
+              break;
+            }
+            if (!eliminated.includes(targetId)) eliminated.push(targetId);
+            this.succeed(outcome, `You killed ${targetId}`);
+            break;
+          case 'investigate':
+            if (!targetId) break;
+            outcome.information = this.investigate(
+              outcome.ability,
+              roles[targetId]
+            );
+            this.succeed(outcome, `You investigated ${targetId}`);
+            break;
+        }
+      }
+    }
+
+    const actions = outcomes.map(outcome => this.toResolvedAction(outcome));
+    const events = this.createEvents(gameState, outcomes, eliminated);
+
+    return {
+      gameState: {
+        ...gameState,
+        phase: 'day_discussion',
+        data: {
+          ...gameState.data,
+          round: round + 1,
+          alivePlayers: gameState.data.alivePlayers.filter(
+            playerId => !eliminated.includes(playerId)
+          ),
+          eliminatedPlayers: [
+            ...gameState.data.eliminatedPlayers,
+            ...eliminated,
+          ],
+          nightActions: actions,
+          events: [...gameState.data.events, ...events],
+        },
+      },
+      actions,
+      eliminated,
+      privateResults: Object.fromEntries(
+        actions.map(action => [action.actorId, action.result!])
+      ),
+      roles: this.spendUses(roles, outcomes, round),
+      events,
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private stagesInOrder(): NightStage[] {
+    return (Object.keys(NIGHT_ACTION_PRIORITY) as NightStage[]).sort(
+      (a, b) => NIGHT_ACTION_PRIORITY[a] - NIGHT_ACTION_PRIORITY[b]
+    );
+  }
+
+  private getStage(ability: RoleAbility): NightStage | null {
+    return ability.effects.reduce<NightStage | null>((stage, effect) => {
+      const effectStage = EFFECT_STAGES[effect.type];
+      if (!effectStage) return stage;
+      return !stage ||
+        NIGHT_ACTION_PRIORITY[effectStage] < NIGHT_ACTION_PRIORITY[stage]
+        ? effectStage
+        : stage;
+    }, null);
+  }
+
+  private isNightAbility(ability: RoleAbility): boolean {
+    return ability.timing === 'night' || ability.timing === 'anytime';
+  }
+
+  private getUsageError(
+    active: AssignedRole['abilities'][number],
+    round: number
+  ): string | undefined {
+    const { usageLimit } = active.ability;
+    if (active.isBlocked) {
+      return `${active.ability.name} is blocked`;
+    }
+    if (usageLimit.type === 'per_night' && active.lastUsedRound === round) {
+      return `${active.ability.name} has already been used tonight`;
+    }
+    if (
+      (usageLimit.type === 'per_game' || usageLimit.type === 'one_time') &&
+      active.remainingUses === 0
+    ) {
+      return `${active.ability.name} has no uses left`;
+    }
+    return undefined;
+  }
+
+  private getTargetError(
+    gameState: DeductionGameState,
+    ability: RoleAbility,
+    actorId: UUID,
+    targetId: UUID | undefined
+  ): string | undefined {
+    const { alivePlayers, eliminatedPlayers } = gameState.data;
+
+    switch (ability.target) {
+      case 'none':
+      case 'self':
+        return undefined;
+      case 'dead_player':
+        return targetId && eliminatedPlayers.includes(targetId)
+          ? undefined
+          : `${ability.name} must target an eliminated player`;
+      case 'other_player':
+        if (targetId === actorId) {
+          return `${ability.name} cannot target yourself`;
+        }
+        break;
+    }
+
+    return targetId && alivePlayers.includes(targetId)
+      ? undefined
+      : `${ability.name} must target a living player`;
+  }
+
+  private getRestrictionError(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>,
+    role: AssignedRole,
+    lastUsedRound: number | undefined,
+    actorId: UUID,
+    targetId: UUID | undefined
+  ): string | undefined {
+    for (const restriction of role.definition.restrictions) {
+      if (
+        !isVoteRestriction(restriction) &&
+        !this.meetsRestriction(
+          gameState,
+          roles,
+          restriction,
+          lastUsedRound,
+          actorId,
+          targetId
+        )
+      ) {
+        return restriction.description;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Restriction parameters: `cannot_target` takes `self`, `alignment` or
+   * `players`; `cannot_use_consecutive` needs no parameters; `requires_alive`
+   * takes the `role` name someone still alive must hold. Custom restrictions
+   * are left to the host. Restrictions on votes are checked by the voting
+   * system instead.
+   */
+  private meetsRestriction(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>,
+    restriction: RoleRestriction,
+    lastUsedRound: number | undefined,
+    actorId: UUID,
+    targetId: UUID | undefined
+  ): boolean {
+    const { parameters } = restriction;
+
+    switch (restriction.type) {
+      case 'cannot_target': {
+        if (!targetId) return true;
+        const players = Array.isArray(parameters.players)
+          ? parameters.players
+          : [];
+        return !(
+          (parameters.self === true && targetId === actorId) ||
+          players.includes(targetId) ||
+          (typeof parameters.alignment === 'string' &&
+            roles[targetId]?.definition.alignment === parameters.alignment)
+        );
+      }
+      case 'cannot_use_consecutive':
+        return lastUsedRound !== gameState.data.round - 1;
+      case 'requires_alive':
+        return (
+          typeof parameters.role !== 'string' ||
+          gameState.data.alivePlayers.some(
+            playerId => roles[playerId]?.definition.name === parameters.role
+          )
+        );
+      case 'custom':
+        return true;
+    }
+  }
+
+  private collectOutcomes(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>
+  ): ActionOutcome[] {
+    return gameState.data.nightActions
+      .filter(action => !action.isResolved)
+      .flatMap(action => {
+        const ability = roles[action.actorId]?.abilities.find(
+          active => active.ability.name === action.ability
+        )?.ability;
+        return ability
+          ? [
+              {
+                action,
+                ability,
+                targetId: action.targetId,
+                effects: [],
+                success: false,
+              },
+            ]
+          : [];
+      })
+      .sort((a, b) => a.action.priority - b.action.priority);
+  }
+
+  private succeed(outcome: ActionOutcome, effect: string): void {
+    outcome.success = true;
+    outcome.effects.push(effect);
+  }
+
+  private investigate(
+    ability: RoleAbility,
+    target: AssignedRole | undefined
+  ): string {
+    if (!target) return 'You learned nothing';
+    return ability.effects.some(effect => effect.type === 'learn_role')
+      ? `Your target is a ${target.definition.name}`
+      : `Your target sides with the ${target.definition.alignment}`;
+  }
+
+  private toResolvedAction(outcome: ActionOutcome): NightAction {
+    return {
+      ...outcome.action,
+      targetId: outcome.targetId,
+      isResolved: true,
+      result: {
+        success: outcome.success,
+        information: outcome.information,
+        effects: outcome.effects,
+        blockedBy: outcome.blockedBy,
+        redirectedTo: outcome.redirectedTo,
+      },
+    };
+  }
+
+  /**
+   * Record the night on each ability that was used; a blocked ability is
+   * not spent
+   */
+  private spendUses(
+    roles: Record<UUID, AssignedRole>,
+    outcomes: ActionOutcome[],
+    round: number
+  ): Record<UUID, AssignedRole> {
+    const updated: Record<UUID, AssignedRole> = {};
+
+    for (const outcome of outcomes) {
+      const role = roles[outcome.action.actorId];
+      if (!role || outcome.blockedBy) continue;
+
+      updated[outcome.action.actorId] = {
+        ...role,
+        abilities: role.abilities.map(active => {
+          if (active.ability.name !== outcome.action.ability) return active;
+          const { type } = active.ability.usageLimit;
+          const spends =
+            (type === 'per_game' || type === 'one_time') &&
+            active.remainingUses > 0;
+          return {
+            ...active,
+            remainingUses: active.remainingUses - (spends ? 1 : 0),
+            lastUsedRound: round,
+          };
+        }),
+      };
+    }
+
+    return updated;
+  }
+
+  private createEvents(
+    gameState: DeductionGameState,
+    outcomes: ActionOutcome[],
+    eliminated: UUID[]
+  ): GamePhaseEvent[] {
+    const timestamp = new Date();
+    const { flavorText } = gameState.data.scenario;
+
+    return [
+      ...outcomes.map(outcome => ({
+        id: crypto.randomUUID(),
+        type: 'ability_used' as const,
+        description: `${outcome.action.actorId} used ${outcome.ability.name}`,
+        timestamp,
+        affectedPlayers: [outcome.action.actorId],
+        isPublic: false,
+      })),
+      ...eliminated.map(playerId => ({
+        id: crypto.randomUUID(),
+        type: 'elimination' as const,
+        description: `${playerId} was killed during the night`,
+        timestamp,
+        affectedPlayers: [playerId],
+        isPublic: true,
+        flavorText: flavorText?.eliminationText,
+      })),
+      {
+        id: crypto.randomUUID(),
+        type: 'phase_change',
+        description:
+          eliminated.length > 0
+            ? `Day ${gameState.data.round + 1} begins`
+            : `Day ${gameState.data.round + 1} begins after a quiet night`,
+        timestamp,
+        affectedPlayers: gameState.data.alivePlayers,
+        isPublic: true,
+        flavorText: flavorText?.dayPhaseStart,
+      },
+    ];
+  }
+
+  private async loadGame(gameId: UUID): Promise<DeductionGameState> {
+    return loadDeductionGame(gameId);
+  }
+
+  private async loadRoles(
+    gameId: UUID,
+    playerIds: UUID[]
+  ): Promise<Record<UUID, AssignedRole>> {
+    const entries = await Promise.all(
+      playerIds.map(async playerId => {
+        const result = await kvService.get<AssignedRole>(
+          `game_role:${gameId}:${playerId}`
+        );
+        return [playerId, result.success ? result.data : null] as const;
+      })
+    );
+
+    return Object.fromEntries(
+      entries.filter(
+        (entry): entry is readonly [UUID, AssignedRole] => entry[1] != null
+      )
+    );
+  }
+
+  private async saveGame(
+    gameId: UUID,
+    gameState: DeductionGameState
+  ): Promise<DeductionGameState> {
+    return saveDeductionGame(gameId, gameState);
+  }
+
+  private resultKey(gameId: UUID, round: number, playerId: UUID): string {
+    return `game_night_result:${gameId}:${round}:${playerId}`;
+  }
+}
+
+// Export singleton instance
+export const nightActionResolver = NightActionResolver.getInstance();
@@ -0,0 +1,128 @@
+/**
+ * Deduction State Projection
+ *
+ * Keeps roles, private clues, night actions and secret ballots secret.
+ * Players see public events, events addressed to them, clues revealed to
+ * them and their own night actions and votes; spectators only see what is
+ * public.
+ */
+
+import {
+  AssignedRole,
+  DeductionGameState,
+  RoleAlignment,
+} from '../../../types/deduction';
+import { UUID } from '../../../types/core';
+import { kvService } from '../../database';
+import {
+  GameStateProjector,
+  ProjectionViewer,
+} from '../../game-engine/projection';
+import { isClueVisibleTo } from './clue-revelation';
+import { isRoleVisibleTo } from './roles';
+
+// ============================================================================
+// PROJECTION TYPES
+// ============================================================================
+
+export interface VisibleRole {
+  readonly role: string;
+  readonly alignment: RoleAlignment;
+}
+
+// ============================================================================
+// DEDUCTION PROJECTOR
+// ============================================================================
+
+export const deductionProjector: GameStateProjector<DeductionGameState> = {
+  projectData(state, viewer) {
+    const playerId = viewer.mode === 'player' ? viewer.playerId : undefined;
+
+    return {
+      ...state.data,
+      events: state.data.events.filter(
+        event =>
+          event.isPublic ||
+          (!!playerId && event.affectedPlayers.includes(playerId))
+      ),
+      cluesAvailable: state.data.cluesAvailable.filter(clue =>
+        isClueVisibleTo(clue, playerId)
+      ),
+      // Who acted at night, and with which ability, gives their role away
+      nightActions: playerId
+        ? state.data.nightActions.filter(action => action.actorId === playerId)
+        : [],
+      // Secret ballots stay secret; players still see their own vote
+      votingResults: state.data.votingResults && {
+        ...state.data.votingResults,
+        votes: state.data.votingResults.votes.filter(
+          vote => !vote.isSecret || vote.voterId === playerId
+        ),
+      },
+    };
+  },
+};
+
+// ============================================================================
+// ROLE VISIBILITY
+// ============================================================================
+
+/**
+ * Filter role assignments down to the ones a viewer may know.
+ * Every role is revealed once the game is over.
+ */
+export function filterVisibleRoles(
+  assignments: Record<UUID, AssignedRole>,
+  viewer: ProjectionViewer,
+  revealedPlayers: readonly UUID[] = []
+): Record<UUID, VisibleRole> {
+  const viewerId = viewer.mode === 'player' ? viewer.playerId : undefined;
+  const viewerRole = viewerId ? assignments[viewerId] : undefined;
+  const visible: Record<UUID, VisibleRole> = {};
+
+  for (const [playerId, assignment] of Object.entries(assignments)) {
+    if (
+      viewer.mode === 'game_master' ||
+      isRoleVisibleTo(playerId, viewerId, { viewerRole, revealedPlayers })
+    ) {
+      visible[playerId] = {
+        role: assignment.definition.name,
+        alignment: assignment.definition.alignment,
+      };
+    }
+  }
+
+  return visible;
+}
+
+/**
+ * Load the stored role assignments and return the ones a viewer may know
+ */
+export async function loadVisibleRoles(
+  gameId: UUID,
+  state: DeductionGameState,
+  viewer: ProjectionViewer
+): Promise<Record<UUID, VisibleRole>> {
+  const playerIds = [
+    ...state.data.alivePlayers,
+    ...state.data.eliminatedPlayers,
+  ];
+  const assignments: Record<UUID, AssignedRole> = {};
+
+  await Promise.all(
+    playerIds.map(async playerId => {
+      const result = await kvService.get<AssignedRole>(
+        `game_role:${gameId}:${playerId}`
+      );
+      if (result.success && result.data) {
+        assignments[playerId] = result.data;
+      }
+    })
+  );
+
+  const revealedPlayers =
+    state.phase === 'game_over'
+      ? playerIds
+      : Object.keys(state.data.revealedRoles ?? {});
+  return filterVisibleRoles(assignments, viewer, revealedPlayers);
+}
@@ -1783,6 +1783,35 @@ export class RoleAssigner {
 
 export const roleAssigner = RoleAssigner.getInstance();
 
+// ============================================================================
+// ROLE VISIBILITY
+// ============================================================================
+
+export interface RoleVisibilityContext {
+  readonly viewerRole?: AssignedRole | null;
+  readonly revealedPlayers?: readonly UUID[];
+}
+
+/**
+ * Check whether a viewer may learn another player's role.
+ * Players always know their own role and their teammates' roles; anyone may
+ * see a role that has been publicly revealed.
+ */
+export function isRoleVisibleTo(
+  targetId: UUID,
+  viewerId: UUID | undefined,
+  { viewerRole, revealedPlayers = [] }: RoleVisibilityContext = {}
+): boolean {
+  if (revealedPlayers.includes(targetId)) {
+    return true;
+  }
+  if (!viewerId) {
+    return false;
+  }
+
+  return targetId === viewerId || !!viewerRole?.teammates?.includes(targetId);
+}
+
 // ============================================================================
 // VALIDATION SCHEMAS
 // ============================================================================
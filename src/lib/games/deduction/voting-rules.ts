@@ -0,0 +1,181 @@
+/**
+ * Voting Rules for RpgAInfinity Deduction Game
+ *
+ * The rule variants a deduction game can be played with and the presets
+ * each game mode uses:
+ * - Plurality or majority lynches, with or without a no-lynch option
+ * - Ties go to a revote between the tied players, a seeded random pick,
+ *   or nobody
+ * - Secret or public ballots, and whether players may vote for themselves
+ * - Roles such as the mayor or judge whose vote counts twice
+ * - Role restrictions that apply to votes rather than night abilities
+ *
+ * Restrictions apply to votes when their parameters include
+ * `appliesTo: 'vote'`. `cannot_target` takes `self`, `alignment` or
+ * `players`; `requires_alive` takes the `role` name someone still alive
+ * must hold for the player to vote; `custom` with `cannotVote: true` takes
+ * the vote away entirely.
+ */
+
+import {
+  AssignedRole,
+  DeductionGameState,
+  RoleRestriction,
+  VotingRules,
+} from '../../../types/deduction';
+import { UUID } from '../../../types/core';
+import type { GameMode } from './roles';
+
+// ============================================================================
+// RULE PRESETS
+// ============================================================================
+
+export const DEFAULT_VOTING_RULES: VotingRules = {
+  lynchRule: 'majority',
+  allowNoLynch: true,
+  tiebreaker: 'revote',
+  secretBallot: false,
+  allowSelfVote: false,
+  doubleVoteRoles: ['Mayor', 'Judge'],
+  timeLimit: 300,
+};
+
+/**
+ * Voting rules each game mode plays with
+ */
+export const VOTING_RULE_PRESETS: Record<GameMode, VotingRules> = {
+  CLASSIC: DEFAULT_VOTING_RULES,
+  CHAOS: {
+    ...DEFAULT_VOTING_RULES,
+    lynchRule: 'plurality',
+    allowNoLynch: false,
+    tiebreaker: 'random',
+  },
+  DETECTIVE: DEFAULT_VOTING_RULES,
+  SPEED: {
+    ...DEFAULT_VOTING_RULES,
+    lynchRule: 'plurality',
+    tiebreaker: 'random',
+    timeLimit: 90,
+  },
+  HARDCORE: {
+    ...DEFAULT_VOTING_RULES,
+    tiebreaker: 'no_elimination',
+    secretBallot: true,
+    timeLimit: 180,
+  },
+  NEWBIE: {
+    ...DEFAULT_VOTING_RULES,
+    lynchRule: 'plurality',
+    tiebreaker: 'no_elimination',
+    timeLimit: 420,
+  },
+};
+
+// ============================================================================
+// RULE RESOLUTION
+// ============================================================================
+
+/**
+ * The rules for a new game: its mode's preset with any overrides on top.
+ * Unknown modes fall back to the defaults.
+ */
+export function resolveVotingRules(
+  gameMode?: string,
+  overrides: Partial<VotingRules> = {}
+): VotingRules {
+  const preset =
+    gameMode && gameMode in VOTING_RULE_PRESETS
+      ? VOTING_RULE_PRESETS[gameMode as GameMode]
+      : DEFAULT_VOTING_RULES;
+  return { ...preset, ...overrides };
+}
+
+export function getVotingRules(gameState: DeductionGameState): VotingRules {
+  return gameState.data.votingRules ?? DEFAULT_VOTING_RULES;
+}
+
+/**
+ * How many votes a role's ballot is worth
+ */
+export function getVotingPower(
+  role: AssignedRole | undefined,
+  rules: VotingRules
+): number {
+  const name = role?.definition.name.toLowerCase();
+  return name &&
+    rules.doubleVoteRoles.some(doubled => doubled.toLowerCase() === name)
+    ? 2
+    : 1;
+}
+
+// ============================================================================
+// VOTE RESTRICTIONS
+// ============================================================================
+
+/**
+ * Whether a player's role lets them vote at all right now
+ */
+export function canVote(
+  gameState: DeductionGameState,
+  roles: Record<UUID, AssignedRole>,
+  playerId: UUID
+): boolean {
+  return getVoteRestrictions(roles[playerId]).every(restriction => {
+    const { parameters } = restriction;
+    switch (restriction.type) {
+      case 'custom':
+        return parameters.cannotVote !== true;
+      case 'requires_alive':
+        return (
+          typeof parameters.role !== 'string' ||
+          gameState.data.alivePlayers.some(
+            alive => roles[alive]?.definition.name === parameters.role
+          )
+        );
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Players a voter may not vote for, by rule or by their role
+ */
+export function getBlockedTargets(
+  gameState: DeductionGameState,
+  roles: Record<UUID, AssignedRole>,
+  rules: VotingRules,
+  voterId: UUID
+): UUID[] {
+  const restrictions = getVoteRestrictions(roles[voterId]).filter(
+    restriction => restriction.type === 'cannot_target'
+  );
+
+  return gameState.data.alivePlayers.filter(targetId => {
+    if (targetId === voterId && !rules.allowSelfVote) return true;
+
+    return restrictions.some(({ parameters }) => {
+      const players = Array.isArray(parameters.players)
+        ? parameters.players
+        : [];
+      return (
+        (parameters.self === true && targetId === voterId) ||
+        players.includes(targetId) ||
+        (typeof parameters.alignment === 'string' &&
+          roles[targetId]?.definition.alignment === parameters.alignment)
+      );
+    });
+  });
+}
+
+/**
+ * Whether a restriction is about votes rather than night abilities
+ */
+export function isVoteRestriction(restriction: RoleRestriction): boolean {
+  return restriction.parameters.appliesTo === 'vote';
+}
+
+function getVoteRestrictions(role: AssignedRole | undefined) {
+  return (role?.definition.restrictions ?? []).filter(isVoteRestriction);
+}
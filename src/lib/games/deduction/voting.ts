@@ -6,16 +6,21 @@
  * - Real-time vote tracking and consensus checking
  * - Role-based voting abilities and restrictions
  * - Tiebreaker resolution and result processing
+ * - Rule variants chosen per game (see voting-rules.ts)
  * - Time-limited voting with countdown management
  */
 
 import { z } from 'zod';
 import {
+  AssignedRole,
   DeductionGameState,
+  DeductionPhase,
   DeductionPlayer,
   Vote,
   VotingResults,
   TiebreakResult,
+  GamePhaseEvent,
+  VotingRules,
   VotingAction,
   UUID,
   Timestamp,
@@ -23,6 +28,21 @@ import {
 } from '../../../types';
 import { kvService } from '../../database';
 import { EventSystem } from '../../game-engine/events';
+import {
+  getGameRandom,
+  unseededRandom,
+  withRandomState,
+} from '../../game-engine/random';
+import { nightActionResolver } from './night-actions';
+import { winConditionEvaluator } from './win-conditions';
+import { eliminationPipeline } from './elimination';
+import { loadDeductionGame, updateDeductionGame } from './game-store';
+import {
+  canVote,
+  getBlockedTargets,
+  getVotingPower,
+  getVotingRules,
+} from './voting-rules';
 
 // ============================================================================
 // VOTING SYSTEM TYPES & INTERFACES
@@ -59,6 +79,12 @@ export interface VotingSession {
   readonly isAnonymous: boolean;
   readonly allowsVoteChanging: boolean;
   readonly customThreshold?: number; // For custom voting modes
+  readonly allowsNoLynch?: boolean;
+  readonly allowsSelfVote?: boolean;
+  readonly tiebreaker?: VotingRules['tiebreaker'];
+  readonly votingPowers?: Record<UUID, number>; // Double votes from roles
+  readonly blockedTargets?: Record<UUID, UUID[]>; // Per voter, from role restrictions
+  readonly candidates?: UUID[]; // Set for revotes between tied players
   readonly results?: VotingResults;
   readonly status: VotingSessionStatus;
 }
@@ -136,10 +162,20 @@ export const VotingSessionSchema = z.object({
   isAnonymous: z.boolean(),
   allowsVoteChanging: z.boolean(),
   customThreshold: z.number().min(1).optional(),
+  allowsNoLynch: z.boolean().optional(),
+  allowsSelfVote: z.boolean().optional(),
+  tiebreaker: z.enum(['revote', 'random', 'no_elimination']).optional(),
+  votingPowers: z.record(z.number().int().min(1).max(10)).optional(),
+  blockedTargets: z.record(z.array(z.string().uuid())).optional(),
+  candidates: z.array(z.string().uuid()).optional(),
   results: z.any().optional(),
   status: z.enum(['active', 'completed', 'cancelled', 'extended']),
 });
 
+const SESSION_TTL = 24 * 60 * 60; // 24 hours
+const SESSION_CONFLICT_RETRIES = 8; // Enough for every voter acting at once
+const SESSION_BACKOFF_MS = 20; // Base delay between attempts
+
 export const VoteOptionsSchema = z.object({
   isSecret: z.boolean().optional(),
   votingPower: z.number().int().min(1).max(10).optional(),
@@ -174,7 +210,8 @@ export class VotingSystem {
   // ============================================================================
 
   /**
-   * Start a new voting phase for the game
+   * Start a new voting phase for the game. The game's voting rules set the
+   * defaults; passing candidates limits the vote to those players.
    */
   public async startVotingPhase(
     game: DeductionGameState,
@@ -185,90 +222,56 @@ export class VotingSystem {
       isAnonymous?: boolean;
       allowsVoteChanging?: boolean;
       customThreshold?: number;
+      candidates?: UUID[];
     }
   ): Promise<VotingSession> {
     try {
-      // Validate game state
-      if (game.phase !== 'day_voting') {
-        throw new GameError(
-          'INVALID_PHASE',
-          'Voting can only be started during day voting phase',
-          { currentPhase: game.phase }
-        );
-      }
-
-      // Get eligible voters (alive players with voting power)
-      const eligibleVoters = game.data.alivePlayers.filter(playerId => {
-        // TODO: Check for role-specific voting restrictions
-        return true;
-      });
+      const session = await this.createSession(game, phase, options);
+      await this.openSession(session);
+      return session;
+    } catch (error) {
+      //TODO: Implement proper error logging service
+      console.error('Failed to start voting phase:', error);
+      throw error instanceof GameError
+        ? error
+        : new GameError(
+            'VOTING_START_FAILED',
+            'Failed to initialize voting phase',
+            { error: error instanceof Error ? error.message : 'Unknown error' }
+          );
+    }
+  }
 
-      if (eligibleVoters.length === 0) {
-        throw new GameError(
-          'NO_ELIGIBLE_VOTERS',
-          'No eligible voters found for voting phase',
-          { alivePlayers: game.data.alivePlayers.length }
+  /**
+   * Join the game's open voting session, or start one if there is none.
+   * Players who vote at the same moment all end up in the same session.
+   */
+  public async getOrStartVotingPhase(
+    game: DeductionGameState,
+    phase: VotingPhase
+  ): Promise<VotingSession> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const pointer = await kvService.get<string>(
+          `voting_session_game:${game.gameId}`
         );
-      }
-
-      const sessionId = crypto.randomUUID();
-      const timeLimit = options?.timeLimit ?? 300; // Default 5 minutes
-      const startTime = Date.now();
-
-      const session: VotingSession = {
-        id: sessionId,
-        gameId: game.id,
-        round: game.data.round,
-        phase,
-        mode: options?.mode ?? 'majority',
-        timeLimit,
-        timeRemaining: timeLimit,
-        startTime,
-        participants: game.data.alivePlayers,
-        eligibleVoters,
-        votes: [],
-        nominations: [],
-        abstentions: [],
-        isAnonymous: options?.isAnonymous ?? false,
-        allowsVoteChanging: options?.allowsVoteChanging ?? true,
-        customThreshold: options?.customThreshold,
-        status: 'active',
-      };
-
-      // Validate session
-      const validatedSession = VotingSessionSchema.parse(session);
-
-      // Store session
-      this.activeSessions.set(sessionId, validatedSession as VotingSession);
-      await kvService.set(
-        `voting_session:${sessionId}`,
-        validatedSession,
-        24 * 60 * 60
-      ); // 24 hour TTL
-
-      // Start timer for voting phase
-      this.startVotingTimer(sessionId, timeLimit);
-
-      // Emit voting phase started event
-      await this.eventSystem.emit({
-        id: crypto.randomUUID(),
-        type: 'phase_change',
-        gameId: game.id,
-        timestamp: Date.now(),
-        data: {
-          phase: `voting_${phase}`,
-          sessionId,
-          timeLimit,
-          eligibleVoters: eligibleVoters.length,
-        },
-        playerId: null, // System event
-        metadata: {
-          votingMode: session.mode,
-          isAnonymous: session.isAnonymous,
-        },
-      });
+        const currentId = pointer.success ? (pointer.data ?? null) : null;
+        const current = currentId
+          ? await this.loadStoredSession(currentId)
+          : null;
+        if (current && this.isSessionOpen(current)) {
+          this.activeSessions.set(current.id, current);
+          return current;
+        }
 
-      return validatedSession as VotingSession;
+        const session = await this.createSession(game, phase);
+        if (await this.openSession(session, currentId)) {
+          return session;
+        }
+        if (attempt >= SESSION_CONFLICT_RETRIES) {
+          throw this.sessionConflictError(game.gameId);
+        }
+      }
     } catch (error) {
       //TODO: Implement proper error logging service
       console.error('Failed to start voting phase:', error);
@@ -282,6 +285,149 @@ export class VotingSystem {
     }
   }
 
+  /**
+   * Build a session for the game's living voters without storing it
+   */
+  private async createSession(
+    game: DeductionGameState,
+    phase: VotingPhase,
+    options?: {
+      timeLimit?: number;
+      mode?: VotingMode;
+      isAnonymous?: boolean;
+      allowsVoteChanging?: boolean;
+      customThreshold?: number;
+      candidates?: UUID[];
+    }
+  ): Promise<VotingSession> {
+    // Validate game state
+    if (game.phase !== 'day_voting') {
+      throw new GameError(
+        'INVALID_PHASE',
+        'Voting can only be started during day voting phase',
+        { currentPhase: game.phase }
+      );
+    }
+
+    const rules = getVotingRules(game);
+    const roles = await this.loadRoles(game);
+
+    // Get eligible voters (alive players whose roles let them vote)
+    const eligibleVoters = game.data.alivePlayers.filter(playerId =>
+      canVote(game, roles, playerId)
+    );
+
+    if (eligibleVoters.length === 0) {
+      throw new GameError(
+        'NO_ELIGIBLE_VOTERS',
+        'No eligible voters found for voting phase',
+        { alivePlayers: game.data.alivePlayers.length }
+      );
+    }
+
+    const sessionId = crypto.randomUUID();
+    const timeLimit = options?.timeLimit ?? rules.timeLimit;
+    const startTime = Date.now();
+
+    const session: VotingSession = {
+      id: sessionId,
+      gameId: game.gameId,
+      round: game.data.round,
+      phase,
+      mode: options?.mode ?? rules.lynchRule,
+      timeLimit,
+      timeRemaining: timeLimit,
+      startTime,
+      participants: game.data.alivePlayers,
+      eligibleVoters,
+      votes: [],
+      nominations: [],
+      abstentions: [],
+      isAnonymous: options?.isAnonymous ?? rules.secretBallot,
+      allowsVoteChanging: options?.allowsVoteChanging ?? true,
+      customThreshold: options?.customThreshold,
+      allowsNoLynch: rules.allowNoLynch,
+      allowsSelfVote: rules.allowSelfVote,
+      tiebreaker: rules.tiebreaker,
+      votingPowers: Object.fromEntries(
+        eligibleVoters.map(playerId => [
+          playerId,
+          getVotingPower(roles[playerId], rules),
+        ])
+      ),
+      blockedTargets: Object.fromEntries(
+        eligibleVoters.map(playerId => [
+          playerId,
+          getBlockedTargets(game, roles, rules, playerId),
+        ])
+      ),
+      candidates: options?.candidates,
+      status: 'active',
+    };
+
+    // Validate session
+    return VotingSessionSchema.parse(session) as VotingSession;
+  }
+
+  /**
+   * Store a new session and make it the game's current one. Given the id
+   * of the session it replaces (null for none), the session is only opened
+   * if no other request replaced that one first; returns whether it opened.
+   */
+  private async openSession(
+    session: VotingSession,
+    replacing?: string | null
+  ): Promise<boolean> {
+    await kvService.set(`voting_session:${session.id}`, session, SESSION_TTL);
+
+    const pointerKey = `voting_session_game:${session.gameId}`;
+    const claimed =
+      replacing === undefined
+        ? await kvService.set(pointerKey, session.id, SESSION_TTL)
+        : await kvService.compareAndSwap(
+            pointerKey,
+            replacing,
+            session.id,
+            SESSION_TTL
+          );
+    if (!claimed.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to open voting session', {
+        gameId: session.gameId,
+      });
+    }
+    if (claimed.data === false) {
+      await kvService.delete(`voting_session:${session.id}`);
+      return false;
+    }
+
+    this.activeSessions.set(session.id, session);
+
+    // Start timer for voting phase
+    this.startVotingTimer(session.id, session.timeLimit);
+
+    // Emit voting phase started event
+    await this.eventSystem.emit({
+      id: crypto.randomUUID(),
+      type: 'phase_change',
+      gameId: session.gameId,
+      timestamp: Date.now(),
+      data: {
+        phase: `voting_${session.phase}`,
+        sessionId: session.id,
+        timeLimit: session.timeLimit,
+        eligibleVoters: session.eligibleVoters.length,
+        candidates: session.candidates ?? null,
+      },
+      playerId: null, // System event
+      metadata: {
+        votingMode: session.mode,
+        isAnonymous: session.isAnonymous,
+      },
+    });
+
+    return true;
+  }
+
   /**
    * Cast or change a vote in the current voting session
    */
@@ -292,91 +438,66 @@ export class VotingSystem {
     options?: VoteOptions
   ): Promise<VoteResult> {
     try {
-      const session = this.activeSessions.get(sessionId);
-      if (!session) {
-        const storedSession = await kvService.get(
-          `voting_session:${sessionId}`
-        );
-        if (!storedSession) {
-          throw new GameError('SESSION_NOT_FOUND', 'Voting session not found', {
-            sessionId,
-          });
-        }
-        // Restore session to memory
-        this.activeSessions.set(sessionId, storedSession as VotingSession);
-      }
-
-      const currentSession = this.activeSessions.get(sessionId)!;
-
-      // Validate voting eligibility
-      await this.validateVoteEligibility(
-        currentSession,
-        playerId,
-        targetId,
-        options
-      );
-
-      // Check for existing vote
-      const existingVoteIndex = currentSession.votes.findIndex(
-        v => v.voterId === playerId
-      );
-      const previousVoteId =
-        existingVoteIndex >= 0
-          ? currentSession.votes[existingVoteIndex].voterId
-          : undefined;
-
-      // Handle vote changing
-      if (existingVoteIndex >= 0) {
-        if (!currentSession.allowsVoteChanging) {
-          throw new GameError(
-            'VOTE_CHANGE_NOT_ALLOWED',
-            'Vote changing is not allowed in this session',
-            { sessionId, playerId }
-          );
-        }
-        // Remove existing vote
-        currentSession.votes.splice(existingVoteIndex, 1);
-      }
-
-      // Create new vote
       const voteId = crypto.randomUUID();
       const timestamp = Date.now();
-      const votingPower = options?.votingPower ?? 1;
-
-      const newVote: Vote = {
-        voterId: playerId,
-        targetId:
-          targetId === 'abstain'
-            ? 'abstain'
-            : targetId === 'no_lynch'
-              ? 'no_lynch'
-              : targetId,
-        timestamp,
-        votingPower,
-        isSecret: options?.isSecret ?? currentSession.isAnonymous,
-      };
 
-      // Add vote to session
-      currentSession.votes.push(newVote);
+      // Votes arrive together, so apply this one to the stored session and
+      // re-apply it if another vote lands first
+      let previousVoteId: UUID | undefined;
+      let newVote!: Vote;
+      const currentSession = await this.updateStoredSession(
+        sessionId,
+        async session => {
+          // Validate voting eligibility
+          await this.validateVoteEligibility(
+            session,
+            playerId,
+            targetId,
+            options
+          );
 
-      // Handle abstentions
-      if (targetId === 'abstain') {
-        if (!currentSession.abstentions.includes(playerId)) {
-          currentSession.abstentions.push(playerId);
-        }
-      } else {
-        // Remove from abstentions if previously abstaining
-        const abstentionIndex = currentSession.abstentions.indexOf(playerId);
-        if (abstentionIndex >= 0) {
-          currentSession.abstentions.splice(abstentionIndex, 1);
+          // Handle vote changing
+          const existingVote = session.votes.find(v => v.voterId === playerId);
+          if (existingVote && !session.allowsVoteChanging) {
+            throw new GameError(
+              'VOTE_CHANGE_NOT_ALLOWED',
+              'Vote changing is not allowed in this session',
+              { sessionId, playerId }
+            );
+          }
+          previousVoteId = existingVote?.voterId;
+
+          newVote = {
+            voterId: playerId,
+            targetId:
+              targetId === 'abstain'
+                ? 'abstain'
+                : targetId === 'no_lynch'
+                  ? 'no_lynch'
+                  : targetId,
+            timestamp,
+            votingPower: this.getVoterPower(session, playerId, options),
+            isSecret: options?.isSecret ?? session.isAnonymous,
+          };
+
+          return {
+            ...session,
+            // Replace any earlier vote from this player
+            votes: [
+              ...session.votes.filter(v => v.voterId !== playerId),
+              newVote,
+            ],
+            // Abstaining adds the player to the abstentions; any other vote
+            // takes them off
+            abstentions:
+              targetId === 'abstain'
+                ? [
+                    ...session.abstentions.filter(id => id !== playerId),
+                    playerId,
+                  ]
+                : session.abstentions.filter(id => id !== playerId),
+          };
         }
-      }
-
-      // Update session in storage
-      await kvService.set(
-        `voting_session:${sessionId}`,
-        currentSession,
-        24 * 60 * 60
       );
 
       // Emit vote cast event
@@ -389,9 +510,9 @@ export class VotingSystem {
         data: {
           action: 'cast_vote',
           targetId,
-          votingPower,
+          votingPower: newVote.votingPower,
           isSecret: newVote.isSecret,
-          isVoteChange: existingVoteIndex >= 0,
+          isVoteChange: previousVoteId !== undefined,
         },
         metadata: {
           sessionId,
@@ -422,86 +543,119 @@ export class VotingSystem {
    * Tally votes and determine current voting results
    */
   public async tallyVotes(sessionId: string): Promise<VotingResults> {
+    return (await this.closeSession(sessionId)).results;
+  }
+
+  /**
+   * Tally the stored session and close it. A session that is already
+   * closed keeps its results; `closed` says whether this call closed it, so
+   * only one caller goes on to apply them.
+   */
+  private async closeSession(
+    sessionId: string
+  ): Promise<{ results: VotingResults; closed: boolean }> {
     try {
-      const session =
-        this.activeSessions.get(sessionId) ??
-        ((await kvService.get(`voting_session:${sessionId}`)) as VotingSession);
+      for (let attempt = 1; ; attempt++) {
+        const session = await this.loadStoredSession(sessionId);
 
-      if (!session) {
-        throw new GameError(
-          'SESSION_NOT_FOUND',
-          'Voting session not found for tallying',
-          { sessionId }
-        );
-      }
+        if (!session) {
+          throw new GameError(
+            'SESSION_NOT_FOUND',
+            'Voting session not found for tallying',
+            { sessionId }
+          );
+        }
+        if (!this.isSessionOpen(session) && session.results) {
+          return { results: session.results, closed: false };
+        }
 
-      // Count votes by target
-      const voteCounts = new Map<string, number>();
-      const votersByTarget = new Map<string, UUID[]>();
-      const votingPowerUsed: Record<UUID, number> = {};
+        // Count votes by target
+        const voteCounts = new Map<string, number>();
+        const votersByTarget = new Map<string, UUID[]>();
+        const votingPowerUsed: Record<UUID, number> = {};
 
-      for (const vote of session.votes) {
-        const targetId = vote.targetId;
-        const currentCount = voteCounts.get(targetId) ?? 0;
-        const currentVoters = votersByTarget.get(targetId) ?? [];
+        for (const vote of session.votes) {
+          const targetId = vote.targetId;
+          const currentCount = voteCounts.get(targetId) ?? 0;
+          const currentVoters = votersByTarget.get(targetId) ?? [];
 
-        voteCounts.set(targetId, currentCount + vote.votingPower);
-        votersByTarget.set(targetId, [...currentVoters, vote.voterId]);
-        votingPowerUsed[vote.voterId] = vote.votingPower;
-      }
+          voteCounts.set(targetId, currentCount + vote.votingPower);
+          votersByTarget.set(targetId, [...currentVoters, vote.voterId]);
+          votingPowerUsed[vote.voterId] = vote.votingPower;
+        }
 
-      // Determine winner(s)
-      let maxVotes = 0;
-      let winners: string[] = [];
+        // Determine winner(s)
+        let maxVotes = 0;
+        let winners: string[] = [];
 
-      for (const [targetId, voteCount] of voteCounts.entries()) {
-        if (targetId === 'abstain' || targetId === 'no_lynch') continue;
+        for (const [targetId, voteCount] of voteCounts.entries()) {
+          if (targetId === 'abstain' || targetId === 'no_lynch') continue;
 
-        if (voteCount > maxVotes) {
-          maxVotes = voteCount;
-          winners = [targetId];
-        } else if (voteCount === maxVotes && maxVotes > 0) {
-          winners.push(targetId);
+          if (voteCount > maxVotes) {
+            maxVotes = voteCount;
+            winners = [targetId];
+          } else if (voteCount === maxVotes && maxVotes > 0) {
+            winners.push(targetId);
+          }
         }
-      }
-
-      // Handle tiebreaker if needed
-      let tiebreaker: TiebreakResult | undefined;
-      let eliminated: UUID[] = [];
-
-      if (winners.length > 1 && maxVotes > 0) {
-        tiebreaker = await this.resolveTiebreaker(session, winners);
-        eliminated = tiebreaker.eliminated ? [tiebreaker.eliminated] : [];
-      } else if (winners.length === 1) {
-        eliminated = [winners[0]];
-      } else if (voteCounts.has('no_lynch')) {
-        // No lynch wins if it has votes or no one else has votes
-        eliminated = [];
-      }
-
-      const results: VotingResults = {
-        round: session.round,
-        votes: session.votes,
-        eliminated,
-        tiebreaker,
-        abstentions: session.abstentions,
-        votingPowerUsed,
-      };
 
-      // Update session with results
-      const updatedSession = {
-        ...session,
-        results,
-        status: 'completed' as VotingSessionStatus,
-      };
-      this.activeSessions.set(sessionId, updatedSession);
-      await kvService.set(
-        `voting_session:${sessionId}`,
-        updatedSession,
-        24 * 60 * 60
-      );
+        // Handle tiebreaker if needed
+        let tiebreaker: TiebreakResult | undefined;
+        let eliminated: UUID[] = [];
+
+        if (maxVotes === 0 || (voteCounts.get('no_lynch') ?? 0) >= maxVotes) {
+          // No lynch wins if it draws level with the leader
+          eliminated = [];
+        } else if (winners.length > 1) {
+          // Ties go to the tiebreaker even when nobody has a majority
+          tiebreaker = await this.resolveTiebreaker(session, winners);
+          eliminated = tiebreaker.eliminated ? [tiebreaker.eliminated] : [];
+        } else if (
+          session.mode === 'majority' &&
+          maxVotes < this.getMajority(session)
+        ) {
+          eliminated = [];
+        } else {
+          eliminated = [winners[0]];
+        }
 
-      return results;
+        const results: VotingResults = {
+          round: session.round,
+          votes: session.votes,
+          eliminated,
+          tiebreaker,
+          abstentions: session.abstentions,
+          votingPowerUsed,
+        };
+
+        // Close the session, unless a vote landed while tallying
+        const updatedSession: VotingSession = {
+          ...session,
+          results,
+          status: 'completed',
+        };
+        const swapped = await kvService.compareAndSwap(
+          `voting_session:${sessionId}`,
+          session,
+          updatedSession,
+          SESSION_TTL
+        );
+        if (!swapped.success) {
+          throw new GameError(
+            'DATABASE_ERROR',
+            'Failed to save voting session',
+            { sessionId }
+          );
+        }
+        if (swapped.data) {
+          this.activeSessions.set(sessionId, updatedSession);
+          return { results, closed: true };
+        }
+        if (attempt >= SESSION_CONFLICT_RETRIES) {
+          throw this.sessionConflictError(session.gameId);
+        }
+        await this.backoff(attempt);
+      }
     } catch (error) {
       //TODO: Implement proper error logging service
       console.error('Failed to tally votes:', error);
@@ -521,84 +675,95 @@ export class VotingSystem {
     gameId: string
   ): Promise<GameStateUpdate> {
     try {
-      // Get current game state
-      const gameState = (await kvService.get(
-        `game:${gameId}`
-      )) as DeductionGameState;
-      if (!gameState) {
-        throw new GameError('GAME_NOT_FOUND', 'Game state not found', {
-          gameId,
-        });
-      }
+      // Apply the result to the latest state, again if another save lands
+      // first; the eliminated players' roles are written once it is saved
+      let events: GamePhaseEvent[] = [];
+      let playersAffected: UUID[] = [];
+      let revealedRoles: Record<UUID, AssignedRole> = {};
+      let phaseTransition: DeductionPhase = 'night_actions';
+      const nextGameState = await updateDeductionGame(
+        gameId,
+        async gameState => {
+          events = [];
+          const lynched = result.eliminated.filter(playerId =>
+            gameState.data.alivePlayers.includes(playerId)
+          );
 
-      const events: GamePhaseEvent[] = [];
-      const playersAffected: UUID[] = [];
-
-      // Process eliminations
-      if (result.eliminated.length > 0) {
-        for (const playerId of result.eliminated) {
-          // Remove from alive players
-          const aliveIndex = gameState.data.alivePlayers.indexOf(playerId);
-          if (aliveIndex >= 0) {
-            gameState.data.alivePlayers.splice(aliveIndex, 1);
-            gameState.data.eliminatedPlayers.push(playerId);
-            playersAffected.push(playerId);
+          // Process eliminations
+          if (lynched.length > 0) {
+            for (const playerId of lynched) {
+              // Create elimination event
+              events.push({
+                id: crypto.randomUUID(),
+                type: 'elimination',
+                description: `${playerId} was eliminated by vote`,
+                timestamp: new Date(),
+                affectedPlayers: [playerId],
+                isPublic: true,
+                flavorText: `The town has spoken. ${playerId} has been eliminated.`,
+              });
+            }
+          } else {
+            // No lynch event
+            events.push({
+              id: crypto.randomUUID(),
+              type: 'phase_change',
+              description: 'No player was eliminated this round',
+              timestamp: new Date(),
+              affectedPlayers: [],
+              isPublic: true,
+              flavorText:
+                'The town could not reach a decision. No one was eliminated today.',
+            });
           }
 
-          // Create elimination event
-          events.push({
-            id: crypto.randomUUID(),
-            type: 'elimination',
-            description: `${playerId} was eliminated by vote`,
-            timestamp: Date.now(),
-            affectedPlayers: [playerId],
-            isPublic: true,
-            flavorText: `The town has spoken. ${playerId} has been eliminated.`,
-          });
-        }
-      } else {
-        // No lynch event
-        events.push({
-          id: crypto.randomUUID(),
-          type: 'phase_change',
-          description: 'No player was eliminated this round',
-          timestamp: Date.now(),
-          affectedPlayers: [],
-          isPublic: true,
-          flavorText:
-            'The town could not reach a decision. No one was eliminated today.',
-        });
-      }
+          // Reveal roles and wills and fire death abilities
+          const elimination = await eliminationPipeline.eliminate(
+            gameId,
+            gameState,
+            lynched,
+            'vote'
+          );
+          events.push(...elimination.events);
+          playersAffected = elimination.eliminated;
+          revealedRoles = elimination.roles;
 
-      // Update voting results in game state
-      const updatedGameState: DeductionGameState = {
-        ...gameState,
-        data: {
-          ...gameState.data,
-          votingResults: result,
-          events: [...gameState.data.events, ...events],
-        },
-      };
+          // Update voting results in game state
+          const updatedGameState: DeductionGameState = {
+            ...elimination.gameState,
+            data: {
+              ...elimination.gameState.data,
+              votingResults: result,
+              events: [...gameState.data.events, ...events],
+            },
+          };
 
-      // Save updated game state
-      await kvService.set(`game:${gameId}`, updatedGameState, 7 * 24 * 60 * 60); // 7 day TTL
-
-      // Determine next phase
-      let phaseTransition: DeductionPhase | undefined;
-
-      // Check win conditions after elimination
-      const winCondition = await this.checkWinConditions(updatedGameState);
-      if (winCondition) {
-        phaseTransition = 'game_over';
-        updatedGameState.data.winCondition = winCondition.condition;
-        updatedGameState.data.winner = winCondition.winner;
-      } else {
-        // Move to night phase
-        phaseTransition = 'night_actions';
-      }
+          // Check win conditions after elimination, otherwise move to night
+          const winCheck = await winConditionEvaluator.concludeIfWon(
+            gameId,
+            updatedGameState
+          );
+          phaseTransition = winCheck.evaluation.isGameOver
+            ? 'game_over'
+            : 'night_actions';
+          return winCheck.evaluation.isGameOver
+            ? winCheck.gameState
+            : nightActionResolver.openNight(updatedGameState);
+        }
+      );
+
+      await Promise.all(
+        Object.entries(revealedRoles).map(([playerId, role]) =>
+          kvService.set(
+            `game_role:${gameId}:${playerId}`,
+            role,
+            7 * 24 * 60 * 60
+          )
+        )
+      );
 
       const stateUpdate: GameStateUpdate = {
-        gameState: updatedGameState,
+        gameState: nextGameState,
         events,
         playersAffected,
         phaseTransition,
@@ -636,6 +801,42 @@ export class VotingSystem {
     }
   }
 
+  /**
+   * Close the session and apply its result once consensus is reached. A tie
+   * settled by revote opens a new session between the tied players instead.
+   */
+  public async concludeIfDecided(
+    sessionId: string,
+    gameId: string
+  ): Promise<{
+    consensus: ConsensusCheck;
+    results?: VotingResults;
+    update?: GameStateUpdate;
+    revote?: VotingSession;
+  }> {
+    const consensus = await this.checkVotingConsensus(sessionId);
+    if (!consensus.achieved) {
+      return { consensus };
+    }
+
+    // Only the request that closes the session applies its result
+    const { results, closed } = await this.closeSession(sessionId);
+    if (!closed) {
+      return { consensus, results };
+    }
+    if (results.tiebreaker?.method === 'revote') {
+      const gameState = await loadDeductionGame(gameId);
+
+      const revote = await this.startVotingPhase(gameState, 'voting', {
+        candidates: results.tiebreaker.candidates,
+      });
+      return { consensus, results, revote };
+    }
+
+    const update = await this.processVotingResult(results, gameId);
+    return { consensus, results, update };
+  }
+
   /**
    * Handle player abstention from voting
    */
@@ -644,41 +845,26 @@ export class VotingSystem {
     playerId: string
   ): Promise<void> {
     try {
-      const session =
-        this.activeSessions.get(sessionId) ??
-        ((await kvService.get(`voting_session:${sessionId}`)) as VotingSession);
-
-      if (!session) {
-        throw new GameError('SESSION_NOT_FOUND', 'Voting session not found', {
-          sessionId,
-        });
-      }
-
-      // Check if player is eligible to vote
-      if (!session.eligibleVoters.includes(playerId)) {
-        throw new GameError(
-          'NOT_ELIGIBLE_TO_VOTE',
-          'Player is not eligible to vote in this session',
-          { sessionId, playerId }
-        );
-      }
-
-      // Remove any existing votes from this player
-      const existingVoteIndex = session.votes.findIndex(
-        v => v.voterId === playerId
-      );
-      if (existingVoteIndex >= 0) {
-        session.votes.splice(existingVoteIndex, 1);
-      }
-
-      // Add to abstentions if not already there
-      if (!session.abstentions.includes(playerId)) {
-        session.abstentions.push(playerId);
-      }
+      const session = await this.updateStoredSession(sessionId, current => {
+        // Check if player is eligible to vote
+        if (!current.eligibleVoters.includes(playerId)) {
+          throw new GameError(
+            'NOT_ELIGIBLE_TO_VOTE',
+            'Player is not eligible to vote in this session',
+            { sessionId, playerId }
+          );
+        }
 
-      // Update session
-      await kvService.set(`voting_session:${sessionId}`, session, 24 * 60 * 60);
-      this.activeSessions.set(sessionId, session);
+        // Remove any existing votes from this player and add them to the
+        // abstentions if not already there
+        return {
+          ...current,
+          votes: current.votes.filter(v => v.voterId !== playerId),
+          abstentions: current.abstentions.includes(playerId)
+            ? current.abstentions
+            : [...current.abstentions, playerId],
+        };
+      });
 
       // Emit abstention event
       await this.eventSystem.emit({
@@ -715,9 +901,8 @@ export class VotingSystem {
     sessionId: string
   ): Promise<ConsensusCheck> {
     try {
-      const session =
-        this.activeSessions.get(sessionId) ??
-        ((await kvService.get(`voting_session:${sessionId}`)) as VotingSession);
+      // Other instances take votes too, so count the stored session
+      const session = await this.loadStoredSession(sessionId);
 
       if (!session) {
         throw new GameError('SESSION_NOT_FOUND', 'Voting session not found', {
@@ -730,6 +915,13 @@ export class VotingSystem {
       const totalAbstentions = session.abstentions.length;
       const votesNeeded = totalEligibleVoters - totalAbstentions;
 
+      // Abstaining casts an 'abstain' vote too, so count each voter once
+      const playersDone = new Set([
+        ...session.votes.map(vote => vote.voterId),
+        ...session.abstentions,
+      ]).size;
+      const everyoneVoted = playersDone >= totalEligibleVoters;
+
       // Count votes by target
       const voteCounts = new Map<string, number>();
       for (const vote of session.votes) {
@@ -777,14 +969,14 @@ export class VotingSystem {
         case 'majority':
           type = 'majority';
           threshold = 0.5;
-          requiredCount = Math.ceil(votesNeeded * threshold);
+          requiredCount = this.getMajority(session);
           achieved = leader !== undefined && leader.voteCount >= requiredCount;
           break;
 
         case 'plurality':
           type = 'plurality';
           // Plurality achieved when all eligible voters have voted or abstained
-          achieved = totalVotes + totalAbstentions >= totalEligibleVoters;
+          achieved = everyoneVoted;
           requiredCount = totalEligibleVoters;
           break;
 
@@ -804,7 +996,8 @@ export class VotingSystem {
       }
 
       return {
-        achieved,
+        // Once everyone has voted the tally decides, even without a majority
+        achieved: achieved || everyoneVoted,
         type,
         threshold,
         currentCount: totalVotes,
@@ -840,7 +1033,7 @@ export class VotingSystem {
     options?: VoteOptions
   ): Promise<void> {
     // Check if session is active
-    if (session.status !== 'active') {
+    if (!this.isSessionOpen(session)) {
       throw new GameError(
         'SESSION_NOT_ACTIVE',
         'Voting session is not currently active',
@@ -874,6 +1067,14 @@ export class VotingSystem {
       });
     }
 
+    if (targetId === 'no_lynch' && session.allowsNoLynch === false) {
+      throw new GameError(
+        'INVALID_VOTE_TARGET',
+        'This game does not allow voting for no lynch',
+        { sessionId: session.id }
+      );
+    }
+
     // Validate target (if not abstain or no_lynch)
     if (targetId !== 'abstain' && targetId !== 'no_lynch') {
       if (!session.participants.includes(targetId)) {
@@ -884,19 +1085,34 @@ export class VotingSystem {
         );
       }
 
-      // Players cannot vote for themselves (unless specified by role)
-      if (targetId === playerId) {
-        // TODO: Check if role allows self-voting
+      // Players cannot vote for themselves unless the game's rules allow it
+      if (targetId === playerId && !session.allowsSelfVote) {
         throw new GameError(
           'SELF_VOTE_NOT_ALLOWED',
           'Players cannot vote for themselves',
           { sessionId: session.id, playerId }
         );
       }
+
+      if (session.candidates && !session.candidates.includes(targetId)) {
+        throw new GameError(
+          'INVALID_VOTE_TARGET',
+          'Only the tied players can be voted for in a revote',
+          { sessionId: session.id, targetId }
+        );
+      }
+
+      if (session.blockedTargets?.[playerId]?.includes(targetId)) {
+        throw new GameError(
+          'INVALID_VOTE_TARGET',
+          'Your role does not allow voting for this player',
+          { sessionId: session.id, targetId }
+        );
+      }
     }
 
     // Validate voting power
-    const votingPower = options?.votingPower ?? 1;
+    const votingPower = this.getVoterPower(session, playerId, options);
     if (votingPower < 1 || votingPower > 10) {
       throw new GameError(
         'INVALID_VOTING_POWER',
@@ -904,75 +1120,192 @@ export class VotingSystem {
         { sessionId: session.id, votingPower }
       );
     }
+  }
+
+  /**
+   * A voter's power comes from their role when the session knows it
+   */
+  private getVoterPower(
+    session: VotingSession,
+    playerId: string,
+    options?: VoteOptions
+  ): number {
+    return session.votingPowers?.[playerId] ?? options?.votingPower ?? 1;
+  }
+
+  /**
+   * Votes needed for a majority among the voters who have not abstained
+   */
+  private getMajority(session: VotingSession): number {
+    const votingPower = session.eligibleVoters
+      .filter(voterId => !session.abstentions.includes(voterId))
+      .reduce(
+        (total, voterId) => total + (session.votingPowers?.[voterId] ?? 1),
+        0
+      );
+    return Math.floor(votingPower / 2) + 1;
+  }
+
+  /**
+   * Load the roles of the living players, skipping any not yet assigned
+   */
+  private async loadRoles(
+    game: DeductionGameState
+  ): Promise<Record<UUID, AssignedRole>> {
+    const entries = await Promise.all(
+      game.data.alivePlayers.map(async playerId => {
+        const result = await kvService.get<AssignedRole>(
+          `game_role:${game.gameId}:${playerId}`
+        );
+        return [playerId, result.success ? result.data : null] as const;
+      })
+    );
+
+    return Object.fromEntries(
+      entries.filter(
+        (entry): entry is readonly [UUID, AssignedRole] =>
+          entry[1]?.definition !== undefined
+      )
+    );
+  }
 
-    // TODO: Add role-specific voting restrictions validation
+  /**
+   * Load a voting session saved by another request
+   */
+  private async loadStoredSession(
+    sessionId: string
+  ): Promise<VotingSession | null> {
+    const result = await kvService.get<VotingSession>(
+      `voting_session:${sessionId}`
+    );
+    return result.success ? (result.data ?? null) : null;
   }
 
   /**
-   * Resolve tiebreaker between tied candidates
+   * Apply `update` to the stored session and swap the result in, applying
+   * it again to the fresher session whenever another request saves first.
+   * `update` may run more than once, so it must not write to storage.
+   */
+  private async updateStoredSession(
+    sessionId: string,
+    update: (session: VotingSession) => VotingSession | Promise<VotingSession>
+  ): Promise<VotingSession> {
+    for (let attempt = 1; ; attempt++) {
+      const session = await this.loadStoredSession(sessionId);
+      if (!session) {
+        throw new GameError('SESSION_NOT_FOUND', 'Voting session not found', {
+          sessionId,
+        });
+      }
+
+      const updated = await update(session);
+      const swapped = await kvService.compareAndSwap(
+        `voting_session:${sessionId}`,
+        session,
+        updated,
+        SESSION_TTL
+      );
+      if (!swapped.success) {
+        throw new GameError('DATABASE_ERROR', 'Failed to save voting session', {
+          sessionId,
+        });
+      }
+      if (swapped.data) {
+        this.activeSessions.set(sessionId, updated);
+        return updated;
+      }
+      if (attempt >= SESSION_CONFLICT_RETRIES) {
+        throw this.sessionConflictError(session.gameId);
+      }
+      await this.backoff(attempt);
+    }
+  }
+
+  private sessionConflictError(gameId: UUID): GameError {
+    return new GameError(
+      'STATE_CONFLICT',
+      'The voting session was changed by another request',
+      { gameId }
+    );
+  }
+
+  private backoff(attempt: number): Promise<void> {
+    return new Promise(resolve =>
+      setTimeout(resolve, SESSION_BACKOFF_MS * attempt)
+    );
+  }
+
+  /**
+   * Whether a session still takes votes; extended sessions stay open
+   */
+  private isSessionOpen(session: VotingSession): boolean {
+    return session.status === 'active' || session.status === 'extended';
+  }
+
+  /**
+   * Resolve tiebreaker between tied candidates using the game's rules.
+   * Sessions from before voting rules were configurable pick at random.
    */
   private async resolveTiebreaker(
     session: VotingSession,
     tiedCandidates: string[]
   ): Promise<TiebreakResult> {
-    // Default tiebreaker method is random
-    // TODO: Implement more sophisticated tiebreaker methods based on game rules
-
-    const method: TiebreakResult['method'] = 'random';
-    let eliminated: UUID | undefined;
-    let explanation: string;
+    switch (session.tiebreaker ?? 'random') {
+      case 'revote':
+        // A revote that ties again is not voted on a third time
+        return session.candidates
+          ? {
+              method: 'no_elimination',
+              candidates: tiedCandidates,
+              explanation:
+                'The revote was tied as well, so nobody is eliminated',
+            }
+          : {
+              method: 'revote',
+              candidates: tiedCandidates,
+              explanation: `Revote between ${tiedCandidates.length} tied candidates`,
+            };
 
-    switch (method) {
       case 'random':
-        eliminated =
-          tiedCandidates[Math.floor(Math.random() * tiedCandidates.length)];
-        explanation = `Random selection from ${tiedCandidates.length} tied candidates`;
-        break;
+        return {
+          method: 'random',
+          eliminated: await this.pickTiebreakLoser(
+            session.gameId,
+            tiedCandidates
+          ),
+          candidates: tiedCandidates,
+          explanation: `Random selection from ${tiedCandidates.length} tied candidates`,
+        };
 
       case 'no_elimination':
-        eliminated = undefined;
-        explanation = 'No elimination due to tie';
-        break;
-
-      default:
-        eliminated = undefined;
-        explanation = 'Tiebreaker method not implemented';
+        return {
+          method: 'no_elimination',
+          candidates: tiedCandidates,
+          explanation: 'No elimination due to tie',
+        };
     }
-
-    return {
-      method,
-      eliminated,
-      explanation,
-    };
   }
 
   /**
-   * Check win conditions after voting
+   * Pick a tied candidate with the game's seeded random source, so replays
+   * of the game break ties the same way
    */
-  private async checkWinConditions(
-    gameState: DeductionGameState
-  ): Promise<{ condition: WinCondition; winner: string } | null> {
-    // TODO: Implement proper win condition checking based on roles and alignments
-    // This is a placeholder implementation
-
-    const alivePlayers = gameState.data.alivePlayers;
-
-    // Check if game should end (too few players)
-    if (alivePlayers.length <= 2) {
-      return {
-        condition: {
-          id: 'minimum_players',
-          alignment: 'town',
-          type: 'majority_control',
-          description: 'Game ended due to insufficient players',
-          requirements: [],
-          priority: 1,
-        },
-        winner: 'draw',
-      };
+  private async pickTiebreakLoser(
+    gameId: UUID,
+    tiedCandidates: string[]
+  ): Promise<UUID> {
+    const stored = await kvService.get<DeductionGameState>(`game:${gameId}`);
+    if (!stored.success || !stored.data) {
+      return unseededRandom.pick(tiedCandidates);
     }
 
-    return null;
+    let eliminated!: UUID;
+    await updateDeductionGame(gameId, gameState => {
+      const random = getGameRandom(gameState);
+      eliminated = random.pick(tiedCandidates);
+      return withRandomState(gameState, random);
+    });
+    return eliminated;
   }
 
   /**
@@ -988,7 +1321,7 @@ export class VotingSystem {
     // Update time remaining every second
     const timer = setInterval(async () => {
       const session = this.activeSessions.get(sessionId);
-      if (!session || session.status !== 'active') {
+      if (!session || !this.isSessionOpen(session)) {
         clearInterval(timer);
         this.timers.delete(sessionId);
         return;
@@ -1087,16 +1420,20 @@ export class VotingSystem {
    * Get current voting session for a game
    */
   public async getActiveSession(gameId: string): Promise<VotingSession | null> {
-    // Check in-memory sessions first
-    for (const session of this.activeSessions.values()) {
-      if (session.gameId === gameId && session.status === 'active') {
-        return session;
-      }
+    // The session last started for the game, by any instance
+    const sessionId = await kvService.get<string>(
+      `voting_session_game:${gameId}`
+    );
+    if (!sessionId.success || !sessionId.data) {
+      return null;
     }
 
-    // Check KV storage for active sessions
-    // TODO: Implement more efficient session lookup by gameId index
-    return null;
+    const session = await this.loadStoredSession(sessionId.data);
+    if (!session || !this.isSessionOpen(session)) {
+      return null;
+    }
+    this.activeSessions.set(session.id, session);
+    return session;
   }
 
   /**
@@ -1130,19 +1467,27 @@ export class VotingSystem {
     sessionId: string,
     additionalSeconds: number
   ): Promise<boolean> {
-    const session = this.activeSessions.get(sessionId);
-    if (!session || session.status !== 'active') {
+    const stored = await this.loadStoredSession(sessionId);
+    if (!stored || !this.isSessionOpen(stored)) {
       return false;
     }
 
-    // Extend time limit
-    session.timeLimit += additionalSeconds;
-    session.timeRemaining += additionalSeconds;
-    session.status = 'extended';
-
-    // Update session
-    await kvService.set(`voting_session:${sessionId}`, session, 24 * 60 * 60);
-    this.activeSessions.set(sessionId, session);
+    // Extend time limit, unless the session closed in the meantime
+    let extended = false;
+    const session = await this.updateStoredSession(sessionId, current => {
+      extended = this.isSessionOpen(current);
+      return extended
+        ? {
+            ...current,
+            timeLimit: current.timeLimit + additionalSeconds,
+            timeRemaining: current.timeRemaining + additionalSeconds,
+            status: 'extended',
+          }
+        : current;
+    });
+    if (!extended) {
+      return false;
+    }
 
     // Emit extension event
     await this.eventSystem.emit({
@@ -0,0 +1,494 @@
+/**
+ * Win Condition Evaluator for RpgAInfinity Deduction Game
+ *
+ * Decides whether a deduction game is over after every elimination:
+ * - Town wins once no mafia or neutral killers are left alive
+ * - Mafia wins on parity, when they match or outnumber the town
+ * - A neutral killer wins alone once nobody left can stop them
+ * - A neutral wins alone by completing their objectives (the jester being
+ *   voted out)
+ * - Survivors win alone if they are all that is left, and alongside
+ *   whoever wins if they are still alive
+ * - The last player standing wins; a table with nobody left is a draw
+ *
+ * Several of these can hold at once, in which case everyone involved wins
+ * and the highest priority condition is recorded as the game's result.
+ * Every player is scored from the points of the objectives they completed.
+ */
+
+import {
+  AssignedRole,
+  DeductionGameState,
+  GamePhaseEvent,
+  PlayerScore,
+  RoleAlignment,
+  RoleObjective,
+  WinCondition,
+} from '../../../types/deduction';
+import { UUID } from '../../../types/core';
+import { kvService } from '../../database';
+
+// ============================================================================
+// WIN CONDITIONS
+// ============================================================================
+
+type StandardWin =
+  | 'neutralObjectives'
+  | 'neutralKiller'
+  | 'mafiaParity'
+  | 'townElimination'
+  | 'survivorsRemain'
+  | 'lastStanding'
+  | 'noSurvivors';
+
+export const WIN_CONDITIONS: Record<StandardWin, WinCondition> = {
+  neutralObjectives: {
+    id: 'neutral_objectives',
+    alignment: 'neutral',
+    type: 'complete_objectives',
+    description: 'A neutral player completed their objectives',
+    requirements: [
+      { type: 'objectives_complete', operator: '=', value: 'all' },
+    ],
+    priority: 5,
+  },
+  neutralKiller: {
+    id: 'neutral_killer',
+    alignment: 'neutral',
+    type: 'eliminate_all',
+    description: 'A neutral killer outlasted everyone who could stop them',
+    requirements: [
+      { type: 'alignment_count', operator: '=', value: 0, alignment: 'mafia' },
+      { type: 'alignment_count', operator: '<=', value: 1, alignment: 'town' },
+    ],
+    priority: 4,
+  },
+  mafiaParity: {
+    id: 'mafia_parity',
+    alignment: 'mafia',
+    type: 'majority_control',
+    description: 'The mafia matched or outnumbered the town',
+    requirements: [
+      { type: 'alignment_count', operator: '>', value: 0, alignment: 'mafia' },
+    ],
+    priority: 3,
+  },
+  townElimination: {
+    id: 'town_elimination',
+    alignment: 'town',
+    type: 'eliminate_all',
+    description: 'The town eliminated every threat',
+    requirements: [
+      { type: 'alignment_count', operator: '=', value: 0, alignment: 'mafia' },
+      { type: 'alignment_count', operator: '>', value: 0, alignment: 'town' },
+    ],
+    priority: 3,
+  },
+  survivorsRemain: {
+    id: 'survivors_remain',
+    alignment: 'survivor',
+    type: 'survive_to_end',
+    description: 'Only survivors are left standing',
+    requirements: [
+      {
+        type: 'alignment_count',
+        operator: '>',
+        value: 0,
+        alignment: 'survivor',
+      },
+    ],
+    priority: 2,
+  },
+  lastStanding: {
+    id: 'last_standing',
+    alignment: 'neutral',
+    type: 'survive_to_end',
+    description: 'One player outlasted everyone else',
+    requirements: [{ type: 'player_count', operator: '=', value: 1 }],
+    priority: 1,
+  },
+  noSurvivors: {
+    id: 'no_survivors',
+    alignment: 'neutral',
+    type: 'survive_to_end',
+    description: 'Nobody was left alive',
+    requirements: [{ type: 'player_count', operator: '=', value: 0 }],
+    priority: 0,
+  },
+};
+
+// ============================================================================
+// WIN EVALUATION TYPES
+// ============================================================================
+
+export interface WinEvaluation {
+  readonly isGameOver: boolean;
+  readonly condition?: WinCondition;
+  readonly winner?: RoleAlignment | UUID | 'draw';
+  readonly winners: UUID[];
+  readonly scoreboard: PlayerScore[];
+}
+
+export interface WinCheck {
+  readonly gameState: DeductionGameState;
+  readonly evaluation: WinEvaluation;
+}
+
+/**
+ * A condition that holds right now, with who it makes a winner and the
+ * result it records for the game
+ */
+interface AchievedWin {
+  readonly condition: WinCondition;
+  readonly winner: RoleAlignment | UUID | 'draw';
+  readonly playerIds: UUID[];
+}
+
+// ============================================================================
+// WIN CONDITION EVALUATOR CLASS
+// ============================================================================
+
+export class WinConditionEvaluator {
+  private static instance: WinConditionEvaluator;
+
+  private constructor() {}
+
+  static getInstance(): WinConditionEvaluator {
+    if (!WinConditionEvaluator.instance) {
+      WinConditionEvaluator.instance = new WinConditionEvaluator();
+    }
+    return WinConditionEvaluator.instance;
+  }
+
+  // ============================================================================
+  // PHASE FLOW
+  // ============================================================================
+
+  /**
+   * Evaluate a game against its stored roles and, if someone has won, end it.
+   * The returned state is unchanged while the game goes on; nothing is saved.
+   */
+  async concludeIfWon(
+    gameId: UUID,
+    gameState: DeductionGameState
+  ): Promise<WinCheck> {
+    const roles = await this.loadRoles(gameId, [
+      ...gameState.data.alivePlayers,
+      ...gameState.data.eliminatedPlayers,
+    ]);
+    const evaluation = this.evaluate(gameState, roles);
+
+    return {
+      gameState: evaluation.isGameOver
+        ? this.endGame(gameState, evaluation)
+        : gameState,
+      evaluation,
+    };
+  }
+
+  // ============================================================================
+  // EVALUATION
+  // ============================================================================
+
+  /**
+   * Work out whether the game is over and who won without touching storage
+   */
+  evaluate(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>
+  ): WinEvaluation {
+    const achieved = this.findAchievedWins(gameState, roles).sort(
+      (a, b) => b.condition.priority - a.condition.priority
+    );
+    const primary = achieved[0];
+
+    if (!primary) {
+      return { isGameOver: false, winners: [], scoreboard: [] };
+    }
+
+    // Living survivors share in any win
+    const winners = new Set([
+      ...achieved.flatMap(win => win.playerIds),
+      ...this.livingWith(gameState, roles, 'survivor'),
+    ]);
+    const winningAlignments = new Set(
+      achieved
+        .filter(win => win.winner === win.condition.alignment)
+        .map(win => win.condition.alignment)
+    );
+
+    return {
+      isGameOver: true,
+      condition: primary.condition,
+      winner: primary.winner,
+      winners: [...winners],
+      scoreboard: this.buildScoreboard(
+        gameState,
+        roles,
+        winners,
+        winningAlignments
+      ),
+    };
+  }
+
+  /**
+   * Move a finished game to `game_over` with its result and scoreboard
+   */
+  endGame(
+    gameState: DeductionGameState,
+    evaluation: WinEvaluation
+  ): DeductionGameState {
+    const alignment =
+      evaluation.winner === 'draw'
+        ? undefined
+        : evaluation.condition?.alignment;
+    const victory: GamePhaseEvent = {
+      id: crypto.randomUUID(),
+      type: 'victory',
+      description: evaluation.condition?.description ?? 'The game is over',
+      timestamp: new Date(),
+      affectedPlayers: evaluation.winners,
+      isPublic: true,
+      flavorText: alignment
+        ? gameState.data.scenario.flavorText?.victoryTexts?.[alignment]
+        : undefined,
+    };
+
+    return {
+      ...gameState,
+      phase: 'game_over',
+      data: {
+        ...gameState.data,
+        winCondition: evaluation.condition,
+        winner: evaluation.winner,
+        winners: evaluation.winners,
+        scoreboard: evaluation.scoreboard,
+        events: [...gameState.data.events, victory],
+      },
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private findAchievedWins(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>
+  ): AchievedWin[] {
+    const { alivePlayers } = gameState.data;
+    const achieved: AchievedWin[] = [];
+
+    if (alivePlayers.length === 0) {
+      return [
+        {
+          condition: WIN_CONDITIONS.noSurvivors,
+          winner: 'draw',
+          playerIds: [],
+        },
+      ];
+    }
+
+    // Neutrals who got what they came for win alone, dead or alive
+    for (const [playerId, role] of Object.entries(roles)) {
+      if (
+        role.definition.alignment === 'neutral' &&
+        !this.isKiller(role) &&
+        role.objectives.length > 0 &&
+        role.objectives.every(objective =>
+          this.isObjectiveComplete(objective, playerId, gameState, roles)
+        )
+      ) {
+        achieved.push({
+          condition: WIN_CONDITIONS.neutralObjectives,
+          winner: playerId,
+          playerIds: [playerId],
+        });
+      }
+    }
+
+    const mafia = this.livingWith(gameState, roles, 'mafia');
+    const town = this.livingWith(gameState, roles, 'town');
+    const killers = alivePlayers.filter(
+      playerId =>
+        roles[playerId]?.definition.alignment === 'neutral' &&
+        this.isKiller(roles[playerId]!)
+    );
+
+    if (killers.length === 1 && mafia.length === 0 && town.length <= 1) {
+      achieved.push({
+        condition: WIN_CONDITIONS.neutralKiller,
+        winner: killers[0]!,
+        playerIds: killers,
+      });
+    }
+
+    if (
+      killers.length === 0 &&
+      mafia.length > 0 &&
+      mafia.length >= town.length
+    ) {
+      achieved.push({
+        condition: WIN_CONDITIONS.mafiaParity,
+        winner: 'mafia',
+        playerIds: this.playersWith(roles, 'mafia'),
+      });
+    }
+
+    if (killers.length === 0 && mafia.length === 0 && town.length > 0) {
+      achieved.push({
+        condition: WIN_CONDITIONS.townElimination,
+        winner: 'town',
+        playerIds: this.playersWith(roles, 'town'),
+      });
+    }
+
+    const survivors = this.livingWith(gameState, roles, 'survivor');
+    if (survivors.length === alivePlayers.length) {
+      achieved.push({
+        condition: WIN_CONDITIONS.survivorsRemain,
+        winner: 'survivor',
+        playerIds: survivors,
+      });
+    }
+
+    if (achieved.length === 0 && alivePlayers.length === 1) {
+      const [lastPlayer] = alivePlayers as [UUID];
+      achieved.push({
+        condition: WIN_CONDITIONS.lastStanding,
+        winner: roles[lastPlayer]?.definition.alignment ?? lastPlayer,
+        playerIds: [lastPlayer],
+      });
+    }
+
+    return achieved;
+  }
+
+  /**
+   * Objective targets name an alignment, a role, a player, or `self`. A
+   * faction objective counts as met when that faction wins, however the
+   * win came about.
+   */
+  private isObjectiveComplete(
+    objective: RoleObjective,
+    playerId: UUID,
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>,
+    winningAlignments: ReadonlySet<RoleAlignment> = new Set()
+  ): boolean {
+    if (objective.isCompleted) return true;
+
+    const { alivePlayers, votingResults } = gameState.data;
+    const { target } = objective;
+    const targetsAlive = alivePlayers.filter(
+      alive =>
+        alive === target ||
+        roles[alive]?.definition.alignment === target ||
+        roles[alive]?.definition.name === target
+    );
+
+    switch (objective.type) {
+      case 'survive':
+        return alivePlayers.includes(playerId);
+      case 'eliminate':
+        if (!target) return false;
+        // Being eliminated yourself means being voted out
+        if (target === 'self') {
+          return votingResults?.eliminated.includes(playerId) ?? false;
+        }
+        return (
+          targetsAlive.length === 0 ||
+          winningAlignments.has(roles[playerId]!.definition.alignment)
+        );
+      case 'protect':
+        return targetsAlive.length > 0;
+      case 'discover':
+      case 'convert':
+        return false;
+    }
+  }
+
+  private buildScoreboard(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>,
+    winners: ReadonlySet<UUID>,
+    winningAlignments: ReadonlySet<RoleAlignment>
+  ): PlayerScore[] {
+    return Object.entries(roles)
+      .map(([playerId, role]) => {
+        const completed = role.objectives.filter(objective =>
+          this.isObjectiveComplete(
+            objective,
+            playerId,
+            gameState,
+            roles,
+            winningAlignments
+          )
+        );
+        return {
+          playerId,
+          roleName: role.definition.name,
+          alignment: role.definition.alignment,
+          isAlive: gameState.data.alivePlayers.includes(playerId),
+          isWinner: winners.has(playerId),
+          completedObjectives: completed.map(objective => objective.id),
+          points: completed.reduce(
+            (total, objective) => total + objective.points,
+            0
+          ),
+        };
+      })
+      .sort((a, b) => b.points - a.points);
+  }
+
+  private isKiller(role: AssignedRole): boolean {
+    return role.definition.type === 'killing';
+  }
+
+  private livingWith(
+    gameState: DeductionGameState,
+    roles: Record<UUID, AssignedRole>,
+    alignment: RoleAlignment
+  ): UUID[] {
+    return gameState.data.alivePlayers.filter(
+      playerId => roles[playerId]?.definition.alignment === alignment
+    );
+  }
+
+  private playersWith(
+    roles: Record<UUID, AssignedRole>,
+    alignment: RoleAlignment
+  ): UUID[] {
+    return Object.keys(roles).filter(
+      playerId => roles[playerId]!.definition.alignment === alignment
+    );
+  }
+
+  private async loadRoles(
+    gameId: UUID,
+    playerIds: UUID[]
+  ): Promise<Record<UUID, AssignedRole>> {
+    const entries = await Promise.all(
+      playerIds.map(async playerId => {
+        const result = await kvService.get<AssignedRole>(
+          `game_role:${gameId}:${playerId}`
+        );
+        return [playerId, result?.success ? result.data : null] as const;
+      })
+    );
+
+    // Anything without a role definition is not a usable role
+    return Object.fromEntries(
+      entries.filter(
+        (entry): entry is readonly [UUID, AssignedRole] =>
+          entry[1]?.definition != null
+      )
+    );
+  }
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export const winConditionEvaluator = WinConditionEvaluator.getInstance();
@@ -0,0 +1,17 @@
+/**
+ * Game Action Effects Registry
+ *
+ * Registers each game type's action effects with the engine. Anything that
+ * commits or replays actions imports the engine from here, so every game's
+ * effects are in place before the first action is applied.
+ */
+
+import { gameEngine } from '../game-engine/core';
+import { replayEngine } from '../game-engine/replay';
+import { deductionActionEffects } from './deduction/game-store';
+import { rpgActionEffects } from './rpg/actions';
+
+gameEngine.registerActionEffects('deduction', deductionActionEffects);
+gameEngine.registerActionEffects('rpg', rpgActionEffects);
+
+export { gameEngine, replayEngine };
@@ -0,0 +1,27 @@
+/**
+ * Game State Projection Registry
+ *
+ * Registers each game type's projector with the engine's projection service.
+ * Routes and event pushes import stateProjection from here so every game's
+ * redaction rules are in place before any state leaves the server.
+ */
+
+import { stateProjection } from '../game-engine/projection';
+import { deductionProjector } from './deduction/projection';
+import { rpgProjector } from './rpg/projection';
+
+stateProjection.registerProjector('deduction', deductionProjector);
+stateProjection.registerProjector('rpg', rpgProjector);
+
+export { stateProjection };
+export {
+  createViewer,
+  inferGameType,
+  type ProjectionViewer,
+  type ViewerMode,
+} from '../game-engine/projection';
+export {
+  filterVisibleRoles,
+  loadVisibleRoles,
+  type VisibleRole,
+} from './deduction/projection';
@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the RPG combat AI
+ * Covers target focus, healing, fleeing and positioning by combat style,
+ * difficulty scaling, and the real results of computer-controlled turns
+ */
+
+import { CombatAI, combatAI } from '../combat-ai';
+import { CombatSystem } from '../combat';
+import { SeededRandom } from '@/lib/game-engine/random';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  Character,
+  CombatBehavior,
+  CombatParticipant,
+  CombatPosition,
+  CombatSession,
+} from '@/types/rpg';
+import { createCharacter, createParticipant, createSession } from './fixtures';
+
+const participant = (
+  type: CombatParticipant['type'],
+  character: Character,
+  zone: CombatPosition['zone'] = 'front',
+  behavior?: CombatBehavior
+): CombatParticipant =>
+  createParticipant(type, character, {
+    position: { x: 0, y: 0, zone },
+    behavior,
+  });
+
+const hero = (id: string, currentHealth = 30) =>
+  participant('player', createCharacter({ id, name: id, currentHealth }));
+
+const npc = (
+  id: string,
+  combatStyle: CombatBehavior['combatStyle'],
+  overrides: Partial<Character> = {},
+  zone: CombatPosition['zone'] = 'front'
+) =>
+  participant('npc', createCharacter({ id, name: id, ...overrides }), zone, {
+    combatStyle,
+  });
+
+/**
+ * A random source that always hits and whose chances always come up
+ */
+const fixedRandom = (): SeededRandom => {
+  const random = new SeededRandom(7);
+  jest
+    .spyOn(random, 'roll')
+    .mockImplementation(sides => (sides === 100 ? 50 : Math.min(sides, 4)));
+  jest.spyOn(random, 'chance').mockReturnValue(true);
+  return random;
+};
+
+describe('CombatAI', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(CombatAI.getInstance()).toBe(combatAI);
+  });
+
+  describe('choosing actions', () => {
+    const choose = (session: CombatSession) =>
+      combatAI.chooseAction(
+        session.participants[0]!,
+        session,
+        new SeededRandom(7)
+      );
+
+    test('attackers focus on the target they can finish', () => {
+      const session = createSession([
+        npc('orc', 'aggressive'),
+        hero('healthy'),
+        hero('wounded', 2),
+      ]);
+
+      expect(choose(session)).toMatchObject({
+        type: 'attack',
+        data: { targetId: 'wounded' },
+      });
+    });
+
+    test('support fighters heal a hurt ally', () => {
+      const shaman = npc(
+        'shaman',
+        'support',
+        {
+          spellbook: {
+            known: ['mending_light'],
+            prepared: ['mending_light'],
+            mana: 20,
+            cooldowns: {},
+          },
+        },
+        'back'
+      );
+      const session = createSession([
+        shaman,
+        npc('brute', 'aggressive', { currentHealth: 5 }),
+        hero('hero'),
+      ]);
+
+      expect(choose(session)).toMatchObject({
+        type: 'cast_spell',
+        data: { spellId: 'mending_light', targetId: 'brute' },
+      });
+    });
+
+    test('fighters take up the position their style prefers', () => {
+      const session = createSession([npc('shaman', 'support'), hero('hero')]);
+
+      expect(choose(session)).toMatchObject({
+        type: 'move',
+        data: { position: { zone: 'back' } },
+      });
+    });
+
+    test('defensive fighters brace when hurt', () => {
+      const session = createSession([
+        npc('guard', 'defensive', { currentHealth: 12 }),
+        hero('hero'),
+      ]);
+
+      expect(choose(session).type).toBe('defend');
+    });
+
+    test('fighters flee once their morale breaks', () => {
+      const session = createSession([
+        npc('goblin', 'tactical', { currentHealth: 6 }),
+        npc('fallen', 'tactical', { currentHealth: 0 }),
+        hero('hero'),
+      ]);
+
+      // 20% health, less 15 for the fallen ally
+      expect(combatAI.getMorale(session.participants[0]!, session)).toBe(5);
+      expect(choose(session).type).toBe('flee');
+    });
+
+    test('a fighter with a low flee threshold fights on', () => {
+      const goblin = npc('goblin', 'tactical', { currentHealth: 6 });
+      const session = createSession([
+        { ...goblin, behavior: { combatStyle: 'tactical', fleeThreshold: 0 } },
+        hero('hero', 3),
+      ]);
+
+      expect(choose(session).type).toBe('attack');
+    });
+  });
+
+  describe('difficulty', () => {
+    test('scales enemy health', () => {
+      const ogre = createCharacter({ maxHealth: 40, currentHealth: 40 });
+
+      expect(combatAI.scaleForDifficulty(ogre, 'hard')).toMatchObject({
+        maxHealth: 50,
+        currentHealth: 50,
+      });
+      expect(combatAI.scaleForDifficulty(ogre, 'easy').maxHealth).toBe(32);
+      expect(combatAI.scaleForDifficulty(ogre, 'medium')).toBe(ogre);
+    });
+
+    test('easier enemies sometimes blunder', () => {
+      const random = new SeededRandom(7);
+      jest.spyOn(random, 'chance').mockReturnValue(true);
+      jest
+        .spyOn(random, 'pick')
+        .mockImplementation(<T>(items: readonly T[]) => items[0]!);
+      const session = {
+        ...createSession([npc('orc', 'aggressive'), hero('hero')]),
+        difficulty: 'easy' as const,
+      };
+
+      expect(
+        combatAI.chooseAction(session.participants[0]!, session, random).type
+      ).toBe('wait');
+    });
+  });
+
+  describe('in combat', () => {
+    test('enemies act until a player is up, with real results', async () => {
+      const session = createSession([npc('orc', 'aggressive'), hero('hero')]);
+
+      const turns =
+        await CombatSystem.withRandom(fixedRandom()).takeAITurns(session);
+
+      expect(turns).toHaveLength(3);
+      turns.forEach(({ action, result }) => {
+        expect(action).toMatchObject({ type: 'attack', playerId: 'orc' });
+        expect(result.actionResult).toMatchObject({
+          outcome: 'hit',
+          damage: 3,
+        });
+      });
+      const updated = turns[2]!.result.updatedSession;
+      expect(updated.currentParticipant).toBe('hero');
+      expect(updated.participants[1]!.character.currentHealth).toBe(21);
+    });
+
+    test('a round reports what each enemy actually did', async () => {
+      const session = createSession([
+        npc('orc', 'aggressive'),
+        npc('fallen', 'aggressive', { currentHealth: 0 }),
+        hero('hero'),
+      ]);
+
+      const round =
+        await CombatSystem.withRandom(fixedRandom()).resolveCombatRound(
+          session
+        );
+
+      expect(round.participantResults).toHaveLength(3);
+      expect(
+        round.participantResults.map(result => result.result.damage)
+      ).toEqual([3, 3, 3]);
+      // The fallen orc's turn is skipped
+      expect(round.nextParticipant).toBe('hero');
+    });
+
+    test('an enemy that gets away leaves the fight', async () => {
+      const session = createSession([
+        npc('goblin', 'tactical', { currentHealth: 3 }),
+        npc('fallen', 'tactical', { currentHealth: 0 }),
+        hero('hero'),
+      ]);
+
+      const [turn] =
+        await CombatSystem.withRandom(fixedRandom()).takeAITurns(session);
+
+      expect(turn!.action.type).toBe('flee');
+      const updated = turn!.result.updatedSession;
+      expect(updated.participants.map(p => p.id)).toEqual(['fallen', 'hero']);
+      expect(updated.turnOrder).toEqual(['fallen', 'hero']);
+      expect(turn!.result.combatEnd?.victor).toBe('players');
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Unit tests for the RPG combat reward resolver
+ * Covers experience shares, level-ups, loot tables by enemy type and the
+ * party's loot distribution modes
+ */
+
+import { CombatRewardResolver, combatRewardResolver } from '../combat-rewards';
+import { SeededRandom } from '@/lib/game-engine/random';
+import { Character, Item } from '@/types/rpg';
+import {
+  createCharacter,
+  createInventory,
+  createParticipant,
+  createPlayer,
+  createSession,
+  createStats,
+} from './fixtures';
+
+const createItem = (id: string, overrides: Partial<Item> = {}): Item =>
+  ({
+    id,
+    name: id,
+    type: 'misc',
+    rarity: 'common',
+    value: 1,
+    weight: 1,
+    properties: { stackable: false, equipable: false },
+    ...overrides,
+  }) as unknown as Item;
+
+describe('CombatRewardResolver', () => {
+  test('should be a singleton', () => {
+    expect(CombatRewardResolver.getInstance()).toBe(combatRewardResolver);
+  });
+
+  describe('experience', () => {
+    test('scales with enemy level and is shared by the survivors', () => {
+      const session = createSession([
+        createParticipant('player', createCharacter({ id: 'a' })),
+        createParticipant('player', createCharacter({ id: 'b' })),
+        createParticipant(
+          'player',
+          createCharacter({ id: 'c', currentHealth: 0 })
+        ),
+        createParticipant('monster', createCharacter({ id: 'orc', level: 3 })),
+        createParticipant('monster', createCharacter({ id: 'imp', level: 1 })),
+      ]);
+
+      // 400 for the enemies, plus 10% for a second survivor
+      expect(
+        combatRewardResolver.calculateExperience(session, 'players')
+      ).toEqual({ a: 220, b: 220 });
+    });
+
+    test('nothing is earned from a lost fight', () => {
+      const session = createSession([
+        createParticipant('player', createCharacter({ id: 'a' })),
+        createParticipant('monster', createCharacter({ id: 'orc', level: 3 })),
+      ]);
+
+      expect(
+        combatRewardResolver.calculateExperience(session, 'enemies')
+      ).toEqual({});
+    });
+  });
+
+  describe('loot', () => {
+    test('enemies are typed by their race', () => {
+      const enemy = (race: string) =>
+        createCharacter({ race: { ...createCharacter().race, name: race } });
+
+      expect(combatRewardResolver.getEnemyType(enemy('Dire Wolf'))).toBe(
+        'beast'
+      );
+      expect(combatRewardResolver.getEnemyType(enemy('Skeleton'))).toBe(
+        'undead'
+      );
+      expect(combatRewardResolver.getEnemyType(enemy('Stone Golem'))).toBe(
+        'construct'
+      );
+      expect(combatRewardResolver.getEnemyType(enemy('Bandit'))).toBe(
+        'humanoid'
+      );
+    });
+
+    test('only defeated enemies drop loot, from their own table', () => {
+      const random = new SeededRandom(3);
+      jest.spyOn(random, 'chance').mockReturnValue(true);
+      const session = createSession([
+        createParticipant('player', createCharacter({ id: 'a' })),
+        createParticipant(
+          'monster',
+          createCharacter({
+            id: 'wolf',
+            race: { name: 'Wolf' } as Character['race'],
+            currentHealth: 0,
+          })
+        ),
+        createParticipant(
+          'monster',
+          createCharacter({
+            id: 'bandit',
+            race: { name: 'Bandit' } as Character['race'],
+          })
+        ),
+      ]);
+
+      const loot = combatRewardResolver.generateLoot(session, random);
+
+      expect(loot.items).toHaveLength(2);
+      loot.items.forEach(item =>
+        expect(['Pelt', 'Fang', 'Fresh Meat', 'Claw Charm']).toContain(
+          item.name
+        )
+      );
+      // Beasts carry no purse
+      expect(loot.currency).toBe(0);
+    });
+
+    test('rarity is capped by what the drop can be', () => {
+      const random = new SeededRandom(3);
+      jest.spyOn(random, 'chance').mockReturnValue(true);
+      jest
+        .spyOn(random, 'weightedPick')
+        .mockImplementation(
+          <T>(items: readonly T[]) => items[items.length - 1]!
+        );
+      const session = createSession([
+        createParticipant(
+          'monster',
+          createCharacter({
+            id: 'golem',
+            level: 20,
+            race: { name: 'Golem' } as Character['race'],
+            currentHealth: 0,
+          })
+        ),
+      ]);
+
+      const loot = combatRewardResolver.generateLoot(session, random);
+
+      // Always taking the last option rolls an artifact Core Crystal, capped at epic
+      expect(loot.items.map(item => [item.name, item.rarity])).toEqual([
+        ['Core Crystal', 'epic'],
+        ['Core Crystal', 'epic'],
+      ]);
+    });
+
+    test('humanoids carry gold scaled by their level', () => {
+      const random = new SeededRandom(3);
+      jest.spyOn(random, 'chance').mockReturnValue(false);
+      const session = createSession([
+        createParticipant(
+          'monster',
+          createCharacter({ id: 'bandit', level: 4, currentHealth: 0 })
+        ),
+      ]);
+
+      const { currency } = combatRewardResolver.generateLoot(session, random);
+
+      expect(currency).toBeGreaterThanOrEqual(8);
+      expect(currency).toBeLessThanOrEqual(32);
+    });
+  });
+
+  describe('distribution', () => {
+    const party = [
+      createCharacter({ id: 'a', stats: createStats({ strength: 10 }) }),
+      createCharacter({
+        id: 'b',
+        stats: createStats({ strength: 16 }),
+      }),
+    ];
+    const items = ['x', 'y', 'z'].map(id => createItem(id));
+
+    test('round robin takes turns around the party', () => {
+      const random = new SeededRandom(3);
+      jest.spyOn(random, 'nextInt').mockReturnValue(1);
+
+      const allocations = combatRewardResolver.distributeLoot(
+        items,
+        party,
+        'round_robin',
+        random
+      );
+
+      expect(allocations.map(a => a.characterId)).toEqual(['b', 'a', 'b']);
+    });
+
+    test('need beats greed regardless of the roll', () => {
+      const random = new SeededRandom(3);
+      jest
+        .spyOn(random, 'roll')
+        .mockReturnValueOnce(95)
+        .mockReturnValueOnce(10);
+      const axe = createItem('axe', {
+        type: 'weapon',
+        properties: { equipable: true } as Item['properties'],
+        requirements: { stats: { strength: 14 } },
+      });
+
+      const [allocation] = combatRewardResolver.distributeLoot(
+        [axe],
+        party,
+        'need_greed',
+        random
+      );
+
+      expect(allocation).toMatchObject({
+        characterId: 'b',
+        claim: 'need',
+        roll: 10,
+      });
+    });
+
+    test('the leader takes everything to hand out', () => {
+      const allocations = combatRewardResolver.distributeLoot(
+        items,
+        party,
+        'leader_assigns',
+        new SeededRandom(3),
+        'b'
+      );
+
+      expect(allocations.every(a => a.characterId === 'b')).toBe(true);
+    });
+  });
+
+  describe('awardRewards', () => {
+    test('levels up, shares loot and gold, and records a summary', async () => {
+      const hero = createPlayer(createCharacter({ id: 'a', experience: 900 }));
+      const packed = createPlayer(createCharacter({ id: 'b' }), {
+        inventory: createInventory({ capacity: 0 }),
+      });
+
+      const { players, allocations } = await combatRewardResolver.awardRewards(
+        [hero, packed],
+        {
+          combatId: 'combat-1',
+          victor: 'players',
+          experience: { a: 150, b: 150 },
+          loot: { items: [createItem('x')], currency: 5 },
+        },
+        'leader_assigns',
+        new SeededRandom(3),
+        'b'
+      );
+
+      // The leader's pack is full, so the drop goes to the next member
+      expect(allocations).toEqual([
+        expect.objectContaining({ characterId: 'a' }),
+      ]);
+
+      const [a, b] = players.map(player => player.gameSpecificData);
+      expect(a!.character.level).toBe(2);
+      expect(a!.lastCombatRewards).toMatchObject({
+        experienceGained: 150,
+        levelsGained: 1,
+        level: 2,
+        currency: 2,
+        distribution: 'leader_assigns',
+      });
+      expect(a!.inventory.items.map(i => i.item.id)).toEqual(['x']);
+      // The odd coin goes to the leader
+      expect(b!.inventory.currency).toBe(3);
+      expect(b!.lastCombatRewards!.itemsReceived).toEqual([]);
+    });
+  });
+});
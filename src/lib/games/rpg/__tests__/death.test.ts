@@ -0,0 +1,361 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the RPG death system
+ * Covers the downed state and death saves, first aid and resurrection,
+ * resurrection quests and the graveyard, and dying in combat
+ */
+
+import { DeathSystem, deathSystem } from '../death';
+import { CombatSystem } from '../combat';
+import { itemEffectInterpreter } from '../item-effects';
+import { SeededRandom } from '@/lib/game-engine/random';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  Character,
+  CombatAction,
+  Inventory,
+  Item,
+  WorldData,
+} from '@/types/rpg';
+import {
+  createCharacter,
+  createParticipant,
+  createSession,
+  createStats,
+} from './fixtures';
+
+/**
+ * The hero has 20 health, so 20 damage downs them and 40 is massive damage
+ */
+const createHero = (overrides: Partial<Character> = {}): Character =>
+  createCharacter({ currentHealth: 20, maxHealth: 20, ...overrides });
+
+const action = (
+  type: CombatAction['type'],
+  playerId: string,
+  data: CombatAction['data'] = {}
+): CombatAction => ({
+  id: '00000000-0000-4000-8000-000000000001',
+  type,
+  playerId,
+  gameId: 'game-1',
+  timestamp: new Date(),
+  data,
+});
+
+/**
+ * A random source whose d20 comes up with each of the given rolls in turn,
+ * and that always hits for 4 on every other die
+ */
+const riggedRandom = (...d20: number[]): SeededRandom => {
+  const random = new SeededRandom(3);
+  jest
+    .spyOn(random, 'roll')
+    .mockImplementation(sides =>
+      sides === 20
+        ? (d20.shift() ?? 10)
+        : sides === 100
+          ? 50
+          : Math.min(sides, 4)
+    );
+  jest.spyOn(random, 'chance').mockReturnValue(true);
+  return random;
+};
+
+const downed = (overrides: Partial<Character> = {}) =>
+  deathSystem.applyDamage(createHero(overrides), 20);
+
+describe('DeathSystem', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(DeathSystem.getInstance()).toBe(deathSystem);
+  });
+
+  describe('damage', () => {
+    test('dropping to 0 downs rather than kills', () => {
+      const character = deathSystem.applyDamage(createHero(), 25);
+
+      expect(character.currentHealth).toBe(0);
+      expect(deathSystem.getStatus(character)).toBe('downed');
+      expect(character.deathState).toMatchObject({
+        successes: 0,
+        failures: 0,
+      });
+    });
+
+    test('massive damage kills outright', () => {
+      const character = deathSystem.applyDamage(createHero(), 40);
+
+      expect(deathSystem.getStatus(character)).toBe('dead');
+      expect(character.deathState!.diedAt).toBeInstanceOf(Date);
+    });
+
+    test('a hit while down counts as a failed save', () => {
+      const hit = deathSystem.applyDamage(downed(), 3);
+      const finished = deathSystem.applyDamage(
+        deathSystem.applyDamage(hit, 3),
+        3
+      );
+
+      expect(hit.deathState!.failures).toBe(1);
+      expect(deathSystem.isDead(finished)).toBe(true);
+    });
+
+    test('healing gets the downed up but not the dead', () => {
+      const dead = deathSystem.kill(createHero({ currentHealth: 0 }));
+
+      expect(deathSystem.heal(downed(), 5)).toMatchObject({
+        currentHealth: 5,
+        deathState: undefined,
+      });
+      expect(deathSystem.heal(dead, 5)).toBe(dead);
+    });
+  });
+
+  describe('death saves', () => {
+    const rollSaves = (...rolls: number[]) => {
+      const random = riggedRandom(...rolls);
+      return rolls.reduce(
+        results => {
+          const save = deathSystem.rollDeathSave(
+            results.at(-1)!.character,
+            random
+          );
+          return [...results, save];
+        },
+        [{ character: downed(), outcome: 'success', roll: 0 }] as ReturnType<
+          DeathSystem['rollDeathSave']
+        >[]
+      );
+    };
+
+    test('three successes leave the character stable', () => {
+      const saves = rollSaves(12, 15, 10);
+
+      expect(saves.slice(1).map(save => save.outcome)).toEqual([
+        'success',
+        'success',
+        'stabilized',
+      ]);
+      expect(deathSystem.getStatus(saves[3]!.character)).toBe('stable');
+    });
+
+    test('three failures kill, and a natural 1 counts twice', () => {
+      const saves = rollSaves(5, 1);
+
+      expect(saves.slice(1).map(save => save.outcome)).toEqual([
+        'failure',
+        'died',
+      ]);
+      expect(saves[2]!.character.deathState!.failures).toBe(3);
+    });
+
+    test('a natural 20 gets the character back up', () => {
+      const [, save] = rollSaves(20);
+
+      expect(save!.outcome).toBe('revived');
+      expect(save!.character.currentHealth).toBe(1);
+      expect(deathSystem.getStatus(save!.character)).toBe('alive');
+    });
+  });
+
+  describe('recovery', () => {
+    test('first aid is a wisdom check', () => {
+      const wise = createHero({
+        stats: createStats({ wisdom: 16 }),
+      });
+
+      // 7 on the die, +3 for wisdom
+      expect(
+        deathSystem.stabilize(wise, downed(), riggedRandom(7)).success
+      ).toBe(true);
+      expect(
+        deathSystem.stabilize(createHero(), downed(), riggedRandom(7)).success
+      ).toBe(false);
+    });
+
+    test('the stable can be revived and the dead resurrected', () => {
+      const dead = deathSystem.kill(downed());
+
+      expect(deathSystem.revive(downed()).currentHealth).toBe(1);
+      expect(() => deathSystem.revive(dead)).toThrow('beyond first aid');
+      expect(deathSystem.resurrect(dead, 10)).toMatchObject({
+        currentHealth: 10,
+        deathState: undefined,
+      });
+    });
+
+    test('after a fight the winners keep their downed and losers do not', () => {
+      expect(
+        deathSystem.getStatus(deathSystem.settleAfterCombat(downed(), true))
+      ).toBe('stable');
+      expect(
+        deathSystem.getStatus(deathSystem.settleAfterCombat(downed(), false))
+      ).toBe('dead');
+    });
+
+    test('items revive the downed and raise the dead', () => {
+      const item = (id: string, ability: string, value: number) =>
+        ({
+          id,
+          name: id,
+          type: 'consumable',
+          properties: { consumable: true },
+          effects: [{ type: 'special_ability', target: ability, value }],
+        }) as unknown as Item;
+      const inventory = {
+        items: [
+          { item: item('salts', 'revive', 5), quantity: 1 },
+          { item: item('feather', 'resurrect', 10), quantity: 1 },
+        ],
+      } as unknown as Inventory;
+      const healer = createHero({ id: 'healer' });
+      const dead = deathSystem.kill(downed());
+
+      const use = (itemId: string, target: Character) =>
+        itemEffectInterpreter.useItem(healer, inventory, itemId, {
+          inCombat: false,
+          target,
+        });
+
+      expect(use('salts', downed()).target.currentHealth).toBe(5);
+      expect(use('feather', dead).target.currentHealth).toBe(10);
+      expect(() => use('salts', dead)).toThrow('would do nothing');
+    });
+  });
+
+  describe('resurrection quests and the graveyard', () => {
+    const world = {
+      locations: [
+        { id: 'field', name: 'Field', type: 'wilderness', connections: ['b'] },
+        { id: 'a', name: 'Far Shrine', type: 'temple', connections: [] },
+        { id: 'b', name: 'Near Chapel', type: 'temple', npcs: ['priest'] },
+      ],
+    } as unknown as WorldData;
+
+    test('the quest leads to the nearest temple', () => {
+      const fallen = deathSystem.kill(downed());
+      const quest = deathSystem.createResurrectionQuest(
+        fallen,
+        world,
+        'field',
+        new SeededRandom(3)
+      );
+
+      expect(quest).toMatchObject({
+        location: 'b',
+        giver: 'priest',
+        status: 'active',
+      });
+      expect(quest.objectives[0]).toMatchObject({
+        type: 'deliver',
+        target: 'hero',
+      });
+      expect(deathSystem.findResurrectionQuest([quest], 'hero')).toBe(quest);
+
+      const [completed] = deathSystem.completeResurrectionQuest(
+        [quest],
+        'hero'
+      );
+      expect(completed!.status).toBe('completed');
+      expect(completed!.objectives[0]!.isCompleted).toBe(true);
+    });
+
+    test('the dead are laid to rest in the graveyard', async () => {
+      const fallen = deathSystem.kill(
+        createHero({ currentHealth: 0 }),
+        'an orc'
+      );
+
+      await deathSystem.buryCharacter('game-1', 'player-1', fallen, 'field');
+      const graveyard = await deathSystem.getGraveyard('game-1');
+
+      expect(graveyard).toHaveLength(1);
+      expect(graveyard[0]).toMatchObject({
+        playerId: 'player-1',
+        cause: 'an orc',
+        location: 'field',
+      });
+      expect(await deathSystem.getGraveyard('game-2')).toEqual([]);
+    });
+  });
+
+  describe('in combat', () => {
+    test('players fall downed and make death saves each round', async () => {
+      const session = createSession([
+        createParticipant('npc', createHero({ id: 'orc', name: 'Orc' })),
+        createParticipant('player', createHero({ currentHealth: 3 })),
+        createParticipant('player', createHero({ id: 'ally', name: 'Ally' })),
+      ]);
+      const combat = CombatSystem.withRandom(riggedRandom(5));
+
+      const turns = await combat.takeAITurns(session);
+      const updated = turns.at(-1)!.result.updatedSession;
+      const hero = updated.participants.find(p => p.id === 'hero')!;
+
+      expect(deathSystem.getStatus(hero.character)).toBe('downed');
+      expect(updated.currentParticipant).toBe('ally');
+
+      // The hero rolls as the next round begins
+      let current = updated;
+      for (let i = 0; i < 3; i++) {
+        current = (await combat.processAction(action('wait', 'ally'), current))
+          .updatedSession;
+      }
+
+      expect(current.currentTurn).toBe(2);
+      expect(current.log.at(-2)!.result).toBe(
+        'Hero slips closer to death (rolled 5)'
+      );
+      expect(
+        current.participants.find(p => p.id === 'hero')!.character.deathState
+      ).toMatchObject({ status: 'downed', failures: 1 });
+    });
+
+    test('allies can stabilize the downed', async () => {
+      const session = createSession([
+        createParticipant('player', createHero({ id: 'ally', name: 'Ally' })),
+        createParticipant('player', downed()),
+        createParticipant('npc', createHero({ id: 'orc', name: 'Orc' })),
+      ]);
+
+      const result = await CombatSystem.withRandom(
+        riggedRandom(15)
+      ).processAction(
+        action('stabilize', 'ally', { targetId: 'hero' }),
+        session
+      );
+
+      expect(result.success).toBe(true);
+      expect(
+        deathSystem.getStatus(result.updatedSession.participants[1]!.character)
+      ).toBe('stable');
+
+      const again = await CombatSystem.withRandom(
+        riggedRandom(15)
+      ).processAction(
+        action('stabilize', 'ally', { targetId: 'hero' }),
+        result.updatedSession
+      );
+      expect(again.error).toBe('Hero does not need stabilizing');
+    });
+
+    test('the downed are left for dead when the party loses', async () => {
+      const session = createSession([
+        createParticipant('player', downed()),
+        createParticipant('npc', createHero({ id: 'orc', name: 'Orc' })),
+      ]);
+
+      const end =
+        await CombatSystem.withRandom(riggedRandom()).endCombat(session);
+
+      expect(end.victor).toBe('enemies');
+      expect(deathSystem.isDead(session.participants[0]!.character)).toBe(true);
+    });
+  });
+});
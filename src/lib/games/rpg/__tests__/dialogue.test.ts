@@ -0,0 +1,325 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the RPG dialogue engine
+ * Covers walking dialogue trees, condition filtering, effects on the player
+ * and game state, resuming conversations and AI fallback lines
+ */
+
+import { DialogueEngine, dialogueEngine } from '../dialogue';
+import { geminiService } from '@/lib/ai/gemini';
+import { StubProvider } from '@/lib/ai/providers';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { DialogueOption, NPC, RPGGameState, RPGPlayer } from '@/types/rpg';
+
+const BRIBE: DialogueOption = {
+  text: 'Perhaps this coin will help you remember.',
+  conditions: [{ type: 'item', target: 'Gold Coin', operator: '>=', value: 1 }],
+  effects: [
+    { type: 'item', target: 'Gold Coin', change: -1 },
+    { type: 'flag', target: 'bribed_guard', change: true },
+  ],
+  responses: [{ text: 'The smugglers meet at the old mill.' }],
+};
+
+const THREATEN: DialogueOption = {
+  text: 'Talk, or else.',
+  conditions: [{ type: 'stat', target: 'strength', operator: '>=', value: 15 }],
+  effects: [{ type: 'reputation', target: 'city_watch', change: -10 }],
+  responses: [{ text: 'Alright, alright! The mill!' }],
+};
+
+const ASK: DialogueOption = {
+  text: 'Seen anything strange?',
+  effects: [{ type: 'quest', target: 'quest-mill', change: 'start' }],
+  responses: [
+    {
+      text: 'Only to friends.',
+      conditions: [
+        { type: 'reputation', target: 'city_watch', operator: '<', value: 0 },
+      ],
+    },
+    {
+      text: 'Strange lights by the mill. Would you look into it?',
+      responses: [
+        { text: 'I will.', responses: [{ text: 'Good luck.' }] },
+        { text: 'Not my problem.' },
+      ],
+    },
+  ],
+};
+
+const createNPC = (): NPC =>
+  ({
+    id: 'npc-guard',
+    name: 'Captain Orla',
+    description: 'A weary guard captain',
+    currentLocation: 'gate',
+    personality: { traits: ['weary'], disposition: 'neutral' },
+    quests: ['quest-mill'],
+    relationships: {},
+    dialogue: {
+      greetings: [
+        {
+          text: 'Welcome back, friend.',
+          conditions: [
+            {
+              type: 'flag',
+              target: 'bribed_guard',
+              operator: '=',
+              value: true,
+            },
+          ],
+        },
+        { text: 'Move along.', responses: [ASK] },
+      ],
+      conversations: {
+        smugglers: {
+          root: {
+            text: 'Smugglers? Never heard of them.',
+            responses: [BRIBE, THREATEN, ASK],
+          },
+          branches: {
+            confession: [{ text: 'Fine. I took their money once.' }],
+          },
+        },
+      },
+      farewells: ['Stay out of trouble.'],
+      combat: [],
+    },
+  }) as unknown as NPC;
+
+const createPlayer = (strength = 10): RPGPlayer =>
+  ({
+    id: 'player-1',
+    name: 'Ilsa',
+    gameSpecificData: {
+      character: {
+        stats: { strength, dexterity: 10, intelligence: 10 },
+        skills: { diplomacy: 2 },
+      },
+      inventory: {
+        capacity: 10,
+        equipment: {},
+        currency: 0,
+        items: [
+          {
+            item: {
+              id: 'coin',
+              name: 'Gold Coin',
+              properties: { stackable: true },
+            },
+            quantity: 2,
+          },
+        ],
+      },
+      questLog: [],
+      relationships: {},
+      discoveries: [],
+    },
+  }) as unknown as RPGPlayer;
+
+const createState = (): RPGGameState =>
+  ({
+    gameId: 'game-1',
+    phase: 'exploration',
+    data: {
+      world: {
+        locations: [{ id: 'gate', name: 'City Gate', items: [] }],
+        npcs: [],
+      },
+      currentLocation: 'gate',
+      globalFlags: {},
+      partyInventory: { capacity: 10, items: [], equipment: {}, currency: 0 },
+      partyReputation: { city_watch: 5 },
+    },
+    metadata: { version: 1, actionHistory: [] },
+  }) as unknown as RPGGameState;
+
+describe('DialogueEngine', () => {
+  test('should be a singleton', () => {
+    expect(DialogueEngine.getInstance()).toBe(dialogueEngine);
+  });
+
+  test('opens a topic and offers only options whose conditions hold', async () => {
+    const turn = await dialogueEngine.respond(
+      createNPC(),
+      createPlayer(),
+      createState(),
+      { topic: 'smugglers' }
+    );
+
+    expect(turn.npcLine.text).toBe('Smugglers? Never heard of them.');
+    expect(turn.options).toEqual([
+      { index: 0, text: BRIBE.text },
+      { index: 2, text: ASK.text },
+    ]);
+  });
+
+  test('applies effects and ends when the answer has no options', async () => {
+    const npc = createNPC();
+    const opened = await dialogueEngine.respond(
+      npc,
+      createPlayer(),
+      createState(),
+      { topic: 'smugglers' }
+    );
+    const turn = await dialogueEngine.respond(
+      npc,
+      opened.player,
+      opened.state,
+      { choice: 0 }
+    );
+
+    expect(turn.npcLine.text).toBe('The smugglers meet at the old mill.');
+    expect(turn.options).toEqual([]);
+    expect(turn.conversation.ended).toBe(true);
+    expect(turn.state.data.globalFlags.bribed_guard).toBe(true);
+    expect(turn.player.gameSpecificData.inventory.items[0]!.quantity).toBe(1);
+    expect(turn.conversation.history.map(line => line.speaker)).toEqual([
+      'npc',
+      'player',
+      'npc',
+    ]);
+  });
+
+  test('answers with the first line whose conditions pass', async () => {
+    const npc = createNPC();
+    const opened = await dialogueEngine.respond(
+      npc,
+      createPlayer(),
+      createState(),
+      { topic: 'smugglers' }
+    );
+    const turn = await dialogueEngine.respond(
+      npc,
+      opened.player,
+      opened.state,
+      { choice: 2 }
+    );
+
+    expect(turn.npcLine.text).toBe(
+      'Strange lights by the mill. Would you look into it?'
+    );
+    expect(turn.options.map(option => option.text)).toEqual([
+      'I will.',
+      'Not my problem.',
+    ]);
+    expect(turn.player.gameSpecificData.questLog).toMatchObject([
+      { id: 'quest-mill', status: 'active', giver: 'npc-guard' },
+    ]);
+  });
+
+  test('resumes where the player left off', async () => {
+    const npc = createNPC();
+    const opened = await dialogueEngine.respond(
+      npc,
+      createPlayer(),
+      createState(),
+      { topic: 'smugglers' }
+    );
+    const asked = await dialogueEngine.respond(
+      npc,
+      opened.player,
+      opened.state,
+      { choice: 2 }
+    );
+    const resumed = await dialogueEngine.respond(
+      npc,
+      asked.player,
+      asked.state
+    );
+
+    expect(resumed.npcLine.text).toBe(asked.npcLine.text);
+    expect(resumed.options).toEqual(asked.options);
+
+    const accepted = await dialogueEngine.respond(
+      npc,
+      resumed.player,
+      resumed.state,
+      { choice: 0 }
+    );
+    expect(accepted.npcLine.text).toBe('Good luck.');
+  });
+
+  test('greets by the first greeting the player qualifies for', async () => {
+    const npc = createNPC();
+    const first = await dialogueEngine.respond(
+      npc,
+      createPlayer(),
+      createState()
+    );
+    expect(first.npcLine.text).toBe('Move along.');
+
+    const state = createState();
+    const bribed = await dialogueEngine.respond(npc, createPlayer(), {
+      ...state,
+      data: { ...state.data, globalFlags: { bribed_guard: true } },
+    });
+    expect(bribed.npcLine.text).toBe('Welcome back, friend.');
+  });
+
+  test('opens named branches within a topic', async () => {
+    const turn = await dialogueEngine.respond(
+      createNPC(),
+      createPlayer(),
+      createState(),
+      { topic: 'smugglers', branch: 'confession' }
+    );
+
+    expect(turn.npcLine.text).toBe('Fine. I took their money once.');
+    expect(turn.conversation.ended).toBe(true);
+  });
+
+  test('rejects options the player cannot choose', async () => {
+    const npc = createNPC();
+    const opened = await dialogueEngine.respond(
+      npc,
+      createPlayer(),
+      createState(),
+      { topic: 'smugglers' }
+    );
+
+    await expect(
+      dialogueEngine.respond(npc, opened.player, opened.state, { choice: 1 })
+    ).rejects.toMatchObject({ code: 'INVALID_ACTION' });
+  });
+
+  describe('free-form lines', () => {
+    beforeEach(() => {
+      kvService.useDriver(new MemoryStorageDriver());
+    });
+
+    test('are answered through the NPC dialogue template', async () => {
+      const provider = new StubProvider('gemini', ' The mill, mostly. ');
+      geminiService.useProviders([provider]);
+      const npc = createNPC();
+      const opened = await dialogueEngine.respond(
+        npc,
+        createPlayer(),
+        createState(),
+        { topic: 'smugglers' }
+      );
+
+      const turn = await dialogueEngine.respond(
+        npc,
+        opened.player,
+        opened.state,
+        { message: 'Where do the carts go at night?' }
+      );
+
+      expect(provider.requests[0]!.prompt).toContain('Captain Orla');
+      expect(provider.requests[0]!.prompt).toContain(
+        'Where do the carts go at night?'
+      );
+      expect(turn.npcLine).toEqual({
+        speaker: 'npc',
+        text: 'The mill, mostly.',
+        generated: true,
+      });
+      // The authored conversation is still waiting on the player
+      expect(turn.options).toEqual(opened.options);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the RPG exploration system
+ * Covers skill checks against discovery criteria, clue bonuses, hidden
+ * rewards and recording discoveries on the player
+ */
+
+import { ExplorationSystem, explorationSystem } from '../exploration';
+import { SeededRandom } from '@/lib/game-engine/random';
+import { Character, Location, RPGPlayer } from '@/types/rpg';
+import {
+  createCharacter,
+  createPlayer,
+  createSkills,
+  createStats,
+} from './fixtures';
+
+const createInvestigator = (investigation: number): Character =>
+  createCharacter({
+    id: 'character-1',
+    name: 'Ilsa',
+    stats: createStats({ strength: 10, intelligence: 14 }), // +2
+    skills: createSkills({ investigation }),
+    currentHealth: 20,
+    maxHealth: 20,
+  });
+
+const createExplorer = (discoveries: string[] = []): RPGPlayer =>
+  createPlayer(createInvestigator(3), { discoveries });
+
+const createLocation = (): Location =>
+  ({
+    id: 'crypt',
+    name: 'Old Crypt',
+    description: 'Dust and bones',
+    type: 'ruins',
+    connections: [],
+    features: [],
+    npcs: [],
+    items: [],
+    isDiscovered: true,
+    secrets: [
+      {
+        id: 'secret-1',
+        name: 'Loose Flagstone',
+        description: 'A flagstone that rocks underfoot',
+        requirements: ['careful observation'],
+        isDiscovered: false,
+        revealText: 'Beneath it lies a silver ring',
+      },
+    ],
+    environmentalStory: {
+      narrative: '',
+      atmosphere: {},
+      interactiveElements: [],
+      clues: [
+        {
+          id: 'clue-1',
+          type: 'physical',
+          description: 'Scrape marks around one flagstone',
+          skillRequired: 'investigation',
+          difficultyClass: 12,
+          revealsSecret: 'secret-1',
+        },
+        {
+          id: 'clue-2',
+          type: 'historical',
+          description: 'A map scratched into the wall',
+          skillRequired: 'lore',
+          difficultyClass: 8,
+          connectsToLocation: 'catacombs',
+        },
+      ],
+      hiddenElements: [
+        {
+          id: 'secret-1',
+          name: 'Loose Flagstone',
+          description: 'A flagstone that rocks underfoot',
+          discoveryCriteria: {
+            method: 'investigation',
+            requirements: ['careful observation'],
+            difficulty: 16,
+          },
+          reward: {
+            type: 'item',
+            value: { name: 'Silver Ring', type: 'accessory', value: 40 },
+            significance: 'moderate',
+          },
+          storySignificance: 'The ring belonged to the last abbot',
+        },
+      ],
+    },
+  }) as unknown as Location;
+
+/**
+ * A random source whose d20 rolls come from a fixed list
+ */
+const withRolls = (...rolls: number[]): SeededRandom => {
+  const random = new SeededRandom(42);
+  const roll = jest.spyOn(random, 'roll');
+  rolls.forEach(value => roll.mockReturnValueOnce(value));
+  return random;
+};
+
+describe('ExplorationSystem', () => {
+  test('should be a singleton', () => {
+    expect(ExplorationSystem.getInstance()).toBe(explorationSystem);
+  });
+
+  test('adds skill and stat modifiers to the roll', () => {
+    const check = explorationSystem.rollSkillCheck(
+      createInvestigator(3),
+      'investigation',
+      15,
+      withRolls(10)
+    );
+
+    expect(check).toEqual({
+      skill: 'investigation',
+      roll: 10,
+      modifier: 5,
+      total: 15,
+      difficulty: 15,
+      success: true,
+    });
+  });
+
+  test('natural rolls override the difficulty', () => {
+    const character = createInvestigator(50);
+
+    expect(
+      explorationSystem.rollSkillCheck(character, 'lore', 5, withRolls(1))
+        .success
+    ).toBe(false);
+    expect(
+      explorationSystem.rollSkillCheck(character, 'lore', 40, withRolls(20))
+        .success
+    ).toBe(true);
+  });
+
+  test('records discoveries, grants item rewards and marks secrets', () => {
+    // clue-1: 7 + 5 vs 12, clue-2: 9 + 2 vs 8, secret: 6 + 5 + clue 5 vs 16
+    const result = explorationSystem.exploreLocation(
+      createLocation(),
+      createExplorer(),
+      withRolls(7, 9, 6)
+    );
+
+    expect(result.checks.map(check => check.success)).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    expect(result.discoveries.map(discovery => discovery.id)).toEqual([
+      'clue-1',
+      'clue-2',
+      'catacombs',
+      'secret-1',
+    ]);
+    expect(result.player.gameSpecificData.discoveries).toEqual([
+      'clue-1',
+      'clue-2',
+      'catacombs',
+      'secret-1',
+    ]);
+    expect(result.location.secrets[0]!.isDiscovered).toBe(true);
+
+    const [ring] = result.player.gameSpecificData.inventory.items;
+    expect(ring!.item).toMatchObject({
+      name: 'Silver Ring',
+      type: 'accessory',
+      rarity: 'uncommon',
+      value: 40,
+      properties: { equipable: true },
+    });
+  });
+
+  test('leaves failed checks to be searched again', () => {
+    // Without the clue bonus the secret needs a 11 or better
+    const result = explorationSystem.exploreLocation(
+      createLocation(),
+      createExplorer(),
+      withRolls(2, 3, 10)
+    );
+
+    expect(result.discoveries).toEqual([]);
+    expect(result.player.gameSpecificData.discoveries).toEqual([]);
+    expect(result.location.secrets[0]!.isDiscovered).toBe(false);
+  });
+
+  test('skips what the player has already found', () => {
+    const result = explorationSystem.exploreLocation(
+      createLocation(),
+      createExplorer(['clue-1', 'clue-2', 'secret-1']),
+      withRolls(20)
+    );
+
+    expect(result.checks).toEqual([]);
+    expect(result.discoveries).toEqual([]);
+  });
+
+  test('requires a character', () => {
+    const player = createExplorer();
+    const withoutCharacter = {
+      ...player,
+      gameSpecificData: { ...player.gameSpecificData, character: undefined },
+    } as unknown as RPGPlayer;
+
+    expect(() =>
+      explorationSystem.exploreLocation(
+        createLocation(),
+        withoutCharacter,
+        withRolls(20)
+      )
+    ).toThrow('Create a character before exploring');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Shared fixtures for the RPG unit tests
+ *
+ * Every factory builds a complete, typed value with neutral defaults, so a
+ * test only spells out what it is about through the overrides.
+ */
+
+import {
+  Character,
+  CharacterSkills,
+  CharacterStats,
+  CombatEnvironment,
+  CombatParticipant,
+  CombatSession,
+  Inventory,
+  RPGPlayer,
+} from '@/types/rpg';
+
+export const createStats = (
+  overrides: Partial<CharacterStats> = {}
+): CharacterStats => ({
+  strength: 14,
+  dexterity: 10,
+  constitution: 10,
+  intelligence: 10,
+  wisdom: 10,
+  charisma: 10,
+  luck: 10,
+  ...overrides,
+});
+
+export const createSkills = (
+  overrides: Partial<CharacterSkills> = {}
+): CharacterSkills => ({
+  combat: 0,
+  magic: 0,
+  stealth: 0,
+  diplomacy: 0,
+  survival: 0,
+  investigation: 0,
+  crafting: 0,
+  lore: 0,
+  ...overrides,
+});
+
+/**
+ * A level 1 human fighter at full health
+ */
+export const createCharacter = (
+  overrides: Partial<Character> = {}
+): Character => ({
+  id: 'hero',
+  name: 'Hero',
+  race: {
+    name: 'Human',
+    description: 'Adaptable and ambitious',
+    statModifiers: {},
+    abilities: [],
+    restrictions: [],
+  },
+  class: {
+    name: 'Fighter',
+    description: 'A trained warrior',
+    primaryStat: 'strength',
+    skillAffinities: [],
+    abilities: [],
+    equipment: [],
+  },
+  level: 1,
+  experience: 0,
+  stats: createStats(),
+  skills: createSkills(),
+  traits: [],
+  background: {
+    name: 'Wanderer',
+    description: 'A traveller with no fixed home',
+    skillBonuses: {},
+    startingEquipment: [],
+    connections: [],
+  },
+  currentHealth: 30,
+  maxHealth: 30,
+  statusEffects: [],
+  ...overrides,
+});
+
+export const createInventory = (
+  overrides: Partial<Inventory> = {}
+): Inventory => ({
+  capacity: 10,
+  items: [],
+  equipment: { accessories: [] },
+  currency: 0,
+  ...overrides,
+});
+
+/**
+ * A player playing the given character, named after it
+ */
+export const createPlayer = (
+  character: Character = createCharacter(),
+  overrides: Partial<RPGPlayer['gameSpecificData']> = {}
+): RPGPlayer => ({
+  id: `player-${character.id}`,
+  name: character.name,
+  isActive: true,
+  joinedAt: new Date(0),
+  lastActivity: new Date(0),
+  gameSpecificData: {
+    character,
+    inventory: createInventory(),
+    questLog: [],
+    relationships: {},
+    discoveries: [],
+    ...overrides,
+  },
+});
+
+/**
+ * A fighter standing in the front zone with a full turn ahead of them
+ */
+export const createParticipant = (
+  type: CombatParticipant['type'],
+  character: Character,
+  overrides: Partial<CombatParticipant> = {}
+): CombatParticipant => ({
+  id: character.id,
+  type,
+  character,
+  position: { x: 0, y: 0, zone: 'front' },
+  actionPoints: 3,
+  maxActionPoints: 3,
+  hasActed: false,
+  ...overrides,
+});
+
+export const createEnvironment = (
+  overrides: Partial<CombatEnvironment> = {}
+): CombatEnvironment => ({
+  type: 'dungeon',
+  modifiers: [],
+  hazards: [],
+  size: { width: 6, height: 6 },
+  ...overrides,
+});
+
+/**
+ * An active fight on its first turn, opened by the first participant
+ */
+export const createSession = (
+  participants: CombatParticipant[],
+  overrides: Partial<CombatSession> = {}
+): CombatSession => ({
+  id: 'combat-1',
+  participants,
+  currentTurn: 1,
+  turnOrder: participants.map(p => p.id),
+  currentParticipant: participants[0]?.id ?? '',
+  environment: createEnvironment(),
+  status: 'active',
+  log: [],
+  difficulty: 'hard',
+  ...overrides,
+});
@@ -0,0 +1,314 @@
+/**
+ * Unit tests for the RPG item effect interpreter
+ * Covers healing, permanent and timed modifiers, status effects, charges,
+ * keys and combat-only effects
+ */
+
+import { ItemEffectInterpreter, itemEffectInterpreter } from '../item-effects';
+import { statusEffectManager } from '../status-effects';
+import { Character, Inventory, Item, ItemEffect, Location } from '@/types/rpg';
+import { createCharacter, createSkills, createStats } from './fixtures';
+
+const createRogue = (overrides: Partial<Character> = {}): Character =>
+  createCharacter({
+    id: 'character-1',
+    name: 'Ilsa',
+    class: { ...createCharacter().class, name: 'Rogue' },
+    stats: createStats({ strength: 10 }),
+    skills: createSkills({ stealth: 5 }),
+    currentHealth: 10,
+    maxHealth: 30,
+    ...overrides,
+  });
+
+const createItem = (
+  id: string,
+  effects: ItemEffect[],
+  overrides: Partial<Item> = {}
+): Item => ({
+  id,
+  name: id,
+  description: `A ${id}`,
+  type: 'consumable',
+  rarity: 'common',
+  value: 10,
+  weight: 1,
+  properties: {
+    stackable: true,
+    consumable: true,
+    equipable: false,
+    tradeable: true,
+    questItem: false,
+  },
+  effects,
+  ...overrides,
+});
+
+const createInventory = (item: Item, quantity = 1): Inventory => ({
+  capacity: 20,
+  items: [{ item, quantity }],
+  equipment: { accessories: [] },
+  currency: 0,
+});
+
+const POTION = createItem('Healing Potion', [
+  { type: 'stat_modifier', target: 'health', value: 15 },
+]);
+
+describe('ItemEffectInterpreter', () => {
+  test('should be a singleton', () => {
+    expect(ItemEffectInterpreter.getInstance()).toBe(itemEffectInterpreter);
+  });
+
+  test('potions heal and use one from the stack', () => {
+    const use = itemEffectInterpreter.useItem(
+      createRogue({ currentHealth: 20 }),
+      createInventory(POTION, 3),
+      POTION.id,
+      { inCombat: false }
+    );
+
+    expect(use.user.currentHealth).toBe(30);
+    expect(use.healing).toBe(10);
+    expect(use.consumed).toBe(true);
+    expect(use.inventory.items[0]!.quantity).toBe(2);
+  });
+
+  test('refuses items that would do nothing and keeps them', () => {
+    const inventory = createInventory(POTION);
+
+    expect(() =>
+      itemEffectInterpreter.useItem(
+        createRogue({ currentHealth: 30 }),
+        inventory,
+        POTION.id,
+        { inCombat: false }
+      )
+    ).toThrow('Healing Potion would do nothing here');
+    expect(inventory.items[0]!.quantity).toBe(1);
+  });
+
+  test('permanent modifiers change the character for good', () => {
+    const tome = createItem('Tome of Might', [
+      {
+        type: 'stat_modifier',
+        target: 'strength',
+        value: 2,
+        duration: 'permanent',
+      },
+      {
+        type: 'skill_modifier',
+        target: 'stealth',
+        value: 3,
+        duration: 'permanent',
+      },
+    ]);
+
+    const use = itemEffectInterpreter.useItem(
+      createRogue(),
+      createInventory(tome),
+      tome.id,
+      { inCombat: false }
+    );
+
+    expect(use.user.stats.strength).toBe(12);
+    expect(use.user.skills.stealth).toBe(8);
+    expect(use.user.statusEffects).toEqual([]);
+    expect(use.inventory.items).toEqual([]);
+  });
+
+  test('timed modifiers become a status effect named after the item', () => {
+    const elixir = createItem('Giant Elixir', [
+      { type: 'stat_modifier', target: 'strength', value: 4, duration: 3 },
+      { type: 'skill_modifier', target: 'combat', value: 5, duration: 3 },
+    ]);
+    const character = createRogue();
+
+    const use = itemEffectInterpreter.useItem(
+      character,
+      createInventory(elixir),
+      elixir.id,
+      { inCombat: false }
+    );
+
+    expect(use.user.stats).toEqual(character.stats);
+    expect(use.user.statusEffects).toMatchObject([
+      {
+        name: 'Giant Elixir',
+        type: 'buff',
+        duration: 3,
+        effects: { 'statModifiers.strength': 4, 'skillModifiers.combat': 5 },
+      },
+    ]);
+
+    // Item effects have no definition but still wear off
+    const { updatedEffects } = statusEffectManager.processStatusEffectTicks({
+      ...use.user,
+      statusEffects: [{ ...use.user.statusEffects[0]!, duration: 1 }],
+    });
+    expect(updatedEffects).toEqual([]);
+  });
+
+  test('applies and cures status effects through the status effect manager', () => {
+    const tonic = createItem('Troll Tonic', [
+      { type: 'status_effect', target: 'regeneration', value: 1, duration: 5 },
+    ]);
+    const antidote = createItem('Antidote', [
+      { type: 'status_effect', target: 'poisoned', value: -1 },
+    ]);
+
+    const regenerating = itemEffectInterpreter.useItem(
+      createRogue(),
+      createInventory(tonic),
+      tonic.id,
+      { inCombat: false }
+    );
+    expect(regenerating.statusEffectsApplied).toMatchObject([
+      { name: 'Regeneration', duration: 5 },
+    ]);
+
+    const poisoned = createRogue({
+      statusEffects: statusEffectManager.applyStatusEffect(
+        createRogue(),
+        'poisoned'
+      ),
+    });
+    const cured = itemEffectInterpreter.useItem(
+      poisoned,
+      createInventory(antidote),
+      antidote.id,
+      { inCombat: false }
+    );
+    expect(cured.user.statusEffects).toEqual([]);
+    expect(cured.applied[0]!.description).toBe('cures Poisoned');
+  });
+
+  test('charged items spend a charge until they run out', () => {
+    const wand = createItem(
+      'Wand of Sparks',
+      [{ type: 'special_ability', target: 'damage', value: 6 }],
+      {
+        type: 'tool',
+        charges: 2,
+        properties: {
+          ...POTION.properties,
+          stackable: false,
+          consumable: false,
+        },
+      }
+    );
+    const goblin = createRogue({ id: 'goblin', currentHealth: 20 });
+
+    const first = itemEffectInterpreter.useItem(
+      createRogue(),
+      createInventory(wand),
+      wand.id,
+      { inCombat: true, target: goblin }
+    );
+    expect(first.target.currentHealth).toBe(14);
+    expect(first.damage).toBe(6);
+    expect(first.consumed).toBe(false);
+    expect(first.inventory.items[0]!.item.charges).toBe(1);
+
+    const second = itemEffectInterpreter.useItem(
+      first.user,
+      first.inventory,
+      wand.id,
+      { inCombat: true, target: first.target }
+    );
+    expect(second.inventory.items[0]!.item.charges).toBe(0);
+
+    expect(() =>
+      itemEffectInterpreter.useItem(second.user, second.inventory, wand.id, {
+        inCombat: true,
+        target: second.target,
+      })
+    ).toThrow('Wand of Sparks has no charges left');
+  });
+
+  test('combat-only effects do not take hold outside a fight', () => {
+    const draught = createItem('Battle Draught', [
+      {
+        type: 'stat_modifier',
+        target: 'strength',
+        value: 4,
+        duration: 'combat',
+      },
+    ]);
+
+    expect(() =>
+      itemEffectInterpreter.useItem(
+        createRogue(),
+        createInventory(draught),
+        draught.id,
+        { inCombat: false }
+      )
+    ).toThrow('Battle Draught would do nothing here');
+
+    const use = itemEffectInterpreter.useItem(
+      createRogue(),
+      createInventory(draught),
+      draught.id,
+      { inCombat: true }
+    );
+    expect(use.user.statusEffects[0]!.duration).toBe(20);
+  });
+
+  test('keys open the matching secret at the current location', () => {
+    const key = createItem(
+      'Iron Key',
+      [{ type: 'special_ability', target: 'unlock', value: 'Crypt Door' }],
+      {
+        type: 'quest',
+        properties: { ...POTION.properties, consumable: false },
+      }
+    );
+    const location = {
+      id: 'crypt',
+      name: 'Old Crypt',
+      secrets: [
+        { id: 'secret-door', name: 'Crypt Door', isDiscovered: false },
+        { id: 'secret-ring', name: 'Loose Flagstone', isDiscovered: false },
+      ],
+    } as unknown as Location;
+
+    const use = itemEffectInterpreter.useItem(
+      createRogue(),
+      createInventory(key),
+      key.id,
+      { inCombat: false, location }
+    );
+
+    expect(use.revealedSecrets).toEqual(['secret-door']);
+    expect(use.location!.secrets.map(secret => secret.isDiscovered)).toEqual([
+      true,
+      false,
+    ]);
+    expect(use.consumed).toBe(false);
+    expect(use.inventory.items).toHaveLength(1);
+  });
+
+  test('equipment has to be worn to help', () => {
+    const ring = createItem(
+      'Ring of Wit',
+      [{ type: 'stat_modifier', target: 'intelligence', value: 2 }],
+      {
+        type: 'accessory',
+        properties: {
+          ...POTION.properties,
+          equipable: true,
+          consumable: false,
+        },
+      }
+    );
+
+    expect(() =>
+      itemEffectInterpreter.useItem(
+        createRogue(),
+        createInventory(ring),
+        ring.id,
+        { inCombat: false }
+      )
+    ).toThrow('Equip Ring of Wit to benefit from it');
+  });
+});
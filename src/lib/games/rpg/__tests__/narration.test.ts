@@ -0,0 +1,260 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for RPG action narration
+ * Covers splitting streamed prose from the outcome block, lenient outcome
+ * parsing and applying outcomes to the party
+ */
+
+import {
+  NarrationEvent,
+  NarrationSplitter,
+  applyNarrativeOutcome,
+  narrateAction,
+  parseNarrativeOutcome,
+} from '../narration';
+import { geminiService } from '@/lib/ai/gemini';
+import { StubProvider } from '@/lib/ai/providers';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import { GameAction } from '@/types/core';
+import { RPGGameState } from '@/types/rpg';
+
+const OUTCOME = {
+  mood: 'tense',
+  consequences: ['The guard captain remembers your face'],
+  choices: [{ id: 'choice_1', text: 'Slip away', consequences: [] }],
+  stateChanges: {
+    currency: 25,
+    hoursPassed: 3,
+    flags: { met_captain: true },
+    reputation: { city_watch: -5 },
+  },
+  itemDrops: [
+    {
+      name: 'Brass Key',
+      description: 'Opens the watch house',
+      type: 'tool',
+      rarity: 'uncommon',
+      value: 5,
+      quantity: 1,
+    },
+  ],
+};
+
+const RESPONSE = `The captain eyes you warily.\n\nHe lets you pass.\n\`\`\`json\n${JSON.stringify(OUTCOME)}\n\`\`\``;
+
+const createState = (
+  overrides: Partial<RPGGameState['data']> = {}
+): RPGGameState =>
+  ({
+    id: 'state-1',
+    gameId: 'game-1',
+    version: 1,
+    phase: 'exploration',
+    data: {
+      world: {
+        name: 'Varrow',
+        theme: 'grim',
+        locations: [
+          { id: 'gate', name: 'City Gate', description: 'A crowded gate' },
+        ],
+        factions: [{ id: 'city_watch', name: 'City Watch' }],
+      },
+      currentLocation: 'gate',
+      timeOfDay: 22,
+      dayCount: 1,
+      weather: { type: 'rain', intensity: 'light', effects: [] },
+      globalFlags: { arrived: true },
+      partyInventory: {
+        capacity: 10,
+        items: [],
+        equipment: {},
+        currency: 10,
+      },
+      partyReputation: { city_watch: 98 },
+      ...overrides,
+    },
+    metadata: {},
+  }) as unknown as RPGGameState;
+
+/**
+ * Split text into chunks of the given size, as a provider might stream it
+ */
+const chunk = (text: string, size: number): string[] =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, index) =>
+    text.slice(index * size, (index + 1) * size)
+  );
+
+describe('NarrationSplitter', () => {
+  test.each([1, 2, 3, 7, 64])(
+    'never releases the outcome block with %i-character chunks',
+    size => {
+      const splitter = new NarrationSplitter();
+      const shown = chunk(RESPONSE, size)
+        .map(part => splitter.push(part))
+        .join('');
+      const { content, outcome } = splitter.finish();
+
+      expect(shown).not.toContain('`');
+      expect(shown.trim()).toBe(content);
+      expect(content).toBe('The captain eyes you warily.\n\nHe lets you pass.');
+      expect(outcome.mood).toBe('tense');
+      expect(outcome.itemDrops).toHaveLength(1);
+    }
+  );
+
+  test('keeps inline backticks that do not open a fence', () => {
+    const splitter = new NarrationSplitter();
+    const shown = ['Runes read `', 'ash`.'].map(part => splitter.push(part));
+
+    expect(shown).toEqual(['Runes read ', '`ash`.']);
+    expect(splitter.finish().content).toBe('Runes read `ash`.');
+  });
+
+  test('returns the prose alone when no outcome block is written', () => {
+    const splitter = new NarrationSplitter();
+    splitter.push('Nothing happens.');
+
+    const { content, outcome } = splitter.finish();
+    expect(content).toBe('Nothing happens.');
+    expect(outcome.stateChanges.currency).toBe(0);
+    expect(outcome.itemDrops).toEqual([]);
+  });
+});
+
+describe('parseNarrativeOutcome', () => {
+  test('falls back to no change for invalid JSON', () => {
+    expect(parseNarrativeOutcome('json\n{ not json')).toEqual({
+      mood: 'neutral',
+      consequences: [],
+      choices: [],
+      stateChanges: { currency: 0, hoursPassed: 0, flags: {}, reputation: {} },
+      itemDrops: [],
+    });
+  });
+
+  test('drops invalid fields and item drops individually', () => {
+    const outcome = parseNarrativeOutcome(
+      JSON.stringify({
+        mood: 'ecstatic',
+        stateChanges: { currency: 9999, hoursPassed: 2 },
+        itemDrops: [{ description: 'no name' }, { name: 'Rope', type: 'x' }],
+      })
+    );
+
+    expect(outcome.mood).toBe('neutral');
+    expect(outcome.stateChanges.currency).toBe(0);
+    expect(outcome.stateChanges.hoursPassed).toBe(2);
+    expect(outcome.itemDrops).toEqual([
+      {
+        name: 'Rope',
+        description: '',
+        type: 'misc',
+        rarity: 'common',
+        value: 0,
+        quantity: 1,
+      },
+    ]);
+  });
+});
+
+describe('applyNarrativeOutcome', () => {
+  test('applies currency, items, reputation, flags and time', () => {
+    const state = applyNarrativeOutcome(
+      createState(),
+      parseNarrativeOutcome(JSON.stringify(OUTCOME))
+    );
+
+    expect(state.data.partyInventory.currency).toBe(35);
+    expect(state.data.partyInventory.items).toHaveLength(1);
+    expect(state.data.partyInventory.items[0]!.item).toMatchObject({
+      name: 'Brass Key',
+      type: 'tool',
+      properties: { tradeable: true, equipable: false },
+    });
+    expect(state.data.partyReputation.city_watch).toBe(93);
+    expect(state.data.globalFlags).toEqual({
+      arrived: true,
+      met_captain: true,
+    });
+    expect(state.data.timeOfDay).toBe(1);
+    expect(state.data.dayCount).toBe(2);
+  });
+
+  test('never takes currency below zero or reputation past the cap', () => {
+    const state = applyNarrativeOutcome(
+      createState({ partyReputation: { city_watch: 95 } }),
+      parseNarrativeOutcome(
+        JSON.stringify({
+          stateChanges: { currency: -50, reputation: { city_watch: 20 } },
+        })
+      )
+    );
+
+    expect(state.data.partyInventory.currency).toBe(0);
+    expect(state.data.partyReputation.city_watch).toBe(100);
+  });
+
+  test('leaves drops behind when the inventory is full', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const state = createState();
+    const full = applyNarrativeOutcome(
+      createState({
+        partyInventory: { ...state.data.partyInventory, capacity: 0 },
+      }),
+      parseNarrativeOutcome(JSON.stringify(OUTCOME))
+    );
+
+    expect(full.data.partyInventory.items).toEqual([]);
+    expect(full.data.partyInventory.currency).toBe(35);
+    jest.restoreAllMocks();
+  });
+
+  test('generates the same item ids for the same game', () => {
+    const outcome = parseNarrativeOutcome(JSON.stringify(OUTCOME));
+    const first = applyNarrativeOutcome(createState(), outcome);
+    const second = applyNarrativeOutcome(createState(), outcome);
+
+    expect(first.data.partyInventory.items[0]!.item.id).toBe(
+      second.data.partyInventory.items[0]!.item.id
+    );
+  });
+});
+
+describe('narrateAction', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('streams prose and completes with the parsed outcome', async () => {
+    const provider = new StubProvider('gemini', RESPONSE);
+    geminiService.useProviders([provider]);
+    const action = {
+      id: 'action-1',
+      playerId: 'player-1',
+      gameId: 'game-1',
+      type: 'move',
+      data: { locationId: 'gate' },
+      timestamp: Date.now(),
+    } as unknown as GameAction;
+
+    const events: NarrationEvent[] = [];
+    for await (const event of narrateAction(action, createState())) {
+      events.push(event);
+    }
+
+    const last = events[events.length - 1];
+    const streamed = events
+      .map(event => (event.type === 'text' ? event.text : ''))
+      .join('');
+
+    expect(provider.requests[0]!.prompt).toContain('City Gate');
+    expect(streamed).not.toContain('`');
+    expect(last).toMatchObject({
+      type: 'complete',
+      content: 'The captain eyes you warily.\n\nHe lets you pass.',
+      outcome: { mood: 'tense' },
+    });
+  });
+});
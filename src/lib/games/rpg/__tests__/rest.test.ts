@@ -0,0 +1,207 @@
+/**
+ * Unit tests for the RPG rest system and world clock
+ * Covers healing, status effects running their course, the clock rolling
+ * over, and interruptions rolled against location danger
+ */
+
+import { RestSystem, restSystem } from '../rest';
+import { statusEffectManager } from '../status-effects';
+import { advanceClock, getTimeOfDay, isNight } from '../world-clock';
+import { SeededRandom } from '@/lib/game-engine/random';
+import { Character, Location, NPC, RPGGameState } from '@/types/rpg';
+import { createCharacter, createPlayer } from './fixtures';
+
+const createWounded = (overrides: Partial<Character> = {}): Character =>
+  createCharacter({
+    id: 'character-1',
+    name: 'Ilsa',
+    currentHealth: 10,
+    maxHealth: 40,
+    ...overrides,
+  });
+
+const createLocation = (overrides: Partial<Location> = {}): Location =>
+  ({
+    id: 'camp',
+    name: 'Roadside Camp',
+    type: 'town',
+    connections: ['woods'],
+    secrets: [],
+    ...overrides,
+  }) as unknown as Location;
+
+const createNPC = (id: string, currentLocation: string): NPC =>
+  ({
+    id,
+    name: id,
+    currentLocation,
+    personality: { disposition: 'hostile' },
+    character: createCharacter({ id: `${id}-character`, currentHealth: 12 }),
+  }) as unknown as NPC;
+
+const createState = (timeOfDay = 20, npcs: NPC[] = []): RPGGameState =>
+  ({
+    gameId: 'game-1',
+    phase: 'exploration',
+    data: {
+      world: { id: 'world-1', locations: [], npcs },
+      currentLocation: 'camp',
+      timeOfDay,
+      dayCount: 3,
+      globalFlags: {},
+    },
+    metadata: { version: 1, actionHistory: [] },
+  }) as unknown as RPGGameState;
+
+/**
+ * A random source whose encounter rolls come from a fixed list
+ */
+const withChances = (...outcomes: boolean[]): SeededRandom => {
+  const random = new SeededRandom(7);
+  const chance = jest.spyOn(random, 'chance');
+  outcomes.forEach(outcome => chance.mockReturnValueOnce(outcome));
+  chance.mockReturnValue(false);
+  return random;
+};
+
+describe('RestSystem', () => {
+  test('should be a singleton', () => {
+    expect(RestSystem.getInstance()).toBe(restSystem);
+  });
+
+  test('a long rest heals fully and rolls the clock into the next day', () => {
+    const result = restSystem.rest(
+      createPlayer(createWounded()),
+      createLocation(),
+      createState(20),
+      'long',
+      withChances()
+    );
+
+    expect(result.completed).toBe(true);
+    expect(result.hoursRested).toBe(8);
+    expect(result.healing).toBe(30);
+    expect(result.player.gameSpecificData.character.currentHealth).toBe(40);
+    expect(result.state.data.timeOfDay).toBe(4);
+    expect(result.state.data.dayCount).toBe(4);
+  });
+
+  test('a short rest restores a quarter of maximum health', () => {
+    const result = restSystem.rest(
+      createPlayer(createWounded()),
+      createLocation(),
+      createState(9),
+      'short',
+      withChances()
+    );
+
+    expect(result.healing).toBe(10);
+    expect(result.state.data.timeOfDay).toBe(10);
+  });
+
+  test('status effects run their course while resting', () => {
+    const character = createWounded();
+    const poisoned = createWounded({
+      currentHealth: 30,
+      statusEffects: statusEffectManager.applyStatusEffect(
+        character,
+        'poisoned',
+        3
+      ),
+    });
+
+    const result = restSystem.rest(
+      createPlayer(poisoned),
+      createLocation(),
+      createState(9),
+      'short',
+      withChances()
+    );
+
+    // Three ticks of poison before the rest's healing
+    expect(result.wornOff).toEqual(['Poisoned']);
+    expect(result.player.gameSpecificData.character.statusEffects).toEqual([]);
+    expect(result.player.gameSpecificData.character.currentHealth).toBe(34);
+  });
+
+  test('safe places are never disturbed', () => {
+    const random = withChances(true);
+
+    const result = restSystem.rest(
+      createPlayer(createWounded()),
+      createLocation({ type: 'tavern' }),
+      createState(),
+      'long',
+      random
+    );
+
+    expect(result.completed).toBe(true);
+    expect(random.chance).not.toHaveBeenCalled();
+  });
+
+  test('danger is rolled every hour and doubled at night', () => {
+    const random = withChances();
+
+    restSystem.rest(
+      createPlayer(createWounded()),
+      createLocation({ type: 'dungeon' }),
+      createState(16),
+      'long',
+      random
+    );
+
+    // 17:00 is daytime, 18:00 onwards is dusk or night
+    expect(jest.mocked(random.chance).mock.calls.map(([p]) => p)).toEqual([
+      0.2, 0.4, 0.4, 0.4, 0.4, 0.4, 0.4, 0.4,
+    ]);
+  });
+
+  test('an interruption cuts the rest short and brings nearby hostiles', () => {
+    const wolves = createNPC('wolves', 'woods');
+    const state = createState(22, [wolves, createNPC('bandit', 'far-away')]);
+
+    const result = restSystem.rest(
+      createPlayer(createWounded()),
+      createLocation({
+        dangerLevel: 'high',
+      } as unknown as Partial<Location>),
+      state,
+      'long',
+      withChances(false, false, true)
+    );
+
+    expect(result.completed).toBe(false);
+    expect(result.hoursRested).toBe(3);
+    // Two undisturbed hours out of eight
+    expect(result.healing).toBe(10);
+    expect(result.state.data.timeOfDay).toBe(1);
+    expect(result.interruption).toMatchObject({
+      hour: 3,
+      timeOfDay: 'midnight',
+      dangerLevel: 'high',
+    });
+    expect(result.interruption!.ambushers.map(npc => npc.id)).toEqual([
+      'wolves',
+    ]);
+  });
+});
+
+describe('world clock', () => {
+  test('advances hours and days', () => {
+    const state = advanceClock(createState(23), 26);
+
+    expect(state.data.timeOfDay).toBe(1);
+    expect(state.data.dayCount).toBe(5);
+  });
+
+  test('names the part of the day', () => {
+    expect(getTimeOfDay(0)).toBe('midnight');
+    expect(getTimeOfDay(6)).toBe('dawn');
+    expect(getTimeOfDay(12)).toBe('noon');
+    expect(getTimeOfDay(15)).toBe('afternoon');
+    expect(getTimeOfDay(21)).toBe('night');
+    expect(getTimeOfDay(26)).toBe('midnight');
+    expect(isNight(19)).toBe(true);
+    expect(isNight(9)).toBe(false);
+  });
+});
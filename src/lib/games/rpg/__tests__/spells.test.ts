@@ -0,0 +1,285 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the RPG spell system
+ * Covers spellbooks from class and skills, mana and cooldowns, area
+ * targeting by zone, and spells resolved in combat against resistances
+ */
+
+import { SpellSystem, spellSystem } from '../spells';
+import { skillTreeManager } from '../skills';
+import { CombatSystem } from '../combat';
+import { statusEffectManager } from '../status-effects';
+import { SeededRandom } from '@/lib/game-engine/random';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  Character,
+  CombatAction,
+  CombatParticipant,
+  CharacterClass,
+  CombatPosition,
+} from '@/types/rpg';
+import {
+  createCharacter,
+  createParticipant,
+  createSession,
+  createSkills,
+  createStats,
+} from './fixtures';
+
+const MAGE: CharacterClass = {
+  ...createCharacter().class,
+  name: 'Mage',
+  description: 'A student of the arcane',
+  primaryStat: 'intelligence',
+  abilities: [
+    {
+      name: 'Fire Bolt',
+      description: 'Hurls a bolt of flame',
+      levelRequired: 1,
+      type: 'spell',
+      effects: { spellId: 'fire_bolt' },
+    },
+    {
+      name: 'Frost Nova',
+      description: 'Freezes everyone nearby',
+      levelRequired: 3,
+      type: 'spell',
+      effects: { spellId: 'frost_nova' },
+    },
+  ],
+};
+
+const createMage = (overrides: Partial<Character> = {}): Character =>
+  createCharacter({
+    id: 'mage',
+    name: 'Mage',
+    class: MAGE,
+    stats: createStats({ strength: 10, intelligence: 16 }),
+    skills: createSkills({ magic: 10 }),
+    ...overrides,
+  });
+
+const participant = (
+  type: CombatParticipant['type'],
+  character: Character,
+  zone: CombatPosition['zone'] = 'front'
+): CombatParticipant =>
+  createParticipant(type, character, { position: { x: 0, y: 0, zone } });
+
+const enemy = (id: string, zone: CombatPosition['zone'] = 'front') =>
+  participant(
+    'monster',
+    createMage({ id, name: id, class: { ...MAGE, abilities: [] } }),
+    zone
+  );
+
+const castAction = (spellId: string, targetId?: string): CombatAction => ({
+  id: '00000000-0000-4000-8000-000000000001',
+  type: 'cast_spell',
+  playerId: 'mage',
+  gameId: 'game-1',
+  timestamp: new Date(),
+  data: { spellId, targetId },
+});
+
+/**
+ * A random source that always hits and rolls the given number on every die
+ */
+const fixedRandom = (roll = 4): SeededRandom => {
+  const random = new SeededRandom(11);
+  jest
+    .spyOn(random, 'roll')
+    .mockImplementation(sides => (sides === 100 ? 50 : Math.min(sides, roll)));
+  jest.spyOn(random, 'chance').mockReturnValue(true);
+  return random;
+};
+
+describe('SpellSystem', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(SpellSystem.getInstance()).toBe(spellSystem);
+  });
+
+  describe('spellbook', () => {
+    test('class spells are known once the level is reached', () => {
+      const spellbook = spellSystem.getSpellbook(createMage());
+
+      expect(spellbook.known).toEqual(['fire_bolt']);
+      expect(spellbook.prepared).toEqual(['fire_bolt']);
+      // Intelligence 16 at level 1
+      expect(spellbook.mana).toBe(15);
+    });
+
+    test('skill tree nodes teach spells', () => {
+      const node = skillTreeManager
+        .getSkillTree('magic')!
+        .nodes.find(n => n.name === 'Frost Weaving')!;
+
+      const spells = skillTreeManager.getTaughtSpells(node.id);
+      const character = spellSystem.learnSpells(createMage(), spells);
+
+      expect(spells).toEqual(['frost_nova']);
+      expect(character.spellbook!.known).toEqual(['fire_bolt', 'frost_nova']);
+    });
+
+    test('only a limited number of spells can be prepared', () => {
+      const character = spellSystem.learnSpells(createMage(), [
+        'frost_nova',
+        'blight',
+        'arcane_ward',
+      ]);
+
+      // Intelligence modifier 3, plus one for the first level
+      expect(character.spellbook!.prepared).toHaveLength(4);
+      expect(() =>
+        spellSystem.prepareSpells(character, ['lightning_lance'])
+      ).toThrow('Spell has not been learned');
+      expect(
+        spellSystem.prepareSpells(character, ['blight']).spellbook!.prepared
+      ).toEqual(['blight']);
+    });
+
+    test('mana and cooldowns gate casting', () => {
+      const spell = spellSystem.getSpell('mending_light')!;
+      let character = spellSystem.learnSpells(createMage(), ['mending_light']);
+
+      character = spellSystem.spendCast(character, spell);
+      expect(character.spellbook!.mana).toBe(9);
+      expect(spellSystem.getCastingError(character, 'mending_light')).toBe(
+        'Mending Light is not ready yet'
+      );
+
+      character = spellSystem.tickCooldowns(character);
+      expect(spellSystem.getCastingError(character, 'mending_light')).toBe(
+        undefined
+      );
+
+      character = spellSystem.spendCast(character, spell);
+      character = spellSystem.tickCooldowns(character);
+      expect(spellSystem.getCastingError(character, 'fire_bolt')).toBe(
+        'Not enough mana to cast Fire Bolt'
+      );
+      expect(spellSystem.restoreMana(character, 1).spellbook!.mana).toBe(15);
+    });
+  });
+
+  describe('targeting', () => {
+    const caster = participant('player', createMage(), 'back');
+    const front = enemy('front');
+    const middle = enemy('middle', 'middle');
+    const back = enemy('back', 'back');
+    const ally = participant('player', createMage({ id: 'ally' }), 'front');
+    const everyone = [caster, ally, front, middle, back];
+
+    const reached = (spellId: string, target: CombatParticipant) =>
+      spellSystem
+        .getAffectedParticipants(
+          spellSystem.getSpell(spellId)!,
+          caster,
+          target,
+          everyone
+        )
+        .map(p => p.id);
+
+    test('areas spread over zones and only reach the chosen side', () => {
+      expect(reached('fire_bolt', middle)).toEqual(['middle']);
+      expect(reached('frost_nova', front)).toEqual(['front']);
+      expect(reached('lightning_lance', middle)).toEqual(['middle', 'back']);
+      expect(reached('blight', middle)).toEqual(['front', 'middle', 'back']);
+      expect(reached('arcane_ward', front)).toEqual(['mage']);
+    });
+
+    test('spells are aimed at the side they affect', () => {
+      const heal = spellSystem.getSpell('mending_light')!;
+
+      expect(spellSystem.isValidTarget(heal, caster, ally)).toBe(true);
+      expect(spellSystem.isValidTarget(heal, caster, front)).toBe(false);
+    });
+  });
+
+  describe('in combat', () => {
+    test('a cast spends mana and resistances blunt the damage', async () => {
+      const warded = enemy('warded');
+      const session = createSession([
+        participant('player', createMage()),
+        {
+          ...warded,
+          character: {
+            ...warded.character,
+            statusEffects: statusEffectManager.applyStatusEffect(
+              warded.character,
+              'fire_resistance'
+            ),
+          },
+        },
+      ]);
+
+      const result = await CombatSystem.withRandom(fixedRandom()).processAction(
+        castAction('fire_bolt', 'warded'),
+        session
+      );
+
+      expect(result.success).toBe(true);
+      const [mage, target] = result.updatedSession.participants;
+      expect(mage!.character.spellbook!.mana).toBe(10);
+      // 4 + 4 on the dice, +3 intelligence, less 5 for the resistance
+      expect(target!.character.currentHealth).toBe(24);
+      expect(target!.character.statusEffects.map(e => e.name)).toContain(
+        'Burning'
+      );
+    });
+
+    test('area spells hit every foe in the zone', async () => {
+      const caster = createMage({
+        spellbook: {
+          known: ['frost_nova'],
+          prepared: ['frost_nova'],
+          mana: 15,
+          cooldowns: {},
+        },
+      });
+      const session = createSession([
+        participant('player', caster, 'back'),
+        enemy('a'),
+        enemy('b'),
+        enemy('c', 'back'),
+      ]);
+
+      const result = await CombatSystem.withRandom(
+        fixedRandom(2)
+      ).processAction(castAction('frost_nova', 'a'), session);
+
+      const health = Object.fromEntries(
+        result.updatedSession.participants.map(p => [
+          p.id,
+          p.character.currentHealth,
+        ])
+      );
+      // 2 + 2 + 1 on the dice, +3 intelligence
+      expect(health).toMatchObject({ a: 22, b: 22, c: 30 });
+      expect(
+        result.updatedSession.participants[0]!.character.spellbook
+      ).toMatchObject({ mana: 3, cooldowns: { frost_nova: 2 } });
+    });
+
+    test('spells that are not prepared are refused', async () => {
+      const session = createSession([
+        participant('player', createMage()),
+        enemy('a'),
+      ]);
+
+      const result = await CombatSystem.withRandom(fixedRandom()).processAction(
+        castAction('blight', 'a'),
+        session
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Blight is not prepared');
+    });
+  });
+});
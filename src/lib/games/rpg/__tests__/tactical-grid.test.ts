@@ -0,0 +1,305 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the RPG tactical grid
+ * Covers terrain from hazards, movement ranges and paths, line of sight and
+ * range checks, opportunity attacks, and enemies fighting on the grid
+ */
+
+import { TacticalGrid, tacticalGrid } from '../tactical-grid';
+import { CombatSystem } from '../combat';
+import { combatAI } from '../combat-ai';
+import { statusEffectManager } from '../status-effects';
+import { SeededRandom } from '@/lib/game-engine/random';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  Character,
+  CombatAction,
+  CombatParticipant,
+  CombatSession,
+  EnvironmentHazard,
+  LocationFeature,
+} from '@/types/rpg';
+import {
+  createCharacter,
+  createEnvironment,
+  createParticipant,
+  createSession,
+} from './fixtures';
+
+const participant = (
+  type: CombatParticipant['type'],
+  id: string,
+  x: number,
+  y: number,
+  overrides: Partial<Character> = {}
+): CombatParticipant =>
+  createParticipant(type, createCharacter({ id, name: id, ...overrides }), {
+    position: { x, y, zone: 'front' },
+  });
+
+const hazard = (
+  cells: [number, number][],
+  overrides: Partial<EnvironmentHazard> = {}
+): EnvironmentHazard => ({
+  name: 'Rubble',
+  description: 'Broken stone',
+  damage: 0,
+  type: 'physical',
+  frequency: 0,
+  area: cells.map(([x, y]) => ({ x, y, zone: 'middle' })),
+  ...overrides,
+});
+
+const gridEnvironment = (hazards: EnvironmentHazard[] = []) =>
+  createEnvironment({ hazards, tactical: true });
+
+const gridSession = (
+  participants: CombatParticipant[],
+  hazards: EnvironmentHazard[] = []
+): CombatSession =>
+  createSession(participants, { environment: gridEnvironment(hazards) });
+
+const action = (
+  type: CombatAction['type'],
+  playerId: string,
+  data: CombatAction['data']
+): CombatAction => ({
+  id: '00000000-0000-4000-8000-000000000001',
+  type,
+  playerId,
+  gameId: 'game-1',
+  timestamp: new Date(),
+  data,
+});
+
+/**
+ * A random source that always hits and rolls 4 on every other die
+ */
+const fixedRandom = (): SeededRandom => {
+  const random = new SeededRandom(5);
+  jest
+    .spyOn(random, 'roll')
+    .mockImplementation(sides => (sides === 100 ? 50 : Math.min(sides, 4)));
+  jest.spyOn(random, 'chance').mockReturnValue(true);
+  return random;
+};
+
+describe('TacticalGrid', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(TacticalGrid.getInstance()).toBe(tacticalGrid);
+  });
+
+  describe('terrain', () => {
+    test('hazards lay down terrain and the edge of the board blocks', () => {
+      const environment = gridEnvironment([
+        hazard([[1, 1]]),
+        hazard([[2, 2]], { damage: 4, type: 'fire' }),
+        hazard([[3, 3]], { terrain: 'blocked' }),
+      ]);
+
+      expect(tacticalGrid.getTerrain(environment, { x: 0, y: 0 })).toBe('open');
+      expect(tacticalGrid.getTerrain(environment, { x: 1, y: 1 })).toBe(
+        'difficult'
+      );
+      expect(tacticalGrid.getTerrain(environment, { x: 2, y: 2 })).toBe(
+        'hazardous'
+      );
+      expect(tacticalGrid.getTerrain(environment, { x: 3, y: 3 })).toBe(
+        'blocked'
+      );
+      expect(tacticalGrid.getTerrain(environment, { x: 6, y: 0 })).toBe(
+        'blocked'
+      );
+    });
+
+    test('hazard features of a location are placed on the board', () => {
+      const features = [
+        {
+          id: 'pit',
+          name: 'Fire Pit',
+          description: 'Smouldering coals',
+          type: 'hazard',
+          effects: { damage: 3, damageType: 'fire' },
+        },
+        {
+          id: 'statue',
+          name: 'Statue',
+          description: 'A worn statue',
+          type: 'decorative',
+        },
+      ] as LocationFeature[];
+
+      const [pit, ...rest] = tacticalGrid.createHazards(
+        features,
+        { width: 10, height: 10 },
+        new SeededRandom(5)
+      );
+
+      expect(rest).toEqual([]);
+      expect(pit).toMatchObject({ name: 'Fire Pit', damage: 3, type: 'fire' });
+      expect(pit!.area).toHaveLength(2);
+      pit!.area.forEach(({ y }) => {
+        expect(y).toBeGreaterThanOrEqual(1);
+        expect(y).toBeLessThanOrEqual(4);
+      });
+    });
+  });
+
+  describe('movement', () => {
+    test('dexterity sets how far a fighter moves', () => {
+      const environment = gridEnvironment();
+      const nimble = createCharacter({
+        stats: { dexterity: 14 } as Character['stats'],
+      });
+      const frozen = createCharacter();
+      const held = {
+        ...frozen,
+        statusEffects: statusEffectManager.applyStatusEffect(frozen, 'frozen'),
+      };
+
+      expect(
+        tacticalGrid.getMovementRange(createCharacter(), environment)
+      ).toBe(4);
+      expect(tacticalGrid.getMovementRange(nimble, environment)).toBe(6);
+      expect(tacticalGrid.getMovementRange(held, environment)).toBe(0);
+    });
+
+    test('rough ground costs double and enemies bar the way', () => {
+      const hero = participant('player', 'hero', 0, 0, {
+        stats: { dexterity: 6 } as Character['stats'],
+      });
+      const session = gridSession(
+        [hero, participant('npc', 'orc', 1, 0)],
+        [hazard([[0, 1]])]
+      );
+
+      const reachable = tacticalGrid
+        .getReachablePositions(hero, session)
+        .map(({ x, y }) => `${x},${y}`)
+        .sort();
+
+      // Two squares of movement, around the orc rather than through it
+      expect(reachable).toEqual([
+        '0,1',
+        '0,2',
+        '1,1',
+        '1,2',
+        '2,0',
+        '2,1',
+        '2,2',
+      ]);
+      expect(tacticalGrid.getMoveError(hero, { x: 2, y: 0 }, session)).toBe(
+        undefined
+      );
+      expect(tacticalGrid.getMoveError(hero, { x: 1, y: 0 }, session)).toBe(
+        'That square is taken'
+      );
+      expect(tacticalGrid.getMoveError(hero, { x: 3, y: 3 }, session)).toBe(
+        'That square is out of reach'
+      );
+    });
+  });
+
+  describe('range and sight', () => {
+    test('walls block the line of sight', () => {
+      const environment = gridEnvironment([
+        hazard([[2, 2]], { terrain: 'blocked' }),
+      ]);
+
+      expect(
+        tacticalGrid.hasLineOfSight(environment, { x: 0, y: 0 }, { x: 4, y: 4 })
+      ).toBe(false);
+      expect(
+        tacticalGrid.hasLineOfSight(environment, { x: 0, y: 0 }, { x: 4, y: 0 })
+      ).toBe(true);
+    });
+
+    test('attacks need reach and spells need sight', () => {
+      const mage = participant('player', 'mage', 0, 0);
+      const near = participant('npc', 'near', 1, 1);
+      const far = participant('npc', 'far', 4, 4);
+      const session = gridSession(
+        [mage, near, far],
+        [hazard([[3, 3]], { terrain: 'blocked' })]
+      );
+      const attack = (targetId: string) =>
+        action('attack', 'mage', { targetId });
+      const bolt = action('cast_spell', 'mage', {
+        spellId: 'fire_bolt',
+        targetId: 'far',
+      });
+
+      expect(
+        tacticalGrid.getRangeError(mage, near, attack('near'), session)
+      ).toBe(undefined);
+      expect(
+        tacticalGrid.getRangeError(mage, far, attack('far'), session)
+      ).toBe('far is out of range');
+      expect(tacticalGrid.getRangeError(mage, far, bolt, session)).toBe(
+        'far is out of sight'
+      );
+    });
+  });
+
+  describe('in combat', () => {
+    test('leaving an enemy’s reach invites an opportunity attack', async () => {
+      const session = gridSession([
+        participant('player', 'hero', 2, 2),
+        participant('npc', 'orc', 3, 3),
+      ]);
+
+      const result = await CombatSystem.withRandom(fixedRandom()).processAction(
+        action('move', 'hero', { position: { x: 0, y: 0, zone: 'back' } }),
+        session
+      );
+
+      expect(result.success).toBe(true);
+      const hero = result.updatedSession.participants[0]!;
+      expect(hero.position).toEqual({ x: 0, y: 0, zone: 'middle' });
+      // Strength 14 swings for 3
+      expect(hero.character.currentHealth).toBe(27);
+      expect(result.logEntries[0]!.result).toContain('Opportunity attacks');
+    });
+
+    test('moves and attacks out of reach are refused', async () => {
+      const session = gridSession([
+        participant('player', 'hero', 0, 0),
+        participant('npc', 'orc', 5, 5),
+      ]);
+      const combat = CombatSystem.withRandom(fixedRandom());
+
+      const move = await combat.processAction(
+        action('move', 'hero', { position: { x: 5, y: 0, zone: 'front' } }),
+        session
+      );
+      const attack = await combat.processAction(
+        action('attack', 'hero', { targetId: 'orc' }),
+        session
+      );
+
+      expect(move.error).toBe('That square is out of reach');
+      expect(attack.error).toBe('orc is out of range');
+    });
+
+    test('enemies close in before they strike', () => {
+      const orc = {
+        ...participant('npc', 'orc', 0, 5),
+        behavior: { combatStyle: 'aggressive' as const },
+      };
+      const session = gridSession([orc, participant('player', 'hero', 0, 0)]);
+
+      const choice = combatAI.chooseAction(orc, session, new SeededRandom(5));
+
+      expect(choice.type).toBe('move');
+      expect(
+        tacticalGrid.getDistance(choice.data.position!, { x: 0, y: 0 })
+      ).toBe(1);
+    });
+  });
+});
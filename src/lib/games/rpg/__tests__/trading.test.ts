@@ -0,0 +1,445 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the RPG trading system
+ * Covers shop pricing and stock, escrowed trades between players and the
+ * audit trail that records every movement of goods and gold
+ */
+
+import { TradingSystem, tradingSystem } from '../trading';
+import { loadRPGPlayer, saveRPGPlayer } from '../players';
+import { kvService } from '@/lib/database/kv-service';
+import { MemoryStorageDriver } from '@/lib/database/drivers';
+import {
+  Inventory,
+  InventoryItem,
+  Item,
+  NPC,
+  RPGGameState,
+  RPGPlayer,
+} from '@/types/rpg';
+
+const GAME_ID = 'game-1';
+
+const createItem = (id: string, overrides: Partial<Item> = {}): Item => ({
+  id,
+  name: id,
+  description: `A ${id}`,
+  type: 'consumable',
+  rarity: 'common',
+  value: 10,
+  weight: 1,
+  properties: {
+    stackable: true,
+    consumable: true,
+    equipable: false,
+    tradeable: true,
+    questItem: false,
+  },
+  effects: [],
+  ...overrides,
+});
+
+const ROPE = createItem('rope');
+const TORCH = createItem('torch', { value: 4 });
+
+const createInventory = (
+  items: InventoryItem[] = [],
+  currency = 100
+): Inventory => ({
+  capacity: 20,
+  items,
+  equipment: { accessories: [] },
+  currency,
+});
+
+const createPlayer = (id: string, inventory = createInventory()): RPGPlayer =>
+  ({
+    id,
+    name: id,
+    gameSpecificData: {
+      character: { id: `${id}-character` },
+      inventory,
+      questLog: [],
+      relationships: {},
+      discoveries: [],
+    },
+  }) as unknown as RPGPlayer;
+
+const createMerchant = (
+  stock: InventoryItem[] = [{ item: ROPE, quantity: 5, condition: 'good' }],
+  overrides: Partial<NPC> = {}
+): NPC =>
+  ({
+    id: 'merchant',
+    name: 'Hesk',
+    currentLocation: 'market',
+    relationships: {},
+    shop: {
+      inventory: stock,
+      buyPriceModifier: 1,
+      sellPriceModifier: 1,
+      refreshInterval: 24,
+      specialItems: [],
+    },
+    ...overrides,
+  }) as unknown as NPC;
+
+const createState = (
+  npc: NPC,
+  partyReputation: Record<string, number> = {}
+): RPGGameState =>
+  ({
+    gameId: GAME_ID,
+    data: {
+      world: { id: 'world-1', locations: [], npcs: [npc] },
+      currentLocation: 'market',
+      partyReputation,
+    },
+  }) as unknown as RPGGameState;
+
+const currencyOf = async (playerId: string): Promise<number> =>
+  (await loadRPGPlayer(GAME_ID, playerId))!.gameSpecificData.inventory.currency;
+
+const itemsOf = async (playerId: string): Promise<InventoryItem[]> =>
+  (await loadRPGPlayer(GAME_ID, playerId))!.gameSpecificData.inventory.items;
+
+describe('TradingSystem', () => {
+  beforeEach(() => {
+    kvService.useDriver(new MemoryStorageDriver());
+  });
+
+  test('should be a singleton', () => {
+    expect(TradingSystem.getInstance()).toBe(tradingSystem);
+  });
+
+  describe('shops', () => {
+    test('buying prices each unit at the stock it leaves', () => {
+      const merchant = createMerchant();
+      const trade = tradingSystem.buy(
+        merchant,
+        createPlayer('player-1'),
+        createState(merchant),
+        ROPE.id,
+        2
+      );
+
+      // 10 at normal stock, then 10.5 rounded up as stock runs low
+      expect(trade.quote.total).toBe(21);
+      expect(trade.player.gameSpecificData.inventory.currency).toBe(79);
+      expect(trade.player.gameSpecificData.inventory.items).toMatchObject([
+        { item: { id: 'rope' }, quantity: 2, condition: 'good' },
+      ]);
+      expect(trade.state.data.world.npcs[0]!.shop!.inventory).toMatchObject([
+        { quantity: 3 },
+      ]);
+      expect(trade.audit).toMatchObject({
+        kind: 'shop_purchase',
+        playerId: 'player-1',
+        counterpartyId: 'merchant',
+        currency: { 'player-1': { before: 100, after: 79 } },
+      });
+    });
+
+    test('rarity, condition and reputation all move the price', () => {
+      const gem = createItem('gem', { rarity: 'rare' });
+      const merchant = createMerchant(
+        [
+          { item: gem, quantity: 5, condition: 'damaged' },
+          { item: ROPE, quantity: 5 },
+        ],
+        { faction: 'guild' }
+      );
+      const player = createPlayer('player-1');
+
+      // 10 × 5 for rarity × 0.5 for damage
+      expect(
+        tradingSystem.quote(
+          merchant,
+          player,
+          createState(merchant),
+          gem.id,
+          'buy',
+          1
+        ).total
+      ).toBe(25);
+      expect(
+        tradingSystem.quote(
+          merchant,
+          player,
+          createState(merchant, { guild: 50 }),
+          ROPE.id,
+          'buy',
+          1
+        ).total
+      ).toBe(9);
+      expect(
+        tradingSystem.quote(
+          merchant,
+          player,
+          createState(merchant, { guild: -100 }),
+          ROPE.id,
+          'buy',
+          1
+        ).total
+      ).toBe(12);
+    });
+
+    test('refuses purchases the player cannot afford', () => {
+      const merchant = createMerchant();
+
+      expect(() =>
+        tradingSystem.buy(
+          merchant,
+          createPlayer('player-1', createInventory([], 5)),
+          createState(merchant),
+          ROPE.id,
+          1
+        )
+      ).toThrow('Not enough gold');
+    });
+
+    test('quest items cannot be sold', () => {
+      const relic = createItem('relic', {
+        properties: { ...ROPE.properties, questItem: true },
+      });
+      const merchant = createMerchant();
+
+      expect(() =>
+        tradingSystem.sell(
+          merchant,
+          createPlayer(
+            'player-1',
+            createInventory([{ item: relic, quantity: 1 }])
+          ),
+          createState(merchant),
+          relic.id,
+          1
+        )
+      ).toThrow('relic cannot be traded');
+    });
+
+    test('selling scarce goods pays more and adds to the shop stock', () => {
+      const merchant = createMerchant();
+      const trade = tradingSystem.sell(
+        merchant,
+        createPlayer(
+          'player-1',
+          createInventory([{ item: TORCH, quantity: 3 }], 0)
+        ),
+        createState(merchant),
+        TORCH.id,
+        1
+      );
+
+      // Half of 4, raised by a quarter for a shop with none in stock
+      expect(trade.quote.total).toBe(2);
+      expect(trade.player.gameSpecificData.inventory).toMatchObject({
+        currency: 2,
+        items: [{ quantity: 2 }],
+      });
+      expect(trade.npc.shop!.inventory).toMatchObject([
+        { item: { id: 'rope' } },
+        { item: { id: 'torch' }, quantity: 1 },
+      ]);
+    });
+
+    test('buying and selling back never makes money', () => {
+      const merchant = createMerchant([{ item: ROPE, quantity: 1 }], {
+        faction: 'guild',
+        shop: {
+          inventory: [{ item: ROPE, quantity: 1 }],
+          buyPriceModifier: 0.5,
+          sellPriceModifier: 2,
+          refreshInterval: 24,
+          specialItems: [],
+        },
+      });
+      let state = createState(merchant, { guild: 100 });
+      let player = createPlayer('player-1');
+
+      for (let round = 0; round < 5; round++) {
+        const bought = tradingSystem.buy(
+          state.data.world.npcs[0]!,
+          player,
+          state,
+          ROPE.id,
+          1
+        );
+        const sold = tradingSystem.sell(
+          bought.npc,
+          bought.player,
+          bought.state,
+          ROPE.id,
+          1
+        );
+        expect(sold.quote.total).toBeLessThan(bought.quote.total);
+        player = sold.player;
+        state = sold.state;
+      }
+      expect(player.gameSpecificData.inventory.currency).toBeLessThan(100);
+    });
+
+    test('only trades with shopkeepers who are here', () => {
+      const merchant = createMerchant(undefined, {
+        currentLocation: 'docks',
+      });
+
+      expect(() =>
+        tradingSystem.buy(
+          merchant,
+          createPlayer('player-1'),
+          createState(merchant),
+          ROPE.id,
+          1
+        )
+      ).toThrow('Hesk is not here');
+    });
+  });
+
+  describe('player trades', () => {
+    beforeEach(async () => {
+      await saveRPGPlayer(
+        GAME_ID,
+        createPlayer(
+          'alice',
+          createInventory([{ item: ROPE, quantity: 2, condition: 'excellent' }])
+        )
+      );
+      await saveRPGPlayer(
+        GAME_ID,
+        createPlayer('bob', createInventory([{ item: TORCH, quantity: 4 }], 30))
+      );
+    });
+
+    const proposeRopeForGold = () =>
+      tradingSystem.proposeTrade(
+        GAME_ID,
+        'alice',
+        'bob',
+        { items: [{ itemId: ROPE.id, quantity: 1 }], currency: 10 },
+        { items: [{ itemId: TORCH.id, quantity: 2 }], currency: 25 }
+      );
+
+    test('offering puts the goods in escrow', async () => {
+      const offer = await proposeRopeForGold();
+
+      expect(offer.status).toBe('open');
+      expect(offer.escrow).toMatchObject([
+        { item: { id: 'rope' }, quantity: 1, condition: 'excellent' },
+      ]);
+      expect(await currencyOf('alice')).toBe(90);
+      expect(await itemsOf('alice')).toMatchObject([{ quantity: 1 }]);
+    });
+
+    test('accepting moves both sides and conserves gold and items', async () => {
+      const offer = await proposeRopeForGold();
+      const accepted = await tradingSystem.acceptTrade(
+        GAME_ID,
+        offer.id,
+        'bob'
+      );
+
+      expect(accepted.status).toBe('accepted');
+      expect(await currencyOf('alice')).toBe(115);
+      expect(await currencyOf('bob')).toBe(15);
+      expect(await itemsOf('alice')).toMatchObject([
+        { item: { id: 'rope' }, quantity: 1 },
+        { item: { id: 'torch' }, quantity: 2 },
+      ]);
+      expect(await itemsOf('bob')).toMatchObject([
+        { item: { id: 'torch' }, quantity: 2 },
+        { item: { id: 'rope' }, quantity: 1, condition: 'excellent' },
+      ]);
+
+      await expect(
+        tradingSystem.acceptTrade(GAME_ID, offer.id, 'bob')
+      ).rejects.toThrow('This trade offer is not open');
+      expect(await currencyOf('bob')).toBe(15);
+    });
+
+    test('only the recipient can accept', async () => {
+      const offer = await proposeRopeForGold();
+
+      await expect(
+        tradingSystem.acceptTrade(GAME_ID, offer.id, 'alice')
+      ).rejects.toThrow('Only the player this trade was offered to');
+    });
+
+    test('a recipient who cannot pay leaves the offer open and untouched', async () => {
+      const offer = await tradingSystem.proposeTrade(
+        GAME_ID,
+        'alice',
+        'bob',
+        { items: [{ itemId: ROPE.id, quantity: 1 }], currency: 0 },
+        { items: [], currency: 50 }
+      );
+
+      await expect(
+        tradingSystem.acceptTrade(GAME_ID, offer.id, 'bob')
+      ).rejects.toThrow('Not enough gold');
+      expect((await tradingSystem.getOffer(GAME_ID, offer.id))!.status).toBe(
+        'open'
+      );
+      expect(await currencyOf('bob')).toBe(30);
+      expect(await itemsOf('bob')).toHaveLength(1);
+    });
+
+    test('declining and cancelling return the escrow', async () => {
+      const declined = await tradingSystem.declineTrade(
+        GAME_ID,
+        (await proposeRopeForGold()).id,
+        'bob'
+      );
+      expect(declined.status).toBe('declined');
+      expect(await currencyOf('alice')).toBe(100);
+
+      const cancelled = await tradingSystem.cancelTrade(
+        GAME_ID,
+        (await proposeRopeForGold()).id,
+        'alice'
+      );
+      expect(cancelled.status).toBe('cancelled');
+      expect(await currencyOf('alice')).toBe(100);
+      expect(await itemsOf('alice')).toMatchObject([
+        { quantity: 2, condition: 'excellent' },
+      ]);
+    });
+
+    test('players cannot trade with themselves or offer nothing', async () => {
+      await expect(
+        tradingSystem.proposeTrade(
+          GAME_ID,
+          'alice',
+          'alice',
+          { items: [], currency: 5 },
+          { items: [], currency: 0 }
+        )
+      ).rejects.toThrow('You cannot trade with yourself');
+      await expect(
+        tradingSystem.proposeTrade(
+          GAME_ID,
+          'alice',
+          'bob',
+          { items: [], currency: 0 },
+          { items: [], currency: 0 }
+        )
+      ).rejects.toThrow('A trade needs something on at least one side');
+    });
+
+    test('every step is written to the audit trail', async () => {
+      const offer = await proposeRopeForGold();
+      await tradingSystem.acceptTrade(GAME_ID, offer.id, 'bob');
+
+      const trail = await tradingSystem.getAuditTrail(GAME_ID);
+      expect(trail.map(entry => entry.kind)).toEqual([
+        'offer_created',
+        'offer_accepted',
+      ]);
+      expect(trail[1]!.currency).toEqual({
+        bob: { before: 30, after: 15 },
+        alice: { before: 90, after: 115 },
+      });
+    });
+  });
+});
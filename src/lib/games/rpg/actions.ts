@@ -0,0 +1,1483 @@
+/**
+ * RPG Action Effects
+ *
+ * Layers the RPG systems onto an action as the engine commits it: movement,
+ * exploration, dialogue, items, rest, revival, trade and combat each change
+ * the game state inside the action's versioned save. Changes to player
+ * records are swapped in just before that save, against the records they
+ * were worked out from, and put back if the save does not land; other
+ * storage is only written once the state has been saved.
+ *
+ * rpgActionEffects is what the engine runs for every RPG action it commits
+ * or replays (see lib/games/effects); it makes the same state changes and
+ * drops the writes, which a replay must never repeat.
+ */
+
+import {
+  CombatTurnDataSchema,
+  DialogueActionDataSchema,
+  ItemActionDataSchema,
+  RestActionDataSchema,
+  ReviveActionDataSchema,
+  TradeActionDataSchema,
+} from '@/lib/api/rpg-validation';
+import { ActionEffects, gameEngine } from '@/lib/game-engine/core';
+import {
+  getGameRandom,
+  RandomSource,
+  withRandomState,
+} from '@/lib/game-engine/random';
+import { kvService } from '@/lib/database';
+import {
+  ActionResult,
+  Character,
+  CombatSession,
+  ErrorCode,
+  GameAction,
+  GameError,
+  GameEvent,
+  RPGGameState,
+  RPGPlayer,
+  UUID,
+} from '@/types';
+import { CombatEndResult, CombatSystem } from './combat';
+import { combatRewardResolver } from './combat-rewards';
+import { DEATH_CONFIG, deathSystem } from './death';
+import { dialogueEngine } from './dialogue';
+import { explorationSystem } from './exploration';
+import { itemEffectInterpreter } from './item-effects';
+import { applyNarrativeOutcome, NarrativeOutcome } from './narration';
+import { listRPGPlayers, loadRPGPlayer, swapRPGPlayer } from './players';
+import { restSystem } from './rest';
+import { DEFAULT_BOARD_SIZE, tacticalGrid } from './tactical-grid';
+import { TradeOffer, tradingSystem } from './trading';
+import { worldExpansionManager } from './world-expansion';
+
+// ============================================================================
+// ACTION PROCESSING LOGIC
+// ============================================================================
+
+const PLAYER_CONFLICT_RETRIES = 8; // Attempts before giving up on a busy record
+const PLAYER_CONFLICT_BACKOFF_MS = 20; // Base delay between attempts
+
+/**
+ * A write outside the game state that an action makes once its state has
+ * been saved. It may answer with events describing what it did.
+ */
+type PendingWrite = () => Promise<GameEvent[] | void>;
+
+/**
+ * A new version of a player's record and the record it was worked out from
+ */
+interface PlayerWrite {
+  readonly expected: RPGPlayer;
+  readonly next: RPGPlayer;
+}
+
+/**
+ * Everything an action writes outside the game state: player records to
+ * swap in before the save, and writes to make after it
+ */
+interface ActionWrites {
+  readonly players: Map<UUID, PlayerWrite>;
+  readonly afterSave: PendingWrite[];
+}
+
+const createActionWrites = (): ActionWrites => ({
+  players: new Map(),
+  afterSave: [],
+});
+
+/**
+ * Queue a new version of a player's record. A record changed twice by one
+ * action is still checked against the version first loaded.
+ */
+function stagePlayerWrite(
+  writes: ActionWrites,
+  expected: RPGPlayer,
+  next: RPGPlayer
+): void {
+  const staged = writes.players.get(next.id);
+  writes.players.set(next.id, {
+    expected: staged?.expected ?? expected,
+    next,
+  });
+}
+
+/**
+ * Swap in every staged record. If any record has moved on since it was
+ * loaded, the ones already swapped are put back and false is returned.
+ */
+async function swapPlayerRecords(
+  gameId: UUID,
+  staged: PlayerWrite[]
+): Promise<boolean> {
+  const swapped: PlayerWrite[] = [];
+  for (const write of staged) {
+    if (!(await swapRPGPlayer(gameId, write.expected, write.next))) {
+      await restorePlayerRecords(gameId, swapped);
+      return false;
+    }
+    swapped.push(write);
+  }
+  return true;
+}
+
+/**
+ * Put back records swapped in for an attempt whose state was not saved
+ */
+async function restorePlayerRecords(
+  gameId: UUID,
+  swapped: PlayerWrite[]
+): Promise<void> {
+  for (const write of [...swapped].reverse()) {
+    if (!(await swapRPGPlayer(gameId, write.next, write.expected))) {
+      throw new GameError(
+        'DATABASE_ERROR',
+        'Player record could not be rolled back',
+        { gameId, playerId: write.next.id }
+      );
+    }
+  }
+}
+
+/**
+ * The RPG effects as the engine runs them for any RPG action it commits or
+ * replays. Settled trade offers and writes outside the game state belong to
+ * live play, so they are left out.
+ */
+export const rpgActionEffects: ActionEffects = (result, previousState) =>
+  enhanceRPGActionResult(
+    result.newState!.metadata.lastAction!,
+    result,
+    previousState as RPGGameState,
+    createActionWrites(),
+    null
+  );
+
+/**
+ * Commit a player's action with its RPG effects and the player records they
+ * change, then make the writes of the attempt that was saved. An action
+ * whose player records changed underneath it is worked out again.
+ */
+export async function processRPGAction(
+  action: GameAction,
+  currentState: RPGGameState
+): Promise<ActionResult> {
+  // Offers settle through the trading system's own atomic writes and leave
+  // the game state alone, so they settle once, before the versioned save
+  const offer = await settlePlayerTrade(action, currentState);
+
+  for (let attempt = 1; ; attempt++) {
+    // The RPG effects are applied inside the engine's versioned save and
+    // recomputed whenever the action is rebased, starting over from the
+    // player records as they were before the last attempt
+    let swapped: PlayerWrite[] = [];
+    let afterSave: PendingWrite[] = [];
+    let playersChanged = false;
+    let result: ActionResult;
+    try {
+      result = await gameEngine.commitAction(
+        action.gameId,
+        action,
+        async (applied, previousState) => {
+          await restorePlayerRecords(action.gameId, swapped);
+          swapped = [];
+
+          const writes = createActionWrites();
+          const enhanced = await enhanceRPGActionResult(
+            action,
+            applied,
+            previousState as RPGGameState,
+            writes,
+            offer
+          );
+
+          const staged = [...writes.players.values()];
+          if (!(await swapPlayerRecords(action.gameId, staged))) {
+            playersChanged = true;
+            throw new GameError(
+              'STATE_CONFLICT',
+              'A player record changed while the action was being applied',
+              { gameId: action.gameId }
+            );
+          }
+          swapped = staged;
+          afterSave = writes.afterSave;
+          return enhanced;
+        }
+      );
+    } catch (error) {
+      // The state was not saved, so neither are the player records
+      await restorePlayerRecords(action.gameId, swapped);
+      if (!playersChanged || attempt >= PLAYER_CONFLICT_RETRIES) {
+        throw error;
+      }
+      await new Promise(resolve =>
+        setTimeout(resolve, PLAYER_CONFLICT_BACKOFF_MS * attempt)
+      );
+      continue;
+    }
+
+    const events = [...result.events];
+    for (const write of afterSave) {
+      events.push(...((await write()) ?? []));
+    }
+    return { ...result, events };
+  }
+}
+
+async function enhanceRPGActionResult(
+  action: GameAction,
+  result: ActionResult,
+  previousState: RPGGameState,
+  writes: ActionWrites,
+  offer: TradeOffer | null
+): Promise<ActionResult> {
+  const newState = result.newState as RPGGameState;
+
+  // Process specific RPG action types
+  switch (action.type) {
+    case 'move':
+      return await processMovementAction(
+        action,
+        newState,
+        previousState,
+        result
+      );
+
+    case 'explore':
+      return await processExplorationAction(
+        action,
+        newState,
+        previousState,
+        result,
+        writes
+      );
+
+    case 'talk':
+      return await processDialogueAction(
+        action,
+        newState,
+        previousState,
+        result,
+        writes
+      );
+
+    case 'use_item':
+      return await processItemAction(
+        action,
+        newState,
+        previousState,
+        result,
+        writes
+      );
+
+    case 'rest':
+      return await processRestAction(
+        action,
+        newState,
+        previousState,
+        result,
+        writes
+      );
+
+    case 'revive':
+      return await processReviveAction(
+        action,
+        newState,
+        previousState,
+        result,
+        writes
+      );
+
+    case 'trade':
+      return await processTradeAction(
+        action,
+        newState,
+        previousState,
+        result,
+        writes,
+        offer
+      );
+
+    case 'combat_action':
+      return await processCombatAction(
+        action,
+        newState,
+        previousState,
+        result,
+        writes
+      );
+
+    case 'narrate':
+      return {
+        ...result,
+        newState: applyNarrativeOutcome(
+          newState,
+          action.data.outcome as NarrativeOutcome
+        ),
+      };
+
+    default:
+      return result;
+  }
+}
+
+// ============================================================================
+// SPECIFIC ACTION PROCESSORS
+// ============================================================================
+
+async function processMovementAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult
+): Promise<ActionResult> {
+  const targetLocationId = action.data.targetLocation as UUID;
+
+  // Update current location in state
+  const updatedData = {
+    ...newState.data,
+    currentLocation: targetLocationId,
+  };
+
+  const updatedState: RPGGameState = {
+    ...newState,
+    data: updatedData,
+  };
+
+  // Generate location discovery events if needed
+  const world = newState.data.world;
+  const targetLocation = world.locations.find(
+    loc => loc.id === targetLocationId
+  );
+
+  const events = [...result.events];
+  if (targetLocation && !targetLocation.isDiscovered) {
+    events.push({
+      id: crypto.randomUUID(),
+      type: 'location_discovered',
+      gameId: action.gameId,
+      timestamp: new Date(),
+      data: {
+        locationId: targetLocationId,
+        locationName: targetLocation.name,
+        playerId: action.playerId,
+      },
+      affectedPlayers: [action.playerId],
+      isPublic: true,
+    });
+  }
+
+  return {
+    ...result,
+    newState: updatedState,
+    events,
+  };
+}
+
+async function processExplorationAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult,
+  writes: ActionWrites
+): Promise<ActionResult> {
+  const { world, currentLocation } = newState.data;
+  const location = world.locations.find(loc => loc.id === currentLocation);
+  if (!location) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'There is nothing to explore here',
+      details: { locationId: currentLocation },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const player = await loadRPGPlayer(action.gameId, action.playerId);
+  if (!player) {
+    throw {
+      code: 'PLAYER_NOT_FOUND' as ErrorCode,
+      message: 'Player has not joined this game',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const random = getGameRandom(newState);
+  const exploration = explorationSystem.exploreLocation(
+    location,
+    player,
+    random
+  );
+  stagePlayerWrite(writes, player, exploration.player);
+
+  // Found secrets and newly revealed places go on the party's shared map
+  const revealedLocations = new Set(
+    exploration.discoveries
+      .filter(discovery => discovery.kind === 'location')
+      .map(discovery => discovery.id)
+  );
+  const updatedState = withRandomState(
+    {
+      ...newState,
+      data: {
+        ...newState.data,
+        world: {
+          ...world,
+          locations: world.locations.map(loc =>
+            loc.id === location.id
+              ? exploration.location
+              : revealedLocations.has(loc.id)
+                ? { ...loc, isDiscovered: true }
+                : loc
+          ),
+        },
+      },
+    },
+    random
+  );
+
+  const events: GameEvent[] = exploration.discoveries.map(discovery => ({
+    id: crypto.randomUUID(),
+    type: `${discovery.kind}_discovered`,
+    gameId: action.gameId,
+    timestamp: new Date(),
+    data: {
+      discoveryId: discovery.id,
+      name: discovery.name,
+      description: discovery.description,
+      locationId: location.id,
+      playerId: action.playerId,
+      check: discovery.check,
+      reward: discovery.reward,
+      rewardItem: discovery.rewardItem,
+    },
+    affectedPlayers: [action.playerId],
+    isPublic: true,
+  }));
+
+  return {
+    ...result,
+    newState: updatedState,
+    events: [...result.events, ...events],
+  };
+}
+
+async function processDialogueAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult,
+  writes: ActionWrites
+): Promise<ActionResult> {
+  const parsed = DialogueActionDataSchema.safeParse(action.data);
+  if (!parsed.success) {
+    throw {
+      code: 'VALIDATION_ERROR' as ErrorCode,
+      message: 'Invalid dialogue action',
+      details: { issues: parsed.error.issues },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+  const { npcId, ...input } = parsed.data;
+
+  const npc = newState.data.world.npcs.find(
+    candidate => candidate.id === npcId
+  );
+  if (!npc || npc.currentLocation !== newState.data.currentLocation) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'There is nobody by that name here',
+      details: { npcId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const player = await loadRPGPlayer(action.gameId, action.playerId);
+  if (!player) {
+    throw {
+      code: 'PLAYER_NOT_FOUND' as ErrorCode,
+      message: 'Player has not joined this game',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const turn = await dialogueEngine.respond(npc, player, newState, input);
+  stagePlayerWrite(writes, player, turn.player);
+
+  const event: GameEvent = {
+    id: crypto.randomUUID(),
+    type: 'npc_dialogue',
+    gameId: action.gameId,
+    timestamp: new Date(),
+    data: {
+      npcId: npc.id,
+      npcName: npc.name,
+      playerId: action.playerId,
+      line: turn.npcLine,
+      options: turn.options,
+      ended: turn.conversation.ended,
+      effects: turn.appliedEffects,
+    },
+    affectedPlayers: [action.playerId],
+    isPublic: false,
+  };
+
+  return {
+    ...result,
+    newState: turn.state,
+    events: [...result.events, event],
+  };
+}
+
+async function processItemAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult,
+  writes: ActionWrites
+): Promise<ActionResult> {
+  const parsed = ItemActionDataSchema.safeParse(action.data);
+  if (!parsed.success) {
+    throw {
+      code: 'VALIDATION_ERROR' as ErrorCode,
+      message: 'Invalid item action',
+      details: { issues: parsed.error.issues },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  // Items used in a fight go through the combat system on the player's turn
+  if (newState.data.activeCombat) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'Use items on your turn in combat',
+      details: { combatId: newState.data.activeCombat.id },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const player = await loadRPGPlayer(action.gameId, action.playerId);
+  if (!player) {
+    throw {
+      code: 'PLAYER_NOT_FOUND' as ErrorCode,
+      message: 'Player has not joined this game',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+  const { character, inventory, discoveries } = player.gameSpecificData;
+  if (!character) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'Create a character before using items',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const { world, currentLocation } = newState.data;
+  const use = itemEffectInterpreter.useItem(
+    character,
+    inventory,
+    parsed.data.itemId,
+    {
+      inCombat: false,
+      location: world.locations.find(loc => loc.id === currentLocation),
+    }
+  );
+  stagePlayerWrite(writes, player, {
+    ...player,
+    gameSpecificData: {
+      ...player.gameSpecificData,
+      character: use.user,
+      inventory: use.inventory,
+      discoveries: Array.from(
+        new Set([...discoveries, ...use.revealedSecrets])
+      ),
+    },
+  });
+
+  // Secrets opened with keys and scrolls go on the party's shared map
+  const { location } = use;
+  const updatedState: RPGGameState = location
+    ? {
+        ...newState,
+        data: {
+          ...newState.data,
+          world: {
+            ...world,
+            locations: world.locations.map(loc =>
+              loc.id === location.id ? location : loc
+            ),
+          },
+        },
+      }
+    : newState;
+
+  const event: GameEvent = {
+    id: crypto.randomUUID(),
+    type: 'item_used',
+    gameId: action.gameId,
+    timestamp: new Date(),
+    data: {
+      playerId: action.playerId,
+      itemId: use.item.id,
+      itemName: use.item.name,
+      consumed: use.consumed,
+      effects: use.applied.map(applied => applied.description),
+      healing: use.healing,
+      revealedSecrets: use.revealedSecrets,
+    },
+    affectedPlayers: [action.playerId],
+    isPublic: true,
+  };
+
+  return {
+    ...result,
+    newState: updatedState,
+    events: [...result.events, event],
+  };
+}
+
+async function processRestAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult,
+  writes: ActionWrites
+): Promise<ActionResult> {
+  const parsed = RestActionDataSchema.safeParse(action.data ?? {});
+  if (!parsed.success) {
+    throw {
+      code: 'VALIDATION_ERROR' as ErrorCode,
+      message: 'Invalid rest action',
+      details: { issues: parsed.error.issues },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  if (newState.data.activeCombat) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'You cannot rest in the middle of a fight',
+      details: { combatId: newState.data.activeCombat.id },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const { world, currentLocation } = newState.data;
+  const location = world.locations.find(loc => loc.id === currentLocation);
+  if (!location) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'There is nowhere to rest here',
+      details: { locationId: currentLocation },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const player = await loadRPGPlayer(action.gameId, action.playerId);
+  if (!player) {
+    throw {
+      code: 'PLAYER_NOT_FOUND' as ErrorCode,
+      message: 'Player has not joined this game',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const random = getGameRandom(newState);
+  const rest = restSystem.rest(
+    player,
+    location,
+    newState,
+    parsed.data.type,
+    random
+  );
+  stagePlayerWrite(writes, player, rest.player);
+
+  // Hostile NPCs nearby turn an interrupted rest into an ambush
+  let updatedState = rest.state;
+  const combatEvents: GameEvent[] = [];
+  const ambushers = rest.interruption?.ambushers ?? [];
+  if (ambushers.length > 0) {
+    const combatSystem = CombatSystem.withRandom(random);
+    const tactical = updatedState.data.tacticalCombat ?? false;
+    const session = await combatSystem.initiateCombat(
+      [rest.player.gameSpecificData.character],
+      ambushers.map(npc => npc.character),
+      {
+        type: location.type,
+        tactical,
+        size: DEFAULT_BOARD_SIZE,
+        hazards: tactical
+          ? tacticalGrid.createHazards(
+              location.features,
+              DEFAULT_BOARD_SIZE,
+              random
+            )
+          : [],
+      },
+      {
+        [rest.player.gameSpecificData.character.id]:
+          rest.player.gameSpecificData.inventory,
+      },
+      {
+        difficulty: updatedState.data.difficulty,
+        behaviors: Object.fromEntries(
+          ambushers.map(npc => [npc.character.id, npc.behavior])
+        ),
+      }
+    );
+
+    // Ambushers who win the initiative strike first
+    const enemyTurns = await combatSystem.takeAITurns(session);
+    const last = enemyTurns.at(-1)?.result;
+    const combatState = await applyCombatOutcome(
+      action.gameId,
+      { ...updatedState, phase: 'combat' },
+      last?.updatedSession ?? session,
+      last?.combatEnd,
+      random,
+      writes
+    );
+    updatedState = combatState.state;
+    combatEvents.push(
+      ...enemyTurns.flatMap(turn => turn.result.events),
+      ...combatState.events
+    );
+  }
+
+  // Environmental events move on while the party rests. Worlds created
+  // without the expansion system have no events to evolve. Evolution
+  // persists as it goes, so it only runs once the rest has been saved.
+  writes.afterSave.push(async () => {
+    const evolution =
+      await worldExpansionManager.processEnvironmentalEventEvolution(
+        world.id,
+        rest.hoursRested
+      );
+    if (!evolution.success) {
+      if (evolution.error.code !== ('NOT_FOUND' as ErrorCode)) {
+        console.warn('Environmental events did not evolve:', evolution.error);
+      }
+      return [];
+    }
+    return evolution.data.newEvents.map(event => ({
+      id: crypto.randomUUID(),
+      type: 'environmental_event',
+      gameId: action.gameId,
+      timestamp: new Date(),
+      data: { eventId: event.id, name: event.name },
+      affectedPlayers: [],
+      isPublic: true,
+    }));
+  });
+
+  const events: GameEvent[] = [
+    {
+      id: crypto.randomUUID(),
+      type: rest.completed ? 'rest_completed' : 'rest_interrupted',
+      gameId: action.gameId,
+      timestamp: new Date(),
+      data: {
+        playerId: action.playerId,
+        restType: rest.type,
+        hoursRested: rest.hoursRested,
+        healing: rest.healing,
+        wornOff: rest.wornOff,
+        timeOfDay: rest.state.data.timeOfDay,
+        dayCount: rest.state.data.dayCount,
+        dangerLevel: rest.interruption?.dangerLevel ?? null,
+        ambushers: ambushers.map(npc => npc.id),
+      },
+      affectedPlayers: [action.playerId],
+      isPublic: true,
+    },
+  ];
+
+  return {
+    ...result,
+    newState: withRandomState(updatedState, random),
+    events: [...result.events, ...events, ...combatEvents],
+  };
+}
+
+async function processReviveAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult,
+  writes: ActionWrites
+): Promise<ActionResult> {
+  const parsed = ReviveActionDataSchema.safeParse(action.data);
+  if (!parsed.success) {
+    throw {
+      code: 'VALIDATION_ERROR' as ErrorCode,
+      message: 'Invalid revive action',
+      details: { issues: parsed.error.issues },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+  const { targetId, itemId } = parsed.data;
+
+  const [healer, patient] = await Promise.all([
+    loadRPGPlayer(action.gameId, action.playerId),
+    loadRPGPlayer(action.gameId, targetId),
+  ]);
+  if (!healer?.gameSpecificData.character) {
+    throw {
+      code: 'PLAYER_NOT_FOUND' as ErrorCode,
+      message: 'Player has not joined this game',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+  if (!patient?.gameSpecificData.character || patient.id === healer.id) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'Choose a fallen ally to revive',
+      details: { targetId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const { permaDeath, world, currentLocation } = newState.data;
+  const fallen = patient.gameSpecificData.character;
+  const status = deathSystem.getStatus(fallen);
+  const refuse = (message: string) => ({
+    code: 'INVALID_ACTION' as ErrorCode,
+    message,
+    details: { targetId, status },
+    timestamp: new Date(),
+    playerId: action.playerId,
+  });
+  if (status === 'alive') {
+    throw refuse(`${fallen.name} is still standing`);
+  }
+  if (status === 'dead' && permaDeath) {
+    throw refuse(`${fallen.name} has fallen for good`);
+  }
+
+  // An item does whatever it does; without one, the downed get first aid
+  // and the dead are raised at the temple their quest leads to
+  let method: 'item' | 'first_aid' | 'temple';
+  let healerRecord = healer;
+  let revived: Character;
+  if (itemId) {
+    const use = itemEffectInterpreter.useItem(
+      healer.gameSpecificData.character,
+      healer.gameSpecificData.inventory,
+      itemId,
+      { inCombat: false, target: fallen }
+    );
+    if (deathSystem.getStatus(use.target) !== 'alive') {
+      throw refuse(`${use.item.name} cannot bring ${fallen.name} back`);
+    }
+    method = 'item';
+    revived = use.target;
+    healerRecord = {
+      ...healer,
+      gameSpecificData: {
+        ...healer.gameSpecificData,
+        character: use.user,
+        inventory: use.inventory,
+      },
+    };
+  } else if (status !== 'dead') {
+    method = 'first_aid';
+    revived = deathSystem.revive(fallen);
+  } else {
+    const quest = deathSystem.findResurrectionQuest(
+      healer.gameSpecificData.questLog,
+      fallen.id
+    );
+    if (!quest) {
+      throw refuse(
+        `${fallen.name} can only be raised with a resurrection item`
+      );
+    }
+    if (quest.location !== currentLocation) {
+      const temple = world.locations.find(loc => loc.id === quest.location);
+      throw refuse(
+        `Bring ${fallen.name} to ${temple?.name ?? 'the temple'} to raise them`
+      );
+    }
+    method = 'temple';
+    revived = deathSystem.resurrect(
+      fallen,
+      Math.floor(fallen.maxHealth * DEATH_CONFIG.RESURRECTION_HEALTH_SHARE)
+    );
+  }
+
+  // Raising the dead by any means settles the party's quest to do so.
+  // The healer's and patient's changes are checked against the records
+  // they were worked out from
+  const resurrected = status === 'dead';
+  for (const player of await listRPGPlayers(action.gameId)) {
+    const loaded =
+      player.id === healer.id
+        ? healer
+        : player.id === patient.id
+          ? patient
+          : player;
+    const base =
+      player.id === healer.id
+        ? healerRecord
+        : player.id === patient.id
+          ? {
+              ...patient,
+              gameSpecificData: {
+                ...patient.gameSpecificData,
+                character: revived,
+              },
+            }
+          : player;
+    const questLog = resurrected
+      ? deathSystem.completeResurrectionQuest(
+          base.gameSpecificData.questLog,
+          fallen.id
+        )
+      : base.gameSpecificData.questLog;
+    if (base !== player || questLog !== player.gameSpecificData.questLog) {
+      stagePlayerWrite(writes, loaded, {
+        ...base,
+        gameSpecificData: { ...base.gameSpecificData, questLog },
+      });
+    }
+  }
+
+  const event: GameEvent = {
+    id: crypto.randomUUID(),
+    type: 'character_revived',
+    gameId: action.gameId,
+    timestamp: new Date(),
+    data: {
+      playerId: patient.id,
+      revivedBy: healer.id,
+      characterName: fallen.name,
+      method,
+      health: revived.currentHealth,
+    },
+    affectedPlayers: [patient.id, healer.id],
+    isPublic: true,
+  };
+
+  return {
+    ...result,
+    newState,
+    events: [...result.events, event],
+  };
+}
+
+/**
+ * Settle a player-to-player trade action. Returns null for shop trades,
+ * which are applied to the game state with the rest of the action.
+ */
+async function settlePlayerTrade(
+  action: GameAction,
+  state: RPGGameState
+): Promise<TradeOffer | null> {
+  if (action.type !== 'trade') {
+    return null;
+  }
+  const parsed = TradeActionDataSchema.safeParse(action.data);
+  if (!parsed.success) {
+    throw {
+      code: 'VALIDATION_ERROR' as ErrorCode,
+      message: 'Invalid trade action',
+      details: { issues: parsed.error.issues },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const data = parsed.data;
+  if (data.kind === 'buy' || data.kind === 'sell') {
+    return null;
+  }
+  if (state.data.activeCombat) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'There is no time to trade in the middle of a fight',
+      details: { combatId: state.data.activeCombat.id },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  switch (data.kind) {
+    case 'offer':
+      return tradingSystem.proposeTrade(
+        action.gameId,
+        action.playerId,
+        data.recipientId,
+        data.offer,
+        data.request
+      );
+    case 'accept':
+      return tradingSystem.acceptTrade(
+        action.gameId,
+        data.offerId,
+        action.playerId
+      );
+    case 'decline':
+      return tradingSystem.declineTrade(
+        action.gameId,
+        data.offerId,
+        action.playerId
+      );
+    default:
+      return tradingSystem.cancelTrade(
+        action.gameId,
+        data.offerId,
+        action.playerId
+      );
+  }
+}
+
+async function processTradeAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult,
+  writes: ActionWrites,
+  offer: TradeOffer | null
+): Promise<ActionResult> {
+  const parsed = TradeActionDataSchema.safeParse(action.data);
+  if (!parsed.success) {
+    throw {
+      code: 'VALIDATION_ERROR' as ErrorCode,
+      message: 'Invalid trade action',
+      details: { issues: parsed.error.issues },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  if (newState.data.activeCombat) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'There is no time to trade in the middle of a fight',
+      details: { combatId: newState.data.activeCombat.id },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const data = parsed.data;
+  const tradeEvent = (
+    type: string,
+    eventData: Record<string, any>,
+    affectedPlayers: UUID[]
+  ): GameEvent => ({
+    id: crypto.randomUUID(),
+    type,
+    gameId: action.gameId,
+    timestamp: new Date(),
+    data: { playerId: action.playerId, ...eventData },
+    affectedPlayers,
+    isPublic: false,
+  });
+
+  // Player-to-player trades settled before the save; report how it went.
+  // A replay has nothing to report, and the game state is left alone
+  if (data.kind !== 'buy' && data.kind !== 'sell') {
+    if (!offer) {
+      return result;
+    }
+    const settled = offer;
+    const event = tradeEvent(
+      data.kind === 'offer' ? 'trade_offered' : `trade_${settled.status}`,
+      {
+        offerId: settled.id,
+        proposerId: settled.proposerId,
+        recipientId: settled.recipientId,
+        offer: settled.offer,
+        request: settled.request,
+      },
+      [settled.proposerId, settled.recipientId]
+    );
+    return { ...result, events: [...result.events, event] };
+  }
+
+  const npc = newState.data.world.npcs.find(other => other.id === data.npcId);
+  if (!npc) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'There is no one like that to trade with',
+      details: { npcId: data.npcId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const player = await loadRPGPlayer(action.gameId, action.playerId);
+  if (!player) {
+    throw {
+      code: 'PLAYER_NOT_FOUND' as ErrorCode,
+      message: 'Player has not joined this game',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const trade =
+    data.kind === 'buy'
+      ? tradingSystem.buy(npc, player, newState, data.itemId, data.quantity)
+      : tradingSystem.sell(npc, player, newState, data.itemId, data.quantity);
+  stagePlayerWrite(writes, player, trade.player);
+  writes.afterSave.push(() => tradingSystem.recordAudit(trade.audit));
+
+  const event = tradeEvent(
+    data.kind === 'buy' ? 'shop_purchase' : 'shop_sale',
+    {
+      npcId: npc.id,
+      itemId: trade.quote.itemId,
+      itemName: trade.quote.itemName,
+      quantity: trade.quote.quantity,
+      price: trade.quote.total,
+      currency: trade.player.gameSpecificData.inventory.currency,
+    },
+    [action.playerId]
+  );
+  return {
+    ...result,
+    newState: trade.state,
+    events: [...result.events, event],
+  };
+}
+
+async function processCombatAction(
+  action: GameAction,
+  newState: RPGGameState,
+  previousState: RPGGameState,
+  result: ActionResult,
+  writes: ActionWrites
+): Promise<ActionResult> {
+  const parsed = CombatTurnDataSchema.safeParse(action.data);
+  if (!parsed.success) {
+    throw {
+      code: 'VALIDATION_ERROR' as ErrorCode,
+      message: 'Invalid combat action',
+      details: { issues: parsed.error.issues },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const session = newState.data.activeCombat;
+  if (!session) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: 'There is no fight going on',
+      details: {},
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  const player = await loadRPGPlayer(action.gameId, action.playerId);
+  if (!player) {
+    throw {
+      code: 'PLAYER_NOT_FOUND' as ErrorCode,
+      message: 'Player has not joined this game',
+      details: { playerId: action.playerId },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  // Combatants are known by their character ids
+  const random = getGameRandom(newState);
+  const { actionType, ...data } = parsed.data;
+  const combat = await CombatSystem.withRandom(random).processAction(
+    {
+      id: action.id,
+      type: actionType,
+      playerId: player.gameSpecificData.character.id,
+      gameId: action.gameId,
+      timestamp: action.timestamp,
+      data,
+    },
+    session
+  );
+  if (!combat.success) {
+    throw {
+      code: 'INVALID_ACTION' as ErrorCode,
+      message: combat.error ?? 'Combat action failed',
+      details: { combatId: session.id, actionType },
+      timestamp: new Date(),
+      playerId: action.playerId,
+    };
+  }
+
+  // Enemies take their turns before the next player is up
+  const enemyTurns = combat.combatEnd
+    ? []
+    : await CombatSystem.withRandom(random).takeAITurns(combat.updatedSession);
+  const last = enemyTurns.at(-1)?.result ?? combat;
+
+  const combatState = await applyCombatOutcome(
+    action.gameId,
+    newState,
+    last.updatedSession,
+    last.combatEnd,
+    random,
+    writes
+  );
+
+  return {
+    ...result,
+    newState: withRandomState(combatState.state, random),
+    events: [
+      ...result.events,
+      ...combat.events,
+      ...enemyTurns.flatMap(turn => turn.result.events),
+      ...combatState.events,
+    ],
+  };
+}
+
+/**
+ * Store the fight's latest session, or wrap it up once it has ended:
+ * rewards are handed out and the party returns to exploring.
+ */
+async function applyCombatOutcome(
+  gameId: UUID,
+  state: RPGGameState,
+  session: CombatSession,
+  end: CombatEndResult | undefined,
+  random: RandomSource,
+  writes: ActionWrites
+): Promise<{ state: RPGGameState; events: GameEvent[] }> {
+  const updatedState: RPGGameState = {
+    ...state,
+    data: { ...state.data, activeCombat: session },
+  };
+  if (!end) {
+    return { state: updatedState, events: [] };
+  }
+
+  const rewarded = await awardCombatRewards(
+    gameId,
+    updatedState,
+    session,
+    end,
+    random,
+    writes
+  );
+  const deaths = await recordCombatDeaths(
+    gameId,
+    updatedState,
+    rewarded,
+    random,
+    writes
+  );
+  return {
+    state: {
+      ...updatedState,
+      phase: 'exploration',
+      data: { ...updatedState.data, activeCombat: undefined },
+    },
+    events: [
+      {
+        id: crypto.randomUUID(),
+        type: 'combat_ended',
+        gameId,
+        timestamp: new Date(),
+        data: {
+          combatId: session.id,
+          victor: end.victor,
+          summary: end.summary,
+          session,
+          rewards: Object.fromEntries(
+            rewarded.map(player => [
+              player.gameSpecificData.character.id,
+              player.gameSpecificData.lastCombatRewards,
+            ])
+          ),
+        },
+        affectedPlayers: rewarded.map(player => player.id),
+        isPublic: true,
+      },
+      ...deaths,
+    ],
+  };
+}
+
+/**
+ * Deal with the fighters who died. With permadeath they go to the
+ * graveyard; otherwise the rest of the party is given a quest to raise
+ * each of them.
+ */
+async function recordCombatDeaths(
+  gameId: UUID,
+  state: RPGGameState,
+  fighters: RPGPlayer[],
+  random: RandomSource,
+  writes: ActionWrites
+): Promise<GameEvent[]> {
+  const fallen = fighters.filter(player =>
+    deathSystem.isDead(player.gameSpecificData.character)
+  );
+  if (fallen.length === 0) {
+    return [];
+  }
+
+  const { permaDeath, world, currentLocation } = state.data;
+  const quests = new Map(
+    permaDeath
+      ? []
+      : fallen.map(player => {
+          const { character } = player.gameSpecificData;
+          return [
+            character.id,
+            deathSystem.createResurrectionQuest(
+              character,
+              world,
+              currentLocation,
+              random
+            ),
+          ] as const;
+        })
+  );
+
+  if (permaDeath) {
+    for (const player of fallen) {
+      writes.afterSave.push(async () => {
+        await deathSystem.buryCharacter(
+          gameId,
+          player.id,
+          player.gameSpecificData.character,
+          currentLocation
+        );
+      });
+    }
+  } else {
+    // Fighters' rewards are only staged, so build on their new records
+    const rewarded = new Map(fighters.map(player => [player.id, player]));
+    for (const stored of await listRPGPlayers(gameId)) {
+      const player = rewarded.get(stored.id) ?? stored;
+      const { character, questLog } = player.gameSpecificData;
+      if (!character || deathSystem.isDead(character)) {
+        continue;
+      }
+      const added = [...quests.entries()].filter(
+        ([characterId]) =>
+          !deathSystem.findResurrectionQuest(questLog, characterId)
+      );
+      if (added.length > 0) {
+        stagePlayerWrite(writes, stored, {
+          ...player,
+          gameSpecificData: {
+            ...player.gameSpecificData,
+            questLog: [...questLog, ...added.map(([, quest]) => quest)],
+          },
+        });
+      }
+    }
+  }
+
+  return fallen.map(player => {
+    const { character } = player.gameSpecificData;
+    return {
+      id: crypto.randomUUID(),
+      type: 'character_died',
+      gameId,
+      timestamp: new Date(),
+      data: {
+        playerId: player.id,
+        characterId: character.id,
+        characterName: character.name,
+        cause: character.deathState?.cause,
+        permanent: permaDeath ?? false,
+        resurrectionQuestId: quests.get(character.id)?.id,
+      },
+      affectedPlayers: [player.id],
+      isPublic: true,
+    };
+  });
+}
+
+/**
+ * Bring what happened in the fight back to each fighter's record, then
+ * share out experience and loot. Returns the player records staged for the
+ * save.
+ */
+async function awardCombatRewards(
+  gameId: UUID,
+  state: RPGGameState,
+  session: CombatSession,
+  end: CombatEndResult,
+  random: RandomSource,
+  writes: ActionWrites
+): Promise<RPGPlayer[]> {
+  const stored = new Map(
+    (await listRPGPlayers(gameId)).map(player => [player.id, player])
+  );
+  const fighters = [...stored.values()].flatMap(player => {
+    const participant = session.participants.find(
+      p => p.id === player.gameSpecificData.character?.id
+    );
+    return participant
+      ? [
+          {
+            ...player,
+            gameSpecificData: {
+              ...player.gameSpecificData,
+              character: participant.character,
+              inventory:
+                participant.inventory ?? player.gameSpecificData.inventory,
+            },
+          },
+        ]
+      : [];
+  });
+
+  // The host leads the party when they are in the fight
+  const meta = await kvService.get<{ createdBy?: UUID }>(
+    `rpg_game_meta:${gameId}`
+  );
+  const leader =
+    fighters.find(player => player.id === meta.data?.createdBy) ?? fighters[0];
+
+  const awarded = await combatRewardResolver.awardRewards(
+    fighters,
+    {
+      combatId: session.id,
+      victor: end.victor,
+      experience: end.experienceByCharacter,
+      loot: { items: end.lootDropped, currency: end.currencyDropped },
+    },
+    state.data.lootDistribution ?? 'round_robin',
+    random,
+    leader?.gameSpecificData.character.id
+  );
+
+  for (const player of awarded.players) {
+    stagePlayerWrite(writes, stored.get(player.id)!, player);
+  }
+  return awarded.players;
+}
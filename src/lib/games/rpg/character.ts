@@ -27,6 +27,7 @@ import {
 } from '@/types/rpg';
 import { Player, UUID, GameError, validateWith } from '@/types/core';
 import { kvService } from '@/lib/database/kv-service';
+import { deathSystem } from './death';
 
 // ============================================================================
 // CONSTANTS & CONFIGURATION
@@ -277,19 +278,15 @@ export class CharacterManager {
   }
 
   /**
-   * Apply damage to a character
+   * Apply damage to a character. At 0 health they are downed rather than
+   * killed; see the death system.
    */
   applyDamage(character: Character, damage: number): Character {
     if (damage < 0) {
       throw new GameError('Damage cannot be negative', 'VALIDATION_FAILED');
     }
 
-    const newHealth = Math.max(0, character.currentHealth - damage);
-
-    return {
-      ...character,
-      currentHealth: newHealth,
-    };
+    return deathSystem.applyDamage(character, damage);
   }
 
   /**
@@ -303,15 +300,8 @@ export class CharacterManager {
       );
     }
 
-    const newHealth = Math.min(
-      character.maxHealth,
-      character.currentHealth + healAmount
-    );
-
-    return {
-      ...character,
-      currentHealth: newHealth,
-    };
+    // Healing gets the downed back up but does nothing for the dead
+    return deathSystem.heal(character, healAmount);
   }
 
   /**
@@ -662,7 +652,7 @@ export class CharacterManager {
   /**
    * Get required experience for a specific level
    */
-  private getRequiredExperience(level: number): number {
+  getRequiredExperience(level: number): number {
     if (level <= 1) return 0;
 
     let totalExp = 0;
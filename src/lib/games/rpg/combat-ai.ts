@@ -0,0 +1,544 @@
+/**
+ * RPG Combat AI
+ *
+ * Chooses actions for computer-controlled fighters. Every action open to a
+ * fighter is scored: attacks favour wounded targets that can be finished
+ * off, healers look after hurt allies, area spells are worth more the more
+ * foes they catch, and a fighter whose morale breaks tries to flee. Each
+ * NPC's combat style weighs these differently and pulls it towards its
+ * favourite zone of the battlefield, while the game's difficulty decides
+ * how sharply enemies play and how much punishment they can take.
+ */
+
+import {
+  Character,
+  CombatAction,
+  CombatActionType,
+  CombatParticipant,
+  CombatPosition,
+  CombatSession,
+  NPCBehavior,
+  RPGConfig,
+} from '@/types/rpg';
+import { RandomSource, unseededRandom } from '@/lib/game-engine/random';
+import { SpellDefinition, spellSystem } from './spells';
+import { STATUS_EFFECT_DEFINITIONS } from './status-effects';
+import { GridPoint, tacticalGrid } from './tactical-grid';
+
+// ============================================================================
+// AI TYPES
+// ============================================================================
+
+export type CombatStyle = NonNullable<NPCBehavior['combatStyle']>;
+export type CombatDifficulty = RPGConfig['settings']['difficulty'];
+
+interface StyleWeights {
+  readonly damage: number; // Value of hurting enemies
+  readonly focus: number; // Value of finishing off the wounded
+  readonly healing: number; // Value of keeping allies standing
+  readonly caution: number; // Readiness to defend and to flee
+  readonly zone: CombatPosition['zone']; // Where the fighter likes to stand
+}
+
+export interface DifficultyProfile {
+  readonly noise: number; // Random spread added to each score
+  readonly blunderChance: number; // Chance of picking any action at all
+  readonly healthMultiplier: number; // Scales enemy health
+}
+
+export interface ScoredAction {
+  readonly type: CombatActionType;
+  readonly data: CombatAction['data'];
+  readonly score: number;
+  readonly reason: string;
+}
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const STYLE_WEIGHTS: Record<CombatStyle, StyleWeights> = {
+  aggressive: {
+    damage: 1.5,
+    focus: 0.75,
+    healing: 0.5,
+    caution: 0.5,
+    zone: 'front',
+  },
+  defensive: {
+    damage: 0.8,
+    focus: 0.5,
+    healing: 1,
+    caution: 1.5,
+    zone: 'front',
+  },
+  tactical: { damage: 1, focus: 1.5, healing: 1, caution: 1, zone: 'middle' },
+  support: { damage: 0.6, focus: 1, healing: 2, caution: 1.2, zone: 'back' },
+};
+
+export const DIFFICULTY_PROFILES: Record<CombatDifficulty, DifficultyProfile> =
+  {
+    easy: { noise: 15, blunderChance: 0.25, healthMultiplier: 0.8 },
+    medium: { noise: 5, blunderChance: 0.05, healthMultiplier: 1 },
+    hard: { noise: 0, blunderChance: 0, healthMultiplier: 1.25 },
+    custom: { noise: 5, blunderChance: 0.05, healthMultiplier: 1 },
+  };
+
+const AI_CONFIG = {
+  DEFAULT_STYLE: 'aggressive' as CombatStyle,
+  DEFAULT_DIFFICULTY: 'medium' as CombatDifficulty,
+  BASE_FLEE_THRESHOLD: 25, // Morale percentage, scaled by caution
+  MORALE_LOSS_PER_FALLEN_ALLY: 15,
+  HEAL_BELOW: 0.7, // Allies are only worth healing below this share of health
+  KILL_BONUS: 10,
+  FOCUS_BONUS: 10,
+  REACH_PENALTY: 0.5, // Melee through a front line, or from behind one
+  MOVE_SCORE: 4,
+  FLEE_SCORE: 20, // Plus how far morale has sunk below the threshold
+  DEFEND_SCORE: 6,
+  STATUS_EFFECT_SCORE: 4,
+  MANA_COST_WEIGHT: 0.2,
+} as const;
+
+const ZONE_ORDER: CombatPosition['zone'][] = ['front', 'middle', 'back'];
+
+// Squares from the nearest enemy a fighter keeps on the tactical grid
+const PREFERRED_DISTANCE: Record<CombatPosition['zone'], number> = {
+  front: 1,
+  middle: 3,
+  back: 5,
+};
+
+// ============================================================================
+// COMBAT AI CLASS
+// ============================================================================
+
+export class CombatAI {
+  private static instance: CombatAI;
+
+  private constructor() {}
+
+  static getInstance(): CombatAI {
+    if (!CombatAI.instance) {
+      CombatAI.instance = new CombatAI();
+    }
+    return CombatAI.instance;
+  }
+
+  // ============================================================================
+  // DECISIONS
+  // ============================================================================
+
+  /**
+   * Pick the action a computer-controlled fighter takes on its turn
+   */
+  chooseAction(
+    participant: CombatParticipant,
+    session: CombatSession,
+    random: RandomSource = unseededRandom
+  ): CombatAction {
+    const profile = this.getDifficultyProfile(session.difficulty);
+    const candidates = this.scoreActions(participant, session).map(
+      candidate => ({
+        ...candidate,
+        score: candidate.score + random.next() * profile.noise,
+      })
+    );
+
+    const choice =
+      profile.blunderChance > 0 && random.chance(profile.blunderChance)
+        ? random.pick(candidates)
+        : candidates.reduce((best, candidate) =>
+            candidate.score > best.score ? candidate : best
+          );
+
+    return {
+      id: random.uuid(),
+      type: choice.type,
+      playerId: participant.id,
+      gameId: session.id,
+      timestamp: new Date(),
+      data: choice.data,
+    };
+  }
+
+  /**
+   * Every action open to a fighter, scored by its combat style. Waiting is
+   * always on the list so there is something to fall back on.
+   */
+  scoreActions(
+    participant: CombatParticipant,
+    session: CombatSession
+  ): ScoredAction[] {
+    const weights = STYLE_WEIGHTS[this.getStyle(participant)];
+    const enemies = session.participants.filter(
+      p => !this.isAlly(participant, p) && p.character.currentHealth > 0
+    );
+    if (enemies.length === 0) {
+      return [{ type: 'wait', data: {}, score: 0, reason: 'no foes left' }];
+    }
+
+    const tactical = tacticalGrid.isTactical(session);
+    const candidates: ScoredAction[] = [
+      { type: 'wait', data: {}, score: 0, reason: 'nothing better to do' },
+      ...[
+        ...enemies.map(target =>
+          this.scoreAttack(participant, target, session, weights)
+        ),
+        ...spellSystem
+          .getPreparedSpells(participant.character)
+          .filter(
+            spell =>
+              !spellSystem.getCastingError(participant.character, spell.id)
+          )
+          .flatMap(spell =>
+            this.scoreSpell(participant, spell, session, weights)
+          ),
+      ].filter(
+        // On the grid only what's in range and in sight is an option
+        candidate =>
+          !tactical ||
+          !tacticalGrid.getRangeError(
+            participant,
+            session.participants.find(p => p.id === candidate.data.targetId),
+            candidate,
+            session
+          )
+      ),
+    ];
+
+    const healthFraction = this.getHealthFraction(participant.character);
+    candidates.push({
+      type: 'defend',
+      data: {},
+      score: AI_CONFIG.DEFEND_SCORE * weights.caution * (1 - healthFraction),
+      reason: 'bracing while wounded',
+    });
+
+    if (tactical) {
+      const move = this.scoreGridMove(participant, session, weights);
+      if (move) {
+        candidates.push(move);
+      }
+    } else if (participant.position.zone !== weights.zone) {
+      candidates.push({
+        type: 'move',
+        data: { position: { ...participant.position, zone: weights.zone } },
+        score: AI_CONFIG.MOVE_SCORE,
+        reason: `taking up position in the ${weights.zone}`,
+      });
+    }
+
+    const fleeThreshold =
+      participant.behavior?.fleeThreshold ??
+      AI_CONFIG.BASE_FLEE_THRESHOLD * weights.caution;
+    const morale = this.getMorale(participant, session);
+    if (morale < fleeThreshold) {
+      candidates.push({
+        type: 'flee',
+        data: {},
+        score: AI_CONFIG.FLEE_SCORE + fleeThreshold - morale,
+        reason: 'morale has broken',
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * A fighter's will to keep going: their remaining health as a percentage,
+   * less a share for each ally who has fallen
+   */
+  getMorale(participant: CombatParticipant, session: CombatSession): number {
+    const fallen = session.participants.filter(
+      p =>
+        p.id !== participant.id &&
+        this.isAlly(participant, p) &&
+        p.character.currentHealth <= 0
+    ).length;
+    return (
+      this.getHealthFraction(participant.character) * 100 -
+      fallen * AI_CONFIG.MORALE_LOSS_PER_FALLEN_ALLY
+    );
+  }
+
+  // ============================================================================
+  // DIFFICULTY
+  // ============================================================================
+
+  getDifficultyProfile(difficulty?: CombatDifficulty): DifficultyProfile {
+    return DIFFICULTY_PROFILES[difficulty ?? AI_CONFIG.DEFAULT_DIFFICULTY];
+  }
+
+  /**
+   * Toughen or soften an enemy for the game's difficulty
+   */
+  scaleForDifficulty(
+    character: Character,
+    difficulty?: CombatDifficulty
+  ): Character {
+    const { healthMultiplier } = this.getDifficultyProfile(difficulty);
+    if (healthMultiplier === 1) {
+      return character;
+    }
+
+    const maxHealth = Math.max(
+      1,
+      Math.round(character.maxHealth * healthMultiplier)
+    );
+    return {
+      ...character,
+      maxHealth,
+      currentHealth: Math.min(
+        maxHealth,
+        Math.round(character.currentHealth * healthMultiplier)
+      ),
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private scoreAttack(
+    attacker: CombatParticipant,
+    target: CombatParticipant,
+    session: CombatSession,
+    weights: StyleWeights
+  ): ScoredAction {
+    const damage = this.estimateAttackDamage(attacker.character);
+    let score =
+      Math.min(damage, target.character.currentHealth) * weights.damage +
+      this.scoreFocus(target, damage, weights);
+
+    // Melee has to get past the enemy's front line, and is clumsy from the
+    // rear. The grid checks real reach instead.
+    if (!tacticalGrid.isTactical(session)) {
+      if (this.isShielded(target, session)) {
+        score *= AI_CONFIG.REACH_PENALTY;
+      }
+      if (attacker.position.zone !== 'front') {
+        score *= AI_CONFIG.REACH_PENALTY;
+      }
+    }
+
+    return {
+      type: 'attack',
+      data: { targetId: target.id },
+      score,
+      reason: `attacking ${target.character.name}`,
+    };
+  }
+
+  /**
+   * Score a spell against each target it can be aimed at
+   */
+  private scoreSpell(
+    caster: CombatParticipant,
+    spell: SpellDefinition,
+    session: CombatSession,
+    weights: StyleWeights
+  ): ScoredAction[] {
+    const targets =
+      spell.area.shape === 'self'
+        ? [caster]
+        : session.participants.filter(
+            p =>
+              p.character.currentHealth > 0 &&
+              spellSystem.isValidTarget(spell, caster, p)
+          );
+    const power = this.estimateSpellPower(spell, caster.character);
+    const cost = spell.manaCost * AI_CONFIG.MANA_COST_WEIGHT;
+
+    return targets.map(target => {
+      const affected = spellSystem.getAffectedParticipants(
+        spell,
+        caster,
+        target,
+        session.participants
+      );
+
+      let score = 0;
+      for (const p of affected) {
+        if (spell.damageType === 'healing') {
+          score += this.scoreHealing(p, power, weights);
+        } else if (!this.isAlly(caster, p)) {
+          score += Math.min(power, p.character.currentHealth) * weights.damage;
+          if (p.id === target.id) {
+            score += this.scoreFocus(p, power, weights);
+          }
+        } else {
+          // Caught in their own side's blast
+          score -= Math.min(power, p.character.currentHealth) * weights.healing;
+        }
+        score += this.scoreStatusEffects(spell, caster, p, weights);
+      }
+
+      return {
+        type: 'cast_spell' as const,
+        data: { spellId: spell.id, targetId: target.id },
+        score: score > 0 ? score - cost : 0,
+        reason: `casting ${spell.name} on ${target.character.name}`,
+      };
+    });
+  }
+
+  /**
+   * On the grid, step to the free square that best keeps the fighter's
+   * favoured distance from the nearest enemy, steering clear of hazards
+   */
+  private scoreGridMove(
+    participant: CombatParticipant,
+    session: CombatSession,
+    weights: StyleWeights
+  ): ScoredAction | undefined {
+    const enemies = session.participants.filter(
+      p => !this.isAlly(participant, p) && p.character.currentHealth > 0
+    );
+    const misplacement = (point: GridPoint) =>
+      Math.abs(
+        Math.min(
+          ...enemies.map(enemy =>
+            tacticalGrid.getDistance(point, enemy.position)
+          )
+        ) - PREFERRED_DISTANCE[weights.zone]
+      ) +
+      (tacticalGrid.getTerrain(session.environment, point) === 'hazardous'
+        ? 1
+        : 0);
+
+    const best = tacticalGrid
+      .getReachablePositions(participant, session)
+      .reduce<
+        CombatPosition | undefined
+      >((best, position) => (!best || misplacement(position) < misplacement(best) ? position : best), undefined);
+    if (!best || misplacement(best) >= misplacement(participant.position)) {
+      return undefined;
+    }
+
+    return {
+      type: 'move',
+      data: { position: best },
+      score: AI_CONFIG.MOVE_SCORE,
+      reason: `moving to (${best.x}, ${best.y})`,
+    };
+  }
+
+  private scoreHealing(
+    ally: CombatParticipant,
+    power: number,
+    weights: StyleWeights
+  ): number {
+    const healthFraction = this.getHealthFraction(ally.character);
+    if (healthFraction >= AI_CONFIG.HEAL_BELOW) {
+      return 0;
+    }
+    const missing = ally.character.maxHealth - ally.character.currentHealth;
+    return Math.min(power, missing) * weights.healing * (2 - healthFraction);
+  }
+
+  /**
+   * Lingering effects are worth something on anyone who doesn't have them yet
+   */
+  private scoreStatusEffects(
+    spell: SpellDefinition,
+    caster: CombatParticipant,
+    participant: CombatParticipant,
+    weights: StyleWeights
+  ): number {
+    const value = this.isAlly(caster, participant)
+      ? weights.caution
+      : weights.focus;
+    return spell.statusEffects
+      .filter(
+        effect =>
+          !participant.character.statusEffects.some(
+            existing =>
+              existing.name === STATUS_EFFECT_DEFINITIONS[effect.type].name
+          )
+      )
+      .reduce(
+        (sum, effect) =>
+          sum + effect.chance * AI_CONFIG.STATUS_EFFECT_SCORE * value,
+        0
+      );
+  }
+
+  /**
+   * The pull towards wounded targets, strongest when a blow would finish them
+   */
+  private scoreFocus(
+    target: CombatParticipant,
+    damage: number,
+    weights: StyleWeights
+  ): number {
+    const wounded =
+      (1 - this.getHealthFraction(target.character)) * AI_CONFIG.FOCUS_BONUS;
+    const killing =
+      damage >= target.character.currentHealth ? AI_CONFIG.KILL_BONUS : 0;
+    return (wounded + killing) * weights.focus;
+  }
+
+  /**
+   * Whether a target stands behind allies still holding the front
+   */
+  private isShielded(
+    target: CombatParticipant,
+    session: CombatSession
+  ): boolean {
+    const rank = ZONE_ORDER.indexOf(target.position.zone);
+    return session.participants.some(
+      p =>
+        p.id !== target.id &&
+        this.isAlly(target, p) &&
+        p.character.currentHealth > 0 &&
+        ZONE_ORDER.indexOf(p.position.zone) < rank
+    );
+  }
+
+  /**
+   * Average unarmed blow, as the combat system rolls it
+   */
+  private estimateAttackDamage(character: Character): number {
+    const strength = character.stats.strength;
+    return Math.max(
+      1,
+      Math.max(1, Math.floor(strength / 10)) + Math.floor((strength - 10) / 2)
+    );
+  }
+
+  private estimateSpellPower(
+    spell: SpellDefinition,
+    character: Character
+  ): number {
+    if (!spell.power) {
+      return 0;
+    }
+    const { dice, sides, bonus } = spell.power;
+    const modifier =
+      spell.damageType === 'healing'
+        ? Math.floor((character.stats.wisdom - 10) / 2)
+        : Math.floor((character.stats.intelligence - 10) / 2);
+    return Math.max(1, (dice * (sides + 1)) / 2 + bonus + modifier);
+  }
+
+  private getStyle(participant: CombatParticipant): CombatStyle {
+    return participant.behavior?.combatStyle ?? AI_CONFIG.DEFAULT_STYLE;
+  }
+
+  private getHealthFraction(character: Character): number {
+    return character.maxHealth > 0
+      ? Math.max(0, character.currentHealth) / character.maxHealth
+      : 0;
+  }
+
+  private isAlly(a: CombatParticipant, b: CombatParticipant): boolean {
+    return (a.type === 'player') === (b.type === 'player');
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const combatAI = CombatAI.getInstance();
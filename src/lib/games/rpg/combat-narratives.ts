@@ -352,6 +352,7 @@ export class CombatNarrativesService {
       move: `${actor.character.name} moves to a new position`,
       wait: `${actor.character.name} waits and observes`,
       flee: `${actor.character.name} attempts to flee`,
+      stabilize: `${actor.character.name} tends to${target ? ` ${target.character.name}` : ' a fallen ally'}`,
     };
 
     return {
@@ -519,6 +520,16 @@ export class CombatNarrativesService {
         constraints:
           'Keep to 1-2 sentences maximum. Focus on escape attempt and outcome.',
       },
+      stabilize: {
+        system: baseSystem,
+        context: 'Generate a narrative description for first aid in battle.',
+        actionPrompt:
+          'Describe {actorName} trying to stop {targetName} from bleeding out. Outcome: {outcome}.',
+        styleGuide:
+          'Show urgency amid the fighting around them. Style: {style}',
+        constraints:
+          'Keep to 1-2 sentences maximum. Focus on the wounded ally and outcome.',
+      },
     };
 
     return templates[actionType];
@@ -0,0 +1,669 @@
+/**
+ * RPG Combat Reward Resolver
+ *
+ * Works out what a finished fight is worth. Experience comes from the
+ * levels of the enemies beaten and is split across the surviving party,
+ * with a small bonus for fighting together. Defeated enemies drop loot from
+ * tables for their kind of creature, rolled up in rarity as they get
+ * tougher, and the party shares it out by its chosen distribution mode.
+ */
+
+import {
+  Character,
+  CombatRewardSummary,
+  CombatSession,
+  Item,
+  ItemEffect,
+  ItemRarity,
+  ItemType,
+  LootAllocation,
+  LootDistributionMode,
+  RPGPlayer,
+} from '@/types/rpg';
+import { UUID } from '@/types/core';
+import { RandomSource } from '@/lib/game-engine/random';
+import { characterManager } from './character';
+import { inventoryManager } from './inventory';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const REWARD_CONSTANTS = {
+  EXPERIENCE_PER_ENEMY_LEVEL: 100,
+  // Extra experience in the pool for each party member beyond the first
+  PARTY_BONUS_PER_MEMBER: 0.1,
+  DROP_SLOTS_PER_ENEMY: 2,
+  DROP_CHANCE: 0.5,
+  GOLD_PER_LEVEL: { min: 2, max: 8 },
+  // Each step makes rarer drops more likely relative to common ones
+  LEVELS_PER_RARITY_STEP: 5,
+} as const;
+
+const RARITY_ORDER: ItemRarity[] = [
+  'common',
+  'uncommon',
+  'rare',
+  'epic',
+  'legendary',
+  'artifact',
+];
+
+// Artifacts are never random drops
+const RARITY_WEIGHTS: Record<ItemRarity, number> = {
+  common: 60,
+  uncommon: 25,
+  rare: 10,
+  epic: 4,
+  legendary: 1,
+  artifact: 0,
+};
+
+const STACKABLE_TYPES: ItemType[] = ['consumable', 'misc'];
+const EQUIPABLE_TYPES: ItemType[] = ['weapon', 'armor', 'accessory'];
+
+// ============================================================================
+// LOOT TABLES
+// ============================================================================
+
+export type EnemyType =
+  | 'beast'
+  | 'humanoid'
+  | 'undead'
+  | 'construct'
+  | 'elemental';
+
+interface LootTemplate {
+  readonly name: string;
+  readonly description: string;
+  readonly type: ItemType;
+  readonly value: number;
+  readonly weight: number;
+  readonly dropWeight: number;
+  readonly maxRarity: ItemRarity; // Pelts and bone dust stay mundane
+  readonly effects?: ItemEffect[];
+  readonly charges?: number;
+}
+
+interface LootTable {
+  readonly carriesGold: boolean;
+  readonly drops: LootTemplate[];
+}
+
+// Race names that mark an enemy as something other than a humanoid
+const ENEMY_TYPE_KEYWORDS: Record<Exclude<EnemyType, 'humanoid'>, string[]> = {
+  beast: ['wolf', 'bear', 'boar', 'rat', 'spider', 'bat', 'serpent', 'beast'],
+  undead: ['skeleton', 'zombie', 'ghoul', 'wraith', 'ghost', 'lich', 'undead'],
+  construct: ['golem', 'construct', 'automaton', 'animated'],
+  elemental: ['elemental', 'wisp', 'sprite', 'spirit', 'imp'],
+};
+
+const HEALING_DRAUGHT: ItemEffect = {
+  type: 'stat_modifier',
+  target: 'health',
+  value: 15,
+};
+
+const LOOT_TABLES: Record<EnemyType, LootTable> = {
+  beast: {
+    carriesGold: false,
+    drops: [
+      {
+        name: 'Pelt',
+        description: 'A rough hide, worth something to a tanner',
+        type: 'misc',
+        value: 5,
+        weight: 2,
+        dropWeight: 5,
+        maxRarity: 'uncommon',
+      },
+      {
+        name: 'Fang',
+        description: 'A long, curved tooth',
+        type: 'misc',
+        value: 3,
+        weight: 0.1,
+        dropWeight: 4,
+        maxRarity: 'rare',
+      },
+      {
+        name: 'Fresh Meat',
+        description: 'Eaten quickly, it restores a little strength',
+        type: 'consumable',
+        value: 2,
+        weight: 1,
+        dropWeight: 3,
+        maxRarity: 'common',
+        effects: [{ type: 'stat_modifier', target: 'health', value: 5 }],
+      },
+      {
+        name: 'Claw Charm',
+        description: 'A claw on a cord, said to lend its owner strength',
+        type: 'accessory',
+        value: 20,
+        weight: 0.1,
+        dropWeight: 1,
+        maxRarity: 'legendary',
+        effects: [{ type: 'stat_modifier', target: 'strength', value: 1 }],
+      },
+    ],
+  },
+  humanoid: {
+    carriesGold: true,
+    drops: [
+      {
+        name: 'Healing Draught',
+        description: 'A small flask of red tonic',
+        type: 'consumable',
+        value: 25,
+        weight: 0.5,
+        dropWeight: 4,
+        maxRarity: 'uncommon',
+        effects: [HEALING_DRAUGHT],
+      },
+      {
+        name: 'Sword',
+        description: 'A plain soldier’s blade',
+        type: 'weapon',
+        value: 30,
+        weight: 3,
+        dropWeight: 2,
+        maxRarity: 'legendary',
+      },
+      {
+        name: 'Leather Armor',
+        description: 'Boiled leather, scuffed but serviceable',
+        type: 'armor',
+        value: 40,
+        weight: 8,
+        dropWeight: 2,
+        maxRarity: 'legendary',
+      },
+      {
+        name: 'Trinket',
+        description: 'A keepsake of some small value',
+        type: 'misc',
+        value: 10,
+        weight: 0.2,
+        dropWeight: 3,
+        maxRarity: 'rare',
+      },
+    ],
+  },
+  undead: {
+    carriesGold: true,
+    drops: [
+      {
+        name: 'Bone Dust',
+        description: 'Fine grey powder prized by alchemists',
+        type: 'misc',
+        value: 4,
+        weight: 0.2,
+        dropWeight: 5,
+        maxRarity: 'uncommon',
+      },
+      {
+        name: 'Grave Ring',
+        description: 'A tarnished ring taken from the dead',
+        type: 'accessory',
+        value: 35,
+        weight: 0.1,
+        dropWeight: 2,
+        maxRarity: 'legendary',
+        effects: [{ type: 'stat_modifier', target: 'wisdom', value: 1 }],
+      },
+      {
+        name: 'Ancient Blade',
+        description: 'Pitted steel of an older make',
+        type: 'weapon',
+        value: 45,
+        weight: 3,
+        dropWeight: 1,
+        maxRarity: 'legendary',
+      },
+    ],
+  },
+  construct: {
+    carriesGold: false,
+    drops: [
+      {
+        name: 'Gears',
+        description: 'A handful of fine brass gears',
+        type: 'misc',
+        value: 6,
+        weight: 1,
+        dropWeight: 5,
+        maxRarity: 'uncommon',
+      },
+      {
+        name: 'Core Crystal',
+        description: 'The crystal that once drove the construct',
+        type: 'misc',
+        value: 40,
+        weight: 1,
+        dropWeight: 1,
+        maxRarity: 'epic',
+      },
+    ],
+  },
+  elemental: {
+    carriesGold: false,
+    drops: [
+      {
+        name: 'Essence',
+        description: 'A swirl of raw elemental matter in a vial',
+        type: 'misc',
+        value: 15,
+        weight: 0.5,
+        dropWeight: 4,
+        maxRarity: 'rare',
+      },
+      {
+        name: 'Wand of Sparks',
+        description: 'A slim wand that crackles in the hand',
+        type: 'tool',
+        value: 50,
+        weight: 0.5,
+        dropWeight: 1,
+        maxRarity: 'epic',
+        charges: 3,
+        effects: [{ type: 'special_ability', target: 'damage', value: 8 }],
+      },
+    ],
+  },
+};
+
+// ============================================================================
+// REWARD TYPES
+// ============================================================================
+
+export interface CombatLoot {
+  readonly items: Item[];
+  readonly currency: number;
+}
+
+export interface CombatRewardOutcome {
+  readonly combatId: UUID;
+  readonly victor: CombatRewardSummary['victor'];
+  readonly experience: Record<UUID, number>; // Character ID -> experience
+  readonly loot: CombatLoot;
+}
+
+export interface AwardedRewards {
+  readonly players: RPGPlayer[];
+  readonly allocations: LootAllocation[];
+}
+
+// ============================================================================
+// COMBAT REWARD RESOLVER CLASS
+// ============================================================================
+
+export class CombatRewardResolver {
+  private static instance: CombatRewardResolver;
+
+  private constructor() {}
+
+  static getInstance(): CombatRewardResolver {
+    if (!CombatRewardResolver.instance) {
+      CombatRewardResolver.instance = new CombatRewardResolver();
+    }
+    return CombatRewardResolver.instance;
+  }
+
+  /**
+   * Experience for each surviving player. Nothing is earned from a fight
+   * the party did not win.
+   */
+  calculateExperience(
+    session: CombatSession,
+    victor: CombatRewardSummary['victor']
+  ): Record<UUID, number> {
+    const survivors = this.getSurvivors(session);
+    if (victor !== 'players' || survivors.length === 0) {
+      return {};
+    }
+
+    const enemyLevels = session.participants
+      .filter(p => p.type !== 'player')
+      .reduce((sum, p) => sum + p.character.level, 0);
+    const pool =
+      enemyLevels *
+      REWARD_CONSTANTS.EXPERIENCE_PER_ENEMY_LEVEL *
+      (1 + REWARD_CONSTANTS.PARTY_BONUS_PER_MEMBER * (survivors.length - 1));
+    const share = Math.floor(pool / survivors.length);
+
+    return Object.fromEntries(survivors.map(p => [p.id, share]));
+  }
+
+  /**
+   * Roll loot from every enemy that went down
+   */
+  generateLoot(session: CombatSession, random: RandomSource): CombatLoot {
+    const items: Item[] = [];
+    let currency = 0;
+
+    for (const enemy of session.participants) {
+      if (enemy.type === 'player' || enemy.character.currentHealth > 0) {
+        continue;
+      }
+
+      const { level } = enemy.character;
+      const table = LOOT_TABLES[this.getEnemyType(enemy.character)];
+      for (let slot = 0; slot < REWARD_CONSTANTS.DROP_SLOTS_PER_ENEMY; slot++) {
+        if (random.chance(REWARD_CONSTANTS.DROP_CHANCE)) {
+          const template = random.weightedPick(
+            table.drops,
+            table.drops.map(drop => drop.dropWeight)
+          );
+          items.push(
+            this.createItem(template, this.rollRarity(level, random), random)
+          );
+        }
+      }
+
+      if (table.carriesGold) {
+        currency += random.nextInt(
+          level * REWARD_CONSTANTS.GOLD_PER_LEVEL.min,
+          level * REWARD_CONSTANTS.GOLD_PER_LEVEL.max
+        );
+      }
+    }
+
+    return { items, currency };
+  }
+
+  /**
+   * Decide who gets each drop
+   */
+  distributeLoot(
+    items: Item[],
+    recipients: Character[],
+    mode: LootDistributionMode,
+    random: RandomSource,
+    leaderId?: UUID
+  ): LootAllocation[] {
+    if (recipients.length === 0) {
+      return items.map(item => ({ item }));
+    }
+
+    switch (mode) {
+      case 'round_robin': {
+        // Start somewhere random so single drops don't always go to the same player
+        const start = random.nextInt(0, recipients.length - 1);
+        return items.map((item, index) => ({
+          item,
+          characterId: recipients[(start + index) % recipients.length]!.id,
+        }));
+      }
+
+      case 'need_greed':
+        return items.map(item => this.rollNeedGreed(item, recipients, random));
+
+      case 'leader_assigns': {
+        const leader =
+          recipients.find(character => character.id === leaderId) ??
+          recipients[0]!;
+        return items.map(item => ({ item, characterId: leader.id }));
+      }
+    }
+  }
+
+  /**
+   * Write a fight's rewards to the party's player records: experience and
+   * any levels it buys, their share of the loot and gold, and a summary for
+   * the combat screen. Drops that don't fit go to whoever has room, and are
+   * left behind if no one does.
+   */
+  async awardRewards(
+    players: RPGPlayer[],
+    outcome: CombatRewardOutcome,
+    mode: LootDistributionMode,
+    random: RandomSource,
+    leaderId?: UUID
+  ): Promise<AwardedRewards> {
+    const recipients = players.filter(
+      player => player.gameSpecificData.character.id in outcome.experience
+    );
+    const characters = new Map(
+      players.map(player => [
+        player.gameSpecificData.character.id,
+        player.gameSpecificData.character,
+      ])
+    );
+    const inventories = new Map(
+      players.map(player => [
+        player.gameSpecificData.character.id,
+        player.gameSpecificData.inventory,
+      ])
+    );
+
+    const allocations = this.distributeLoot(
+      outcome.loot.items,
+      recipients.map(player => player.gameSpecificData.character),
+      mode,
+      random,
+      leaderId
+    ).map(allocation => {
+      const candidates = [
+        allocation.characterId,
+        ...recipients.map(player => player.gameSpecificData.character.id),
+      ].filter((id): id is UUID => id !== undefined);
+
+      for (const characterId of candidates) {
+        try {
+          inventories.set(
+            characterId,
+            inventoryManager.addItem(
+              inventories.get(characterId)!,
+              allocation.item
+            )
+          );
+          return { ...allocation, characterId };
+        } catch {
+          // No room; try the next member
+        }
+      }
+      return { ...allocation, characterId: undefined };
+    });
+
+    const currencyShares = this.splitCurrency(
+      outcome.loot.currency,
+      recipients.map(player => player.gameSpecificData.character.id),
+      leaderId
+    );
+
+    const updated: RPGPlayer[] = [];
+    for (const player of players) {
+      const characterId = player.gameSpecificData.character.id;
+      const experience = outcome.experience[characterId] ?? 0;
+      const { character, levelsGained } = await this.gainExperience(
+        characters.get(characterId)!,
+        experience
+      );
+
+      let inventory = inventories.get(characterId)!;
+      let currency = currencyShares[characterId] ?? 0;
+      try {
+        inventory = inventoryManager.adjustCurrency(inventory, currency);
+      } catch {
+        // Already carrying all the gold they can
+        currency = 0;
+      }
+
+      const summary: CombatRewardSummary = {
+        combatId: outcome.combatId,
+        victor: outcome.victor,
+        experienceGained: experience,
+        levelsGained,
+        level: character.level,
+        currency,
+        itemsReceived: allocations
+          .filter(allocation => allocation.characterId === characterId)
+          .map(allocation => allocation.item),
+        distribution: mode,
+        allocations,
+        timestamp: new Date(),
+      };
+
+      updated.push({
+        ...player,
+        gameSpecificData: {
+          ...player.gameSpecificData,
+          character,
+          inventory,
+          lastCombatRewards: summary,
+        },
+      });
+    }
+
+    return { players: updated, allocations };
+  }
+
+  /**
+   * Kind of creature an enemy is, judged from its race
+   */
+  getEnemyType(character: Character): EnemyType {
+    const race = character.race?.name.toLowerCase() ?? '';
+    for (const [type, keywords] of Object.entries(ENEMY_TYPE_KEYWORDS)) {
+      if (keywords.some(keyword => race.includes(keyword))) {
+        return type as EnemyType;
+      }
+    }
+    return 'humanoid';
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private getSurvivors(session: CombatSession) {
+    return session.participants.filter(
+      p => p.type === 'player' && p.character.currentHealth > 0
+    );
+  }
+
+  /**
+   * Add experience and level up as many times as it pays for
+   */
+  private async gainExperience(
+    character: Character,
+    experience: number
+  ): Promise<{ character: Character; levelsGained: number }> {
+    let current: Character = {
+      ...character,
+      experience: character.experience + experience,
+    };
+    let levelsGained = 0;
+
+    while (
+      current.experience >=
+      characterManager.getRequiredExperience(current.level + 1)
+    ) {
+      current = (await characterManager.levelUp(current)).character;
+      levelsGained++;
+    }
+
+    return { character: current, levelsGained };
+  }
+
+  private rollRarity(level: number, random: RandomSource): ItemRarity {
+    const steps = Math.floor(level / REWARD_CONSTANTS.LEVELS_PER_RARITY_STEP);
+    return random.weightedPick(
+      RARITY_ORDER,
+      RARITY_ORDER.map(
+        (rarity, index) => RARITY_WEIGHTS[rarity] * (1 + (steps * index) / 2)
+      )
+    );
+  }
+
+  private createItem(
+    template: LootTemplate,
+    rolled: ItemRarity,
+    random: RandomSource
+  ): Item {
+    const rarity =
+      RARITY_ORDER.indexOf(rolled) > RARITY_ORDER.indexOf(template.maxRarity)
+        ? template.maxRarity
+        : rolled;
+
+    return {
+      id: random.uuid(),
+      name: template.name,
+      description: template.description,
+      type: template.type,
+      rarity,
+      value: template.value,
+      weight: template.weight,
+      properties: {
+        stackable: STACKABLE_TYPES.includes(template.type),
+        consumable: template.type === 'consumable',
+        equipable: EQUIPABLE_TYPES.includes(template.type),
+        tradeable: true,
+        questItem: false,
+      },
+      effects: template.effects,
+      charges: template.charges,
+    };
+  }
+
+  /**
+   * Members who can equip an item and meet its requirements need it; the
+   * rest greed. The highest roll among those with the strongest claim wins.
+   */
+  private rollNeedGreed(
+    item: Item,
+    recipients: Character[],
+    random: RandomSource
+  ): LootAllocation {
+    const rolls = recipients.map(character => ({
+      character,
+      claim:
+        item.properties.equipable &&
+        inventoryManager.meetsRequirements(character, item.requirements)
+          ? ('need' as const)
+          : ('greed' as const),
+      roll: random.roll(100),
+    }));
+    const needers = rolls.filter(roll => roll.claim === 'need');
+    const winner = (needers.length > 0 ? needers : rolls).reduce(
+      (best, roll) => (roll.roll > best.roll ? roll : best)
+    );
+
+    return {
+      item,
+      characterId: winner.character.id,
+      claim: winner.claim,
+      roll: winner.roll,
+    };
+  }
+
+  /**
+   * Even shares of gold, with what doesn't divide going to the leader
+   */
+  private splitCurrency(
+    currency: number,
+    characterIds: UUID[],
+    leaderId?: UUID
+  ): Record<UUID, number> {
+    if (characterIds.length === 0) {
+      return {};
+    }
+
+    const share = Math.floor(currency / characterIds.length);
+    const remainderTo = characterIds.includes(leaderId ?? '')
+      ? leaderId!
+      : characterIds[0]!;
+    return Object.fromEntries(
+      characterIds.map(id => [
+        id,
+        share + (id === remainderTo ? currency % characterIds.length : 0),
+      ])
+    );
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const combatRewardResolver = CombatRewardResolver.getInstance();
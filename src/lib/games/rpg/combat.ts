@@ -6,11 +6,11 @@
  * and character system to provide engaging tactical combat experiences.
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import {
   CombatSession,
   CombatParticipant,
   CombatAction,
+  CombatBehavior,
   CombatActionType,
   Character,
   StatusEffect,
@@ -23,6 +23,7 @@ import {
   Item,
   Equipment,
   EnvironmentModifier,
+  Inventory,
   CombatDataSchema,
   CombatData,
 } from '@/types/rpg';
@@ -30,6 +31,20 @@ import { GameState, ActionResult, GameEvent } from '@/types/core';
 import { kvService } from '@/lib/database/kv-service';
 import { validateWith } from '@/lib/database/validation';
 import { gameEngine } from '@/lib/game-engine/core';
+import { eventSystem } from '@/lib/game-engine/events';
+import { RandomSource, unseededRandom } from '@/lib/game-engine/random';
+import { CombatDifficulty, combatAI } from './combat-ai';
+import { combatRewardResolver } from './combat-rewards';
+import { DeathSaveOutcome, deathSystem } from './death';
+import { itemEffectInterpreter } from './item-effects';
+import { spellSystem } from './spells';
+import { DEFAULT_BOARD_SIZE, tacticalGrid } from './tactical-grid';
+import {
+  STATUS_EFFECT_DEFINITIONS,
+  STATUS_EFFECT_TYPES,
+  StatusEffectType,
+  statusEffectManager,
+} from './status-effects';
 
 // ============================================================================
 // COMBAT CONFIGURATION & CONSTANTS
@@ -59,6 +74,32 @@ const DAMAGE_TYPES = {
 
 type DamageType = (typeof DAMAGE_TYPES)[keyof typeof DAMAGE_TYPES];
 
+const DEATH_SAVE_NARRATIVES: Record<DeathSaveOutcome, string> = {
+  success: 'clings to life',
+  failure: 'slips closer to death',
+  stabilized: 'is no longer bleeding out',
+  revived: 'staggers back to their feet',
+  died: 'breathes their last',
+};
+
+// Status effects that blunt each kind of damage
+const RESISTANCE_EFFECTS: Partial<Record<DamageType, StatusEffectType[]>> = {
+  physical: [STATUS_EFFECT_TYPES.PHYSICAL_RESISTANCE],
+  magical: [STATUS_EFFECT_TYPES.MAGIC_RESISTANCE],
+  fire: [
+    STATUS_EFFECT_TYPES.FIRE_RESISTANCE,
+    STATUS_EFFECT_TYPES.MAGIC_RESISTANCE,
+  ],
+  ice: [
+    STATUS_EFFECT_TYPES.ICE_RESISTANCE,
+    STATUS_EFFECT_TYPES.MAGIC_RESISTANCE,
+  ],
+  lightning: [
+    STATUS_EFFECT_TYPES.LIGHTNING_RESISTANCE,
+    STATUS_EFFECT_TYPES.MAGIC_RESISTANCE,
+  ],
+};
+
 // ============================================================================
 // COMBAT RESULT INTERFACES
 // ============================================================================
@@ -70,6 +111,18 @@ export interface CombatResult {
   readonly events: GameEvent[];
   readonly gameState?: GameState;
   readonly error?: string;
+  readonly combatEnd?: CombatEndResult; // Set on the action that ends the fight
+  readonly actionResult?: CombatActionResult;
+}
+
+export interface AITurn {
+  readonly action: CombatAction;
+  readonly result: CombatResult;
+}
+
+export interface CombatSetup {
+  readonly difficulty?: CombatDifficulty;
+  readonly behaviors?: Record<UUID, CombatBehavior>; // Keyed by character id
 }
 
 export interface CombatRoundResult {
@@ -97,7 +150,8 @@ export interface CombatActionResult {
     | 'fumble'
     | 'block'
     | 'parry'
-    | 'dodge';
+    | 'dodge'
+    | 'ongoing';
   readonly damage: number;
   readonly damageType: DamageType;
   readonly healing: number;
@@ -111,7 +165,9 @@ export interface CombatEndResult {
   readonly survivors: UUID[];
   readonly casualties: UUID[];
   readonly experienceGained: number;
+  readonly experienceByCharacter: Record<UUID, number>;
   readonly lootDropped: Item[];
+  readonly currencyDropped: number;
   readonly combatDuration: number;
   readonly summary: string;
 }
@@ -130,9 +186,13 @@ export interface EnvironmentEffect {
 
 export class CombatSystem {
   private static instance: CombatSystem;
-  private activeSessions: Map<UUID, CombatSession> = new Map();
+  private activeSessions: Map<UUID, CombatSession>;
 
-  private constructor() {
+  private constructor(
+    private readonly random: RandomSource = unseededRandom,
+    activeSessions: Map<UUID, CombatSession> = new Map()
+  ) {
+    this.activeSessions = activeSessions;
     // Initialize AI service connection for combat narratives
     this.setupCombatAI();
   }
@@ -144,17 +204,29 @@ export class CombatSystem {
     return CombatSystem.instance;
   }
 
+  /**
+   * Create a combat system bound to a game's seeded random source.
+   * Shares active sessions with the singleton so lookups stay consistent.
+   */
+  static withRandom(random: RandomSource): CombatSystem {
+    return new CombatSystem(random, CombatSystem.getInstance().activeSessions);
+  }
+
   // ============================================================================
   // CORE COMBAT METHODS
   // ============================================================================
 
   /**
-   * Initiate a combat session between players and enemies
+   * Initiate a combat session between players and enemies. Players can use
+   * items from their inventories, keyed by character id. Enemies fight by
+   * their behaviors and are scaled for the game's difficulty.
    */
   async initiateCombat(
     players: Character[],
     enemies: Character[],
-    environment?: Partial<CombatEnvironment>
+    environment?: Partial<CombatEnvironment>,
+    inventories: Record<UUID, Inventory> = {},
+    setup: CombatSetup = {}
   ): Promise<CombatSession> {
     try {
       // Validate participants
@@ -170,12 +242,14 @@ export class CombatSystem {
         );
       }
 
-      const combatId = uuidv4();
+      const combatId = this.random.uuid();
 
       // Create combat participants
       const participants = await this.createCombatParticipants(
         players,
-        enemies
+        enemies,
+        inventories,
+        setup
       );
 
       // Determine initiative order
@@ -195,6 +269,7 @@ export class CombatSystem {
         currentParticipant: turnOrder[0],
         environment: combatEnvironment,
         status: 'active',
+        difficulty: setup.difficulty,
         log: [
           {
             timestamp: new Date(),
@@ -212,6 +287,15 @@ export class CombatSystem {
         ],
       };
 
+      // On the grid, zones follow from where everyone stands
+      if (tacticalGrid.isTactical(session)) {
+        participants.splice(
+          0,
+          participants.length,
+          ...tacticalGrid.assignZones(session)
+        );
+      }
+
       // Store session
       this.activeSessions.set(combatId, session);
       await this.saveCombatSession(session);
@@ -226,12 +310,17 @@ export class CombatSystem {
   }
 
   /**
-   * Process a combat action and update the session
+   * Process a combat action and update the session. Pass the game's active
+   * session to act on it directly rather than looking it up.
    */
-  async processAction(action: CombatAction): Promise<CombatResult> {
+  async processAction(
+    action: CombatAction,
+    activeSession?: CombatSession
+  ): Promise<CombatResult> {
     try {
       // Load combat session
-      const session = await this.getCombatSession(action.gameId);
+      const session =
+        activeSession ?? (await this.getCombatSession(action.gameId));
       if (!session) {
         return {
           success: false,
@@ -298,25 +387,30 @@ export class CombatSystem {
       const combatEndResult = this.checkCombatEndConditions(updatedSession);
       if (combatEndResult) {
         updatedSession.status = 'ended';
-        //TODO: Process combat end rewards and experience
       }
 
       // Save updated session
       await this.saveCombatSession(updatedSession);
       this.activeSessions.set(updatedSession.id, updatedSession);
 
-      // Create events
+      // Create events and push them to connected clients
       const events = this.createCombatEvents(
         updatedSession,
         actionResult,
-        action
+        action,
+        logEntry
       );
+      await this.publishCombatEvents(events);
 
       return {
         success: true,
         updatedSession,
         logEntries: [logEntry],
         events,
+        actionResult,
+        combatEnd: combatEndResult
+          ? await this.endCombat(updatedSession)
+          : undefined,
       };
     } catch (error) {
       return {
@@ -352,11 +446,14 @@ export class CombatSystem {
         const weapon = this.getEquippedWeapon(attacker);
         baseDamage = this.getWeaponDamage(weapon, attacker);
         description = `attacks with ${weapon?.name || 'bare hands'}`;
-      } else if (action.type === 'cast_spell') {
-        //TODO: Implement spell damage calculation once spell system is available
-        baseDamage = attacker.stats.intelligence * 2;
-        damageType = DAMAGE_TYPES.MAGICAL;
-        description = 'casts a spell';
+      } else if (
+        action.type === 'cast_spell' &&
+        spellSystem.getSpell(action.data.spellId ?? '')?.power
+      ) {
+        const spell = spellSystem.getSpell(action.data.spellId!)!;
+        baseDamage = spellSystem.rollPower(spell, attacker, this.random);
+        damageType = spell.damageType;
+        description = `casts ${spell.name}`;
       } else {
         // Non-damage actions
         return {
@@ -372,7 +469,7 @@ export class CombatSystem {
       baseDamage = Math.max(1, baseDamage + statModifier);
 
       // Calculate hit chance and critical hits
-      const hitRoll = Math.floor(Math.random() * 100) + 1;
+      const hitRoll = this.random.roll(100);
       const hitChance = this.calculateHitChance(attacker, target, action);
       const isCritical = hitRoll >= COMBAT_CONFIG.CRITICAL_HIT_THRESHOLD;
 
@@ -445,60 +542,80 @@ export class CombatSystem {
   }
 
   /**
-   * Resolve a complete combat round
+   * Let computer-controlled fighters act, in turn order, until a player is
+   * up or the fight is over. An NPC whose chosen action is refused waits
+   * instead, so the fight never stalls on it.
    */
-  async resolveCombatRound(session: CombatSession): Promise<CombatRoundResult> {
-    const participantResults: CombatParticipantResult[] = [];
-    const environmentEffects: EnvironmentEffect[] = [];
+  async takeAITurns(session: CombatSession): Promise<AITurn[]> {
+    const turns: AITurn[] = [];
+    const maxActions = session.participants.reduce(
+      (sum, p) => sum + p.maxActionPoints,
+      0
+    );
 
-    // Process each participant's turn in initiative order
-    for (const participantId of session.turnOrder) {
-      const participant = session.participants.find(
-        p => p.id === participantId
+    let current = session;
+    while (turns.length < maxActions && current.status === 'active') {
+      const participant = current.participants.find(
+        p => p.id === current.currentParticipant
       );
-      if (!participant || participant.character.currentHealth <= 0) {
-        continue; // Skip dead or missing participants
+      if (!participant || participant.type === 'player') {
+        break;
       }
 
-      // For AI-controlled participants, generate their action
-      if (participant.type !== 'player') {
-        const aiAction = this.generateAIAction(participant, session);
-        const actionResult = await this.processAction(aiAction);
-
-        if (actionResult.success) {
-          participantResults.push({
-            participantId,
-            action: aiAction,
-            result: {
-              outcome: 'hit', // Simplified for now
-              damage: 0,
-              damageType: DAMAGE_TYPES.PHYSICAL,
-              healing: 0,
-              statusEffectsApplied: [],
-              description: 'AI action executed',
-              narrativeDescription: 'The AI takes their turn',
-            },
-            statusChanges: [],
-          });
-        }
+      let action = this.generateAIAction(participant, current);
+      let result = await this.processAction(action, current);
+      if (!result.success) {
+        action = { ...action, type: 'wait', data: {} };
+        result = await this.processAction(action, current);
       }
+      if (!result.success) {
+        break;
+      }
+
+      turns.push({ action, result });
+      current = result.updatedSession;
     }
 
-    // Process environment effects
-    environmentEffects.push(...this.processEnvironmentEffects(session));
+    return turns;
+  }
 
-    // Update turn counter
-    session.currentTurn++;
+  /**
+   * Resolve the computer-controlled turns up to the next player's turn
+   */
+  async resolveCombatRound(session: CombatSession): Promise<CombatRoundResult> {
+    const roundNumber = session.currentTurn;
+    const turns = await this.takeAITurns(session);
+    const updatedSession = turns.at(-1)?.result.updatedSession ?? session;
+
+    const participantResults: CombatParticipantResult[] = turns.flatMap(
+      ({ action, result }) =>
+        result.actionResult
+          ? [
+              {
+                participantId: action.playerId,
+                action,
+                result: result.actionResult,
+                statusChanges: result.actionResult.statusEffectsApplied,
+                position: updatedSession.participants.find(
+                  p => p.id === action.playerId
+                )?.position,
+              },
+            ]
+          : []
+    );
 
-    const roundSummary = `Round ${session.currentTurn - 1} completed. ${participantResults.length} actions processed.`;
+    // Process environment effects
+    const environmentEffects = this.processEnvironmentEffects(updatedSession);
 
     return {
-      roundNumber: session.currentTurn - 1,
+      roundNumber,
       participantResults,
       environmentEffects,
-      roundSummary,
-      isRoundComplete: true,
-      nextParticipant: session.turnOrder[0], // Reset to first participant for next round
+      roundSummary: `Round ${roundNumber}: ${participantResults.length} actions processed.`,
+      isRoundComplete:
+        updatedSession.currentTurn > roundNumber ||
+        updatedSession.status === 'ended',
+      nextParticipant: updatedSession.currentParticipant,
     };
   }
 
@@ -524,9 +641,33 @@ export class CombatSystem {
         victor = 'draw';
       }
 
+      // Downed players are tended to by the winners, or left for dead
+      session.participants
+        .filter(p => p.type === 'player')
+        .forEach(p =>
+          this.replaceParticipant(session, {
+            ...p,
+            character: deathSystem.settleAfterCombat(
+              p.character,
+              victor !== 'enemies'
+            ),
+          })
+        );
+
       // Calculate rewards
-      const experienceGained = this.calculateExperienceGained(session, victor);
-      const lootDropped = this.generateLootDrops(session, victor);
+      const experienceByCharacter = combatRewardResolver.calculateExperience(
+        session,
+        victor
+      );
+      const experienceGained = Object.values(experienceByCharacter).reduce(
+        (sum, experience) => sum + experience,
+        0
+      );
+      const loot =
+        victor === 'players'
+          ? combatRewardResolver.generateLoot(session, this.random)
+          : { items: [], currency: 0 };
+      const lootDropped = loot.items;
 
       const survivors = session.participants
         .filter(p => p.character.currentHealth > 0)
@@ -555,7 +696,9 @@ export class CombatSystem {
         survivors,
         casualties,
         experienceGained,
+        experienceByCharacter,
         lootDropped,
+        currencyDropped: loot.currency,
         combatDuration,
         summary,
       };
@@ -575,7 +718,9 @@ export class CombatSystem {
 
   private async createCombatParticipants(
     players: Character[],
-    enemies: Character[]
+    enemies: Character[],
+    inventories: Record<UUID, Inventory>,
+    setup: CombatSetup
   ): Promise<CombatParticipant[]> {
     const participants: CombatParticipant[] = [];
 
@@ -589,6 +734,7 @@ export class CombatSystem {
         actionPoints: COMBAT_CONFIG.ACTION_POINTS_PER_TURN,
         maxActionPoints: COMBAT_CONFIG.ACTION_POINTS_PER_TURN,
         hasActed: false,
+        inventory: inventories[character.id],
       });
     });
 
@@ -597,11 +743,12 @@ export class CombatSystem {
       participants.push({
         id: character.id,
         type: 'npc',
-        character,
+        character: combatAI.scaleForDifficulty(character, setup.difficulty),
         position: { x: index, y: 5, zone: 'front' },
         actionPoints: COMBAT_CONFIG.ACTION_POINTS_PER_TURN,
         maxActionPoints: COMBAT_CONFIG.ACTION_POINTS_PER_TURN,
         hasActed: false,
+        behavior: setup.behaviors?.[character.id],
       });
     });
 
@@ -615,14 +762,14 @@ export class CombatSystem {
       type: environment?.type || 'battlefield',
       modifiers: environment?.modifiers || [],
       hazards: environment?.hazards || [],
-      size: environment?.size || { width: 10, height: 10 },
+      size: environment?.size || DEFAULT_BOARD_SIZE,
+      tactical: environment?.tactical ?? false,
     };
   }
 
   private rollInitiative(character: Character): number {
     const dexModifier = Math.floor((character.stats.dexterity - 10) / 2);
-    const roll =
-      Math.floor(Math.random() * COMBAT_CONFIG.INITIATIVE_DICE_SIDES) + 1;
+    const roll = this.random.roll(COMBAT_CONFIG.INITIATIVE_DICE_SIDES);
     return roll + dexModifier;
   }
 
@@ -670,6 +817,75 @@ export class CombatSystem {
       }
     }
 
+    if (action.type === 'stabilize') {
+      const target = session.participants.find(
+        p => p.id === action.data.targetId
+      );
+      if (
+        !target ||
+        target.type !== 'player' ||
+        !this.isAlly(participant, target)
+      ) {
+        return { isValid: false, error: 'Choose an ally to tend to' };
+      }
+      if (deathSystem.getStatus(target.character) !== 'downed') {
+        return {
+          isValid: false,
+          error: `${target.character.name} does not need stabilizing`,
+        };
+      }
+    }
+
+    if (
+      action.type === 'use_item' &&
+      !participant.inventory?.items.some(
+        entry => entry.item.id === action.data.itemId
+      )
+    ) {
+      return { isValid: false, error: 'Item not found in inventory' };
+    }
+
+    if (action.type === 'cast_spell') {
+      const castingError = spellSystem.getCastingError(
+        participant.character,
+        action.data.spellId
+      );
+      if (castingError) {
+        return { isValid: false, error: castingError };
+      }
+
+      const spell = spellSystem.getSpell(action.data.spellId!)!;
+      const target = session.participants.find(
+        p => p.id === action.data.targetId
+      );
+      if (!spellSystem.isValidTarget(spell, participant, target)) {
+        return {
+          isValid: false,
+          error: `${spell.name} cannot be aimed there`,
+        };
+      }
+    }
+
+    // On the grid, attacks and spells need range and sight, and moves a path
+    if (tacticalGrid.isTactical(session)) {
+      const target = session.participants.find(
+        p => p.id === action.data.targetId
+      );
+      const error =
+        action.type === 'move'
+          ? tacticalGrid.getMoveError(
+              participant,
+              action.data.position,
+              session
+            )
+          : ['attack', 'cast_spell', 'stabilize'].includes(action.type)
+            ? tacticalGrid.getRangeError(participant, target, action, session)
+            : undefined;
+      if (error) {
+        return { isValid: false, error };
+      }
+    }
+
     return { isValid: true };
   }
 
@@ -685,13 +901,15 @@ export class CombatSystem {
       case 'defend':
         return this.executeDefend(actor);
       case 'move':
-        return this.executeMove(actor, action.data.position!);
+        return this.executeMove(actor, action.data.position!, session);
       case 'cast_spell':
-        return this.executeCastSpell(actor, target, action);
+        return this.executeCastSpell(actor, target, action, session);
       case 'use_item':
-        return this.executeUseItem(actor, target, action);
+        return this.executeUseItem(actor, target, action, session);
       case 'flee':
         return this.executeFlee(actor, session);
+      case 'stabilize':
+        return this.executeStabilize(actor, target!, session);
       case 'wait':
         return this.executeWait(actor);
       default:
@@ -740,9 +958,13 @@ export class CombatSystem {
 
   private executeMove(
     actor: CombatParticipant,
-    newPosition: CombatPosition
+    newPosition: CombatPosition,
+    session: CombatSession
   ): CombatActionResult {
-    //TODO: Validate movement distance and obstacles
+    if (tacticalGrid.isTactical(session)) {
+      return this.executeGridMove(actor, newPosition, session);
+    }
+
     actor.position = newPosition;
 
     return {
@@ -756,49 +978,212 @@ export class CombatSystem {
     };
   }
 
-  private executeCastSpell(
+  /**
+   * Move along the cheapest path, taking a free swing from every enemy
+   * whose reach the mover leaves on the way
+   */
+  private executeGridMove(
     actor: CombatParticipant,
-    target: CombatParticipant | undefined,
-    action: CombatAction
+    destination: CombatPosition,
+    session: CombatSession
   ): CombatActionResult {
-    //TODO: Implement full spell system with spell definitions and mana costs
-    const spellDamage =
-      actor.character.stats.intelligence + Math.floor(Math.random() * 10);
+    const path = tacticalGrid.findPath(actor, destination, session) ?? [];
+    const attackers = tacticalGrid.getOpportunityAttackers(
+      actor,
+      path,
+      session
+    );
 
+    let damage = 0;
+    const strikes: string[] = [];
+    for (const attacker of attackers) {
+      const swing = this.calculateDamage(attacker.character, actor.character, {
+        id: this.random.uuid(),
+        type: 'attack',
+        playerId: attacker.id,
+        gameId: session.id,
+        timestamp: new Date(),
+        data: { targetId: actor.id },
+      });
+      damage += swing.damage;
+      strikes.push(`${attacker.character.name} ${swing.description}`);
+    }
+
+    this.replaceParticipant(session, {
+      ...actor,
+      position: destination,
+      character: this.woundCharacter(actor, damage),
+    });
+    session.participants.splice(
+      0,
+      session.participants.length,
+      ...tacticalGrid.assignZones(session)
+    );
+
+    const provoked =
+      strikes.length > 0 ? ` Opportunity attacks: ${strikes.join('; ')}.` : '';
     return {
-      outcome: 'hit',
-      damage: spellDamage,
-      damageType: DAMAGE_TYPES.MAGICAL,
+      outcome: 'ongoing',
+      damage,
+      damageType: DAMAGE_TYPES.PHYSICAL,
       healing: 0,
       statusEffectsApplied: [],
-      description: 'casts a spell',
-      narrativeDescription: `${actor.character.name} weaves magical energy${target ? ` at ${target.character.name}` : ''}`,
+      description: `moves to (${destination.x}, ${destination.y})`,
+      narrativeDescription: `${actor.character.name} moves to (${destination.x}, ${destination.y}).${provoked}`,
+    };
+  }
+
+  private executeCastSpell(
+    actor: CombatParticipant,
+    target: CombatParticipant | undefined,
+    action: CombatAction,
+    session: CombatSession
+  ): CombatActionResult {
+    const spell = spellSystem.getSpell(action.data.spellId!)!;
+    const caster = {
+      ...actor,
+      character: spellSystem.spendCast(actor.character, spell),
+    };
+    this.replaceParticipant(session, caster);
+
+    // Spells land on everyone they reach here rather than through
+    // updateSessionFromActionResult, which only knows the one target
+    let damage = 0;
+    let healing = 0;
+    const statusEffectsApplied: StatusEffect[] = [];
+    const outcomes: string[] = [];
+    const affected = spellSystem.getAffectedParticipants(
+      spell,
+      caster,
+      target,
+      session.participants
+    );
+
+    for (const { id } of affected) {
+      const participant = session.participants.find(p => p.id === id)!;
+      let character = participant.character;
+
+      if (spell.damageType === DAMAGE_TYPES.HEALING) {
+        const healed = deathSystem.heal(
+          character,
+          spellSystem.rollPower(spell, caster.character, this.random)
+        );
+        const amount = healed.currentHealth - character.currentHealth;
+        character = healed;
+        healing += amount;
+        outcomes.push(`${character.name} recovers ${amount}`);
+      } else if (spell.power) {
+        const hit = this.calculateDamage(caster.character, character, action);
+        if (hit.damage <= 0) {
+          outcomes.push(`${character.name} is unharmed`);
+          continue;
+        }
+        character = this.woundCharacter(
+          { ...participant, character },
+          hit.damage
+        );
+        damage += hit.damage;
+        outcomes.push(`${character.name} takes ${hit.damage}`);
+      }
+
+      for (const effect of spell.statusEffects) {
+        if (!this.random.chance(effect.chance)) {
+          continue;
+        }
+        const statusEffects = statusEffectManager.applyStatusEffect(
+          character,
+          effect.type,
+          effect.duration
+        );
+        character = { ...character, statusEffects };
+        const added = statusEffects.find(
+          status => status.name === STATUS_EFFECT_DEFINITIONS[effect.type].name
+        );
+        if (added) {
+          statusEffectsApplied.push(added);
+          outcomes.push(`${character.name} is ${added.name.toLowerCase()}`);
+        }
+      }
+
+      this.replaceParticipant(session, { ...participant, character });
+    }
+
+    return {
+      outcome:
+        damage > 0 || healing > 0 || statusEffectsApplied.length > 0
+          ? 'hit'
+          : 'miss',
+      damage,
+      damageType: spell.damageType,
+      healing,
+      statusEffectsApplied,
+      description: `casts ${spell.name}`,
+      narrativeDescription: `${actor.character.name} casts ${spell.name}${
+        outcomes.length > 0 ? `: ${outcomes.join(', ')}` : ' to no effect'
+      }`,
     };
   }
 
   private executeUseItem(
     actor: CombatParticipant,
     target: CombatParticipant | undefined,
-    action: CombatAction
+    action: CombatAction,
+    session: CombatSession
   ): CombatActionResult {
-    //TODO: Implement item effects based on item database
+    const use = itemEffectInterpreter.useItem(
+      actor.character,
+      actor.inventory!,
+      action.data.itemId!,
+      { inCombat: true, target: target?.character }
+    );
+
+    // Item effects land on the participants here rather than through
+    // updateSessionFromActionResult, since the user may be the target
+    this.replaceParticipant(session, {
+      ...actor,
+      character: use.user,
+      inventory: use.inventory,
+    });
+    if (target && target.id !== actor.id) {
+      this.replaceParticipant(session, { ...target, character: use.target });
+    }
+
+    const effects = use.applied.map(applied => applied.description).join(', ');
     return {
-      outcome: 'ongoing',
-      damage: 0,
-      damageType: DAMAGE_TYPES.PHYSICAL,
-      healing: 0,
-      statusEffectsApplied: [],
-      description: 'uses an item',
-      narrativeDescription: `${actor.character.name} uses an item from their inventory`,
+      outcome: use.damage > 0 ? 'hit' : 'ongoing',
+      damage: use.damage,
+      damageType: use.damage > 0 ? DAMAGE_TYPES.MAGICAL : DAMAGE_TYPES.PHYSICAL,
+      healing: use.healing,
+      statusEffectsApplied: use.statusEffectsApplied,
+      description: `uses ${use.item.name}`,
+      narrativeDescription: `${actor.character.name} uses ${use.item.name}${
+        target && target.id !== actor.id ? ` on ${target.character.name}` : ''
+      }: ${effects}`,
     };
   }
 
+  private replaceParticipant(
+    session: CombatSession,
+    participant: CombatParticipant
+  ): void {
+    const index = session.participants.findIndex(p => p.id === participant.id);
+    if (index >= 0) {
+      session.participants[index] = participant;
+    }
+  }
+
   private executeFlee(
     actor: CombatParticipant,
     session: CombatSession
   ): CombatActionResult {
     //TODO: Calculate flee success chance based on character stats and positioning
-    const fleeSuccess = Math.random() > 0.5; // 50% base chance for now
+    const fleeSuccess = this.random.chance(0.5); // 50% base chance for now
+
+    // Whoever gets away is out of the fight
+    if (fleeSuccess) {
+      const index = session.participants.findIndex(p => p.id === actor.id);
+      session.participants.splice(index, 1);
+    }
 
     return {
       outcome: fleeSuccess ? 'ongoing' : 'miss',
@@ -813,6 +1198,33 @@ export class CombatSystem {
     };
   }
 
+  private executeStabilize(
+    actor: CombatParticipant,
+    target: CombatParticipant,
+    session: CombatSession
+  ): CombatActionResult {
+    const { patient, success } = deathSystem.stabilize(
+      actor.character,
+      target.character,
+      this.random
+    );
+    this.replaceParticipant(session, { ...target, character: patient });
+
+    return {
+      outcome: success ? 'hit' : 'miss',
+      damage: 0,
+      damageType: DAMAGE_TYPES.PHYSICAL,
+      healing: 0,
+      statusEffectsApplied: [],
+      description: success
+        ? `stabilizes ${target.character.name}`
+        : `fails to stabilize ${target.character.name}`,
+      narrativeDescription: success
+        ? `${actor.character.name} stops ${target.character.name}'s bleeding`
+        : `${actor.character.name} tries to stop ${target.character.name}'s bleeding, but it will not stop`,
+    };
+  }
+
   private executeWait(actor: CombatParticipant): CombatActionResult {
     return {
       outcome: 'ongoing',
@@ -864,6 +1276,8 @@ export class CombatSystem {
     baseChance += Math.floor((attacker.stats.dexterity - 10) / 2);
     if (action.type === 'attack') {
       baseChance += attacker.skills.combat;
+    } else if (action.type === 'cast_spell') {
+      baseChance += attacker.skills.magic;
     }
 
     // Target penalties
@@ -886,8 +1300,24 @@ export class CombatSystem {
       finalDamage -= armorReduction;
     }
 
-    // Apply resistances from character traits
-    //TODO: Check character traits for damage resistances
+    // Resistance effects only guard against their own kinds of damage
+    for (const type of RESISTANCE_EFFECTS[damageType] ?? []) {
+      const definition = STATUS_EFFECT_DEFINITIONS[type];
+      if (
+        target.statusEffects.some(effect => effect.name === definition.name)
+      ) {
+        finalDamage -= definition.effects.damageReduction ?? 0;
+      }
+    }
+
+    // Traits can list damage types the character shrugs off by half
+    const resistant = target.traits?.some(trait => {
+      const resistances = trait.effects.resistances;
+      return Array.isArray(resistances) && resistances.includes(damageType);
+    });
+    if (resistant) {
+      finalDamage = Math.floor(finalDamage / 2);
+    }
 
     return Math.max(0, finalDamage);
   }
@@ -897,29 +1327,32 @@ export class CombatSystem {
     result: CombatActionResult,
     action: CombatAction
   ): Promise<CombatSession> {
-    // Apply damage/healing
-    if (action.data.targetId) {
+    // Apply damage/healing; items and spells have already applied their own
+    if (
+      action.data.targetId &&
+      action.type !== 'use_item' &&
+      action.type !== 'cast_spell'
+    ) {
       const targetParticipant = session.participants.find(
         p => p.id === action.data.targetId
       );
       if (targetParticipant) {
-        if (result.damage > 0) {
-          targetParticipant.character.currentHealth = Math.max(
-            0,
-            targetParticipant.character.currentHealth - result.damage
-          );
-        }
-        if (result.healing > 0) {
-          targetParticipant.character.currentHealth = Math.min(
-            targetParticipant.character.maxHealth,
-            targetParticipant.character.currentHealth + result.healing
-          );
-        }
+        const character = deathSystem.heal(
+          this.woundCharacter(targetParticipant, result.damage),
+          result.healing
+        );
 
         // Apply status effects
-        targetParticipant.character.statusEffects.push(
-          ...result.statusEffectsApplied
-        );
+        this.replaceParticipant(session, {
+          ...targetParticipant,
+          character: {
+            ...character,
+            statusEffects: [
+              ...character.statusEffects,
+              ...result.statusEffectsApplied,
+            ],
+          },
+        });
       }
     }
 
@@ -930,12 +1363,24 @@ export class CombatSystem {
       actor.hasActed = true;
     }
 
-    // Advance to next participant if current one is out of actions
-    if (actor && actor.actionPoints <= 0) {
-      const nextParticipantIndex =
-        (session.turnOrder.indexOf(session.currentParticipant) + 1) %
-        session.turnOrder.length;
-      session.currentParticipant = session.turnOrder[nextParticipantIndex];
+    // Advance to next participant if current one is out of actions or has fled
+    if (!actor || actor.actionPoints <= 0) {
+      this.advanceTurn(session);
+    }
+
+    return session;
+  }
+
+  /**
+   * Hand the turn to the next participant still standing, starting a new
+   * round on passing the top of the order. Fled participants leave the order.
+   */
+  private advanceTurn(session: CombatSession): void {
+    const order = [...session.turnOrder];
+    const start = order.indexOf(session.currentParticipant);
+
+    for (let step = 1; step <= order.length; step++) {
+      const nextParticipantIndex = (start + step) % order.length;
 
       // If we've cycled through all participants, start new round
       if (nextParticipantIndex === 0) {
@@ -945,10 +1390,81 @@ export class CombatSystem {
           p.actionPoints = p.maxActionPoints;
           p.hasActed = false;
         });
+        // Spell cooldowns count down once a round
+        session.participants.forEach(p =>
+          this.replaceParticipant(session, {
+            ...p,
+            character: spellSystem.tickCooldowns(p.character),
+          })
+        );
+        // Downed players fight for their lives at the top of each round
+        session.participants.forEach(p => this.rollDeathSave(session, p));
+      }
+
+      // Skip the fallen and the fled
+      const next = session.participants.find(
+        p => p.id === order[nextParticipantIndex]
+      );
+      if (next && next.character.currentHealth > 0) {
+        session.currentParticipant = next.id;
+        break;
       }
     }
 
-    return session;
+    session.turnOrder.splice(
+      0,
+      session.turnOrder.length,
+      ...order.filter(id => session.participants.some(p => p.id === id))
+    );
+  }
+
+  /**
+   * Players at 0 health are downed and make death saves; anyone else is
+   * simply out of the fight
+   */
+  private woundCharacter(
+    participant: CombatParticipant,
+    damage: number
+  ): Character {
+    const { character } = participant;
+    if (damage <= 0) {
+      return character;
+    }
+    if (participant.type === 'player') {
+      return deathSystem.applyDamage(character, damage);
+    }
+    return {
+      ...character,
+      currentHealth: Math.max(0, character.currentHealth - damage),
+    };
+  }
+
+  private rollDeathSave(
+    session: CombatSession,
+    participant: CombatParticipant
+  ): void {
+    if (
+      participant.type !== 'player' ||
+      deathSystem.getStatus(participant.character) !== 'downed'
+    ) {
+      return;
+    }
+
+    const save = deathSystem.rollDeathSave(participant.character, this.random);
+    this.replaceParticipant(session, {
+      ...participant,
+      character: save.character,
+    });
+    session.log.push({
+      timestamp: new Date(),
+      participantId: participant.id,
+      action: 'wait',
+      result: `${participant.character.name} ${DEATH_SAVE_NARRATIVES[save.outcome]} (rolled ${save.roll})`,
+    });
+  }
+
+  private isAlly(a: CombatParticipant, b: CombatParticipant): boolean {
+    return (a.type === 'player') === (b.type === 'player');
   }
 
   private createCombatLogEntry(
@@ -987,11 +1503,12 @@ export class CombatSystem {
   private createCombatEvents(
     session: CombatSession,
     result: CombatActionResult,
-    action: CombatAction
+    action: CombatAction,
+    logEntry: CombatLogEntry
   ): GameEvent[] {
     return [
       {
-        id: uuidv4(),
+        id: this.random.uuid(),
         type: 'combat_action',
         gameId: session.id,
         timestamp: new Date(),
@@ -1001,50 +1518,37 @@ export class CombatSystem {
           outcome: result.outcome,
           damage: result.damage,
           healing: result.healing,
+          // JSON-safe copy so the combat log can render pushed entries
+          logEntry: {
+            timestamp: new Date(logEntry.timestamp).toISOString(),
+            participantId: logEntry.participantId,
+            action: logEntry.action,
+            target: logEntry.target ?? null,
+            result: logEntry.result,
+            damage: logEntry.damage ?? null,
+            effects: logEntry.effects ?? [],
+          },
         },
         isPublic: true,
       },
     ];
   }
 
+  private async publishCombatEvents(events: GameEvent[]): Promise<void> {
+    for (const event of events) {
+      try {
+        await eventSystem.emit(event);
+      } catch (error) {
+        console.error('Failed to publish combat event:', error);
+      }
+    }
+  }
+
   private generateAIAction(
     participant: CombatParticipant,
     session: CombatSession
   ): CombatAction {
-    // Simple AI: attack closest enemy with highest health
-    const enemies = session.participants.filter(
-      p => p.type !== participant.type && p.character.currentHealth > 0
-    );
-
-    if (enemies.length === 0) {
-      // No valid targets, wait
-      return {
-        id: uuidv4(),
-        type: 'wait',
-        playerId: participant.id,
-        gameId: session.id,
-        timestamp: new Date(),
-        data: {},
-      };
-    }
-
-    // Pick target with highest health
-    const target = enemies.reduce((prev, current) =>
-      current.character.currentHealth > prev.character.currentHealth
-        ? current
-        : prev
-    );
-
-    return {
-      id: uuidv4(),
-      type: 'attack',
-      playerId: participant.id,
-      gameId: session.id,
-      timestamp: new Date(),
-      data: {
-        targetId: target.id,
-      },
-    };
+    return combatAI.chooseAction(participant, session, this.random);
   }
 
   private processEnvironmentEffects(
@@ -1054,7 +1558,7 @@ export class CombatSystem {
 
     // Process hazards
     session.environment.hazards.forEach(hazard => {
-      if (Math.random() * 100 < hazard.frequency) {
+      if (this.random.next() * 100 < hazard.frequency) {
         const affectedParticipants = session.participants
           .filter(p =>
             hazard.area.some(
@@ -1078,26 +1582,6 @@ export class CombatSystem {
     return effects;
   }
 
-  private calculateExperienceGained(
-    session: CombatSession,
-    victor: string
-  ): number {
-    if (victor !== 'players') return 0;
-
-    const enemyLevels = session.participants
-      .filter(p => p.type !== 'player')
-      .reduce((sum, p) => sum + p.character.level, 0);
-
-    return enemyLevels * 100; // Base XP per enemy level
-  }
-
-  private generateLootDrops(session: CombatSession, victor: string): Item[] {
-    if (victor !== 'players') return [];
-
-    //TODO: Implement proper loot generation system
-    return [];
-  }
-
   private generateCombatSummary(
     session: CombatSession,
     victor: string,
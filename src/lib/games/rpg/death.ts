@@ -0,0 +1,508 @@
+/**
+ * RPG Death System
+ *
+ * Decides what happens to a character at 0 health. Rather than dying on
+ * the spot they are downed and make a death save at the start of each
+ * combat round: three successes leave them stable, three failures kill
+ * them. An ally can stabilize a downed character in a fight and revive a
+ * downed or stable one afterwards. With `permaDeath` on the dead are laid
+ * in the game's graveyard for good; otherwise they can be raised with a
+ * resurrection item or by carrying them to a temple on a resurrection quest.
+ */
+
+import {
+  Character,
+  DeathState,
+  GraveyardRecord,
+  Location,
+  Quest,
+  WorldData,
+} from '@/types/rpg';
+import { GameError, UUID } from '@/types/core';
+import { kvService } from '@/lib/database/kv-service';
+import { RandomSource } from '@/lib/game-engine/random';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+export const DEATH_CONFIG = {
+  SAVE_DIE: 20,
+  SAVE_DC: 10,
+  SUCCESSES_TO_STABILIZE: 3,
+  FAILURES_TO_DIE: 3,
+  // A natural 1 counts as two failures; a natural 20 gets back up
+  CRITICAL_FAILURE_COUNT: 2,
+  STABILIZE_DC: 10,
+  // Health a downed character gets back from first aid or a natural 20
+  REVIVE_HEALTH: 1,
+  // Share of maximum health the dead come back with from a temple
+  RESURRECTION_HEALTH_SHARE: 0.5,
+  GRAVEYARD_TTL: 30 * 24 * 60 * 60, // 30 days, matching player records
+} as const;
+
+// ============================================================================
+// DEATH TYPES
+// ============================================================================
+
+export type LifeStatus = 'alive' | DeathState['status'];
+
+export type DeathSaveOutcome =
+  | 'success'
+  | 'failure'
+  | 'stabilized'
+  | 'revived'
+  | 'died';
+
+export interface DeathSaveResult {
+  readonly character: Character;
+  readonly roll: number;
+  readonly outcome: DeathSaveOutcome;
+}
+
+export interface StabilizeResult {
+  readonly patient: Character;
+  readonly roll: number;
+  readonly success: boolean;
+}
+
+// ============================================================================
+// DEATH SYSTEM CLASS
+// ============================================================================
+
+export class DeathSystem {
+  private static instance: DeathSystem;
+
+  private constructor() {}
+
+  static getInstance(): DeathSystem {
+    if (!DeathSystem.instance) {
+      DeathSystem.instance = new DeathSystem();
+    }
+    return DeathSystem.instance;
+  }
+
+  /**
+   * Where the character stands between life and death. A character at 0
+   * health without a death state yet counts as freshly downed.
+   */
+  getStatus(character: Character): LifeStatus {
+    if (character.deathState?.status === 'dead') {
+      return 'dead';
+    }
+    if (character.currentHealth > 0) {
+      return 'alive';
+    }
+    return character.deathState?.status ?? 'downed';
+  }
+
+  isDead(character: Character): boolean {
+    return this.getStatus(character) === 'dead';
+  }
+
+  /**
+   * Take damage. Dropping to 0 downs the character, unless what is left
+   * over is as much as their maximum health, which kills them outright.
+   * Any hit while down counts as a failed death save.
+   */
+  applyDamage(
+    character: Character,
+    damage: number,
+    cause = 'wounds'
+  ): Character {
+    if (damage < 0) {
+      throw new GameError('VALIDATION_ERROR', 'Damage cannot be negative', {
+        damage,
+      });
+    }
+
+    const status = this.getStatus(character);
+    if (status === 'dead' || damage === 0) {
+      return character;
+    }
+
+    if (status !== 'alive') {
+      return this.addFailures(
+        { ...character, deathState: this.getDeathState(character, 'downed') },
+        1,
+        cause
+      );
+    }
+
+    const remaining = character.currentHealth - damage;
+    if (remaining > 0) {
+      return { ...character, currentHealth: remaining };
+    }
+    if (-remaining >= character.maxHealth) {
+      return this.kill({ ...character, currentHealth: 0 }, cause);
+    }
+    return {
+      ...character,
+      currentHealth: 0,
+      deathState: { status: 'downed', successes: 0, failures: 0, cause },
+    };
+  }
+
+  /**
+   * Restore health. Healing gets a downed character back up; the dead need
+   * resurrecting instead.
+   */
+  heal(character: Character, amount: number): Character {
+    if (this.isDead(character) || amount <= 0) {
+      return character;
+    }
+
+    const currentHealth = Math.min(
+      character.maxHealth,
+      character.currentHealth + amount
+    );
+    return currentHealth > 0
+      ? { ...character, currentHealth, deathState: undefined }
+      : character;
+  }
+
+  /**
+   * Roll a death save for a downed character
+   */
+  rollDeathSave(character: Character, random: RandomSource): DeathSaveResult {
+    if (this.getStatus(character) !== 'downed') {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${character.name} is not making death saves`,
+        { characterId: character.id }
+      );
+    }
+
+    const roll = random.roll(DEATH_CONFIG.SAVE_DIE);
+    const downed = {
+      ...character,
+      deathState: this.getDeathState(character, 'downed'),
+    };
+
+    if (roll === DEATH_CONFIG.SAVE_DIE) {
+      return {
+        character: this.heal(downed, DEATH_CONFIG.REVIVE_HEALTH),
+        roll,
+        outcome: 'revived',
+      };
+    }
+    if (roll < DEATH_CONFIG.SAVE_DC) {
+      const failures = roll === 1 ? DEATH_CONFIG.CRITICAL_FAILURE_COUNT : 1;
+      const result = this.addFailures(downed, failures);
+      return {
+        character: result,
+        roll,
+        outcome: this.isDead(result) ? 'died' : 'failure',
+      };
+    }
+
+    const successes = downed.deathState.successes + 1;
+    if (successes >= DEATH_CONFIG.SUCCESSES_TO_STABILIZE) {
+      return {
+        character: this.makeStable(downed),
+        roll,
+        outcome: 'stabilized',
+      };
+    }
+    return {
+      character: {
+        ...downed,
+        deathState: { ...downed.deathState, successes },
+      },
+      roll,
+      outcome: 'success',
+    };
+  }
+
+  /**
+   * First aid from an ally: a wisdom check stops a downed character's
+   * death saves
+   */
+  stabilize(
+    healer: Character,
+    patient: Character,
+    random: RandomSource
+  ): StabilizeResult {
+    if (this.getStatus(patient) !== 'downed') {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${patient.name} does not need stabilizing`,
+        { characterId: patient.id }
+      );
+    }
+
+    const roll =
+      random.roll(DEATH_CONFIG.SAVE_DIE) +
+      Math.floor((healer.stats.wisdom - 10) / 2);
+    const success = roll >= DEATH_CONFIG.STABILIZE_DC;
+    return {
+      patient: success ? this.makeStable(patient) : patient,
+      roll,
+      success,
+    };
+  }
+
+  /**
+   * Bring a downed or stable character back to their feet
+   */
+  revive(
+    character: Character,
+    health: number = DEATH_CONFIG.REVIVE_HEALTH
+  ): Character {
+    const status = this.getStatus(character);
+    if (status === 'dead') {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${character.name} is beyond first aid`,
+        { characterId: character.id }
+      );
+    }
+    if (status === 'alive') {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${character.name} is still standing`,
+        { characterId: character.id }
+      );
+    }
+    return this.heal(character, Math.max(1, health));
+  }
+
+  /**
+   * Raise a dead character. Whether that is allowed at all is up to the
+   * game's `permaDeath` setting.
+   */
+  resurrect(character: Character, health: number): Character {
+    if (!this.isDead(character)) {
+      throw new GameError('INVALID_ACTION', `${character.name} is not dead`, {
+        characterId: character.id,
+      });
+    }
+    return {
+      ...character,
+      currentHealth: Math.min(character.maxHealth, Math.max(1, health)),
+      deathState: undefined,
+      statusEffects: [],
+    };
+  }
+
+  /**
+   * Once a fight is over there are no more death saves: the winners tend
+   * to their downed, while the losers' downed are left for dead
+   */
+  settleAfterCombat(character: Character, won: boolean): Character {
+    if (this.getStatus(character) !== 'downed') {
+      return character;
+    }
+    return won ? this.makeStable(character) : this.kill(character);
+  }
+
+  kill(character: Character, cause = 'wounds'): Character {
+    const previous = this.getDeathState(character, 'dead');
+    return {
+      ...character,
+      currentHealth: 0,
+      deathState: {
+        status: 'dead',
+        successes: previous.successes,
+        failures: previous.failures,
+        cause: previous.cause ?? cause,
+        diedAt: new Date(),
+      },
+    };
+  }
+
+  // ============================================================================
+  // RESURRECTION QUESTS
+  // ============================================================================
+
+  /**
+   * A quest to carry the fallen to the nearest temple, or back to where
+   * they fell if the world has none
+   */
+  createResurrectionQuest(
+    character: Character,
+    world: WorldData,
+    fallenAt: UUID,
+    random: RandomSource
+  ): Quest {
+    const temple = this.findTemple(world, fallenAt);
+    const place = temple?.name ?? 'a place of healing';
+
+    return {
+      id: random.uuid(),
+      title: `Raise ${character.name}`,
+      description: `${character.name} has fallen. Carry them to ${place} to bring them back, or find a way to raise them on the road.`,
+      type: 'personal',
+      status: 'active',
+      objectives: [
+        {
+          id: random.uuid(),
+          description: `Bring ${character.name} to ${place}`,
+          type: 'deliver',
+          target: character.id,
+          requiredCount: 1,
+          currentCount: 0,
+          isCompleted: false,
+          isOptional: false,
+        },
+      ],
+      rewards: [],
+      giver: temple?.npcs[0] ?? character.id,
+      location: temple?.id ?? fallenAt,
+    };
+  }
+
+  /**
+   * The active quest in a log to raise the given character, if there is one
+   */
+  findResurrectionQuest(
+    questLog: Quest[],
+    characterId: UUID
+  ): Quest | undefined {
+    return questLog.find(
+      quest =>
+        quest.status === 'active' &&
+        quest.objectives.some(
+          objective =>
+            objective.type === 'deliver' && objective.target === characterId
+        )
+    );
+  }
+
+  completeResurrectionQuest(questLog: Quest[], characterId: UUID): Quest[] {
+    const quest = this.findResurrectionQuest(questLog, characterId);
+    if (!quest) {
+      return questLog;
+    }
+    return questLog.map(entry =>
+      entry.id === quest.id
+        ? {
+            ...entry,
+            status: 'completed',
+            objectives: entry.objectives.map(objective => ({
+              ...objective,
+              currentCount: objective.requiredCount,
+              isCompleted: true,
+            })),
+          }
+        : entry
+    );
+  }
+
+  // ============================================================================
+  // GRAVEYARD
+  // ============================================================================
+
+  /**
+   * Lay a dead character to rest in the game's graveyard
+   */
+  async buryCharacter(
+    gameId: UUID,
+    playerId: UUID,
+    character: Character,
+    location: UUID
+  ): Promise<GraveyardRecord> {
+    const record: GraveyardRecord = {
+      character,
+      playerId,
+      cause: character.deathState?.cause ?? 'wounds',
+      location,
+      diedAt: character.deathState?.diedAt ?? new Date(),
+    };
+
+    const graveyard = await this.getGraveyard(gameId);
+    const result = await kvService.set(
+      this.graveyardKey(gameId),
+      [
+        ...graveyard.filter(entry => entry.character.id !== character.id),
+        record,
+      ],
+      DEATH_CONFIG.GRAVEYARD_TTL
+    );
+    if (!result.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to save graveyard', {
+        gameId,
+        characterId: character.id,
+      });
+    }
+    return record;
+  }
+
+  async getGraveyard(gameId: UUID): Promise<GraveyardRecord[]> {
+    const result = await kvService.get<GraveyardRecord[]>(
+      this.graveyardKey(gameId)
+    );
+    if (!result.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to load graveyard', {
+        gameId,
+      });
+    }
+    return result.data ?? [];
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private graveyardKey(gameId: UUID): string {
+    return `rpg_graveyard:${gameId}`;
+  }
+
+  private getDeathState(
+    character: Character,
+    status: DeathState['status']
+  ): DeathState {
+    return character.deathState ?? { status, successes: 0, failures: 0 };
+  }
+
+  private addFailures(
+    character: Character,
+    count: number,
+    cause?: string
+  ): Character {
+    const deathState = this.getDeathState(character, 'downed');
+    const failures = deathState.failures + count;
+    const updated = {
+      ...character,
+      deathState: {
+        ...deathState,
+        status: 'downed' as const,
+        failures,
+        cause: cause ?? deathState.cause,
+      },
+    };
+    return failures >= DEATH_CONFIG.FAILURES_TO_DIE
+      ? this.kill(updated)
+      : updated;
+  }
+
+  private makeStable(character: Character): Character {
+    return {
+      ...character,
+      currentHealth: 0,
+      deathState: {
+        ...this.getDeathState(character, 'stable'),
+        status: 'stable',
+      },
+    };
+  }
+
+  private findTemple(world: WorldData, near: UUID): Location | undefined {
+    const temples = world.locations.filter(loc => loc.type === 'temple');
+    const here = world.locations.find(loc => loc.id === near);
+    if (!here) {
+      return temples[0];
+    }
+    return (
+      temples.find(temple => temple.id === here.id) ??
+      temples.find(temple => here.connections.includes(temple.id)) ??
+      temples[0]
+    );
+  }
+}
+
+// ============================================================================
+// SINGLETON EXPORT
+// ============================================================================
+
+export const deathSystem = DeathSystem.getInstance();
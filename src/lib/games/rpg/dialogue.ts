@@ -0,0 +1,719 @@
+/**
+ * RPG Dialogue Engine
+ *
+ * Runs conversations through an NPC's authored dialogue. NPC lines and
+ * player options are both DialogueOptions and alternate: an NPC line's
+ * responses are what the player may say, and a player option's responses
+ * are the NPC's possible answers, of which the first whose conditions pass
+ * is spoken. A conversation opens on a topic tree's root, on one of its
+ * named branches, or on the NPC's greetings.
+ *
+ * Options are offered only when their conditions hold for the speaking
+ * character, and choosing one applies its effects. Where the tree has
+ * nothing to say - free-form questions, or an option without an answer -
+ * the NPC answers through the NPC_DIALOGUE template. Each player's place in
+ * each conversation is kept on their record, so NPCs pick up where they
+ * left off.
+ */
+
+import { geminiService, createSimplePrompt } from '@/lib/ai/gemini';
+import { promptEngine, PROMPTS } from '@/lib/ai/prompts';
+import {
+  CharacterSkills,
+  CharacterStats,
+  ConversationLine,
+  ConversationState,
+  DialogueCondition,
+  DialogueEffect,
+  DialogueOption,
+  Inventory,
+  Item,
+  NPC,
+  Quest,
+  QuestStatus,
+  RPGGameState,
+  RPGPlayer,
+} from '@/types/rpg';
+import { GameError } from '@/types/core';
+import { inventoryManager } from './inventory';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const DIALOGUE_CONSTANTS = {
+  MAX_HISTORY: 20,
+  MIN_STAT: 1,
+  MAX_STAT: 100,
+  MIN_SKILL: 0,
+  MAX_SKILL: 100,
+  MIN_REPUTATION: -100,
+  MAX_REPUTATION: 100,
+} as const;
+
+const QUEST_TRANSITIONS: Record<string, QuestStatus> = {
+  start: 'active',
+  true: 'active',
+  complete: 'completed',
+  fail: 'failed',
+  false: 'failed',
+};
+
+// ============================================================================
+// DIALOGUE TYPES
+// ============================================================================
+
+export interface DialogueInput {
+  readonly topic?: string;
+  readonly branch?: string;
+  readonly choice?: number; // Index into the current line's responses
+  readonly message?: string; // Free-form line from the player
+}
+
+export interface DialogueChoice {
+  readonly index: number;
+  readonly text: string;
+}
+
+export interface DialogueTurn {
+  readonly npcLine: ConversationLine;
+  readonly options: DialogueChoice[];
+  readonly conversation: ConversationState;
+  readonly appliedEffects: DialogueEffect[];
+  readonly player: RPGPlayer;
+  readonly state: RPGGameState;
+}
+
+/**
+ * What conditions are checked against and effects are applied to
+ */
+interface DialogueContext {
+  readonly npc: NPC;
+  readonly player: RPGPlayer;
+  readonly state: RPGGameState;
+}
+
+// ============================================================================
+// DIALOGUE ENGINE CLASS
+// ============================================================================
+
+export class DialogueEngine {
+  private static instance: DialogueEngine;
+
+  private constructor() {}
+
+  static getInstance(): DialogueEngine {
+    if (!DialogueEngine.instance) {
+      DialogueEngine.instance = new DialogueEngine();
+    }
+    return DialogueEngine.instance;
+  }
+
+  /**
+   * Take one turn of a conversation. With no input the NPC repeats where
+   * the conversation was left; a topic or branch starts over there.
+   */
+  async respond(
+    npc: NPC,
+    player: RPGPlayer,
+    state: RPGGameState,
+    input: DialogueInput = {}
+  ): Promise<DialogueTurn> {
+    const saved = player.gameSpecificData.conversations?.[npc.id];
+    const restart =
+      !saved ||
+      saved.ended ||
+      input.topic !== undefined ||
+      input.branch !== undefined;
+
+    let context: DialogueContext = { npc, player, state };
+    let conversation = restart ? this.openConversation(context, input) : saved;
+    const spoken: ConversationLine[] = [];
+    let appliedEffects: DialogueEffect[] = [];
+
+    if (input.message) {
+      // Free-form lines leave the authored conversation where it is
+      spoken.push({ speaker: 'player', text: input.message });
+      spoken.push(
+        await this.generateLine(context, conversation, input.message)
+      );
+    } else if (input.choice !== undefined && !restart) {
+      const line = this.resolveLine(context, conversation);
+      const option = line?.responses?.[input.choice];
+      if (!option || !this.isAvailable(context, option)) {
+        throw new GameError(
+          'INVALID_ACTION',
+          'That is not something you can say right now',
+          { npcId: npc.id, choice: input.choice }
+        );
+      }
+
+      appliedEffects = option.effects ?? [];
+      context = this.applyEffects(context, appliedEffects);
+      spoken.push({ speaker: 'player', text: option.text });
+
+      const answer = this.firstAvailable(context, option.responses ?? []);
+      if (answer) {
+        spoken.push({ speaker: 'npc', text: answer.option.text });
+        conversation = {
+          ...conversation,
+          path: [...conversation.path, input.choice, answer.index],
+          ended: !this.hasOptions(context, answer.option),
+        };
+      } else {
+        spoken.push(
+          await this.generateLine(context, conversation, option.text)
+        );
+        conversation = { ...conversation, ended: true };
+      }
+    } else {
+      const line = this.resolveLine(context, conversation);
+      spoken.push(
+        line
+          ? { speaker: 'npc', text: line.text }
+          : await this.generateLine(context, conversation)
+      );
+    }
+
+    conversation = {
+      ...conversation,
+      history: [...conversation.history, ...spoken].slice(
+        -DIALOGUE_CONSTANTS.MAX_HISTORY
+      ),
+      updatedAt: Date.now(),
+    };
+    const updatedPlayer = this.withConversation(context.player, conversation);
+    const line = conversation.ended
+      ? undefined
+      : this.resolveLine(context, conversation);
+
+    return {
+      npcLine: spoken[spoken.length - 1]!,
+      options: line ? this.availableOptions(context, line) : [],
+      conversation,
+      appliedEffects,
+      player: updatedPlayer,
+      state: context.state,
+    };
+  }
+
+  // ============================================================================
+  // CONVERSATION NAVIGATION
+  // ============================================================================
+
+  private openConversation(
+    context: DialogueContext,
+    input: DialogueInput
+  ): ConversationState {
+    const { npc, player } = context;
+    const saved = player.gameSpecificData.conversations?.[npc.id];
+    // A branch on its own continues within the topic already under way
+    const topic =
+      input.topic ?? (input.branch !== undefined ? saved?.topic : undefined);
+
+    if (topic !== undefined && !npc.dialogue.conversations[topic]) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${npc.name} has nothing to say about that`,
+        {
+          npcId: npc.id,
+          topic,
+        }
+      );
+    }
+
+    const base: ConversationState = {
+      npcId: npc.id,
+      topic,
+      branch: input.branch,
+      path: [],
+      ended: false,
+      history: saved?.history ?? [],
+      updatedAt: Date.now(),
+    };
+    const opening = this.firstAvailable(
+      context,
+      this.openingLines(context, base)
+    );
+
+    return opening
+      ? {
+          ...base,
+          path: [opening.index],
+          ended: !this.hasOptions(context, opening.option),
+        }
+      : { ...base, ended: true };
+  }
+
+  private openingLines(
+    context: DialogueContext,
+    conversation: ConversationState
+  ): DialogueOption[] {
+    const { dialogue } = context.npc;
+    if (conversation.topic === undefined) {
+      return dialogue.greetings;
+    }
+
+    const tree = dialogue.conversations[conversation.topic];
+    if (!tree) {
+      return [];
+    }
+    if (conversation.branch !== undefined) {
+      return tree.branches[conversation.branch] ?? [];
+    }
+    return [tree.root];
+  }
+
+  /**
+   * Follow the saved path to the NPC line the conversation stopped on
+   */
+  private resolveLine(
+    context: DialogueContext,
+    conversation: ConversationState
+  ): DialogueOption | undefined {
+    const [openingIndex, ...steps] = conversation.path;
+    if (openingIndex === undefined) {
+      return undefined;
+    }
+
+    let line = this.openingLines(context, conversation)[openingIndex];
+    for (let i = 0; line && i < steps.length; i += 2) {
+      const option = line.responses?.[steps[i]!];
+      line = option?.responses?.[steps[i + 1] ?? -1];
+    }
+    return line;
+  }
+
+  private firstAvailable(
+    context: DialogueContext,
+    lines: DialogueOption[]
+  ): { option: DialogueOption; index: number } | undefined {
+    const index = lines.findIndex(line => this.isAvailable(context, line));
+    return index === -1 ? undefined : { option: lines[index]!, index };
+  }
+
+  private availableOptions(
+    context: DialogueContext,
+    line: DialogueOption
+  ): DialogueChoice[] {
+    return (line.responses ?? []).flatMap((option, index) =>
+      this.isAvailable(context, option) ? [{ index, text: option.text }] : []
+    );
+  }
+
+  private hasOptions(context: DialogueContext, line: DialogueOption): boolean {
+    return this.availableOptions(context, line).length > 0;
+  }
+
+  private isAvailable(
+    context: DialogueContext,
+    option: DialogueOption
+  ): boolean {
+    return this.evaluateConditions(context, option.conditions);
+  }
+
+  private withConversation(
+    player: RPGPlayer,
+    conversation: ConversationState
+  ): RPGPlayer {
+    return {
+      ...player,
+      gameSpecificData: {
+        ...player.gameSpecificData,
+        conversations: {
+          ...player.gameSpecificData.conversations,
+          [conversation.npcId]: conversation,
+        },
+      },
+    };
+  }
+
+  // ============================================================================
+  // CONDITIONS
+  // ============================================================================
+
+  /**
+   * Check whether every condition on an option holds
+   */
+  private evaluateConditions(
+    context: DialogueContext,
+    conditions: DialogueCondition[] = []
+  ): boolean {
+    return conditions.every(condition =>
+      compare(this.conditionValue(context, condition), condition)
+    );
+  }
+
+  private conditionValue(
+    context: DialogueContext,
+    condition: DialogueCondition
+  ): number | string | boolean | undefined {
+    const { player, state } = context;
+    const { character, inventory, questLog } = player.gameSpecificData;
+
+    switch (condition.type) {
+      case 'stat':
+        return character.stats[condition.target as keyof CharacterStats];
+      case 'skill':
+        return character.skills[condition.target as keyof CharacterSkills];
+      case 'item': {
+        // Compared as a quantity, or as whether the item is carried at all
+        const count = [inventory, state.data.partyInventory]
+          .flatMap(carried => carried.items)
+          .filter(entry => matchesItem(entry.item, condition.target))
+          .reduce((total, entry) => total + entry.quantity, 0);
+        return typeof condition.value === 'boolean' ? count > 0 : count;
+      }
+      case 'quest': {
+        const quest = questLog.find(entry => entry.id === condition.target);
+        return typeof condition.value === 'boolean' ? !!quest : quest?.status;
+      }
+      case 'reputation':
+        return this.reputation(context, condition.target);
+      case 'flag':
+        return state.data.globalFlags[condition.target] ?? false;
+    }
+  }
+
+  /**
+   * Reputation with a faction, or the player's relationship with an NPC
+   */
+  private reputation(context: DialogueContext, target: string): number {
+    const { player, state } = context;
+    return (
+      state.data.partyReputation[target] ??
+      player.gameSpecificData.relationships[target] ??
+      0
+    );
+  }
+
+  // ============================================================================
+  // EFFECTS
+  // ============================================================================
+
+  private applyEffects(
+    context: DialogueContext,
+    effects: DialogueEffect[]
+  ): DialogueContext {
+    return effects.reduce(
+      (current, effect) => this.applyEffect(current, effect),
+      context
+    );
+  }
+
+  private applyEffect(
+    context: DialogueContext,
+    effect: DialogueEffect
+  ): DialogueContext {
+    const { player, state } = context;
+    const data = player.gameSpecificData;
+    const amount = typeof effect.change === 'number' ? effect.change : 0;
+
+    switch (effect.type) {
+      case 'stat': {
+        const stat = effect.target as keyof CharacterStats;
+        return this.withPlayerData(context, {
+          character: {
+            ...data.character,
+            stats: {
+              ...data.character.stats,
+              [stat]: clamp(
+                data.character.stats[stat] + amount,
+                DIALOGUE_CONSTANTS.MIN_STAT,
+                DIALOGUE_CONSTANTS.MAX_STAT
+              ),
+            },
+          },
+        });
+      }
+
+      case 'skill': {
+        const skill = effect.target as keyof CharacterSkills;
+        return this.withPlayerData(context, {
+          character: {
+            ...data.character,
+            skills: {
+              ...data.character.skills,
+              [skill]: clamp(
+                data.character.skills[skill] + amount,
+                DIALOGUE_CONSTANTS.MIN_SKILL,
+                DIALOGUE_CONSTANTS.MAX_SKILL
+              ),
+            },
+          },
+        });
+      }
+
+      case 'item':
+        return this.withPlayerData(context, {
+          inventory: this.changeItem(context, effect.target, amount),
+        });
+
+      case 'quest':
+        return this.withPlayerData(context, {
+          questLog: this.changeQuest(context, effect),
+        });
+
+      case 'reputation':
+        if (effect.target in state.data.partyReputation) {
+          return {
+            ...context,
+            state: {
+              ...state,
+              data: {
+                ...state.data,
+                partyReputation: {
+                  ...state.data.partyReputation,
+                  [effect.target]: clampReputation(
+                    this.reputation(context, effect.target) + amount
+                  ),
+                },
+              },
+            },
+          };
+        }
+        return this.withPlayerData(context, {
+          relationships: {
+            ...data.relationships,
+            [effect.target]: clampReputation(
+              this.reputation(context, effect.target) + amount
+            ),
+          },
+        });
+
+      case 'flag':
+        return {
+          ...context,
+          state: {
+            ...state,
+            data: {
+              ...state.data,
+              globalFlags: {
+                ...state.data.globalFlags,
+                [effect.target]:
+                  typeof effect.change === 'boolean'
+                    ? effect.change
+                    : effect.change !== 0 && effect.change !== 'false',
+              },
+            },
+          },
+        };
+    }
+  }
+
+  private withPlayerData(
+    context: DialogueContext,
+    changes: Partial<RPGPlayer['gameSpecificData']>
+  ): DialogueContext {
+    return {
+      ...context,
+      player: {
+        ...context.player,
+        gameSpecificData: { ...context.player.gameSpecificData, ...changes },
+      },
+    };
+  }
+
+  /**
+   * Give or take an item by id or name. Items are given from the NPC's shop
+   * stock or what lies at their location.
+   */
+  private changeItem(
+    context: DialogueContext,
+    target: string,
+    amount: number
+  ): Inventory {
+    const { npc, player, state } = context;
+    const { inventory } = player.gameSpecificData;
+
+    try {
+      if (amount < 0) {
+        const carried = inventory.items.find(entry =>
+          matchesItem(entry.item, target)
+        );
+        return carried
+          ? inventoryManager.removeItem(
+              inventory,
+              carried.item.id,
+              Math.min(-amount, carried.quantity)
+            )
+          : inventory;
+      }
+
+      const location = state.data.world.locations.find(
+        loc => loc.id === npc.currentLocation
+      );
+      const item = [
+        ...(npc.shop?.inventory.map(entry => entry.item) ?? []),
+        ...(location?.items ?? []),
+      ].find(candidate => matchesItem(candidate, target));
+
+      if (!item || amount === 0) {
+        console.warn(`Dialogue item "${target}" is not available to give`);
+        return inventory;
+      }
+      return inventoryManager.addItem(inventory, item, amount);
+    } catch (error) {
+      console.warn(`Dialogue item "${target}" could not be changed:`, error);
+      return inventory;
+    }
+  }
+
+  /**
+   * Start, complete or fail a quest. A quest this NPC gives that the player
+   * does not have yet is added to their log.
+   */
+  private changeQuest(
+    context: DialogueContext,
+    effect: DialogueEffect
+  ): Quest[] {
+    const { npc, player } = context;
+    const { questLog } = player.gameSpecificData;
+    const status = QUEST_TRANSITIONS[String(effect.change)] ?? 'active';
+
+    if (questLog.some(quest => quest.id === effect.target)) {
+      return questLog.map(quest =>
+        quest.id === effect.target ? { ...quest, status } : quest
+      );
+    }
+    if (status !== 'active') {
+      return questLog;
+    }
+
+    return [
+      ...questLog,
+      {
+        id: effect.target,
+        title: `A task for ${npc.name}`,
+        description: `${npc.name} has asked for your help.`,
+        type: npc.quests.includes(effect.target) ? 'side' : 'personal',
+        status,
+        objectives: [],
+        rewards: [],
+        giver: npc.id,
+        location: npc.currentLocation,
+      },
+    ];
+  }
+
+  // ============================================================================
+  // GENERATED LINES
+  // ============================================================================
+
+  /**
+   * Have the NPC answer in their own words through the NPC_DIALOGUE template
+   */
+  private async generateLine(
+    context: DialogueContext,
+    conversation: ConversationState,
+    playerLine?: string
+  ): Promise<ConversationLine> {
+    const { npc, player, state } = context;
+    const location = state.data.world.locations.find(
+      loc => loc.id === npc.currentLocation
+    );
+    const relationship = this.reputation(context, npc.id);
+
+    try {
+      const { content } = await promptEngine.generatePrompt(
+        PROMPTS.NPC_DIALOGUE.id,
+        {
+          gameType: 'rpg',
+          variables: {
+            npcProfile: {
+              name: npc.name,
+              description: npc.description,
+              personality: npc.personality,
+            },
+            context: [
+              location ? `At ${location.name}.` : '',
+              ...conversation.history
+                .slice(-6)
+                .map(
+                  line =>
+                    `${line.speaker === 'npc' ? npc.name : player.name}: ${line.text}`
+                ),
+            ]
+              .filter(Boolean)
+              .join('\n'),
+            playerApproach: playerLine ?? `${player.name} approaches.`,
+            relationshipLevel: describeRelationship(relationship),
+            informationLevel:
+              relationship >= 50
+                ? 'shares freely'
+                : relationship >= 0
+                  ? 'shares common knowledge'
+                  : 'guarded',
+          },
+        }
+      );
+      const text = await geminiService.generateContent(
+        content,
+        createSimplePrompt(content, 'rpg'),
+        { category: PROMPTS.NPC_DIALOGUE.category }
+      );
+      return { speaker: 'npc', text: text.trim(), generated: true };
+    } catch (error) {
+      console.warn(`Dialogue generation for ${npc.name} failed:`, error);
+      return {
+        speaker: 'npc',
+        text: npc.dialogue.farewells[0] ?? `[${npc.name} says nothing.]`,
+      };
+    }
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function compare(
+  actual: number | string | boolean | undefined,
+  condition: DialogueCondition
+): boolean {
+  const { operator, value } = condition;
+  if (operator === '=') return actual === value;
+  if (operator === '!=') return actual !== value;
+  if (typeof actual !== 'number' || typeof value !== 'number') return false;
+
+  switch (operator) {
+    case '>':
+      return actual > value;
+    case '>=':
+      return actual >= value;
+    case '<':
+      return actual < value;
+    case '<=':
+      return actual <= value;
+  }
+}
+
+function matchesItem(item: Item, target: string): boolean {
+  return item.id === target || item.name.toLowerCase() === target.toLowerCase();
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function clampReputation(value: number): number {
+  return clamp(
+    value,
+    DIALOGUE_CONSTANTS.MIN_REPUTATION,
+    DIALOGUE_CONSTANTS.MAX_REPUTATION
+  );
+}
+
+function describeRelationship(value: number): string {
+  if (value >= 50) return 'trusted friend';
+  if (value >= 15) return 'friendly';
+  if (value > -15) return 'stranger';
+  if (value > -50) return 'distrustful';
+  return 'hostile';
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const dialogueEngine = DialogueEngine.getInstance();
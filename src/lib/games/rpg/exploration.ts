@@ -0,0 +1,441 @@
+/**
+ * RPG Exploration System
+ *
+ * Resolves the `explore` action: the explorer's character rolls a skill check
+ * against every hidden element, secret and environmental clue at their
+ * location that they have not found yet. Successes are recorded in the
+ * player's discoveries, hidden rewards are granted, and found secrets are
+ * marked on the shared world map so the whole party can see them.
+ */
+
+import {
+  Character,
+  CharacterSkills,
+  Item,
+  ItemRarity,
+  ItemType,
+  Location,
+  RPGPlayer,
+  Secret,
+} from '@/types/rpg';
+import { GameError, UUID } from '@/types/core';
+import { RandomSource } from '@/lib/game-engine/random';
+import { characterManager } from './character';
+import { inventoryManager } from './inventory';
+import {
+  DiscoveryCriteria,
+  EnvironmentalClue,
+  EnvironmentalStory,
+  HiddenElement,
+  HiddenReward,
+} from './location-generator';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const EXPLORATION_CONSTANTS = {
+  DICE_SIDES: 20,
+  // Secrets without a hidden element carry no difficulty of their own
+  DEFAULT_SECRET_DIFFICULTY: 15,
+  // Finding a clue that points at a secret makes that secret easier to find
+  CLUE_BONUS: 5,
+} as const;
+
+const SKILLS: (keyof CharacterSkills)[] = [
+  'combat',
+  'magic',
+  'stealth',
+  'diplomacy',
+  'survival',
+  'investigation',
+  'crafting',
+  'lore',
+];
+
+const METHOD_SKILLS: Record<
+  DiscoveryCriteria['method'],
+  keyof CharacterSkills
+> = {
+  observation: 'survival',
+  investigation: 'investigation',
+  skill_check: 'investigation',
+  item_use: 'crafting',
+  spell_cast: 'magic',
+  environmental_trigger: 'survival',
+};
+
+const SIGNIFICANCE_RARITY: Record<HiddenReward['significance'], ItemRarity> = {
+  minor: 'common',
+  moderate: 'uncommon',
+  major: 'rare',
+  legendary: 'legendary',
+};
+
+// ============================================================================
+// EXPLORATION TYPES
+// ============================================================================
+
+export interface SkillCheckResult {
+  readonly skill: keyof CharacterSkills;
+  readonly roll: number;
+  readonly modifier: number;
+  readonly total: number;
+  readonly difficulty: number;
+  readonly success: boolean;
+}
+
+export type DiscoveryKind = 'secret' | 'clue' | 'location';
+
+export interface Discovery {
+  readonly id: UUID;
+  readonly kind: DiscoveryKind;
+  readonly name: string;
+  readonly description: string;
+  readonly check?: SkillCheckResult;
+  readonly reward?: HiddenReward;
+  readonly rewardItem?: Item;
+}
+
+export interface ExplorationResult {
+  readonly player: RPGPlayer;
+  readonly location: Location;
+  readonly discoveries: Discovery[];
+  readonly checks: SkillCheckResult[];
+}
+
+/**
+ * Something at a location that can be found with a skill check
+ */
+interface SearchTarget {
+  readonly id: UUID;
+  readonly kind: 'secret' | 'clue';
+  readonly name: string;
+  readonly description: string;
+  readonly skill: keyof CharacterSkills;
+  readonly difficulty: number;
+  readonly requiredItems: string[];
+  readonly hiddenElement?: HiddenElement;
+  readonly secret?: Secret;
+  readonly clue?: EnvironmentalClue;
+}
+
+// ============================================================================
+// EXPLORATION SYSTEM CLASS
+// ============================================================================
+
+export class ExplorationSystem {
+  private static instance: ExplorationSystem;
+
+  private constructor() {}
+
+  static getInstance(): ExplorationSystem {
+    if (!ExplorationSystem.instance) {
+      ExplorationSystem.instance = new ExplorationSystem();
+    }
+    return ExplorationSystem.instance;
+  }
+
+  /**
+   * Search a location for everything the player has not found yet. Clues
+   * are searched first so that a found clue can help with its secret.
+   */
+  exploreLocation(
+    location: Location,
+    player: RPGPlayer,
+    random: RandomSource
+  ): ExplorationResult {
+    const { character } = player.gameSpecificData;
+    if (!character) {
+      throw new GameError(
+        'INVALID_ACTION',
+        'Create a character before exploring',
+        { playerId: player.id }
+      );
+    }
+
+    const known = new Set(player.gameSpecificData.discoveries);
+    const bonuses = new Map<UUID, number>();
+    const discoveries: Discovery[] = [];
+    const checks: SkillCheckResult[] = [];
+
+    for (const target of this.getSearchTargets(location, known)) {
+      if (!this.hasRequiredItems(player, target.requiredItems)) {
+        continue;
+      }
+
+      const check = this.rollSkillCheck(
+        character,
+        target.skill,
+        target.difficulty,
+        random,
+        bonuses.get(target.id) ?? 0
+      );
+      checks.push(check);
+      if (!check.success) {
+        continue;
+      }
+
+      discoveries.push({
+        id: target.id,
+        kind: target.kind,
+        name: target.name,
+        description: target.description,
+        check,
+        reward: target.hiddenElement?.reward,
+      });
+      known.add(target.id);
+
+      if (target.clue?.revealsSecret) {
+        bonuses.set(
+          target.clue.revealsSecret,
+          EXPLORATION_CONSTANTS.CLUE_BONUS
+        );
+      }
+      if (
+        target.clue?.connectsToLocation &&
+        !known.has(target.clue.connectsToLocation)
+      ) {
+        discoveries.push(
+          this.locationDiscovery(target.clue.connectsToLocation, target.name)
+        );
+        known.add(target.clue.connectsToLocation);
+      }
+    }
+
+    return this.applyDiscoveries(location, player, discoveries, checks, random);
+  }
+
+  /**
+   * Roll a d20 plus the character's skill modifier against a difficulty.
+   * A natural 20 always succeeds and a natural 1 always fails.
+   */
+  rollSkillCheck(
+    character: Character,
+    skill: keyof CharacterSkills,
+    difficulty: number,
+    random: RandomSource,
+    bonus: number = 0
+  ): SkillCheckResult {
+    const roll = random.roll(EXPLORATION_CONSTANTS.DICE_SIDES);
+    const modifier =
+      characterManager.calculateStats(character).derivedStats.skillModifiers[
+        skill
+      ] + bonus;
+    const total = roll + modifier;
+
+    return {
+      skill,
+      roll,
+      modifier,
+      total,
+      difficulty,
+      success:
+        roll === EXPLORATION_CONSTANTS.DICE_SIDES ||
+        (roll !== 1 && total >= difficulty),
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private getSearchTargets(
+    location: Location,
+    known: ReadonlySet<UUID>
+  ): SearchTarget[] {
+    const story = (
+      location as Location & { environmentalStory?: EnvironmentalStory }
+    ).environmentalStory;
+    const hiddenElements = new Map(
+      (story?.hiddenElements ?? []).map(element => [element.id, element])
+    );
+
+    const clues: SearchTarget[] = (story?.clues ?? [])
+      .filter(clue => !known.has(clue.id))
+      .map(clue => ({
+        id: clue.id,
+        kind: 'clue',
+        name: `${clue.type} clue`,
+        description: clue.description,
+        skill: clue.skillRequired ?? 'investigation',
+        difficulty: clue.difficultyClass,
+        requiredItems: [],
+        clue,
+      }));
+
+    // Every secret is generated from a hidden element with the same id;
+    // secrets added some other way fall back to a default difficulty
+    const secrets: SearchTarget[] = location.secrets
+      .filter(secret => !secret.isDiscovered && !known.has(secret.id))
+      .map(secret => {
+        const element = hiddenElements.get(secret.id);
+        const criteria = element?.discoveryCriteria;
+        return {
+          id: secret.id,
+          kind: 'secret',
+          name: secret.name,
+          description: secret.revealText || secret.description,
+          skill: this.skillFor(criteria?.method, secret.requirements),
+          difficulty:
+            criteria?.difficulty ??
+            EXPLORATION_CONSTANTS.DEFAULT_SECRET_DIFFICULTY,
+          requiredItems:
+            criteria?.method === 'item_use' ? criteria.requirements : [],
+          hiddenElement: element,
+          secret,
+        };
+      });
+
+    return [...clues, ...secrets];
+  }
+
+  /**
+   * Skill used for a discovery method. Generic skill checks use the first
+   * skill named in the requirements.
+   */
+  private skillFor(
+    method: DiscoveryCriteria['method'] | undefined,
+    requirements: string[]
+  ): keyof CharacterSkills {
+    if (method && method !== 'skill_check') {
+      return METHOD_SKILLS[method];
+    }
+    const text = requirements.join(' ').toLowerCase();
+    return SKILLS.find(skill => text.includes(skill)) ?? 'investigation';
+  }
+
+  private hasRequiredItems(
+    player: RPGPlayer,
+    requiredItems: string[]
+  ): boolean {
+    const carried = player.gameSpecificData.inventory.items.map(entry =>
+      entry.item.name.toLowerCase()
+    );
+    return requiredItems.every(required =>
+      carried.some(name => name.includes(required.toLowerCase()))
+    );
+  }
+
+  private locationDiscovery(locationId: UUID, clueName: string): Discovery {
+    return {
+      id: locationId,
+      kind: 'location',
+      name: 'A path to somewhere new',
+      description: `The ${clueName} points the way to another place.`,
+    };
+  }
+
+  /**
+   * Record discoveries on the player, grant rewards and mark found secrets
+   * on the location
+   */
+  private applyDiscoveries(
+    location: Location,
+    player: RPGPlayer,
+    discoveries: Discovery[],
+    checks: SkillCheckResult[],
+    random: RandomSource
+  ): ExplorationResult {
+    let { inventory } = player.gameSpecificData;
+    const recorded: Discovery[] = [];
+    const extra: Discovery[] = [];
+
+    for (const discovery of discoveries) {
+      const { reward } = discovery;
+
+      if (reward?.type === 'item') {
+        const item = this.toRewardItem(reward, discovery, random.uuid());
+        try {
+          inventory = inventoryManager.addItem(inventory, item);
+          recorded.push({ ...discovery, rewardItem: item });
+        } catch (error) {
+          console.warn(`Hidden reward "${item.name}" was left behind:`, error);
+          recorded.push(discovery);
+        }
+        continue;
+      }
+
+      // A connection reveals the location it leads to
+      if (
+        reward?.type === 'connection' &&
+        typeof reward.value === 'string' &&
+        !player.gameSpecificData.discoveries.includes(reward.value)
+      ) {
+        extra.push(this.locationDiscovery(reward.value, discovery.name));
+      }
+      recorded.push(discovery);
+    }
+
+    const all = [...recorded, ...extra];
+    const foundSecrets = new Set(
+      all
+        .filter(discovery => discovery.kind === 'secret')
+        .map(discovery => discovery.id)
+    );
+
+    return {
+      player: {
+        ...player,
+        gameSpecificData: {
+          ...player.gameSpecificData,
+          inventory,
+          discoveries: Array.from(
+            new Set([
+              ...player.gameSpecificData.discoveries,
+              ...all.map(discovery => discovery.id),
+            ])
+          ),
+        },
+      },
+      location: {
+        ...location,
+        secrets: location.secrets.map(secret =>
+          foundSecrets.has(secret.id)
+            ? { ...secret, isDiscovered: true }
+            : secret
+        ),
+      },
+      discoveries: all,
+      checks,
+    };
+  }
+
+  /**
+   * Hidden item rewards are either a full item description or just a name
+   */
+  private toRewardItem(
+    reward: HiddenReward,
+    discovery: Discovery,
+    id: UUID
+  ): Item {
+    const value =
+      reward.value && typeof reward.value === 'object' ? reward.value : {};
+    const type: ItemType = value.type ?? 'misc';
+
+    return {
+      id,
+      name:
+        value.name ??
+        (typeof reward.value === 'string' ? reward.value : discovery.name),
+      description: value.description ?? discovery.description,
+      type,
+      rarity: value.rarity ?? SIGNIFICANCE_RARITY[reward.significance],
+      value: typeof value.value === 'number' ? value.value : 0,
+      weight: typeof value.weight === 'number' ? value.weight : 1,
+      properties: {
+        stackable: type === 'consumable' || type === 'misc',
+        consumable: type === 'consumable',
+        equipable: ['weapon', 'armor', 'accessory'].includes(type),
+        tradeable: type !== 'quest',
+        questItem: type === 'quest',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const explorationSystem = ExplorationSystem.getInstance();
@@ -11,7 +11,7 @@ import { Faction, NPC, Location, WorldEvent, WorldTheme } from '@/types/rpg';
 import { UUID, GameError, ErrorCode } from '@/types/core';
 import { generateRPGContent, AI_CONFIG } from '@/lib/ai';
 import { kvService } from '@/lib/database';
-import { v4 as uuidv4 } from 'uuid';
+import { RandomSource, unseededRandom } from '@/lib/game-engine/random';
 
 // ============================================================================
 // FACTION DEFINITION SYSTEM
@@ -345,7 +345,7 @@ export class FactionSystem {
   private factionNetworks: Map<string, FactionRelationshipNetwork> = new Map(); // WorldId -> Network
   private conflictSystems: Map<string, ConflictSystem> = new Map(); // WorldId -> Conflicts
 
-  private constructor() {
+  private constructor(private readonly random: RandomSource = unseededRandom) {
     // Private constructor for singleton pattern
   }
 
@@ -356,6 +356,13 @@ export class FactionSystem {
     return FactionSystem.instance;
   }
 
+  /**
+   * Create a faction system bound to a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): FactionSystem {
+    return new FactionSystem(random);
+  }
+
   /**
    * Generate a comprehensive faction system for a world
    */
@@ -758,7 +765,7 @@ export class FactionSystem {
     | { success: false; error: GameError }
   > {
     try {
-      const networkId = uuidv4() as UUID;
+      const networkId = this.random.uuid() as UUID;
       const relationships: FactionRelationship[] = [];
 
       // Generate relationships between all faction pairs
@@ -945,7 +952,7 @@ export class FactionSystem {
     worldTheme: WorldTheme,
     worldContext: any
   ): EnhancedFaction {
-    const factionId = uuidv4() as UUID;
+    const factionId = this.random.uuid() as UUID;
 
     const baseFaction: Faction = {
       id: factionId,
@@ -989,7 +996,7 @@ export class FactionSystem {
       if (jsonMatch) {
         const parsed = JSON.parse(jsonMatch[0]);
         return {
-          id: uuidv4() as UUID,
+          id: this.random.uuid() as UUID,
           name: parsed.name || 'Generated Faction',
           description: parsed.description || 'A faction generated by AI.',
           alignment: parsed.alignment || 'neutral',
@@ -1004,7 +1011,7 @@ export class FactionSystem {
     }
 
     return {
-      id: uuidv4() as UUID,
+      id: this.random.uuid() as UUID,
       name: 'Generated Faction',
       description: content.substring(0, 200),
       alignment: 'neutral',
@@ -1181,7 +1188,7 @@ export class FactionSystem {
   > {
     //TODO: Implement comprehensive faction relationship generation
     const relationship: FactionRelationship = {
-      relationshipId: uuidv4() as UUID,
+      relationshipId: this.random.uuid() as UUID,
       factionA: factionA.id,
       factionB: factionB.id,
       relationshipType: 'neutrality',
@@ -32,6 +32,7 @@ export {
 export {
   LocationGenerator,
   locationGenerator,
+  hideUndiscoveredContent,
   type LocationGenerationParams,
   type EnvironmentalStory,
   type PointOfInterest,
@@ -109,8 +110,13 @@ export {
 
 import { WorldData } from '@/types/rpg';
 import { UUID, GameError, ErrorCode } from '@/types/core';
-import { worldGenerator, type WorldPreferences } from './world-generator';
-import { factionSystem } from './faction-system';
+import {
+  WorldGenerator,
+  worldGenerator,
+  type WorldPreferences,
+} from './world-generator';
+import type { RandomSource } from '@/lib/game-engine/random';
+import { FactionSystem, factionSystem } from './faction-system';
 import { worldExpansionManager } from './world-expansion';
 import { kvService } from '@/lib/database';
 
@@ -152,17 +158,18 @@ export class RPGWorldOrchestrator {
       createInitialQuests: true,
       populateWithNPCs: true,
       enableEnvironmentalEvents: true,
-    }
+    },
+    random?: RandomSource
   ): Promise<
     | { success: true; data: CompleteWorldData }
     | { success: false; error: GameError }
   > {
     try {
-      // Step 1: Generate base world
-      const worldResult = await worldGenerator.generateWorld(
-        theme,
-        preferences
-      );
+      // Step 1: Generate base world (seeded when the game supplies a source)
+      const generator = random
+        ? WorldGenerator.withRandom(random)
+        : worldGenerator;
+      const worldResult = await generator.generateWorld(theme, preferences);
       if (!worldResult.success) {
         return worldResult;
       }
@@ -183,7 +190,10 @@ export class RPGWorldOrchestrator {
 
       // Step 2: Initialize faction system if requested
       if (options.generateFactions && preferences.factionCount > 0) {
-        const factionResult = await factionSystem.generateWorldFactionSystem(
+        const factions = random
+          ? FactionSystem.withRandom(random)
+          : factionSystem;
+        const factionResult = await factions.generateWorldFactionSystem(
           worldResult.data.id,
           preferences.theme as any,
           preferences.factionCount,
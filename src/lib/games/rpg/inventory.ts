@@ -137,7 +137,12 @@ export class InventoryManager {
   /**
    * Add an item to the inventory
    */
-  addItem(inventory: Inventory, item: Item, quantity: number = 1): Inventory {
+  addItem(
+    inventory: Inventory,
+    item: Item,
+    quantity: number = 1,
+    condition?: InventoryItem['condition']
+  ): Inventory {
     try {
       if (quantity <= 0) {
         throw new GameError(
@@ -160,9 +165,16 @@ export class InventoryManager {
           );
           const overflow = existingItem.quantity + quantity - newQuantity;
 
+          // A stack takes the worse condition of what is put together
+          const stackCondition =
+            condition &&
+            this.getConditionMultiplier(condition) <
+              this.getConditionMultiplier(existingItem.condition || 'good')
+              ? condition
+              : existingItem.condition;
           const updatedItems = inventory.items.map(invItem =>
             invItem.item.id === item.id
-              ? { ...invItem, quantity: newQuantity }
+              ? { ...invItem, quantity: newQuantity, condition: stackCondition }
               : invItem
           );
 
@@ -170,7 +182,7 @@ export class InventoryManager {
 
           // If there's overflow, try to add it to a new stack
           if (overflow > 0) {
-            return this.addItem(newInventory, item, overflow);
+            return this.addItem(newInventory, item, overflow, condition);
           }
 
           return newInventory;
@@ -186,7 +198,7 @@ export class InventoryManager {
       const inventoryItem: InventoryItem = {
         item,
         quantity,
-        condition: 'good', // Default condition
+        condition: condition ?? 'good',
       };
 
       const newInventory: Inventory = {
@@ -571,18 +583,51 @@ export class InventoryManager {
     let totalValue = inventory.currency;
 
     for (const invItem of inventory.items) {
-      const baseValue = invItem.item.value;
-      const rarityMultiplier =
-        INVENTORY_CONSTANTS.RARITY_VALUE_MULTIPLIERS[invItem.item.rarity];
-      const conditionMultiplier = this.getConditionMultiplier(
-        invItem.condition || 'good'
+      totalValue += this.calculateItemValue(invItem) * invItem.quantity;
+    }
+
+    return Math.floor(totalValue);
+  }
+
+  /**
+   * Value of a single unit from an inventory entry, by rarity and condition
+   */
+  calculateItemValue(invItem: InventoryItem): number {
+    const rarityMultiplier =
+      INVENTORY_CONSTANTS.RARITY_VALUE_MULTIPLIERS[invItem.item.rarity];
+    const conditionMultiplier = this.getConditionMultiplier(
+      invItem.condition || 'good'
+    );
+
+    return invItem.item.value * rarityMultiplier * conditionMultiplier;
+  }
+
+  /**
+   * Add or remove currency, refusing to go below zero or past the maximum
+   */
+  adjustCurrency(inventory: Inventory, amount: number): Inventory {
+    if (!Number.isInteger(amount)) {
+      throw new GameError(
+        'VALIDATION_ERROR',
+        'Currency must change by whole amounts',
+        { amount }
       );
+    }
 
-      totalValue +=
-        baseValue * rarityMultiplier * conditionMultiplier * invItem.quantity;
+    const currency = inventory.currency + amount;
+    if (currency < 0) {
+      throw new GameError('INVALID_ACTION', 'Not enough gold', {
+        required: -amount,
+        available: inventory.currency,
+      });
+    }
+    if (currency > INVENTORY_CONSTANTS.MAX_CURRENCY) {
+      throw new GameError('INVALID_ACTION', 'Cannot carry that much gold', {
+        maximum: INVENTORY_CONSTANTS.MAX_CURRENCY,
+      });
     }
 
-    return Math.floor(totalValue);
+    return { ...inventory, currency };
   }
 
   // ============================================================================
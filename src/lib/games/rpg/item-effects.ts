@@ -0,0 +1,581 @@
+/**
+ * RPG Item Effects
+ *
+ * Interprets the `ItemEffect` entries on an item when it is used, both for
+ * the `use_item` action and on a combat turn. Stat and skill modifiers
+ * either change the character for good or become timed status effects,
+ * status effects go through the status effect manager, and special
+ * abilities deal damage or open secrets at the current location. Using an
+ * item spends one of its charges or one from the stack.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Character,
+  CharacterSkills,
+  CharacterStats,
+  Inventory,
+  InventoryItem,
+  Item,
+  ItemEffect,
+  Location,
+  StatusEffect,
+} from '@/types/rpg';
+import { GameError, UUID } from '@/types/core';
+import { deathSystem } from './death';
+import { inventoryManager } from './inventory';
+import {
+  STATUS_EFFECT_CONFIG,
+  STATUS_EFFECT_DEFINITIONS,
+  StatusEffectType,
+  statusEffectManager,
+} from './status-effects';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const ITEM_EFFECT_CONSTANTS = {
+  // Timed modifiers without a duration last as long as a stat buff
+  DEFAULT_DURATION: 10,
+  // 'combat' effects last for the rest of the fight
+  COMBAT_DURATION: 20,
+  MIN_STAT: 1,
+  MAX_STAT: 100,
+  MIN_SKILL: 0,
+  MAX_SKILL: 100,
+} as const;
+
+// Stat modifiers on these targets restore or drain health immediately
+const HEALTH_TARGETS = ['health', 'currentHealth', 'hp'];
+
+// ============================================================================
+// ITEM EFFECT TYPES
+// ============================================================================
+
+export interface ItemUseContext {
+  readonly inCombat: boolean;
+  // Who the item is used on; defaults to the user
+  readonly target?: Character;
+  // Where the item is used, for keys and other ways of finding secrets
+  readonly location?: Location;
+}
+
+export interface AppliedItemEffect {
+  readonly effect: ItemEffect;
+  readonly description: string;
+}
+
+export interface ItemUseResult {
+  readonly item: Item;
+  readonly user: Character;
+  readonly target: Character;
+  readonly inventory: Inventory;
+  readonly location?: Location;
+  readonly consumed: boolean;
+  readonly applied: AppliedItemEffect[];
+  readonly healing: number;
+  readonly damage: number;
+  readonly statusEffectsApplied: StatusEffect[];
+  readonly revealedSecrets: UUID[];
+}
+
+/**
+ * Working state while an item's effects are applied one by one
+ */
+interface EffectState {
+  subject: Character;
+  location?: Location;
+  healing: number;
+  damage: number;
+  statusEffectsApplied: StatusEffect[];
+  revealedSecrets: UUID[];
+  // Timed stat and skill modifiers, grouped by duration
+  timedModifiers: Map<number, Record<string, number>>;
+}
+
+// ============================================================================
+// ITEM EFFECT INTERPRETER CLASS
+// ============================================================================
+
+export class ItemEffectInterpreter {
+  private static instance: ItemEffectInterpreter;
+
+  private constructor() {}
+
+  static getInstance(): ItemEffectInterpreter {
+    if (!ItemEffectInterpreter.instance) {
+      ItemEffectInterpreter.instance = new ItemEffectInterpreter();
+    }
+    return ItemEffectInterpreter.instance;
+  }
+
+  /**
+   * Use an item from the inventory. Nothing is spent unless at least one
+   * of the item's effects takes hold.
+   */
+  useItem(
+    user: Character,
+    inventory: Inventory,
+    itemId: UUID,
+    context: ItemUseContext
+  ): ItemUseResult {
+    const entry = inventory.items.find(
+      candidate => candidate.item.id === itemId
+    );
+    if (!entry) {
+      throw new GameError('INVALID_ACTION', 'You are not carrying that item', {
+        itemId,
+      });
+    }
+
+    const { item } = entry;
+    this.assertUsable(user, item);
+
+    const selfTarget = !context.target || context.target.id === user.id;
+    const state: EffectState = {
+      subject: selfTarget ? user : context.target!,
+      location: context.location,
+      healing: 0,
+      damage: 0,
+      statusEffectsApplied: [],
+      revealedSecrets: [],
+      timedModifiers: new Map(),
+    };
+
+    const applied: AppliedItemEffect[] = [];
+    for (const effect of item.effects ?? []) {
+      const description = this.applyEffect(effect, state, context, selfTarget);
+      if (description) {
+        applied.push({ effect, description });
+      }
+    }
+
+    if (applied.length === 0) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${item.name} would do nothing here`,
+        { itemId }
+      );
+    }
+
+    const subject = this.applyTimedModifiers(item, state);
+    const spent = this.spend(inventory, entry);
+
+    return {
+      item,
+      user: selfTarget ? subject : user,
+      target: subject,
+      inventory: spent.inventory,
+      location: state.location,
+      consumed: spent.consumed,
+      applied,
+      healing: state.healing,
+      damage: state.damage,
+      statusEffectsApplied: state.statusEffectsApplied,
+      revealedSecrets: state.revealedSecrets,
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private assertUsable(user: Character, item: Item): void {
+    if (!item.effects?.length) {
+      throw new GameError('INVALID_ACTION', `${item.name} cannot be used`, {
+        itemId: item.id,
+      });
+    }
+    // Equipment effects apply while it is worn
+    if (
+      item.properties.equipable &&
+      !item.properties.consumable &&
+      item.charges === undefined
+    ) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `Equip ${item.name} to benefit from it`,
+        { itemId: item.id }
+      );
+    }
+    if (item.charges !== undefined && item.charges <= 0) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${item.name} has no charges left`,
+        { itemId: item.id }
+      );
+    }
+    if (!inventoryManager.meetsRequirements(user, item.requirements)) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `You do not meet the requirements to use ${item.name}`,
+        { itemId: item.id }
+      );
+    }
+  }
+
+  /**
+   * Apply one effect, returning a description of what it did or null if it
+   * could not take hold
+   */
+  private applyEffect(
+    effect: ItemEffect,
+    state: EffectState,
+    context: ItemUseContext,
+    selfTarget: boolean
+  ): string | null {
+    if (effect.duration === 'combat' && !context.inCombat) {
+      return null;
+    }
+
+    switch (effect.type) {
+      case 'stat_modifier':
+        if (HEALTH_TARGETS.includes(effect.target)) {
+          return this.changeHealth(effect, state);
+        }
+        return this.modifyStat(effect, state);
+      case 'skill_modifier':
+        return this.modifySkill(effect, state);
+      case 'status_effect':
+        return this.applyStatus(effect, state);
+      case 'special_ability':
+        return this.useAbility(effect, state, context, selfTarget);
+      default:
+        return null;
+    }
+  }
+
+  private changeHealth(effect: ItemEffect, state: EffectState): string | null {
+    if (typeof effect.value !== 'number') {
+      return null;
+    }
+
+    const { subject } = state;
+    // Potions get the downed back up, but the dead need raising
+    const changed =
+      effect.value > 0
+        ? deathSystem.heal(subject, effect.value)
+        : {
+            ...subject,
+            currentHealth: Math.max(0, subject.currentHealth + effect.value),
+          };
+    const change = changed.currentHealth - subject.currentHealth;
+    if (change === 0) {
+      return null;
+    }
+
+    state.subject = changed;
+    if (change > 0) {
+      state.healing += change;
+      return `restores ${change} health`;
+    }
+    state.damage -= change;
+    return `drains ${-change} health`;
+  }
+
+  private modifyStat(effect: ItemEffect, state: EffectState): string | null {
+    const stat = effect.target as keyof CharacterStats;
+    if (typeof effect.value !== 'number' || !(stat in state.subject.stats)) {
+      return null;
+    }
+
+    if (effect.duration !== 'permanent') {
+      return this.addTimedModifier(effect, state, `statModifiers.${stat}`);
+    }
+
+    const value = this.clamp(
+      state.subject.stats[stat] + effect.value,
+      ITEM_EFFECT_CONSTANTS.MIN_STAT,
+      ITEM_EFFECT_CONSTANTS.MAX_STAT
+    );
+    if (value === state.subject.stats[stat]) {
+      return null;
+    }
+    state.subject = {
+      ...state.subject,
+      stats: { ...state.subject.stats, [stat]: value },
+    };
+    return `permanently changes ${stat} to ${value}`;
+  }
+
+  private modifySkill(effect: ItemEffect, state: EffectState): string | null {
+    const skill = effect.target as keyof CharacterSkills;
+    if (typeof effect.value !== 'number' || !(skill in state.subject.skills)) {
+      return null;
+    }
+
+    if (effect.duration !== 'permanent') {
+      return this.addTimedModifier(effect, state, `skillModifiers.${skill}`);
+    }
+
+    const value = this.clamp(
+      state.subject.skills[skill] + effect.value,
+      ITEM_EFFECT_CONSTANTS.MIN_SKILL,
+      ITEM_EFFECT_CONSTANTS.MAX_SKILL
+    );
+    if (value === state.subject.skills[skill]) {
+      return null;
+    }
+    state.subject = {
+      ...state.subject,
+      skills: { ...state.subject.skills, [skill]: value },
+    };
+    return `permanently changes ${skill} to ${value}`;
+  }
+
+  /**
+   * Temporary modifiers are collected and become status effects named after
+   * the item once all its effects have been applied
+   */
+  private addTimedModifier(
+    effect: ItemEffect,
+    state: EffectState,
+    key: string
+  ): string {
+    const value = effect.value as number;
+    const duration =
+      this.durationOf(effect) ?? ITEM_EFFECT_CONSTANTS.DEFAULT_DURATION;
+    const modifiers = state.timedModifiers.get(duration) ?? {};
+    state.timedModifiers.set(duration, {
+      ...modifiers,
+      [key]: (modifiers[key] ?? 0) + value,
+    });
+
+    const sign = value >= 0 ? '+' : '';
+    return `${effect.target} ${sign}${value} for ${duration} turns`;
+  }
+
+  /**
+   * A status effect is named by the target or value. A negative value cures
+   * the condition instead of causing it.
+   */
+  private applyStatus(effect: ItemEffect, state: EffectState): string | null {
+    const type = [effect.target, effect.value].find(
+      (candidate): candidate is StatusEffectType =>
+        typeof candidate === 'string' && candidate in STATUS_EFFECT_DEFINITIONS
+    );
+    if (!type) {
+      console.warn(`Unknown status effect on item: ${effect.target}`);
+      return null;
+    }
+
+    const definition = STATUS_EFFECT_DEFINITIONS[type];
+    const stacks = typeof effect.value === 'number' ? effect.value : 1;
+    const { subject } = state;
+
+    if (stacks < 0) {
+      if (!subject.statusEffects.some(e => e.name === definition.name)) {
+        return null;
+      }
+      state.subject = {
+        ...subject,
+        statusEffects: statusEffectManager.removeStatusEffect(
+          subject,
+          definition.name
+        ),
+      };
+      return `cures ${definition.name}`;
+    }
+
+    const statusEffects = statusEffectManager.applyStatusEffect(
+      subject,
+      type,
+      this.durationOf(effect),
+      Math.max(1, stacks)
+    );
+    const applied = statusEffects.find(e => e.name === definition.name);
+    if (applied) {
+      state.statusEffectsApplied.push(applied);
+    }
+    state.subject = { ...subject, statusEffects };
+    return `applies ${definition.name}`;
+  }
+
+  /**
+   * Abilities the interpreter understands: `damage` hurts another
+   * combatant, `revive` gets a downed ally back up with the given health,
+   * `resurrect` raises a dead one, `unlock` opens the named secret at the
+   * current location and `reveal` uncovers every secret there. Anything
+   * else is left to the narrator.
+   */
+  private useAbility(
+    effect: ItemEffect,
+    state: EffectState,
+    context: ItemUseContext,
+    selfTarget: boolean
+  ): string | null {
+    switch (effect.target) {
+      case 'damage': {
+        if (
+          !context.inCombat ||
+          selfTarget ||
+          typeof effect.value !== 'number'
+        ) {
+          return null;
+        }
+        const { subject } = state;
+        const damage = Math.min(subject.currentHealth, effect.value);
+        if (damage <= 0) {
+          return null;
+        }
+        state.subject = {
+          ...subject,
+          currentHealth: subject.currentHealth - damage,
+        };
+        state.damage += damage;
+        return `deals ${damage} damage`;
+      }
+
+      case 'revive':
+      case 'resurrect': {
+        const { subject } = state;
+        const status = deathSystem.getStatus(subject);
+        const fallen =
+          effect.target === 'revive'
+            ? status === 'downed' || status === 'stable'
+            : status === 'dead';
+        // Raising the dead is no work for the middle of a fight
+        const inFight = effect.target === 'resurrect' && context.inCombat;
+        if (!fallen || inFight || typeof effect.value !== 'number') {
+          return null;
+        }
+        state.subject =
+          effect.target === 'revive'
+            ? deathSystem.revive(subject, effect.value)
+            : deathSystem.resurrect(subject, effect.value);
+        state.healing += state.subject.currentHealth;
+        return `${effect.target === 'revive' ? 'revives' : 'raises'} ${subject.name}`;
+      }
+
+      case 'unlock':
+      case 'reveal': {
+        const { location } = state;
+        if (!location) {
+          return null;
+        }
+        const wanted =
+          effect.target === 'unlock'
+            ? String(effect.value).toLowerCase()
+            : null;
+        const opened = location.secrets.filter(
+          secret =>
+            !secret.isDiscovered &&
+            (wanted === null ||
+              secret.id === effect.value ||
+              secret.name.toLowerCase() === wanted)
+        );
+        if (opened.length === 0) {
+          return null;
+        }
+
+        const ids = new Set(opened.map(secret => secret.id));
+        state.location = {
+          ...location,
+          secrets: location.secrets.map(secret =>
+            ids.has(secret.id) ? { ...secret, isDiscovered: true } : secret
+          ),
+        };
+        state.revealedSecrets.push(...ids);
+        return `${effect.target === 'unlock' ? 'opens' : 'reveals'} ${opened
+          .map(secret => secret.name)
+          .join(', ')}`;
+      }
+
+      default:
+        return typeof effect.value === 'string' ? effect.value : effect.target;
+    }
+  }
+
+  private applyTimedModifiers(item: Item, state: EffectState): Character {
+    if (state.timedModifiers.size === 0) {
+      return state.subject;
+    }
+
+    // Using the same item again refreshes its effects rather than stacking
+    const statusEffects = state.subject.statusEffects.filter(
+      effect => effect.name !== item.name
+    );
+    for (const [duration, effects] of state.timedModifiers) {
+      const values = Object.values(effects);
+      const statusEffect: StatusEffect = {
+        id: uuidv4(),
+        name: item.name,
+        description: item.description,
+        type: values.every(value => value >= 0)
+          ? 'buff'
+          : values.every(value => value <= 0)
+            ? 'debuff'
+            : 'neutral',
+        duration,
+        effects,
+        stackable: false,
+      };
+      statusEffects.push(statusEffect);
+      state.statusEffectsApplied.push(statusEffect);
+    }
+
+    return { ...state.subject, statusEffects };
+  }
+
+  /**
+   * Spend a charge, or one from the stack if the item is consumable. A
+   * consumable charged item is used up with its last charge.
+   */
+  private spend(
+    inventory: Inventory,
+    entry: InventoryItem
+  ): { inventory: Inventory; consumed: boolean } {
+    const { item } = entry;
+
+    if (item.charges !== undefined) {
+      const charges = item.charges - 1;
+      if (charges > 0 || !item.properties.consumable) {
+        return {
+          inventory: {
+            ...inventory,
+            items: inventory.items.map(candidate =>
+              candidate === entry
+                ? { ...candidate, item: { ...item, charges } }
+                : candidate
+            ),
+          },
+          consumed: false,
+        };
+      }
+    } else if (!item.properties.consumable) {
+      return { inventory, consumed: false };
+    }
+
+    return {
+      inventory: inventoryManager.removeItem(inventory, item.id, 1),
+      consumed: true,
+    };
+  }
+
+  /**
+   * Duration in turns; undefined leaves the choice to the caller
+   */
+  private durationOf(effect: ItemEffect): number | undefined {
+    if (typeof effect.duration === 'number') {
+      return effect.duration;
+    }
+    if (effect.duration === 'combat') {
+      return ITEM_EFFECT_CONSTANTS.COMBAT_DURATION;
+    }
+    if (effect.duration === 'permanent') {
+      return STATUS_EFFECT_CONFIG.PERMANENT_DURATION;
+    }
+    return undefined;
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const itemEffectInterpreter = ItemEffectInterpreter.getInstance();
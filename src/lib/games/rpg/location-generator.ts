@@ -20,7 +20,7 @@ import {
 } from '@/types/rpg';
 import { UUID, GameError, ErrorCode } from '@/types/core';
 import { generateRPGContent, AI_CONFIG } from '@/lib/ai';
-import { v4 as uuidv4 } from 'uuid';
+import { RandomSource, unseededRandom } from '@/lib/game-engine/random';
 
 // ============================================================================
 // LOCATION GENERATION PARAMETERS
@@ -262,7 +262,7 @@ export type POIAccessibility =
 export class LocationGenerator {
   private static instance: LocationGenerator | null = null;
 
-  private constructor() {
+  private constructor(private readonly random: RandomSource = unseededRandom) {
     // Private constructor for singleton pattern
   }
 
@@ -273,6 +273,13 @@ export class LocationGenerator {
     return LocationGenerator.instance;
   }
 
+  /**
+   * Create a generator bound to a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): LocationGenerator {
+    return new LocationGenerator(random);
+  }
+
   /**
    * Generate a complete location with environmental storytelling
    */
@@ -289,12 +296,13 @@ export class LocationGenerator {
         data: Location & {
           environmentalStory: EnvironmentalStory;
           pointsOfInterest: PointOfInterest[];
+          dangerLevel: DangerLevel;
         };
       }
     | { success: false; error: GameError }
   > {
     try {
-      const locationId = uuidv4() as UUID;
+      const locationId = this.random.uuid() as UUID;
 
       // Generate base location structure
       const baseLocationResult = await this.generateBaseLocation(
@@ -348,6 +356,7 @@ export class LocationGenerator {
         secrets: secrets,
         environmentalStory: environmentalStoryResult.data,
         pointsOfInterest: pointsOfInterestResult.data,
+        dangerLevel: params.dangerLevel,
       };
 
       return { success: true, data: enhancedLocation };
@@ -633,7 +642,7 @@ export class LocationGenerator {
     // Generate features based on environmental story
     environmentalStory.interactiveElements.forEach((element, index) => {
       features.push({
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         name: element.name,
         description: element.description,
         type: this.mapInteractionToFeatureType(element.interactionType),
@@ -649,7 +658,7 @@ export class LocationGenerator {
     pointsOfInterest.forEach(poi => {
       poi.interactiveElements.forEach(element => {
         features.push({
-          id: uuidv4() as UUID,
+          id: this.random.uuid() as UUID,
           name: element.name,
           description: `${poi.name} - ${element.description}`,
           type: this.mapInteractionToFeatureType(element.interactionType),
@@ -690,7 +699,7 @@ export class LocationGenerator {
           hidden.reward.type === 'item'
             ? {
                 type: 'item',
-                itemId: uuidv4() as UUID,
+                itemId: this.random.uuid() as UUID,
               }
             : undefined,
         isDiscovered: false,
@@ -948,7 +957,7 @@ export class LocationGenerator {
     params: LocationGenerationParams
   ): PointOfInterest {
     //TODO: Implement robust POI parsing
-    const id = uuidv4() as UUID;
+    const id = this.random.uuid() as UUID;
 
     try {
       const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -1012,7 +1021,7 @@ export class LocationGenerator {
     };
 
     const possibleTypes = biomeLocationMap[biome] || ['custom'];
-    return possibleTypes[Math.floor(Math.random() * possibleTypes.length)];
+    return possibleTypes[Math.floor(this.random.next() * possibleTypes.length)];
   }
 
   private calculatePOICount(size: LocationSize, biome: BiomeType): number {
@@ -1041,7 +1050,7 @@ export class LocationGenerator {
   ): EnvironmentalClue[] {
     return [
       {
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         type: 'physical',
         description: 'Subtle signs tell a story of what happened here.',
         skillRequired: 'investigation',
@@ -1068,7 +1077,7 @@ export class LocationGenerator {
   ): HiddenElement[] {
     return [
       {
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         name: 'Hidden Discovery',
         description: 'A secret awaits those who look closely.',
         discoveryCriteria: {
@@ -1091,7 +1100,7 @@ export class LocationGenerator {
   ): InteractiveElement[] {
     return [
       {
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         name: 'Interactive Feature',
         description: 'Something here can be examined more closely.',
         interactionType: 'examine',
@@ -1139,7 +1148,7 @@ export class LocationGenerator {
   private varySize(size: LocationSize): LocationSize {
     const sizes: LocationSize[] = ['tiny', 'small', 'medium', 'large', 'vast'];
     const currentIndex = sizes.indexOf(size);
-    const variation = Math.floor(Math.random() * 3) - 1; // -1, 0, or 1
+    const variation = Math.floor(this.random.next() * 3) - 1; // -1, 0, or 1
     const newIndex = Math.max(
       0,
       Math.min(sizes.length - 1, currentIndex + variation)
@@ -1156,7 +1165,7 @@ export class LocationGenerator {
       'extreme',
     ];
     const currentIndex = levels.indexOf(danger);
-    const variation = Math.floor(Math.random() * 3) - 1; // -1, 0, or 1
+    const variation = Math.floor(this.random.next() * 3) - 1; // -1, 0, or 1
     const newIndex = Math.max(
       0,
       Math.min(levels.length - 1, currentIndex + variation)
@@ -1181,7 +1190,9 @@ export class LocationGenerator {
       i++
     ) {
       const targetLocation =
-        existingLocations[Math.floor(Math.random() * existingLocations.length)];
+        existingLocations[
+          Math.floor(this.random.next() * existingLocations.length)
+        ];
       if (!newLocation.connections.includes(targetLocation.id)) {
         (newLocation.connections as UUID[]).push(targetLocation.id);
         (targetLocation.connections as UUID[]).push(newLocation.id);
@@ -1248,7 +1259,7 @@ export class LocationGenerator {
 
     templates.forEach(template => {
       features.push({
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         name: template.name,
         description: `A ${biome} feature that adds to the location's character.`,
         type: template.type,
@@ -1362,6 +1373,64 @@ export class LocationGenerator {
 
 export const locationGenerator = LocationGenerator.getInstance();
 
+// ============================================================================
+// DISCOVERY VISIBILITY
+// ============================================================================
+
+type EnhancedLocationFields = {
+  environmentalStory?: EnvironmentalStory;
+  pointsOfInterest?: PointOfInterest[];
+};
+
+/**
+ * Strip everything explorers have not found yet from a location.
+ * Secrets share their ids with the hidden elements they were generated from,
+ * so one discovered id unlocks the secret, its hidden element and any POI
+ * that references it. Hidden POIs stay out of view until discovered.
+ */
+export function hideUndiscoveredContent<TLocation extends Location>(
+  location: TLocation,
+  discoveredIds: ReadonlySet<UUID> = new Set()
+): TLocation {
+  const secrets = location.secrets.filter(
+    secret => secret.isDiscovered || discoveredIds.has(secret.id)
+  );
+  const found = new Set([
+    ...discoveredIds,
+    ...secrets.map(secret => secret.id),
+  ]);
+  const { environmentalStory, pointsOfInterest } = location as TLocation &
+    EnhancedLocationFields;
+
+  return {
+    ...location,
+    secrets,
+    ...(environmentalStory && {
+      environmentalStory: {
+        ...environmentalStory,
+        hiddenElements: environmentalStory.hiddenElements.filter(element =>
+          found.has(element.id)
+        ),
+        clues: environmentalStory.clues.map(clue => {
+          if (!clue.revealsSecret || found.has(clue.revealsSecret)) {
+            return clue;
+          }
+          const { revealsSecret: _revealsSecret, ...hint } = clue;
+          return hint;
+        }),
+      },
+    }),
+    ...(pointsOfInterest && {
+      pointsOfInterest: pointsOfInterest
+        .filter(poi => poi.accessibility !== 'hidden' || found.has(poi.id))
+        .map(poi => ({
+          ...poi,
+          secrets: poi.secrets.filter(secretId => found.has(secretId)),
+        })),
+    }),
+  };
+}
+
 // ============================================================================
 // UTILITY EXPORTS
 // ============================================================================
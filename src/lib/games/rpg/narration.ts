@@ -0,0 +1,322 @@
+/**
+ * RPG Action Narration
+ *
+ * Narrates a player action with the narrative continuation template. The
+ * model writes prose first and closes with a fenced JSON block describing
+ * the outcome (mood, choices, state changes, item drops), so the prose can
+ * be streamed to players as it arrives while the outcome is only applied
+ * once the whole response has been received.
+ */
+
+import { z } from 'zod';
+import { geminiService, createSimplePrompt } from '@/lib/ai/gemini';
+import { promptEngine, PROMPTS } from '@/lib/ai/prompts';
+import { getGameRandom, withRandomState } from '@/lib/game-engine/random';
+import { GameAction } from '@/types/core';
+import { Item, ItemType, NarrativeDataSchema, RPGGameState } from '@/types/rpg';
+import { inventoryManager } from './inventory';
+import { advanceClock } from './world-clock';
+
+// ============================================================================
+// NARRATIVE OUTCOME
+// ============================================================================
+
+const ITEM_TYPES = [
+  'weapon',
+  'armor',
+  'accessory',
+  'consumable',
+  'tool',
+  'quest',
+  'misc',
+] as const;
+
+const ITEM_RARITIES = [
+  'common',
+  'uncommon',
+  'rare',
+  'epic',
+  'legendary',
+  'artifact',
+] as const;
+
+const ItemDropSchema = z.object({
+  name: z.string().min(1).max(80),
+  description: z.string().max(500).catch(''),
+  type: z.enum(ITEM_TYPES).catch('misc'),
+  rarity: z.enum(ITEM_RARITIES).catch('common'),
+  value: z.number().int().min(0).max(10000).catch(0),
+  quantity: z.number().int().min(1).max(10).catch(1),
+});
+
+/**
+ * Outcome of a narrated action. Every field falls back to "no change", so a
+ * model that omits or garbles part of the block still yields a usable
+ * outcome, and a malformed item drop is skipped rather than failing the rest.
+ */
+export const NarrativeOutcomeSchema = z.object({
+  mood: NarrativeDataSchema.shape.mood.catch('neutral'),
+  consequences: z.array(z.string()).catch([]),
+  choices: NarrativeDataSchema.shape.choices.catch([]),
+  stateChanges: z
+    .object({
+      currency: z.number().int().min(-500).max(500).catch(0),
+      hoursPassed: z.number().int().min(0).max(24).catch(0),
+      flags: z.record(z.boolean()).catch({}),
+      reputation: z.record(z.number().min(-20).max(20)).catch({}),
+    })
+    .catch({ currency: 0, hoursPassed: 0, flags: {}, reputation: {} }),
+  itemDrops: z
+    .array(z.unknown())
+    .max(5)
+    .catch([])
+    .transform(drops =>
+      drops.flatMap(drop => {
+        const parsed = ItemDropSchema.safeParse(drop);
+        return parsed.success ? [parsed.data] : [];
+      })
+    ),
+});
+
+export type NarrativeOutcome = z.infer<typeof NarrativeOutcomeSchema>;
+export type ItemDrop = z.infer<typeof ItemDropSchema>;
+
+const OUTCOME_INSTRUCTIONS = `Write the narration as plain prose in the second person. After the prose, end with exactly one fenced \`\`\`json block and nothing after it, shaped like:
+{
+  "mood": "epic | dark | humorous | mysterious | tense | peaceful | neutral",
+  "consequences": ["short statement of what changed"],
+  "choices": [{ "id": "choice_1", "text": "What the players can do next", "consequences": [] }],
+  "stateChanges": { "currency": 0, "hoursPassed": 0, "flags": {}, "reputation": {} },
+  "itemDrops": [{ "name": "Item name", "description": "", "type": "misc", "rarity": "common", "value": 0, "quantity": 1 }]
+}
+Only award currency or items the story clearly justifies. Reputation keys are faction IDs from the world state.`;
+
+// ============================================================================
+// STREAM SPLITTING
+// ============================================================================
+
+const FENCE = '```';
+
+/**
+ * Separates streamed prose from the trailing JSON block. Text is released as
+ * soon as it cannot be the start of the fence, so players never see the
+ * outcome block.
+ */
+export class NarrationSplitter {
+  private prose = '';
+  private pending = '';
+  private outcomeText: string | null = null;
+
+  /**
+   * Feed a chunk and get back the prose that is safe to show
+   */
+  push(chunk: string): string {
+    if (this.outcomeText !== null) {
+      this.outcomeText += chunk;
+      return '';
+    }
+
+    const text = this.pending + chunk;
+    const fenceAt = text.indexOf(FENCE);
+    if (fenceAt !== -1) {
+      this.pending = '';
+      this.outcomeText = text.slice(fenceAt + FENCE.length);
+      return this.release(text.slice(0, fenceAt));
+    }
+
+    // Hold back trailing backticks that may begin a fence in the next chunk
+    const held = text.length - text.replace(/`+$/, '').length;
+    this.pending = text.slice(text.length - held);
+    return this.release(text.slice(0, text.length - held));
+  }
+
+  /**
+   * Complete narration and its parsed outcome
+   */
+  finish(): { content: string; outcome: NarrativeOutcome } {
+    const content = (this.prose + this.pending).trim();
+    this.pending = '';
+    return { content, outcome: parseNarrativeOutcome(this.outcomeText ?? '') };
+  }
+
+  private release(text: string): string {
+    this.prose += text;
+    return text;
+  }
+}
+
+/**
+ * Parse the outcome block, tolerating a language tag, a missing closing
+ * fence or no block at all
+ */
+export function parseNarrativeOutcome(text: string): NarrativeOutcome {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  let raw: unknown = {};
+
+  if (start !== -1 && end > start) {
+    try {
+      raw = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      raw = {};
+    }
+  }
+
+  return NarrativeOutcomeSchema.parse(
+    raw && typeof raw === 'object' ? raw : {}
+  );
+}
+
+// ============================================================================
+// NARRATION
+// ============================================================================
+
+export type NarrationEvent =
+  | { readonly type: 'text'; readonly text: string }
+  | {
+      readonly type: 'complete';
+      readonly content: string;
+      readonly outcome: NarrativeOutcome;
+    };
+
+/**
+ * Stream the narration of an action: prose chunks as they are generated,
+ * then a single completion event with the full text and parsed outcome
+ */
+export async function* narrateAction(
+  action: GameAction,
+  state: RPGGameState
+): AsyncGenerator<NarrationEvent, void, unknown> {
+  const prompt = await buildNarrationPrompt(action, state);
+  const splitter = new NarrationSplitter();
+
+  for await (const chunk of geminiService.streamContent(
+    prompt,
+    createSimplePrompt(prompt, 'rpg'),
+    { category: PROMPTS.NARRATIVE_CONTINUATION.category }
+  )) {
+    const text = splitter.push(chunk);
+    if (text) {
+      yield { type: 'text', text };
+    }
+  }
+
+  yield { type: 'complete', ...splitter.finish() };
+}
+
+async function buildNarrationPrompt(
+  action: GameAction,
+  state: RPGGameState
+): Promise<string> {
+  const { world, currentLocation, timeOfDay, dayCount, weather } = state.data;
+  const location = world?.locations.find(loc => loc.id === currentLocation);
+
+  const { content } = await promptEngine.generatePrompt(
+    PROMPTS.NARRATIVE_CONTINUATION.id,
+    {
+      gameType: 'rpg',
+      variables: {
+        currentSituation: location
+          ? `${location.name}: ${location.description}`
+          : 'The party is between places.',
+        playerActions: [`${action.type}: ${JSON.stringify(action.data ?? {})}`],
+        worldState: {
+          world: world?.name ?? 'Unknown',
+          timeOfDay,
+          dayCount,
+          weather: weather?.type ?? 'clear',
+          factions: (world?.factions ?? []).map(faction => ({
+            id: faction.id,
+            name: faction.name,
+          })),
+        },
+        tone: world?.theme ?? 'adventurous',
+        length: 'short',
+      },
+    }
+  );
+
+  return `${content}\n\n${OUTCOME_INSTRUCTIONS}`;
+}
+
+// ============================================================================
+// APPLYING OUTCOMES
+// ============================================================================
+
+const EQUIPABLE_TYPES: ItemType[] = ['weapon', 'armor', 'accessory'];
+const STACKABLE_TYPES: ItemType[] = ['consumable', 'misc'];
+
+/**
+ * Apply a narrated outcome to the party: currency, flags, faction
+ * reputation, elapsed time and item drops. Drops that do not fit in the
+ * party inventory are left behind.
+ */
+export function applyNarrativeOutcome(
+  state: RPGGameState,
+  outcome: NarrativeOutcome
+): RPGGameState {
+  const { stateChanges, itemDrops } = outcome;
+  const random = getGameRandom(state);
+
+  let inventory = {
+    ...state.data.partyInventory,
+    currency: Math.max(
+      0,
+      state.data.partyInventory.currency + stateChanges.currency
+    ),
+  };
+  for (const drop of itemDrops) {
+    try {
+      inventory = inventoryManager.addItem(
+        inventory,
+        toItem(drop, random.uuid()),
+        drop.quantity
+      );
+    } catch (error) {
+      console.warn(`Item drop "${drop.name}" was left behind:`, error);
+    }
+  }
+
+  const partyReputation = { ...state.data.partyReputation };
+  for (const [factionId, change] of Object.entries(stateChanges.reputation)) {
+    partyReputation[factionId] = Math.max(
+      -100,
+      Math.min(100, (partyReputation[factionId] ?? 0) + change)
+    );
+  }
+
+  return withRandomState(
+    advanceClock(
+      {
+        ...state,
+        data: {
+          ...state.data,
+          partyInventory: inventory,
+          partyReputation,
+          globalFlags: { ...state.data.globalFlags, ...stateChanges.flags },
+        },
+      },
+      stateChanges.hoursPassed
+    ),
+    random
+  );
+}
+
+function toItem(drop: ItemDrop, id: string): Item {
+  return {
+    id,
+    name: drop.name,
+    description: drop.description,
+    type: drop.type,
+    rarity: drop.rarity,
+    value: drop.value,
+    weight: 1,
+    properties: {
+      stackable: STACKABLE_TYPES.includes(drop.type),
+      consumable: drop.type === 'consumable',
+      equipable: EQUIPABLE_TYPES.includes(drop.type),
+      tradeable: drop.type !== 'quest',
+      questItem: drop.type === 'quest',
+    },
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * RPG Player Records
+ *
+ * Each member of an RPG game has a record holding their character,
+ * inventory, quest log, NPC relationships and discoveries. Game state holds
+ * what the party shares; anything that belongs to one player lives here.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { RPGPlayer } from '@/types/rpg';
+import { GameError, UUID } from '@/types/core';
+import { kvService } from '@/lib/database/kv-service';
+
+const PLAYER_RECORD_TTL = 30 * 24 * 60 * 60; // 30 days, matching game metadata
+const STARTING_HEALTH = 100; // 50 base plus 5 per point of constitution
+const STARTING_CARRY_CAPACITY = 20;
+
+/**
+ * Storage key of a player's record within a game
+ */
+export function rpgPlayerKey(gameId: UUID, playerId: UUID): string {
+  return `player_game_data:${gameId}:${playerId}`;
+}
+
+/**
+ * The record a player starts a game with: a level 1 adventurer named after
+ * them and empty pockets, until character creation shapes the character
+ */
+export function createRPGPlayer(
+  playerId: UUID,
+  name: string,
+  joinedAt: Date = new Date()
+): RPGPlayer {
+  return {
+    id: playerId,
+    name,
+    isActive: true,
+    joinedAt,
+    lastActivity: joinedAt,
+    gameSpecificData: {
+      character: {
+        id: uuidv4(),
+        name,
+        race: {
+          name: 'Human',
+          description: 'Adaptable and ambitious',
+          statModifiers: {},
+          abilities: [],
+          restrictions: [],
+        },
+        class: {
+          name: 'Adventurer',
+          description: 'Not yet set on any one path',
+          primaryStat: 'constitution',
+          skillAffinities: [],
+          abilities: [],
+          equipment: [],
+        },
+        level: 1,
+        experience: 0,
+        stats: {
+          strength: 10,
+          dexterity: 10,
+          constitution: 10,
+          intelligence: 10,
+          wisdom: 10,
+          charisma: 10,
+          luck: 10,
+        },
+        skills: {
+          combat: 0,
+          magic: 0,
+          stealth: 0,
+          diplomacy: 0,
+          survival: 0,
+          investigation: 0,
+          crafting: 0,
+          lore: 0,
+        },
+        traits: [],
+        background: {
+          name: 'Wanderer',
+          description: 'A traveller with no fixed home',
+          skillBonuses: {},
+          startingEquipment: [],
+          connections: [],
+        },
+        currentHealth: STARTING_HEALTH,
+        maxHealth: STARTING_HEALTH,
+        statusEffects: [],
+      },
+      inventory: {
+        capacity: STARTING_CARRY_CAPACITY,
+        items: [],
+        equipment: { accessories: [] },
+        currency: 0,
+      },
+      questLog: [],
+      relationships: {},
+      discoveries: [],
+    },
+  };
+}
+
+/**
+ * Load a player's record, or null if they have not joined the game
+ */
+export async function loadRPGPlayer(
+  gameId: UUID,
+  playerId: UUID
+): Promise<RPGPlayer | null> {
+  const result = await kvService.get<RPGPlayer>(rpgPlayerKey(gameId, playerId));
+  if (!result.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to load player record', {
+      gameId,
+      playerId,
+    });
+  }
+  return result.data ?? null;
+}
+
+/**
+ * Store a player's record
+ */
+export async function saveRPGPlayer(
+  gameId: UUID,
+  player: RPGPlayer
+): Promise<void> {
+  const result = await kvService.set(
+    rpgPlayerKey(gameId, player.id),
+    player,
+    PLAYER_RECORD_TTL
+  );
+  if (!result.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to save player record', {
+      gameId,
+      playerId: player.id,
+    });
+  }
+}
+
+/**
+ * Replace a player's record only if it has not changed since `expected` was
+ * loaded. Returns false when another write got there first.
+ */
+export async function swapRPGPlayer(
+  gameId: UUID,
+  expected: RPGPlayer,
+  player: RPGPlayer
+): Promise<boolean> {
+  const result = await kvService.compareAndSwap(
+    rpgPlayerKey(gameId, player.id),
+    expected,
+    player,
+    PLAYER_RECORD_TTL
+  );
+  if (!result.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to save player record', {
+      gameId,
+      playerId: player.id,
+    });
+  }
+  return result.data === true;
+}
+
+/**
+ * Every player record in a game
+ */
+export async function listRPGPlayers(gameId: UUID): Promise<RPGPlayer[]> {
+  const keys = await kvService.scan(rpgPlayerKey(gameId, '*'));
+  if (!keys.success) {
+    throw new GameError('DATABASE_ERROR', 'Failed to list player records', {
+      gameId,
+    });
+  }
+
+  const players: RPGPlayer[] = [];
+  for (const key of keys.data ?? []) {
+    const result = await kvService.get<RPGPlayer>(key);
+    if (result.success && result.data) {
+      players.push(result.data);
+    }
+  }
+  return players;
+}
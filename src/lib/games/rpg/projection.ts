@@ -0,0 +1,77 @@
+/**
+ * RPG State Projection
+ *
+ * Fog of war for RPG worlds: players see the locations they have discovered,
+ * the unexplored locations bordering them, and only the secrets, hidden
+ * elements and points of interest that have already been found.
+ */
+
+import { Location, RPGGameState } from '@/types/rpg';
+import { UUID } from '@/types/core';
+import { GameStateProjector } from '@/lib/game-engine/projection';
+import { hideUndiscoveredContent } from './location-generator';
+
+// ============================================================================
+// PROJECTION HELPERS
+// ============================================================================
+
+/**
+ * An unexplored neighbour shows up on the map without any of its contents
+ */
+const toUnexploredLocation = (location: Location): Location => ({
+  id: location.id,
+  name: 'Unexplored',
+  description: '',
+  type: location.type,
+  connections: [],
+  features: [],
+  npcs: [],
+  items: [],
+  secrets: [],
+  isDiscovered: false,
+});
+
+// ============================================================================
+// RPG PROJECTOR
+// ============================================================================
+
+export const rpgProjector: GameStateProjector<RPGGameState> = {
+  projectData(state) {
+    const { world, currentLocation } = state.data;
+    if (!world) {
+      return state.data;
+    }
+
+    const visibleIds = new Set<UUID>(
+      world.locations
+        .filter(
+          location => location.isDiscovered || location.id === currentLocation
+        )
+        .map(location => location.id)
+    );
+    const frontierIds = new Set<UUID>(
+      world.locations
+        .filter(location => visibleIds.has(location.id))
+        .flatMap(location => location.connections)
+        .filter(id => !visibleIds.has(id))
+    );
+
+    const locations = world.locations.flatMap(location => {
+      if (visibleIds.has(location.id)) {
+        return [hideUndiscoveredContent(location)];
+      }
+      return frontierIds.has(location.id)
+        ? [toUnexploredLocation(location)]
+        : [];
+    });
+
+    return {
+      ...state.data,
+      world: {
+        ...world,
+        locations,
+        npcs: world.npcs.filter(npc => visibleIds.has(npc.currentLocation)),
+      },
+    };
+  },
+};
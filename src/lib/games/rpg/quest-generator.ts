@@ -25,7 +25,7 @@ import {
 import { UUID, GameError, ErrorCode } from '@/types/core';
 import { generateRPGContent, AI_CONFIG } from '@/lib/ai';
 import { kvService } from '@/lib/database';
-import { v4 as uuidv4 } from 'uuid';
+import { RandomSource, unseededRandom } from '@/lib/game-engine/random';
 
 // ============================================================================
 // QUEST CHAIN SYSTEM
@@ -268,7 +268,7 @@ export class QuestGenerator {
   private questChains: Map<UUID, QuestChain> = new Map();
   private consequenceTrackers: Map<UUID, ConsequenceTracker> = new Map();
 
-  private constructor() {
+  private constructor(private readonly random: RandomSource = unseededRandom) {
     // Private constructor for singleton pattern
   }
 
@@ -279,6 +279,13 @@ export class QuestGenerator {
     return QuestGenerator.instance;
   }
 
+  /**
+   * Create a generator bound to a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): QuestGenerator {
+    return new QuestGenerator(random);
+  }
+
   /**
    * Generate a complete quest chain with interconnected storylines
    */
@@ -301,7 +308,7 @@ export class QuestGenerator {
         };
       }
 
-      const chainId = uuidv4() as UUID;
+      const chainId = this.random.uuid() as UUID;
 
       // Generate narrative arc using AI
       const narrativeArcResult = await this.generateNarrativeArc(
@@ -393,7 +400,7 @@ export class QuestGenerator {
     { success: true; data: Quest } | { success: false; error: GameError }
   > {
     try {
-      const questId = uuidv4() as UUID;
+      const questId = this.random.uuid() as UUID;
 
       // Generate quest using AI based on current context
       const questResult = await generateRPGContent('quest', {
@@ -906,15 +913,15 @@ export class QuestGenerator {
         playerAgency = 'guided';
       } else if (progress < 0.33) {
         position = 'act1';
-        narrativeWeight = 6 + Math.floor(Math.random() * 2);
+        narrativeWeight = 6 + Math.floor(this.random.next() * 2);
         playerAgency = 'branching';
       } else if (progress < 0.66) {
         position = 'act2';
-        narrativeWeight = 7 + Math.floor(Math.random() * 2);
+        narrativeWeight = 7 + Math.floor(this.random.next() * 2);
         playerAgency = 'open';
       } else if (progress < 0.9) {
         position = 'act3';
-        narrativeWeight = 8 + Math.floor(Math.random() * 2);
+        narrativeWeight = 8 + Math.floor(this.random.next() * 2);
         playerAgency = 'emergent';
       } else {
         position = 'epilogue';
@@ -963,7 +970,7 @@ export class QuestGenerator {
     { success: true; data: Quest } | { success: false; error: GameError }
   > {
     //TODO: Implement comprehensive chain quest generation
-    const questId = uuidv4() as UUID;
+    const questId = this.random.uuid() as UUID;
 
     const quest: Quest = {
       id: questId,
@@ -973,9 +980,12 @@ export class QuestGenerator {
       status: 'available',
       objectives: [],
       rewards: [],
-      giver: params.worldContext.availableNPCs[0]?.id || (uuidv4() as UUID),
+      giver:
+        params.worldContext.availableNPCs[0]?.id ||
+        (this.random.uuid() as UUID),
       location:
-        params.worldContext.availableLocations[0]?.id || (uuidv4() as UUID),
+        params.worldContext.availableLocations[0]?.id ||
+        (this.random.uuid() as UUID),
       prerequisites: [],
     };
 
@@ -994,7 +1004,7 @@ export class QuestGenerator {
     };
 
     const possibleTypes = typeMap[position] || ['side'];
-    return possibleTypes[Math.floor(Math.random() * possibleTypes.length)];
+    return possibleTypes[Math.floor(this.random.next() * possibleTypes.length)];
   }
 
   private selectOptimalQuestType(params: DynamicQuestParams): QuestType {
@@ -1009,7 +1019,7 @@ export class QuestGenerator {
       'fetch',
       'escort',
     ];
-    return types[Math.floor(Math.random() * types.length)];
+    return types[Math.floor(this.random.next() * types.length)];
   }
 
   private parseQuestFromAI(content: string, params: DynamicQuestParams): any {
@@ -1025,11 +1035,11 @@ export class QuestGenerator {
           giverId:
             parsed.giverId ||
             params.worldContext.availableNPCs[0]?.id ||
-            (uuidv4() as UUID),
+            (this.random.uuid() as UUID),
           locationId:
             parsed.locationId ||
             params.worldContext.availableLocations[0]?.id ||
-            (uuidv4() as UUID),
+            (this.random.uuid() as UUID),
           timeLimit: parsed.timeLimit,
           prerequisites: parsed.prerequisites || [],
         };
@@ -1042,9 +1052,12 @@ export class QuestGenerator {
       title: 'Generated Quest',
       description: content.substring(0, 300),
       type: 'side' as QuestType,
-      giverId: params.worldContext.availableNPCs[0]?.id || (uuidv4() as UUID),
+      giverId:
+        params.worldContext.availableNPCs[0]?.id ||
+        (this.random.uuid() as UUID),
       locationId:
-        params.worldContext.availableLocations[0]?.id || (uuidv4() as UUID),
+        params.worldContext.availableLocations[0]?.id ||
+        (this.random.uuid() as UUID),
       timeLimit: undefined,
       prerequisites: [],
     };
@@ -1061,7 +1074,7 @@ export class QuestGenerator {
     //TODO: Implement comprehensive quest objective generation
     const objectives: QuestObjective[] = [
       {
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         description: 'Complete the main quest objective',
         type: 'custom',
         target: questData.title,
@@ -1181,7 +1194,7 @@ export class QuestGenerator {
   > {
     //TODO: Implement quest branch generation
     const branch: QuestBranch = {
-      id: uuidv4() as UUID,
+      id: this.random.uuid() as UUID,
       triggerConditions: [],
       branchType: 'choice_based',
       alternativeQuests: [],
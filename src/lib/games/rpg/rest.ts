@@ -0,0 +1,278 @@
+/**
+ * RPG Rest System
+ *
+ * Resolves the `rest` action. A short rest takes an hour and a long rest
+ * takes eight; either advances the world clock, lets status effects run
+ * their course and restores health. Each hour spent resting rolls against
+ * the danger of the location, more so at night. An interruption ends the
+ * rest early, and hostile NPCs nearby turn it into an ambush.
+ */
+
+import {
+  Character,
+  Location,
+  LocationType,
+  NPC,
+  RPGGameState,
+  RPGPlayer,
+} from '@/types/rpg';
+import { GameError } from '@/types/core';
+import { RandomSource } from '@/lib/game-engine/random';
+import { characterManager } from './character';
+import { spellSystem } from './spells';
+import { DangerLevel, TimeOfDay } from './location-generator';
+import { STATUS_EFFECT_CONFIG, statusEffectManager } from './status-effects';
+import { advanceClock, getTimeOfDay, isNight } from './world-clock';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const REST_CONSTANTS = {
+  HOURS: { short: 1, long: 8 },
+  // Share of maximum health an uninterrupted rest restores
+  HEALING: { short: 0.25, long: 1 },
+  // Status effect durations count turns, roughly a minute each
+  TICKS_PER_HOUR: 60,
+  NIGHT_DANGER_MULTIPLIER: 2,
+} as const;
+
+// Chance each hour that something disturbs the rest
+const ENCOUNTER_CHANCE: Record<DangerLevel, number> = {
+  safe: 0,
+  low: 0.02,
+  moderate: 0.05,
+  high: 0.1,
+  extreme: 0.2,
+};
+
+// Locations generated without a danger level are judged by their type
+const LOCATION_TYPE_DANGER: Record<LocationType, DangerLevel> = {
+  town: 'safe',
+  tavern: 'safe',
+  shop: 'safe',
+  temple: 'low',
+  castle: 'low',
+  forest: 'moderate',
+  mountain: 'moderate',
+  wilderness: 'moderate',
+  custom: 'moderate',
+  ruins: 'high',
+  cave: 'high',
+  dungeon: 'extreme',
+};
+
+// ============================================================================
+// REST TYPES
+// ============================================================================
+
+export type RestType = keyof typeof REST_CONSTANTS.HOURS;
+
+export interface RestInterruption {
+  readonly hour: number; // Hours into the rest
+  readonly timeOfDay: TimeOfDay;
+  readonly dangerLevel: DangerLevel;
+  readonly ambushers: NPC[];
+}
+
+export interface RestResult {
+  readonly type: RestType;
+  readonly hoursRested: number;
+  readonly completed: boolean;
+  readonly healing: number;
+  readonly wornOff: string[];
+  readonly player: RPGPlayer;
+  readonly state: RPGGameState;
+  readonly interruption?: RestInterruption;
+}
+
+// ============================================================================
+// REST SYSTEM CLASS
+// ============================================================================
+
+export class RestSystem {
+  private static instance: RestSystem;
+
+  private constructor() {}
+
+  static getInstance(): RestSystem {
+    if (!RestSystem.instance) {
+      RestSystem.instance = new RestSystem();
+    }
+    return RestSystem.instance;
+  }
+
+  /**
+   * Rest at a location. Status effects tick for every hour that passes, but
+   * health and mana only come back for the hours rested before any
+   * interruption.
+   */
+  rest(
+    player: RPGPlayer,
+    location: Location,
+    state: RPGGameState,
+    type: RestType,
+    random: RandomSource
+  ): RestResult {
+    const { character } = player.gameSpecificData;
+    if (!character) {
+      throw new GameError(
+        'INVALID_ACTION',
+        'Create a character before resting',
+        {
+          playerId: player.id,
+        }
+      );
+    }
+
+    const hours = REST_CONSTANTS.HOURS[type];
+    const dangerLevel = this.getDangerLevel(location);
+    const interruptedAt = this.rollInterruption(
+      dangerLevel,
+      state.data.timeOfDay,
+      hours,
+      random
+    );
+    const hoursRested = interruptedAt ?? hours;
+    const restfulHours = interruptedAt ? interruptedAt - 1 : hours;
+
+    const ticked = this.tickStatusEffects(
+      character,
+      hoursRested * REST_CONSTANTS.TICKS_PER_HOUR
+    );
+    const recovered = (REST_CONSTANTS.HEALING[type] * restfulHours) / hours;
+    const rested = spellSystem.restoreMana(
+      characterManager.healCharacter(
+        ticked.character,
+        Math.floor(character.maxHealth * recovered)
+      ),
+      recovered
+    );
+
+    return {
+      type,
+      hoursRested,
+      completed: interruptedAt === null,
+      healing: rested.currentHealth - ticked.character.currentHealth,
+      wornOff: ticked.wornOff,
+      player: {
+        ...player,
+        gameSpecificData: { ...player.gameSpecificData, character: rested },
+      },
+      state: advanceClock(state, hoursRested),
+      interruption:
+        interruptedAt === null
+          ? undefined
+          : {
+              hour: interruptedAt,
+              timeOfDay: getTimeOfDay(state.data.timeOfDay + interruptedAt),
+              dangerLevel,
+              ambushers: this.findAmbushers(location, state.data.world.npcs),
+            },
+    };
+  }
+
+  /**
+   * Danger of a location, from generation or else from its type
+   */
+  getDangerLevel(location: Location): DangerLevel {
+    return (
+      (location as Location & { dangerLevel?: DangerLevel }).dangerLevel ??
+      LOCATION_TYPE_DANGER[location.type]
+    );
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Roll each hour of the rest in turn, returning the hour something
+   * arrives or null if the rest goes undisturbed
+   */
+  private rollInterruption(
+    dangerLevel: DangerLevel,
+    startHour: number,
+    hours: number,
+    random: RandomSource
+  ): number | null {
+    const chance = ENCOUNTER_CHANCE[dangerLevel];
+    if (chance === 0) {
+      return null;
+    }
+
+    for (let hour = 1; hour <= hours; hour++) {
+      const multiplier = isNight(startHour + hour)
+        ? REST_CONSTANTS.NIGHT_DANGER_MULTIPLIER
+        : 1;
+      if (random.chance(Math.min(1, chance * multiplier))) {
+        return hour;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Run status effects forward, applying their damage and healing as they
+   * go and stopping early once only permanent effects remain
+   */
+  private tickStatusEffects(
+    character: Character,
+    ticks: number
+  ): { character: Character; wornOff: string[] } {
+    let current = character;
+    const wornOff: string[] = [];
+
+    for (
+      let tick = 0;
+      tick < ticks &&
+      current.statusEffects.some(
+        effect => effect.duration !== STATUS_EFFECT_CONFIG.PERMANENT_DURATION
+      );
+      tick++
+    ) {
+      const { updatedEffects, tickResults } =
+        statusEffectManager.processStatusEffectTicks(current);
+      const change = tickResults.reduce(
+        (total, result) => total + (result.healing ?? 0) - (result.damage ?? 0),
+        0
+      );
+
+      const names = new Set(updatedEffects.map(effect => effect.name));
+      wornOff.push(
+        ...current.statusEffects
+          .filter(effect => !names.has(effect.name))
+          .map(effect => effect.name)
+      );
+      current = {
+        ...current,
+        statusEffects: updatedEffects,
+        currentHealth: Math.max(
+          0,
+          Math.min(current.maxHealth, current.currentHealth + change)
+        ),
+      };
+    }
+
+    return { character: current, wornOff };
+  }
+
+  /**
+   * Hostile NPCs here or in a neighbouring location
+   */
+  private findAmbushers(location: Location, npcs: NPC[]): NPC[] {
+    const nearby = new Set([location.id, ...location.connections]);
+    return npcs.filter(
+      npc =>
+        npc.personality.disposition === 'hostile' &&
+        nearby.has(npc.currentLocation) &&
+        npc.character.currentHealth > 0
+    );
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const restSystem = RestSystem.getInstance();
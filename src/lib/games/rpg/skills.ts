@@ -8,6 +8,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Character, CharacterSkills, CharacterStats, UUID } from '@/types/rpg';
 import { GameError } from '@/types/core';
+import { SPELL_DEFINITIONS } from './spells';
 
 // ============================================================================
 // SKILL TREE INTERFACES & TYPES
@@ -39,7 +40,8 @@ export interface SkillEffect {
     | 'stat_bonus'
     | 'skill_bonus'
     | 'special_ability'
-    | 'unlock_action';
+    | 'unlock_action'
+    | 'learn_spell';
   readonly target: string;
   readonly value: number | string;
   readonly description: string;
@@ -342,6 +344,12 @@ export class SkillTreeManager {
               specialAbilities.push(`Action: ${effect.value}`);
             }
             break;
+
+          case 'learn_spell':
+            if (typeof effect.value === 'string') {
+              specialAbilities.push(`Spell: ${effect.value}`);
+            }
+            break;
         }
       }
     }
@@ -353,6 +361,15 @@ export class SkillTreeManager {
     };
   }
 
+  /**
+   * Spells a skill adds to the learner's spellbook
+   */
+  getTaughtSpells(skillId: UUID): string[] {
+    return (this.getSkillNode(skillId)?.effects ?? [])
+      .filter(effect => effect.type === 'learn_spell')
+      .map(effect => String(effect.value));
+  }
+
   // ============================================================================
   // HELPER METHODS
   // ============================================================================
@@ -704,6 +721,76 @@ export class SkillTreeManager {
         cost: { skillPoints: 4, prerequisites: [] },
         isPassive: false,
       },
+
+      // Spells - each node teaches spells for the spellbook
+      this.createSpellNode('Evocation', 'fire_bolt', 1, [
+        {
+          type: 'stat',
+          target: 'intelligence',
+          value: 12,
+          description: 'Intelligence 12+',
+        },
+      ]),
+      this.createSpellNode('Mending Arts', 'mending_light', 1, [
+        {
+          type: 'stat',
+          target: 'wisdom',
+          value: 12,
+          description: 'Wisdom 12+',
+        },
+      ]),
+      this.createSpellNode('Warding', 'arcane_ward', 1, [
+        {
+          type: 'skill',
+          target: 'magic',
+          value: 5,
+          description: 'Magic skill 5+',
+        },
+      ]),
+      this.createSpellNode('Hexcraft', 'hex_of_sloth', 1, [
+        {
+          type: 'skill',
+          target: 'magic',
+          value: 5,
+          description: 'Magic skill 5+',
+        },
+      ]),
+      this.createSpellNode('Frost Weaving', 'frost_nova', 2, [
+        {
+          type: 'skill',
+          target: 'magic',
+          value: 10,
+          description: 'Magic skill 10+',
+        },
+        { type: 'level', target: 'level', value: 3, description: 'Level 3+' },
+      ]),
+      this.createSpellNode('Blightcraft', 'blight', 2, [
+        {
+          type: 'skill',
+          target: 'magic',
+          value: 10,
+          description: 'Magic skill 10+',
+        },
+        { type: 'level', target: 'level', value: 3, description: 'Level 3+' },
+      ]),
+      this.createSpellNode('Storm Calling', 'lightning_lance', 3, [
+        {
+          type: 'skill',
+          target: 'magic',
+          value: 20,
+          description: 'Magic skill 20+',
+        },
+        { type: 'level', target: 'level', value: 5, description: 'Level 5+' },
+      ]),
+      this.createSpellNode('Circle of Healing', 'healing_circle', 3, [
+        {
+          type: 'stat',
+          target: 'wisdom',
+          value: 14,
+          description: 'Wisdom 14+',
+        },
+        { type: 'level', target: 'level', value: 5, description: 'Level 5+' },
+      ]),
     ];
 
     return {
@@ -715,6 +802,34 @@ export class SkillTreeManager {
     };
   }
 
+  private createSpellNode(
+    name: string,
+    spellId: string,
+    tier: number,
+    prerequisites: SkillPrerequisite[]
+  ): SkillNode {
+    const spell = SPELL_DEFINITIONS[spellId]!;
+    return {
+      id: uuidv4(),
+      name,
+      description: `Learn ${spell.name}: ${spell.description.toLowerCase()}`,
+      category: 'magic',
+      tier,
+      maxRank: 1,
+      prerequisites,
+      effects: [
+        {
+          type: 'learn_spell',
+          target: 'spellbook',
+          value: spellId,
+          description: `Adds ${spell.name} to the spellbook`,
+        },
+      ],
+      cost: { skillPoints: tier, prerequisites: [] },
+      isPassive: false,
+    };
+  }
+
   private createStealthSkillTree(): SkillTree {
     const nodes: SkillNode[] = [
       // Tier 1
@@ -0,0 +1,543 @@
+/**
+ * RPG Spell System
+ *
+ * Spell definitions and each character's spellbook. Characters know spells
+ * from their class abilities and from magic skills they learn, prepare a
+ * handful of them at a time, and spend mana to cast them. Spells strike a
+ * single target or an area of the battlefield by zone, and may leave status
+ * effects behind. Combat resolution lives in the combat system; this module
+ * answers what a spell is, who it reaches and whether it can be cast.
+ */
+
+import {
+  Character,
+  CombatParticipant,
+  CombatPosition,
+  Spellbook,
+} from '@/types/rpg';
+import { GameError } from '@/types/core';
+import { RandomSource } from '@/lib/game-engine/random';
+import { characterManager } from './character';
+import {
+  STATUS_EFFECT_TYPES,
+  StatusEffectType,
+  statusEffectManager,
+} from './status-effects';
+
+// ============================================================================
+// SPELL TYPES
+// ============================================================================
+
+export type SpellSchool =
+  | 'evocation'
+  | 'abjuration'
+  | 'necromancy'
+  | 'restoration'
+  | 'enchantment';
+
+export type SpellDamageType =
+  | 'magical'
+  | 'fire'
+  | 'ice'
+  | 'lightning'
+  | 'poison'
+  | 'healing';
+
+/**
+ * How far a spell reaches from its target. Zones run front to back, so a
+ * line carries on behind the target's zone and a burst spills into the
+ * zones either side of it.
+ */
+export type SpellAreaShape = 'single' | 'self' | 'zone' | 'line' | 'burst';
+
+export interface SpellArea {
+  readonly shape: SpellAreaShape;
+  readonly affects: 'enemies' | 'allies' | 'all';
+}
+
+export interface SpellStatusEffect {
+  readonly type: StatusEffectType;
+  readonly duration: number;
+  readonly chance: number; // 0-1, rolled for each creature the spell reaches
+}
+
+export interface SpellDefinition {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly school: SpellSchool;
+  readonly level: number;
+  readonly manaCost: number;
+  readonly cooldown: number; // Rounds before it can be cast again
+  readonly damageType: SpellDamageType;
+  readonly power?: { dice: number; sides: number; bonus: number };
+  readonly area: SpellArea;
+  readonly statusEffects: SpellStatusEffect[];
+}
+
+// ============================================================================
+// SPELL DEFINITIONS
+// ============================================================================
+
+const ZONE_ORDER: CombatPosition['zone'][] = ['front', 'middle', 'back'];
+
+export const SPELL_DEFINITIONS: Record<string, SpellDefinition> = {
+  fire_bolt: {
+    id: 'fire_bolt',
+    name: 'Fire Bolt',
+    description: 'Hurls a mote of flame that may set the target alight',
+    school: 'evocation',
+    level: 1,
+    manaCost: 5,
+    cooldown: 0,
+    damageType: 'fire',
+    power: { dice: 2, sides: 6, bonus: 0 },
+    area: { shape: 'single', affects: 'enemies' },
+    statusEffects: [
+      { type: STATUS_EFFECT_TYPES.BURNING, duration: 2, chance: 0.3 },
+    ],
+  },
+  frost_nova: {
+    id: 'frost_nova',
+    name: 'Frost Nova',
+    description: 'A wave of cold that rimes every foe in one rank',
+    school: 'evocation',
+    level: 2,
+    manaCost: 12,
+    cooldown: 2,
+    damageType: 'ice',
+    power: { dice: 2, sides: 4, bonus: 1 },
+    area: { shape: 'zone', affects: 'enemies' },
+    statusEffects: [
+      { type: STATUS_EFFECT_TYPES.FROZEN, duration: 1, chance: 0.4 },
+    ],
+  },
+  lightning_lance: {
+    id: 'lightning_lance',
+    name: 'Lightning Lance',
+    description: 'A bolt that runs through the target and the ranks behind',
+    school: 'evocation',
+    level: 3,
+    manaCost: 14,
+    cooldown: 2,
+    damageType: 'lightning',
+    power: { dice: 3, sides: 6, bonus: 0 },
+    area: { shape: 'line', affects: 'enemies' },
+    statusEffects: [
+      { type: STATUS_EFFECT_TYPES.STUNNED, duration: 1, chance: 0.2 },
+    ],
+  },
+  blight: {
+    id: 'blight',
+    name: 'Blight',
+    description: 'A cloud of rot that spreads across neighbouring ranks',
+    school: 'necromancy',
+    level: 2,
+    manaCost: 10,
+    cooldown: 1,
+    damageType: 'poison',
+    power: { dice: 1, sides: 6, bonus: 0 },
+    area: { shape: 'burst', affects: 'enemies' },
+    statusEffects: [
+      { type: STATUS_EFFECT_TYPES.POISONED, duration: 3, chance: 0.6 },
+    ],
+  },
+  mending_light: {
+    id: 'mending_light',
+    name: 'Mending Light',
+    description: 'Knits the wounds of a single ally',
+    school: 'restoration',
+    level: 1,
+    manaCost: 6,
+    cooldown: 1,
+    damageType: 'healing',
+    power: { dice: 2, sides: 8, bonus: 0 },
+    area: { shape: 'single', affects: 'allies' },
+    statusEffects: [],
+  },
+  healing_circle: {
+    id: 'healing_circle',
+    name: 'Healing Circle',
+    description: 'Soothes every ally in one rank and keeps them mending',
+    school: 'restoration',
+    level: 3,
+    manaCost: 15,
+    cooldown: 3,
+    damageType: 'healing',
+    power: { dice: 2, sides: 6, bonus: 0 },
+    area: { shape: 'zone', affects: 'allies' },
+    statusEffects: [
+      { type: STATUS_EFFECT_TYPES.REGENERATION, duration: 3, chance: 1 },
+    ],
+  },
+  arcane_ward: {
+    id: 'arcane_ward',
+    name: 'Arcane Ward',
+    description: 'Wraps the caster in a shell that turns aside magic',
+    school: 'abjuration',
+    level: 1,
+    manaCost: 6,
+    cooldown: 3,
+    damageType: 'magical',
+    area: { shape: 'self', affects: 'allies' },
+    statusEffects: [
+      { type: STATUS_EFFECT_TYPES.MAGIC_RESISTANCE, duration: 5, chance: 1 },
+    ],
+  },
+  hex_of_sloth: {
+    id: 'hex_of_sloth',
+    name: 'Hex of Sloth',
+    description: 'Weighs down a foe so they act less often',
+    school: 'enchantment',
+    level: 1,
+    manaCost: 4,
+    cooldown: 2,
+    damageType: 'magical',
+    area: { shape: 'single', affects: 'enemies' },
+    statusEffects: [
+      { type: STATUS_EFFECT_TYPES.SLOW, duration: 3, chance: 0.8 },
+    ],
+  },
+};
+
+// ============================================================================
+// SPELL SYSTEM CLASS
+// ============================================================================
+
+export class SpellSystem {
+  private static instance: SpellSystem;
+
+  private constructor() {}
+
+  static getInstance(): SpellSystem {
+    if (!SpellSystem.instance) {
+      SpellSystem.instance = new SpellSystem();
+    }
+    return SpellSystem.instance;
+  }
+
+  // ============================================================================
+  // SPELLBOOK
+  // ============================================================================
+
+  getSpell(spellId: string): SpellDefinition | undefined {
+    return SPELL_DEFINITIONS[spellId];
+  }
+
+  /**
+   * A character's spellbook, including spells granted by their class. A
+   * character who has never cast starts with full mana and their first
+   * known spells prepared.
+   */
+  getSpellbook(character: Character): Spellbook {
+    const known = [
+      ...new Set([
+        ...this.getClassSpells(character),
+        ...(character.spellbook?.known ?? []),
+      ]),
+    ];
+
+    if (character.spellbook) {
+      return { ...character.spellbook, known };
+    }
+    return {
+      known,
+      prepared: known.slice(0, this.getPreparedLimit(character)),
+      mana: this.getMaxMana(character),
+      cooldowns: {},
+    };
+  }
+
+  getMaxMana(character: Character): number {
+    return Math.max(
+      0,
+      characterManager.calculateStats(character).derivedStats.manaPoints
+    );
+  }
+
+  /**
+   * How many spells a character can hold ready at once
+   */
+  getPreparedLimit(character: Character): number {
+    const intelligenceModifier = Math.floor(
+      (character.stats.intelligence - 10) / 2
+    );
+    return Math.max(1, intelligenceModifier + Math.ceil(character.level / 2));
+  }
+
+  getPreparedSpells(character: Character): SpellDefinition[] {
+    return this.getSpellbook(character)
+      .prepared.map(id => this.getSpell(id))
+      .filter((spell): spell is SpellDefinition => spell !== undefined);
+  }
+
+  /**
+   * Add spells to a character's spellbook, preparing them if there is room
+   */
+  learnSpells(character: Character, spellIds: string[]): Character {
+    const unknown = spellIds.filter(id => !this.getSpell(id));
+    if (unknown.length > 0) {
+      throw new GameError('VALIDATION_ERROR', 'Unknown spell', {
+        spellIds: unknown,
+      });
+    }
+
+    const spellbook = this.getSpellbook(character);
+    const learned = spellIds.filter(id => !spellbook.known.includes(id));
+    const room = this.getPreparedLimit(character) - spellbook.prepared.length;
+
+    return {
+      ...character,
+      spellbook: {
+        ...spellbook,
+        known: [...spellbook.known, ...learned],
+        prepared: [
+          ...spellbook.prepared,
+          ...learned.slice(0, Math.max(0, room)),
+        ],
+      },
+    };
+  }
+
+  /**
+   * Choose which known spells are ready to cast
+   */
+  prepareSpells(character: Character, spellIds: string[]): Character {
+    const spellbook = this.getSpellbook(character);
+    const prepared = [...new Set(spellIds)];
+
+    const unknown = prepared.filter(id => !spellbook.known.includes(id));
+    if (unknown.length > 0) {
+      throw new GameError('INVALID_ACTION', 'Spell has not been learned', {
+        spellIds: unknown,
+      });
+    }
+    const limit = this.getPreparedLimit(character);
+    if (prepared.length > limit) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `Only ${limit} spells can be prepared`,
+        { limit }
+      );
+    }
+
+    return { ...character, spellbook: { ...spellbook, prepared } };
+  }
+
+  // ============================================================================
+  // CASTING
+  // ============================================================================
+
+  /**
+   * Why a character can't cast a spell right now, if they can't
+   */
+  getCastingError(character: Character, spellId?: string): string | undefined {
+    const spell = spellId ? this.getSpell(spellId) : undefined;
+    if (!spell) {
+      return 'Choose a spell to cast';
+    }
+
+    const spellbook = this.getSpellbook(character);
+    if (!spellbook.prepared.includes(spell.id)) {
+      return `${spell.name} is not prepared`;
+    }
+    if (spellbook.mana < spell.manaCost) {
+      return `Not enough mana to cast ${spell.name}`;
+    }
+    if ((spellbook.cooldowns[spell.id] ?? 0) > 0) {
+      return `${spell.name} is not ready yet`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Pay a spell's mana and start its cooldown
+   */
+  spendCast(character: Character, spell: SpellDefinition): Character {
+    const spellbook = this.getSpellbook(character);
+    const cooldowns = { ...spellbook.cooldowns };
+    if (spell.cooldown > 0) {
+      cooldowns[spell.id] = spell.cooldown;
+    }
+
+    return {
+      ...character,
+      spellbook: {
+        ...spellbook,
+        mana: Math.max(0, spellbook.mana - spell.manaCost),
+        cooldowns,
+      },
+    };
+  }
+
+  /**
+   * Count cooldowns down by a round
+   */
+  tickCooldowns(character: Character): Character {
+    if (!character.spellbook) {
+      return character;
+    }
+
+    const cooldowns = Object.fromEntries(
+      Object.entries(character.spellbook.cooldowns)
+        .map(([id, rounds]) => [id, rounds - 1] as const)
+        .filter(([, rounds]) => rounds > 0)
+    );
+    return { ...character, spellbook: { ...character.spellbook, cooldowns } };
+  }
+
+  /**
+   * Give back a share of maximum mana
+   */
+  restoreMana(character: Character, fraction: number): Character {
+    if (!character.spellbook) {
+      return character;
+    }
+
+    const maxMana = this.getMaxMana(character);
+    return {
+      ...character,
+      spellbook: {
+        ...character.spellbook,
+        mana: Math.min(
+          maxMana,
+          character.spellbook.mana + Math.floor(maxMana * fraction)
+        ),
+      },
+    };
+  }
+
+  /**
+   * Roll a spell's dice, scaled by anything boosting the caster's spells.
+   * Healing also draws on the caster's wisdom.
+   */
+  rollPower(
+    spell: SpellDefinition,
+    caster: Character,
+    random: RandomSource
+  ): number {
+    if (!spell.power) {
+      return 0;
+    }
+
+    let total = spell.power.bonus;
+    for (let die = 0; die < spell.power.dice; die++) {
+      total += random.roll(spell.power.sides);
+    }
+    if (spell.damageType === 'healing') {
+      total += Math.floor((caster.stats.wisdom - 10) / 2);
+    }
+
+    const { spellPowerModifier = 1 } =
+      statusEffectManager.getStatusEffectModifiers(caster);
+    return Math.max(0, Math.floor(total * spellPowerModifier));
+  }
+
+  // ============================================================================
+  // TARGETING
+  // ============================================================================
+
+  /**
+   * Whether a spell may be aimed at a participant
+   */
+  isValidTarget(
+    spell: SpellDefinition,
+    caster: CombatParticipant,
+    target: CombatParticipant | undefined
+  ): boolean {
+    if (spell.area.shape === 'self') {
+      return true;
+    }
+    if (!target) {
+      return false;
+    }
+    return this.affects(spell, caster, target);
+  }
+
+  /**
+   * Everyone a spell reaches when aimed at a target
+   */
+  getAffectedParticipants(
+    spell: SpellDefinition,
+    caster: CombatParticipant,
+    target: CombatParticipant | undefined,
+    participants: CombatParticipant[]
+  ): CombatParticipant[] {
+    if (spell.area.shape === 'self') {
+      return [caster];
+    }
+    if (!target) {
+      return [];
+    }
+    if (spell.area.shape === 'single') {
+      return [target];
+    }
+
+    const zones = this.getZones(spell.area.shape, target.position.zone);
+    return participants.filter(
+      p =>
+        p.character.currentHealth > 0 &&
+        zones.includes(p.position.zone) &&
+        this.affects(spell, caster, p)
+    );
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Spells granted by class abilities of the 'spell' type, once the
+   * character reaches the ability's level
+   */
+  private getClassSpells(character: Character): string[] {
+    return (character.class?.abilities ?? [])
+      .filter(
+        ability =>
+          ability.type === 'spell' && ability.levelRequired <= character.level
+      )
+      .map(ability => ability.effects.spellId)
+      .filter(
+        (spellId): spellId is string =>
+          typeof spellId === 'string' && spellId in SPELL_DEFINITIONS
+      );
+  }
+
+  private affects(
+    spell: SpellDefinition,
+    caster: CombatParticipant,
+    participant: CombatParticipant
+  ): boolean {
+    const isAlly =
+      (caster.type === 'player') === (participant.type === 'player');
+    switch (spell.area.affects) {
+      case 'enemies':
+        return !isAlly;
+      case 'allies':
+        return isAlly;
+      case 'all':
+        return true;
+    }
+  }
+
+  private getZones(
+    shape: SpellAreaShape,
+    zone: CombatPosition['zone']
+  ): CombatPosition['zone'][] {
+    const index = ZONE_ORDER.indexOf(zone);
+    switch (shape) {
+      case 'line':
+        return ZONE_ORDER.slice(index);
+      case 'burst':
+        return ZONE_ORDER.slice(Math.max(0, index - 1), index + 2);
+      default:
+        return [zone];
+    }
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const spellSystem = SpellSystem.getInstance();
@@ -69,7 +69,7 @@ export const STATUS_EFFECT_TYPES = {
 export type StatusEffectType =
   (typeof STATUS_EFFECT_TYPES)[keyof typeof STATUS_EFFECT_TYPES];
 
-const STATUS_EFFECT_CONFIG = {
+export const STATUS_EFFECT_CONFIG = {
   MAX_DURATION: 50,
   MAX_STACKS: 10,
   DEFAULT_TICK_INTERVAL: 1, // Turns between ticks
@@ -779,16 +779,21 @@ export class StatusEffectManager {
     }> = [];
 
     for (const effect of character.statusEffects) {
-      const definition = this.getDefinitionByName(effect.name);
-      if (!definition) {
+      // Permanent effects never wear off
+      if (effect.duration === STATUS_EFFECT_CONFIG.PERMANENT_DURATION) {
+        updatedEffects.push(effect);
         continue;
       }
 
+      // Effects granted by items have no definition and only count down
+      const definition = this.getDefinitionByName(effect.name);
+
       // Reduce duration
       const newDuration = effect.duration - 1;
 
       // Check if effect should tick
       const shouldTick =
+        definition &&
         definition.tickInterval > 0 &&
         characterTurn % definition.tickInterval === 0 &&
         definition.onTick;
@@ -814,7 +819,7 @@ export class StatusEffectManager {
         });
       } else {
         // Effect expired, call onRemove if present
-        if (definition.onRemove) {
+        if (definition?.onRemove) {
           definition.onRemove(character, this.getStackCount(effect));
         }
         tickResults.push({
@@ -0,0 +1,522 @@
+/**
+ * RPG Tactical Grid
+ *
+ * Square-grid rules for fights played in tactical mode. The combat
+ * environment's size sets the board and its hazards lay down terrain:
+ * rough or dangerous squares cost double to cross and blocked squares stop
+ * both movement and sight. Each fighter moves a number of squares set by
+ * their dexterity, attacks and spells need range and a clear line of sight,
+ * and slipping out of an enemy's reach invites an opportunity attack.
+ * Distances are counted in squares, diagonals included.
+ */
+
+import {
+  Character,
+  CombatAction,
+  CombatEnvironment,
+  CombatParticipant,
+  CombatPosition,
+  CombatSession,
+  EnvironmentHazard,
+  LocationFeature,
+} from '@/types/rpg';
+import { RandomSource } from '@/lib/game-engine/random';
+import { spellSystem } from './spells';
+import { statusEffectManager } from './status-effects';
+
+// ============================================================================
+// GRID TYPES
+// ============================================================================
+
+export type TerrainType = 'open' | 'difficult' | 'hazardous' | 'blocked';
+
+export interface GridPoint {
+  readonly x: number;
+  readonly y: number;
+}
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const GRID_CONFIG = {
+  BASE_MOVEMENT: 4, // Squares per move, before dexterity
+  MIN_MOVEMENT: 1,
+  MELEE_RANGE: 1,
+  SPELL_RANGE: 6,
+  FRONT_DISTANCE: 1, // Within reach of an enemy
+  MIDDLE_DISTANCE: 3,
+  HAZARD_FREQUENCY: 30, // Chance per turn for hazards placed from features
+} as const;
+
+export const DEFAULT_BOARD_SIZE: CombatEnvironment['size'] = {
+  width: 10,
+  height: 10,
+};
+
+const TERRAIN_COST: Record<TerrainType, number> = {
+  open: 1,
+  difficult: 2,
+  hazardous: 2,
+  blocked: Infinity,
+};
+
+const HAZARD_TYPES: EnvironmentHazard['type'][] = [
+  'fire',
+  'ice',
+  'poison',
+  'physical',
+  'magical',
+];
+
+const NEIGHBOURS: GridPoint[] = [-1, 0, 1]
+  .flatMap(dx => [-1, 0, 1].map(dy => ({ x: dx, y: dy })))
+  .filter(({ x, y }) => x !== 0 || y !== 0);
+
+// ============================================================================
+// TACTICAL GRID CLASS
+// ============================================================================
+
+export class TacticalGrid {
+  private static instance: TacticalGrid;
+
+  private constructor() {}
+
+  static getInstance(): TacticalGrid {
+    if (!TacticalGrid.instance) {
+      TacticalGrid.instance = new TacticalGrid();
+    }
+    return TacticalGrid.instance;
+  }
+
+  // ============================================================================
+  // TERRAIN
+  // ============================================================================
+
+  isTactical(session: CombatSession): boolean {
+    return session.environment.tactical === true;
+  }
+
+  /**
+   * The terrain of a square. Squares off the board count as blocked.
+   */
+  getTerrain(environment: CombatEnvironment, point: GridPoint): TerrainType {
+    if (!this.isOnBoard(environment, point)) {
+      return 'blocked';
+    }
+
+    let terrain: TerrainType = 'open';
+    for (const hazard of environment.hazards) {
+      if (!hazard.area.some(cell => this.isSamePoint(cell, point))) {
+        continue;
+      }
+      const hazardTerrain = this.getHazardTerrain(hazard);
+      if (TERRAIN_COST[hazardTerrain] > TERRAIN_COST[terrain]) {
+        terrain = hazardTerrain;
+      }
+    }
+    return terrain;
+  }
+
+  /**
+   * Terrain for every square, by row then column
+   */
+  getTerrainMap(environment: CombatEnvironment): TerrainType[][] {
+    return Array.from({ length: environment.size.height }, (_, y) =>
+      Array.from({ length: environment.size.width }, (_, x) =>
+        this.getTerrain(environment, { x, y })
+      )
+    );
+  }
+
+  /**
+   * Lay a location's hazard features out on the board as environment
+   * hazards, in the rows between the two sides
+   */
+  createHazards(
+    features: LocationFeature[],
+    size: CombatEnvironment['size'],
+    random: RandomSource
+  ): EnvironmentHazard[] {
+    return features
+      .filter(feature => feature.type === 'hazard')
+      .map(feature => {
+        const effects = feature.effects ?? {};
+        const x = random.nextInt(0, Math.max(0, size.width - 2));
+        const y = random.nextInt(
+          1,
+          Math.max(1, Math.floor(size.height / 2) - 1)
+        );
+        const type = HAZARD_TYPES.find(t => t === effects.damageType);
+        const terrain =
+          effects.terrain === 'difficult' || effects.terrain === 'blocked'
+            ? effects.terrain
+            : undefined;
+
+        return {
+          name: feature.name,
+          description: feature.description,
+          damage: typeof effects.damage === 'number' ? effects.damage : 0,
+          type: type ?? 'physical',
+          frequency:
+            typeof effects.frequency === 'number'
+              ? effects.frequency
+              : GRID_CONFIG.HAZARD_FREQUENCY,
+          area: [
+            { x, y, zone: 'middle' as const },
+            { x: x + 1, y, zone: 'middle' as const },
+          ],
+          terrain,
+        };
+      });
+  }
+
+  // ============================================================================
+  // MOVEMENT
+  // ============================================================================
+
+  /**
+   * Squares between two points, counting diagonals as one
+   */
+  getDistance(from: GridPoint, to: GridPoint): number {
+    return Math.max(Math.abs(from.x - to.x), Math.abs(from.y - to.y));
+  }
+
+  /**
+   * How many squares a fighter can cover in one move
+   */
+  getMovementRange(
+    character: Character,
+    environment: CombatEnvironment
+  ): number {
+    const dexterityModifier = Math.floor((character.stats.dexterity - 10) / 2);
+    const terrainModifier = environment.modifiers
+      .filter(modifier => modifier.type === 'movement')
+      .reduce((sum, modifier) => sum + modifier.modifier, 0);
+    const { movementModifier = 1 } =
+      statusEffectManager.getStatusEffectModifiers(character);
+
+    // Held fast by a status effect
+    if (movementModifier <= 0) {
+      return 0;
+    }
+    return Math.max(
+      GRID_CONFIG.MIN_MOVEMENT,
+      Math.floor(
+        (GRID_CONFIG.BASE_MOVEMENT + dexterityModifier + terrainModifier) *
+          movementModifier
+      )
+    );
+  }
+
+  /**
+   * Every free square a fighter can reach this move
+   */
+  getReachablePositions(
+    participant: CombatParticipant,
+    session: CombatSession
+  ): CombatPosition[] {
+    const costs = this.getMovementCosts(participant, session);
+    return [...costs.entries()]
+      .filter(
+        ([key]) =>
+          key !== this.key(participant.position) &&
+          !this.getOccupant(session, this.parseKey(key))
+      )
+      .map(([key]) =>
+        this.toPosition(this.parseKey(key), participant, session)
+      );
+  }
+
+  /**
+   * The cheapest route to a square, starting square included, or undefined
+   * if it can't be reached this move
+   */
+  findPath(
+    participant: CombatParticipant,
+    destination: GridPoint,
+    session: CombatSession
+  ): GridPoint[] | undefined {
+    const previous = new Map<string, string>();
+    const costs = this.getMovementCosts(participant, session, previous);
+    const end = this.key(destination);
+    if (!costs.has(end)) {
+      return undefined;
+    }
+
+    const path: GridPoint[] = [];
+    for (let key: string | undefined = end; key; key = previous.get(key)) {
+      path.unshift(this.parseKey(key));
+    }
+    return path;
+  }
+
+  /**
+   * Why a fighter can't move to a square, if they can't
+   */
+  getMoveError(
+    participant: CombatParticipant,
+    destination: GridPoint | undefined,
+    session: CombatSession
+  ): string | undefined {
+    if (!destination) {
+      return 'Choose a square to move to';
+    }
+    if (this.getTerrain(session.environment, destination) === 'blocked') {
+      return 'That square is blocked';
+    }
+    if (this.getOccupant(session, destination)) {
+      return 'That square is taken';
+    }
+    if (!this.findPath(participant, destination, session)) {
+      return 'That square is out of reach';
+    }
+    return undefined;
+  }
+
+  /**
+   * Enemies whose reach the mover slips out of along the path. Each gets
+   * one attack, however many of their squares the path leaves.
+   */
+  getOpportunityAttackers(
+    mover: CombatParticipant,
+    path: GridPoint[],
+    session: CombatSession
+  ): CombatParticipant[] {
+    const enemies = session.participants.filter(
+      p => !this.isAlly(mover, p) && p.character.currentHealth > 0
+    );
+
+    const attackers = new Set<CombatParticipant>();
+    for (let step = 1; step < path.length; step++) {
+      for (const enemy of enemies) {
+        const from = this.getDistance(path[step - 1]!, enemy.position);
+        const to = this.getDistance(path[step]!, enemy.position);
+        if (from <= GRID_CONFIG.MELEE_RANGE && to > GRID_CONFIG.MELEE_RANGE) {
+          attackers.add(enemy);
+        }
+      }
+    }
+    return [...attackers];
+  }
+
+  // ============================================================================
+  // RANGE & LINE OF SIGHT
+  // ============================================================================
+
+  /**
+   * How far an action reaches: a spell's range, a ranged weapon's range
+   * effect, or the squares next to the attacker. First aid is always given
+   * from the next square.
+   */
+  getActionRange(
+    actor: CombatParticipant,
+    action: Pick<CombatAction, 'type' | 'data'>
+  ): number {
+    if (action.type === 'cast_spell') {
+      const spell = spellSystem.getSpell(action.data.spellId ?? '');
+      return spell?.area.shape === 'self' ? 0 : GRID_CONFIG.SPELL_RANGE;
+    }
+    if (action.type === 'stabilize') {
+      return GRID_CONFIG.MELEE_RANGE;
+    }
+
+    const range = actor.inventory?.equipment.mainHand?.effects?.find(
+      effect => effect.target === 'range'
+    )?.value;
+    return typeof range === 'number' ? range : GRID_CONFIG.MELEE_RANGE;
+  }
+
+  /**
+   * Whether nothing blocks the view between two squares. Only the squares
+   * strictly between them are checked.
+   */
+  hasLineOfSight(
+    environment: CombatEnvironment,
+    from: GridPoint,
+    to: GridPoint
+  ): boolean {
+    return this.getLine(from, to)
+      .slice(1, -1)
+      .every(point => this.getTerrain(environment, point) !== 'blocked');
+  }
+
+  /**
+   * Why an attack or spell can't reach its target, if it can't
+   */
+  getRangeError(
+    actor: CombatParticipant,
+    target: CombatParticipant | undefined,
+    action: Pick<CombatAction, 'type' | 'data'>,
+    session: CombatSession
+  ): string | undefined {
+    const range = this.getActionRange(actor, action);
+    if (!target || range === 0) {
+      return undefined;
+    }
+    if (this.getDistance(actor.position, target.position) > range) {
+      return `${target.character.name} is out of range`;
+    }
+    if (
+      !this.hasLineOfSight(session.environment, actor.position, target.position)
+    ) {
+      return `${target.character.name} is out of sight`;
+    }
+    return undefined;
+  }
+
+  // ============================================================================
+  // ZONES
+  // ============================================================================
+
+  /**
+   * On the grid a fighter's zone follows from how close the nearest enemy
+   * is: within reach is the front, a few squares back the middle
+   */
+  getZone(
+    point: GridPoint,
+    participant: CombatParticipant,
+    session: CombatSession
+  ): CombatPosition['zone'] {
+    const distances = session.participants
+      .filter(
+        p => !this.isAlly(participant, p) && p.character.currentHealth > 0
+      )
+      .map(p => this.getDistance(point, p.position));
+    const nearest = Math.min(...distances);
+
+    if (nearest <= GRID_CONFIG.FRONT_DISTANCE) {
+      return 'front';
+    }
+    return nearest <= GRID_CONFIG.MIDDLE_DISTANCE ? 'middle' : 'back';
+  }
+
+  /**
+   * Participants with their zones brought up to date with the board
+   */
+  assignZones(session: CombatSession): CombatParticipant[] {
+    return session.participants.map(participant => ({
+      ...participant,
+      position: this.toPosition(participant.position, participant, session),
+    }));
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Cheapest movement cost to every square within a fighter's move. Enemies
+   * block the way; allies can be passed but not stopped on.
+   */
+  private getMovementCosts(
+    participant: CombatParticipant,
+    session: CombatSession,
+    previous: Map<string, string> = new Map()
+  ): Map<string, number> {
+    const budget = this.getMovementRange(
+      participant.character,
+      session.environment
+    );
+    const start = this.key(participant.position);
+    const costs = new Map<string, number>([[start, 0]]);
+    const open = [start];
+
+    while (open.length > 0) {
+      open.sort((a, b) => costs.get(a)! - costs.get(b)!);
+      const current = open.shift()!;
+      const point = this.parseKey(current);
+
+      for (const offset of NEIGHBOURS) {
+        const next = { x: point.x + offset.x, y: point.y + offset.y };
+        const occupant = this.getOccupant(session, next);
+        if (occupant && !this.isAlly(participant, occupant)) {
+          continue;
+        }
+
+        const cost =
+          costs.get(current)! +
+          TERRAIN_COST[this.getTerrain(session.environment, next)];
+        const key = this.key(next);
+        if (cost <= budget && cost < (costs.get(key) ?? Infinity)) {
+          costs.set(key, cost);
+          previous.set(key, current);
+          open.push(key);
+        }
+      }
+    }
+
+    return costs;
+  }
+
+  /**
+   * Squares along a straight line between two points, both ends included
+   */
+  private getLine(from: GridPoint, to: GridPoint): GridPoint[] {
+    const steps = this.getDistance(from, to);
+    return Array.from({ length: steps + 1 }, (_, step) => ({
+      x: Math.round(from.x + ((to.x - from.x) * step) / (steps || 1)),
+      y: Math.round(from.y + ((to.y - from.y) * step) / (steps || 1)),
+    }));
+  }
+
+  private getHazardTerrain(hazard: EnvironmentHazard): TerrainType {
+    return hazard.terrain ?? (hazard.damage > 0 ? 'hazardous' : 'difficult');
+  }
+
+  /**
+   * The living participant standing on a square, if any
+   */
+  private getOccupant(
+    session: CombatSession,
+    point: GridPoint
+  ): CombatParticipant | undefined {
+    return session.participants.find(
+      p => p.character.currentHealth > 0 && this.isSamePoint(p.position, point)
+    );
+  }
+
+  private toPosition(
+    point: GridPoint,
+    participant: CombatParticipant,
+    session: CombatSession
+  ): CombatPosition {
+    return {
+      x: point.x,
+      y: point.y,
+      zone: this.getZone(point, participant, session),
+    };
+  }
+
+  private isOnBoard(environment: CombatEnvironment, point: GridPoint): boolean {
+    return (
+      point.x >= 0 &&
+      point.y >= 0 &&
+      point.x < environment.size.width &&
+      point.y < environment.size.height
+    );
+  }
+
+  private isSamePoint(a: GridPoint, b: GridPoint): boolean {
+    return a.x === b.x && a.y === b.y;
+  }
+
+  private isAlly(a: CombatParticipant, b: CombatParticipant): boolean {
+    return (a.type === 'player') === (b.type === 'player');
+  }
+
+  private key(point: GridPoint): string {
+    return `${point.x},${point.y}`;
+  }
+
+  private parseKey(key: string): GridPoint {
+    const [x, y] = key.split(',').map(Number);
+    return { x: x!, y: y! };
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const tacticalGrid = TacticalGrid.getInstance();
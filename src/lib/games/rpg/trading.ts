@@ -0,0 +1,1069 @@
+/**
+ * RPG Trading System
+ *
+ * Buying from and selling to NPC shops, and trades between players in the
+ * same game. Shop prices start from an item's value by rarity and condition
+ * and move with the shop's markup, the party's standing with the
+ * shopkeeper's faction and how much of the item the shop already holds.
+ *
+ * Trades between players are escrowed: whatever the proposer offers leaves
+ * their inventory when the offer is made and is held on the offer until it
+ * is accepted, declined or cancelled. Settling moves both sides or neither,
+ * and every movement of goods or gold is written to an audit trail.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Inventory,
+  InventoryItem,
+  NPC,
+  NPCShop,
+  RPGGameState,
+  RPGPlayer,
+} from '@/types/rpg';
+import { GameError, UUID } from '@/types/core';
+import { kvService } from '@/lib/database/kv-service';
+import { inventoryManager, ItemTransaction } from './inventory';
+import { loadRPGPlayer, swapRPGPlayer } from './players';
+
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+const TRADING_CONSTANTS = {
+  // Shops pay half of what they would charge
+  SELL_RATIO: 0.5,
+  // Shops never pay more than this share of their own price for an item,
+  // so selling back what was just bought can never turn a profit
+  MAX_RESALE_RATIO: 0.9,
+  // Price swing at the extremes of reputation
+  REPUTATION_INFLUENCE: 0.2,
+  MAX_REPUTATION: 100,
+  // Stock a shop considers normal; each unit above or below moves the price
+  SUPPLY_BASELINE: 5,
+  SUPPLY_STEP: 0.05,
+  SUPPLY_MIN: 0.75,
+  SUPPLY_MAX: 1.25,
+  // Markup on unique items only one shop sells
+  SPECIAL_ITEM_PREMIUM: 1.5,
+  // Attempts to write a player record that keeps changing underneath us
+  MAX_SETTLE_ATTEMPTS: 3,
+  RECORD_TTL: 30 * 24 * 60 * 60, // 30 days, matching player records
+} as const;
+
+// ============================================================================
+// TRADING TYPES
+// ============================================================================
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface TradeQuote {
+  readonly itemId: UUID;
+  readonly itemName: string;
+  readonly side: TradeSide;
+  readonly quantity: number;
+  readonly total: number;
+}
+
+export interface ShopTradeResult {
+  readonly quote: TradeQuote;
+  readonly player: RPGPlayer;
+  readonly npc: NPC;
+  readonly state: RPGGameState;
+  readonly audit: TradeAuditEntry;
+}
+
+export interface TradeTerms {
+  readonly items: { readonly itemId: UUID; readonly quantity: number }[];
+  readonly currency: number;
+}
+
+// pending: written but the proposer's goods are not in escrow yet
+// settling: claimed by an accept, decline or cancel in progress
+export type TradeOfferStatus =
+  | 'pending'
+  | 'open'
+  | 'settling'
+  | 'accepted'
+  | 'declined'
+  | 'cancelled';
+
+export interface TradeOffer {
+  readonly id: UUID;
+  readonly gameId: UUID;
+  readonly proposerId: UUID;
+  readonly recipientId: UUID;
+  readonly offer: TradeTerms;
+  readonly request: TradeTerms;
+  readonly escrow: InventoryItem[]; // Offered items, held until settled
+  readonly status: TradeOfferStatus;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+export type TradeAuditKind =
+  | 'shop_purchase'
+  | 'shop_sale'
+  | 'offer_created'
+  | 'offer_accepted'
+  | 'offer_declined'
+  | 'offer_cancelled'
+  | 'offer_failed';
+
+export interface TradeAuditEntry {
+  readonly id: UUID;
+  readonly gameId: UUID;
+  readonly timestamp: Date;
+  readonly kind: TradeAuditKind;
+  readonly playerId: UUID;
+  readonly counterpartyId: UUID; // NPC or player on the other side
+  readonly offerId?: UUID;
+  readonly transactions: ItemTransaction[];
+  readonly currency: Record<UUID, { before: number; after: number }>;
+}
+
+interface TakenGoods {
+  readonly inventory: Inventory;
+  readonly items: InventoryItem[];
+}
+
+// ============================================================================
+// TRADING SYSTEM CLASS
+// ============================================================================
+
+export class TradingSystem {
+  private static instance: TradingSystem;
+
+  private constructor() {}
+
+  static getInstance(): TradingSystem {
+    if (!TradingSystem.instance) {
+      TradingSystem.instance = new TradingSystem();
+    }
+    return TradingSystem.instance;
+  }
+
+  // ============================================================================
+  // SHOP TRADING
+  // ============================================================================
+
+  /**
+   * Price a purchase or sale without making it. Every unit is priced at the
+   * stock level it leaves or arrives at, so buying in bulk and selling one
+   * at a time (or the reverse) prices the same as any other order.
+   */
+  quote(
+    npc: NPC,
+    player: RPGPlayer,
+    state: RPGGameState,
+    itemId: UUID,
+    side: TradeSide,
+    quantity: number
+  ): TradeQuote {
+    const shop = this.requireShop(npc, state);
+    const entry = this.findTradeEntry(npc, shop, player, itemId, side);
+    if (entry.quantity < quantity) {
+      throw new GameError(
+        'INVALID_ACTION',
+        side === 'buy'
+          ? `${npc.name} only has ${entry.quantity} ${entry.item.name}`
+          : `You only have ${entry.quantity} ${entry.item.name}`,
+        { itemId, quantity, available: entry.quantity }
+      );
+    }
+
+    const reputation = this.getReputation(npc, player, state);
+    const stock = this.getStock(shop, itemId);
+    let total = 0;
+    for (let unit = 0; unit < quantity; unit++) {
+      total +=
+        side === 'buy'
+          ? this.buyPrice(shop, entry, reputation, stock - unit)
+          : this.sellPrice(shop, entry, reputation, stock + unit);
+    }
+
+    return { itemId, itemName: entry.item.name, side, quantity, total };
+  }
+
+  /**
+   * Buy items from an NPC's shop. Shops have unlimited gold; their stock
+   * is what runs out.
+   */
+  buy(
+    npc: NPC,
+    player: RPGPlayer,
+    state: RPGGameState,
+    itemId: UUID,
+    quantity: number
+  ): ShopTradeResult {
+    const quote = this.quote(npc, player, state, itemId, 'buy', quantity);
+    const shop = npc.shop!;
+    const entry = shop.inventory.find(stock => stock.item.id === itemId)!;
+    const { inventory } = player.gameSpecificData;
+
+    const updatedInventory = inventoryManager.addItem(
+      inventoryManager.adjustCurrency(inventory, -quote.total),
+      entry.item,
+      quantity,
+      entry.condition
+    );
+    const updatedNPC: NPC = {
+      ...npc,
+      shop: {
+        ...shop,
+        inventory: this.removeStock(shop.inventory, itemId, quantity),
+      },
+    };
+
+    return this.completeShopTrade(
+      'shop_purchase',
+      quote,
+      entry,
+      player,
+      updatedInventory,
+      updatedNPC,
+      state
+    );
+  }
+
+  /**
+   * Sell items from a player's inventory to an NPC's shop
+   */
+  sell(
+    npc: NPC,
+    player: RPGPlayer,
+    state: RPGGameState,
+    itemId: UUID,
+    quantity: number
+  ): ShopTradeResult {
+    const quote = this.quote(npc, player, state, itemId, 'sell', quantity);
+    const shop = npc.shop!;
+    const { inventory } = player.gameSpecificData;
+    const entry = inventory.items.find(owned => owned.item.id === itemId)!;
+
+    const updatedInventory = inventoryManager.adjustCurrency(
+      inventoryManager.removeItem(inventory, itemId, quantity),
+      quote.total
+    );
+    const updatedNPC: NPC = {
+      ...npc,
+      shop: {
+        ...shop,
+        inventory: this.addStock(shop.inventory, entry, quantity),
+      },
+    };
+
+    return this.completeShopTrade(
+      'shop_sale',
+      quote,
+      entry,
+      player,
+      updatedInventory,
+      updatedNPC,
+      state
+    );
+  }
+
+  // ============================================================================
+  // PLAYER TRADING
+  // ============================================================================
+
+  /**
+   * Offer goods and gold to another player in exchange for theirs. The
+   * offered side goes into escrow straight away.
+   */
+  async proposeTrade(
+    gameId: UUID,
+    proposerId: UUID,
+    recipientId: UUID,
+    offer: TradeTerms,
+    request: TradeTerms
+  ): Promise<TradeOffer> {
+    if (proposerId === recipientId) {
+      throw new GameError('INVALID_ACTION', 'You cannot trade with yourself', {
+        playerId: proposerId,
+      });
+    }
+    if (this.isEmpty(offer) && this.isEmpty(request)) {
+      throw new GameError(
+        'VALIDATION_ERROR',
+        'A trade needs something on at least one side',
+        { playerId: proposerId }
+      );
+    }
+
+    const proposer = await this.requirePlayer(gameId, proposerId);
+    await this.requirePlayer(gameId, recipientId);
+    const taken = this.takeGoods(proposer.gameSpecificData.inventory, offer);
+
+    const now = new Date();
+    const pending: TradeOffer = {
+      id: uuidv4(),
+      gameId,
+      proposerId,
+      recipientId,
+      offer,
+      request,
+      escrow: taken.items,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+    const written = await kvService.setIfAbsent(
+      this.offerKey(gameId, pending.id),
+      pending,
+      TRADING_CONSTANTS.RECORD_TTL
+    );
+    if (!written.success || !written.data) {
+      throw new GameError('DATABASE_ERROR', 'Failed to record trade offer', {
+        gameId,
+      });
+    }
+
+    // The offer only opens once the goods have actually left the proposer
+    const escrowed = await swapRPGPlayer(
+      gameId,
+      proposer,
+      this.withInventory(proposer, taken.inventory)
+    );
+    if (!escrowed) {
+      await kvService.deleteIfEquals(
+        this.offerKey(gameId, pending.id),
+        pending
+      );
+      throw new GameError(
+        'STATE_CONFLICT',
+        'Your inventory changed while making the offer, try again',
+        { playerId: proposerId }
+      );
+    }
+    const open = await this.transitionOffer(pending, 'open');
+
+    await this.recordAudit({
+      id: uuidv4(),
+      gameId,
+      timestamp: new Date(),
+      kind: 'offer_created',
+      playerId: proposerId,
+      counterpartyId: recipientId,
+      offerId: open.id,
+      transactions: this.toTransactions(taken.items, 'remove'),
+      currency: {
+        [proposerId]: {
+          before: proposer.gameSpecificData.inventory.currency,
+          after: taken.inventory.currency,
+        },
+      },
+    });
+    return open;
+  }
+
+  /**
+   * Accept an open offer. The recipient hands over what was asked for and
+   * receives the escrow; the proposer receives what was asked for. If the
+   * proposer's side cannot be written the recipient is put back as they
+   * were and the offer stays open.
+   */
+  async acceptTrade(
+    gameId: UUID,
+    offerId: UUID,
+    playerId: UUID
+  ): Promise<TradeOffer> {
+    const offer = await this.requireOpenOffer(gameId, offerId);
+    if (offer.recipientId !== playerId) {
+      throw new GameError(
+        'PERMISSION_DENIED',
+        'Only the player this trade was offered to can accept it',
+        { offerId, playerId }
+      );
+    }
+
+    const settling = await this.transitionOffer(offer, 'settling');
+    let recipient: { before: RPGPlayer; after: RPGPlayer };
+    let proposer: { before: RPGPlayer; after: RPGPlayer };
+    let received: InventoryItem[] = [];
+    try {
+      recipient = await this.updatePlayer(gameId, offer.recipientId, player => {
+        const taken = this.takeGoods(
+          player.gameSpecificData.inventory,
+          offer.request
+        );
+        received = taken.items;
+        return this.giveGoods(taken.inventory, offer.escrow, offer.offer);
+      });
+    } catch (error) {
+      await this.transitionOffer(settling, 'open');
+      throw error;
+    }
+
+    try {
+      proposer = await this.updatePlayer(gameId, offer.proposerId, player => {
+        const inventory = this.giveGoods(
+          player.gameSpecificData.inventory,
+          received,
+          offer.request
+        );
+        this.assertConserved(
+          [
+            player.gameSpecificData.inventory,
+            recipient.before.gameSpecificData.inventory,
+          ],
+          [inventory, recipient.after.gameSpecificData.inventory],
+          offer
+        );
+        return inventory;
+      });
+    } catch (error) {
+      await this.restoreRecipient(gameId, settling, recipient);
+      await this.transitionOffer(settling, 'open');
+      throw error;
+    }
+
+    const accepted = await this.transitionOffer(settling, 'accepted');
+    await this.recordAudit({
+      id: uuidv4(),
+      gameId,
+      timestamp: new Date(),
+      kind: 'offer_accepted',
+      playerId,
+      counterpartyId: offer.proposerId,
+      offerId,
+      transactions: [
+        ...this.toTransactions(received, 'remove'),
+        ...this.toTransactions(offer.escrow, 'add'),
+      ],
+      currency: {
+        [offer.recipientId]: this.currencyChange(recipient),
+        [offer.proposerId]: this.currencyChange(proposer),
+      },
+    });
+    return accepted;
+  }
+
+  /**
+   * Turn down an offer, returning the escrow to the proposer
+   */
+  async declineTrade(
+    gameId: UUID,
+    offerId: UUID,
+    playerId: UUID
+  ): Promise<TradeOffer> {
+    const offer = await this.requireOpenOffer(gameId, offerId);
+    if (offer.recipientId !== playerId) {
+      throw new GameError(
+        'PERMISSION_DENIED',
+        'Only the player this trade was offered to can decline it',
+        { offerId, playerId }
+      );
+    }
+    return this.returnEscrow(offer, 'declined', playerId);
+  }
+
+  /**
+   * Withdraw an offer, returning the escrow to the proposer
+   */
+  async cancelTrade(
+    gameId: UUID,
+    offerId: UUID,
+    playerId: UUID
+  ): Promise<TradeOffer> {
+    const offer = await this.requireOpenOffer(gameId, offerId);
+    if (offer.proposerId !== playerId) {
+      throw new GameError(
+        'PERMISSION_DENIED',
+        'Only the player who made this offer can cancel it',
+        { offerId, playerId }
+      );
+    }
+    return this.returnEscrow(offer, 'cancelled', playerId);
+  }
+
+  /**
+   * Load a trade offer, or null if there is none
+   */
+  async getOffer(gameId: UUID, offerId: UUID): Promise<TradeOffer | null> {
+    const result = await kvService.get<TradeOffer>(
+      this.offerKey(gameId, offerId)
+    );
+    if (!result.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to load trade offer', {
+        gameId,
+        offerId,
+      });
+    }
+    return result.data ?? null;
+  }
+
+  // ============================================================================
+  // AUDIT TRAIL
+  // ============================================================================
+
+  /**
+   * Write an audit entry. Entries are never overwritten.
+   */
+  async recordAudit(entry: TradeAuditEntry): Promise<void> {
+    const result = await kvService.setIfAbsent(
+      this.auditKey(entry.gameId, entry.id),
+      entry,
+      TRADING_CONSTANTS.RECORD_TTL
+    );
+    if (!result.success || !result.data) {
+      throw new GameError('DATABASE_ERROR', 'Failed to record trade audit', {
+        gameId: entry.gameId,
+        auditId: entry.id,
+      });
+    }
+  }
+
+  /**
+   * Every audited trade in a game, oldest first
+   */
+  async getAuditTrail(gameId: UUID): Promise<TradeAuditEntry[]> {
+    const keys = await kvService.scan(this.auditKey(gameId, '*'));
+    if (!keys.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to load trade audit', {
+        gameId,
+      });
+    }
+
+    const entries: TradeAuditEntry[] = [];
+    for (const key of keys.data ?? []) {
+      const entry = await kvService.get<TradeAuditEntry>(key);
+      if (entry.success && entry.data) {
+        entries.push(entry.data);
+      }
+    }
+    return entries.sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private requireShop(npc: NPC, state: RPGGameState): NPCShop {
+    if (npc.currentLocation !== state.data.currentLocation) {
+      throw new GameError('INVALID_ACTION', `${npc.name} is not here`, {
+        npcId: npc.id,
+      });
+    }
+    if (!npc.shop) {
+      throw new GameError(
+        'INVALID_ACTION',
+        `${npc.name} has nothing to trade`,
+        { npcId: npc.id }
+      );
+    }
+    return npc.shop;
+  }
+
+  /**
+   * The stock being bought, or the player's item being sold
+   */
+  private findTradeEntry(
+    npc: NPC,
+    shop: NPCShop,
+    player: RPGPlayer,
+    itemId: UUID,
+    side: TradeSide
+  ): InventoryItem {
+    if (side === 'buy') {
+      const stock = shop.inventory.find(entry => entry.item.id === itemId);
+      if (!stock) {
+        throw new GameError(
+          'INVALID_ACTION',
+          `${npc.name} does not sell that`,
+          {
+            npcId: npc.id,
+            itemId,
+          }
+        );
+      }
+      return stock;
+    }
+
+    const owned = player.gameSpecificData.inventory.items.find(
+      entry => entry.item.id === itemId
+    );
+    if (!owned) {
+      throw new GameError('INVALID_ACTION', 'You are not carrying that', {
+        itemId,
+      });
+    }
+    this.assertTradeable(owned);
+    return owned;
+  }
+
+  private buyPrice(
+    shop: NPCShop,
+    entry: InventoryItem,
+    reputation: number,
+    stock: number
+  ): number {
+    const special = shop.specialItems.includes(entry.item.id)
+      ? TRADING_CONSTANTS.SPECIAL_ITEM_PREMIUM
+      : 1;
+    const price =
+      inventoryManager.calculateItemValue(entry) *
+      shop.buyPriceModifier *
+      (1 - reputation * TRADING_CONSTANTS.REPUTATION_INFLUENCE) *
+      this.supplyFactor(stock) *
+      special;
+
+    return Math.max(1, Math.ceil(price));
+  }
+
+  /**
+   * What the shop pays for one unit arriving when it already holds `stock`,
+   * capped below what it would charge for that same unit
+   */
+  private sellPrice(
+    shop: NPCShop,
+    entry: InventoryItem,
+    reputation: number,
+    stock: number
+  ): number {
+    const price =
+      inventoryManager.calculateItemValue(entry) *
+      TRADING_CONSTANTS.SELL_RATIO *
+      shop.sellPriceModifier *
+      (1 + reputation * TRADING_CONSTANTS.REPUTATION_INFLUENCE) *
+      this.supplyFactor(stock);
+    const resaleCap =
+      this.buyPrice(shop, entry, reputation, stock + 1) *
+      TRADING_CONSTANTS.MAX_RESALE_RATIO;
+
+    return Math.max(0, Math.floor(Math.min(price, resaleCap)));
+  }
+
+  /**
+   * Scarce stock costs more and fetches more; a glut does the opposite
+   */
+  private supplyFactor(stock: number): number {
+    const factor =
+      1 +
+      (TRADING_CONSTANTS.SUPPLY_BASELINE - stock) *
+        TRADING_CONSTANTS.SUPPLY_STEP;
+    return Math.min(
+      TRADING_CONSTANTS.SUPPLY_MAX,
+      Math.max(TRADING_CONSTANTS.SUPPLY_MIN, factor)
+    );
+  }
+
+  private getStock(shop: NPCShop, itemId: UUID): number {
+    return shop.inventory
+      .filter(entry => entry.item.id === itemId)
+      .reduce((total, entry) => total + entry.quantity, 0);
+  }
+
+  /**
+   * Standing with the shopkeeper's faction, or else with the shopkeeper,
+   * scaled to -1..1
+   */
+  private getReputation(
+    npc: NPC,
+    player: RPGPlayer,
+    state: RPGGameState
+  ): number {
+    const reputation =
+      (npc.faction !== undefined
+        ? state.data.partyReputation[npc.faction]
+        : undefined) ??
+      npc.relationships[player.id] ??
+      player.gameSpecificData.relationships[npc.id] ??
+      0;
+    const max = TRADING_CONSTANTS.MAX_REPUTATION;
+    return Math.max(-max, Math.min(max, reputation)) / max;
+  }
+
+  private removeStock(
+    stock: InventoryItem[],
+    itemId: UUID,
+    quantity: number
+  ): InventoryItem[] {
+    return stock
+      .map(entry =>
+        entry.item.id === itemId
+          ? { ...entry, quantity: entry.quantity - quantity }
+          : entry
+      )
+      .filter(entry => entry.quantity > 0);
+  }
+
+  private addStock(
+    stock: InventoryItem[],
+    sold: InventoryItem,
+    quantity: number
+  ): InventoryItem[] {
+    const existing = stock.find(entry => entry.item.id === sold.item.id);
+    if (!existing) {
+      return [...stock, { ...sold, quantity }];
+    }
+    return stock.map(entry =>
+      entry === existing
+        ? { ...entry, quantity: entry.quantity + quantity }
+        : entry
+    );
+  }
+
+  private completeShopTrade(
+    kind: 'shop_purchase' | 'shop_sale',
+    quote: TradeQuote,
+    entry: InventoryItem,
+    player: RPGPlayer,
+    inventory: Inventory,
+    npc: NPC,
+    state: RPGGameState
+  ): ShopTradeResult {
+    const { world } = state.data;
+
+    return {
+      quote,
+      player: this.withInventory(player, inventory),
+      npc,
+      state: {
+        ...state,
+        data: {
+          ...state.data,
+          world: {
+            ...world,
+            npcs: world.npcs.map(other => (other.id === npc.id ? npc : other)),
+          },
+        },
+      },
+      audit: {
+        id: uuidv4(),
+        gameId: state.gameId,
+        timestamp: new Date(),
+        kind,
+        playerId: player.id,
+        counterpartyId: npc.id,
+        transactions: this.toTransactions(
+          [{ ...entry, quantity: quote.quantity }],
+          kind === 'shop_purchase' ? 'add' : 'remove',
+          'purchase'
+        ),
+        currency: {
+          [player.id]: {
+            before: player.gameSpecificData.inventory.currency,
+            after: inventory.currency,
+          },
+        },
+      },
+    };
+  }
+
+  private assertTradeable(entry: InventoryItem): void {
+    const { properties, name } = entry.item;
+    if (!properties.tradeable || properties.questItem) {
+      throw new GameError('INVALID_ACTION', `${name} cannot be traded`, {
+        itemId: entry.item.id,
+      });
+    }
+  }
+
+  private isEmpty(terms: TradeTerms): boolean {
+    return terms.items.length === 0 && terms.currency === 0;
+  }
+
+  /**
+   * Take one side of a trade out of an inventory, keeping each item's
+   * condition with it
+   */
+  private takeGoods(inventory: Inventory, terms: TradeTerms): TakenGoods {
+    let remaining = inventoryManager.adjustCurrency(inventory, -terms.currency);
+    const items: InventoryItem[] = [];
+
+    for (const { itemId, quantity } of terms.items) {
+      const entry = remaining.items.find(owned => owned.item.id === itemId);
+      if (!entry || entry.quantity < quantity) {
+        throw new GameError(
+          'INVALID_ACTION',
+          entry
+            ? `Not enough ${entry.item.name} to trade`
+            : 'Item not found in inventory',
+          { itemId, quantity }
+        );
+      }
+      this.assertTradeable(entry);
+      remaining = inventoryManager.removeItem(remaining, itemId, quantity);
+      items.push({ ...entry, quantity });
+    }
+
+    return { inventory: remaining, items };
+  }
+
+  private giveGoods(
+    inventory: Inventory,
+    items: InventoryItem[],
+    terms: TradeTerms
+  ): Inventory {
+    return items.reduce(
+      (current, entry) =>
+        inventoryManager.addItem(
+          current,
+          entry.item,
+          entry.quantity,
+          entry.condition
+        ),
+      inventoryManager.adjustCurrency(inventory, terms.currency)
+    );
+  }
+
+  /**
+   * Refuse to settle unless exactly the gold and items that went in come
+   * out, counting the escrow as part of what went in
+   */
+  private assertConserved(
+    before: Inventory[],
+    after: Inventory[],
+    offer: TradeOffer
+  ): void {
+    const count = (inventories: Inventory[], escrow?: TradeOffer) => {
+      const totals = new Map<string, number>();
+      const add = (key: string, amount: number) =>
+        totals.set(key, (totals.get(key) ?? 0) + amount);
+
+      for (const inventory of inventories) {
+        add('currency', inventory.currency);
+        inventory.items.forEach(entry => add(entry.item.id, entry.quantity));
+      }
+      if (escrow) {
+        add('currency', escrow.offer.currency);
+        escrow.escrow.forEach(entry => add(entry.item.id, entry.quantity));
+      }
+      return totals;
+    };
+
+    const expected = count(before, offer);
+    const actual = count(after);
+    const keys = new Set([...expected.keys(), ...actual.keys()]);
+    for (const key of keys) {
+      if ((expected.get(key) ?? 0) !== (actual.get(key) ?? 0)) {
+        throw new GameError(
+          'STATE_CONFLICT',
+          'Trade would not balance and was stopped',
+          {
+            offerId: offer.id,
+            key,
+            expected: expected.get(key) ?? 0,
+            actual: actual.get(key) ?? 0,
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Write a change to a player's record, reloading and reapplying it if
+   * their record changed in the meantime
+   */
+  private async updatePlayer(
+    gameId: UUID,
+    playerId: UUID,
+    update: (player: RPGPlayer) => Inventory
+  ): Promise<{ before: RPGPlayer; after: RPGPlayer }> {
+    for (
+      let attempt = 0;
+      attempt < TRADING_CONSTANTS.MAX_SETTLE_ATTEMPTS;
+      attempt++
+    ) {
+      const before = await this.requirePlayer(gameId, playerId);
+      const after = this.withInventory(before, update(before));
+      if (await swapRPGPlayer(gameId, before, after)) {
+        return { before, after };
+      }
+    }
+    throw new GameError(
+      'STATE_CONFLICT',
+      'A player in this trade kept changing their inventory, try again',
+      { playerId }
+    );
+  }
+
+  /**
+   * Undo the recipient's half of a settlement that could not finish. If
+   * their record has moved on the trade needs a person to look at it, so
+   * the offer is left settling and the failure is audited.
+   */
+  private async restoreRecipient(
+    gameId: UUID,
+    offer: TradeOffer,
+    recipient: { before: RPGPlayer; after: RPGPlayer }
+  ): Promise<void> {
+    if (await swapRPGPlayer(gameId, recipient.after, recipient.before)) {
+      return;
+    }
+
+    await this.recordAudit({
+      id: uuidv4(),
+      gameId,
+      timestamp: new Date(),
+      kind: 'offer_failed',
+      playerId: offer.recipientId,
+      counterpartyId: offer.proposerId,
+      offerId: offer.id,
+      transactions: this.toTransactions(offer.escrow, 'add'),
+      currency: { [offer.recipientId]: this.currencyChange(recipient) },
+    });
+    throw new GameError(
+      'DATABASE_ERROR',
+      'Trade could not be settled or rolled back',
+      { offerId: offer.id }
+    );
+  }
+
+  private async returnEscrow(
+    offer: TradeOffer,
+    status: 'declined' | 'cancelled',
+    playerId: UUID
+  ): Promise<TradeOffer> {
+    const settling = await this.transitionOffer(offer, 'settling');
+    let proposer: { before: RPGPlayer; after: RPGPlayer };
+    try {
+      proposer = await this.updatePlayer(
+        offer.gameId,
+        offer.proposerId,
+        player =>
+          this.giveGoods(
+            player.gameSpecificData.inventory,
+            offer.escrow,
+            offer.offer
+          )
+      );
+    } catch (error) {
+      await this.transitionOffer(settling, 'open');
+      throw error;
+    }
+
+    const settled = await this.transitionOffer(settling, status);
+    await this.recordAudit({
+      id: uuidv4(),
+      gameId: offer.gameId,
+      timestamp: new Date(),
+      kind: status === 'declined' ? 'offer_declined' : 'offer_cancelled',
+      playerId,
+      counterpartyId:
+        playerId === offer.proposerId ? offer.recipientId : offer.proposerId,
+      offerId: offer.id,
+      transactions: this.toTransactions(offer.escrow, 'add'),
+      currency: { [offer.proposerId]: this.currencyChange(proposer) },
+    });
+    return settled;
+  }
+
+  private async requirePlayer(
+    gameId: UUID,
+    playerId: UUID
+  ): Promise<RPGPlayer> {
+    const player = await loadRPGPlayer(gameId, playerId);
+    if (!player) {
+      throw new GameError('PLAYER_NOT_FOUND', 'Player is not in this game', {
+        gameId,
+        playerId,
+      });
+    }
+    return player;
+  }
+
+  private async requireOpenOffer(
+    gameId: UUID,
+    offerId: UUID
+  ): Promise<TradeOffer> {
+    const offer = await this.getOffer(gameId, offerId);
+    if (!offer) {
+      throw new GameError('INVALID_ACTION', 'No such trade offer', {
+        offerId,
+      });
+    }
+    if (offer.status !== 'open') {
+      throw new GameError('INVALID_ACTION', 'This trade offer is not open', {
+        offerId,
+        status: offer.status,
+      });
+    }
+    return offer;
+  }
+
+  /**
+   * Move an offer to a new status, failing if anyone else moved it first
+   */
+  private async transitionOffer(
+    offer: TradeOffer,
+    status: TradeOfferStatus
+  ): Promise<TradeOffer> {
+    const updated: TradeOffer = { ...offer, status, updatedAt: new Date() };
+    const result = await kvService.compareAndSwap(
+      this.offerKey(offer.gameId, offer.id),
+      offer,
+      updated,
+      TRADING_CONSTANTS.RECORD_TTL
+    );
+    if (!result.success) {
+      throw new GameError('DATABASE_ERROR', 'Failed to update trade offer', {
+        offerId: offer.id,
+      });
+    }
+    if (!result.data) {
+      throw new GameError(
+        'STATE_CONFLICT',
+        'This trade offer was settled by someone else',
+        { offerId: offer.id }
+      );
+    }
+    return updated;
+  }
+
+  private toTransactions(
+    items: InventoryItem[],
+    type: 'add' | 'remove',
+    source: 'purchase' | 'trade' = 'trade'
+  ): ItemTransaction[] {
+    return items.map(entry => ({
+      id: uuidv4(),
+      timestamp: new Date(),
+      operation: {
+        type,
+        itemId: entry.item.id,
+        quantity: entry.quantity,
+        source,
+      },
+      item: entry.item,
+      quantity: entry.quantity,
+      result: 'success',
+    }));
+  }
+
+  private currencyChange(change: { before: RPGPlayer; after: RPGPlayer }): {
+    before: number;
+    after: number;
+  } {
+    return {
+      before: change.before.gameSpecificData.inventory.currency,
+      after: change.after.gameSpecificData.inventory.currency,
+    };
+  }
+
+  private withInventory(player: RPGPlayer, inventory: Inventory): RPGPlayer {
+    return {
+      ...player,
+      gameSpecificData: { ...player.gameSpecificData, inventory },
+    };
+  }
+
+  private offerKey(gameId: UUID, offerId: UUID): string {
+    return `trade_offer:${gameId}:${offerId}`;
+  }
+
+  private auditKey(gameId: UUID, auditId: string): string {
+    return `trade_audit:${gameId}:${auditId}`;
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE EXPORT
+// ============================================================================
+
+export const tradingSystem = TradingSystem.getInstance();
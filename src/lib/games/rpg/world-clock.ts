@@ -0,0 +1,62 @@
+/**
+ * RPG World Clock
+ *
+ * Game time is kept in whole hours on the game state as the hour of the
+ * day and the day count. Anything that lets time pass (rests, travel,
+ * narrated outcomes) advances the clock through here so days roll over
+ * consistently.
+ */
+
+import { RPGGameState } from '@/types/rpg';
+import { TimeOfDay } from './location-generator';
+
+const HOURS_PER_DAY = 24;
+
+// Hour each part of the day begins, in order
+const TIME_OF_DAY_STARTS: [number, TimeOfDay][] = [
+  [0, 'midnight'],
+  [5, 'dawn'],
+  [7, 'morning'],
+  [12, 'noon'],
+  [13, 'afternoon'],
+  [18, 'dusk'],
+  [20, 'night'],
+];
+
+/**
+ * Move the clock forward by a number of hours
+ */
+export function advanceClock(state: RPGGameState, hours: number): RPGGameState {
+  const total = state.data.timeOfDay + Math.max(0, Math.floor(hours));
+
+  return {
+    ...state,
+    data: {
+      ...state.data,
+      timeOfDay: total % HOURS_PER_DAY,
+      dayCount: state.data.dayCount + Math.floor(total / HOURS_PER_DAY),
+    },
+  };
+}
+
+/**
+ * Part of the day an hour falls in
+ */
+export function getTimeOfDay(hour: number): TimeOfDay {
+  const normalized =
+    ((Math.floor(hour) % HOURS_PER_DAY) + HOURS_PER_DAY) % HOURS_PER_DAY;
+  let timeOfDay: TimeOfDay = 'midnight';
+  for (const [start, name] of TIME_OF_DAY_STARTS) {
+    if (normalized >= start) {
+      timeOfDay = name;
+    }
+  }
+  return timeOfDay;
+}
+
+/**
+ * Whether an hour falls between dusk and dawn
+ */
+export function isNight(hour: number): boolean {
+  return ['dusk', 'night', 'midnight'].includes(getTimeOfDay(hour));
+}
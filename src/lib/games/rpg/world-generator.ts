@@ -28,7 +28,7 @@ import {
 import { UUID, GameError, ErrorCode } from '@/types/core';
 import { generateRPGContent, claudeService, AI_CONFIG } from '@/lib/ai';
 import { kvService } from '@/lib/database';
-import { v4 as uuidv4 } from 'uuid';
+import { RandomSource, unseededRandom } from '@/lib/game-engine/random';
 
 // ============================================================================
 // WORLD GENERATION PREFERENCES & CONFIGURATION
@@ -579,7 +579,7 @@ const WORLD_THEMES: Record<WorldTheme, WorldThemeTemplate> = {
 export class WorldGenerator {
   private static instance: WorldGenerator | null = null;
 
-  private constructor() {
+  private constructor(private readonly random: RandomSource = unseededRandom) {
     // Private constructor for singleton pattern
   }
 
@@ -590,6 +590,13 @@ export class WorldGenerator {
     return WorldGenerator.instance;
   }
 
+  /**
+   * Create a generator bound to a game's seeded random source
+   */
+  public static withRandom(random: RandomSource): WorldGenerator {
+    return new WorldGenerator(random);
+  }
+
   /**
    * Generate a complete world with all essential components
    */
@@ -613,7 +620,7 @@ export class WorldGenerator {
         };
       }
 
-      const worldId = uuidv4() as UUID;
+      const worldId = this.random.uuid() as UUID;
       const themeTemplate =
         WORLD_THEMES[preferences.theme as WorldTheme] || WORLD_THEMES.fantasy;
 
@@ -728,7 +735,7 @@ export class WorldGenerator {
         };
       }
 
-      const locationId = uuidv4() as UUID;
+      const locationId = this.random.uuid() as UUID;
       const themeTemplate =
         WORLD_THEMES[worldData.theme as WorldTheme] || WORLD_THEMES.fantasy;
 
@@ -924,7 +931,7 @@ export class WorldGenerator {
 
       for (let i = 0; i < count; i++) {
         const questType =
-          questTypes[Math.floor(Math.random() * questTypes.length)];
+          questTypes[Math.floor(this.random.next() * questTypes.length)];
         const questResult = await this.generateSingleQuest(
           worldData,
           difficulty,
@@ -1005,7 +1012,7 @@ export class WorldGenerator {
       );
 
       for (let i = 0; i < expansionSize; i++) {
-        const biome = biomes[Math.floor(Math.random() * biomes.length)];
+        const biome = biomes[Math.floor(this.random.next() * biomes.length)];
         const locationType = this.getLocationTypeForBiome(biome);
 
         const locationResult = await this.generateLocation(
@@ -1136,14 +1143,14 @@ export class WorldGenerator {
       for (let i = 1; i < locationCount; i++) {
         const biome =
           preferences.biomes[
-            Math.floor(Math.random() * preferences.biomes.length)
+            Math.floor(this.random.next() * preferences.biomes.length)
           ];
         const locationType = this.getLocationTypeForBiome(biome);
 
         const locationResult = await this.generateLocation(
           worldId,
           locationType,
-          locations[Math.floor(Math.random() * locations.length)].id
+          locations[Math.floor(this.random.next() * locations.length)].id
         );
 
         if (locationResult.success) {
@@ -1228,7 +1235,8 @@ export class WorldGenerator {
             : 3;
 
       for (const location of locations) {
-        const npcCount = npcPerLocationBase + Math.floor(Math.random() * 2);
+        const npcCount =
+          npcPerLocationBase + Math.floor(this.random.next() * 2);
         const locationNPCs = await this.generateNPCs(location.id, npcCount, {
           worldId,
           factions,
@@ -1363,7 +1371,7 @@ export class WorldGenerator {
     };
 
     const possibleTypes = biomeLocationMap[biome] || ['custom'];
-    return possibleTypes[Math.floor(Math.random() * possibleTypes.length)];
+    return possibleTypes[Math.floor(this.random.next() * possibleTypes.length)];
   }
 
   // ============================================================================
@@ -1425,7 +1433,7 @@ export class WorldGenerator {
 
   private parseFactionFromAI(content: string): Faction {
     //TODO: Implement robust faction parsing
-    const id = uuidv4() as UUID;
+    const id = this.random.uuid() as UUID;
 
     try {
       const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -1460,7 +1468,7 @@ export class WorldGenerator {
 
   private parseWorldEventFromAI(content: string): WorldEvent {
     //TODO: Implement robust world event parsing
-    const id = uuidv4() as UUID;
+    const id = this.random.uuid() as UUID;
 
     try {
       const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -1502,7 +1510,7 @@ export class WorldGenerator {
   ): Promise<
     { success: true; data: Location } | { success: false; error: GameError }
   > {
-    const locationId = uuidv4() as UUID;
+    const locationId = this.random.uuid() as UUID;
 
     const location: Location = {
       id: locationId,
@@ -1531,11 +1539,11 @@ export class WorldGenerator {
   ): Promise<LocationFeature[]> {
     //TODO: Implement comprehensive location feature generation
     const features: LocationFeature[] = [];
-    const featureCount = Math.floor(Math.random() * 3) + 1;
+    const featureCount = Math.floor(this.random.next() * 3) + 1;
 
     for (let i = 0; i < featureCount; i++) {
       features.push({
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         name: `Feature ${i + 1}`,
         description: 'An interesting location feature.',
         type: 'interactive',
@@ -1554,10 +1562,10 @@ export class WorldGenerator {
   > {
     try {
       //TODO: Implement comprehensive NPC generation using AI
-      const npcId = uuidv4() as UUID;
+      const npcId = this.random.uuid() as UUID;
 
       const character: Character = {
-        id: uuidv4() as UUID,
+        id: this.random.uuid() as UUID,
         name: 'Generated NPC',
         race: {
           name: 'Human',
@@ -1668,17 +1676,17 @@ export class WorldGenerator {
   > {
     try {
       //TODO: Implement comprehensive quest generation using AI
-      const questId = uuidv4() as UUID;
+      const questId = this.random.uuid() as UUID;
       const location =
         worldData.locations[
-          Math.floor(Math.random() * worldData.locations.length)
+          Math.floor(this.random.next() * worldData.locations.length)
         ];
       const npc =
-        worldData.npcs[Math.floor(Math.random() * worldData.npcs.length)];
+        worldData.npcs[Math.floor(this.random.next() * worldData.npcs.length)];
 
       const objectives: QuestObjective[] = [
         {
-          id: uuidv4() as UUID,
+          id: this.random.uuid() as UUID,
           description: 'Complete the quest objective',
           type: 'custom',
           requiredCount: 1,
@@ -1712,7 +1720,7 @@ export class WorldGenerator {
         status: 'available',
         objectives,
         rewards,
-        giver: npc?.id || (uuidv4() as UUID),
+        giver: npc?.id || (this.random.uuid() as UUID),
         location: location.id,
         timeLimit: undefined,
         prerequisites: [],
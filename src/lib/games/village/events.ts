@@ -23,6 +23,7 @@ import {
 } from '@/types/village';
 import { generateVillageContent } from '@/lib/ai';
 import { kvService } from '@/lib/database/kv-service';
+import { RandomSource, unseededRandom } from '@/lib/game-engine/random';
 
 // ============================================================================
 // CORE EVENT MANAGER INTERFACE
@@ -249,9 +250,11 @@ export class VillageEventManager implements EventManager {
   private activeEvents: Map<string, GameEvent> = new Map();
   private eventHistory: HistoricalEvent[] = [];
   private scheduledEvents: ScheduledEvent[] = [];
+  private random: RandomSource;
 
-  constructor(village: Village) {
+  constructor(village: Village, random: RandomSource = unseededRandom) {
     this.village = village;
+    this.random = random;
     this.loadEventHistory();
     this.loadScheduledEvents();
   }
@@ -265,7 +268,7 @@ export class VillageEventManager implements EventManager {
 
     // Calculate how many events to generate based on village size and activity
     const baseEventChance = this.calculateBaseEventChance(village);
-    const eventCount = Math.random() < baseEventChance ? 1 : 0;
+    const eventCount = this.random.next() < baseEventChance ? 1 : 0;
 
     if (eventCount === 0) return events;
 
@@ -417,7 +420,7 @@ export class VillageEventManager implements EventManager {
     // Process chain reactions defined in the trigger event
     for (const reaction of triggerEvent.chainReactions) {
       // Check if chain reaction should trigger
-      const shouldTrigger = Math.random() * 100 < reaction.probability;
+      const shouldTrigger = this.random.next() * 100 < reaction.probability;
       if (!shouldTrigger) continue;
 
       // Check additional conditions
@@ -511,7 +514,7 @@ export class VillageEventManager implements EventManager {
       this.applyChoiceCosts(choice, this.village);
 
       // Calculate success based on choice success chance
-      const roll = Math.random() * 100;
+      const roll = this.random.next() * 100;
       const isSuccess = roll < choice.successChance;
       const isCriticalSuccess = roll < choice.criticalSuccessChance;
 
@@ -684,13 +687,13 @@ export class VillageEventManager implements EventManager {
 
   private weightedRandomSelect(items: string[], weights: number[]): string {
     const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-    let random = Math.random() * totalWeight;
+    let roll = this.random.next() * totalWeight;
 
     for (let i = 0; i < items.length; i++) {
-      if (random < weights[i]) {
+      if (roll < weights[i]) {
         return items[i];
       }
-      random -= weights[i];
+      roll -= weights[i];
     }
 
     return items[items.length - 1]; // Fallback
@@ -1167,8 +1170,11 @@ export class VillageEventManager implements EventManager {
 /**
  * Create a new EventManager instance for a village
  */
-export function createEventManager(village: Village): VillageEventManager {
-  return new VillageEventManager(village);
+export function createEventManager(
+  village: Village,
+  random?: RandomSource
+): VillageEventManager {
+  return new VillageEventManager(village, random);
 }
 
 /**
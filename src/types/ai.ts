@@ -34,6 +34,12 @@ export type AIModel =
   | 'claude-3-sonnet-20240229'
   | 'claude-3-haiku-20240307';
 
+/**
+ * Capability tier requested from a provider. Each provider maps tiers onto
+ * its own models, so routing can ask for "fast" without naming a vendor.
+ */
+export type ModelTier = 'fast' | 'balanced' | 'strong';
+
 export interface RateLimit {
   readonly requestsPerMinute: number;
   readonly tokensPerMinute: number;
@@ -210,7 +216,8 @@ export interface StructuredAIResponse {
 }
 
 export interface AIResponseMetadata {
-  readonly model: AIModel;
+  readonly model: string; // Provider-specific model name
+  readonly provider?: string;
   readonly temperature: number;
   readonly promptTokens: number;
   readonly completionTokens: number;
@@ -574,7 +581,8 @@ export const AIResponseSchema = z.object({
     })
     .optional(),
   metadata: z.object({
-    model: AIModelSchema,
+    model: z.string(),
+    provider: z.string().optional(),
     temperature: z.number().min(0).max(2),
     promptTokens: z.number().min(0),
     completionTokens: z.number().min(0),
@@ -12,7 +12,9 @@ import {
   TimestampSchema,
   JSONValueSchema,
   ErrorCode,
+  GameEvent,
 } from './core';
+import { NarrativeChoice, NarrativeData, RPGGameState } from './rpg';
 
 // ============================================================================
 // BASE API RESPONSE TYPES
@@ -290,6 +292,42 @@ export interface CombatActionResponse
     };
   }> {}
 
+export interface RPGActionNarrative {
+  readonly content: string;
+  readonly type:
+    | 'action_result'
+    | 'dialogue'
+    | 'combat'
+    | 'exploration'
+    | 'system';
+  readonly mood: NarrativeData['mood'];
+  readonly consequences?: string[];
+  readonly choices?: NarrativeChoice[];
+}
+
+/**
+ * Result of an RPG action: the response body, or the `complete` event when
+ * the action's narration is streamed
+ */
+export interface RPGActionResponse {
+  readonly success: boolean;
+  readonly newState: RPGGameState;
+  readonly events: GameEvent[];
+  readonly narrative?: RPGActionNarrative;
+  readonly actionResult: {
+    readonly type: string;
+    readonly success: boolean;
+    readonly description: string;
+    readonly effects: Record<string, any>;
+    readonly nextPossibleActions: string[];
+  };
+  readonly performanceMetrics: {
+    readonly processingTime: number;
+    readonly aiGenerationTime?: number;
+    readonly validationTime: number;
+  };
+}
+
 // ============================================================================
 // DEDUCTION-SPECIFIC API RESPONSES
 // ============================================================================
@@ -65,6 +65,7 @@ export type LogOutput = 'console' | 'file' | 'external';
 // ============================================================================
 
 export interface DatabaseConfig {
+  readonly storage: StorageConfig;
   readonly kv: VercelKVConfig;
   readonly blob: VercelBlobConfig;
   readonly connectionTimeout: number;
@@ -72,6 +73,20 @@ export interface DatabaseConfig {
   readonly retries: RetryConfig;
 }
 
+/**
+ * memory: process-local, lost on restart (tests, quick local runs)
+ * filesystem: JSON and blob files under dataDir (self-hosting, local dev)
+ * vercel: Vercel KV and Vercel Blob
+ */
+export type StorageDriverType = 'memory' | 'filesystem' | 'vercel';
+
+export interface StorageConfig {
+  readonly kvDriver: StorageDriverType;
+  readonly blobDriver: StorageDriverType;
+  readonly dataDir: string;
+  readonly blobBaseUrl?: string; // Public URL prefix for filesystem blobs
+}
+
 export interface VercelKVConfig {
   readonly url: string;
   readonly token: string;
@@ -109,6 +124,23 @@ export interface AIServiceSettings {
   readonly monitoring: AIMonitoringConfig;
 }
 
+/**
+ * gemini: Google Gemini through the Vercel AI SDK
+ * anthropic: Anthropic Messages API
+ * openai_compatible: any /chat/completions endpoint (Ollama, vLLM, LM Studio)
+ */
+export type AIProviderType = 'gemini' | 'anthropic' | 'openai_compatible';
+
+export interface AIProviderConfig {
+  readonly providers: AIProviderType[]; // Failover order
+  readonly geminiApiKey?: string;
+  readonly anthropicApiKey?: string;
+  readonly anthropicBaseUrl?: string;
+  readonly localBaseUrl?: string;
+  readonly localApiKey?: string;
+  readonly localModel?: string;
+}
+
 export interface AnthropicConfig {
   readonly apiKey: string;
   readonly baseUrl?: string;
@@ -475,16 +507,33 @@ export const EnvironmentSchema = z.object({
     .default('development'),
   PORT: z.string().transform(Number).default(3000),
 
-  // Database
-  KV_URL: z.string(),
-  KV_REST_API_URL: z.string(),
-  KV_REST_API_TOKEN: z.string(),
-  BLOB_READ_WRITE_TOKEN: z.string(),
-
-  // AI
-  ANTHROPIC_API_KEY: z.string(),
+  // Storage
+  STORAGE_DRIVER: z.enum(['memory', 'filesystem', 'vercel']).optional(),
+  BLOB_STORAGE_DRIVER: z.enum(['memory', 'filesystem', 'vercel']).optional(),
+  STORAGE_DATA_DIR: z.string().optional(),
+  BLOB_PUBLIC_BASE_URL: z.string().url().optional(),
+
+  // Database (required by the vercel storage driver)
+  KV_URL: z.string().optional(),
+  KV_REST_API_URL: z.string().optional(),
+  KV_REST_API_TOKEN: z.string().optional(),
+  BLOB_READ_WRITE_TOKEN: z.string().optional(),
+
+  // AI (providers without credentials are skipped)
+  AI_PROVIDERS: z
+    .string()
+    .transform(value => value.split(',').map(name => name.trim()))
+    .pipe(z.array(z.enum(['gemini', 'anthropic', 'openai_compatible'])))
+    .optional(),
+  GOOGLE_AI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  ANTHROPIC_BASE_URL: z.string().url().optional(),
+  LOCAL_AI_BASE_URL: z.string().url().optional(),
+  LOCAL_AI_API_KEY: z.string().optional(),
+  LOCAL_AI_MODEL: z.string().optional(),
 
   // Auth (Optional)
+  SESSION_TOKEN_SECRET: z.string().min(32).optional(),
   NEXTAUTH_SECRET: z.string().optional(),
   NEXTAUTH_URL: z.string().url().optional(),
 
@@ -560,6 +609,66 @@ export function loadEnvironmentConfig(): Record<string, any> {
   return EnvironmentSchema.parse(process.env);
 }
 
+/**
+ * Resolve which storage drivers to use. An explicit STORAGE_DRIVER wins;
+ * otherwise Vercel is used when its credentials are present, memory under
+ * test, and the filesystem everywhere else.
+ */
+export function resolveStorageConfig(
+  env: Record<string, string | undefined> = process.env
+): StorageConfig {
+  const explicit = EnvironmentSchema.shape.STORAGE_DRIVER.parse(
+    env.STORAGE_DRIVER || undefined
+  );
+  const hasVercelKV = !!(env.KV_REST_API_URL && env.KV_REST_API_TOKEN);
+  const kvDriver: StorageDriverType =
+    explicit ??
+    (hasVercelKV
+      ? 'vercel'
+      : env.NODE_ENV === 'test'
+        ? 'memory'
+        : 'filesystem');
+
+  const explicitBlob = EnvironmentSchema.shape.BLOB_STORAGE_DRIVER.parse(
+    env.BLOB_STORAGE_DRIVER || undefined
+  );
+  const blobDriver: StorageDriverType =
+    explicitBlob ??
+    (kvDriver === 'vercel' && !env.BLOB_READ_WRITE_TOKEN
+      ? 'filesystem'
+      : kvDriver);
+
+  return {
+    kvDriver,
+    blobDriver,
+    dataDir: env.STORAGE_DATA_DIR || '.data',
+    blobBaseUrl: env.BLOB_PUBLIC_BASE_URL || undefined,
+  };
+}
+
+/**
+ * Resolve the AI providers to try, in failover order. AI_PROVIDERS sets the
+ * order explicitly; by default Gemini is tried first, then Anthropic, then a
+ * local OpenAI-compatible endpoint.
+ */
+export function resolveAIProviderConfig(
+  env: Record<string, string | undefined> = process.env
+): AIProviderConfig {
+  const explicit = EnvironmentSchema.shape.AI_PROVIDERS.parse(
+    env.AI_PROVIDERS || undefined
+  );
+
+  return {
+    providers: explicit ?? ['gemini', 'anthropic', 'openai_compatible'],
+    geminiApiKey: env.GOOGLE_AI_API_KEY || undefined,
+    anthropicApiKey: env.ANTHROPIC_API_KEY || undefined,
+    anthropicBaseUrl: env.ANTHROPIC_BASE_URL || undefined,
+    localBaseUrl: env.LOCAL_AI_BASE_URL || undefined,
+    localApiKey: env.LOCAL_AI_API_KEY || undefined,
+    localModel: env.LOCAL_AI_MODEL || undefined,
+  };
+}
+
 /**
  * Validate configuration object
  */
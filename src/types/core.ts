@@ -39,10 +39,11 @@ export const JSONValueSchema: z.ZodType<JSONValue> = z.lazy(() =>
 
 export interface GameEngine {
   /**
-   * Create a new game session with the given configuration
+   * Create a new game session with the given configuration, hosted by createdBy
    */
   createGame<TConfig extends GameConfig = GameConfig>(
-    config: TConfig
+    config: TConfig,
+    createdBy?: UUID
   ): Promise<Game>;
 
   /**
@@ -170,6 +171,21 @@ export const GameSchema = z.object({
   state: z.any(), // Will be refined by specific game types
 });
 
+/**
+ * Serializable seeded RNG position, stored so replays draw identical numbers
+ */
+export interface RandomState {
+  readonly seed: number;
+  readonly state: number;
+  readonly draws: number;
+}
+
+export const RandomStateSchema = z.object({
+  seed: z.number().int().min(0),
+  state: z.number().int().min(0),
+  draws: z.number().int().min(0),
+});
+
 export interface GameState {
   readonly gameId: UUID;
   readonly phase: GamePhase;
@@ -180,6 +196,7 @@ export interface GameState {
     readonly version: number;
     readonly lastAction?: GameAction;
     readonly actionHistory: GameAction[];
+    readonly random?: RandomState;
   };
 }
 
@@ -193,6 +210,7 @@ export const GameStateSchema = z.object({
     version: z.number().int().min(0),
     lastAction: z.any().optional(), // Will be refined by specific action types
     actionHistory: z.array(z.any()),
+    random: RandomStateSchema.optional(),
   }),
 });
 
@@ -275,12 +293,14 @@ export type ErrorCode =
   | 'INVALID_ACTION'
   | 'INVALID_PHASE'
   | 'PERMISSION_DENIED'
+  | 'AUTHENTICATION_ERROR'
   | 'VALIDATION_ERROR'
   | 'AI_SERVICE_ERROR'
   | 'DATABASE_ERROR'
   | 'RATE_LIMIT_EXCEEDED'
   | 'GAME_FULL'
   | 'GAME_ENDED'
+  | 'STATE_CONFLICT'
   | 'NO_ELIGIBLE_VOTERS'
   | 'VOTING_START_FAILED'
   | 'SESSION_NOT_FOUND'
@@ -295,7 +315,12 @@ export type ErrorCode =
   | 'VOTING_TIME_EXPIRED'
   | 'INVALID_VOTE_TARGET'
   | 'SELF_VOTE_NOT_ALLOWED'
-  | 'INVALID_VOTING_POWER';
+  | 'INVALID_VOTING_POWER'
+  | 'INVALID_GAME_ID'
+  | 'PLAYER_NOT_IN_GAME'
+  | 'PLAYER_ELIMINATED'
+  | 'INVALID_TARGET'
+  | 'CLUE_NOT_FOUND';
 
 export interface IGameError {
   readonly code: ErrorCode;
@@ -34,6 +34,8 @@ export interface DeductionConfig extends GameConfig {
     readonly allowsLastWords: boolean;
     readonly enableClues: boolean;
     readonly difficultyModifiers: DifficultyModifier[];
+    readonly gameMode?: string; // Key of GAME_MODES; picks the voting preset
+    readonly votingRules?: Partial<VotingRules>; // Overrides the preset
   };
 }
 
@@ -62,6 +64,8 @@ export const DeductionConfigSchema = z.object({
     allowsLastWords: z.boolean(),
     enableClues: z.boolean(),
     difficultyModifiers: z.array(z.any()),
+    gameMode: z.string().optional(),
+    votingRules: z.lazy(() => VotingRulesSchema.partial()).optional(),
   }),
 });
 
@@ -292,11 +296,19 @@ export interface DeductionGameState extends GameState {
     readonly alivePlayers: UUID[];
     readonly eliminatedPlayers: UUID[];
     readonly votingResults?: VotingResults;
+    readonly votingRules?: VotingRules; // Older games use the defaults
+    readonly revealPolicy?: RevealPolicy; // Older games reveal roles
+    readonly allowsLastWills?: boolean; // Older games publish wills
+    readonly revealedRoles?: Record<UUID, RevealedRole>; // Public once revealed
+    readonly lastWills?: Record<UUID, string>; // Published on death
     readonly nightActions: NightAction[];
     readonly cluesAvailable: ClueCard[];
     readonly events: GamePhaseEvent[];
     readonly winCondition?: WinCondition;
-    readonly winner?: RoleAlignment | UUID;
+    readonly winner?: RoleAlignment | UUID | 'draw';
+    readonly winners?: UUID[]; // Everyone who won, including co-winners
+    readonly scoreboard?: PlayerScore[];
+    readonly createdBy?: UUID; // Host; older games fall back to the first player
   };
 }
 
@@ -307,6 +319,8 @@ export interface GamePhaseEvent {
     | 'ability_used'
     | 'clue_revealed'
     | 'phase_change'
+    | 'role_revealed'
+    | 'last_will'
     | 'victory';
   readonly description: string;
   readonly timestamp: Timestamp;
@@ -315,10 +329,49 @@ export interface GamePhaseEvent {
   readonly flavorText?: string;
 }
 
+// ============================================================================
+// ELIMINATION
+// ============================================================================
+
+// Named after the GAME_MODES features that pick them
+export type RevealPolicy = 'role_reveal_on_death' | 'no_role_reveal';
+
+export interface RevealedRole {
+  readonly role: string;
+  readonly alignment: RoleAlignment;
+}
+
+export interface LastWill {
+  readonly playerId: UUID;
+  readonly content: string;
+  readonly deathTargetId?: UUID; // Target for the role's death abilities
+  readonly updatedAt: Timestamp;
+}
+
 // ============================================================================
 // VOTING SYSTEM
 // ============================================================================
 
+export interface VotingRules {
+  readonly lynchRule: 'plurality' | 'majority'; // Majority needs over half
+  readonly allowNoLynch: boolean;
+  readonly tiebreaker: 'revote' | 'random' | 'no_elimination';
+  readonly secretBallot: boolean;
+  readonly allowSelfVote: boolean;
+  readonly doubleVoteRoles: string[]; // Role names whose vote counts twice
+  readonly timeLimit: number; // seconds
+}
+
+export const VotingRulesSchema = z.object({
+  lynchRule: z.enum(['plurality', 'majority']),
+  allowNoLynch: z.boolean(),
+  tiebreaker: z.enum(['revote', 'random', 'no_elimination']),
+  secretBallot: z.boolean(),
+  allowSelfVote: z.boolean(),
+  doubleVoteRoles: z.array(z.string().min(1).max(50)).max(10),
+  timeLimit: z.number().int().min(30).max(1800),
+});
+
 export interface VotingResults {
   readonly round: number;
   readonly votes: Vote[];
@@ -339,10 +392,12 @@ export interface Vote {
 export interface TiebreakResult {
   readonly method:
     | 'random'
+    | 'revote'
     | 'previous_votes'
     | 'special_ability'
     | 'no_elimination';
   readonly eliminated?: UUID;
+  readonly candidates?: UUID[]; // Tied players, kept for a revote
   readonly explanation: string;
 }
 
@@ -445,7 +500,8 @@ export type CommunicationType =
   | 'whisper'
   | 'team_chat'
   | 'last_words'
-  | 'vote_declaration';
+  | 'vote_declaration'
+  | 'dead_chat'; // Only eliminated players can read or write it
 
 export interface CommunicationAction extends GameAction {
   readonly type: 'send_message' | 'whisper';
@@ -486,6 +542,16 @@ export interface WinRequirement {
   readonly role?: string;
 }
 
+export interface PlayerScore {
+  readonly playerId: UUID;
+  readonly roleName: string;
+  readonly alignment: RoleAlignment;
+  readonly isAlive: boolean;
+  readonly isWinner: boolean;
+  readonly completedObjectives: string[]; // Objective IDs
+  readonly points: number;
+}
+
 // ============================================================================
 // DEDUCTION ACTION TYPES
 // ============================================================================
@@ -636,6 +702,7 @@ export const CommunicationActionSchema = z.object({
       'team_chat',
       'last_words',
       'vote_declaration',
+      'dead_chat',
     ]),
   }),
   metadata: z.record(JSONValueSchema).optional(),
@@ -73,6 +73,9 @@ export type {
   CharacterClass,
   CharacterTrait,
   CharacterBackground,
+  Spellbook,
+  DeathState,
+  GraveyardRecord,
   Inventory,
   InventoryItem,
   Item,
@@ -84,10 +87,14 @@ export type {
   ItemEffect,
   CombatSession,
   CombatParticipant,
+  CombatBehavior,
   CombatPosition,
   CombatEnvironment,
   CombatAction,
   CombatActionType,
+  CombatRewardSummary,
+  LootDistributionMode,
+  LootAllocation,
   Quest,
   QuestType,
   QuestStatus,
@@ -100,6 +107,8 @@ export type {
   NPCDialogue,
   DialogueOption,
   DialogueTree,
+  ConversationState,
+  ConversationLine,
   RPGGameState,
   RPGPhase,
   WeatherCondition,
@@ -155,7 +164,11 @@ export type {
   DeductionPhase,
   DeductionGameState,
   GamePhaseEvent,
+  RevealPolicy,
+  RevealedRole,
+  LastWill,
   VotingResults,
+  VotingRules,
   Vote,
   TiebreakResult,
   VotingAction,
@@ -170,6 +183,7 @@ export type {
   CommunicationAction,
   WinCondition,
   WinRequirement,
+  PlayerScore,
   DeductionAction,
   DeductionActionType,
   AccusationAction,
@@ -187,6 +201,7 @@ export {
   VotingActionSchema,
   CommunicationActionSchema,
   AccusationActionSchema,
+  VotingRulesSchema,
 } from './deduction';
 
 // ============================================================================
@@ -347,6 +362,8 @@ export type {
   WorldGenerationResponse,
   CharacterGenerationResponse,
   CombatActionResponse,
+  RPGActionNarrative,
+  RPGActionResponse,
   RoleAssignmentResponse,
   VotingResponse,
   VotingResultsResponse,
@@ -382,6 +399,8 @@ export type {
   LogLevel,
   LogOutput,
   DatabaseConfig,
+  StorageDriverType,
+  StorageConfig,
   VercelKVConfig,
   VercelBlobConfig,
   AIServiceSettings,
@@ -430,6 +449,7 @@ export {
   EnvironmentSchema,
   ConfigSchema,
   loadEnvironmentConfig,
+  resolveStorageConfig,
   validateConfig,
   getFeatureFlag,
   isProduction,
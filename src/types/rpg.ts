@@ -38,6 +38,8 @@ export interface RPGConfig extends GameConfig {
     readonly allowCustomCharacters: boolean;
     readonly maxLevel: number;
     readonly startingLevel: number;
+    readonly lootDistribution?: LootDistributionMode;
+    readonly tacticalCombat?: boolean; // Fight on a square grid
   };
 }
 
@@ -65,6 +67,10 @@ export const RPGConfigSchema = z.object({
     allowCustomCharacters: z.boolean(),
     maxLevel: z.number().int().min(1).max(100),
     startingLevel: z.number().int().min(1).max(20),
+    lootDistribution: z
+      .enum(['round_robin', 'need_greed', 'leader_assigns'])
+      .optional(),
+    tacticalCombat: z.boolean().optional(),
   }),
 });
 
@@ -132,6 +138,8 @@ export interface RPGPlayer extends Player {
     readonly questLog: Quest[];
     readonly relationships: Record<UUID, number>; // NPC ID -> relationship value
     readonly discoveries: UUID[]; // Location/secret IDs discovered
+    readonly conversations?: Record<UUID, ConversationState>; // NPC ID -> conversation
+    readonly lastCombatRewards?: CombatRewardSummary;
   };
 }
 
@@ -149,6 +157,31 @@ export interface Character {
   readonly currentHealth: number;
   readonly maxHealth: number;
   readonly statusEffects: StatusEffect[];
+  readonly spellbook?: Spellbook; // Absent until the character learns or casts a spell
+  readonly deathState?: DeathState; // Set once the character drops to 0 health
+}
+
+export interface DeathState {
+  readonly status: 'downed' | 'stable' | 'dead';
+  readonly successes: number; // Death saves passed while downed
+  readonly failures: number; // Death saves failed while downed
+  readonly cause?: string;
+  readonly diedAt?: Timestamp;
+}
+
+export interface GraveyardRecord {
+  readonly character: Character;
+  readonly playerId: UUID;
+  readonly cause: string;
+  readonly location: UUID; // Location ID where the character fell
+  readonly diedAt: Timestamp;
+}
+
+export interface Spellbook {
+  readonly known: string[]; // Spell IDs
+  readonly prepared: string[]; // Known spells ready to cast
+  readonly mana: number;
+  readonly cooldowns: Record<string, number>; // Spell ID -> rounds until it can be cast again
 }
 
 export interface CharacterStats {
@@ -237,6 +270,7 @@ export interface Item {
   readonly properties: ItemProperties;
   readonly requirements?: ItemRequirements;
   readonly effects?: ItemEffect[];
+  readonly charges?: number; // Uses left on wands, scrolls and other charged items
 }
 
 export type ItemType =
@@ -306,6 +340,7 @@ export interface CombatSession {
   readonly environment: CombatEnvironment;
   readonly status: 'active' | 'ended';
   readonly log: CombatLogEntry[];
+  readonly difficulty?: RPGConfig['settings']['difficulty']; // Tunes the enemy AI
 }
 
 export interface CombatParticipant {
@@ -316,8 +351,12 @@ export interface CombatParticipant {
   readonly actionPoints: number;
   readonly maxActionPoints: number;
   readonly hasActed: boolean;
+  readonly inventory?: Inventory; // Items a player can use during the fight
+  readonly behavior?: CombatBehavior; // How a computer-controlled fighter plays
 }
 
+export type CombatBehavior = Pick<NPCBehavior, 'combatStyle' | 'fleeThreshold'>;
+
 export interface CombatPosition {
   readonly x: number;
   readonly y: number;
@@ -329,6 +368,32 @@ export interface CombatEnvironment {
   readonly modifiers: EnvironmentModifier[];
   readonly hazards: EnvironmentHazard[];
   readonly size: { width: number; height: number };
+  readonly tactical?: boolean; // Positions, movement and ranges play out on the grid
+}
+
+export type LootDistributionMode =
+  | 'round_robin' // Drops go to each member in turn
+  | 'need_greed' // Members who can use a drop roll first, then everyone else
+  | 'leader_assigns'; // The leader takes everything to hand out
+
+export interface LootAllocation {
+  readonly item: Item;
+  readonly characterId?: UUID; // Missing when no one had room for it
+  readonly claim?: 'need' | 'greed';
+  readonly roll?: number;
+}
+
+export interface CombatRewardSummary {
+  readonly combatId: UUID;
+  readonly victor: 'players' | 'enemies' | 'draw';
+  readonly experienceGained: number;
+  readonly levelsGained: number;
+  readonly level: number;
+  readonly currency: number;
+  readonly itemsReceived: Item[];
+  readonly distribution: LootDistributionMode;
+  readonly allocations: LootAllocation[]; // The whole party's share-out
+  readonly timestamp: Timestamp;
 }
 
 export interface CombatAction extends GameAction {
@@ -349,6 +414,7 @@ export type CombatActionType =
   | 'cast_spell'
   | 'use_item'
   | 'flee'
+  | 'stabilize'
   | 'wait';
 
 // ============================================================================
@@ -478,6 +544,27 @@ export interface DialogueTree {
   readonly branches: Record<string, DialogueOption[]>;
 }
 
+/**
+ * Where a player is in a conversation with one NPC. `path` alternates the
+ * index of each option the player chose with the index of the NPC line that
+ * answered it, starting from the index of the opening line.
+ */
+export interface ConversationState {
+  readonly npcId: UUID;
+  readonly topic?: string; // Key into NPCDialogue.conversations; greetings when absent
+  readonly branch?: string; // Key into DialogueTree.branches the conversation opened with
+  readonly path: number[];
+  readonly ended: boolean;
+  readonly history: ConversationLine[];
+  readonly updatedAt: number;
+}
+
+export interface ConversationLine {
+  readonly speaker: 'npc' | 'player';
+  readonly text: string;
+  readonly generated?: boolean; // Free-form line from the AI rather than the tree
+}
+
 // ============================================================================
 // RPG GAME STATE
 // ============================================================================
@@ -494,6 +581,10 @@ export interface RPGGameState extends GameState {
     readonly globalFlags: Record<string, boolean>;
     readonly partyInventory: Inventory;
     readonly partyReputation: Record<UUID, number>; // Faction ID -> reputation
+    readonly lootDistribution?: LootDistributionMode;
+    readonly difficulty?: RPGConfig['settings']['difficulty'];
+    readonly tacticalCombat?: boolean;
+    readonly permaDeath?: boolean;
   };
 }
 
@@ -559,6 +650,7 @@ export interface EnvironmentHazard {
   readonly type: 'fire' | 'ice' | 'poison' | 'physical' | 'magical';
   readonly frequency: number; // Chance per turn
   readonly area: CombatPosition[];
+  readonly terrain?: 'difficult' | 'blocked'; // Otherwise hazardous if it deals damage
 }
 
 export interface CombatLogEntry {
@@ -681,6 +773,7 @@ export const CombatActionSchema = z.object({
     'cast_spell',
     'use_item',
     'flee',
+    'stabilize',
     'wait',
   ]),
   playerId: UUIDSchema,
@@ -696,7 +789,7 @@ export const CombatActionSchema = z.object({
       })
       .optional(),
     itemId: UUIDSchema.optional(),
-    spellId: UUIDSchema.optional(),
+    spellId: z.string().min(1).max(64).optional(),
     skillUsed: z
       .enum([
         'combat',
@@ -798,6 +891,7 @@ export type CombatActionType =
   | 'cast_spell'
   | 'use_item'
   | 'flee'
+  | 'stabilize'
   | 'wait';
 
 // Validation schemas for AI response data
@@ -889,6 +983,7 @@ export const CombatDataSchema = z.object({
       'cast_spell',
       'use_item',
       'flee',
+      'stabilize',
       'wait',
     ])
   ),